@@ -0,0 +1,56 @@
+/**
+ * Verifies an audit evidence bundle offline (the "Export evidence bundle"
+ * file from the audit report page). No network unless --keys is a URL.
+ *
+ *   npm run verify-evidence -- evidence-CP-2026-001.json \
+ *     [--keys https://<project>.supabase.co/functions/v1/audit-signing-keys]
+ *
+ * runs it through tsx on any Node the repo supports. Outside a checkout
+ * with node_modules, Node 22.6+ runs it with no install:
+ *
+ *   node --experimental-strip-types scripts/verify-evidence-bundle.ts …
+ *
+ * --keys takes the published key set (URL or a saved JSON file) so the
+ * bundle's own keys are checked against it. Exits 0 when every check
+ * passes, 1 when any fails, 2 on bad usage.
+ */
+import { readFile } from "node:fs/promises";
+import {
+  formatVerification,
+  verifyEvidenceBundle,
+} from "../src/lib/evidence-bundle/verify.ts";
+import type { BundleKey } from "../src/lib/evidence-bundle/format.ts";
+
+async function loadKeys(source: string): Promise<BundleKey[]> {
+  const text = /^https?:\/\//.test(source)
+    ? await (await fetch(source)).text()
+    : await readFile(source, "utf8");
+  const parsed = JSON.parse(text) as { keys?: BundleKey[] };
+  if (!Array.isArray(parsed.keys)) {
+    throw new Error(`${source} is not a JWK set`);
+  }
+  return parsed.keys;
+}
+
+async function main(args: string[]): Promise<number> {
+  const keysFlag = args.indexOf("--keys");
+  const keysSource = keysFlag >= 0 ? args[keysFlag + 1] : undefined;
+  const positional =
+    keysFlag >= 0
+      ? args.filter((_, i) => i < keysFlag || i > keysFlag + 1)
+      : args;
+  if (positional.length !== 1 || (keysFlag >= 0 && !keysSource)) {
+    console.error(
+      "usage: verify-evidence-bundle.ts <bundle.json> [--keys <url|file>]",
+    );
+    return 2;
+  }
+
+  const bundle = JSON.parse(await readFile(positional[0], "utf8"));
+  const publishedKeys = keysSource ? await loadKeys(keysSource) : undefined;
+  const result = await verifyEvidenceBundle(bundle, { publishedKeys });
+  console.log(formatVerification(result));
+  return result.ok ? 0 : 1;
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -19,6 +19,7 @@ import DashboardPage from "@/pages/DashboardPage";
 const ForgotPasswordPage = lazy(() => import("@/pages/ForgotPasswordPage"));
 const ResetPasswordPage = lazy(() => import("@/pages/ResetPasswordPage"));
 const SettingsPage = lazy(() => import("@/pages/SettingsPage"));
+const MailboxCallbackPage = lazy(() => import("@/pages/MailboxCallbackPage"));
 const ClientsListPage = lazy(() => import("@/pages/ClientsListPage"));
 const ClientNewPage = lazy(() => import("@/pages/ClientNewPage"));
 const ClientDetailPage = lazy(() => import("@/pages/ClientDetailPage"));
@@ -29,9 +30,16 @@ const AuditReportPage = lazy(() => import("@/pages/AuditReportPage"));
 const DeliveriesListPage = lazy(() => import("@/pages/DeliveriesListPage"));
 const DeliveryComposerPage = lazy(() => import("@/pages/DeliveryComposerPage"));
 const PrintAuditReportPage = lazy(() => import("@/pages/PrintAuditReportPage"));
+const VerifyEvidencePage = lazy(() => import("@/pages/VerifyEvidencePage"));
+const AuditExportPage = lazy(() => import("@/pages/AuditExportPage"));
 const HelpPage = lazy(() => import("@/pages/HelpPage"));
 const InternalFeedbackPage = lazy(() => import("@/pages/InternalFeedbackPage"));
 const NotFoundPage = lazy(() => import("@/pages/NotFoundPage"));
+// Dev-only: the capture email transport's inbox. Not registered (nor
+// bundled) in production builds.
+const DevInboxPage = import.meta.env.DEV
+  ? lazy(() => import("@/pages/DevInboxPage"))
+  : null;
 
 export default function App() {
   return (
@@ -50,6 +58,7 @@ export default function App() {
               </AppErrorBoundary>
             }
           />
+          <Route path="/verify-evidence" element={<VerifyEvidencePage />} />
           <Route element={<ProtectedRoute />}>
             {/* Print routes deliberately render outside AppShell so the
                 sidebar/header don't appear in the PDF output. */}
@@ -69,8 +78,16 @@ export default function App() {
               <Route path="/projects/:id/deliver" element={<DeliveryComposerPage />} />
               <Route path="/projects/:id/deliveries" element={<DeliveriesListPage />} />
               <Route path="/feedback" element={<InternalFeedbackPage />} />
+              <Route path="/audit-export" element={<AuditExportPage />} />
               <Route path="/help" element={<HelpPage />} />
               <Route path="/settings" element={<SettingsPage />} />
+              <Route
+                path="/settings/mailbox/callback"
+                element={<MailboxCallbackPage />}
+              />
+              {DevInboxPage && (
+                <Route path="/dev/inbox" element={<DevInboxPage />} />
+              )}
             </Route>
           </Route>
           <Route path="*" element={<NotFoundPage />} />
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import tsSrc from '../lib/audit-events-display.ts?raw';
+import denoSrc from '../../supabase/functions/_shared/audit-event-labels.ts?raw';
+
+function extractDriftRegion(src: string, name: string): string {
+  const re = new RegExp(
+    `// drift:start ${name}\\r?\\n([\\s\\S]*?)\\r?\\n// drift:end ${name}`,
+  );
+  const match = src.match(re);
+  if (!match) {
+    throw new Error(`Could not locate drift region "${name}" in source`);
+  }
+  return match[1];
+}
+
+describe('audit event labels drift (TS vs Deno _shared/audit-event-labels)', () => {
+  it('AUDIT_EVENT_LABELS region is byte-identical across both files', () => {
+    const ts = extractDriftRegion(tsSrc, 'AUDIT_EVENT_LABELS');
+    const deno = extractDriftRegion(denoSrc, 'AUDIT_EVENT_LABELS');
+    expect(deno).toBe(ts);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AUDIT_EXPORT_COLUMNS,
+  AuditExportRequestSchema,
+  auditExportFilename,
+  buildAuditExportCsv,
+  buildAuditExportHtml,
+  buildAuditExportJsonl,
+  buildAuditExportPdfOptions,
+  toAuditExportRow,
+  type AuditExportContext,
+  type AuditExportSourceEvent,
+} from '../../supabase/functions/_shared/audit-export';
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+const CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+
+function event(
+  overrides: Partial<AuditExportSourceEvent> = {},
+): AuditExportSourceEvent {
+  return {
+    id: 'e1',
+    project_id: PROJECT_ID,
+    audit_report_id: null,
+    chain_seq: 1,
+    occurred_at: '2026-05-12T05:30:00.000Z',
+    event_type: 'variant_generated',
+    actor_type: 'system',
+    actor_id: null,
+    actor_name_snapshot: null,
+    model_used: 'claude-sonnet-4-5-20250929',
+    details: { prompt_version: 'variant-gen-v7', variant_index: 1 },
+    event_hash: 'b'.repeat(64),
+    prev_hash: null,
+    project: {
+      name: 'Q2 新製品発表',
+      client: { id: CLIENT_ID, name: '株式会社サンプル' },
+    },
+    ...overrides,
+  };
+}
+
+const signOff = event({
+  id: 'e2',
+  chain_seq: 2,
+  event_type: 'sign_off',
+  actor_type: 'user',
+  actor_id: 'u1',
+  actor_name_snapshot: '山田, "太郎"',
+  model_used: null,
+  details: { signature_hash: 'c'.repeat(64), key_id: 'k-2026' },
+  prev_hash: 'b'.repeat(64),
+  event_hash: 'd'.repeat(64),
+});
+
+const ctx: AuditExportContext = {
+  generated_at: '2026-05-13T01:00:00.000Z',
+  generated_by: '佐藤',
+  client_name: '株式会社サンプル',
+  actor_name: null,
+  project_names: [],
+  filters: {
+    client_id: CLIENT_ID,
+    from: '2026-05-01T00:00:00+09:00',
+    event_types: ['sign_off'],
+  },
+};
+
+describe('AuditExportRequestSchema', () => {
+  it('accepts a format with no filters', () => {
+    expect(AuditExportRequestSchema.safeParse({ format: 'csv' }).success).toBe(
+      true,
+    );
+  });
+
+  it('rejects an unknown format and a reversed range', () => {
+    expect(AuditExportRequestSchema.safeParse({ format: 'xlsx' }).success).toBe(
+      false,
+    );
+    expect(
+      AuditExportRequestSchema.safeParse({
+        format: 'jsonl',
+        from: '2026-05-02T00:00:00+09:00',
+        to: '2026-05-01T00:00:00+09:00',
+      }).success,
+    ).toBe(false);
+  });
+});
+
+describe('toAuditExportRow', () => {
+  it('lifts model, prompt version and bilingual label out of the event', () => {
+    const row = toAuditExportRow(event());
+    expect(row.model_used).toBe('claude-sonnet-4-5-20250929');
+    expect(row.prompt_version).toBe('variant-gen-v7');
+    expect(row.event_label_ja).toBe('変種生成');
+    expect(row.event_label_en).toBe('Variant generated');
+    expect(row.client_name).toBe('株式会社サンプル');
+  });
+
+  it('lifts the signature hash and key from sign_off details', () => {
+    const row = toAuditExportRow(signOff);
+    expect(row.signature_hash).toBe('c'.repeat(64));
+    expect(row.signature_key_id).toBe('k-2026');
+    expect(row.prompt_version).toBeNull();
+  });
+
+  it('falls back to details.model_used when the column is empty', () => {
+    const row = toAuditExportRow(
+      event({ model_used: null, details: { model_used: 'claude-x' } }),
+    );
+    expect(row.model_used).toBe('claude-x');
+  });
+});
+
+describe('buildAuditExportCsv', () => {
+  const csv = buildAuditExportCsv([event(), signOff].map(toAuditExportRow));
+
+  it('starts with a BOM and the header row, CRLF-terminated', () => {
+    expect(
+      csv.startsWith('\uFEFF' + AUDIT_EXPORT_COLUMNS.join(',') + '\r\n'),
+    ).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csv.split('\r\n')).toHaveLength(4);
+  });
+
+  it('quotes cells with commas and quotes, and embeds details as JSON', () => {
+    expect(csv).toContain('"山田, ""太郎"""');
+    expect(csv).toContain(
+      '"{""prompt_version"":""variant-gen-v7"",""variant_index"":1}"',
+    );
+  });
+});
+
+describe('buildAuditExportJsonl', () => {
+  it('writes one object per line in column order', () => {
+    const jsonl = buildAuditExportJsonl(
+      [event(), signOff].map(toAuditExportRow),
+    );
+    const lines = jsonl.trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+    const parsed = JSON.parse(lines[1]);
+    expect(Object.keys(parsed)).toEqual([...AUDIT_EXPORT_COLUMNS]);
+    expect(parsed.signature_hash).toBe('c'.repeat(64));
+    expect(parsed.details).toEqual({
+      signature_hash: 'c'.repeat(64),
+      key_id: 'k-2026',
+    });
+  });
+
+  it('is empty for no events', () => {
+    expect(buildAuditExportJsonl([])).toBe('');
+  });
+});
+
+describe('buildAuditExportHtml', () => {
+  it('renders the filters, a bilingual row per event and escapes names', () => {
+    const html = buildAuditExportHtml(
+      [event(), signOff].map(toAuditExportRow),
+      ctx,
+    );
+    expect(html).toContain('株式会社サンプル');
+    expect(html).toContain('2026-05-01 00:00 JST');
+    expect(html).toContain('署名 / Sign off');
+    expect(html).toContain(
+      '変種生成<br><span class="meta">Variant generated</span>',
+    );
+    expect(html).toContain('prompt: variant-gen-v7');
+    expect(html).toContain('c'.repeat(64));
+    expect(html).toContain('山田, &quot;太郎&quot;');
+  });
+
+  it('says so when nothing matched', () => {
+    expect(buildAuditExportHtml([], ctx)).toContain('No events');
+  });
+
+  it('puts the page counter in the footer', () => {
+    const opts = buildAuditExportPdfOptions(ctx);
+    expect(opts.footer?.source).toContain('{{page}} / {{total}}');
+    expect(opts.footer?.source).toContain('2026-05-13 10:00 JST');
+  });
+});
+
+describe('auditExportFilename', () => {
+  it('stamps the JST time and the format extension', () => {
+    expect(auditExportFilename('jsonl', '2026-05-12T15:30:00.000Z')).toBe(
+      'audit-trail_20260513-0030.jsonl',
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import {
+  auditArchiveFilename,
+  auditArchivePath,
+  buildAuditReportFooterText,
+  buildAuditReportHtml,
+  buildAuditReportPdfOptions,
+  formatJstDateTime,
+  sha256HexBytes,
+  type AuditArchiveInput,
+} from '../../supabase/functions/_shared/audit-report-pdf';
+import { DRAFT_BANNER_TEXT } from '../../supabase/functions/_shared/doc-rendering';
+
+const SHA = 'a'.repeat(64);
+
+const variant = (index: number, label: string) => ({
+  id: `3333333${index}-3333-4333-8333-333333333333`,
+  variant_label: label,
+  variant_index: index,
+  body_text: `本文${index}`,
+  body_html: null,
+  char_count: 30,
+  reading_time_seconds: 60,
+  internal_approved_by: { id: 'u1', name: '佐藤' },
+  internal_approved_at: '2026-05-13T01:00:00.000Z',
+  model_used: 'claude-sonnet-4-20250514',
+  generation_params: {},
+  findings: [],
+});
+
+const fixture: AuditArchiveInput = {
+  project: { name: 'Q1 Press 2026', client_name: 'Acme Pharma' },
+  report: {
+    id: '55555555-5555-4555-8555-555555555555',
+    project_id: '11111111-1111-4111-8111-111111111111',
+    report_id_display: 'AR-2026-0007',
+    version: '1.1',
+    status: 'finalized',
+    finalized_at: '2026-05-13T16:00:00.000Z',
+    previous_version_id: '66666666-6666-4666-8666-666666666666',
+    reviewer_comments: 'Corrected efficacy claim',
+    signoff_roles: ['reviewer', 'legal_counsel'],
+    report_snapshot: {
+      variants: [
+        variant(2, 'カジュアル'),
+        {
+          ...variant(1, 'フォーマル'),
+          findings: [
+            {
+              id: 'f1',
+              variant_id: '33333331-3333-4333-8333-333333333333',
+              severity: 'blocker',
+              source_text: '必ず治る',
+              paragraph_index: 0,
+              explanation: '効能の保証表現',
+              regulation_reference: '薬機法 第66条',
+              suggested_correction: '改善が期待される',
+              resolution_status: 'fixed',
+              resolved_by: { id: 'u1', name: '佐藤' },
+              resolved_at: '2026-05-13T02:00:00.000Z',
+              created_at: '2026-05-13T00:30:00.000Z',
+            },
+          ],
+        },
+      ],
+    },
+  },
+  signatures: [
+    {
+      signoff_role: 'reviewer',
+      signer_name_snapshot: '佐藤',
+      signer_role_snapshot: 'reviewer',
+      signed_at: '2026-05-13T15:00:00.000Z',
+      algorithm: 'ed25519',
+      key_id: 'k-2026-05',
+      signature_hash: 'cafebabe',
+      invalidated_at: null,
+      invalidated_reason: null,
+    },
+    {
+      signoff_role: 'legal_counsel',
+      signer_name_snapshot: '田中',
+      signer_role_snapshot: 'admin',
+      signed_at: '2026-05-13T14:00:00.000Z',
+      algorithm: 'ed25519',
+      key_id: 'k-2026-05',
+      signature_hash: 'deadbeef',
+      invalidated_at: '2026-05-13T14:30:00.000Z',
+      invalidated_reason: 'content_changed',
+    },
+  ],
+  auditTrail: [
+    {
+      chain_seq: 2,
+      occurred_at: '2026-05-13T15:00:00.000Z',
+      event_type: 'sign_off',
+      actor_type: 'user',
+      actor_name_snapshot: '佐藤',
+      model_used: null,
+      event_hash: 'b'.repeat(64),
+    },
+    {
+      chain_seq: 1,
+      occurred_at: '2026-05-13T00:00:00.000Z',
+      event_type: 'variant_generated',
+      actor_type: 'system',
+      actor_name_snapshot: null,
+      model_used: 'claude-sonnet-4-20250514',
+      event_hash: 'c'.repeat(64),
+    },
+  ],
+};
+
+describe('formatJstDateTime', () => {
+  it('prints JST wall-clock time, crossing the date line', () => {
+    expect(formatJstDateTime('2026-05-13T16:00:00.000Z')).toBe(
+      '2026-05-14 01:00 JST',
+    );
+  });
+  it('returns empty string for invalid input', () => {
+    expect(formatJstDateTime('not a date')).toBe('');
+  });
+});
+
+describe('buildAuditReportHtml', () => {
+  const html = buildAuditReportHtml(fixture);
+
+  it('is the formal record: no DRAFT banner', () => {
+    expect(html).not.toContain(DRAFT_BANNER_TEXT);
+    expect(html).not.toContain('DRAFT FOR REVIEW');
+  });
+
+  it('prints the report metadata, client and revision reason', () => {
+    expect(html).toContain('AR-2026-0007');
+    expect(html).toContain('Acme Pharma');
+    expect(html).toContain('2026-05-14 01:00 JST');
+    expect(html).toContain('Corrected efficacy claim');
+    expect(html).toContain('PR reviewer → 法務担当 / Legal counsel');
+  });
+
+  it('renders variants from the snapshot in variant_index order', () => {
+    const i1 = html.indexOf('案1 · フォーマル');
+    const i2 = html.indexOf('案2 · カジュアル');
+    expect(i1).toBeGreaterThan(-1);
+    expect(i1).toBeLessThan(i2);
+    expect(html).toContain('<pre>本文1</pre>');
+  });
+
+  it('lists findings with severity, reference and suggested correction', () => {
+    expect(html).toContain('阻止 / Blocker');
+    expect(html).toContain('薬機法 第66条');
+    expect(html).toContain('修正案 / Suggested: 改善が期待される');
+    expect(html).toContain('指摘なし / No findings');
+  });
+
+  it('includes every signature, marking invalidated ones', () => {
+    expect(html).toContain('cafebabe');
+    expect(html).toContain('deadbeef');
+    expect(html).toContain('無効 / Invalidated 2026-05-13 23:30 JST — content_changed');
+  });
+
+  it('prints the audit trail in chain order with its head hash', () => {
+    expect(html.indexOf('variant_generated')).toBeLessThan(
+      html.indexOf('<td>sign_off'),
+    );
+    expect(html).toContain(`Chain head: #2 <span class="hash">${'b'.repeat(64)}`);
+    expect(html).toContain('システム / System');
+  });
+
+  it('html-escapes snapshot and signer content', () => {
+    const out = buildAuditReportHtml({
+      ...fixture,
+      project: { name: '<script>alert(1)</script>', client_name: null },
+      signatures: [
+        { ...fixture.signatures[0], signer_name_snapshot: '<img onerror=x>' },
+      ],
+    });
+    expect(out).not.toContain('<script>alert(1)</script>');
+    expect(out).not.toContain('<img onerror=x>');
+    expect(out).toContain('&lt;img onerror=x&gt;');
+  });
+
+  it('tolerates a missing snapshot and an empty trail', () => {
+    const out = buildAuditReportHtml({
+      ...fixture,
+      report: { ...fixture.report, report_snapshot: null },
+      signatures: [],
+      auditTrail: [],
+    });
+    expect(out).toContain('署名なし / No signatures');
+    expect(out).toContain('イベントなし / No events');
+    expect(out).not.toContain('<section class="variant">');
+  });
+});
+
+describe('buildAuditReportPdfOptions', () => {
+  it('carries a footer with report ID, version, finalized date and page counter', () => {
+    expect(buildAuditReportFooterText(fixture.report)).toBe(
+      'AR-2026-0007 · v1.1 · 確定 / Finalized 2026-05-14',
+    );
+    const opts = buildAuditReportPdfOptions(fixture.report);
+    expect(opts.header).toBeUndefined();
+    expect(opts.footer?.source).toContain('AR-2026-0007 · v1.1');
+    expect(opts.footer?.source).toContain('{{page}} / {{total}}');
+    expect(opts.format).toBe('A4');
+  });
+});
+
+describe('archive naming and hashing', () => {
+  it('content-addresses the storage path under project and report', () => {
+    expect(auditArchivePath(fixture.report, SHA)).toBe(
+      `11111111-1111-4111-8111-111111111111/55555555-5555-4555-8555-555555555555/${SHA}.pdf`,
+    );
+  });
+
+  it('names the download after the report ID and version', () => {
+    expect(auditArchiveFilename(fixture.report)).toBe('AR-2026-0007_v1.1.pdf');
+  });
+
+  it('hashes raw bytes with SHA-256', async () => {
+    expect(await sha256HexBytes(new TextEncoder().encode('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+  });
+});
@@ -0,0 +1,270 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Runs finalize_audit_report against a fresh local stack (migrations
+// applied), the way sign-audit-report calls it:
+//
+//   npx supabase start && npx supabase db reset
+//   LOCAL_SUPABASE_URL=http://127.0.0.1:54321 LOCAL_SUPABASE_SERVICE_ROLE_KEY=… \
+//     npx vitest run audit-signoff
+//
+// CI runs it in the `database` job (.github/workflows/ci.yml).
+//
+// The database does not verify the Ed25519 signature itself, so the tests
+// sign with a placeholder and exercise the gates and signature state.
+const env = import.meta.env;
+const localUrl: string | undefined = env.LOCAL_SUPABASE_URL;
+const localServiceKey: string | undefined = env.LOCAL_SUPABASE_SERVICE_ROLE_KEY;
+
+interface TrailHead {
+  chain_seq: number;
+  event_hash: string;
+}
+
+interface Signer {
+  id: string;
+  client: SupabaseClient;
+}
+
+describe.skipIf(!localUrl || !localServiceKey)(
+  'audit sign-off against a local database',
+  () => {
+    let service: SupabaseClient;
+    let reviewer: Signer;
+    let stamp = 0;
+    let keyId = '';
+    let projectId = '';
+    let variantId = '';
+    let auditReportId = '';
+
+    // Rows are left behind: audit_trail_events is append-only, so the
+    // project cannot be deleted.
+    beforeAll(async () => {
+      service = createClient(localUrl!, localServiceKey!, {
+        auth: { persistSession: false },
+      });
+      stamp = Date.now();
+      reviewer = await createSigner('reviewer');
+
+      keyId = `signoff-${stamp}`;
+      await service
+        .from('audit_signing_keys')
+        .insert({ key_id: keyId, public_key: `test-key-${stamp}` })
+        .throwOnError();
+      const { data: client } = await service
+        .from('clients')
+        .insert({ name: `signoff ${stamp}`, created_by: reviewer.id })
+        .select('id')
+        .single()
+        .throwOnError();
+      // Two roles, so the first signature leaves the report partially signed.
+      await service
+        .from('signoff_policies')
+        .insert({ client_id: client.id, roles: ['reviewer', 'legal_counsel'] })
+        .throwOnError();
+      const { data: project } = await service
+        .from('projects')
+        .insert({
+          client_id: client.id,
+          name: 'signoff',
+          created_by: reviewer.id,
+        })
+        .select('id')
+        .single()
+        .throwOnError();
+      const { data: item } = await service
+        .from('content_items')
+        .insert({
+          project_id: project.id,
+          content_type: 'press_release',
+          brief_free_text: 'signoff',
+        })
+        .select('id')
+        .single()
+        .throwOnError();
+      const approvedAt = new Date(Date.now() - 60_000).toISOString();
+      const { data: variant } = await service
+        .from('content_variants')
+        .insert({
+          content_item_id: item.id,
+          variant_index: 1,
+          variant_label: 'A',
+          body_text: 'Original body.',
+          char_count: 14,
+          reading_time_seconds: 5,
+          model_used: 'test',
+          internal_approved: true,
+          internal_approved_at: approvedAt,
+          updated_at: approvedAt,
+        })
+        .select('id')
+        .single()
+        .throwOnError();
+      projectId = project.id;
+      variantId = variant.id;
+      await recordComplianceRun();
+
+      const { data: report } = await service
+        .from('audit_reports')
+        .insert({
+          project_id: projectId,
+          report_id_display: `AR-${stamp}`,
+          created_by: reviewer.id,
+        })
+        .select('id')
+        .single()
+        .throwOnError();
+      auditReportId = report.id;
+    });
+
+    // A signed-in firm user. Requests carry their JWT, so auth.uid() is the
+    // signer.
+    async function createSigner(name: string): Promise<Signer> {
+      const email = `signoff-${name}-${stamp}@example.com`;
+      const password = `signoff-${stamp}`;
+      const { data: auth, error: authError } =
+        await service.auth.admin.createUser({
+          email,
+          password,
+          email_confirm: true,
+        });
+      if (authError) throw authError;
+      const client = createClient(localUrl!, localServiceKey!, {
+        auth: { persistSession: false },
+      });
+      const { error: signInError } = await client.auth.signInWithPassword({
+        email,
+        password,
+      });
+      if (signInError) throw signInError;
+      return { id: auth.user.id, client };
+    }
+
+    // A clean compliance run, as compliance-check records it.
+    async function recordComplianceRun() {
+      await service
+        .rpc('record_compliance_check', {
+          p_variant_id: variantId,
+          p_project_id: projectId,
+          p_findings: [],
+          p_audit_details: {},
+          p_model_used: 'test',
+        })
+        .throwOnError();
+    }
+
+    async function trailHead(): Promise<TrailHead> {
+      const { data } = await service
+        .from('audit_trail_events')
+        .select('chain_seq, event_hash')
+        .eq('project_id', projectId)
+        .order('chain_seq', { ascending: false })
+        .limit(1)
+        .single()
+        .throwOnError();
+      return data;
+    }
+
+    // sign-audit-report's payload, minus the Ed25519 signature.
+    async function sign(signer: Signer, signoffRole: string, head?: TrailHead) {
+      const { data: snapshot } = await signer.client
+        .rpc('_build_audit_snapshot', { p_project_id: projectId })
+        .throwOnError();
+      return signer.client.rpc('finalize_audit_report', {
+        p_audit_report_id: auditReportId,
+        p_signature_hash: '00',
+        p_canonical_payload: {
+          audit_trail_head: head ?? (await trailHead()),
+          key_id: keyId,
+          project_id: projectId,
+          report_id: auditReportId,
+          report_snapshot: snapshot,
+          signer_id: signer.id,
+          signoff_role: signoffRole,
+        },
+      });
+    }
+
+    async function signatures() {
+      const { data } = await service
+        .from('audit_signatures')
+        .select('id, signoff_role, invalidated_at, invalidated_reason')
+        .eq('audit_report_id', auditReportId)
+        .order('signed_at')
+        .throwOnError();
+      return data;
+    }
+
+    it('invalidates the earlier signature when the content changed before the next one', async () => {
+      const first = await sign(reviewer, 'reviewer');
+      expect(first.error).toBeNull();
+
+      await service
+        .from('content_variants')
+        .update({
+          body_text: 'Edited body.',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', variantId)
+        .throwOnError();
+      await recordComplianceRun();
+
+      const second = await sign(reviewer, 'reviewer');
+      expect(second.error).toBeNull();
+
+      const rows = await signatures();
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        signoff_role: 'reviewer',
+        invalidated_reason: 'content_changed',
+      });
+      expect(rows[0].invalidated_at).not.toBeNull();
+      expect(rows[1]).toMatchObject({
+        signoff_role: 'reviewer',
+        invalidated_at: null,
+      });
+    }, 30_000);
+
+    it('refuses a signature over an audit trail head that is no longer current', async () => {
+      const oldHead = await trailHead();
+      await recordComplianceRun();
+
+      const result = await sign(reviewer, 'legal_counsel', oldHead);
+      expect(result.error?.message).toBe('audit_trail_head_stale');
+    }, 30_000);
+
+    it('refuses a signature inserted directly instead of through finalize_audit_report', async () => {
+      const { error } = await reviewer.client.from('audit_signatures').insert({
+        audit_report_id: auditReportId,
+        signer_id: reviewer.id,
+        signer_name_snapshot: 'Counsel',
+        signer_role_snapshot: 'legal_counsel',
+        signoff_role: 'legal_counsel',
+        algorithm: 'ed25519',
+        signature_hash: '00',
+        key_id: keyId,
+        canonical_payload: {},
+      });
+      expect(error?.code).toBe('42501');
+      expect(
+        (await signatures()).filter((s) => s.signoff_role === 'legal_counsel'),
+      ).toEqual([]);
+    }, 30_000);
+
+    it('fills the legal counsel slot only for a legal_counsel user', async () => {
+      const counsel = await createSigner('counsel');
+
+      const refused = await sign(counsel, 'legal_counsel');
+      expect(refused.error?.message).toBe('signer_role_not_allowed');
+
+      await service
+        .from('users')
+        .update({ role: 'legal_counsel' })
+        .eq('id', counsel.id)
+        .throwOnError();
+      const signed = await sign(counsel, 'legal_counsel');
+      expect(signed.error).toBeNull();
+      expect(signed.data).toMatchObject({ status: 'finalized' });
+    }, 30_000);
+  },
+);
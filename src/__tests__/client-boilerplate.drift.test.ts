@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import tsSrc from '../lib/client-boilerplate.ts?raw';
+import denoSrc from '../../supabase/functions/_shared/client-boilerplate.ts?raw';
+import {
+  appendManagedBoilerplate,
+  applyManagedBoilerplate,
+  boilerplateText,
+  managedBlockTypes,
+  selectManagedBoilerplate,
+  type ManagedBoilerplate,
+} from '../lib/client-boilerplate';
+import { documentToText } from '../lib/variant-document';
+
+function extractDriftRegion(src: string, name: string): string {
+  const re = new RegExp(
+    `// drift:start ${name}\\r?\\n([\\s\\S]*?)\\r?\\n// drift:end ${name}`,
+  );
+  const match = src.match(re);
+  if (!match) {
+    throw new Error(`Could not locate drift region "${name}" in source`);
+  }
+  return match[1];
+}
+
+describe('client-boilerplate drift (TS mirror vs Deno _shared/client-boilerplate)', () => {
+  it('CLIENT_BOILERPLATE region is byte-identical across both files', () => {
+    expect(extractDriftRegion(denoSrc, 'CLIENT_BOILERPLATE')).toBe(
+      extractDriftRegion(tsSrc, 'CLIENT_BOILERPLATE'),
+    );
+  });
+});
+
+const block = (over: Partial<ManagedBoilerplate>): ManagedBoilerplate => ({
+  id: 'b',
+  kind: 'about',
+  language: 'ja',
+  heading: '会社概要',
+  body: '当社は…。',
+  version: 1,
+  content_types: [],
+  ...over,
+});
+
+const SCOPE = { contentType: 'press_release', language: 'ja' as const };
+
+describe('selectManagedBoilerplate', () => {
+  it('keeps the blocks for the language and content type, in document order', () => {
+    const blocks = [
+      block({ id: 'contact', kind: 'media_contact' }),
+      block({ id: 'en', language: 'en' }),
+      block({ id: 'blog', content_types: ['blog_post'] }),
+      block({ id: 'disclaimer-1', kind: 'disclaimer' }),
+      block({ id: 'pr', content_types: ['press_release'] }),
+      block({ id: 'disclaimer-2', kind: 'disclaimer' }),
+    ];
+    expect(selectManagedBoilerplate(blocks, SCOPE).map((b) => b.id)).toEqual([
+      'pr',
+      'disclaimer-1',
+      'disclaimer-2',
+      'contact',
+    ]);
+  });
+});
+
+describe('applyManagedBoilerplate', () => {
+  const about = block({ body: '当社は承認済みの概要です。' });
+  const contact = block({
+    kind: 'media_contact',
+    heading: 'お問い合わせ',
+    body: '広報部',
+  });
+
+  it("replaces the model's boilerplate and contact blocks with the managed text", () => {
+    const doc = applyManagedBoilerplate(
+      {
+        version: 1,
+        blocks: [
+          { type: 'paragraph', text: '本文です。' },
+          { type: 'boilerplate', heading: '会社概要', text: '創作された概要' },
+          { type: 'contact', text: 'TEL 03-1234-5678' },
+        ],
+      },
+      [about, contact],
+    );
+    expect(doc.blocks).toEqual([
+      { type: 'paragraph', text: '本文です。' },
+      {
+        type: 'boilerplate',
+        heading: '会社概要',
+        text: '当社は承認済みの概要です。',
+      },
+      { type: 'contact', text: 'お問い合わせ\n広報部' },
+    ]);
+    const text = documentToText(doc);
+    expect(text).toContain(boilerplateText(about));
+    expect(text).toContain(boilerplateText(contact));
+  });
+
+  it('only replaces the block types that are managed', () => {
+    expect(managedBlockTypes([about])).toEqual(['boilerplate']);
+    const doc = applyManagedBoilerplate(
+      { version: 1, blocks: [{ type: 'contact', text: '広報部' }] },
+      [about],
+    );
+    expect(doc.blocks.map((b) => b.type)).toEqual(['contact', 'boilerplate']);
+  });
+
+  it('appends the same text to a plain-text body', () => {
+    expect(appendManagedBoilerplate('本文です。', [about, contact])).toBe(
+      ['本文です。', boilerplateText(about), boilerplateText(contact)].join(
+        '\n\n',
+      ),
+    );
+    expect(appendManagedBoilerplate('本文です。', [])).toBe('本文です。');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  summarizeVariantDifferences,
+  type ComparisonSourceVariant,
+} from '@/lib/comparison-summary';
+
+const HEADLINE = '新薬Xの第III相試験で主要評価項目を達成';
+const ANNOUNCE =
+  '株式会社サンプルは本日、新薬Xの第III相試験の結果を発表いたしました。';
+const DATA = '試験には120施設から850名が参加し、奏効率は42%でした。';
+const QUOTE =
+  '代表取締役は「患者さんに新たな選択肢を届けられることを誇りに思います」と述べています。';
+const CLOSE = '今後、承認申請に向けた準備を進めてまいります。';
+
+function variant(
+  index: number,
+  label: string,
+  paragraphs: string[],
+  charCount?: number,
+): ComparisonSourceVariant {
+  const body_text = paragraphs.join('\n');
+  return {
+    id: `00000000-0000-4000-8000-00000000000${index}`,
+    variant_index: index,
+    variant_label: label,
+    variation_axis: 'structure',
+    body_text,
+    char_count: charCount ?? body_text.length,
+  };
+}
+
+const base = variant(1, '発表先行', [HEADLINE, ANNOUNCE, QUOTE, CLOSE, DATA]);
+
+describe('summarizeVariantDifferences', () => {
+  it('returns one line per variant, ordered by variant_index', () => {
+    const lines = summarizeVariantDifferences([
+      variant(2, 'データ先行', [HEADLINE, DATA, ANNOUNCE, QUOTE, CLOSE]),
+      base,
+    ]);
+    expect(lines.map((l) => l.variant_index)).toEqual([1, 2]);
+    expect(lines[0].variant_id).toBe(base.id);
+  });
+
+  it('profiles the baseline and labels the axis in both languages', () => {
+    const [line] = summarizeVariantDifferences([base]);
+    expect(line.text).toMatch(/^案1 発表先行（構成）: 発表先行のリード/);
+    expect(line.text).toContain(
+      '/ Variant 1 (structure): announcement-led opening',
+    );
+    expect(line.text).toContain('敬体');
+  });
+
+  it('describes a data-led variant with a new headline against the baseline', () => {
+    const lines = summarizeVariantDifferences([
+      base,
+      variant(2, 'バランス', [
+        '奏効率42%、新薬Xが第III相試験で主要評価項目を達成',
+        DATA,
+        ANNOUNCE,
+        QUOTE,
+        CLOSE,
+      ]),
+    ]);
+    expect(lines[0].text).toContain('基準案 — ');
+    expect(lines[1].text).toContain('見出しを変更');
+    expect(lines[1].text).toContain('データ先行のリード');
+    expect(lines[1].text).toContain('reworded headline, data-led opening');
+  });
+
+  it('reports data moved earlier and quote placement separately', () => {
+    const [, line] = summarizeVariantDifferences([
+      base,
+      variant(2, '引用後置', [HEADLINE, ANNOUNCE, DATA, CLOSE, QUOTE]),
+    ]);
+    expect(line.text).toContain('データを前倒し');
+    expect(line.text).toContain('引用を末尾に');
+    expect(line.text).not.toContain('見出し');
+  });
+
+  it('says "data summary up front" when figures reach the opening third', () => {
+    const [, line] = summarizeVariantDifferences([
+      base,
+      variant(2, 'データ前置', [
+        HEADLINE,
+        ANNOUNCE,
+        DATA,
+        QUOTE,
+        CLOSE,
+        CLOSE,
+        CLOSE,
+      ]),
+    ]);
+    expect(line.text).toContain('データ要約を冒頭に');
+    expect(line.text).toContain('data summary up front');
+  });
+
+  it('flags a length change of 15% or more', () => {
+    const [, line] = summarizeVariantDifferences([
+      { ...base, char_count: 1000 },
+      variant(2, '簡潔', [HEADLINE, ANNOUNCE, QUOTE, CLOSE, DATA], 600),
+    ]);
+    expect(line.text).toContain('約40%短く');
+    expect(line.text).toContain('about 40% shorter');
+  });
+
+  it('falls back to a "same structure" line when nothing differs', () => {
+    const [, line] = summarizeVariantDifferences([
+      base,
+      { ...base, id: '00000000-0000-4000-8000-000000000002', variant_index: 2 },
+    ]);
+    expect(line.text).toContain('案1とほぼ同じ構成');
+  });
+});
@@ -45,10 +45,15 @@ describe('explainDeliveryError', () => {
       'recipient_email_invalid',
       'cc_or_bcc_email_invalid',
       'invalid_attachment_format',
+      'audit_archive_missing',
       'scheduled_in_past',
       'app_config_missing',
       'delivery_not_found',
       'delivery_not_pending',
+      'embargo_not_lifted',
+      'embargo_lift_required',
+      'embargo_label_invalid',
+      'embargo_conflicts_scheduled',
     ];
     for (const code of codes) {
       expect(explainDeliveryError(code), `missing entry for ${code}`).not.toBeNull();
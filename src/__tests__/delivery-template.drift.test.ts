@@ -2,10 +2,12 @@ import { describe, it, expect } from 'vitest';
 import tsSrc from '../lib/delivery-template.ts?raw';
 import denoSrc from '../../supabase/functions/_shared/delivery-template.ts?raw';
 import {
+  applyComparisonSummaryToBody,
   applyFeedbackToBody,
-  buildComparisonSummary,
   buildFeedbackFooter,
+  COMPARISON_PLACEHOLDER,
   FEEDBACK_PLACEHOLDER,
+  renderComparisonSummary,
 } from '../lib/delivery-template';
 
 function extractDriftRegion(src: string, name: string): string {
@@ -31,59 +33,39 @@ describe('delivery-template drift (TS mirror vs Deno _shared/delivery-template)'
   }
 });
 
-describe('buildComparisonSummary', () => {
-  const variants = [
+describe('renderComparisonSummary', () => {
+  const lines = [
     {
+      variant_id: '22222222-2222-4222-8222-222222222222',
       variant_index: 2,
-      variant_label: 'Detailed',
-      variation_directive: 'Lead with clinical data.',
-      char_count: 1200,
+      text: '案2 詳細: 約40%長く / Variant 2: about 40% longer',
     },
     {
+      variant_id: '11111111-1111-4111-8111-111111111111',
       variant_index: 1,
-      variant_label: 'Concise',
-      variation_directive: 'Be concise.',
-      char_count: 800,
+      text: '案1 簡潔: 発表先行のリード / Variant 1: announcement-led opening',
     },
   ];
 
-  it('sorts variants by variant_index', () => {
-    const out = buildComparisonSummary(variants);
+  it('sorts lines by variant_index', () => {
+    const out = renderComparisonSummary(lines);
     const firstIdx = out.text.indexOf('Variant 1');
     const secondIdx = out.text.indexOf('Variant 2');
     expect(firstIdx).toBeGreaterThan(-1);
     expect(secondIdx).toBeGreaterThan(firstIdx);
   });
 
-  it('escapes HTML special chars in label and directive', () => {
-    const out = buildComparisonSummary([
-      {
-        variant_index: 1,
-        variant_label: 'A<script>B',
-        variation_directive: 'D&E',
-        char_count: 10,
-      },
+  it('escapes HTML special chars in the html part only', () => {
+    const out = renderComparisonSummary([
+      { ...lines[0], text: 'A<script>B & C' },
     ]);
     expect(out.html).not.toContain('<script>');
-    expect(out.html).toContain('A&lt;script&gt;B');
-    expect(out.html).toContain('D&amp;E');
-  });
-
-  it('falls back to "(指示なし / no directive)" when null', () => {
-    const out = buildComparisonSummary([
-      {
-        variant_index: 1,
-        variant_label: 'X',
-        variation_directive: null,
-        char_count: 10,
-      },
-    ]);
-    expect(out.text).toContain('指示なし');
-    expect(out.text).toContain('no directive');
+    expect(out.html).toContain('A&lt;script&gt;B &amp; C');
+    expect(out.text).toContain('A<script>B & C');
   });
 
   it('emits both <ul> in html and a plain-text counterpart', () => {
-    const out = buildComparisonSummary(variants);
+    const out = renderComparisonSummary(lines);
     expect(out.html).toContain('<ul>');
     expect(out.html).toContain('</ul>');
     expect(out.text).toContain('バリアント比較');
@@ -91,6 +73,45 @@ describe('buildComparisonSummary', () => {
   });
 });
 
+describe('applyComparisonSummaryToBody', () => {
+  const lines = [
+    {
+      variant_id: '11111111-1111-4111-8111-111111111111',
+      variant_index: 1,
+      text: 'Cost $& more',
+    },
+  ];
+
+  it('replaces the Tiptap-wrapped placeholder paragraph as a whole', () => {
+    const out = applyComparisonSummaryToBody(
+      {
+        html: `<p>Hi</p><p>${COMPARISON_PLACEHOLDER}</p>`,
+        text: `Hi\n\n${COMPARISON_PLACEHOLDER}`,
+      },
+      lines,
+    );
+    expect(out.html).toBe(`<p>Hi</p>${renderComparisonSummary(lines).html}`);
+    expect(out.text).toBe(`Hi\n\n${renderComparisonSummary(lines).text}`);
+  });
+
+  it('leaves a body without the placeholder untouched', () => {
+    const body = { html: '<p>Hi</p>', text: 'Hi' };
+    expect(applyComparisonSummaryToBody(body, lines)).toEqual(body);
+  });
+
+  it('drops the placeholder when there are no lines', () => {
+    const out = applyComparisonSummaryToBody(
+      {
+        html: `<p>Hi</p><p>${COMPARISON_PLACEHOLDER}</p>`,
+        text: `Hi ${COMPARISON_PLACEHOLDER}`,
+      },
+      [],
+    );
+    expect(out.html).toBe('<p>Hi</p>');
+    expect(out.text).toBe('Hi ');
+  });
+});
+
 describe('buildFeedbackFooter / applyFeedbackToBody', () => {
   const url = 'https://app.example.com/f/abcdef';
 
@@ -7,6 +7,7 @@ import {
   buildPdfHeaderSource,
   buildPdfHtml,
   buildPdfOptions,
+  documentToHtml,
   DRAFT_BANNER_TEXT,
   formatJstDate,
   formatVersionLabel,
@@ -162,6 +163,44 @@ describe('buildPdfHtml', () => {
     expect(out).toContain('&lt;img onerror=x&gt;');
   });
 
+  it('renders a structured variant block by block in place of body_html', () => {
+    const out = buildPdfHtml({
+      ...fixture,
+      variants: [
+        {
+          ...fixture.variants[0],
+          body_doc: {
+            version: 1,
+            blocks: [
+              { type: 'title', text: '提携のお知らせ' },
+              { type: 'quote', text: '喜ばしい', attribution: '代表 <山田>' },
+              {
+                type: 'table',
+                caption: '',
+                header: ['項目'],
+                rows: [['A & B']],
+              },
+              {
+                type: 'boilerplate',
+                heading: '会社概要',
+                text: '一。\n\n二。',
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(out).toContain('<h1 class="doc-title">提携のお知らせ</h1>');
+    expect(out).toContain('— 代表 &lt;山田&gt;</p>');
+    expect(out).toContain(
+      '<thead><tr><th>項目</th></tr></thead><tbody><tr><td>A &amp; B</td></tr></tbody>',
+    );
+    expect(out).toContain(
+      '<div class="doc-boilerplate"><h3>会社概要</h3><p>一。</p><p>二。</p></div>',
+    );
+    expect(out).not.toContain('<p>本日、共同研究契約を締結しました。</p>');
+  });
+
   it('emits a valid HTML5 doctype + lang="ja" document', () => {
     expect(html.startsWith('<!doctype html>')).toBe(true);
     expect(html).toContain('<html lang="ja">');
@@ -262,3 +301,20 @@ describe('buildPdfConvertBody', () => {
     expect(body.source).toBe('<p>real</p>');
   });
 });
+
+describe('documentToHtml', () => {
+  it('keeps line breaks and leaves out empty optional fields', () => {
+    expect(
+      documentToHtml({
+        version: 1,
+        blocks: [
+          { type: 'quote', text: '一行目\n二行目', attribution: '' },
+          { type: 'contact', text: '広報部' },
+        ],
+      }),
+    ).toBe(
+      '<blockquote class="doc-quote"><p>「一行目<br>二行目」</p></blockquote>\n' +
+        '<div class="doc-contact"><p>広報部</p></div>',
+    );
+  });
+});
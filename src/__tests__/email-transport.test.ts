@@ -0,0 +1,399 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCaptureSink,
+  type EmailLedgerClaim,
+  type EmailPayload,
+  type EmailSendLedger,
+  type EmailTransportDeps,
+  type MessageSink,
+  payloadSha256,
+  selectEmailTransport,
+  withIdempotencyLedger,
+} from '../../supabase/functions/_shared/email-transport';
+import { ResendError } from '../../supabase/functions/_shared/resend';
+import {
+  createSmtpSink,
+  type SmtpConfig,
+  type SmtpConn,
+  type SmtpSockets,
+} from '../../supabase/functions/_shared/smtp';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const PAYLOAD: EmailPayload = {
+  from: '広報部 <pr@firm.example>',
+  to: 'editor@media.example',
+  cc: ['desk@media.example'],
+  bcc: ['archive@firm.example'],
+  subject: '新製品のお知らせ',
+  text: '本文です。',
+  idempotencyKey: 'delivery-1',
+};
+
+function memoryLedger(): EmailSendLedger & {
+  rows: Map<string, { sha: string; id: string | null }>;
+} {
+  const rows = new Map<string, { sha: string; id: string | null }>();
+  return {
+    rows,
+    async claim(key, _transport, sha): Promise<EmailLedgerClaim> {
+      const row = rows.get(key);
+      if (!row) {
+        rows.set(key, { sha, id: null });
+        return { status: 'claimed' };
+      }
+      if (row.sha !== sha) return { status: 'collision' };
+      if (row.id) return { status: 'sent', message_id: row.id };
+      return { status: 'in_flight' };
+    },
+    async complete(key, id) {
+      rows.get(key)!.id = id;
+    },
+    async release(key) {
+      if (rows.get(key)?.id === null) rows.delete(key);
+    },
+  };
+}
+
+const unusedSockets: SmtpSockets = {
+  connect: () => Promise.reject(new Error('no sockets in this test')),
+  startTls: () => Promise.reject(new Error('no sockets in this test')),
+};
+
+function depsOf(
+  vars: Record<string, string>,
+  overrides: Partial<EmailTransportDeps> = {},
+): EmailTransportDeps {
+  return {
+    env: (name) => vars[name],
+    sockets: unusedSockets,
+    ledger: memoryLedger,
+    captureStore: () => ({ put: async () => {} }),
+    ...overrides,
+  };
+}
+
+describe('selectEmailTransport', () => {
+  it('defaults to Resend', () => {
+    expect(selectEmailTransport(depsOf({ RESEND_API_KEY: 'k' })).name).toBe(
+      'resend',
+    );
+  });
+
+  it('fails without RESEND_API_KEY as an "other" send error', () => {
+    expect(() => selectEmailTransport(depsOf({}))).toThrow(
+      expect.objectContaining({
+        kind: 'other',
+        message: 'RESEND_API_KEY not set',
+      }),
+    );
+  });
+
+  it('selects smtp and capture when configured', () => {
+    expect(
+      selectEmailTransport(
+        depsOf({ EMAIL_TRANSPORT: 'smtp', SMTP_HOST: 'relay.test' }),
+      ).name,
+    ).toBe('smtp');
+    expect(
+      selectEmailTransport(depsOf({ EMAIL_TRANSPORT: 'capture' })).name,
+    ).toBe('capture');
+  });
+
+  it('rejects an incomplete smtp configuration instead of falling back', () => {
+    expect(() =>
+      selectEmailTransport(depsOf({ EMAIL_TRANSPORT: 'smtp' })),
+    ).toThrow('SMTP_HOST not set');
+    expect(() =>
+      selectEmailTransport(
+        depsOf({
+          EMAIL_TRANSPORT: 'smtp',
+          SMTP_HOST: 'relay.test',
+          SMTP_USERNAME: 'u',
+        }),
+      ),
+    ).toThrow('SMTP_USERNAME and SMTP_PASSWORD must be set together');
+    expect(() =>
+      selectEmailTransport(
+        depsOf({
+          EMAIL_TRANSPORT: 'smtp',
+          SMTP_HOST: 'relay.test',
+          SMTP_TLS: 'ssl',
+        }),
+      ),
+    ).toThrow("unknown SMTP_TLS 'ssl'");
+  });
+
+  it('rejects an unknown EMAIL_TRANSPORT', () => {
+    expect(() =>
+      selectEmailTransport(depsOf({ EMAIL_TRANSPORT: 'sendgrid' })),
+    ).toThrow(ResendError);
+  });
+});
+
+describe('resend transport', () => {
+  it('posts the message under the Idempotency-Key header', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(JSON.stringify({ id: 're_1' })),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const result = await selectEmailTransport(
+      depsOf({ RESEND_API_KEY: 'k' }),
+    ).send(PAYLOAD);
+    expect(result).toEqual({ id: 're_1' });
+    const init = (fetchMock.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect((init.headers as Record<string, string>)['Idempotency-Key']).toBe(
+      'delivery-1',
+    );
+    expect(JSON.parse(init.body as string)).not.toHaveProperty(
+      'idempotencyKey',
+    );
+  });
+
+  it('maps a 409 to an idempotency collision', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('conflict', { status: 409 })),
+    );
+    await expect(
+      selectEmailTransport(depsOf({ RESEND_API_KEY: 'k' })).send(PAYLOAD),
+    ).rejects.toMatchObject({ kind: 'idempotency_collision_409' });
+  });
+});
+
+describe('withIdempotencyLedger', () => {
+  const recordingSink = (fail = false) => {
+    const delivered: string[] = [];
+    const sink: MessageSink = {
+      name: 'test',
+      async deliver(_payload, messageId) {
+        if (fail) throw new ResendError('rate_limited_429', 'busy', 421);
+        delivered.push(messageId);
+      },
+    };
+    return { sink, delivered };
+  };
+
+  it('sends once per key and returns the first id on a repeat', async () => {
+    const { sink, delivered } = recordingSink();
+    const transport = withIdempotencyLedger(sink, memoryLedger());
+    const first = await transport.send(PAYLOAD);
+    const second = await transport.send({ ...PAYLOAD });
+    expect(first).toEqual({ id: 'delivery-1@firm.example' });
+    expect(second).toEqual(first);
+    expect(delivered).toEqual(['delivery-1@firm.example']);
+  });
+
+  it('reports a different message under a used key as a collision', async () => {
+    const transport = withIdempotencyLedger(
+      recordingSink().sink,
+      memoryLedger(),
+    );
+    await transport.send(PAYLOAD);
+    await expect(
+      transport.send({ ...PAYLOAD, subject: '差し替え' }),
+    ).rejects.toMatchObject({ kind: 'idempotency_collision_409' });
+  });
+
+  it('releases the key after a failed send so a retry goes out', async () => {
+    const ledger = memoryLedger();
+    await expect(
+      withIdempotencyLedger(recordingSink(true).sink, ledger).send(PAYLOAD),
+    ).rejects.toMatchObject({ kind: 'rate_limited_429' });
+    expect(ledger.rows.size).toBe(0);
+    const retry = recordingSink();
+    await withIdempotencyLedger(retry.sink, ledger).send(PAYLOAD);
+    expect(retry.delivered).toHaveLength(1);
+  });
+
+  it('treats a key held by a send in progress as transient', async () => {
+    const ledger = memoryLedger();
+    await ledger.claim('delivery-1', 'test', await payloadSha256(PAYLOAD));
+    await expect(
+      withIdempotencyLedger(recordingSink().sink, ledger).send(PAYLOAD),
+    ).rejects.toMatchObject({ kind: 'rate_limited_429' });
+  });
+});
+
+describe('capture transport', () => {
+  it('stores the message as .eml with the Bcc recipients visible', async () => {
+    const put = vi.fn(async () => {});
+    await createCaptureSink({ put }).deliver(
+      PAYLOAD,
+      'delivery-1@firm.example',
+    );
+    const [path, eml] = put.mock.calls[0] as unknown as [string, string];
+    expect(path).toMatch(/^\d{4}-\d{2}-\d{2}T[\d-]+Z_delivery-1\.eml$/);
+    expect(eml).toContain('Bcc: archive@firm.example');
+    expect(eml).toContain('Message-ID: <delivery-1@firm.example>');
+  });
+});
+
+// A relay that answers each command line; records the session.
+function scriptedRelay(
+  opts: {
+    ehlo?: string[];
+    authReply?: string;
+    rcptReply?: string;
+  } = {},
+) {
+  const commands: string[] = [];
+  const connects: { hostname: string; port: number; tls: boolean }[] = [];
+  let upgraded = false;
+  let data: string[] | null = null;
+  let message = '';
+  let pending = '220 relay.test ESMTP\r\n';
+  let partial = '';
+  let wake: (() => void) | null = null;
+  const encoder = new TextEncoder();
+
+  const reply = (...lines: string[]) => {
+    pending += lines.map((l) => `${l}\r\n`).join('');
+    wake?.();
+  };
+  const ehlo = opts.ehlo ?? ['STARTTLS', 'AUTH PLAIN LOGIN'];
+  const handle = (line: string) => {
+    if (data) {
+      if (line === '.') {
+        message = data.join('\r\n');
+        data = null;
+        reply('250 queued');
+      } else {
+        data.push(line);
+      }
+      return;
+    }
+    commands.push(line.startsWith('AUTH PLAIN') ? 'AUTH PLAIN ***' : line);
+    const verb = line.split(' ')[0].toUpperCase();
+    if (verb === 'EHLO') {
+      reply(
+        ...['relay.test', ...ehlo].map(
+          (e, i, all) => `250${i === all.length - 1 ? ' ' : '-'}${e}`,
+        ),
+      );
+    } else if (verb === 'STARTTLS') reply('220 go ahead');
+    else if (verb === 'AUTH') reply(opts.authReply ?? '235 ok');
+    else if (verb === 'MAIL') reply('250 ok');
+    else if (verb === 'RCPT') reply(opts.rcptReply ?? '250 ok');
+    else if (verb === 'DATA') {
+      data = [];
+      reply('354 end with .');
+    } else if (verb === 'QUIT') reply('221 bye');
+    else reply('500 unknown');
+  };
+
+  const conn: SmtpConn = {
+    async read(buffer) {
+      while (pending === '') {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+      const bytes = encoder.encode(pending);
+      const n = Math.min(bytes.length, buffer.length);
+      buffer.set(bytes.subarray(0, n));
+      pending = new TextDecoder().decode(bytes.subarray(n));
+      return n;
+    },
+    async write(bytes) {
+      partial += new TextDecoder().decode(bytes);
+      let end: number;
+      while ((end = partial.indexOf('\r\n')) >= 0) {
+        const line = partial.slice(0, end);
+        partial = partial.slice(end + 2);
+        handle(line);
+      }
+      return bytes.length;
+    },
+    close() {},
+  };
+  const sockets: SmtpSockets = {
+    async connect(o) {
+      connects.push(o);
+      return conn;
+    },
+    async startTls(c) {
+      upgraded = true;
+      return c;
+    },
+  };
+  return {
+    sockets,
+    commands,
+    connects,
+    upgraded: () => upgraded,
+    message: () => message,
+  };
+}
+
+const SMTP: SmtpConfig = {
+  host: 'relay.test',
+  port: 587,
+  tls: 'starttls',
+  username: 'mailer',
+  password: 'secret',
+  heloName: 'clearpress.local',
+  timeoutMs: 5000,
+};
+
+describe('smtp transport', () => {
+  it('upgrades with STARTTLS, authenticates and sends to every recipient', async () => {
+    const relay = scriptedRelay();
+    await createSmtpSink(SMTP, relay.sockets).deliver(
+      PAYLOAD,
+      'delivery-1@firm.example',
+    );
+    expect(relay.connects).toEqual([
+      { hostname: 'relay.test', port: 587, tls: false },
+    ]);
+    expect(relay.upgraded()).toBe(true);
+    expect(relay.commands).toEqual([
+      'EHLO clearpress.local',
+      'STARTTLS',
+      'EHLO clearpress.local',
+      'AUTH PLAIN ***',
+      'MAIL FROM:<pr@firm.example>',
+      'RCPT TO:<editor@media.example>',
+      'RCPT TO:<desk@media.example>',
+      'RCPT TO:<archive@firm.example>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(relay.message()).toContain('Message-ID: <delivery-1@firm.example>');
+    // Bcc goes in the envelope only.
+    expect(relay.message()).not.toContain('Bcc:');
+  });
+
+  it('reports rejected credentials as auth_401', async () => {
+    const relay = scriptedRelay({ authReply: '535 5.7.8 bad credentials' });
+    await expect(
+      createSmtpSink(SMTP, relay.sockets).deliver(PAYLOAD, 'm@firm.example'),
+    ).rejects.toMatchObject({ kind: 'auth_401', statusCode: 535 });
+  });
+
+  it('reports a 4xx reply as transient', async () => {
+    const relay = scriptedRelay({ rcptReply: '451 4.3.0 try again later' });
+    await expect(
+      createSmtpSink(SMTP, relay.sockets).deliver(PAYLOAD, 'm@firm.example'),
+    ).rejects.toMatchObject({ kind: 'rate_limited_429', statusCode: 451 });
+  });
+
+  it('refuses to continue when the relay does not offer STARTTLS', async () => {
+    const relay = scriptedRelay({ ehlo: ['AUTH PLAIN'] });
+    await expect(
+      createSmtpSink(SMTP, relay.sockets).deliver(PAYLOAD, 'm@firm.example'),
+    ).rejects.toThrow('does not offer STARTTLS');
+    expect(relay.commands).not.toContain('AUTH PLAIN ***');
+  });
+
+  it('never sends credentials without TLS', async () => {
+    const relay = scriptedRelay();
+    await expect(
+      createSmtpSink({ ...SMTP, tls: 'none' }, relay.sockets).deliver(
+        PAYLOAD,
+        'm@firm.example',
+      ),
+    ).rejects.toMatchObject({ kind: 'auth_401' });
+    expect(relay.connects).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REMINDER_AFTER_DAYS,
+  DEFAULT_REMINDER_BODY_TEXT,
+  DEFAULT_REMINDER_SUBJECT,
+  parseReminderConfig,
+  reminderCutoff,
+  renderReminder,
+} from '../../supabase/functions/_shared/feedback-reminder';
+
+const url =
+  'https://www.clearpressai.com/f/abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQ';
+
+const vars = {
+  projectName: 'Q3 <Launch>',
+  originalSubject: 'Draft for review',
+  feedbackUrl: url,
+  // 2026-11-18T16:00Z is already the 19th in JST.
+  expiresAt: '2026-11-18T16:00:00.000Z',
+};
+
+describe('parseReminderConfig', () => {
+  it('falls back to defaults when rows are missing or blank', () => {
+    const out = parseReminderConfig(
+      new Map([['FEEDBACK_REMINDER_SUBJECT', '   ']]),
+    );
+    expect(out).toEqual({
+      afterDays: DEFAULT_REMINDER_AFTER_DAYS,
+      subject: DEFAULT_REMINDER_SUBJECT,
+      bodyText: DEFAULT_REMINDER_BODY_TEXT,
+    });
+  });
+
+  it('reads a positive integer day count and rejects zero / garbage', () => {
+    expect(
+      parseReminderConfig(new Map([['FEEDBACK_REMINDER_AFTER_DAYS', '5']]))
+        .afterDays,
+    ).toBe(5);
+    expect(
+      parseReminderConfig(new Map([['FEEDBACK_REMINDER_AFTER_DAYS', '0']]))
+        .afterDays,
+    ).toBe(DEFAULT_REMINDER_AFTER_DAYS);
+    expect(
+      parseReminderConfig(new Map([['FEEDBACK_REMINDER_AFTER_DAYS', 'soon']]))
+        .afterDays,
+    ).toBe(DEFAULT_REMINDER_AFTER_DAYS);
+  });
+});
+
+describe('reminderCutoff', () => {
+  it('subtracts whole days from now', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    expect(reminderCutoff(now, 7).toISOString()).toBe(
+      '2026-10-12T12:00:00.000Z',
+    );
+  });
+});
+
+describe('renderReminder', () => {
+  it('substitutes every placeholder with the same magic link', () => {
+    const out = renderReminder(parseReminderConfig(new Map()), vars);
+    expect(out.subject).toContain('Draft for review');
+    expect(out.text).toContain(url);
+    expect(out.text).toContain('2026-11-19');
+    expect(out.text).not.toMatch(/\{\{[A-Z_]+\}\}/);
+    expect(out.html).toContain(url);
+  });
+
+  it('escapes HTML in the derived html part but not in text', () => {
+    const out = renderReminder(parseReminderConfig(new Map()), vars);
+    expect(out.text).toContain('Q3 <Launch>');
+    expect(out.html).toContain('Q3 &lt;Launch&gt;');
+    expect(out.html).not.toContain('<Launch>');
+  });
+
+  it('leaves unknown placeholders visible and flattens the subject', () => {
+    const out = renderReminder(
+      {
+        afterDays: 7,
+        subject: 'Re: {{PROJECT_NAME}}\n{{TYPO}}',
+        bodyText: 'Hi {{CLIENT}}\n\n{{FEEDBACK_LINK}}',
+      },
+      vars,
+    );
+    expect(out.subject).toBe('Re: Q3 <Launch> {{TYPO}}');
+    expect(out.text).toBe(`Hi {{CLIENT}}\n\n${url}`);
+    expect(out.html).toBe(`<p>Hi {{CLIENT}}</p>\n<p>${url}</p>`);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import tsSrc from '../lib/finding-anchor.ts?raw';
+import denoSrc from '../../supabase/functions/_shared/finding-anchor.ts?raw';
+import {
+  anchorContextHash,
+  locateFinding,
+  paragraphIndexAt,
+  resolveFindingAnchor,
+  WHOLE_BODY_SOURCE_TEXT,
+  type AnchoredFindingFields,
+} from '../lib/finding-anchor';
+
+function extractDriftRegion(src: string, name: string): string {
+  const re = new RegExp(
+    `// drift:start ${name}\\r?\\n([\\s\\S]*?)\\r?\\n// drift:end ${name}`,
+  );
+  const match = src.match(re);
+  if (!match) {
+    throw new Error(`Could not locate drift region "${name}" in source`);
+  }
+  return match[1];
+}
+
+describe('finding-anchor drift (TS mirror vs Deno _shared/finding-anchor)', () => {
+  it('FINDING_ANCHOR region is byte-identical across both files', () => {
+    expect(extractDriftRegion(denoSrc, 'FINDING_ANCHOR')).toBe(
+      extractDriftRegion(tsSrc, 'FINDING_ANCHOR'),
+    );
+  });
+});
+
+const BODY =
+  '本日、画期的な新薬を発表しました。\n\n当社は画期的な成果を目指します。';
+
+// Anchors a finding on the n-th occurrence of `text` in BODY.
+function anchored(text: string, nth = 0): AnchoredFindingFields {
+  let start = -1;
+  for (let i = 0; i <= nth; i++) start = BODY.indexOf(text, start + 1);
+  const end = start + text.length;
+  return {
+    source_text: text,
+    paragraph_index: paragraphIndexAt(BODY, start),
+    anchor_start: start,
+    anchor_end: end,
+    anchor_context_hash: anchorContextHash(BODY, start, end),
+  };
+}
+
+describe('paragraphIndexAt', () => {
+  it('counts blank-line separated paragraphs from 1', () => {
+    expect(paragraphIndexAt(BODY, 0)).toBe(1);
+    expect(paragraphIndexAt(BODY, BODY.indexOf('当社'))).toBe(2);
+  });
+});
+
+describe('locateFinding', () => {
+  it('picks the occurrence in the hinted paragraph', () => {
+    const located = locateFinding(BODY, '画期的', 2);
+    expect(located?.start).toBe(BODY.lastIndexOf('画期的'));
+  });
+
+  it('refuses to guess between repeats without a usable hint', () => {
+    expect(locateFinding(BODY, '画期的', null)).toBeNull();
+    expect(locateFinding(BODY, '画期的', 3)).toBeNull();
+  });
+
+  it('takes a unique occurrence regardless of the hint', () => {
+    expect(locateFinding(BODY, '新薬', 2)?.start).toBe(BODY.indexOf('新薬'));
+    expect(locateFinding(BODY, '存在しない', 1)).toBeNull();
+  });
+});
+
+describe('resolveFindingAnchor', () => {
+  it('is anchored when the body is unchanged', () => {
+    const f = anchored('画期的', 1);
+    expect(resolveFindingAnchor(BODY, f)).toEqual({
+      status: 'anchored',
+      start: f.anchor_start,
+      end: f.anchor_end,
+    });
+  });
+
+  it('follows the flagged copy when text is inserted before it', () => {
+    const f = anchored('画期的', 1);
+    const edited = `【速報】${BODY}`;
+    expect(resolveFindingAnchor(edited, f)).toEqual({
+      status: 'shifted',
+      start: edited.lastIndexOf('画期的'),
+      end: edited.lastIndexOf('画期的') + 3,
+    });
+  });
+
+  it('orphans a repeated phrase once its context is gone and it moved', () => {
+    const f = anchored('画期的', 0);
+    const edited = '画期的です。\n\n画期的でした。';
+    expect(resolveFindingAnchor(edited, f)).toEqual({ status: 'orphaned' });
+  });
+
+  it('re-finds a unique phrase even when its surroundings changed', () => {
+    const f = anchored('新薬');
+    const edited = '新薬を本日発表。';
+    expect(resolveFindingAnchor(edited, f)).toEqual({
+      status: 'shifted',
+      start: 0,
+      end: 2,
+    });
+  });
+
+  it('orphans a finding whose text was removed', () => {
+    const f = anchored('新薬');
+    expect(resolveFindingAnchor(BODY.replace('新薬', '製品'), f)).toEqual({
+      status: 'orphaned',
+    });
+  });
+
+  it('locates unanchored rows by text and paragraph', () => {
+    expect(
+      resolveFindingAnchor(BODY, {
+        source_text: '画期的',
+        paragraph_index: 2,
+        anchor_start: null,
+        anchor_end: null,
+        anchor_context_hash: null,
+      }),
+    ).toMatchObject({ status: 'shifted', start: BODY.lastIndexOf('画期的') });
+  });
+
+  it('treats whole-body findings as document-level', () => {
+    expect(
+      resolveFindingAnchor(BODY, {
+        source_text: WHOLE_BODY_SOURCE_TEXT,
+        paragraph_index: null,
+        anchor_start: null,
+        anchor_end: null,
+        anchor_context_hash: null,
+      }),
+    ).toEqual({ status: 'document' });
+  });
+});
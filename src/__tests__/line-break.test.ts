@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { breakLines } from '../../supabase/functions/_shared/line-break';
+
+// Full-width characters are 2 units, everything else 1 — close enough to a
+// Japanese font for the breaking rules to show.
+const advance = (cp: number) => (cp >= 0x2e80 ? 2 : 1);
+
+const linesOf = (text: string, width: number) =>
+  breakLines(text, width, advance).map(({ start, end }) =>
+    text.slice(start, end),
+  );
+
+describe('breakLines', () => {
+  it('breaks space-free Japanese between any two characters', () => {
+    expect(linesOf('あいうえおかきくけこ', 8)).toEqual([
+      'あいうえ',
+      'おかきく',
+      'けこ',
+    ]);
+  });
+
+  it('keeps 。 and closing brackets off the start of a line', () => {
+    // Breaking after う would start the next line with 。, so う moves down.
+    expect(linesOf('あいう。えお', 6)).toEqual(['あい', 'う。え', 'お']);
+    expect(linesOf('あいう」えお', 6)).toEqual(['あい', 'う」え', 'お']);
+  });
+
+  it('keeps small kana and the long vowel mark off the start of a line', () => {
+    expect(linesOf('あいきょう', 6)).toEqual(['あい', 'きょう']);
+    expect(linesOf('あいコーヒー', 6)).toEqual(['あい', 'コー', 'ヒー']);
+  });
+
+  it('keeps opening brackets off the end of a line', () => {
+    expect(linesOf('あい「うえ」', 6)).toEqual(['あい', '「う', 'え」']);
+  });
+
+  it('breaks Latin text at spaces and drops the space at the break', () => {
+    expect(linesOf('alpha beta gamma', 11)).toEqual(['alpha beta', 'gamma']);
+  });
+
+  it('splits a word wider than the line by character', () => {
+    expect(linesOf('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('mixes Latin words into Japanese without splitting them', () => {
+    expect(linesOf('新薬ABC123を発表', 8)).toEqual([
+      '新薬',
+      'ABC123を',
+      '発表',
+    ]);
+  });
+
+  it('honours newlines, including blank lines, without a trailing empty line', () => {
+    expect(linesOf('one\n\ntwo\n', 20)).toEqual(['one', '', 'two']);
+  });
+
+  it('places a blank line at its position in the text', () => {
+    expect(breakLines('a\n\nb', 10, advance)).toEqual([
+      { start: 0, end: 1 },
+      { start: 2, end: 2 },
+      { start: 3, end: 4 },
+    ]);
+  });
+
+  it('returns one empty line for empty text', () => {
+    expect(breakLines('', 10, advance)).toEqual([{ start: 0, end: 0 }]);
+  });
+});
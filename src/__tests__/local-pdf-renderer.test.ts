@@ -0,0 +1,492 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildPdfHeaderSource,
+  buildPdfOptions,
+} from '../../supabase/functions/_shared/doc-rendering';
+import { htmlToBlocks } from '../../supabase/functions/_shared/html-blocks';
+import {
+  createLocalPdfRenderer,
+  parseBand,
+} from '../../supabase/functions/_shared/pdf-local-renderer';
+import { PdfRenderError } from '../../supabase/functions/_shared/pdf-renderer';
+import {
+  FontError,
+  parseTrueType,
+} from '../../supabase/functions/_shared/truetype';
+
+// ---------------------------------------------------------------------------
+// A tiny TrueType font, built in memory. Glyph 0 is .notdef; 1–95 are
+// U+0020–U+007E (500 units wide); 96–351 are U+3000–U+30FF, CJK punctuation
+// and kana (1000 units). 'Z' is a composite of glyph 352, which no code
+// point maps to. The space glyph has no outline.
+// ---------------------------------------------------------------------------
+
+const NUM_GLYPHS = 353;
+const GID_Z = 0x5a - 0x20 + 1;
+const GID_COMPONENT = 352;
+
+function table(size: number, fill: (v: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size);
+  fill(new DataView(bytes.buffer));
+  return bytes;
+}
+
+function buildTestFont({ fsType = 0 } = {}): Uint8Array {
+  const head = table(54, (v) => {
+    v.setUint32(0, 0x00010000);
+    v.setUint32(12, 0x5f0f3cf5);
+    v.setUint16(18, 1000);
+    v.setInt16(36, 0);
+    v.setInt16(38, -200);
+    v.setInt16(40, 1000);
+    v.setInt16(42, 900);
+    v.setInt16(50, 0);
+  });
+  const hhea = table(36, (v) => {
+    v.setUint32(0, 0x00010000);
+    v.setInt16(4, 880);
+    v.setInt16(6, -120);
+    v.setUint16(34, NUM_GLYPHS);
+  });
+  const maxp = table(6, (v) => {
+    v.setUint32(0, 0x00005000);
+    v.setUint16(4, NUM_GLYPHS);
+  });
+  const os2 = table(96, (v) => {
+    v.setUint16(0, 4);
+    v.setUint16(8, fsType);
+    v.setInt16(68, 880);
+    v.setInt16(70, -120);
+    v.setInt16(88, 700);
+  });
+  const post = table(32, (v) => v.setUint32(0, 0x00030000));
+
+  const psName = 'Test Gothic-Regular';
+  const name = table(18 + psName.length * 2, (v) => {
+    v.setUint16(2, 1);
+    v.setUint16(4, 18);
+    v.setUint16(6, 3);
+    v.setUint16(8, 1);
+    v.setUint16(10, 0x409);
+    v.setUint16(12, 6);
+    v.setUint16(14, psName.length * 2);
+    for (let i = 0; i < psName.length; i++) {
+      v.setUint16(18 + i * 2, psName.charCodeAt(i));
+    }
+  });
+
+  const segments = [
+    [0x20, 0x7e, 1 - 0x20],
+    [0x3000, 0x30ff, 96 - 0x3000],
+    [0xffff, 0xffff, 1],
+  ];
+  const seg = segments.length;
+  const cmap = table(12 + 16 + seg * 8, (v) => {
+    v.setUint16(2, 1);
+    v.setUint16(4, 3);
+    v.setUint16(6, 1);
+    v.setUint32(8, 12);
+    const sub = 12;
+    v.setUint16(sub, 4);
+    v.setUint16(sub + 2, 16 + seg * 8);
+    v.setUint16(sub + 6, seg * 2);
+    segments.forEach(([start, end, delta], i) => {
+      v.setUint16(sub + 14 + i * 2, end);
+      v.setUint16(sub + 16 + seg * 2 + i * 2, start);
+      v.setInt16(sub + 16 + seg * 4 + i * 2, delta);
+    });
+  });
+
+  const hmtx = table(NUM_GLYPHS * 4, (v) => {
+    for (let g = 0; g < NUM_GLYPHS; g++) {
+      v.setUint16(g * 4, g >= 96 && g < 352 ? 1000 : 500);
+    }
+  });
+
+  // Simple glyphs are 16 bytes stamped with their glyph ID; the composite
+  // 'Z' points at GID_COMPONENT.
+  const glyphs: Uint8Array[] = [];
+  for (let g = 0; g < NUM_GLYPHS; g++) {
+    if (g === 1) glyphs.push(new Uint8Array(0));
+    else if (g === GID_Z) {
+      glyphs.push(
+        table(20, (v) => {
+          v.setInt16(0, -1);
+          v.setUint16(10, 0x0001);
+          v.setUint16(12, GID_COMPONENT);
+        }),
+      );
+    } else {
+      glyphs.push(
+        table(16, (v) => {
+          v.setInt16(0, 1);
+          v.setUint16(14, g);
+        }),
+      );
+    }
+  }
+  const glyf = new Uint8Array(glyphs.reduce((n, g) => n + g.byteLength, 0));
+  const loca = table((NUM_GLYPHS + 1) * 2, (v) => {
+    let at = 0;
+    glyphs.forEach((g, i) => {
+      v.setUint16(i * 2, at / 2);
+      glyf.set(g, at);
+      at += g.byteLength;
+    });
+    v.setUint16(NUM_GLYPHS * 2, at / 2);
+  });
+
+  const tables: [string, Uint8Array][] = (
+    [
+      ['OS/2', os2],
+      ['cmap', cmap],
+      ['glyf', glyf],
+      ['head', head],
+      ['hhea', hhea],
+      ['hmtx', hmtx],
+      ['loca', loca],
+      ['maxp', maxp],
+      ['name', name],
+      ['post', post],
+    ] as [string, Uint8Array][]
+  ).sort((a, b) => (a[0] < b[0] ? -1 : 1));
+  const pad = (n: number) => (n + 3) & ~3;
+  let size = 12 + tables.length * 16;
+  for (const [, t] of tables) size += pad(t.byteLength);
+  const font = new Uint8Array(size);
+  const v = new DataView(font.buffer);
+  v.setUint32(0, 0x00010000);
+  v.setUint16(4, tables.length);
+  let offset = 12 + tables.length * 16;
+  tables.forEach(([tag, t], i) => {
+    for (let j = 0; j < 4; j++) font[12 + i * 16 + j] = tag.charCodeAt(j);
+    v.setUint32(12 + i * 16 + 8, offset);
+    v.setUint32(12 + i * 16 + 12, t.byteLength);
+    font.set(t, offset);
+    offset += pad(t.byteLength);
+  });
+  return font;
+}
+
+// ---------------------------------------------------------------------------
+// Just enough of a PDF reader to check what the writer produced.
+// ---------------------------------------------------------------------------
+
+interface ParsedPdf {
+  objects: Map<number, string>;
+  streams: Map<number, Uint8Array>;
+  pages: string[][];
+}
+
+const latin1 = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(data));
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readPdf(pdf: Uint8Array): Promise<ParsedPdf> {
+  const raw = latin1(pdf);
+  const startxref = Number(
+    raw.slice(raw.lastIndexOf('startxref') + 10).split('\n')[0],
+  );
+  expect(raw.slice(startxref, startxref + 4)).toBe('xref');
+  const xref = raw.slice(startxref).split('\n');
+  const count = Number(xref[1].split(' ')[1]);
+
+  const objects = new Map<number, string>();
+  const streams = new Map<number, Uint8Array>();
+  for (let id = 1; id < count; id++) {
+    const offset = Number(xref[2 + id].slice(0, 10));
+    expect(raw.startsWith(`${id} 0 obj\n`, offset)).toBe(true);
+    const body = raw.slice(offset, raw.indexOf('\nendobj', offset));
+    const streamAt = body.indexOf('\nstream\n');
+    if (streamAt === -1) {
+      objects.set(id, body);
+      continue;
+    }
+    const dict = body.slice(0, streamAt);
+    objects.set(id, dict);
+    const length = Number(dict.match(/\/Length (\d+)/)![1]);
+    const start = offset + streamAt + 8;
+    streams.set(id, await inflate(pdf.subarray(start, start + length)));
+  }
+
+  // gid → text from the ToUnicode CMap, then each page's Tj strings.
+  const decoder = new TextDecoder();
+  const fontDict = [...objects.values()].find((o) => o.includes('/Type0'))!;
+  const cmapId = Number(fontDict.match(/\/ToUnicode (\d+) 0 R/)![1]);
+  const toUnicode = new Map<string, string>();
+  for (const m of decoder
+    .decode(streams.get(cmapId))
+    .matchAll(/<([0-9A-F]{4})> <([0-9A-F]+)>/g)) {
+    const units = m[2].match(/.{4}/g)!.map((h) => parseInt(h, 16));
+    toUnicode.set(m[1], String.fromCharCode(...units));
+  }
+  const pages = [...objects.entries()]
+    .filter(([, o]) => o.includes('/Type /Page '))
+    .map(([, o]) => {
+      const contentId = Number(o.match(/\/Contents (\d+) 0 R/)![1]);
+      const ops = decoder.decode(streams.get(contentId));
+      return [...ops.matchAll(/<([0-9A-F]*)> Tj/g)].map((m) =>
+        (m[1].match(/.{4}/g) ?? [])
+          .map((g) => toUnicode.get(g) ?? '?')
+          .join(''),
+      );
+    });
+  return { objects, streams, pages };
+}
+
+const renderer = () => createLocalPdfRenderer(async () => buildTestFont());
+
+describe('parseTrueType', () => {
+  it('reads metrics, the Unicode cmap and advance widths', () => {
+    const font = parseTrueType(buildTestFont());
+    expect(font.postscriptName).toBe('TestGothic-Regular');
+    expect(font.unitsPerEm).toBe(1000);
+    expect([font.ascent, font.descent, font.capHeight]).toEqual([
+      880, -120, 700,
+    ]);
+    expect(font.glyphId('A'.codePointAt(0)!)).toBe(0x41 - 0x20 + 1);
+    expect(font.glyphId('あ'.codePointAt(0)!)).toBe(96 + 0x42);
+    expect(font.glyphId('漢'.codePointAt(0)!)).toBe(0);
+    expect(font.advanceWidth(font.glyphId(0x41))).toBe(500);
+    expect(font.advanceWidth(font.glyphId(0x3042))).toBe(1000);
+  });
+
+  it('rejects CFF OpenType, collections and fonts that forbid embedding', () => {
+    const otto = buildTestFont();
+    otto.set([0x4f, 0x54, 0x54, 0x4f]);
+    expect(() => parseTrueType(otto)).toThrow(/CFF-outline/);
+    const ttc = buildTestFont();
+    ttc.set([0x74, 0x74, 0x63, 0x66]);
+    expect(() => parseTrueType(ttc)).toThrow(FontError);
+    expect(() => parseTrueType(buildTestFont({ fsType: 0x0002 }))).toThrow(
+      /forbids embedding/,
+    );
+    expect(() => parseTrueType(buildTestFont({ fsType: 0x0100 }))).toThrow(
+      /forbids outline subsetting/,
+    );
+  });
+
+  it('subsets to the requested glyphs plus composite components, keeping glyph IDs', () => {
+    const font = parseTrueType(buildTestFont());
+    const gidA = font.glyphId(0x41);
+    const sub = font.subset([gidA, GID_Z]);
+    const v = new DataView(sub.buffer, sub.byteOffset, sub.byteLength);
+
+    const tables = new Map<string, number>();
+    for (let i = 0; i < v.getUint16(4); i++) {
+      const tag = String.fromCharCode(
+        ...sub.subarray(12 + i * 16, 16 + i * 16),
+      );
+      tables.set(tag, v.getUint32(12 + i * 16 + 8));
+    }
+    expect([...tables.keys()]).toEqual([
+      'glyf',
+      'head',
+      'hhea',
+      'hmtx',
+      'loca',
+      'maxp',
+    ]);
+    expect(v.getInt16(tables.get('head')! + 50)).toBe(1);
+
+    const loca = tables.get('loca')!;
+    const length = (gid: number) =>
+      v.getUint32(loca + (gid + 1) * 4) - v.getUint32(loca + gid * 4);
+    const kept = Array.from({ length: NUM_GLYPHS }, (_, g) => g).filter(
+      (g) => length(g) > 0,
+    );
+    expect(kept).toEqual([0, gidA, GID_Z, GID_COMPONENT]);
+    expect(
+      v.getUint16(tables.get('glyf')! + v.getUint32(loca + gidA * 4) + 14),
+    ).toBe(gidA);
+
+    // With checkSumAdjustment set, the whole file sums to the magic value.
+    let sum = 0;
+    for (let i = 0; i < sub.byteLength; i += 4)
+      sum = (sum + v.getUint32(i)) >>> 0;
+    expect(sum).toBe(0xb1b0afba);
+  });
+});
+
+describe('htmlToBlocks', () => {
+  it('reads the delivery document structure', () => {
+    const blocks = htmlToBlocks(
+      '<html><head><title>T</title><style>p { color: red }</style></head><body>' +
+        '<section><h2>Variant 1 — A &amp; B</h2><p>本文<strong>強調</strong></p></section>' +
+        '<section><ul><li>一</li><li>二</li></ul>' +
+        '<table><tr><th>項目</th></tr><tr><td>値</td></tr></table></section>' +
+        '</body></html>',
+    );
+    expect(blocks.map((b) => b.kind)).toEqual([
+      'heading',
+      'paragraph',
+      'pageBreak',
+      'list',
+      'table',
+    ]);
+    expect(blocks[0]).toMatchObject({
+      level: 2,
+      runs: [{ text: 'Variant 1 — A & B' }],
+    });
+    expect(blocks[1]).toMatchObject({
+      runs: [
+        { text: '本文', bold: false },
+        { text: '強調', bold: true },
+      ],
+    });
+    expect(blocks[4]).toMatchObject({
+      header: [[{ text: '項目', bold: true }]],
+      rows: [[[{ text: '値' }]]],
+    });
+  });
+});
+
+describe('parseBand', () => {
+  it('reads text and inline style from the DRAFT banner source', () => {
+    expect(parseBand(buildPdfHeaderSource())).toMatchObject({
+      text: '確認用 — DRAFT FOR REVIEW',
+      color: [255, 255, 255],
+      background: [0xea, 0x58, 0x0c],
+      bold: true,
+      align: 'center',
+      size: 9,
+    });
+  });
+});
+
+describe('createLocalPdfRenderer', () => {
+  const kana = 'あいうえおかきくけこさしすせそたちつてと'.repeat(12);
+  const doc = (body: string) =>
+    `<!doctype html><html><head><title>Press &amp; Co</title>` +
+    '<style>body { line-height: 1.7; } h2 { border-bottom: 2px solid #e5e7eb; }</style>' +
+    `</head><body>${body}</body></html>`;
+
+  it('writes a well-formed PDF with a cross-reference table and document title', async () => {
+    const pdf = await renderer().render(doc('<p>Hello</p>'));
+    expect(latin1(pdf.subarray(0, 8))).toBe('%PDF-1.7');
+    const { objects, pages } = await readPdf(pdf);
+    expect(pages).toEqual([['Hello']]);
+    const info = [...objects.values()].find((o) => o.includes('/Title'))!;
+    const title = info.match(/\/Title <FEFF([0-9A-F]+)>/)![1];
+    expect(
+      String.fromCharCode(...title.match(/.{4}/g)!.map((h) => parseInt(h, 16))),
+    ).toBe('Press & Co');
+  });
+
+  it('wraps space-free Japanese across lines and maps every glyph back to its text', async () => {
+    const { pages } = await readPdf(
+      await renderer().render(doc(`<p>${kana}。</p>`)),
+    );
+    expect(pages[0].length).toBeGreaterThan(1);
+    expect(pages[0].join('')).toBe(`${kana}。`);
+    // kinsoku: no line starts with 。
+    expect(pages[0].every((line) => !line.startsWith('。'))).toBe(true);
+  });
+
+  it('starts each section on a new page and draws the header and footer on every page', async () => {
+    const pdf = await renderer().render(
+      doc(
+        '<section><h2>One</h2><p>a</p></section><section><h2>Two</h2><p>b</p></section>',
+      ),
+      {
+        ...buildPdfOptions({
+          projectName: 'P',
+          versionLabel: 'v1.0',
+          dateJst: '2026-04-01',
+        }),
+        footer: {
+          source: '<div style="font-size:9px">Page {{page}} / {{total}}</div>',
+        },
+      },
+    );
+    const { pages } = await readPdf(pdf);
+    expect(pages).toHaveLength(2);
+    pages.forEach((texts, i) => {
+      expect(texts).toContain(['One', 'Two'][i]);
+      expect(texts.some((t) => t.endsWith('DRAFT FOR REVIEW'))).toBe(true);
+      expect(texts).toContain(`Page ${i + 1} / 2`);
+    });
+  });
+
+  it('repeats the table header on each page a long table spans', async () => {
+    const rows = Array.from(
+      { length: 80 },
+      (_, i) => `<tr><td>row ${i}</td></tr>`,
+    ).join('');
+    const { pages } = await readPdf(
+      await renderer().render(
+        doc(`<table><tr><th>Event</th></tr>${rows}</table>`),
+      ),
+    );
+    expect(pages.length).toBeGreaterThan(1);
+    for (const texts of pages) expect(texts[0]).toBe('Event');
+    expect(pages.flat().filter((t) => t.startsWith('row '))).toHaveLength(80);
+  });
+
+  it('embeds a subset holding only the glyphs the document uses', async () => {
+    const { objects, streams } = await readPdf(
+      await renderer().render(doc('<p>AZ</p>')),
+    );
+    const cidFont = [...objects.values()].find((o) =>
+      o.includes('/CIDFontType2'),
+    )!;
+    expect(cidFont).toMatch(/\/BaseFont \/[A-Z]{6}\+TestGothic-Regular/);
+    expect(cidFont).toContain('/W [34 [500] 59 [500]]');
+    const fileId = [...objects.entries()].find(([, o]) =>
+      o.includes('/Length1'),
+    )![0];
+    const sub = streams.get(fileId)!;
+    // 4 outlines at most (.notdef, A, Z and its component): nowhere near
+    // the full 353-glyph glyf table.
+    expect(sub.byteLength).toBeLessThan(buildTestFont().byteLength);
+  });
+
+  it('draws bold runs with a stroked fill', async () => {
+    const { streams } = await readPdf(
+      await renderer().render(doc('<p><strong>B</strong></p>')),
+    );
+    const ops = [...streams.values()]
+      .map((s) => new TextDecoder().decode(s))
+      .join('\n');
+    expect(ops).toContain('2 Tr');
+  });
+
+  it('renders the same document to the same bytes', async () => {
+    const r = renderer();
+    const html = doc(`<h2>見出し</h2><p>${kana}</p>`);
+    const opts = buildPdfOptions({
+      projectName: 'P',
+      versionLabel: 'v1.0',
+      dateJst: '2026-04-01',
+    });
+    expect(await r.render(html, opts)).toEqual(await r.render(html, opts));
+  });
+
+  it('loads the font once and reports a bad font as a PdfRenderError', async () => {
+    const load = vi.fn(async () => buildTestFont());
+    const r = createLocalPdfRenderer(load);
+    await r.render(doc('<p>a</p>'));
+    await r.render(doc('<p>b</p>'));
+    expect(load).toHaveBeenCalledTimes(1);
+
+    const otto = buildTestFont();
+    otto.set([0x4f, 0x54, 0x54, 0x4f]);
+    const badLoad = vi.fn(async () => otto);
+    const bad = createLocalPdfRenderer(badLoad);
+    await expect(bad.render(doc('<p>a</p>'))).rejects.toThrow(PdfRenderError);
+    await expect(bad.render(doc('<p>a</p>'))).rejects.toThrow(
+      /font load failed: CFF-outline/,
+    );
+    // A failed load isn't cached.
+    expect(badLoad).toHaveBeenCalledTimes(2);
+  });
+});
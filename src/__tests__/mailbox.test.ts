@@ -0,0 +1,433 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  availableMailboxProviders,
+  decryptRefreshToken,
+  encryptRefreshToken,
+  importMailboxKeys,
+  MailboxError,
+  type MailboxKeys,
+  type MailboxProvider,
+  type MailboxProviderDeps,
+  selectMailboxProvider,
+  signOAuthState,
+  verifyOAuthState,
+} from '../../supabase/functions/_shared/mailbox';
+import {
+  type DeliverySenderDeps,
+  type MailboxConnectionRecord,
+  sendAsDeliverySender,
+} from '../../supabase/functions/_shared/delivery-sender';
+import type {
+  EmailLedgerClaim,
+  EmailPayload,
+  EmailSendLedger,
+  EmailTransport,
+} from '../../supabase/functions/_shared/email-transport';
+import { ResendError } from '../../supabase/functions/_shared/resend';
+import { parseEml } from '../lib/eml';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const RAW_KEY = btoa(String.fromCharCode(...new Uint8Array(32).fill(7)));
+
+const GOOGLE_ENV: Record<string, string> = {
+  GOOGLE_OAUTH_CLIENT_ID: 'google-client',
+  GOOGLE_OAUTH_CLIENT_SECRET: 'google-secret',
+  MICROSOFT_OAUTH_CLIENT_ID: 'ms-client',
+  MICROSOFT_OAUTH_CLIENT_SECRET: 'ms-secret',
+};
+
+function providerDeps(
+  fetchFn: typeof fetch,
+  env: Record<string, string> = GOOGLE_ENV,
+): MailboxProviderDeps {
+  return {
+    env: (name) => env[name],
+    fetch: fetchFn,
+    captureStore: () => {
+      throw new Error('capture store not expected');
+    },
+  };
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function fromBase64Url(value: string): string {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (c) => c.charCodeAt(0)),
+  );
+}
+
+const PAYLOAD: Omit<EmailPayload, 'from'> = {
+  to: 'editor@media.example',
+  bcc: ['archive@firm.example'],
+  reply_to: 'tanaka@firm.example',
+  subject: 'Press release',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+  idempotencyKey: 'delivery-1',
+};
+
+describe('refresh token encryption', () => {
+  it('rejects a MAILBOX_TOKEN_KEY that is not 32 bytes', async () => {
+    await expect(importMailboxKeys(undefined)).rejects.toMatchObject({
+      kind: 'not_configured',
+    });
+    await expect(importMailboxKeys(btoa('short'))).rejects.toMatchObject({
+      kind: 'not_configured',
+    });
+  });
+
+  it('round-trips, and treats a token it cannot decrypt as revoked', async () => {
+    const keys = await importMailboxKeys(RAW_KEY);
+    const stored = await encryptRefreshToken(keys, '1//refresh-token');
+    expect(stored).toMatch(/^v1\.[\w-]+\.[\w-]+$/);
+    expect(stored).not.toContain('refresh-token');
+    await expect(decryptRefreshToken(keys, stored)).resolves.toBe(
+      '1//refresh-token',
+    );
+
+    const otherKeys = await importMailboxKeys(
+      btoa(String.fromCharCode(...new Uint8Array(32).fill(9))),
+    );
+    await expect(decryptRefreshToken(otherKeys, stored)).rejects.toMatchObject({
+      kind: 'revoked',
+    });
+    await expect(decryptRefreshToken(keys, 'revoked')).rejects.toMatchObject({
+      kind: 'revoked',
+    });
+  });
+});
+
+describe('OAuth state', () => {
+  it('verifies its own state and rejects tampered or expired ones', async () => {
+    const keys = await importMailboxKeys(RAW_KEY);
+    const now = new Date('2026-10-19T09:00:00Z');
+    const state = await signOAuthState(
+      keys,
+      { userId: 'user-1', provider: 'gmail' },
+      now,
+    );
+    await expect(verifyOAuthState(keys, state, now)).resolves.toEqual({
+      userId: 'user-1',
+      provider: 'gmail',
+    });
+
+    const [payload, mac] = state.split('.');
+    const forged = btoa(
+      fromBase64Url(payload).replace('user-1', 'user-2'),
+    ).replace(/=+$/, '');
+    await expect(
+      verifyOAuthState(keys, `${forged}.${mac}`, now),
+    ).resolves.toBeNull();
+
+    const later = new Date(now.getTime() + 11 * 60 * 1000);
+    await expect(verifyOAuthState(keys, state, later)).resolves.toBeNull();
+  });
+});
+
+describe('provider selection', () => {
+  it('offers only the providers with credentials, mock only when enabled', () => {
+    expect(availableMailboxProviders((name) => GOOGLE_ENV[name])).toEqual([
+      'gmail',
+      'microsoft',
+    ]);
+    expect(
+      availableMailboxProviders((name) =>
+        name === 'MAILBOX_MOCK_PROVIDER' ? 'true' : undefined,
+      ),
+    ).toEqual(['mock']);
+    expect(() =>
+      selectMailboxProvider('gmail', providerDeps(fetch, {})),
+    ).toThrow(MailboxError);
+  });
+});
+
+describe('gmail provider', () => {
+  it('exchanges the code and reads the verified address', async () => {
+    const fetchFn = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        json(200, { access_token: 'at', refresh_token: 'rt' }),
+      )
+      .mockResolvedValueOnce(
+        json(200, {
+          email: 'tanaka@firm.example',
+          email_verified: true,
+          name: '田中 花子',
+        }),
+      );
+    const gmail = selectMailboxProvider('gmail', providerDeps(fetchFn));
+    const account = await gmail.exchangeCode(
+      'code-1',
+      'https://app.example/settings/mailbox/callback',
+      { email: 'ignored@firm.example', fullName: 'ignored' },
+    );
+    expect(account).toEqual({
+      email: 'tanaka@firm.example',
+      displayName: '田中 花子',
+      refreshToken: 'rt',
+    });
+    const form = fetchFn.mock.calls[0][1]!.body as URLSearchParams;
+    expect(form.get('grant_type')).toBe('authorization_code');
+    expect(form.get('code')).toBe('code-1');
+  });
+
+  it('reports invalid_grant on refresh as revoked', async () => {
+    const fetchFn = vi.fn<typeof fetch>().mockResolvedValue(
+      json(400, {
+        error: 'invalid_grant',
+        error_description: 'Token has been expired or revoked.',
+      }),
+    );
+    const gmail = selectMailboxProvider('gmail', providerDeps(fetchFn));
+    await expect(gmail.refreshAccessToken('rt')).rejects.toMatchObject({
+      kind: 'revoked',
+    });
+  });
+
+  it('sends the MIME message, Bcc included, as base64url raw', async () => {
+    const fetchFn = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(json(200, { id: 'gmail-id' }));
+    const gmail = selectMailboxProvider('gmail', providerDeps(fetchFn));
+    await gmail.send(
+      'at',
+      { ...PAYLOAD, from: '田中 花子 <tanaka@firm.example>' },
+      'delivery-1@firm.example',
+    );
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe(
+      'https://gmail.googleapis.com/gmail/v1/users/me/messages/send',
+    );
+    const raw = fromBase64Url(JSON.parse(init!.body as string).raw);
+    const parsed = parseEml(raw);
+    expect(parsed.from).toBe('田中 花子 <tanaka@firm.example>');
+    expect(parsed.bcc).toBe('archive@firm.example');
+    expect(parsed.messageId).toBe('delivery-1@firm.example');
+  });
+});
+
+describe('microsoft provider', () => {
+  it('posts the message to Graph sendMail', async () => {
+    const fetchFn = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(new Response(null, { status: 202 }));
+    const microsoft = selectMailboxProvider('microsoft', providerDeps(fetchFn));
+    await microsoft.send(
+      'at',
+      {
+        ...PAYLOAD,
+        from: 'tanaka@firm.example',
+        attachments: [{ filename: 'release.pdf', content: 'JVBERi0=' }],
+      },
+      'delivery-1@firm.example',
+    );
+    const body = JSON.parse(fetchFn.mock.calls[0][1]!.body as string);
+    expect(body.message.body).toEqual({
+      contentType: 'HTML',
+      content: '<p>Hello</p>',
+    });
+    expect(body.message.toRecipients).toEqual([
+      { emailAddress: { address: 'editor@media.example' } },
+    ]);
+    expect(body.message.bccRecipients).toEqual([
+      { emailAddress: { address: 'archive@firm.example' } },
+    ]);
+    expect(body.message.attachments[0]).toMatchObject({
+      name: 'release.pdf',
+      contentBytes: 'JVBERi0=',
+    });
+  });
+
+  it('treats a 401 from Graph as a revoked grant', async () => {
+    const fetchFn = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(
+        new Response('InvalidAuthenticationToken', { status: 401 }),
+      );
+    const microsoft = selectMailboxProvider('microsoft', providerDeps(fetchFn));
+    await expect(
+      microsoft.send('at', { ...PAYLOAD, from: 'a@b.example' }, 'id'),
+    ).rejects.toMatchObject({ kind: 'revoked' });
+  });
+});
+
+describe('sendAsDeliverySender', () => {
+  const MANAGED = { from_name: 'ClearPress', from_email: 'noreply@cp.example' };
+
+  function memoryLedger(): EmailSendLedger {
+    const rows = new Map<string, { sha: string; id: string | null }>();
+    return {
+      async claim(key, _transport, sha): Promise<EmailLedgerClaim> {
+        const row = rows.get(key);
+        if (!row) {
+          rows.set(key, { sha, id: null });
+          return { status: 'claimed' };
+        }
+        if (row.sha !== sha) return { status: 'collision' };
+        if (row.id) return { status: 'sent', message_id: row.id };
+        return { status: 'in_flight' };
+      },
+      async complete(key, id) {
+        rows.get(key)!.id = id;
+      },
+      async release(key) {
+        if (rows.get(key)?.id === null) rows.delete(key);
+      },
+    };
+  }
+
+  async function setup(
+    connection: Omit<MailboxConnectionRecord, 'refresh_token_encrypted'> | null,
+    provider: Partial<MailboxProvider>,
+  ) {
+    const keys: MailboxKeys = await importMailboxKeys(RAW_KEY);
+    const record = connection && {
+      ...connection,
+      refresh_token_encrypted: await encryptRefreshToken(keys, 'rt-1'),
+    };
+    const managedSend = vi.fn<EmailTransport['send']>(async () => ({
+      id: 'resend-id',
+    }));
+    const connections = {
+      forUser: vi.fn(async () => record),
+      markRevoked: vi.fn(async () => {}),
+      markUsed: vi.fn(async () => {}),
+    };
+    const providerSend = vi.fn<MailboxProvider['send']>(async () => {});
+    const deps: DeliverySenderDeps = {
+      connections,
+      keys: async () => keys,
+      provider: () =>
+        ({
+          name: 'gmail',
+          refreshAccessToken: async () => ({ accessToken: 'at' }),
+          send: providerSend,
+          ...provider,
+        }) as MailboxProvider,
+      ledger: memoryLedger,
+      managedTransport: () => ({ name: 'resend', send: managedSend }),
+    };
+    return { deps, keys, connections, managedSend, providerSend };
+  }
+
+  const CONNECTION = {
+    id: 'conn-1',
+    provider: 'gmail' as const,
+    email: 'tanaka@firm.example',
+    display_name: '田中 花子',
+    status: 'active' as const,
+  };
+
+  it('uses the managed address when the creator has no mailbox', async () => {
+    const { deps, managedSend } = await setup(null, {});
+    const result = await sendAsDeliverySender(deps, {
+      createdBy: 'user-1',
+      managed: MANAGED,
+      payload: PAYLOAD,
+    });
+    expect(result).toEqual({
+      id: 'resend-id',
+      sender: { mode: 'managed', from_email: 'noreply@cp.example' },
+    });
+    expect(managedSend.mock.calls[0][0].from).toBe(
+      'ClearPress <noreply@cp.example>',
+    );
+  });
+
+  it('sends from the connected mailbox and stores a rotated token', async () => {
+    const { deps, keys, connections, managedSend, providerSend } = await setup(
+      CONNECTION,
+      {
+        refreshAccessToken: async () => ({
+          accessToken: 'at',
+          refreshToken: 'rt-2',
+        }),
+      },
+    );
+    const result = await sendAsDeliverySender(deps, {
+      createdBy: 'user-1',
+      managed: MANAGED,
+      payload: PAYLOAD,
+    });
+    expect(result.sender).toEqual({
+      mode: 'mailbox',
+      from_email: 'tanaka@firm.example',
+      provider: 'gmail',
+    });
+    expect(result.id).toBe('delivery-1@firm.example');
+    expect(providerSend.mock.calls[0][1].from).toBe(
+      '田中 花子 <tanaka@firm.example>',
+    );
+    expect(managedSend).not.toHaveBeenCalled();
+    const rotated = connections.markUsed.mock.calls[0] as unknown as [
+      string,
+      string,
+    ];
+    await expect(decryptRefreshToken(keys, rotated[1])).resolves.toBe('rt-2');
+  });
+
+  it('falls back to the managed address when the grant was revoked', async () => {
+    const { deps, connections, managedSend } = await setup(CONNECTION, {
+      refreshAccessToken: async () => {
+        throw new MailboxError('revoked', 'invalid_grant', 400);
+      },
+    });
+    const result = await sendAsDeliverySender(deps, {
+      createdBy: 'user-1',
+      managed: MANAGED,
+      payload: PAYLOAD,
+    });
+    expect(result.sender).toEqual({
+      mode: 'managed',
+      from_email: 'noreply@cp.example',
+      fallback_reason: 'mailbox_revoked',
+    });
+    expect(connections.markRevoked).toHaveBeenCalledWith(
+      'conn-1',
+      'invalid_grant',
+    );
+    expect(managedSend).toHaveBeenCalledOnce();
+  });
+
+  it('falls back without trying a connection already marked revoked', async () => {
+    const { deps, connections, providerSend } = await setup(
+      { ...CONNECTION, status: 'revoked' },
+      {},
+    );
+    const result = await sendAsDeliverySender(deps, {
+      createdBy: 'user-1',
+      managed: MANAGED,
+      payload: PAYLOAD,
+    });
+    expect(result.sender.fallback_reason).toBe('mailbox_revoked');
+    expect(providerSend).not.toHaveBeenCalled();
+    expect(connections.markRevoked).not.toHaveBeenCalled();
+  });
+
+  it('fails a transient provider error instead of changing the sender', async () => {
+    const { deps, managedSend } = await setup(CONNECTION, {
+      send: async () => {
+        throw new MailboxError('transient', 'Gmail send 503', 503);
+      },
+    });
+    const err = await sendAsDeliverySender(deps, {
+      createdBy: 'user-1',
+      managed: MANAGED,
+      payload: PAYLOAD,
+    }).catch((e) => e);
+    expect(err).toBeInstanceOf(ResendError);
+    expect(err.kind).toBe('rate_limited_429');
+    expect(managedSend).not.toHaveBeenCalled();
+  });
+});
@@ -16,6 +16,7 @@ const valid = {
   length_target_chars: 800,
   enforce_hard_cap: false,
   variant_count: 3,
+  variation_axis: 'tone',
   brief_free_text: 'x'.repeat(60),
   brief_key_messages: [],
   brief_quotes: [],
@@ -28,6 +29,13 @@ describe('newProjectFormSchema', () => {
     expect(newProjectFormSchema.safeParse(valid).success).toBe(true);
   });
 
+  it('rejects an unknown variation axis', () => {
+    expect(
+      newProjectFormSchema.safeParse({ ...valid, variation_axis: 'mood' })
+        .success,
+    ).toBe(false);
+  });
+
   it('accepts a null length_target_chars (fall back to sub-type cap)', () => {
     expect(
       newProjectFormSchema.safeParse({ ...valid, length_target_chars: null })
@@ -9,10 +9,13 @@ import { describe, it, expect } from "vitest";
 const FORBIDDEN_PATTERNS: RegExp[] = [
   /\.from\(\s*['"]audit_trail_events['"]\s*\)\s*\.\s*(insert|upsert)\b/,
   /\.from\(\s*['"]audit_signatures['"]\s*\)\s*\.\s*(insert|upsert)\b/,
+  // Findings feed the audit report; clients have no write grant (0044).
+  /\.from\(\s*['"]compliance_findings['"]\s*\)\s*\.\s*(insert|upsert|update|delete)\b/,
 ];
 
 // Eager glob: vitest evaluates this at test load time. Excludes this file
-// itself and the read-only display module (which contains no inserts).
+// itself, the read-only display module (which contains no inserts) and the
+// local-database test that checks the grants.
 const sources = import.meta.glob("/src/**/*.{ts,tsx}", {
   query: "?raw",
   import: "default",
@@ -21,6 +24,9 @@ const sources = import.meta.glob("/src/**/*.{ts,tsx}", {
 
 const EXCLUDE_PATHS = new Set<string>([
   "/src/__tests__/no-client-audit-writes.test.ts",
+  // Attempts a direct audit_signatures insert to assert the database
+  // refuses it (migration 0039).
+  "/src/__tests__/audit-signoff.test.ts",
 ]);
 
 describe("I1 — no client-side audit writes", () => {
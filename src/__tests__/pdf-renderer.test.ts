@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createPdfshiftRenderer,
+  PdfRenderError,
+  selectPdfRenderer,
+} from '../../supabase/functions/_shared/pdf-renderer';
+
+const envOf = (vars: Record<string, string>) => (name: string) => vars[name];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('selectPdfRenderer', () => {
+  it('defaults to the local engine', () => {
+    expect(
+      selectPdfRenderer(envOf({ PDF_FONT_URL: 'https://fonts.test/a.ttf' }))
+        .name,
+    ).toBe('local');
+  });
+
+  it('fails without PDF_FONT_URL instead of falling back to pdfshift', () => {
+    expect(() => selectPdfRenderer(envOf({ PDFSHIFT_API_KEY: 'k' }))).toThrow(
+      'PDF_FONT_URL not set',
+    );
+  });
+
+  it('fetches the font from PDF_FONT_URL and reports a failed fetch', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response('not found', { status: 404 }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const renderer = selectPdfRenderer(
+      envOf({ PDF_FONT_URL: 'https://fonts.test/missing.ttf' }),
+    );
+    await expect(renderer.render('<p>x</p>')).rejects.toThrow(
+      'font load failed: GET https://fonts.test/missing.ttf: 404',
+    );
+    expect(fetchMock).toHaveBeenCalledWith('https://fonts.test/missing.ttf');
+  });
+
+  it('selects pdfshift when configured', () => {
+    expect(
+      selectPdfRenderer(
+        envOf({ PDF_RENDERER: 'pdfshift', PDFSHIFT_API_KEY: 'k' }),
+      ).name,
+    ).toBe('pdfshift');
+  });
+
+  it('strips quotes pasted around the pdfshift secret', async () => {
+    const fetchMock = vi.fn(async () => new Response(new Uint8Array([1])));
+    vi.stubGlobal('fetch', fetchMock);
+    await selectPdfRenderer(
+      envOf({ PDF_RENDERER: 'pdfshift', PDFSHIFT_API_KEY: ' "k" ' }),
+    ).render('<p>x</p>');
+    const init = (fetchMock.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect((init.headers as Record<string, string>)['X-API-Key']).toBe('k');
+  });
+
+  it('fails without PDFSHIFT_API_KEY instead of falling back', () => {
+    expect(() =>
+      selectPdfRenderer(envOf({ PDF_RENDERER: 'pdfshift' })),
+    ).toThrow('PDFSHIFT_API_KEY not set');
+  });
+
+  it('rejects an unknown PDF_RENDERER', () => {
+    expect(() =>
+      selectPdfRenderer(envOf({ PDF_RENDERER: 'wkhtmltopdf' })),
+    ).toThrow(PdfRenderError);
+  });
+});
+
+describe('createPdfshiftRenderer', () => {
+  it('posts the HTML as source alongside the options and returns the bytes', async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(new Uint8Array([0x25, 0x50, 0x44, 0x46])),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const pdf = await createPdfshiftRenderer('k').render('<p>x</p>', {
+      format: 'A4',
+    });
+    expect(Array.from(pdf)).toEqual([0x25, 0x50, 0x44, 0x46]);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe('https://api.pdfshift.io/v3/convert/pdf');
+    expect(JSON.parse(init.body as string)).toEqual({
+      format: 'A4',
+      source: '<p>x</p>',
+    });
+  });
+
+  it('surfaces the pdfshift status and body on failure', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('quota exceeded', { status: 429 })),
+    );
+    await expect(
+      createPdfshiftRenderer('k').render('<p>x</p>'),
+    ).rejects.toThrow('pdfshift 429: quota exceeded');
+  });
+});
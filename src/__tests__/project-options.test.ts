@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import {
+  CONTENT_TYPES,
+  CONTENT_TYPE_VALUES,
+  CONTENT_SUB_TYPES,
+  CONTENT_SUB_TYPE_VALUES,
   TARGET_AUDIENCES,
   TARGET_AUDIENCE_VALUES,
   DRUG_LIFECYCLE_STATUSES,
@@ -9,10 +13,19 @@ import {
   LENGTH_TIERS,
   LENGTH_TIER_VALUES,
   LENGTH_TIER_PRESET_CHARS,
+  VARIATION_AXES,
+  VARIATION_AXIS_VALUES,
+  VARIATION_AXIS_VARIANTS,
+  variationAxisOf,
 } from '@/lib/project-options';
+import { VARIATION_DIRECTIVES } from '@/lib/prompts/variant-generation';
 
 describe('project-options', () => {
   it('value tuples mirror their option arrays', () => {
+    expect([...CONTENT_TYPE_VALUES]).toEqual(CONTENT_TYPES.map((o) => o.value));
+    expect([...CONTENT_SUB_TYPE_VALUES]).toEqual(
+      CONTENT_SUB_TYPES.map((o) => o.value),
+    );
     expect([...TARGET_AUDIENCE_VALUES]).toEqual(
       TARGET_AUDIENCES.map((o) => o.value),
     );
@@ -23,6 +36,23 @@ describe('project-options', () => {
       DISTRIBUTION_CHANNELS.map((o) => o.value),
     );
     expect([...LENGTH_TIER_VALUES]).toEqual(LENGTH_TIERS.map((o) => o.value));
+    expect([...VARIATION_AXIS_VALUES]).toEqual(
+      VARIATION_AXES.map((o) => o.value),
+    );
+  });
+
+  it('axis variant names match the prompt directive labels', () => {
+    for (const axis of VARIATION_AXIS_VALUES) {
+      expect(VARIATION_AXIS_VARIANTS[axis].map((v) => v.ja)).toEqual(
+        Object.values(VARIATION_DIRECTIVES[axis]).map((d) => d.label),
+      );
+    }
+  });
+
+  it('variationAxisOf reads generation_params and rejects unknown axes', () => {
+    expect(variationAxisOf({ variation_axis: 'length' })).toBe('length');
+    expect(variationAxisOf({ variation_axis: 'bogus' })).toBeNull();
+    expect(variationAxisOf(null)).toBeNull();
   });
 
   it('every length tier has a positive preset char value', () => {
@@ -37,6 +67,7 @@ describe('project-options', () => {
       DRUG_LIFECYCLE_STATUSES,
       DISTRIBUTION_CHANNELS,
       LENGTH_TIERS,
+      VARIATION_AXES,
     ]) {
       for (const o of arr) {
         expect(o.ja.length).toBeGreaterThan(0);
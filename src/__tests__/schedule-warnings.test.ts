@@ -1,7 +1,14 @@
 import { describe, it, expect } from 'vitest';
 import {
   getSchedulingWarnings,
+  getSendNowWarnings,
   getHoliday,
+  getMatchingBlackouts,
+  isEmbargoBlocked,
+  isTseTradingSession,
+  jstWallclockToUtcIso,
+  utcIsoToJstWallclock,
+  type SchedulingContext,
 } from '@/lib/schedule-warnings';
 
 // JST is UTC+09:00. A JST wall-clock time of "T" corresponds to UTC "T-9h".
@@ -68,6 +75,129 @@ describe('getSchedulingWarnings', () => {
   });
 });
 
+describe('isTseTradingSession', () => {
+  const at = (jst: string) => new Date(jstUtc(jst));
+
+  it('covers the morning and the extended afternoon session', () => {
+    // 2026-05-14 is a Thursday.
+    expect(isTseTradingSession(at('2026-05-14T09:00'))).toBe(true);
+    expect(isTseTradingSession(at('2026-05-14T11:29'))).toBe(true);
+    expect(isTseTradingSession(at('2026-05-14T15:29'))).toBe(true);
+  });
+
+  it('excludes the lunch break, the close and before the open', () => {
+    expect(isTseTradingSession(at('2026-05-14T08:59'))).toBe(false);
+    expect(isTseTradingSession(at('2026-05-14T11:30'))).toBe(false);
+    expect(isTseTradingSession(at('2026-05-14T12:29'))).toBe(false);
+    expect(isTseTradingSession(at('2026-05-14T15:30'))).toBe(false);
+  });
+
+  it('is closed on weekends, national holidays and the year-end break', () => {
+    expect(isTseTradingSession(at('2026-05-16T10:00'))).toBe(false); // Sat
+    expect(isTseTradingSession(at('2026-05-05T10:00'))).toBe(false); // こどもの日
+    expect(isTseTradingSession(at('2026-12-31T10:00'))).toBe(false);
+    expect(isTseTradingSession(at('2026-01-02T10:00'))).toBe(false);
+  });
+});
+
+describe('getSchedulingWarnings with scheduling rules', () => {
+  const context: SchedulingContext = {
+    marketHoursSensitive: true,
+    embargo: {
+      liftAt: jstUtc('2026-06-01T08:00'),
+      label: 'ASCO 2026 LBA',
+      enforced: false,
+    },
+    blackouts: [
+      {
+        id: 'b1',
+        label: '決算発表',
+        starts_at: jstUtc('2026-05-28T00:00'),
+        ends_at: jstUtc('2026-05-29T00:00'),
+      },
+    ],
+  };
+
+  it('appends the rule warnings after the calendar ones', () => {
+    // 2026-05-28 07:00 JST: before the lift, inside the blackout, off-hours.
+    expect(getSchedulingWarnings(jstUtc('2026-05-28T07:00'), context)).toEqual([
+      'outside_business_hours',
+      'embargo_before_lift',
+      'blackout_window',
+    ]);
+  });
+
+  it('flags tse_trading_hours only for market-hours sensitive projects', () => {
+    const during = jstUtc('2026-06-02T10:00');
+    expect(getSchedulingWarnings(during, context)).toEqual([
+      'tse_trading_hours',
+    ]);
+    expect(
+      getSchedulingWarnings(during, {
+        ...context,
+        marketHoursSensitive: false,
+      }),
+    ).toEqual([]);
+  });
+
+  it('stops flagging the embargo at the lift time', () => {
+    expect(
+      getSchedulingWarnings(jstUtc('2026-06-01T08:00'), context),
+    ).not.toContain('embargo_before_lift');
+  });
+
+  it('evaluates send now against the rules only', () => {
+    // 2026-05-28 07:00 JST is off-hours, which send now does not flag.
+    expect(
+      getSendNowWarnings(context, new Date(jstUtc('2026-05-28T07:00'))),
+    ).toEqual(['embargo_before_lift', 'blackout_window']);
+  });
+});
+
+describe('getMatchingBlackouts', () => {
+  const blackout = {
+    starts_at: jstUtc('2026-05-28T00:00'),
+    ends_at: jstUtc('2026-05-29T00:00'),
+  };
+
+  it('treats the window as [starts_at, ends_at)', () => {
+    const at = (jst: string) => new Date(jstUtc(jst));
+    expect(getMatchingBlackouts(at('2026-05-28T00:00'), [blackout])).toEqual([
+      blackout,
+    ]);
+    expect(getMatchingBlackouts(at('2026-05-29T00:00'), [blackout])).toEqual(
+      [],
+    );
+    expect(getMatchingBlackouts(at('2026-05-28T00:00'), undefined)).toEqual([]);
+  });
+});
+
+describe('isEmbargoBlocked', () => {
+  const embargo = {
+    liftAt: jstUtc('2026-06-01T08:00'),
+    label: null,
+    enforced: true,
+  };
+
+  it('blocks sends before an enforced lift, including send now', () => {
+    expect(isEmbargoBlocked(jstUtc('2026-06-01T07:59'), embargo)).toBe(true);
+    expect(isEmbargoBlocked(jstUtc('2026-06-01T08:00'), embargo)).toBe(false);
+    expect(
+      isEmbargoBlocked(null, embargo, new Date(jstUtc('2026-05-30T12:00'))),
+    ).toBe(true);
+  });
+
+  it('never blocks an advisory embargo', () => {
+    expect(
+      isEmbargoBlocked(jstUtc('2026-05-30T12:00'), {
+        ...embargo,
+        enforced: false,
+      }),
+    ).toBe(false);
+    expect(isEmbargoBlocked(jstUtc('2026-05-30T12:00'), null)).toBe(false);
+  });
+});
+
 describe('getHoliday', () => {
   it('returns the matching holiday object for 2026-05-05', () => {
     const h = getHoliday(jstUtc('2026-05-05T10:00'));
@@ -92,3 +222,11 @@ describe('getHoliday', () => {
     expect(getHoliday(jstUtc('2026-04-30T00:00'))).toBeNull();
   });
 });
+
+describe('JST wall-clock conversion', () => {
+  it('maps a JST datetime-local value to UTC and back', () => {
+    const utc = jstWallclockToUtcIso('2026-05-14T08:30');
+    expect(utc).toBe('2026-05-13T23:30:00.000Z');
+    expect(utcIsoToJstWallclock(utc)).toBe('2026-05-14T08:30');
+  });
+});
@@ -0,0 +1,432 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  type ClaimRequest,
+  type ClaimResult,
+  createSupabaseSendQueue,
+  type Lease,
+  runLeasedTick,
+  type ScheduledSendQueue,
+  type TickOptions,
+} from '../../supabase/functions/_shared/scheduled-sends';
+
+// The in-memory suites always run. The last one runs two workers against a
+// fresh local stack (migrations applied; the workers claim every due row,
+// so not a database with real scheduled sends in it):
+//
+//   npx supabase start && npx supabase db reset
+//   LOCAL_SUPABASE_URL=http://127.0.0.1:54321 LOCAL_SUPABASE_SERVICE_ROLE_KEY=… \
+//     npx vitest run scheduled-send-leases
+//
+// CI runs it in the `database` job (.github/workflows/ci.yml), so the
+// claim and extend SQL is exercised, not only MemoryQueue's copy of it.
+const env = import.meta.env;
+const localUrl: string | undefined = env.LOCAL_SUPABASE_URL;
+const localServiceKey: string | undefined = env.LOCAL_SUPABASE_SERVICE_ROLE_KEY;
+
+interface MemoryRow {
+  id: string;
+  delivery_id: string;
+  scheduled_for: string;
+  attempts: number;
+  processed: boolean;
+  leased_until: number | null;
+  leased_by: string | null;
+}
+
+// Same rules as claim_scheduled_sends / extend_scheduled_send_leases
+// (migration 0035), on Date.now() so fake timers drive lease expiry. The
+// embargo hold (0042) is exercised against the database only.
+class MemoryQueue implements ScheduledSendQueue {
+  rows: MemoryRow[];
+  failExtend = false;
+
+  constructor(count: number) {
+    this.rows = Array.from({ length: count }, (_, i) => ({
+      id: `s${i + 1}`,
+      delivery_id: `d${i + 1}`,
+      scheduled_for: new Date(Date.now() - 60_000 + i).toISOString(),
+      attempts: 0,
+      processed: false,
+      leased_until: null,
+      leased_by: null,
+    }));
+  }
+
+  async claim(req: ClaimRequest): Promise<ClaimResult> {
+    const now = Date.now();
+    const expired: ClaimResult['expired'] = [];
+    for (const r of this.rows) {
+      if (r.processed || r.leased_until === null || r.leased_until > now) {
+        continue;
+      }
+      r.attempts += 1;
+      expired.push({
+        id: r.id,
+        delivery_id: r.delivery_id,
+        leased_by: r.leased_by!,
+        attempts_after: r.attempts,
+        failed: r.attempts >= req.maxAttempts,
+      });
+      r.processed = r.attempts >= req.maxAttempts;
+      r.leased_until = null;
+      r.leased_by = null;
+    }
+    const due = this.rows
+      .filter(
+        (r) =>
+          !r.processed &&
+          r.leased_until === null &&
+          r.attempts < req.maxAttempts,
+      )
+      .slice(0, req.limit);
+    for (const r of due) {
+      r.leased_until = now + req.leaseSeconds * 1000;
+      r.leased_by = req.worker;
+    }
+    return {
+      expired,
+      claimed: due.map((r) => ({
+        id: r.id,
+        delivery_id: r.delivery_id,
+        scheduled_for: r.scheduled_for,
+        attempts: r.attempts,
+        manual_retries: 0,
+        leased_until: new Date(r.leased_until!).toISOString(),
+        reclaimed: expired.some((e) => e.id === r.id),
+      })),
+    };
+  }
+
+  async extend(ids: string[], worker: string, leaseSeconds: number) {
+    if (this.failExtend) throw new Error('connection reset');
+    const kept = this.rows.filter(
+      (r) => ids.includes(r.id) && r.leased_by === worker && !r.processed,
+    );
+    for (const r of kept) r.leased_until = Date.now() + leaseSeconds * 1000;
+    return kept.map((r) => r.id);
+  }
+
+  // mark_delivery_sent_system: the status trigger releases the lease.
+  markSent(id: string) {
+    const r = this.rows.find((x) => x.id === id)!;
+    r.processed = true;
+    r.leased_until = null;
+    r.leased_by = null;
+  }
+}
+
+type TestOutcome = { kind: 'sent' | 'lease_lost'; delivery_id: string };
+
+function options(worker: string, overrides: Partial<TickOptions> = {}) {
+  return {
+    worker,
+    batchSize: 10,
+    concurrency: 5,
+    leaseSeconds: 10,
+    heartbeatMs: 3_000,
+    maxAttempts: 3,
+    ...overrides,
+  };
+}
+
+// The worker's shape: slow work (rendering), confirm, send, mark sent.
+function sender(
+  queue: MemoryQueue,
+  sent: string[],
+  renderMs = 0,
+): (lease: Lease) => Promise<TestOutcome> {
+  return async (lease) => {
+    if (renderMs > 0) await new Promise((r) => setTimeout(r, renderMs));
+    const delivery_id = lease.send.delivery_id;
+    if (!(await lease.confirm())) return { kind: 'lease_lost', delivery_id };
+    sent.push(delivery_id);
+    queue.markSent(lease.send.id);
+    return { kind: 'sent', delivery_id };
+  };
+}
+
+describe('runLeasedTick', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('splits due rows between overlapping ticks and reports each', async () => {
+    const queue = new MemoryQueue(6);
+    const sent: string[] = [];
+    const [a, b] = await Promise.all([
+      runLeasedTick(queue, options('A', { batchSize: 4 }), sender(queue, sent)),
+      runLeasedTick(queue, options('B', { batchSize: 4 }), sender(queue, sent)),
+    ]);
+
+    expect(sent.sort()).toEqual(['d1', 'd2', 'd3', 'd4', 'd5', 'd6']);
+    expect(a).toMatchObject({
+      worker: 'A',
+      claimed: 4,
+      reclaimed: 0,
+      expired: [],
+      summary: { sent: 4 },
+    });
+    expect(b).toMatchObject({ worker: 'B', claimed: 2, summary: { sent: 2 } });
+    expect(a.outcomes.map((o) => o.delivery_id)).toEqual([
+      'd1',
+      'd2',
+      'd3',
+      'd4',
+    ]);
+  });
+
+  it('keeps a slow render leased through the heartbeat', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryQueue(1);
+    const sent: string[] = [];
+    const slow = runLeasedTick(
+      queue,
+      options('A'),
+      sender(queue, sent, 25_000),
+    );
+
+    await vi.advanceTimersByTimeAsync(12_000);
+    const overlapping = await runLeasedTick(
+      queue,
+      options('B'),
+      sender(queue, sent),
+    );
+    await vi.advanceTimersByTimeAsync(13_000);
+
+    expect(overlapping.claimed).toBe(0);
+    expect((await slow).summary).toEqual({ sent: 1 });
+    expect(sent).toEqual(['d1']);
+  });
+
+  it('lets another worker reclaim a stalled lease and keeps the stalled one from sending', async () => {
+    vi.useFakeTimers();
+    const queue = new MemoryQueue(1);
+    const sent: string[] = [];
+    // No heartbeat before the lease runs out.
+    const stalled = runLeasedTick(
+      queue,
+      options('A', { heartbeatMs: 60_000 }),
+      sender(queue, sent, 15_000),
+    );
+
+    await vi.advanceTimersByTimeAsync(11_000);
+    const rescue = await runLeasedTick(
+      queue,
+      options('B'),
+      sender(queue, sent),
+    );
+    await vi.advanceTimersByTimeAsync(4_000);
+
+    expect(rescue).toMatchObject({
+      claimed: 1,
+      reclaimed: 1,
+      expired: [{ id: 's1', leased_by: 'A', attempts_after: 1, failed: false }],
+      summary: { sent: 1 },
+    });
+    expect((await stalled).summary).toEqual({ lease_lost: 1 });
+    expect(sent).toEqual(['d1']);
+  });
+
+  it('treats a lease it cannot confirm as lost', async () => {
+    const queue = new MemoryQueue(1);
+    queue.failExtend = true;
+    const sent: string[] = [];
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const report = await runLeasedTick(
+      queue,
+      options('A'),
+      sender(queue, sent),
+    );
+
+    expect(report.summary).toEqual({ lease_lost: 1 });
+    expect(sent).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('s1'));
+    warn.mockRestore();
+  });
+});
+
+describe.skipIf(!localUrl || !localServiceKey)(
+  'scheduled-send leases against a local database',
+  () => {
+    let supabase: SupabaseClient;
+    let queue: ScheduledSendQueue;
+    let projectId = '';
+    let auditReportId = '';
+
+    // Rows are left behind: audit_trail_events is append-only, so the
+    // project cannot be deleted.
+    beforeAll(async () => {
+      supabase = createClient(localUrl!, localServiceKey!, {
+        auth: { persistSession: false },
+      });
+      queue = createSupabaseSendQueue(supabase);
+      const stamp = Date.now();
+      const { data: auth, error: authError } =
+        await supabase.auth.admin.createUser({
+          email: `leases-${stamp}@example.com`,
+          email_confirm: true,
+        });
+      if (authError) throw authError;
+      const userId = auth.user.id;
+      const { data: client } = await supabase
+        .from('clients')
+        .insert({ name: `leases ${stamp}`, created_by: userId })
+        .select('id')
+        .single()
+        .throwOnError();
+      const { data: project } = await supabase
+        .from('projects')
+        .insert({ client_id: client.id, name: 'leases', created_by: userId })
+        .select('id')
+        .single()
+        .throwOnError();
+      const { data: report } = await supabase
+        .from('audit_reports')
+        .insert({
+          project_id: project.id,
+          report_id_display: `AR-${stamp}`,
+          created_by: userId,
+        })
+        .select('id')
+        .single()
+        .throwOnError();
+      projectId = project.id;
+      auditReportId = report.id;
+    });
+
+    async function queueDeliveries(count: number): Promise<string[]> {
+      const { data } = await supabase
+        .from('deliveries')
+        .insert(
+          Array.from({ length: count }, (_, i) => ({
+            project_id: projectId,
+            audit_report_id: auditReportId,
+            recipient_email: `r${i}@example.com`,
+            subject: 'leases',
+            body_html: '<p>leases</p>',
+            delivery_snapshot: {},
+            status: 'scheduled',
+          })),
+        )
+        .select('id')
+        .throwOnError();
+      const ids = data.map((d) => d.id);
+      await supabase
+        .from('scheduled_sends')
+        .insert(
+          ids.map((id) => ({
+            delivery_id: id,
+            scheduled_for: new Date(Date.now() - 60_000).toISOString(),
+          })),
+        )
+        .throwOnError();
+      return ids;
+    }
+
+    // What process-scheduled-sends does around the transport: confirm,
+    // "send", mark_delivery_sent_system.
+    function dbSender(sent: string[], renderMs = 0) {
+      return async (lease: Lease): Promise<TestOutcome> => {
+        if (renderMs > 0) await new Promise((r) => setTimeout(r, renderMs));
+        const delivery_id = lease.send.delivery_id;
+        if (!(await lease.confirm()))
+          return { kind: 'lease_lost', delivery_id };
+        sent.push(delivery_id);
+        await supabase
+          .rpc('mark_delivery_sent_system', {
+            p_delivery_id: delivery_id,
+            p_resend_message_id: `msg-${delivery_id}`,
+            p_sender: { kind: 'managed' },
+          })
+          .throwOnError();
+        return { kind: 'sent', delivery_id };
+      };
+    }
+
+    async function sentEvents(ids: string[]) {
+      const { data } = await supabase
+        .from('audit_trail_events')
+        .select('details')
+        .eq('project_id', projectId)
+        .eq('event_type', 'delivery_sent')
+        .throwOnError();
+      return data
+        .map((e) => (e.details as { delivery_id: string }).delivery_id)
+        .filter((id) => ids.includes(id))
+        .sort();
+    }
+
+    it('sends each delivery exactly once across two concurrent workers', async () => {
+      const ids = await queueDeliveries(12);
+      const sent: string[] = [];
+      const opts = { batchSize: 5, concurrency: 3, leaseSeconds: 30 };
+
+      // Several rounds of both workers ticking at once.
+      for (let round = 0; round < 3; round++) {
+        await Promise.all([
+          runLeasedTick(queue, options('it-A', opts), dbSender(sent, 50)),
+          runLeasedTick(queue, options('it-B', opts), dbSender(sent, 50)),
+        ]);
+      }
+
+      expect([...sent].sort()).toEqual([...ids].sort());
+      expect(await sentEvents(ids)).toEqual([...ids].sort());
+    }, 60_000);
+
+    it('reclaims a stalled worker’s lease without a second send', async () => {
+      const ids = await queueDeliveries(1);
+      const sent: string[] = [];
+
+      const stalled = runLeasedTick(
+        queue,
+        options('it-stalled', { leaseSeconds: 1, heartbeatMs: 60_000 }),
+        dbSender(sent, 3_000),
+      );
+      await new Promise((r) => setTimeout(r, 1_500));
+      const rescue = await runLeasedTick(
+        queue,
+        options('it-rescue'),
+        dbSender(sent),
+      );
+
+      expect(rescue.reclaimed).toBe(1);
+      expect(rescue.expired).toMatchObject([
+        { delivery_id: ids[0], leased_by: 'it-stalled', attempts_after: 1 },
+      ]);
+      expect((await stalled).summary).toEqual({ lease_lost: 1 });
+      expect(sent).toEqual(ids);
+      expect(await sentEvents(ids)).toEqual(ids);
+    }, 30_000);
+
+    it('holds a due send until the project’s enforced embargo lifts', async () => {
+      const ids = await queueDeliveries(1);
+      const sent: string[] = [];
+      // Enforced after the row was queued, as if it predated the rule.
+      await supabase
+        .from('projects')
+        .update({
+          embargo_lift_at: new Date(Date.now() + 3_600_000).toISOString(),
+          embargo_enforced: true,
+        })
+        .eq('id', projectId)
+        .throwOnError();
+
+      const held = await runLeasedTick(queue, options('it-A'), dbSender(sent));
+      expect(held.claimed).toBe(0);
+      expect(sent).toEqual([]);
+
+      await supabase
+        .from('projects')
+        .update({ embargo_lift_at: new Date().toISOString() })
+        .eq('id', projectId)
+        .throwOnError();
+      const lifted = await runLeasedTick(
+        queue,
+        options('it-A'),
+        dbSender(sent),
+      );
+      expect(lifted.summary).toEqual({ sent: 1 });
+      expect(sent).toEqual(ids);
+    }, 30_000);
+  },
+);
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { diffChars, diffLines } from '@/lib/text-diff';
+
+describe('diffChars', () => {
+  it('merges consecutive characters into runs', () => {
+    expect(diffChars('奏効率は42%でした', '奏効率は45%でした')).toEqual([
+      { op: 'equal', text: '奏効率は4' },
+      { op: 'removed', text: '2' },
+      { op: 'added', text: '5' },
+      { op: 'equal', text: '%でした' },
+    ]);
+  });
+
+  it('treats surrogate pairs as one character', () => {
+    expect(diffChars('𠮷野', '𠮷田')).toEqual([
+      { op: 'equal', text: '𠮷' },
+      { op: 'removed', text: '野' },
+      { op: 'added', text: '田' },
+    ]);
+  });
+});
+
+describe('diffLines', () => {
+  it('returns all-equal lines for identical text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { op: 'equal', text: 'a' },
+      { op: 'equal', text: 'b' },
+    ]);
+  });
+
+  it("treats the editor's blank-line breaks like single newlines", () => {
+    expect(diffLines('a\nb', 'a\n\nb')).toEqual([
+      { op: 'equal', text: 'a' },
+      { op: 'equal', text: 'b' },
+    ]);
+  });
+
+  it('reports inserted and deleted paragraphs', () => {
+    expect(diffLines('見出し\n発表\n結び', '見出し\n引用\n発表')).toEqual([
+      { op: 'equal', text: '見出し' },
+      { op: 'added', text: '引用' },
+      { op: 'equal', text: '発表' },
+      { op: 'removed', text: '結び' },
+    ]);
+  });
+
+  it('pairs an edited paragraph into a character-level change', () => {
+    const [, line] = diffLines(
+      '見出し\n本日発表しました。',
+      '見出し\n本日発表いたしました。',
+    );
+    expect(line).toEqual({
+      op: 'changed',
+      segments: [
+        { op: 'equal', text: '本日発表' },
+        { op: 'added', text: 'いた' },
+        { op: 'equal', text: 'しました。' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import tsSrc from '../lib/variant-document.ts?raw';
+import denoSrc from '../../supabase/functions/_shared/variant-document.ts?raw';
+import {
+  documentSections,
+  documentToText,
+  parseVariantDocument,
+  readVariantDocument,
+  spliceDocumentText,
+  textToDocument,
+  type VariantDocument,
+} from '../lib/variant-document';
+
+function extractDriftRegion(src: string, name: string): string {
+  const re = new RegExp(
+    `// drift:start ${name}\\r?\\n([\\s\\S]*?)\\r?\\n// drift:end ${name}`,
+  );
+  const match = src.match(re);
+  if (!match) {
+    throw new Error(`Could not locate drift region "${name}" in source`);
+  }
+  return match[1];
+}
+
+describe('variant-document drift (TS mirror vs Deno _shared/variant-document)', () => {
+  it('VARIANT_DOCUMENT region is byte-identical across both files', () => {
+    expect(extractDriftRegion(denoSrc, 'VARIANT_DOCUMENT')).toBe(
+      extractDriftRegion(tsSrc, 'VARIANT_DOCUMENT'),
+    );
+  });
+});
+
+const DOC: VariantDocument = {
+  version: 1,
+  blocks: [
+    { type: 'title', text: '新薬を発表' },
+    { type: 'dateline', text: '2026年10月19日' },
+    { type: 'paragraph', text: '本日発表しました。' },
+    { type: 'quote', text: '大きな一歩です。', attribution: '' },
+    {
+      type: 'table',
+      caption: '試験結果',
+      header: ['群', '例数'],
+      rows: [['A', '120']],
+    },
+    {
+      type: 'boilerplate',
+      heading: '会社概要',
+      text: '当社は…。\n\n所在地…。',
+    },
+    { type: 'contact', text: '広報部\nTEL 03-0000-0000' },
+  ],
+};
+
+const TEXT = [
+  '新薬を発表',
+  '2026年10月19日',
+  '本日発表しました。',
+  '大きな一歩です。',
+  '試験結果',
+  '群\t例数\nA\t120',
+  '会社概要',
+  '当社は…。\n\n所在地…。',
+  '広報部\nTEL 03-0000-0000',
+].join('\n\n');
+
+describe('documentToText', () => {
+  it('joins blocks with blank lines, rows with newlines and cells with tabs', () => {
+    expect(documentToText(DOC)).toBe(TEXT);
+  });
+
+  it('round-trips a plain-text body through textToDocument', () => {
+    const body = '一段落目。\n\n二段落目。';
+    expect(documentToText(textToDocument(body))).toBe(body);
+  });
+});
+
+describe('documentSections', () => {
+  it('locates each block in the text, optional fields included', () => {
+    const sections = documentSections(DOC);
+    expect(sections.map((s) => s.type)).toEqual(DOC.blocks.map((b) => b.type));
+    const boilerplate = sections.find((s) => s.type === 'boilerplate')!;
+    expect(TEXT.slice(boilerplate.start, boilerplate.end)).toBe(
+      '会社概要\n\n当社は…。\n\n所在地…。',
+    );
+    const table = sections.find((s) => s.type === 'table')!;
+    expect(TEXT.slice(table.start, table.end)).toBe(
+      '試験結果\n\n群\t例数\nA\t120',
+    );
+  });
+});
+
+describe('spliceDocumentText', () => {
+  it('edits the block that holds the range and keeps the text in step', () => {
+    const start = TEXT.indexOf('120');
+    const next = spliceDocumentText(DOC, start, start + 3, '118');
+    expect(next?.blocks[4]).toMatchObject({ rows: [['A', '118']] });
+    expect(documentToText(next!)).toBe(
+      TEXT.slice(0, start) + '118' + TEXT.slice(start + 3),
+    );
+  });
+
+  it('returns null for a range that crosses into the next block', () => {
+    const start = TEXT.indexOf('発表しました');
+    expect(
+      spliceDocumentText(DOC, start, TEXT.indexOf('大きな') + 2, ''),
+    ).toBeNull();
+  });
+});
+
+describe('parseVariantDocument', () => {
+  it('reads the fenced JSON inside <document> and tidies the blocks', () => {
+    const output = `reasoning…\n<document>\n\`\`\`json\n${JSON.stringify({
+      version: 1,
+      blocks: [
+        { type: 'title', text: '  見出し \n\n続き ' },
+        { type: 'paragraph', text: '   ' },
+        { type: 'table', header: [], rows: [['a\nb', ' c ']] },
+      ],
+    })}\n\`\`\`\n</document>`;
+    expect(parseVariantDocument(output)).toEqual({
+      version: 1,
+      blocks: [
+        { type: 'title', text: '見出し\n続き' },
+        { type: 'table', caption: '', header: [], rows: [['a b', 'c']] },
+      ],
+    });
+  });
+
+  it('returns null for a reply without a usable document', () => {
+    expect(parseVariantDocument('本文のみ')).toBeNull();
+    expect(parseVariantDocument('<document>{oops}</document>')).toBeNull();
+    expect(
+      parseVariantDocument(
+        '<document>{"version":1,"blocks":[{"type":"lead","text":" "}]}</document>',
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('readVariantDocument', () => {
+  it('accepts a stored document and rejects anything else', () => {
+    expect(readVariantDocument(DOC)).toEqual(DOC);
+    expect(readVariantDocument(null)).toBeNull();
+    expect(readVariantDocument({ version: 2, blocks: [] })).toBeNull();
+  });
+});
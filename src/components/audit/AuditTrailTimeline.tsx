@@ -1,4 +1,5 @@
 import { useTranslation } from "react-i18next";
+import { ShieldAlertIcon, ShieldCheckIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { BilingualLabel } from "@/components/shared/BilingualLabel";
 import {
@@ -6,8 +7,25 @@ import {
   getEventTypeLabel,
   isBackfilledEvent,
 } from "@/lib/audit-events-display";
+import { useAuditChainVerification } from "@/hooks/useAuditChainVerification";
+import type { AuditChainBreak } from "@/lib/audit-chain";
 import type { AuditTrailEvent } from "@/types/domain";
 
+const CHAIN_BREAK_LABEL: Record<AuditChainBreak, { ja: string; en: string }> = {
+  link_missing: {
+    ja: "イベントが削除または挿入されています",
+    en: "an event was deleted or inserted",
+  },
+  link_mismatch: {
+    ja: "前のイベントとつながっていません",
+    en: "it does not link to the event before it",
+  },
+  event_altered: {
+    ja: "記録後に内容が変更されています",
+    en: "it was altered after it was recorded",
+  },
+};
+
 interface AuditTrailTimelineProps {
   events: AuditTrailEvent[];
 }
@@ -15,10 +33,12 @@ interface AuditTrailTimelineProps {
 // Chronological audit trail render. Backfilled rows (details.completeness =
 // 'latest_state_only') get a muted "backfilled" badge so reviewers can
 // distinguish historical reconstruction from live events recorded in
-// Phase 4+.
+// Phase 4+. The hash chain (migration 0027) is re-verified on every render
+// of new events; a break names the first event that fails.
 export function AuditTrailTimeline({ events }: AuditTrailTimelineProps) {
   const { i18n } = useTranslation();
   const isJa = i18n.language.startsWith("ja");
+  const { data: chain } = useAuditChainVerification(events);
 
   if (events.length === 0) {
     return (
@@ -29,31 +49,61 @@ export function AuditTrailTimeline({ events }: AuditTrailTimelineProps) {
   }
 
   return (
-    <ol className="space-y-2 border-l-2 border-muted pl-4">
-      {events.map((e) => {
-        const label = getEventTypeLabel(e.event_type);
-        const actor = getActorDisplay(e);
-        const backfilled = isBackfilledEvent(e);
-        return (
-          <li key={e.id} className="relative text-sm">
-            <span className="absolute -left-[1.4rem] top-1.5 size-2 rounded-full bg-foreground/60" />
-            <div className="flex items-baseline gap-2 flex-wrap">
-              <span className="font-medium">{isJa ? label.ja : label.en}</span>
-              {backfilled && (
-                <Badge variant="outline" className="text-xs font-normal">
-                  <BilingualLabel ja="遡及記録" en="Backfilled" />
-                </Badge>
-              )}
-            </div>
-            <p className="text-xs text-muted-foreground">
-              {new Date(e.occurred_at).toLocaleString()}
-              {" · "}
-              {isJa ? actor.ja : actor.en}
-              {e.model_used ? ` · ${e.model_used}` : null}
-            </p>
-          </li>
-        );
-      })}
-    </ol>
+    <div className="space-y-3">
+      {chain?.ok === true && (
+        <p className="flex items-center gap-1.5 text-xs text-green-700">
+          <ShieldCheckIcon className="size-3.5" />
+          <BilingualLabel
+            ja={`ハッシュチェーン検証済み（${chain.length}件）`}
+            en={`Hash chain verified (${chain.length} events)`}
+          />
+        </p>
+      )}
+      {chain?.ok === false && (
+        <p className="flex items-center gap-1.5 text-xs text-destructive">
+          <ShieldAlertIcon className="size-3.5" />
+          <BilingualLabel
+            ja={`ハッシュチェーンが第${chain.broken_at.chain_seq}件で途切れています: ${CHAIN_BREAK_LABEL[chain.broken_at.reason].ja}`}
+            en={`Hash chain broken at event #${chain.broken_at.chain_seq}: ${CHAIN_BREAK_LABEL[chain.broken_at.reason].en}`}
+          />
+        </p>
+      )}
+      <ol className="space-y-2 border-l-2 border-muted pl-4">
+        {events.map((e) => {
+          const label = getEventTypeLabel(e.event_type);
+          const actor = getActorDisplay(e);
+          const backfilled = isBackfilledEvent(e);
+          return (
+            <li
+              key={e.id}
+              className={
+                "relative text-sm" +
+                (chain?.ok === false && chain.broken_at.event_id === e.id
+                  ? " text-destructive"
+                  : "")
+              }
+            >
+              <span className="absolute -left-[1.4rem] top-1.5 size-2 rounded-full bg-foreground/60" />
+              <div className="flex items-baseline gap-2 flex-wrap">
+                <span className="font-medium">
+                  {isJa ? label.ja : label.en}
+                </span>
+                {backfilled && (
+                  <Badge variant="outline" className="text-xs font-normal">
+                    <BilingualLabel ja="遡及記録" en="Backfilled" />
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {new Date(e.occurred_at).toLocaleString()}
+                {" · "}
+                {isJa ? actor.ja : actor.en}
+                {e.model_used ? ` · ${e.model_used}` : null}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
   );
 }
@@ -5,6 +5,7 @@ import {
   SEVERITY_ORDER,
   SEVERITY_VARIANT,
 } from "@/lib/severity";
+import { findingSource, summarizeFindings } from "@/lib/finding-source";
 import type { SnapshotFinding } from "@/types/audit-snapshot";
 
 // Read-only severity-grouped findings render used by AuditReportPage and
@@ -22,9 +23,18 @@ export function FindingsList({ findings }: { findings: SnapshotFinding[] }) {
     severity,
     items: findings.filter((f) => f.severity === severity),
   })).filter((g) => g.items.length > 0);
+  // Reviewer-filed findings are counted apart from what the automated
+  // checks raised.
+  const summary = summarizeFindings(findings);
 
   return (
     <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        <BilingualLabel
+          ja={`自動チェック ${summary.automated}件 · 手動 ${summary.manual}件`}
+          en={`Automated ${summary.automated} · Manual ${summary.manual}`}
+        />
+      </p>
       {grouped.map(({ severity, items }) => (
         <div key={severity} className="space-y-2">
           <div className="flex items-center gap-2">
@@ -36,6 +46,15 @@ export function FindingsList({ findings }: { findings: SnapshotFinding[] }) {
             </Badge>
             <span className="text-xs text-muted-foreground">
               {items.length}
+              {summary.bySeverity[severity].manual > 0 && (
+                <>
+                  {" "}
+                  <BilingualLabel
+                    ja={`（うち手動 ${summary.bySeverity[severity].manual}）`}
+                    en={`(${summary.bySeverity[severity].manual} manual)`}
+                  />
+                </>
+              )}
             </span>
           </div>
           <ul className="space-y-2 ml-1">
@@ -44,7 +63,22 @@ export function FindingsList({ findings }: { findings: SnapshotFinding[] }) {
                 key={f.id}
                 className="rounded-md border bg-card px-3 py-2 text-sm space-y-1"
               >
-                <p className="font-medium">{f.explanation}</p>
+                <p className="font-medium">
+                  {findingSource(f) === "manual" && (
+                    <Badge variant="outline" className="mr-1.5 font-normal">
+                      <BilingualLabel ja="手動" en="Manual" />
+                    </Badge>
+                  )}
+                  {f.explanation}
+                </p>
+                {f.created_by?.name && (
+                  <p className="text-xs text-muted-foreground">
+                    <BilingualLabel
+                      ja={`指摘者: ${f.created_by.name}`}
+                      en={`Filed by ${f.created_by.name}`}
+                    />
+                  </p>
+                )}
                 <p className="text-xs text-muted-foreground">
                   {f.regulation_reference}
                 </p>
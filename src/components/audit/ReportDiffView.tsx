@@ -0,0 +1,156 @@
+import { Badge } from "@/components/ui/badge";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import type { DiffOp } from "@/lib/text-diff";
+import type { ChangeStatus, FieldChange, ReportDiff } from "@/lib/report-diff";
+
+const OP_CLASS: Record<DiffOp, string> = {
+  equal: "",
+  added: "bg-emerald-100 text-emerald-900",
+  removed: "bg-red-100 text-red-900 line-through",
+};
+
+const STATUS_LABEL: Record<ChangeStatus, { ja: string; en: string }> = {
+  added: { ja: "追加", en: "Added" },
+  removed: { ja: "削除", en: "Removed" },
+  changed: { ja: "変更", en: "Changed" },
+  unchanged: { ja: "変更なし", en: "Unchanged" },
+};
+
+const FIELD_LABEL: Record<string, { ja: string; en: string }> = {
+  variant_label: { ja: "案の名称", en: "Label" },
+  internal_approved_by: { ja: "承認者", en: "Approved by" },
+  severity: { ja: "重大度", en: "Severity" },
+  source: { ja: "指摘元", en: "Source" },
+  source_text: { ja: "該当箇所", en: "Flagged text" },
+  paragraph_index: { ja: "段落", en: "Paragraph" },
+  explanation: { ja: "説明", en: "Explanation" },
+  regulation_reference: { ja: "根拠規定", en: "Regulation" },
+  suggested_correction: { ja: "修正案", en: "Suggested correction" },
+  resolution_status: { ja: "対応状況", en: "Resolution" },
+  resolved_by: { ja: "対応者", en: "Resolved by" },
+};
+
+function display(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+      {changes.map((c) => (
+        <div key={c.field} className="contents">
+          <dt className="text-muted-foreground">
+            {FIELD_LABEL[c.field] ? (
+              <BilingualLabel {...FIELD_LABEL[c.field]} />
+            ) : (
+              c.field
+            )}
+          </dt>
+          <dd>
+            <span className={OP_CLASS.removed}>{display(c.before)}</span>
+            {" → "}
+            <span className={OP_CLASS.added}>{display(c.after)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+// Read-only render of a report-diff.ts ReportDiff, shared by the compare
+// section on AuditReportPage and the printed revision summary. Unchanged
+// variants collapse to one line.
+export function ReportDiffView({ diff }: { diff: ReportDiff }) {
+  const { counts } = diff;
+  if (counts.variants_changed === 0) {
+    return (
+      <p className="text-sm text-muted-foreground italic">
+        <BilingualLabel ja="差分はありません" en="No differences" />
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        <BilingualLabel
+          ja={`変更された案 ${counts.variants_changed}件 · 指摘の追加 ${counts.findings_added}件 · 削除 ${counts.findings_removed}件 · 変更 ${counts.findings_changed}件`}
+          en={`${counts.variants_changed} variants changed · findings: ${counts.findings_added} added, ${counts.findings_removed} removed, ${counts.findings_changed} changed`}
+        />
+      </p>
+      {diff.variants.map((v) => (
+        <section
+          key={`${v.variant_index}-${v.status}`}
+          className="print-section space-y-2 rounded-md border px-3 py-2"
+        >
+          <header className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium">
+              <BilingualLabel
+                ja={`案${v.variant_index}`}
+                en={`Variant ${v.variant_index}`}
+              />{" "}
+              · {v.variant_label}
+            </span>
+            <Badge variant={v.status === "unchanged" ? "outline" : "secondary"}>
+              <BilingualLabel {...STATUS_LABEL[v.status]} />
+            </Badge>
+          </header>
+
+          {v.changes.length > 0 && <FieldChanges changes={v.changes} />}
+
+          {v.body && (
+            <div className="rounded-md border p-3 font-serif text-sm leading-relaxed space-y-1">
+              {v.body.map((line, i) =>
+                line.op === "changed" ? (
+                  <p key={i}>
+                    {line.segments.map((s, j) => (
+                      <span key={j} className={OP_CLASS[s.op]}>
+                        {s.text}
+                      </span>
+                    ))}
+                  </p>
+                ) : (
+                  <p key={i} className={OP_CLASS[line.op]}>
+                    {line.text}
+                  </p>
+                ),
+              )}
+            </div>
+          )}
+
+          {v.findings.length > 0 && (
+            <ul className="space-y-2">
+              {v.findings.map((f) => (
+                <li
+                  key={`${f.status}-${f.finding.id}`}
+                  className="space-y-1 text-sm"
+                >
+                  <p>
+                    <Badge variant="outline" className="mr-1.5 font-normal">
+                      <BilingualLabel {...STATUS_LABEL[f.status]} />
+                    </Badge>
+                    <span
+                      className={
+                        f.status === "removed" ? "line-through opacity-70" : ""
+                      }
+                    >
+                      {f.finding.explanation}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {f.finding.regulation_reference}
+                    {f.finding.source_text
+                      ? ` · ${f.finding.source_text}`
+                      : null}
+                  </p>
+                  {f.changes.length > 0 && <FieldChanges changes={f.changes} />}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { AlertCircleIcon } from "lucide-react";
+import { AlertCircleIcon, AlertTriangleIcon } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -11,15 +11,24 @@ import {
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { BilingualLabel } from "@/components/shared/BilingualLabel";
-import { useSignAuditReport } from "@/hooks/useSignAuditReport";
+import {
+  useSignAuditReport,
+  type SignAuditReportResponse,
+} from "@/hooks/useSignAuditReport";
+import {
+  SIGNOFF_ROLE_LABEL,
+  signoffSlots,
+  type AuditReportSignoff,
+} from "@/lib/signoff";
 import type { AuditReport } from "@/types/domain";
 
 interface SignAuditDialogProps {
   report: AuditReport | undefined;
+  signoff: AuditReportSignoff | undefined;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   projectId: string | undefined;
-  onSigned?: () => void;
+  onSigned?: (result: SignAuditReportResponse) => void;
 }
 
 // I3 gate failures arrive as P0004 messages from the RPC, surfaced as
@@ -34,14 +43,26 @@ const GATE_MESSAGES: Record<string, { ja: string; en: string }> = {
     ja: "レポートが見つかりません",
     en: "Report not found",
   },
-  report_not_draft: {
-    ja: "下書き状態のレポートしか署名できません",
-    en: "Only draft reports can be signed",
+  report_not_signable: {
+    ja: "下書きまたは署名途中のレポートしか署名できません",
+    en: "Only draft or partially signed reports can be signed",
   },
   signer_mismatch: {
     ja: "署名者IDが認証ユーザーと一致しません",
     en: "Signer ID does not match the authenticated user",
   },
+  signer_already_signed: {
+    ja: "このレポートには既に署名しています。1人が複数の役割で署名することはできません。",
+    en: "You have already signed this report. One person cannot sign for more than one role.",
+  },
+  signoff_role_mismatch: {
+    ja: "署名中に他の署名が行われました。ページを再読み込みして再試行してください。",
+    en: "Someone else signed in the meantime. Reload the page and try again.",
+  },
+  signer_role_not_allowed: {
+    ja: "この署名枠に署名する権限がありません。該当する役割のユーザーが署名してください。",
+    en: "Your role cannot sign this slot. A user with the required role must sign.",
+  },
   no_approved_variants: {
     ja: "承認された案が1件もありません。署名前に少なくとも1案を承認してください。",
     en: "No approved variants. Approve at least one variant before signing.",
@@ -58,6 +79,18 @@ const GATE_MESSAGES: Record<string, { ja: string; en: string }> = {
     ja: "承認済みの案にコンプライアンスチェック履歴がありません。再チェックを実行してください。",
     en: "Approved variants have no compliance_checked event. Run compliance first.",
   },
+  audit_trail_head_unknown: {
+    ja: "監査トレイルの最新イベントを確認できませんでした。ページを再読み込みして再試行してください。",
+    en: "The latest audit trail event could not be confirmed. Reload the page and try again.",
+  },
+  audit_trail_head_stale: {
+    ja: "署名中に監査トレイルへ新しいイベントが追加されました。再試行してください。",
+    en: "New audit trail events were recorded while signing. Try again.",
+  },
+  signing_key_unavailable: {
+    ja: "署名鍵が公開されていないか、失効しています。管理者に連絡してください。",
+    en: "The signing key is not published or has been retired. Contact your administrator.",
+  },
   snapshot_mismatch: {
     ja: "スナップショットがサーバーの状態と一致しません。ページを再読み込みして再試行してください。",
     en: "Snapshot disagreed with server state. Reload the page and try again.",
@@ -73,6 +106,7 @@ function explainError(message: string): { ja: string; en: string } | null {
 
 export function SignAuditDialog({
   report,
+  signoff,
   open,
   onOpenChange,
   projectId,
@@ -95,9 +129,9 @@ export function SignAuditDialog({
     sign.mutate(
       { auditReportId: report.id },
       {
-        onSuccess: () => {
+        onSuccess: (result) => {
           handleOpenChange(false);
-          onSigned?.();
+          onSigned?.(result);
         },
         onError: (e) => setErrorMessage(e.message),
       },
@@ -105,6 +139,10 @@ export function SignAuditDialog({
   };
 
   const localized = errorMessage ? explainError(errorMessage) : null;
+  const slots = signoff ? signoffSlots(signoff) : [];
+  const remaining = slots.filter((s) => s.signature === null).length;
+  // Finalizes when this signature fills the last open slot.
+  const finalizes = remaining <= 1;
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -117,10 +155,17 @@ export function SignAuditDialog({
             />
           </DialogTitle>
           <DialogDescription>
-            <BilingualLabel
-              ja="本レポートを確定し、内容のスナップショットに対する署名を保存します。確定後は内容を編集できません。改訂が必要な場合は確定後に「改訂を要求」ボタンを使用してください。"
-              en="This finalizes the report and stores an HMAC signature over the content snapshot. Finalized reports cannot be edited; use Request Revision afterward if changes are needed."
-            />
+            {finalizes ? (
+              <BilingualLabel
+                ja="本レポートを確定し、内容のスナップショットに対する署名を保存します。確定後は内容を編集できません。改訂が必要な場合は確定後に「改訂を要求」ボタンを使用してください。"
+                en="This finalizes the report and stores an Ed25519 signature over the content snapshot. Finalized reports cannot be edited; use Request Revision afterward if changes are needed."
+              />
+            ) : (
+              <BilingualLabel
+                ja="内容のスナップショットに対する署名を保存します。残りの役割がすべて署名するとレポートが確定します。それまでに内容が変更されると、既存の署名は無効になります。"
+                en="This stores an Ed25519 signature over the content snapshot. The report finalizes once every remaining role has signed; any edit before then invalidates the signatures made so far."
+              />
+            )}
           </DialogDescription>
         </DialogHeader>
 
@@ -130,9 +175,38 @@ export function SignAuditDialog({
             <p>
               <BilingualLabel ja="バージョン" en="Version" /> {report.version}
             </p>
+            {signoff?.next_role && (
+              <p>
+                <BilingualLabel ja="署名する役割" en="Signing as" />{" "}
+                <BilingualLabel {...SIGNOFF_ROLE_LABEL[signoff.next_role]} />
+                {" · "}
+                <BilingualLabel
+                  ja={`署名 ${slots.length - remaining + 1}/${slots.length}`}
+                  en={`Signature ${slots.length - remaining + 1} of ${slots.length}`}
+                />
+              </p>
+            )}
           </div>
         )}
 
+        {signoff?.content_changed && (
+          <Alert>
+            <AlertTriangleIcon className="size-4" />
+            <AlertTitle>
+              <BilingualLabel
+                ja="既存の署名が無効になります"
+                en="Existing signatures will be invalidated"
+              />
+            </AlertTitle>
+            <AlertDescription>
+              <BilingualLabel
+                ja="前回の署名後に内容が変更されました。この署名から署名をやり直します。"
+                en="The content changed after the last signature. Sign-off starts over with this signature."
+              />
+            </AlertDescription>
+          </Alert>
+        )}
+
         {errorMessage && (
           <Alert variant="destructive">
             <AlertCircleIcon className="size-4" />
@@ -165,8 +239,10 @@ export function SignAuditDialog({
           >
             {sign.isPending ? (
               <BilingualLabel ja="署名中…" en="Signing…" />
-            ) : (
+            ) : finalizes ? (
               <BilingualLabel ja="署名して確定" en="Sign & finalize" />
+            ) : (
+              <BilingualLabel ja="署名" en="Sign" />
             )}
           </Button>
         </DialogFooter>
@@ -1,13 +1,52 @@
+import { AlertTriangleIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { BilingualLabel } from "@/components/shared/BilingualLabel";
 import { VerifySignatureButton } from "@/components/audit/VerifySignatureButton";
-import type { AuditSignature } from "@/types/domain";
+import {
+  SIGNOFF_ROLE_LABEL,
+  orderSignoffRoles,
+  signoffSlots,
+  type AuditReportSignoff,
+} from "@/lib/signoff";
+import type { AuditSignature, SignoffRole } from "@/types/domain";
 
 interface SignatureBlockProps {
+  // Every signature on the report, invalidated ones included.
   signatures: AuditSignature[];
+  // audit_reports.signoff_roles; null on drafts nobody has signed yet.
+  roles: string[] | null;
+  // Live sign-off state for reports still being signed. Without it the
+  // slots come from `roles` and the active signatures, which is all a
+  // finalized report needs.
+  signoff?: AuditReportSignoff;
 }
 
-export function SignatureBlock({ signatures }: SignatureBlockProps) {
-  if (signatures.length === 0) {
+// One slot per role the report's sign-off policy requires, completed or
+// pending, followed by signatures that no longer count because the content
+// changed after them.
+export function SignatureBlock({
+  signatures,
+  roles,
+  signoff,
+}: SignatureBlockProps) {
+  const byId = new Map(signatures.map((s) => [s.id, s]));
+  const slots = signoff
+    ? signoffSlots(signoff)
+    : orderSignoffRoles(roles ?? []).map((role) => ({
+        role,
+        signature:
+          signatures.find(
+            (s) => s.signoff_role === role && s.invalidated_at === null,
+          ) ?? null,
+      }));
+  const invalidated = signatures.filter(
+    (s) =>
+      s.invalidated_at !== null ||
+      (signoff?.content_changed &&
+        signoff.signatures.some((active) => active.id === s.id)),
+  );
+
+  if (slots.length === 0 && signatures.length === 0) {
     return (
       <p className="text-sm text-muted-foreground italic">
         <BilingualLabel ja="署名なし" en="Not signed" />
@@ -16,29 +55,104 @@ export function SignatureBlock({ signatures }: SignatureBlockProps) {
   }
 
   return (
-    <ul className="space-y-3">
-      {signatures.map((sig) => (
-        <li
-          key={sig.id}
-          className="rounded-md border bg-card px-4 py-3 space-y-2"
-        >
-          <div className="flex items-start justify-between gap-3 flex-wrap">
-            <div className="space-y-0.5">
-              <p className="font-medium">{sig.signer_name_snapshot}</p>
-              <p className="text-xs text-muted-foreground">
-                {sig.signer_role_snapshot}
-              </p>
-              <p className="text-xs text-muted-foreground">
-                {new Date(sig.signed_at).toLocaleString()}
-              </p>
-            </div>
-            <VerifySignatureButton signatureId={sig.id} />
+    <div className="space-y-3">
+      {signoff?.content_changed && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-700">
+          <AlertTriangleIcon className="size-3.5" />
+          <BilingualLabel
+            ja="署名後に内容が変更されました。既存の署名は次の署名時に無効になり、最初から署名し直します。"
+            en="The content changed after signing. Existing signatures are invalidated by the next signature and sign-off starts over."
+          />
+        </p>
+      )}
+      <ul className="space-y-3">
+        {slots.map(({ role, signature }) => {
+          const sig = signature ? byId.get(signature.id) : undefined;
+          return sig ? (
+            <SignatureCard key={role} role={role} sig={sig} />
+          ) : (
+            <li
+              key={role}
+              className="rounded-md border border-dashed px-4 py-3 flex items-center justify-between gap-3"
+            >
+              <span className="text-sm font-medium">
+                <BilingualLabel {...SIGNOFF_ROLE_LABEL[role]} />
+              </span>
+              <Badge variant="outline">
+                {role === signoff?.next_role ? (
+                  <BilingualLabel ja="次の署名" en="Next to sign" />
+                ) : (
+                  <BilingualLabel ja="署名待ち" en="Pending" />
+                )}
+              </Badge>
+            </li>
+          );
+        })}
+      </ul>
+      {invalidated.length > 0 && (
+        <ul className="space-y-3 opacity-60">
+          {invalidated.map((sig) => (
+            <SignatureCard
+              key={sig.id}
+              role={sig.signoff_role as SignoffRole}
+              sig={sig}
+              invalidated
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function SignatureCard({
+  role,
+  sig,
+  invalidated = false,
+}: {
+  role: SignoffRole;
+  sig: AuditSignature;
+  invalidated?: boolean;
+}) {
+  return (
+    <li className="rounded-md border bg-card px-4 py-3 space-y-2">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div className="space-y-0.5">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant="secondary">
+              <BilingualLabel {...SIGNOFF_ROLE_LABEL[role]} />
+            </Badge>
+            {invalidated && (
+              <Badge variant="outline">
+                <BilingualLabel ja="無効" en="Invalidated" />
+              </Badge>
+            )}
           </div>
-          <p className="text-xs font-mono text-muted-foreground break-all">
-            {sig.signature_hash}
+          <p className="font-medium">{sig.signer_name_snapshot}</p>
+          <p className="text-xs text-muted-foreground">
+            {sig.signer_role_snapshot}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(sig.signed_at).toLocaleString()}
           </p>
-        </li>
-      ))}
-    </ul>
+        </div>
+        <VerifySignatureButton signatureId={sig.id} />
+      </div>
+      <p className="text-xs font-mono text-muted-foreground break-all">
+        {sig.signature_hash}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {sig.algorithm === "ed25519" ? (
+          <>
+            Ed25519 · <span className="font-mono">{sig.key_id}</span>
+          </>
+        ) : (
+          <BilingualLabel
+            ja="HMAC-SHA-256（旧方式・サーバーでのみ検証可能）"
+            en="HMAC-SHA-256 (legacy, verifiable by our server only)"
+          />
+        )}
+      </p>
+    </li>
   );
 }
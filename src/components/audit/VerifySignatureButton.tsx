@@ -7,9 +7,10 @@ interface VerifySignatureButtonProps {
   signatureId: string;
 }
 
-// Triggers verify-audit-signature on click and shows the result inline so
-// the reviewer can confirm a signature still matches its canonical_payload
-// without leaving the page.
+// Verifies on click and shows the result inline so the reviewer can confirm
+// a signature still matches its canonical_payload without leaving the page.
+// Ed25519 signatures are checked in the browser with the published public
+// key; legacy HMAC ones by the server, which the label says.
 export function VerifySignatureButton({
   signatureId,
 }: VerifySignatureButtonProps) {
@@ -22,7 +23,17 @@ export function VerifySignatureButton({
       return (
         <span className="inline-flex items-center gap-1 text-xs text-green-700">
           <CheckCircle2Icon className="size-3.5" />
-          <BilingualLabel ja="検証成功" en="Verified" />
+          {verify.data.verified_in === "browser" ? (
+            <BilingualLabel
+              ja="検証成功（ブラウザで公開鍵により検証）"
+              en="Verified in your browser with the public key"
+            />
+          ) : (
+            <BilingualLabel
+              ja="検証成功（サーバーで検証）"
+              en="Verified by the server"
+            />
+          )}
         </span>
       );
     }
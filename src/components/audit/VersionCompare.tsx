@@ -0,0 +1,93 @@
+import { useMemo, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import { ReportDiffView } from "@/components/audit/ReportDiffView";
+import { diffReportSnapshots } from "@/lib/report-diff";
+import type { AuditReportListItem } from "@/hooks/useAuditReports";
+import type { AuditReportSnapshot } from "@/types/audit-snapshot";
+
+interface VersionCompareProps {
+  reports: AuditReportListItem[];
+  selectedReportId: string;
+  // Live content of the selected report while it is still being signed;
+  // it has no report_snapshot yet.
+  liveContent: AuditReportSnapshot | null;
+}
+
+// Compares any two versions of the project's audit report. Defaults to the
+// selected version against the one it revised, which is what a reviewer
+// re-signing a revision needs to see.
+export function VersionCompare({
+  reports,
+  selectedReportId,
+  liveContent,
+}: VersionCompareProps) {
+  const snapshots = useMemo(() => {
+    const map = new Map<string, AuditReportSnapshot>();
+    for (const r of reports) {
+      const snapshot =
+        r.id === selectedReportId && liveContent
+          ? liveContent
+          : (r.report_snapshot as AuditReportSnapshot | null);
+      if (snapshot) map.set(r.id, snapshot);
+    }
+    return map;
+  }, [reports, selectedReportId, liveContent]);
+  const comparable = reports.filter((r) => snapshots.has(r.id));
+
+  const selected = reports.find((r) => r.id === selectedReportId);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const target = targetId ?? selectedReportId;
+  const base =
+    baseId ??
+    (selected?.previous_version_id &&
+    snapshots.has(selected.previous_version_id)
+      ? selected.previous_version_id
+      : comparable.find((r) => r.id !== target)?.id);
+
+  const before = base ? snapshots.get(base) : undefined;
+  const after = snapshots.get(target);
+  const diff = before && after ? diffReportSnapshots(before, after) : null;
+
+  if (comparable.length < 2) return null;
+
+  const versionSelect = (
+    value: string | undefined,
+    onChange: (id: string) => void,
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger size="sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {comparable.map((r) => (
+          <SelectItem key={r.id} value={r.id}>
+            <span className="font-mono">{r.report_id_display}</span> · v
+            {r.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <section className="rounded-md border bg-card p-4 space-y-3">
+      <h2 className="text-base font-medium">
+        <BilingualLabel ja="バージョン比較" en="Compare versions" />
+      </h2>
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        {versionSelect(base, setBaseId)}
+        <span className="text-muted-foreground">→</span>
+        {versionSelect(target, setTargetId)}
+      </div>
+      {diff && <ReportDiffView diff={diff} />}
+    </section>
+  );
+}
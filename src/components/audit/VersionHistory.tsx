@@ -1,16 +1,25 @@
+import { toast } from "sonner";
+import { DownloadIcon, FileArchiveIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { BilingualLabel } from "@/components/shared/BilingualLabel";
-import type { AuditReport, AuditReportStatus } from "@/types/domain";
+import {
+  useArchiveAuditReport,
+  useDownloadAuditArchive,
+} from "@/hooks/useAuditArchive";
+import type { AuditReportListItem } from "@/hooks/useAuditReports";
+import type { AuditReportStatus } from "@/types/domain";
 
 interface VersionHistoryProps {
-  reports: AuditReport[];
+  projectId: string | undefined;
+  reports: AuditReportListItem[];
   selectedReportId: string | undefined;
   onSelect: (reportId: string) => void;
 }
 
 const STATUS_LABEL: Record<AuditReportStatus, { ja: string; en: string }> = {
   draft: { ja: "下書き", en: "Draft" },
+  partially_signed: { ja: "一部署名済", en: "Partially signed" },
   finalized: { ja: "確定済", en: "Finalized" },
   revised: { ja: "改訂済", en: "Superseded" },
 };
@@ -20,20 +29,38 @@ const STATUS_VARIANT: Record<
   "outline" | "default" | "secondary"
 > = {
   draft: "outline",
+  partially_signed: "outline",
   finalized: "default",
   revised: "secondary",
 };
 
+function isArchivable(report: AuditReportListItem): boolean {
+  return report.status === "finalized" || report.status === "revised";
+}
+
+function activeSignatures(report: AuditReportListItem): number {
+  return report.signatures.filter((s) => s.invalidated_at === null).length;
+}
+
 // Renders all reports in the project's chain, ordered by version_minor desc
 // then version_major desc (created_at desc as tiebreaker since the input
 // list is already so ordered by useAuditReports). Selected version is
 // visually highlighted; others are clickable to switch.
+//
+// Finalized and superseded versions offer their archival PDF (migration
+// 0028), so a lone finalized report still gets the panel. A version
+// without one — finalized before archives existed, or its render failed —
+// offers to generate it instead.
 export function VersionHistory({
+  projectId,
   reports,
   selectedReportId,
   onSelect,
 }: VersionHistoryProps) {
-  if (reports.length <= 1) {
+  const archive = useArchiveAuditReport(projectId);
+  const download = useDownloadAuditArchive();
+
+  if (reports.length <= 1 && !reports.some(isArchivable)) {
     return null;
   }
 
@@ -68,6 +95,14 @@ export function VersionHistory({
                   <span className="text-sm">
                     <BilingualLabel ja="バージョン" en="Version" /> {r.version}
                   </span>
+                  {status === "partially_signed" && r.signoff_roles && (
+                    <span className="text-xs text-muted-foreground">
+                      <BilingualLabel
+                        ja={`署名 ${activeSignatures(r)}/${r.signoff_roles.length}`}
+                        en={`${activeSignatures(r)} of ${r.signoff_roles.length} signed`}
+                      />
+                    </span>
+                  )}
                 </div>
                 <p className="text-xs text-muted-foreground">
                   <BilingualLabel ja="作成" en="Created" />:{" "}
@@ -85,21 +120,80 @@ export function VersionHistory({
                     {r.reviewer_comments}
                   </p>
                 )}
+                {r.archive_sha256 && (
+                  <p
+                    className="text-xs text-muted-foreground font-mono"
+                    title={r.archive_sha256}
+                  >
+                    SHA-256 {r.archive_sha256.slice(0, 16)}…
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {isArchivable(r) &&
+                  (r.archive_sha256 ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={
+                        download.isPending &&
+                        download.variables?.report.archive_path ===
+                          r.archive_path
+                      }
+                      onClick={() =>
+                        download.mutate(
+                          { report: r },
+                          { onError: (e) => toast.error(e.message) },
+                        )
+                      }
+                    >
+                      <DownloadIcon className="size-4" />
+                      <BilingualLabel ja="アーカイブPDF" en="Archival PDF" />
+                    </Button>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={
+                        archive.isPending &&
+                        archive.variables?.auditReportId === r.id
+                      }
+                      onClick={() =>
+                        archive.mutate(
+                          { auditReportId: r.id },
+                          { onError: (e) => toast.error(e.message) },
+                        )
+                      }
+                    >
+                      <FileArchiveIcon className="size-4" />
+                      {archive.isPending &&
+                      archive.variables?.auditReportId === r.id ? (
+                        <BilingualLabel ja="作成中…" en="Generating…" />
+                      ) : (
+                        <BilingualLabel
+                          ja="アーカイブPDFを作成"
+                          en="Generate archival PDF"
+                        />
+                      )}
+                    </Button>
+                  ))}
+                {isSelected ? (
+                  <span className="text-xs text-muted-foreground">
+                    <BilingualLabel ja="表示中" en="Viewing" />
+                  </span>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onSelect(r.id)}
+                  >
+                    <BilingualLabel ja="開く" en="Open" />
+                  </Button>
+                )}
               </div>
-              {isSelected ? (
-                <span className="text-xs text-muted-foreground">
-                  <BilingualLabel ja="表示中" en="Viewing" />
-                </span>
-              ) : (
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => onSelect(r.id)}
-                >
-                  <BilingualLabel ja="開く" en="Open" />
-                </Button>
-              )}
             </li>
           );
         })}
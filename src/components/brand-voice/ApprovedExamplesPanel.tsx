@@ -0,0 +1,123 @@
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useApprovedExamples,
+  useSetApprovedExampleActive,
+} from "@/hooks/useApprovedExamples";
+import type { ApprovedExampleSourceType } from "@/types/domain";
+
+const SOURCE_COLORS: Record<ApprovedExampleSourceType, string> = {
+  client_feedback:
+    "bg-emerald-100 text-emerald-900 hover:bg-emerald-100 border-emerald-200",
+  brand_voice_sample: "",
+};
+
+const PREVIEW_CHARS = 160;
+
+interface Props {
+  clientId: string;
+}
+
+export function ApprovedExamplesPanel({ clientId }: Props) {
+  const { t, i18n } = useTranslation();
+  const { data: examples, isLoading } = useApprovedExamples(clientId);
+  const setActive = useSetApprovedExampleActive(clientId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!examples || examples.length === 0) {
+    return (
+      <div className="rounded-xl border border-dashed p-6 text-center text-sm text-muted-foreground">
+        {t("brandVoice.approvedExamples.empty")}
+      </div>
+    );
+  }
+
+  const handleToggle = async (id: string, active: boolean) => {
+    try {
+      await setActive.mutateAsync({ id, active });
+      toast.success(
+        active
+          ? t("brandVoice.approvedExamples.restoredToast")
+          : t("brandVoice.approvedExamples.archivedToast"),
+      );
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {t("brandVoice.approvedExamples.hint")}
+      </p>
+      <ul className="space-y-2">
+        {examples.map((ex) => {
+          const sourceType = ex.source_type as ApprovedExampleSourceType;
+          const preview = Array.from(ex.body_text).slice(0, PREVIEW_CHARS);
+          return (
+            <li
+              key={ex.id}
+              className={`space-y-2 rounded-xl bg-card p-4 ring-1 ring-foreground/10 ${
+                ex.active ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex min-w-0 items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={SOURCE_COLORS[sourceType] ?? ""}
+                  >
+                    {t(`brandVoice.approvedExamples.source.${sourceType}`)}
+                  </Badge>
+                  {ex.label && (
+                    <span className="truncate text-sm font-medium">
+                      {ex.label}
+                    </span>
+                  )}
+                  {!ex.active && (
+                    <Badge variant="secondary">
+                      {t("brandVoice.approvedExamples.archived")}
+                    </Badge>
+                  )}
+                </div>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {new Date(ex.created_at).toLocaleDateString(
+                    i18n.language === "ja" ? "ja-JP" : "en-US",
+                  )}
+                </span>
+              </div>
+              <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                {preview.join("")}
+                {preview.length < Array.from(ex.body_text).length ? "…" : ""}
+              </p>
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={setActive.isPending}
+                  onClick={() => handleToggle(ex.id, !ex.active)}
+                >
+                  {ex.active
+                    ? t("brandVoice.approvedExamples.archive")
+                    : t("brandVoice.approvedExamples.restore")}
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
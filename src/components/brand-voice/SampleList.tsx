@@ -18,6 +18,10 @@ import {
   useBrandVoiceSamples,
   useDeleteSample,
 } from "@/hooks/useBrandVoiceSamples";
+import {
+  useAddSampleAsApprovedExample,
+  useApprovedExamples,
+} from "@/hooks/useApprovedExamples";
 import { MIN_USABLE_CHARS } from "@/lib/utils/file-extraction";
 import type { BrandVoiceSample } from "@/types/domain";
 
@@ -42,6 +46,8 @@ export function SampleList({ clientId }: Props) {
   const { t, i18n } = useTranslation();
   const { data, isLoading } = useBrandVoiceSamples(clientId);
   const deleteSample = useDeleteSample(clientId);
+  const { data: examples } = useApprovedExamples(clientId);
+  const addExample = useAddSampleAsApprovedExample(clientId);
   const [pending, setPending] = useState<BrandVoiceSample | null>(null);
 
   if (isLoading) {
@@ -58,12 +64,26 @@ export function SampleList({ clientId }: Props) {
     return null;
   }
 
+  const pinnedSampleIds = new Set(
+    (examples ?? []).map((ex) => ex.brand_voice_sample_id).filter(Boolean),
+  );
+
+  const handleAddExample = async (sample: BrandVoiceSample) => {
+    try {
+      await addExample.mutateAsync(sample);
+      toast.success(t("brandVoice.approvedExamples.addedToast"));
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
   return (
     <>
       <ul className="space-y-1">
         {data.map((sample) => {
           const chars = sample.content_text?.length ?? 0;
           const lowText = chars < MIN_USABLE_CHARS;
+          const pinned = pinnedSampleIds.has(sample.id);
           return (
             <li
               key={sample.id}
@@ -79,6 +99,16 @@ export function SampleList({ clientId }: Props) {
               <Badge variant={lowText ? "destructive" : "secondary"}>
                 {chars.toLocaleString()} chars
               </Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={pinned || lowText || addExample.isPending}
+                onClick={() => handleAddExample(sample)}
+              >
+                {pinned
+                  ? t("brandVoice.approvedExamples.pinned")
+                  : t("brandVoice.approvedExamples.pin")}
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
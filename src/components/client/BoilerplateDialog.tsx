@@ -0,0 +1,307 @@
+import { useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import {
+  BOILERPLATE_LANGUAGE_LABEL,
+  boilerplateFormSchema,
+  boilerplateToFormValues,
+  EMPTY_BOILERPLATE,
+  type BoilerplateFormValues,
+} from "@/components/client/BoilerplateForm.schema";
+import {
+  useClientBoilerplateVersions,
+  useSaveClientBoilerplate,
+} from "@/hooks/useClientBoilerplate";
+import {
+  BOILERPLATE_KINDS,
+  BOILERPLATE_KIND_LABEL,
+} from "@/lib/client-boilerplate";
+import { CONTENT_TYPES } from "@/lib/project-options";
+import type { ClientBoilerplateBlock } from "@/types/domain";
+
+interface BoilerplateDialogProps {
+  clientId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null = create.
+  block: ClientBoilerplateBlock | null;
+}
+
+export function BoilerplateDialog({
+  clientId,
+  open,
+  onOpenChange,
+  block,
+}: BoilerplateDialogProps) {
+  const { t } = useTranslation();
+  const save = useSaveClientBoilerplate(clientId);
+  const { data: versions } = useClientBoilerplateVersions(block?.id);
+  const form = useForm<BoilerplateFormValues>({
+    resolver: zodResolver(boilerplateFormSchema),
+    defaultValues: EMPTY_BOILERPLATE,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(block ? boilerplateToFormValues(block) : EMPTY_BOILERPLATE);
+    }
+  }, [open, block, form]);
+
+  const onSubmit = async ({
+    change_note,
+    ...values
+  }: BoilerplateFormValues) => {
+    try {
+      const result = await save.mutateAsync({
+        blockId: block?.id ?? null,
+        block: values,
+        changeNote: change_note,
+      });
+      toast.success(
+        t("clients.boilerplate.toasts.saved", { version: result.version }),
+      );
+      onOpenChange(false);
+    } catch {
+      toast.error(t("clients.boilerplate.toasts.saveFailed"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {block ? (
+              <BilingualLabel ja="定型文を編集" en="Edit boilerplate" />
+            ) : (
+              <BilingualLabel ja="定型文を追加" en="Add boilerplate" />
+            )}
+          </DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            noValidate
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <BilingualLabel ja="種類" en="Kind" />
+                    </FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={block !== null}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {BOILERPLATE_KINDS.map((k) => (
+                          <SelectItem key={k} value={k}>
+                            <BilingualLabel {...BOILERPLATE_KIND_LABEL[k]} />
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="language"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <BilingualLabel ja="言語" en="Language" />
+                    </FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={block !== null}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(["ja", "en"] as const).map((l) => (
+                          <SelectItem key={l} value={l}>
+                            <BilingualLabel
+                              {...BOILERPLATE_LANGUAGE_LABEL[l]}
+                            />
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="heading"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="見出し（任意）"
+                      en="Heading (optional)"
+                    />
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="株式会社〇〇について" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="本文（生成コンテンツにそのまま挿入）"
+                      en="Text (inserted verbatim into generated content)"
+                    />
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={6} {...field} />
+                  </FormControl>
+                  <FormMessage>
+                    {form.formState.errors.body?.message
+                      ? t(form.formState.errors.body.message)
+                      : null}
+                  </FormMessage>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="content_types"
+              render={({ field }) => (
+                <FormItem className="rounded-md border p-3">
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="対象コンテンツ種別（未選択はすべて）"
+                      en="Content types (nothing selected = all)"
+                    />
+                  </FormLabel>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {CONTENT_TYPES.map((o) => (
+                      <label
+                        key={o.value}
+                        className="flex items-center gap-1.5 text-sm"
+                      >
+                        <Checkbox
+                          checked={field.value.includes(o.value)}
+                          onCheckedChange={(c) =>
+                            field.onChange(
+                              c === true
+                                ? [...field.value, o.value]
+                                : field.value.filter((v) => v !== o.value),
+                            )
+                          }
+                        />
+                        <BilingualLabel ja={o.ja} en={o.en} />
+                      </label>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="change_note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="変更メモ（任意）"
+                      en="Change note (optional)"
+                    />
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {versions && versions.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  <BilingualLabel ja="承認済みの版" en="Approved versions" />
+                </p>
+                <ul className="divide-y rounded-md border text-xs">
+                  {versions.map((v) => (
+                    <li key={v.version} className="flex gap-2 px-2 py-1">
+                      <span className="font-medium">v{v.version}</span>
+                      <span className="text-muted-foreground">
+                        {new Date(v.created_at).toLocaleString()}
+                        {v.created_by_name_snapshot
+                          ? ` · ${v.created_by_name_snapshot}`
+                          : ""}
+                      </span>
+                      {v.change_note && (
+                        <span className="truncate">{v.change_note}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" disabled={save.isPending}>
+                <BilingualLabel ja="保存して承認" en="Save & approve" />
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { BOILERPLATE_KINDS } from "@/lib/client-boilerplate";
+import { CONTENT_TYPE_VALUES } from "@/lib/project-options";
+import type { ClientBoilerplateBlock } from "@/types/domain";
+
+// Mirrors the client_boilerplate_blocks CHECK constraints.
+export const boilerplateFormSchema = z.object({
+  kind: z.enum(BOILERPLATE_KINDS),
+  language: z.enum(["ja", "en"]),
+  heading: z.string().trim(),
+  body: z.string().trim().min(1, "clients.boilerplate.errors.bodyRequired"),
+  content_types: z.array(z.enum(CONTENT_TYPE_VALUES)),
+  active: z.boolean(),
+  change_note: z.string(),
+});
+
+export type BoilerplateFormValues = z.infer<typeof boilerplateFormSchema>;
+
+export const EMPTY_BOILERPLATE: BoilerplateFormValues = {
+  kind: "about",
+  language: "ja",
+  heading: "",
+  body: "",
+  content_types: [],
+  active: true,
+  change_note: "",
+};
+
+export const BOILERPLATE_LANGUAGE_LABEL = {
+  ja: { ja: "日本語", en: "Japanese" },
+  en: { ja: "英語", en: "English" },
+} as const;
+
+export function boilerplateToFormValues(
+  block: ClientBoilerplateBlock,
+): BoilerplateFormValues {
+  return {
+    kind: block.kind as BoilerplateFormValues["kind"],
+    language: block.language as BoilerplateFormValues["language"],
+    heading: block.heading,
+    body: block.body,
+    content_types:
+      block.content_types as BoilerplateFormValues["content_types"],
+    active: block.active,
+    change_note: "",
+  };
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { PencilIcon, PlusIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import { BoilerplateDialog } from "@/components/client/BoilerplateDialog";
+import {
+  BOILERPLATE_LANGUAGE_LABEL,
+  boilerplateToFormValues,
+} from "@/components/client/BoilerplateForm.schema";
+import {
+  useClientBoilerplate,
+  useSaveClientBoilerplate,
+} from "@/hooks/useClientBoilerplate";
+import {
+  BOILERPLATE_KIND_LABEL,
+  type BoilerplateKind,
+} from "@/lib/client-boilerplate";
+import { CONTENT_TYPES } from "@/lib/project-options";
+import type { ClientBoilerplateBlock } from "@/types/domain";
+
+// Client tab for the managed boilerplate blocks generate-variants inserts
+// verbatim. Editing the text or scope approves a new version; toggling a
+// block on or off does not.
+export function BoilerplateLibrary({ clientId }: { clientId: string }) {
+  const { t } = useTranslation();
+  const { data: blocks, isLoading } = useClientBoilerplate(clientId);
+  const save = useSaveClientBoilerplate(clientId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ClientBoilerplateBlock | null>(null);
+
+  const openDialog = (block: ClientBoilerplateBlock | null) => {
+    setEditing(block);
+    setDialogOpen(true);
+  };
+
+  const toggleActive = async (
+    block: ClientBoilerplateBlock,
+    active: boolean,
+  ) => {
+    const values = boilerplateToFormValues(block);
+    try {
+      const result = await save.mutateAsync({
+        blockId: block.id,
+        block: {
+          kind: values.kind,
+          language: values.language,
+          heading: values.heading,
+          body: values.body,
+          content_types: values.content_types,
+          active,
+        },
+      });
+      toast.success(
+        t("clients.boilerplate.toasts.saved", { version: result.version }),
+      );
+    } catch {
+      toast.error(t("clients.boilerplate.toasts.saveFailed"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle>
+              <BilingualLabel ja="管理定型文" en="Managed boilerplate" />
+            </CardTitle>
+            <CardDescription>
+              <BilingualLabel
+                ja="有効な定型文は生成コンテンツにそのまま挿入され、コンプライアンスチェックで照合されます"
+                en="Active blocks are inserted verbatim into generated content and verified by the compliance check"
+              />
+            </CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => openDialog(null)}
+          >
+            <PlusIcon className="size-3" />
+            <BilingualLabel ja="定型文を追加" en="Add boilerplate" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : !blocks || blocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            <BilingualLabel ja="定型文はありません" en="No boilerplate yet" />
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {blocks.map((block) => {
+              const kindLabel =
+                BOILERPLATE_KIND_LABEL[block.kind as BoilerplateKind];
+              const scope = CONTENT_TYPES.filter((o) =>
+                block.content_types.includes(o.value),
+              );
+              return (
+                <li
+                  key={block.id}
+                  className={
+                    "flex items-start gap-3 py-2 " +
+                    (block.active ? "" : "opacity-60")
+                  }
+                >
+                  <Checkbox
+                    className="mt-1"
+                    aria-label={kindLabel.en}
+                    checked={block.active}
+                    disabled={save.isPending}
+                    onCheckedChange={(c) => toggleActive(block, c === true)}
+                  />
+                  <div className="min-w-0 flex-1 space-y-1 text-sm">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="outline" className="font-normal">
+                        <BilingualLabel {...kindLabel} />
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        <BilingualLabel
+                          {...BOILERPLATE_LANGUAGE_LABEL[
+                            block.language as "ja" | "en"
+                          ]}
+                        />
+                        {` · v${block.current_version}`}
+                      </span>
+                    </div>
+                    {block.heading && (
+                      <p className="font-medium">{block.heading}</p>
+                    )}
+                    <p className="line-clamp-2 whitespace-pre-line text-muted-foreground">
+                      {block.body}
+                    </p>
+                    <div className="text-xs text-muted-foreground">
+                      {scope.length === 0 ? (
+                        <BilingualLabel
+                          ja="すべてのコンテンツ種別"
+                          en="All content types"
+                        />
+                      ) : (
+                        scope.map((o, i) => (
+                          <span key={o.value}>
+                            {i > 0 && " · "}
+                            <BilingualLabel ja={o.ja} en={o.en} />
+                          </span>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t("common.edit")}
+                    onClick={() => openDialog(block)}
+                  >
+                    <PencilIcon className="size-3" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+      <BoilerplateDialog
+        clientId={clientId}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        block={editing}
+      />
+    </Card>
+  );
+}
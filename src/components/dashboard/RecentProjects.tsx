@@ -22,7 +22,12 @@ type Filter = 'all' | 'in_review' | 'delivered' | 'draft';
 
 // "delivered" is a bucket — the concept's single "Delivered" tab covers every
 // post-send status. Tabs use real project statuses (there is no `in_progress`).
-const DELIVERED_STATUSES = ['delivered', 'feedback_received', 'completed'];
+const DELIVERED_STATUSES = [
+  'delivered',
+  'feedback_received',
+  'completed',
+  'no_feedback',
+];
 
 const FILTER_OPTIONS: readonly SegmentedOption<Filter>[] = [
   { value: 'all', label: <BilingualLabel ja="すべて" en="All" /> },
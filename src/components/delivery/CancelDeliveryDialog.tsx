@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { AlertCircleIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { useCancelDelivery } from '@/hooks/useCancelDelivery';
+import { explainDeliveryError } from '@/lib/delivery-errors';
+
+interface Props {
+  projectId: string;
+  deliveryId: string;
+  recipientEmail: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Same limit as cancel_delivery's cancellation_reason_invalid gate.
+const MAX_REASON_LENGTH = 1000;
+
+export function CancelDeliveryDialog({
+  projectId,
+  deliveryId,
+  recipientEmail,
+  open,
+  onOpenChange,
+}: Props) {
+  const { t } = useTranslation();
+  const cancel = useCancelDelivery(projectId);
+  const [reason, setReason] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const trimmed = reason.trim();
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setErrorMessage(null);
+      setReason('');
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = () => {
+    setErrorMessage(null);
+    cancel.mutate(
+      { deliveryId, reason: trimmed },
+      {
+        onSuccess: () => {
+          toast.success(t('delivery.toasts.cancelled'));
+          handleOpenChange(false);
+        },
+        onError: (e) => setErrorMessage(e.message),
+      },
+    );
+  };
+
+  const localized = errorMessage ? explainDeliveryError(errorMessage) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            <BilingualLabel ja="予約配信の取り消し" en="Cancel delivery" />
+          </DialogTitle>
+          <DialogDescription>
+            <BilingualLabel
+              ja={`${recipientEmail} 宛の予約配信を取り消します。取り消した配信は元に戻せません。`}
+              en={`The scheduled delivery to ${recipientEmail} will not be sent. This cannot be undone.`}
+            />
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">
+            <BilingualLabel ja="取り消し理由" en="Reason" />
+          </Label>
+          <Textarea
+            id="cancel-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="例: クライアントから発表延期の連絡があったため"
+            rows={3}
+            maxLength={MAX_REASON_LENGTH}
+            disabled={cancel.isPending}
+          />
+          <p className="text-xs text-muted-foreground">
+            <BilingualLabel
+              ja="理由は監査トレイルに記録されます。"
+              en="The reason is recorded in the audit trail."
+            />
+          </p>
+        </div>
+
+        {errorMessage && (
+          <Alert variant="destructive">
+            <AlertCircleIcon className="size-4" />
+            <AlertTitle>
+              <BilingualLabel ja="取り消せません" en="Cannot cancel" />
+            </AlertTitle>
+            <AlertDescription>
+              {localized ? (
+                <BilingualLabel ja={localized.ja} en={localized.en} />
+              ) : (
+                <span>{errorMessage}</span>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={cancel.isPending}
+          >
+            <BilingualLabel ja="戻る" en="Back" />
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={cancel.isPending || trimmed.length === 0}
+          >
+            {cancel.isPending ? (
+              <BilingualLabel ja="取り消し中…" en="Cancelling…" />
+            ) : (
+              <BilingualLabel ja="配信を取り消す" en="Cancel delivery" />
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
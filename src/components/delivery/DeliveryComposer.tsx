@@ -4,7 +4,14 @@ import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
-import { SendIcon, ClockIcon, AlertTriangleIcon } from 'lucide-react';
+import {
+  SendIcon,
+  ClockIcon,
+  AlertTriangleIcon,
+  AlertCircleIcon,
+  PencilIcon,
+  RotateCcwIcon,
+} from 'lucide-react';
 import {
   Form,
   FormControl,
@@ -14,13 +21,16 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
 import { TagInput } from '@/components/brand-voice/TagInput';
 import { useProject } from '@/hooks/useProjects';
+import { useSchedulingContext } from '@/hooks/useSchedulingRules';
 import {
   useApprovedVariantsForProject,
   type ApprovedVariantRow,
@@ -29,20 +39,34 @@ import { useCreateDelivery } from '@/hooks/useCreateDelivery';
 import {
   ComposerInputSchema,
   type ComposerInput,
+  type SchedulingWarning,
 } from '@/lib/types/delivery';
 import {
-  buildComparisonSummary,
+  COMPARISON_PLACEHOLDER,
   buildFeedbackFooter,
+  renderComparisonSummary,
+  type ComparisonSummaryLine,
 } from '@/lib/delivery-template';
+import {
+  summarizeVariantDifferences,
+  type ComparisonSourceVariant,
+} from '@/lib/comparison-summary';
 import { VariantPicker } from '@/components/delivery/VariantPicker';
 import { SenderIdentityBanner } from '@/components/delivery/SenderIdentityBanner';
 import { ScheduleField } from '@/components/delivery/ScheduleField';
 import { DeliveryBodyEditor } from '@/components/delivery/DeliveryBodyEditor';
 import { PreSendChecklist } from '@/components/delivery/PreSendChecklist';
 import { usePreSendChecklist } from '@/hooks/usePreSendChecklist';
+import { useLatestFinalizedAuditReport } from '@/hooks/useLatestFinalizedAuditReport';
 import { ScheduleWarningDialog } from '@/components/delivery/ScheduleWarningDialog';
-import { getSchedulingWarnings } from '@/lib/schedule-warnings';
+import { ProjectSchedulingRulesDialog } from '@/components/delivery/ProjectSchedulingRulesDialog';
+import {
+  getSchedulingWarnings,
+  getSendNowWarnings,
+  isEmbargoBlocked,
+} from '@/lib/schedule-warnings';
 import { explainDeliveryError } from '@/lib/delivery-errors';
+import { variationAxisOf } from '@/lib/project-options';
 import type { Project } from '@/types/domain';
 
 interface Props {
@@ -59,30 +83,28 @@ const SUB_TYPE_DISPLAY: Record<string, string> = {
   business_news: '事業ニュース',
 };
 
-function getVariationDirective(v: ApprovedVariantRow): string | null {
-  const params = v.generation_params as { variation_directive?: string } | null;
-  return params?.variation_directive ?? null;
+function toComparisonSource(v: ApprovedVariantRow): ComparisonSourceVariant {
+  return {
+    id: v.id,
+    variant_index: v.variant_index,
+    variant_label: v.variant_label,
+    variation_axis: variationAxisOf(v.generation_params),
+    body_text: v.body_text,
+    char_count: v.char_count,
+  };
 }
 
-function buildSeedBody(firstVariant: ApprovedVariantRow): {
-  html: string;
-  text: string;
-} {
-  const summary = buildComparisonSummary([
-    {
-      variant_index: firstVariant.variant_index,
-      variant_label: firstVariant.variant_label,
-      variation_directive: getVariationDirective(firstVariant),
-      char_count: firstVariant.char_count,
-    },
-  ]);
+// The comparison itself isn't baked into the body: the placeholder is
+// substituted at send time from delivery_snapshot.comparison_summary, so the
+// lines edited in § 5 are the ones both send paths render.
+function buildSeedBody(): { html: string; text: string } {
   const greetingHtml =
     '<p>お客様 様,</p><p>いつもお世話になっております。下記、プレスリリース原稿の候補をお送りいたします。ご確認のほどよろしくお願いいたします。</p>';
   const greetingText =
     'お客様 様,\n\nいつもお世話になっております。下記、プレスリリース原稿の候補をお送りいたします。ご確認のほどよろしくお願いいたします。';
   return {
-    html: `${greetingHtml}\n${summary.html}`,
-    text: `${greetingText}\n\n${summary.text}`,
+    html: `${greetingHtml}\n<p>${COMPARISON_PLACEHOLDER}</p>`,
+    text: `${greetingText}\n\n${COMPARISON_PLACEHOLDER}`,
   };
 }
 
@@ -132,6 +154,10 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
   const navigate = useNavigate();
   const { t } = useTranslation();
   const mutation = useCreateDelivery(projectId);
+  // create_delivery attaches the archive of the latest finalized report;
+  // offer the option only once that report has one.
+  const { data: latestFinalized } = useLatestFinalizedAuditReport(projectId);
+  const archiveAvailable = Boolean(latestFinalized?.archive_sha256);
 
   const seed = useMemo(() => {
     if (variants.length === 0) {
@@ -140,15 +166,15 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
     const first = variants[0];
     const subType = first.content_item.content_sub_type;
     const subTypeLabel = SUB_TYPE_DISPLAY[subType] ?? subType;
-    const body = buildSeedBody(first);
+    const body = buildSeedBody();
     return {
       subject: `${project.name} — ${subTypeLabel}`,
       body_html: body.html,
       body_text: body.text,
     };
     // Seed values are stable for the form's lifetime — variant toggles don't
-    // reseed the body (clobbering user edits). The "current selection
-    // comparison" preview below the editor surfaces the live view.
+    // reseed the body (clobbering user edits). The comparison lines below the
+    // editor follow the live selection instead.
   }, [project, variants]);
 
   const form = useForm<ComposerInput>({
@@ -166,6 +192,7 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
       body_html: seed.body_html,
       body_text: seed.body_text,
       attachment_format: 'both',
+      include_audit_archive: false,
       scheduling_warnings: [],
       scheduled_for: null,
     },
@@ -189,9 +216,23 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
     useWatch({ control: form.control, name: 'scheduling_warnings' }) ?? [];
 
   const [manualAck, setManualAck] = useState(false);
-  const [pendingSubmit, setPendingSubmit] = useState<ComposerInput | null>(
-    null,
+  // User edits to generated comparison lines, keyed by variant id. Survives
+  // selection changes; "Regenerate" clears it.
+  const [summaryEdits, setSummaryEdits] = useState<Record<string, string>>(
+    {},
   );
+  // The submit waiting on the warning dialog, with the warnings it was
+  // checked against and the time they apply to (the submit time for send
+  // now).
+  const [pendingSubmit, setPendingSubmit] = useState<{
+    values: ComposerInput;
+    warnings: SchedulingWarning[];
+    at: string;
+  } | null>(null);
+  // Send now is checked against an enforced embargo when it is pressed.
+  const [sendNowEmbargoed, setSendNowEmbargoed] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const schedulingContext = useSchedulingContext(projectId);
 
   const selectedVariantRows = useMemo(
     () => variants.filter((v) => variantIds.includes(v.id)),
@@ -199,9 +240,12 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
   );
 
   const currentWarnings = useMemo(
-    () => getSchedulingWarnings(scheduledFor),
-    [scheduledFor],
+    () => getSchedulingWarnings(scheduledFor, schedulingContext),
+    [scheduledFor, schedulingContext],
   );
+  const scheduleEmbargoed = scheduledFor
+    ? isEmbargoBlocked(scheduledFor, schedulingContext.embargo)
+    : false;
 
   const checklist = usePreSendChecklist({
     projectId,
@@ -241,17 +285,22 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
     [form],
   );
 
-  const livePreviewSummary = useMemo(() => {
-    if (selectedVariantRows.length === 0) return null;
-    return buildComparisonSummary(
-      selectedVariantRows.map((v) => ({
-        variant_index: v.variant_index,
-        variant_label: v.variant_label,
-        variation_directive: getVariationDirective(v),
-        char_count: v.char_count,
+  const comparisonLines = useMemo<ComparisonSummaryLine[]>(
+    () =>
+      summarizeVariantDifferences(
+        selectedVariantRows.map(toComparisonSource),
+      ).map((line) => ({
+        ...line,
+        text: summaryEdits[line.variant_id] ?? line.text,
       })),
-    );
-  }, [selectedVariantRows]);
+    [selectedVariantRows, summaryEdits],
+  );
+
+  const livePreviewSummary = useMemo(() => {
+    const lines = comparisonLines.filter((l) => l.text.trim().length > 0);
+    if (lines.length === 0) return null;
+    return renderComparisonSummary(lines);
+  }, [comparisonLines]);
 
   const footerPreview = useMemo(
     () => buildFeedbackFooter('https://app.example/f/<magic-link-token>'),
@@ -260,7 +309,12 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
 
   const submitMutation = useCallback(
     (values: ComposerInput) => {
-      mutation.mutate(values, {
+      // A cleared line means "leave this variant out of the comparison".
+      const comparison_summary = comparisonLines
+        .map((l) => ({ ...l, text: l.text.trim() }))
+        .filter((l) => l.text.length > 0);
+      const payload: ComposerInput = { ...values, comparison_summary };
+      mutation.mutate(payload, {
         onSuccess: (result) => {
           if (result.status === 'sent') {
             toast.success(t('delivery.toasts.sent'));
@@ -275,27 +329,42 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
         },
       });
     },
-    [mutation, navigate, projectId, t],
+    [comparisonLines, mutation, navigate, projectId, t],
   );
 
   const onSubmit = (values: ComposerInput) => {
-    const warnings = getSchedulingWarnings(values.scheduled_for);
+    const now = new Date();
+    if (
+      isEmbargoBlocked(values.scheduled_for, schedulingContext.embargo, now)
+    ) {
+      setSendNowEmbargoed(!values.scheduled_for);
+      return;
+    }
+    setSendNowEmbargoed(false);
+    const warnings = values.scheduled_for
+      ? getSchedulingWarnings(values.scheduled_for, schedulingContext)
+      : getSendNowWarnings(schedulingContext, now);
     const alreadyAcked = values.scheduling_warnings ?? [];
     const unacked = warnings.filter((w) => !alreadyAcked.includes(w));
     if (unacked.length > 0) {
-      setPendingSubmit(values);
+      setPendingSubmit({
+        values,
+        warnings,
+        at: values.scheduled_for ?? now.toISOString(),
+      });
       return;
     }
-    submitMutation(values);
+    submitMutation({ ...values, scheduling_warnings: warnings });
   };
 
   const handleAcknowledgeWarnings = () => {
     if (!pendingSubmit) return;
+    const { warnings } = pendingSubmit;
     const values: ComposerInput = {
-      ...pendingSubmit,
-      scheduling_warnings: currentWarnings,
+      ...pendingSubmit.values,
+      scheduling_warnings: warnings,
     };
-    form.setValue('scheduling_warnings', currentWarnings);
+    form.setValue('scheduling_warnings', warnings);
     setPendingSubmit(null);
     submitMutation(values);
   };
@@ -305,10 +374,12 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
   // the time they saw it for. A new time = a new ack.
   const handleScheduledForChange = (utcIso: string | null) => {
     form.setValue('scheduled_for', utcIso);
+    setSendNowEmbargoed(false);
     if (
       (acknowledgedWarnings?.length ?? 0) > 0 &&
       (utcIso === null ||
-        getSchedulingWarnings(utcIso).length !== acknowledgedWarnings.length)
+        getSchedulingWarnings(utcIso, schedulingContext).length !==
+          acknowledgedWarnings.length)
     ) {
       form.setValue('scheduling_warnings', []);
     }
@@ -318,7 +389,10 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
   // 'scheduled_in_past' P0004 gate. We don't re-check Date.now() in render
   // (react-hooks/purity flags it as impure).
   const submitDisabled =
-    mutation.isPending || variantIds.length === 0 || !checklist.allPassing;
+    mutation.isPending ||
+    variantIds.length === 0 ||
+    !checklist.allPassing ||
+    scheduleEmbargoed;
 
   return (
     <Form {...form}>
@@ -482,19 +556,58 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
               dangerouslySetInnerHTML={{ __html: footerPreview.html }}
             />
           </div>
-          {livePreviewSummary && (
-            <details className="rounded-md border p-3">
-              <summary className="cursor-pointer text-xs text-muted-foreground">
+          {comparisonLines.length > 0 && (
+            <div className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-medium">
+                  <BilingualLabel ja="バリアント比較" en="Variant comparison" />
+                </h3>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={Object.keys(summaryEdits).length === 0}
+                  onClick={() => setSummaryEdits({})}
+                >
+                  <RotateCcwIcon className="size-4" />
+                  <BilingualLabel ja="再生成" en="Regenerate" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
                 <BilingualLabel
-                  ja="現在の選択に基づくバリアント比較"
-                  en="Comparison summary for current selection"
+                  ja={`案の本文の違いから生成しています。送信時に本文の ${COMPARISON_PLACEHOLDER} がこの内容に置き換わります。空欄の行は省略されます。`}
+                  en={`Generated from the differences between the variant bodies. ${COMPARISON_PLACEHOLDER} in the body is replaced with these lines at send time; blank lines are left out.`}
                 />
-              </summary>
-              <div
-                className="mt-2 prose prose-sm max-w-none text-sm"
-                dangerouslySetInnerHTML={{ __html: livePreviewSummary.html }}
-              />
-            </details>
+              </p>
+              {comparisonLines.map((line) => (
+                <Textarea
+                  key={line.variant_id}
+                  rows={2}
+                  maxLength={500}
+                  value={line.text}
+                  aria-label={`Variant ${line.variant_index} comparison`}
+                  onChange={(e) =>
+                    setSummaryEdits((prev) => ({
+                      ...prev,
+                      [line.variant_id]: e.target.value,
+                    }))
+                  }
+                />
+              ))}
+              {livePreviewSummary && (
+                <details>
+                  <summary className="cursor-pointer text-xs text-muted-foreground">
+                    <BilingualLabel ja="プレビュー" en="Preview" />
+                  </summary>
+                  <div
+                    className="mt-2 prose prose-sm max-w-none text-sm"
+                    dangerouslySetInnerHTML={{
+                      __html: livePreviewSummary.html,
+                    }}
+                  />
+                </details>
+              )}
+            </div>
           )}
         </section>
 
@@ -531,6 +644,36 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="include_audit_archive"
+            render={({ field }) => (
+              <FormItem className="flex items-start gap-2">
+                <FormControl>
+                  <Checkbox
+                    checked={archiveAvailable && field.value === true}
+                    onCheckedChange={(s) => field.onChange(s === true)}
+                    disabled={!archiveAvailable}
+                    className="mt-0.5"
+                  />
+                </FormControl>
+                <div className="text-sm">
+                  <BilingualLabel
+                    ja="監査レポートのアーカイブPDFを添付"
+                    en="Attach the audit report's archival PDF"
+                  />
+                  {!archiveAvailable && (
+                    <p className="text-xs text-muted-foreground">
+                      <BilingualLabel
+                        ja="確定済み監査レポートのアーカイブPDFがまだありません。"
+                        en="The finalized audit report has no archival PDF yet."
+                      />
+                    </p>
+                  )}
+                </div>
+              </FormItem>
+            )}
+          />
         </section>
 
         {/* § 7 — Send time */}
@@ -542,6 +685,72 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
             value={scheduledFor ?? null}
             onChange={handleScheduledForChange}
           />
+          <div className="flex items-start justify-between gap-2 rounded-md border p-3 text-xs">
+            <div className="space-y-0.5">
+              <div className="font-medium">
+                <BilingualLabel ja="配信ルール" en="Scheduling rules" />
+              </div>
+              {schedulingContext.embargo ? (
+                <div>
+                  <BilingualLabel
+                    ja={
+                      schedulingContext.embargo.enforced
+                        ? 'エンバーゴ（解除前の送信はブロック）'
+                        : 'エンバーゴ（解除前は警告）'
+                    }
+                    en={
+                      schedulingContext.embargo.enforced
+                        ? 'Embargo (sends before the lift are blocked)'
+                        : 'Embargo (sends before the lift warn)'
+                    }
+                  />
+                  {': '}
+                  {schedulingContext.embargo.label
+                    ? `${schedulingContext.embargo.label} — `
+                    : ''}
+                  {new Date(schedulingContext.embargo.liftAt).toLocaleString()}
+                </div>
+              ) : (
+                <div className="text-muted-foreground">
+                  <BilingualLabel ja="エンバーゴなし" en="No embargo" />
+                </div>
+              )}
+              {schedulingContext.marketHoursSensitive && (
+                <div>
+                  <BilingualLabel
+                    ja="東証の立会時間中の送信に警告"
+                    en="Warns about sends during TSE trading hours"
+                  />
+                </div>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setRulesOpen(true)}
+            >
+              <PencilIcon className="size-3" />
+              <BilingualLabel ja="編集" en="Edit" />
+            </Button>
+          </div>
+          {(scheduleEmbargoed || sendNowEmbargoed) && (
+            <Alert variant="destructive">
+              <AlertCircleIcon className="size-4" />
+              <AlertTitle>
+                <BilingualLabel
+                  ja="エンバーゴ解除前です"
+                  en="The embargo has not lifted"
+                />
+              </AlertTitle>
+              <AlertDescription>
+                <BilingualLabel
+                  ja="このプロジェクトはエンバーゴ解除前の送信がブロックされています。解除時刻以降に予約してください。"
+                  en="This project blocks sends before its embargo lifts. Schedule the delivery for the lift time or later."
+                />
+              </AlertDescription>
+            </Alert>
+          )}
           {currentWarnings.length > 0 && (
             <div className="rounded-md border border-amber-500/50 bg-amber-50 dark:bg-amber-950/30 p-3 text-xs space-y-1">
               <div className="flex items-center gap-1 font-medium">
@@ -568,6 +777,30 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
                     />
                   </li>
                 )}
+                {currentWarnings.includes('tse_trading_hours') && (
+                  <li>
+                    <BilingualLabel
+                      ja="東証の立会時間中 (JST 09:00–11:30, 12:30–15:30)"
+                      en="During TSE trading hours (JST 09:00–11:30, 12:30–15:30)"
+                    />
+                  </li>
+                )}
+                {currentWarnings.includes('embargo_before_lift') && (
+                  <li>
+                    <BilingualLabel
+                      ja="エンバーゴ解除前"
+                      en="Before the embargo lifts"
+                    />
+                  </li>
+                )}
+                {currentWarnings.includes('blackout_window') && (
+                  <li>
+                    <BilingualLabel
+                      ja="配信停止期間中"
+                      en="Inside a blackout window"
+                    />
+                  </li>
+                )}
               </ul>
               <p className="text-muted-foreground">
                 <BilingualLabel
@@ -616,10 +849,16 @@ function DeliveryComposerForm({ projectId, project, variants }: FormProps) {
         onOpenChange={(open) => {
           if (!open) setPendingSubmit(null);
         }}
-        warnings={currentWarnings}
-        scheduledFor={scheduledFor ?? null}
+        warnings={pendingSubmit?.warnings ?? currentWarnings}
+        scheduledFor={pendingSubmit?.at ?? scheduledFor ?? null}
+        context={schedulingContext}
         onAcknowledge={handleAcknowledgeWarnings}
       />
+      <ProjectSchedulingRulesDialog
+        project={project}
+        open={rulesOpen}
+        onOpenChange={setRulesOpen}
+      />
     </Form>
   );
 }
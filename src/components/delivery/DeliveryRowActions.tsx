@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { CalendarClockIcon, RotateCcwIcon, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { CancelDeliveryDialog } from '@/components/delivery/CancelDeliveryDialog';
+import { RescheduleDeliveryDialog } from '@/components/delivery/RescheduleDeliveryDialog';
+import { RetryDeliveryDialog } from '@/components/delivery/RetryDeliveryDialog';
+import type { DeliveryListRow } from '@/hooks/useDeliveriesForProject';
+
+interface Props {
+  projectId: string;
+  delivery: DeliveryListRow;
+}
+
+// DeliveriesListPage row actions: reschedule or cancel a scheduled
+// delivery, retry a failed one. Sent and cancelled deliveries have none.
+export function DeliveryRowActions({ projectId, delivery }: Props) {
+  const [dialog, setDialog] = useState<
+    'reschedule' | 'cancel' | 'retry' | null
+  >(null);
+  const send = delivery.scheduled_sends[0] ?? null;
+  const close = (open: boolean) => {
+    if (!open) setDialog(null);
+  };
+
+  if (delivery.status === 'scheduled' && send) {
+    return (
+      <div className="flex justify-end gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDialog('reschedule')}
+        >
+          <CalendarClockIcon className="size-4" />
+          <BilingualLabel ja="日時変更" en="Reschedule" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setDialog('cancel')}>
+          <XIcon className="size-4" />
+          <BilingualLabel ja="取り消し" en="Cancel" />
+        </Button>
+        <RescheduleDeliveryDialog
+          // Remount after a reschedule so the input starts from the new time.
+          key={send.scheduled_for}
+          projectId={projectId}
+          deliveryId={delivery.id}
+          scheduledFor={send.scheduled_for}
+          open={dialog === 'reschedule'}
+          onOpenChange={close}
+        />
+        <CancelDeliveryDialog
+          projectId={projectId}
+          deliveryId={delivery.id}
+          recipientEmail={delivery.recipient_email}
+          open={dialog === 'cancel'}
+          onOpenChange={close}
+        />
+      </div>
+    );
+  }
+
+  if (delivery.status === 'failed') {
+    return (
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={() => setDialog('retry')}>
+          <RotateCcwIcon className="size-4" />
+          <BilingualLabel ja="再送" en="Retry" />
+        </Button>
+        <RetryDeliveryDialog
+          projectId={projectId}
+          deliveryId={delivery.id}
+          recipientEmail={delivery.recipient_email}
+          lastError={send?.error_message ?? null}
+          open={dialog === 'retry'}
+          onOpenChange={close}
+        />
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { AlertCircleIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { useSaveProjectSchedulingRules } from '@/hooks/useProjects';
+import { explainDeliveryError } from '@/lib/delivery-errors';
+import {
+  jstWallclockToUtcIso,
+  utcIsoToJstWallclock,
+} from '@/lib/schedule-warnings';
+import type { Project } from '@/types/domain';
+
+interface Props {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Same limit as set_project_scheduling_rules' embargo_label_invalid gate.
+const MAX_LABEL_LENGTH = 200;
+
+// Edits the project's scheduling rules: the TSE trading-hours warning and
+// the embargo lift time, optionally enforced. The change is recorded in
+// the scheduling_rules_updated audit event.
+export function ProjectSchedulingRulesDialog({
+  project,
+  open,
+  onOpenChange,
+}: Props) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        {/* Mounted per opening, so the fields start from the saved rules. */}
+        <RulesForm project={project} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RulesForm({
+  project,
+  onDone,
+}: {
+  project: Project;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation();
+  const save = useSaveProjectSchedulingRules(project.id);
+  const [marketHours, setMarketHours] = useState(
+    project.market_hours_sensitive,
+  );
+  const [liftJst, setLiftJst] = useState(() =>
+    project.embargo_lift_at
+      ? utcIsoToJstWallclock(project.embargo_lift_at)
+      : '',
+  );
+  const [label, setLabel] = useState(project.embargo_label ?? '');
+  const [enforced, setEnforced] = useState(project.embargo_enforced);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSave = () => {
+    setErrorMessage(null);
+    save.mutate(
+      {
+        embargoLiftAt: liftJst ? jstWallclockToUtcIso(liftJst) : null,
+        embargoLabel: label.trim(),
+        embargoEnforced: Boolean(liftJst) && enforced,
+        marketHoursSensitive: marketHours,
+      },
+      {
+        onSuccess: () => {
+          toast.success(t('delivery.toasts.schedulingRulesSaved'));
+          onDone();
+        },
+        onError: (e) => setErrorMessage(e.message),
+      },
+    );
+  };
+
+  const localized = errorMessage ? explainDeliveryError(errorMessage) : null;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          <BilingualLabel ja="配信ルール" en="Scheduling rules" />
+        </DialogTitle>
+        <DialogDescription>
+          <BilingualLabel
+            ja="このプロジェクトの配信すべてに適用されます。変更は監査トレイルに記録されます。"
+            en="Applies to every delivery of this project. Changes are recorded in the audit trail."
+          />
+        </DialogDescription>
+      </DialogHeader>
+
+      <label className="flex items-start gap-2 text-sm">
+        <Checkbox
+          checked={marketHours}
+          onCheckedChange={(c) => setMarketHours(c === true)}
+          disabled={save.isPending}
+          className="mt-0.5"
+        />
+        <span>
+          <BilingualLabel
+            ja="市場時間に配慮する (IR)"
+            en="Market-hours sensitive (IR)"
+          />
+          <span className="block text-xs text-muted-foreground">
+            <BilingualLabel
+              ja="東証の立会時間中の送信に警告を表示します。"
+              en="Warn about sends during Tokyo Stock Exchange trading sessions."
+            />
+          </span>
+        </span>
+      </label>
+
+      <div className="space-y-3 rounded-md border p-3">
+        <div className="space-y-2">
+          <Label htmlFor="embargo-lift-at">
+            <BilingualLabel ja="エンバーゴ解除日時" en="Embargo lift time" />
+          </Label>
+          <Input
+            id="embargo-lift-at"
+            type="datetime-local"
+            value={liftJst}
+            onChange={(e) => setLiftJst(e.target.value)}
+            className="max-w-xs"
+            disabled={save.isPending}
+          />
+          <p className="text-xs text-muted-foreground">
+            <BilingualLabel
+              ja="日本時間 (JST)。空欄でエンバーゴなし。"
+              en="Japan Standard Time (JST). Leave empty for no embargo."
+            />
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="embargo-label">
+            <BilingualLabel
+              ja="名称（学会発表など・任意）"
+              en="Label (e.g. congress presentation, optional)"
+            />
+          </Label>
+          <Input
+            id="embargo-label"
+            value={label}
+            maxLength={MAX_LABEL_LENGTH}
+            onChange={(e) => setLabel(e.target.value)}
+            disabled={save.isPending || !liftJst}
+          />
+        </div>
+        <label className="flex items-start gap-2 text-sm">
+          <Checkbox
+            checked={Boolean(liftJst) && enforced}
+            onCheckedChange={(c) => setEnforced(c === true)}
+            disabled={save.isPending || !liftJst}
+            className="mt-0.5"
+          />
+          <span>
+            <BilingualLabel
+              ja="解除前の送信をブロックする"
+              en="Block sends before the lift"
+            />
+            <span className="block text-xs text-muted-foreground">
+              <BilingualLabel
+                ja="オフの場合は警告のみです。"
+                en="When off, sends before the lift only warn."
+              />
+            </span>
+          </span>
+        </label>
+      </div>
+
+      {errorMessage && (
+        <Alert variant="destructive">
+          <AlertCircleIcon className="size-4" />
+          <AlertTitle>
+            <BilingualLabel
+              ja="配信ルールを保存できません"
+              en="Cannot save the scheduling rules"
+            />
+          </AlertTitle>
+          <AlertDescription>
+            {localized ? (
+              <BilingualLabel ja={localized.ja} en={localized.en} />
+            ) : (
+              <span>{errorMessage}</span>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <DialogFooter>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onDone}
+          disabled={save.isPending}
+        >
+          <BilingualLabel ja="キャンセル" en="Cancel" />
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={save.isPending}>
+          {save.isPending ? (
+            <BilingualLabel ja="保存中…" en="Saving…" />
+          ) : (
+            <BilingualLabel ja="保存" en="Save" />
+          )}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { AlertCircleIcon, AlertTriangleIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { ScheduleWarningDialog } from '@/components/delivery/ScheduleWarningDialog';
+import { useRescheduleDelivery } from '@/hooks/useRescheduleDelivery';
+import { useSchedulingContext } from '@/hooks/useSchedulingRules';
+import { explainDeliveryError } from '@/lib/delivery-errors';
+import {
+  getSchedulingWarnings,
+  isEmbargoBlocked,
+  jstWallclockToUtcIso,
+  utcIsoToJstWallclock,
+} from '@/lib/schedule-warnings';
+
+interface Props {
+  projectId: string;
+  deliveryId: string;
+  scheduledFor: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Moves a scheduled delivery. The new time goes through the same
+// scheduling warnings and acknowledgement dialog as the composer; the
+// acknowledgement is recorded in the delivery_rescheduled audit event. A
+// time before the project's enforced embargo lift cannot be saved.
+export function RescheduleDeliveryDialog({
+  projectId,
+  deliveryId,
+  scheduledFor,
+  open,
+  onOpenChange,
+}: Props) {
+  const { t } = useTranslation();
+  const reschedule = useRescheduleDelivery(projectId);
+  const context = useSchedulingContext(projectId);
+  const [jstValue, setJstValue] = useState(() =>
+    utcIsoToJstWallclock(scheduledFor),
+  );
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const utcIso = jstValue ? jstWallclockToUtcIso(jstValue) : null;
+  const warnings = getSchedulingWarnings(utcIso, context);
+  const embargoBlocked = utcIso
+    ? isEmbargoBlocked(utcIso, context.embargo)
+    : false;
+  const unchanged = utcIso === new Date(scheduledFor).toISOString();
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setErrorMessage(null);
+      setJstValue(utcIsoToJstWallclock(scheduledFor));
+    }
+    onOpenChange(next);
+  };
+
+  const submit = () => {
+    if (!utcIso) return;
+    setConfirmOpen(false);
+    setErrorMessage(null);
+    reschedule.mutate(
+      { deliveryId, scheduledFor: utcIso, context },
+      {
+        onSuccess: () => {
+          toast.success(
+            t('delivery.toasts.rescheduled', {
+              when: new Date(utcIso).toLocaleString(),
+            }),
+          );
+          handleOpenChange(false);
+        },
+        onError: (e) => setErrorMessage(e.message),
+      },
+    );
+  };
+
+  const handleSave = () => {
+    if (warnings.length > 0) {
+      setConfirmOpen(true);
+      return;
+    }
+    submit();
+  };
+
+  const localized = errorMessage ? explainDeliveryError(errorMessage) : null;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              <BilingualLabel ja="予約日時の変更" en="Reschedule delivery" />
+            </DialogTitle>
+            <DialogDescription>
+              <BilingualLabel
+                ja="送信内容は作成時のまま変わりません。変更は監査トレイルに記録されます。"
+                en="The email itself is unchanged. The new time is recorded in the audit trail."
+              />
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-at">
+              <BilingualLabel ja="新しい送信日時" en="New send time" />
+            </Label>
+            <Input
+              id="reschedule-at"
+              type="datetime-local"
+              value={jstValue}
+              onChange={(e) => setJstValue(e.target.value)}
+              className="max-w-xs"
+              disabled={reschedule.isPending}
+            />
+            <p className="text-xs text-muted-foreground">
+              <BilingualLabel
+                ja="日本時間 (JST)"
+                en="Japan Standard Time (JST)"
+              />
+            </p>
+          </div>
+
+          {warnings.length > 0 && (
+            <div className="rounded-md border border-amber-500/50 bg-amber-50 dark:bg-amber-950/30 p-3 text-xs space-y-1">
+              <div className="flex items-center gap-1 font-medium">
+                <AlertTriangleIcon className="size-3 text-amber-600" />
+                <BilingualLabel
+                  ja="送信タイミングに関する注意事項"
+                  en="Scheduling advisories"
+                />
+              </div>
+              <p className="text-muted-foreground">
+                <BilingualLabel
+                  ja="保存時に確認を求められます。"
+                  en="You'll be asked to confirm when saving."
+                />
+              </p>
+            </div>
+          )}
+
+          {embargoBlocked && (
+            <Alert variant="destructive">
+              <AlertCircleIcon className="size-4" />
+              <AlertTitle>
+                <BilingualLabel
+                  ja="エンバーゴ解除前です"
+                  en="The embargo has not lifted"
+                />
+              </AlertTitle>
+              <AlertDescription>
+                <BilingualLabel
+                  ja="このプロジェクトはエンバーゴ解除前の送信がブロックされています。解除時刻以降を指定してください。"
+                  en="This project blocks sends before its embargo lifts. Pick the lift time or later."
+                />
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {errorMessage && (
+            <Alert variant="destructive">
+              <AlertCircleIcon className="size-4" />
+              <AlertTitle>
+                <BilingualLabel
+                  ja="予約を変更できません"
+                  en="Cannot reschedule"
+                />
+              </AlertTitle>
+              <AlertDescription>
+                {localized ? (
+                  <BilingualLabel ja={localized.ja} en={localized.en} />
+                ) : (
+                  <span>{errorMessage}</span>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={reschedule.isPending}
+            >
+              <BilingualLabel ja="キャンセル" en="Cancel" />
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={
+                reschedule.isPending || !utcIso || unchanged || embargoBlocked
+              }
+            >
+              {reschedule.isPending ? (
+                <BilingualLabel ja="保存中…" en="Saving…" />
+              ) : (
+                <BilingualLabel ja="変更を保存" en="Save new time" />
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ScheduleWarningDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        warnings={warnings}
+        scheduledFor={utcIso}
+        context={context}
+        onAcknowledge={submit}
+      />
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { AlertCircleIcon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { useRetryDelivery } from '@/hooks/useRetryDelivery';
+import { explainDeliveryError } from '@/lib/delivery-errors';
+
+interface Props {
+  projectId: string;
+  deliveryId: string;
+  recipientEmail: string;
+  // scheduled_sends.error_message; null for an immediate send that failed.
+  lastError: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RetryDeliveryDialog({
+  projectId,
+  deliveryId,
+  recipientEmail,
+  lastError,
+  open,
+  onOpenChange,
+}: Props) {
+  const { t } = useTranslation();
+  const retry = useRetryDelivery(projectId);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setErrorMessage(null);
+    onOpenChange(next);
+  };
+
+  const handleSubmit = () => {
+    setErrorMessage(null);
+    retry.mutate(
+      { deliveryId },
+      {
+        onSuccess: () => {
+          toast.success(t('delivery.toasts.retried'));
+          handleOpenChange(false);
+        },
+        onError: (e) => setErrorMessage(e.message),
+      },
+    );
+  };
+
+  const localized = errorMessage ? explainDeliveryError(errorMessage) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            <BilingualLabel ja="配信の再送" en="Retry delivery" />
+          </DialogTitle>
+          <DialogDescription>
+            <BilingualLabel
+              ja={`作成時の内容のまま ${recipientEmail} 宛に今すぐ再送します。1分ほどで送信されます。`}
+              en={`The delivery to ${recipientEmail} is sent again now, exactly as it was created. It goes out within about a minute.`}
+            />
+          </DialogDescription>
+        </DialogHeader>
+
+        {lastError && (
+          <div className="rounded-md border bg-muted/40 p-3 text-xs space-y-1">
+            <div className="font-medium">
+              <BilingualLabel ja="前回のエラー" en="Last error" />
+            </div>
+            <p className="font-mono break-all text-muted-foreground">
+              {lastError}
+            </p>
+          </div>
+        )}
+
+        {errorMessage && (
+          <Alert variant="destructive">
+            <AlertCircleIcon className="size-4" />
+            <AlertTitle>
+              <BilingualLabel ja="再送できません" en="Cannot retry" />
+            </AlertTitle>
+            <AlertDescription>
+              {localized ? (
+                <BilingualLabel ja={localized.ja} en={localized.en} />
+              ) : (
+                <span>{errorMessage}</span>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={retry.isPending}
+          >
+            <BilingualLabel ja="キャンセル" en="Cancel" />
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={retry.isPending}
+          >
+            {retry.isPending ? (
+              <BilingualLabel ja="再送中…" en="Retrying…" />
+            ) : (
+              <BilingualLabel ja="再送する" en="Retry now" />
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,22 +2,16 @@ import { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import {
+  jstWallclockToUtcIso,
+  utcIsoToJstWallclock,
+} from '@/lib/schedule-warnings';
 
 interface Props {
   value: string | null;
   onChange: (utcIso: string | null) => void;
 }
 
-function utcIsoToJstWallclock(iso: string): string {
-  const d = new Date(iso);
-  const jstMs = d.getTime() + 9 * 60 * 60 * 1000;
-  return new Date(jstMs).toISOString().slice(0, 16);
-}
-
-function jstWallclockToUtcIso(jstValue: string): string {
-  return new Date(`${jstValue}:00+09:00`).toISOString();
-}
-
 export function ScheduleField({ value, onChange }: Props) {
   const [mode, setMode] = useState<'now' | 'schedule'>(
     value ? 'schedule' : 'now',
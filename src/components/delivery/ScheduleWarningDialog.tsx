@@ -9,14 +9,22 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
-import { getHoliday } from '@/lib/schedule-warnings';
+import {
+  getHoliday,
+  getMatchingBlackouts,
+  type SchedulingContext,
+} from '@/lib/schedule-warnings';
 import type { SchedulingWarning } from '@/lib/types/delivery';
 
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   warnings: SchedulingWarning[];
+  // The time the warnings were computed for; for send now, the moment the
+  // user pressed send.
   scheduledFor: string | null;
+  // The project's scheduling rules, for the embargo and blackout details.
+  context?: SchedulingContext;
   onAcknowledge: () => void;
 }
 
@@ -37,6 +45,30 @@ const WARNING_LABELS: Record<SchedulingWarning, { ja: string; en: string; detail
       en: 'The scheduled date is a Japanese public holiday.',
     },
   },
+  tse_trading_hours: {
+    ja: '東証の取引時間中',
+    en: 'During TSE trading hours',
+    detail: {
+      ja: 'このプロジェクトは市場時間に配慮が必要です。送信時刻が東京証券取引所の立会時間中 (09:00–11:30, 12:30–15:30 JST) です。',
+      en: 'This project is market-hours sensitive, and the send time falls within a Tokyo Stock Exchange session (09:00–11:30, 12:30–15:30 JST).',
+    },
+  },
+  embargo_before_lift: {
+    ja: 'エンバーゴ解除前',
+    en: 'Before the embargo lifts',
+    detail: {
+      ja: '送信時刻がこのプロジェクトのエンバーゴ解除時刻より前です。',
+      en: "The send time is before this project's embargo lift time.",
+    },
+  },
+  blackout_window: {
+    ja: '配信停止期間',
+    en: 'Blackout window',
+    detail: {
+      ja: '送信時刻が事務所の配信停止期間に含まれます。',
+      en: 'The send time falls within a firm blackout window.',
+    },
+  },
 };
 
 export function ScheduleWarningDialog({
@@ -44,9 +76,14 @@ export function ScheduleWarningDialog({
   onOpenChange,
   warnings,
   scheduledFor,
+  context,
   onAcknowledge,
 }: Props) {
   const holiday = getHoliday(scheduledFor);
+  const embargo = context?.embargo ?? null;
+  const blackouts = scheduledFor
+    ? getMatchingBlackouts(new Date(scheduledFor), context?.blackouts)
+    : [];
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -91,6 +128,22 @@ export function ScheduleWarningDialog({
                     </span>
                   </p>
                 )}
+                {code === 'embargo_before_lift' && embargo && (
+                  <p className="text-xs">
+                    {embargo.label ? `${embargo.label} — ` : ''}
+                    {new Date(embargo.liftAt).toLocaleString()}
+                  </p>
+                )}
+                {code === 'blackout_window' &&
+                  blackouts.map((b) => (
+                    <p key={b.id} className="text-xs">
+                      {b.label}{' '}
+                      <span className="text-muted-foreground">
+                        ({new Date(b.starts_at).toLocaleString()} –{' '}
+                        {new Date(b.ends_at).toLocaleString()})
+                      </span>
+                    </p>
+                  ))}
               </li>
             );
           })}
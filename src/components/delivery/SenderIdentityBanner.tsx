@@ -1,13 +1,19 @@
+import { Link } from 'react-router-dom';
 import { MailIcon } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
 import { useFirmConfig } from '@/hooks/useFirmConfig';
+import { useMailboxConnection } from '@/hooks/useMailboxConnection';
+import { MAILBOX_PROVIDER_LABEL } from '@/lib/mailbox';
 
+// The identity is resolved again when the email goes out (at the scheduled
+// time for a scheduled send), so this shows what would be used now.
 export function SenderIdentityBanner() {
   const { data, isPending, error } = useFirmConfig();
+  const { data: mailbox, isPending: mailboxPending } = useMailboxConnection();
 
-  if (isPending) return <Skeleton className="h-16 w-full" />;
+  if (isPending || mailboxPending) return <Skeleton className="h-16 w-full" />;
   if (error || !data) {
     return (
       <Alert variant="destructive">
@@ -16,16 +22,40 @@ export function SenderIdentityBanner() {
     );
   }
 
+  const ownMailbox = mailbox?.status === 'active' ? mailbox : null;
+
   return (
     <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-1">
       <div className="flex items-center gap-2 text-xs text-muted-foreground">
         <MailIcon className="size-3" />
-        <BilingualLabel ja="送信者情報 (固定)" en="Sender (fixed)" />
+        {ownMailbox ? (
+          <BilingualLabel
+            ja={`送信者情報 (あなたの ${MAILBOX_PROVIDER_LABEL[ownMailbox.provider].ja})`}
+            en={`Sender (your ${MAILBOX_PROVIDER_LABEL[ownMailbox.provider].en} mailbox)`}
+          />
+        ) : (
+          <BilingualLabel ja="送信者情報 (固定)" en="Sender (fixed)" />
+        )}
       </div>
       <div>
         <span className="text-muted-foreground mr-2">From:</span>
-        <span className="font-medium">{data.from_name}</span>{' '}
-        <span className="text-muted-foreground">&lt;{data.from_email}&gt;</span>
+        {ownMailbox ? (
+          <>
+            {ownMailbox.display_name && (
+              <span className="font-medium">{ownMailbox.display_name} </span>
+            )}
+            <span className="text-muted-foreground">
+              &lt;{ownMailbox.email}&gt;
+            </span>
+          </>
+        ) : (
+          <>
+            <span className="font-medium">{data.from_name}</span>{' '}
+            <span className="text-muted-foreground">
+              &lt;{data.from_email}&gt;
+            </span>
+          </>
+        )}
       </div>
       <div>
         <span className="text-muted-foreground mr-2">Reply-To:</span>
@@ -37,6 +67,25 @@ export function SenderIdentityBanner() {
           en="Standard internal BCC will be applied automatically."
         />
       </p>
+      {ownMailbox && (
+        <p className="text-xs text-muted-foreground">
+          <BilingualLabel
+            ja={`送信時にメールボックスの接続が失効している場合は ${data.from_email} から送信されます。`}
+            en={`If the mailbox connection has been revoked by send time, ${data.from_email} is used instead.`}
+          />
+        </p>
+      )}
+      {mailbox?.status === 'revoked' && (
+        <p className="text-xs text-destructive">
+          <BilingualLabel
+            ja="メールボックスの接続が失効しています。"
+            en="Your mailbox connection was revoked."
+          />{' '}
+          <Link to="/settings" className="underline">
+            <BilingualLabel ja="設定で再接続" en="Reconnect in Settings" />
+          </Link>
+        </p>
+      )}
     </div>
   );
 }
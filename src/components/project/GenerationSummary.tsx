@@ -17,6 +17,7 @@ import {
   DRUG_LIFECYCLE_STATUSES,
   DISTRIBUTION_CHANNELS,
   LENGTH_TIERS,
+  VARIATION_AXES,
   type LabeledOption,
 } from '@/lib/project-options';
 import type { NewProjectFormValues } from './NewProjectForm.schema';
@@ -59,6 +60,7 @@ export function GenerationSummary({ submitting }: Props) {
   const lengthTarget = useWatch({ control, name: 'length_target_chars' });
   const lengthTier = useWatch({ control, name: 'length_tier' });
   const variantCount = useWatch({ control, name: 'variant_count' });
+  const variationAxis = useWatch({ control, name: 'variation_axis' });
 
   const level = complianceLevel(lifecycle);
   const lengthLabel =
@@ -79,6 +81,11 @@ export function GenerationSummary({ submitting }: Props) {
       value: optionLabel(DRUG_LIFECYCLE_STATUSES, lifecycle, lang),
     },
     { ja: '分量', en: 'Length', value: lengthLabel },
+    {
+      ja: 'バリエーション軸',
+      en: 'Variation axis',
+      value: optionLabel(VARIATION_AXES, variationAxis, lang),
+    },
     {
       ja: 'チャネル',
       en: 'Channel',
@@ -1,9 +1,12 @@
 import { z } from 'zod';
 import {
+  CONTENT_TYPE_VALUES,
+  CONTENT_SUB_TYPE_VALUES,
   TARGET_AUDIENCE_VALUES,
   DRUG_LIFECYCLE_VALUES,
   DISTRIBUTION_CHANNEL_VALUES,
   LENGTH_TIER_VALUES,
+  VARIATION_AXIS_VALUES,
 } from '@/lib/project-options';
 
 export const briefQuoteSchema = z.object({
@@ -15,21 +18,8 @@ export const briefQuoteSchema = z.object({
 export const newProjectFormSchema = z.object({
   client_id: z.string().uuid('brief.errors.clientRequired'),
   name: z.string().min(1, 'brief.errors.nameRequired'),
-  content_type: z.enum([
-    'press_release',
-    'blog_post',
-    'social_media',
-    'internal_memo',
-    'faq',
-    'executive_statement',
-  ]),
-  content_sub_type: z.enum([
-    'auto',
-    'full_clinical',
-    'partner_ack',
-    'csr_event',
-    'business_news',
-  ]),
+  content_type: z.enum(CONTENT_TYPE_VALUES),
+  content_sub_type: z.enum(CONTENT_SUB_TYPE_VALUES),
   urgency: z.enum(['standard', 'priority', 'urgent', 'crisis']),
   deadline: z.string().optional(),
   language: z.enum(['ja', 'en']),
@@ -42,6 +32,7 @@ export const newProjectFormSchema = z.object({
   length_target_chars: z.number().int().min(100).max(10000).nullable(),
   enforce_hard_cap: z.boolean(),
   variant_count: z.number().int().min(1).max(3),
+  variation_axis: z.enum(VARIATION_AXIS_VALUES),
   brief_free_text: z.string().min(50, 'brief.errors.briefTooShort'),
   brief_key_messages: z.array(z.string()),
   brief_quotes: z.array(briefQuoteSchema),
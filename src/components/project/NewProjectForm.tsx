@@ -39,34 +39,17 @@ import { supabase } from '@/lib/supabase';
 import { pickLang } from '@/lib/bilingual';
 import { complianceLevel } from '@/lib/compliance-level';
 import {
+  CONTENT_SUB_TYPES,
+  CONTENT_TYPES,
   DRUG_LIFECYCLE_STATUSES,
   DISTRIBUTION_CHANNELS,
   LENGTH_TIERS,
   LENGTH_TIER_PRESET_CHARS,
+  VARIATION_AXES,
+  VARIATION_AXIS_VARIANTS,
 } from '@/lib/project-options';
 import type { NewProjectFormValues } from '@/components/project/NewProjectForm.schema';
 
-const CONTENT_TYPES = [
-  { value: 'press_release', ja: 'プレスリリース', en: 'Press Release' },
-  { value: 'blog_post', ja: 'ブログ', en: 'Blog Post' },
-  { value: 'social_media', ja: 'SNS投稿', en: 'Social Media' },
-  { value: 'internal_memo', ja: '社内メモ', en: 'Internal Memo' },
-  { value: 'faq', ja: 'FAQ', en: 'FAQ' },
-  {
-    value: 'executive_statement',
-    ja: 'エグゼクティブステートメント',
-    en: 'Executive Statement',
-  },
-] as const;
-
-const SUB_TYPES = [
-  { value: 'auto', ja: '自動判定', en: 'Auto-detect' },
-  { value: 'full_clinical', ja: '完全臨床発表', en: 'Full Clinical' },
-  { value: 'partner_ack', ja: 'パートナー謝辞', en: 'Partner Acknowledgment' },
-  { value: 'csr_event', ja: 'CSR/イベント', en: 'CSR / Event' },
-  { value: 'business_news', ja: 'ビジネスニュース', en: 'Business News' },
-] as const;
-
 const URGENCIES = [
   { value: 'standard', ja: '通常', en: 'Standard' },
   { value: 'priority', ja: '優先', en: 'Priority' },
@@ -101,6 +84,7 @@ export function NewProjectForm() {
   const watchedClientId = useWatch({ control, name: 'client_id' });
   const watchedContentType = useWatch({ control, name: 'content_type' });
   const watchedLifecycle = useWatch({ control, name: 'drug_lifecycle_status' });
+  const watchedAxis = useWatch({ control, name: 'variation_axis' });
   const watchedBriefText = useWatch({ control, name: 'brief_free_text' }) ?? '';
 
   const { data: lengthNorms } = useVoiceProfileForClient(
@@ -233,7 +217,7 @@ export function NewProjectForm() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {SUB_TYPES.map((s) => (
+                        {CONTENT_SUB_TYPES.map((s) => (
                           <SelectItem key={s.value} value={s.value}>
                             <BilingualLabel ja={s.ja} en={s.en} />
                           </SelectItem>
@@ -469,6 +453,38 @@ export function NewProjectForm() {
           />
         </div>
 
+        <FormField
+          control={control}
+          name="variation_axis"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                <BilingualLabel ja="バリエーション軸" en="Variation axis" />
+              </FormLabel>
+              <FormControl>
+                <SegmentedControl
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  options={VARIATION_AXES.map((axis) => ({
+                    value: axis.value,
+                    label: pickLang(i18n.language, axis.ja, axis.en),
+                  }))}
+                  aria-label="Variation axis"
+                />
+              </FormControl>
+              <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                <BilingualLabel ja="各案の違い:" en="Variants differ as:" />
+                {VARIATION_AXIS_VARIANTS[watchedAxis ?? 'tone'].map((v, i) => (
+                  <Badge key={v.ja} variant="outline" className="font-normal">
+                    {`案${i + 1} `}
+                    <BilingualLabel ja={v.ja} en={v.en} />
+                  </Badge>
+                ))}
+              </div>
+            </FormItem>
+          )}
+        />
+
         <Alert variant={level.tone === 'strict' ? 'destructive' : 'default'}>
           <ShieldAlertIcon className="size-4" />
           <AlertTitle>
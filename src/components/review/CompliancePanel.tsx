@@ -1,6 +1,11 @@
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { AlertTriangleIcon, CopyIcon } from 'lucide-react';
+import {
+  AlertTriangleIcon,
+  CopyIcon,
+  FlaskConicalIcon,
+  UnlinkIcon,
+} from 'lucide-react';
 import { toast } from 'sonner';
 import { pickLang } from '@/lib/bilingual';
 import {
@@ -20,6 +25,8 @@ import {
   SEVERITY_LABEL,
   SEVERITY_VARIANT,
 } from '@/lib/severity';
+import { paragraphIndexAt } from '@/lib/finding-anchor';
+import { FINDING_SOURCE_LABEL, findingSource } from '@/lib/finding-source';
 import type { ComplianceSeverity, ContentVariant } from '@/types/domain';
 import type { ComplianceFindingWithStale } from '@/hooks/useComplianceFindings';
 
@@ -33,8 +40,12 @@ export interface CompliancePanelProps {
   onApplyFix: (variantId: string, finding: ComplianceFindingWithStale) => void;
   onAcknowledge: (findingId: string) => void;
   onReopen: (findingId: string) => void;
+  // Adds the variant's acknowledged and manual findings to the compliance
+  // evaluation set as labelled cases.
+  onCaptureEvalCase: (variantId: string) => void;
   recheckingVariantId?: string | null;
   resolvingFindingId?: string | null;
+  capturingVariantId?: string | null;
 }
 
 export function CompliancePanel({
@@ -47,8 +58,10 @@ export function CompliancePanel({
   onApplyFix,
   onAcknowledge,
   onReopen,
+  onCaptureEvalCase,
   recheckingVariantId,
   resolvingFindingId,
+  capturingVariantId,
 }: CompliancePanelProps) {
   const sortedVariants = variants
     .slice()
@@ -106,6 +119,14 @@ export function CompliancePanel({
           {sortedVariants.map((v) => {
             const findings = findingsByVariant[v.id] ?? [];
             const anyStale = findings.some((f) => f.is_stale);
+            // Manual findings are labels in their own right; automated ones
+            // only once a reviewer has acknowledged them.
+            const anyLabelled = findings.some(
+              (f) =>
+                f.resolution_status === 'acknowledged' ||
+                (findingSource(f) === 'manual' &&
+                  f.resolution_status !== 'fixed'),
+            );
             const grouped: Record<ComplianceSeverity, ComplianceFindingWithStale[]> = {
               blocker: [],
               warning: [],
@@ -172,6 +193,7 @@ export function CompliancePanel({
                           <FindingCard
                             key={f.id}
                             variantId={v.id}
+                            bodyText={v.body_text}
                             finding={f}
                             onApplyFix={onApplyFix}
                             onAcknowledge={onAcknowledge}
@@ -183,6 +205,27 @@ export function CompliancePanel({
                     </section>
                   );
                 })}
+
+                {anyLabelled && (
+                  <div className="flex items-center justify-between gap-2 border-t pt-3">
+                    <p className="text-xs text-muted-foreground">
+                      <BilingualLabel
+                        ja="確認済・手動の指摘を精度評価用のラベル付き事例として保存します。"
+                        en="Save acknowledged and manual findings as a labelled case for accuracy evaluation."
+                      />
+                    </p>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      disabled={capturingVariantId === v.id}
+                      onClick={() => onCaptureEvalCase(v.id)}
+                    >
+                      <FlaskConicalIcon className="size-3" />
+                      <BilingualLabel ja="評価セットに追加" en="Add to eval set" />
+                    </Button>
+                  </div>
+                )}
               </TabsContent>
             );
           })}
@@ -192,8 +235,12 @@ export function CompliancePanel({
   );
 }
 
+// Characters of surrounding body shown either side of an anchored span.
+const SNIPPET_CONTEXT_CHARS = 24;
+
 interface FindingCardProps {
   variantId: string;
+  bodyText: string;
   finding: ComplianceFindingWithStale;
   onApplyFix: (variantId: string, finding: ComplianceFindingWithStale) => void;
   onAcknowledge: (findingId: string) => void;
@@ -203,6 +250,7 @@ interface FindingCardProps {
 
 function FindingCard({
   variantId,
+  bodyText,
   finding,
   onApplyFix,
   onAcknowledge,
@@ -213,6 +261,15 @@ function FindingCard({
   const sev = finding.severity as ComplianceSeverity;
   const status = finding.resolution_status;
   const isFinal = status === 'fixed' || status === 'acknowledged';
+  const source = findingSource(finding);
+  const { anchor } = finding;
+  const span =
+    anchor.status === 'anchored' || anchor.status === 'shifted'
+      ? anchor
+      : null;
+  const paragraph = span
+    ? paragraphIndexAt(bodyText, span.start)
+    : finding.paragraph_index;
   return (
     <div className="rounded-md border bg-card p-3 space-y-2">
       <div className="flex items-center gap-2">
@@ -222,10 +279,30 @@ function FindingCard({
             en={SEVERITY_LABEL[sev].en}
           />
         </Badge>
-        {finding.paragraph_index !== null && (
-          <span className="text-xs text-muted-foreground">
-            ¶{finding.paragraph_index}
-          </span>
+        {source === 'manual' && (
+          <Badge variant="outline">
+            <BilingualLabel
+              ja={FINDING_SOURCE_LABEL.manual.ja}
+              en={FINDING_SOURCE_LABEL.manual.en}
+            />
+          </Badge>
+        )}
+        {paragraph !== null && (
+          <span className="text-xs text-muted-foreground">¶{paragraph}</span>
+        )}
+        {anchor.status === 'orphaned' && status !== 'fixed' && (
+          <Badge
+            variant="outline"
+            className="gap-1 border-amber-400 text-amber-700"
+            title={pickLang(
+              i18n.language,
+              '指摘箇所を現在の本文で特定できません。再チェックしてください。',
+              'The flagged text can no longer be located in the current body. Re-check.',
+            )}
+          >
+            <UnlinkIcon className="size-3" />
+            <BilingualLabel ja="該当箇所不明" en="Orphaned" />
+          </Badge>
         )}
         {status === 'fixed' && (
           <Badge variant="default">
@@ -239,8 +316,23 @@ function FindingCard({
         )}
       </div>
 
-      <blockquote className="rounded bg-muted/50 px-2 py-1 font-mono text-xs">
-        {finding.source_text}
+      <blockquote className="rounded bg-muted/50 px-2 py-1 font-mono text-xs whitespace-pre-wrap">
+        {span ? (
+          <>
+            {span.start > SNIPPET_CONTEXT_CHARS && '…'}
+            {bodyText.slice(
+              Math.max(0, span.start - SNIPPET_CONTEXT_CHARS),
+              span.start,
+            )}
+            <mark className="rounded-sm bg-amber-200 px-0.5">
+              {bodyText.slice(span.start, span.end)}
+            </mark>
+            {bodyText.slice(span.end, span.end + SNIPPET_CONTEXT_CHARS)}
+            {span.end + SNIPPET_CONTEXT_CHARS < bodyText.length && '…'}
+          </>
+        ) : (
+          finding.source_text
+        )}
       </blockquote>
 
       <p className="text-sm">{finding.explanation}</p>
@@ -280,7 +372,7 @@ function FindingCard({
       )}
 
       <div className="flex flex-wrap gap-2 pt-1">
-        {finding.suggested_correction && status !== 'fixed' && (
+        {finding.suggested_correction && span && status !== 'fixed' && (
           <Button
             type="button"
             size="sm"
@@ -0,0 +1,193 @@
+import { useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import {
+  EMPTY_MANUAL_FINDING,
+  manualFindingSchema,
+  type ManualFindingValues,
+} from '@/components/review/ManualFindingForm.schema';
+import { SEVERITY_LABEL, SEVERITY_ORDER } from '@/lib/severity';
+
+interface ManualFindingDialogProps {
+  // The selected text the finding is filed on; null closes the dialog.
+  sourceText: string | null;
+  onOpenChange: (open: boolean) => void;
+  // Resolves once the finding is stored; the dialog closes on success and
+  // stays open (values kept) on failure.
+  onSubmit: (values: ManualFindingValues) => Promise<void>;
+  submitting?: boolean;
+}
+
+export function ManualFindingDialog({
+  sourceText,
+  onOpenChange,
+  onSubmit,
+  submitting,
+}: ManualFindingDialogProps) {
+  const { t } = useTranslation();
+  const open = sourceText !== null;
+  const form = useForm<ManualFindingValues>({
+    resolver: zodResolver(manualFindingSchema),
+    defaultValues: EMPTY_MANUAL_FINDING,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(EMPTY_MANUAL_FINDING);
+  }, [open, form]);
+
+  const submit = async (values: ManualFindingValues) => {
+    try {
+      await onSubmit(values);
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the entered values.
+    }
+  };
+
+  const errorText = (message: string | undefined) =>
+    message ? t(message) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <BilingualLabel ja="指摘を追加" en="Add finding" />
+          </DialogTitle>
+          <DialogDescription>
+            <BilingualLabel
+              ja="自動チェックで検出されなかった問題を記録します。再チェック後も残ります。"
+              en="Record an issue the automated checks missed. It is kept through re-checks."
+            />
+          </DialogDescription>
+        </DialogHeader>
+        <blockquote className="rounded bg-muted/50 px-2 py-1 font-mono text-xs whitespace-pre-wrap max-h-32 overflow-y-auto">
+          {sourceText}
+        </blockquote>
+        <Form {...form}>
+          <form
+            noValidate
+            onSubmit={form.handleSubmit(submit)}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="severity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel ja="重要度" en="Severity" />
+                  </FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SEVERITY_ORDER.map((s) => (
+                        <SelectItem key={s} value={s}>
+                          <BilingualLabel {...SEVERITY_LABEL[s]} />
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="regulation_reference"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel ja="根拠規制" en="Regulation reference" />
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="薬機法 第66条" {...field} />
+                  </FormControl>
+                  <FormMessage>
+                    {errorText(
+                      form.formState.errors.regulation_reference?.message,
+                    )}
+                  </FormMessage>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="explanation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel ja="説明" en="Explanation" />
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage>
+                    {errorText(form.formState.errors.explanation?.message)}
+                  </FormMessage>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="suggested_correction"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="修正案（任意）"
+                      en="Suggested correction (optional)"
+                    />
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={submitting}>
+                <BilingualLabel ja="指摘を追加" en="Add finding" />
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// The reviewer-entered fields of a manual finding. The span comes from the
+// editor selection, not the form. add_manual_finding appends "[manual]" to
+// the regulation reference.
+export const manualFindingSchema = z.object({
+  severity: z.enum(['blocker', 'warning', 'note']),
+  regulation_reference: z
+    .string()
+    .trim()
+    .min(1, 'compliance.manualFinding.errors.regulationRequired'),
+  explanation: z
+    .string()
+    .trim()
+    .min(1, 'compliance.manualFinding.errors.explanationRequired'),
+  suggested_correction: z.string(),
+});
+
+export type ManualFindingValues = z.infer<typeof manualFindingSchema>;
+
+export const EMPTY_MANUAL_FINDING: ManualFindingValues = {
+  severity: 'warning',
+  regulation_reference: '',
+  explanation: '',
+  suggested_correction: '',
+};
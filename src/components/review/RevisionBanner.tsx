@@ -28,7 +28,8 @@ export function RevisionBanner({ projectId, latestReport }: RevisionBannerProps)
 
   const isLocked = latestReport?.status === 'finalized';
   const isDraftRevision =
-    latestReport?.status === 'draft' &&
+    (latestReport?.status === 'draft' ||
+      latestReport?.status === 'partially_signed') &&
     latestReport?.previous_version_id != null;
 
   if (isLocked) {
@@ -1,5 +1,11 @@
 import { useState } from 'react';
-import { AlertTriangleIcon, CheckIcon, RefreshCwIcon, ShieldAlertIcon } from 'lucide-react';
+import {
+  AlertTriangleIcon,
+  CheckIcon,
+  RefreshCwIcon,
+  ShieldAlertIcon,
+  UnlinkIcon,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -12,8 +18,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
-import { VariantEditor } from '@/components/review/VariantEditor';
+import {
+  VariantEditor,
+  type EditorTextSelection,
+  type VariantLintConfig,
+} from '@/components/review/VariantEditor';
+import { ManualFindingDialog } from '@/components/review/ManualFindingDialog';
+import type { ManualFindingValues } from '@/components/review/ManualFindingForm.schema';
+import { VariantRevisionHistory } from '@/components/review/VariantRevisionHistory';
+import { VARIATION_AXES, variationAxisOf } from '@/lib/project-options';
+import {
+  readVariantDocument,
+  type VariantDocument,
+} from '@/lib/variant-document';
 import type { ContentVariant } from '@/types/domain';
 import type { ComplianceFindingWithStale } from '@/hooks/useComplianceFindings';
 
@@ -22,10 +41,22 @@ export interface VariantColumnProps {
   findings: ComplianceFindingWithStale[];
   onApproveToggle: (next: boolean) => void;
   onRegenerate: () => void;
-  onSaveBody: (body: string) => Promise<void> | void;
+  onSaveBody: (body: string, doc: VariantDocument) => Promise<void> | void;
   onOpenCompliance: () => void;
+  // Restores a past revision; the caller re-runs compliance on success.
+  onRestoreRevision: (revisionId: string) => void;
+  // Files a reviewer-authored finding on text selected in the editor.
+  // Rejects to keep the dialog open.
+  onFileFinding: (
+    selection: EditorTextSelection,
+    values: ManualFindingValues,
+  ) => Promise<void>;
+  // Live deterministic lint for the editor; null until the rule set loads.
+  lint?: VariantLintConfig | null;
   approving?: boolean;
+  filingFinding?: boolean;
   regenerating?: boolean;
+  restoring?: boolean;
   // I2 corollary: when the project's latest audit report is finalized, the
   // column locks. Editor is read-only and approve/regenerate are disabled
   // until the user requests a revision on the audit page.
@@ -39,19 +70,33 @@ export function VariantColumn({
   onRegenerate,
   onSaveBody,
   onOpenCompliance,
+  onRestoreRevision,
+  onFileFinding,
+  lint = null,
   approving,
+  filingFinding,
   regenerating,
+  restoring,
   locked = false,
 }: VariantColumnProps) {
   const [confirmOpen, setConfirmOpen] = useState(false);
+  const [tab, setTab] = useState<'editor' | 'history'>('editor');
   const [dirty, setDirty] = useState(false);
+  const [flagged, setFlagged] = useState<EditorTextSelection | null>(null);
+  const bodyDoc = readVariantDocument(variant.body_doc);
   const minutes = Math.max(1, Math.round(variant.reading_time_seconds / 60));
+  const axis = VARIATION_AXES.find(
+    (o) => o.value === variationAxisOf(variant.generation_params),
+  );
 
   const unresolved = findings.filter((f) => f.resolution_status === 'unresolved');
   const blockerCount = unresolved.filter((f) => f.severity === 'blocker').length;
   const warningCount = unresolved.filter((f) => f.severity === 'warning').length;
   const noteCount = unresolved.filter((f) => f.severity === 'note').length;
   const anyStale = findings.some((f) => f.is_stale);
+  const orphanedCount = unresolved.filter(
+    (f) => f.anchor.status === 'orphaned',
+  ).length;
   const hasFindings = findings.length > 0;
 
   return (
@@ -61,6 +106,11 @@ export function VariantColumn({
           <Badge variant="secondary" className="shrink-0">
             案{variant.variant_index}
           </Badge>
+          {axis && (
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              <BilingualLabel ja={axis.ja} en={axis.en} />
+            </span>
+          )}
           <span className="text-sm font-medium whitespace-nowrap">
             {variant.variant_label}
           </span>
@@ -112,15 +162,46 @@ export function VariantColumn({
         </div>
       </div>
 
-      <div className="px-4 py-4 flex-1">
-        <VariantEditor
-          key={variant.updated_at}
-          initialBodyText={variant.body_text}
-          onSave={onSaveBody}
-          onDirtyChange={setDirty}
-          readOnly={locked}
-        />
-      </div>
+      <Tabs
+        value={tab}
+        onValueChange={(v) => setTab(v as 'editor' | 'history')}
+        className="px-4 py-4 flex-1"
+      >
+        <TabsList>
+          <TabsTrigger value="editor">
+            <BilingualLabel ja="本文" en="Body" />
+          </TabsTrigger>
+          {/* Switching away unmounts the editor, so pending edits must land
+              first. */}
+          <TabsTrigger value="history" disabled={dirty}>
+            <BilingualLabel ja="履歴" en="History" />
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="editor">
+          <VariantEditor
+            key={variant.updated_at}
+            initialBodyText={variant.body_text}
+            initialDocument={bodyDoc}
+            onSave={onSaveBody}
+            onDirtyChange={setDirty}
+            readOnly={locked}
+            lint={lint}
+            findings={unresolved}
+            onFileFinding={setFlagged}
+          />
+        </TabsContent>
+        <TabsContent value="history">
+          <VariantRevisionHistory
+            variantId={variant.id}
+            restoring={restoring}
+            locked={locked}
+            onRestore={(revisionId) => {
+              setTab('editor');
+              onRestoreRevision(revisionId);
+            }}
+          />
+        </TabsContent>
+      </Tabs>
 
       {hasFindings && (
         <div className="px-4 py-2 border-t flex items-center justify-between gap-2">
@@ -147,6 +228,15 @@ export function VariantColumn({
             )}
             <BilingualLabel ja="指摘を見る" en="View findings" />
           </button>
+          {orphanedCount > 0 && (
+            <span className="flex items-center gap-1 text-xs text-amber-700">
+              <UnlinkIcon className="size-3" />
+              <BilingualLabel
+                ja={`該当箇所不明 ${orphanedCount}`}
+                en={`${orphanedCount} orphaned`}
+              />
+            </span>
+          )}
           {anyStale && (
             <span className="flex items-center gap-1 text-xs text-amber-700">
               <AlertTriangleIcon className="size-3" />
@@ -163,6 +253,17 @@ export function VariantColumn({
         </span>
       </div>
 
+      <ManualFindingDialog
+        sourceText={flagged?.text ?? null}
+        onOpenChange={(open) => {
+          if (!open) setFlagged(null);
+        }}
+        onSubmit={(values) =>
+          flagged ? onFileFinding(flagged, values) : Promise.resolve()
+        }
+        submitting={filingFinding}
+      />
+
       <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
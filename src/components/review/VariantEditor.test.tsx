@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from "vitest";
 import { render, waitFor } from "@testing-library/react";
 import "@/locales/i18n"; // initialize the global i18n so BilingualLabel renders
+import { anchorContextHash } from "@/lib/finding-anchor";
 import { VariantEditor } from "./VariantEditor";
 
 // Guards the load-bearing B1 fix: @tiptap/react v3 does not re-apply `editable`
@@ -40,3 +41,97 @@ describe("VariantEditor", () => {
     );
   });
 });
+
+describe("VariantEditor live lint", () => {
+  const lint = {
+    rules: [
+      {
+        id: "00000000-0000-4000-8000-000000000001",
+        kind: "prohibited" as const,
+        match_type: "term" as const,
+        pattern: "画期的",
+        severity: "blocker" as const,
+        regulation_reference: "薬機法 第66条",
+        explanation_template: "「{{MATCH}}」は誇大表現です。",
+        suggested_correction: null,
+        content_types: [],
+        content_sub_types: [],
+        audiences: [],
+        lifecycles: [],
+      },
+    ],
+    wordsToAvoid: [],
+    scope: {
+      contentType: "press_release",
+      contentSubType: "full_clinical",
+      audience: "hcp",
+      lifecycle: "approved",
+    },
+  };
+
+  it("highlights rule matches inline and lists them in the gutter", async () => {
+    const { container, getByText } = render(
+      <VariantEditor
+        initialBodyText={"見出し\n\n画期的な新薬です。"}
+        onSave={vi.fn()}
+        lint={lint}
+      />,
+    );
+
+    await waitFor(() =>
+      expect(
+        container.querySelector('[data-lint-severity="blocker"]'),
+      ).not.toBeNull(),
+    );
+    const mark = container.querySelector('[data-lint-severity="blocker"]');
+    expect(mark?.textContent).toBe("画期的");
+    expect(mark?.getAttribute("title")).toBe("「画期的」は誇大表現です。");
+    expect(getByText(/は誇大表現です。/, { selector: "span" })).toBeTruthy();
+  });
+
+  it("renders no gutter without a rule set", async () => {
+    const { container, queryByText } = render(
+      <VariantEditor initialBodyText="画期的" onSave={vi.fn()} />,
+    );
+    await waitFor(() =>
+      expect(container.querySelector("[contenteditable]")).not.toBeNull(),
+    );
+    expect(container.querySelector("[data-lint-severity]")).toBeNull();
+    expect(queryByText(/Live check|ライブチェック/)).toBeNull();
+  });
+});
+
+describe("VariantEditor recorded findings", () => {
+  it("highlights a recorded finding at its anchor, not at an earlier repeat", async () => {
+    const body = "画期的な新薬。\n\n画期的な成果。";
+    const start = body.lastIndexOf("画期的");
+    const { container } = render(
+      <VariantEditor
+        initialBodyText={body}
+        onSave={vi.fn()}
+        findings={[
+          {
+            severity: "warning",
+            explanation: "二つ目の表現",
+            source_text: "画期的",
+            paragraph_index: 2,
+            anchor_start: start,
+            anchor_end: start + 3,
+            anchor_context_hash: anchorContextHash(body, start, start + 3),
+          },
+        ]}
+      />,
+    );
+
+    await waitFor(() =>
+      expect(
+        container.querySelector('[data-highlight-source="finding"]'),
+      ).not.toBeNull(),
+    );
+    const marks = container.querySelectorAll(
+      '[data-highlight-source="finding"]',
+    );
+    expect(marks).toHaveLength(1);
+    expect(marks[0].closest("p")?.textContent).toBe("画期的な成果。");
+  });
+});
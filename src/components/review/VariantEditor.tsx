@@ -1,62 +1,145 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  useEditor,
+  useEditorState,
+  EditorContent,
+  type Editor,
+} from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
+import { FlagIcon, ShieldAlertIcon, ShieldCheckIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import {
+  ComplianceLint,
+  editorBodyText,
+  setComplianceHighlights,
+  textRangeOfSelection,
+  type ComplianceHighlight,
+} from '@/components/review/compliance-lint-extension';
+import {
+  blockToEditor,
+  documentToEditorContent,
+  editorToDocument,
+  VariantDocumentNodes,
+} from '@/components/review/variant-document-nodes';
+import {
+  resolveFindingAnchor,
+  type AnchoredFindingFields,
+} from '@/lib/finding-anchor';
+import {
+  runDeterministicChecks,
+  type ComplianceRule,
+  type ComplianceRuleScope,
+  type DeterministicFinding,
+} from '@/lib/prompts/compliance';
+import { SEVERITY_LABEL, SEVERITY_VARIANT } from '@/lib/severity';
+import {
+  documentToText,
+  textToDocument,
+  type DocumentBlock,
+  type VariantDocument,
+} from '@/lib/variant-document';
+import type { ComplianceSeverity } from '@/types/domain';
 
 const AUTOSAVE_DEBOUNCE_MS = 1500;
+const NO_FINDINGS: readonly RecordedFindingHighlight[] = [];
+// Short enough to feel live, long enough not to re-lint on every keystroke
+// of an IME composition.
+const LINT_DEBOUNCE_MS = 400;
+
+// Inputs for the live deterministic lint — the same ones compliance-check
+// feeds runDeterministicChecks for this variant.
+export interface VariantLintConfig {
+  rules: readonly ComplianceRule[];
+  wordsToAvoid: readonly string[];
+  scope: ComplianceRuleScope;
+}
 
 export interface VariantEditorProps {
   initialBodyText: string;
-  onSave: (body: string) => Promise<void> | void;
+  // content_variants.body_doc. Without one the body opens as paragraphs and
+  // is saved as a document from the first edit on.
+  initialDocument?: VariantDocument | null;
+  // `body` is documentToText(doc).
+  onSave: (body: string, doc: VariantDocument) => Promise<void> | void;
   onDirtyChange?: (dirty: boolean) => void;
   readOnly?: boolean;
+  // Live lint while typing. Advisory only: it never writes findings, and the
+  // sign-off gate still requires a full compliance-check run after the last
+  // edit.
+  lint?: VariantLintConfig | null;
+  // Recorded findings to highlight, re-anchored to the text as it is edited.
+  // Findings whose anchor can't be resolved are left unhighlighted.
+  findings?: readonly RecordedFindingHighlight[];
+  // Files a manual finding on the selected text. Offered only while the
+  // body is saved, so the offsets match the stored body_text.
+  onFileFinding?: (selection: EditorTextSelection) => void;
 }
 
-function tiptapBodyToText(html: string): string {
-  // StarterKit + plain-text serialization: paragraphs separated by blank
-  // lines, no markdown — the variant body model is plain text.
-  const div = document.createElement('div');
-  div.innerHTML = html;
-  const blocks: string[] = [];
-  for (const child of Array.from(div.children)) {
-    blocks.push((child.textContent ?? '').trim());
-  }
-  if (blocks.length === 0) {
-    return (div.textContent ?? '').trim();
-  }
-  return blocks.join('\n\n');
+// A selection as [start, end) offsets into editorBodyText.
+export interface EditorTextSelection {
+  start: number;
+  end: number;
+  text: string;
 }
 
-function textToTiptapDoc(text: string): string {
-  const paragraphs = text.split(/\n\n+/);
-  return paragraphs
-    .map((p) => {
-      const escaped = p
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;');
-      return `<p>${escaped.replace(/\n/g, '<br/>')}</p>`;
-    })
-    .join('');
+export interface RecordedFindingHighlight extends AnchoredFindingFields {
+  severity: string;
+  explanation: string;
 }
 
 export function VariantEditor({
   initialBodyText,
+  initialDocument = null,
   onSave,
   onDirtyChange,
   readOnly = false,
+  lint = null,
+  findings = NO_FINDINGS,
+  onFileFinding,
 }: VariantEditorProps) {
   const [dirty, setDirty] = useState(false);
   const [saving, setSaving] = useState(false);
   const [savedAt, setSavedAt] = useState<number | null>(null);
+  // Editor text as of the last debounced change (editorBodyText): what the
+  // live lint runs on and what highlight offsets refer to.
+  const [lintedBody, setLintedBody] = useState<string | null>(null);
+  const [selection, setSelection] = useState<EditorTextSelection | null>(
+    null,
+  );
   const saveTimerRef = useRef<number | null>(null);
-  const latestBodyRef = useRef(initialBodyText);
+  const [initialContent] = useState(
+    () => initialDocument ?? textToDocument(initialBodyText),
+  );
+  // The last saved document, serialized: a change of block type alone is an
+  // edit even though the text is the same.
+  const savedDocRef = useRef(JSON.stringify(initialContent));
 
   const editor = useEditor({
-    extensions: [StarterKit, Placeholder.configure({ placeholder: '' })],
-    content: textToTiptapDoc(initialBodyText),
+    extensions: [
+      // The variant body is a document of blocks (variant-document-nodes),
+      // not free-form rich text: no lists, code or rules, one heading level,
+      // and no trailing paragraph forced after the last block.
+      StarterKit.configure({
+        blockquote: false,
+        bulletList: false,
+        orderedList: false,
+        listItem: false,
+        listKeymap: false,
+        codeBlock: false,
+        horizontalRule: false,
+        heading: { levels: [2] },
+        trailingNode: false,
+      }),
+      ...VariantDocumentNodes,
+      Placeholder.configure({ placeholder: '' }),
+      ComplianceLint,
+    ],
+    onCreate: ({ editor: created }) =>
+      setLintedBody(editorBodyText(created.state.doc)),
+    content: documentToEditorContent(initialContent),
     editable: !readOnly,
     editorProps: {
       attributes: {
@@ -82,12 +165,13 @@ export function VariantEditor({
 
   const commitSave = useCallback(async () => {
     if (!editor) return;
-    const body = tiptapBodyToText(editor.getHTML());
-    if (body === latestBodyRef.current) return;
+    const doc = editorToDocument(editor.state.doc);
+    const serialized = JSON.stringify(doc);
+    if (serialized === savedDocRef.current) return;
     setSaving(true);
     try {
-      await onSave(body);
-      latestBodyRef.current = body;
+      await onSave(documentToText(doc), doc);
+      savedDocRef.current = serialized;
       setSavedAt(Date.now());
       setDirty(false);
       onDirtyChange?.(false);
@@ -99,8 +183,9 @@ export function VariantEditor({
   useEffect(() => {
     if (!editor || readOnly) return;
     const handler = () => {
-      const body = tiptapBodyToText(editor.getHTML());
-      const isDirty = body !== latestBodyRef.current;
+      const isDirty =
+        JSON.stringify(editorToDocument(editor.state.doc)) !==
+        savedDocRef.current;
       if (isDirty !== dirty) {
         setDirty(isDirty);
         onDirtyChange?.(isDirty);
@@ -124,13 +209,95 @@ export function VariantEditor({
     };
   }, [editor, dirty, commitSave, onDirtyChange, readOnly]);
 
+  useEffect(() => {
+    if (!editor) return;
+    let timer: number | null = null;
+    const handler = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        setLintedBody(editorBodyText(editor.state.doc));
+      }, LINT_DEBOUNCE_MS);
+    };
+    editor.on('update', handler);
+    return () => {
+      editor.off('update', handler);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    if (!editor) return;
+    const handler = () => {
+      const { from, to } = editor.state.selection;
+      const range =
+        from === to ? null : textRangeOfSelection(editor.state.doc, from, to);
+      setSelection(range && range.text.trim() !== '' ? range : null);
+    };
+    editor.on('selectionUpdate', handler);
+    return () => {
+      editor.off('selectionUpdate', handler);
+    };
+  }, [editor]);
+
+  const lintFindings = useMemo(
+    () =>
+      lint && lintedBody !== null
+        ? runDeterministicChecks(
+            lintedBody,
+            lint.wordsToAvoid,
+            lint.rules,
+            lint.scope,
+          )
+        : [],
+    [lint, lintedBody],
+  );
+
+  const highlights = useMemo((): ComplianceHighlight[] => {
+    if (lintedBody === null) return [];
+    const recorded = findings.flatMap((f): ComplianceHighlight[] => {
+      const anchor = resolveFindingAnchor(lintedBody, f);
+      if (anchor.status !== 'anchored' && anchor.status !== 'shifted') {
+        return [];
+      }
+      return [
+        {
+          start: anchor.start,
+          end: anchor.end,
+          severity: f.severity as ComplianceSeverity,
+          explanation: f.explanation,
+          source: 'finding',
+        },
+      ];
+    });
+    const live = lintFindings.flatMap((f): ComplianceHighlight[] =>
+      f.start === null || f.end === null
+        ? []
+        : [
+            {
+              start: f.start,
+              end: f.end,
+              severity: f.severity,
+              explanation: f.explanation,
+              source: 'lint',
+            },
+          ],
+    );
+    return [...recorded, ...live];
+  }, [findings, lintFindings, lintedBody]);
+
+  useEffect(() => {
+    if (editor) setComplianceHighlights(editor, highlights);
+  }, [editor, highlights]);
+
   if (!editor) {
     return <div className="min-h-[12rem]" />;
   }
 
   return (
     <div className="space-y-2">
+      {!readOnly && <BlockToolbar editor={editor} />}
       <EditorContent editor={editor} />
+      {lint && <LintGutter findings={lintFindings} />}
       {!readOnly && (
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <span>
@@ -142,23 +309,164 @@ export function VariantEditor({
               <BilingualLabel ja="保存済" en="Saved" />
             ) : null}
           </span>
-          <Button
-            type="button"
-            size="sm"
-            variant="outline"
-            disabled={!dirty || saving}
-            onClick={() => {
-              if (saveTimerRef.current !== null) {
-                window.clearTimeout(saveTimerRef.current);
-                saveTimerRef.current = null;
-              }
-              void commitSave();
-            }}
-          >
-            <BilingualLabel ja="保存" en="Save" />
-          </Button>
+          <div className="flex items-center gap-2">
+            {onFileFinding && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={!selection || dirty || saving}
+                onClick={() => {
+                  if (selection) onFileFinding(selection);
+                }}
+              >
+                <FlagIcon className="size-3" />
+                <BilingualLabel ja="選択箇所に指摘を追加" en="Flag selection" />
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={!dirty || saving}
+              onClick={() => {
+                if (saveTimerRef.current !== null) {
+                  window.clearTimeout(saveTimerRef.current);
+                  saveTimerRef.current = null;
+                }
+                void commitSave();
+              }}
+            >
+              <BilingualLabel ja="保存" en="Save" />
+            </Button>
+          </div>
         </div>
       )}
     </div>
   );
 }
+
+// Block types a top-level textblock can be switched to.
+const TEXT_BLOCK_TYPES: {
+  node: string;
+  attrs?: Record<string, unknown>;
+  ja: string;
+  en: string;
+}[] = [
+  { node: 'title', ja: 'タイトル', en: 'Title' },
+  { node: 'subtitle', ja: 'サブタイトル', en: 'Subtitle' },
+  { node: 'dateline', ja: '日付・発信地', en: 'Dateline' },
+  { node: 'lead', ja: 'リード', en: 'Lead' },
+  { node: 'heading', attrs: { level: 2 }, ja: '小見出し', en: 'Heading' },
+  { node: 'paragraph', ja: '本文', en: 'Paragraph' },
+  { node: 'contact', ja: 'お問い合わせ', en: 'Contact' },
+];
+
+// Blocks with parts of their own, inserted empty at the cursor.
+const INSERTABLE_BLOCKS: { block: DocumentBlock; ja: string; en: string }[] = [
+  {
+    block: { type: 'quote', text: '', attribution: '' },
+    ja: '引用',
+    en: 'Quote',
+  },
+  {
+    block: { type: 'table', caption: '', header: ['', ''], rows: [['', '']] },
+    ja: '表',
+    en: 'Table',
+  },
+  {
+    block: { type: 'boilerplate', heading: '', text: '' },
+    ja: '会社概要',
+    en: 'About',
+  },
+];
+
+function BlockToolbar({ editor }: { editor: Editor }) {
+  // Type of the textblock holding the cursor, or null inside a quote, table
+  // or boilerplate block, whose parts keep their types.
+  const current = useEditorState({
+    editor,
+    selector: ({ editor: e }) => {
+      const { $from } = e.state.selection;
+      return $from.depth === 1 ? $from.parent.type.name : null;
+    },
+  });
+  return (
+    <div className="flex flex-wrap items-center gap-1 rounded-md border bg-muted/30 px-2 py-1">
+      {TEXT_BLOCK_TYPES.map((t) => (
+        <Button
+          key={t.node}
+          type="button"
+          size="sm"
+          variant={current === t.node ? 'default' : 'ghost'}
+          disabled={current === null}
+          onClick={() => editor.chain().focus().setNode(t.node, t.attrs).run()}
+        >
+          <BilingualLabel ja={t.ja} en={t.en} />
+        </Button>
+      ))}
+      <span className="mx-1 h-4 border-l" />
+      {INSERTABLE_BLOCKS.map((b) => (
+        <Button
+          key={b.block.type}
+          type="button"
+          size="sm"
+          variant="ghost"
+          disabled={current === null}
+          onClick={() =>
+            editor.chain().focus().insertContent(blockToEditor(b.block)).run()
+          }
+        >
+          <BilingualLabel ja={b.ja} en={b.en} />
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+function LintGutter({
+  findings,
+}: {
+  findings: readonly DeterministicFinding[];
+}) {
+  return (
+    <div className="rounded-md border bg-muted/30 px-2 py-1.5 text-xs space-y-1">
+      <div className="flex items-center gap-1.5 text-muted-foreground">
+        {findings.length > 0 ? (
+          <ShieldAlertIcon className="size-3.5" />
+        ) : (
+          <ShieldCheckIcon className="size-3.5" />
+        )}
+        <BilingualLabel
+          ja="ライブチェック（ルールのみ・承認前に本チェックが必要）"
+          en="Live check (rules only; run the full check before sign-off)"
+        />
+      </div>
+      {findings.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto space-y-1">
+          {findings.map((f, i) => (
+            <li
+              key={`${f.regulation_reference}:${f.source_text}:${i}`}
+              className="flex items-start gap-1.5"
+              title={f.explanation}
+            >
+              <Badge
+                variant={SEVERITY_VARIANT[f.severity]}
+                className="px-1.5 shrink-0"
+              >
+                <BilingualLabel {...SEVERITY_LABEL[f.severity]} />
+              </Badge>
+              <span className="min-w-0">
+                <span className="font-medium">{f.source_text}</span>
+                <span className="text-muted-foreground">
+                  {' — '}
+                  {f.explanation}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
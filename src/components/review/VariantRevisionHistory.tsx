@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { HistoryIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { useVariantRevisions } from '@/hooks/useVariantRevisions';
+import { diffLines, type DiffOp } from '@/lib/text-diff';
+import type {
+  ContentVariantRevision,
+  VariantRevisionReason,
+} from '@/types/domain';
+
+export interface VariantRevisionHistoryProps {
+  variantId: string;
+  onRestore: (revisionId: string) => void;
+  restoring?: boolean;
+  locked?: boolean;
+}
+
+const REASON_LABEL: Record<VariantRevisionReason, { ja: string; en: string }> =
+  {
+    generated: { ja: '生成', en: 'Generated' },
+    regenerated: { ja: '再生成', en: 'Regenerated' },
+    autosave: { ja: '編集', en: 'Edited' },
+    fix_applied: { ja: '修正適用', en: 'Fix applied' },
+    restored: { ja: '復元', en: 'Restored' },
+  };
+
+const OP_CLASS: Record<DiffOp, string> = {
+  equal: '',
+  added: 'bg-emerald-100 text-emerald-900',
+  removed: 'bg-red-100 text-red-900 line-through',
+};
+
+function authorOf(r: ContentVariantRevision): string {
+  if (r.author_type === 'model') return r.model_used ?? 'model';
+  return r.author_name_snapshot ?? '—';
+}
+
+// Picks a revision ("selected") and diffs it against any other ("compare",
+// the current body by default). Restore acts on the selected revision.
+export function VariantRevisionHistory({
+  variantId,
+  onRestore,
+  restoring,
+  locked = false,
+}: VariantRevisionHistoryProps) {
+  const { data: revisions, isLoading } = useVariantRevisions(variantId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const list = useMemo(() => revisions ?? [], [revisions]);
+  const latest = list[0];
+  // Defaults: the revision before the current one, against the current one.
+  const selected = list.find((r) => r.id === selectedId) ?? list[1] ?? latest;
+  const compare = list.find((r) => r.id === compareId) ?? latest;
+
+  const lines = useMemo(
+    () =>
+      selected && compare
+        ? diffLines(selected.body_text, compare.body_text)
+        : [],
+    [selected, compare],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (!latest || !selected || !compare) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        <BilingualLabel ja="履歴はまだありません" en="No history yet" />
+      </p>
+    );
+  }
+
+  const isCurrent = selected.id === latest.id;
+  const unchanged = lines.every((l) => l.op === 'equal');
+
+  return (
+    <div className="space-y-3">
+      <ul className="max-h-48 space-y-1 overflow-y-auto">
+        {list.map((r) => {
+          const reason = REASON_LABEL[r.reason as VariantRevisionReason];
+          const isSelected = r.id === selected.id;
+          return (
+            <li key={r.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(r.id)}
+                className={
+                  'w-full rounded-md border px-2 py-1.5 text-left text-xs flex items-center gap-2 flex-wrap hover:bg-muted/40 ' +
+                  (isSelected ? 'border-foreground/40 bg-muted/40' : '')
+                }
+              >
+                <span className="font-mono">r{r.revision_number}</span>
+                <Badge variant="outline" className="font-normal">
+                  <BilingualLabel ja={reason.ja} en={reason.en} />
+                </Badge>
+                <span className="text-muted-foreground">{authorOf(r)}</span>
+                <span className="text-muted-foreground">
+                  {new Date(r.updated_at).toLocaleString()}
+                </span>
+                {r.id === latest.id && (
+                  <Badge variant="secondary" className="font-normal">
+                    <BilingualLabel ja="現在" en="Current" />
+                  </Badge>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        <span className="font-mono">r{selected.revision_number}</span>
+        <span className="text-muted-foreground">→</span>
+        <Select value={compare.id} onValueChange={setCompareId}>
+          <SelectTrigger size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {list.map((r) => (
+              <SelectItem key={r.id} value={r.id}>
+                r{r.revision_number}
+                {r.id === latest.id && (
+                  <>
+                    {' · '}
+                    <BilingualLabel ja="現在" en="Current" />
+                  </>
+                )}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border p-3 font-serif text-[15px] leading-7 space-y-2 max-h-96 overflow-y-auto">
+        {unchanged && (
+          <p className="font-sans text-xs text-muted-foreground">
+            <BilingualLabel ja="差分はありません" en="No differences" />
+          </p>
+        )}
+        {lines.map((line, i) =>
+          line.op === 'changed' ? (
+            <p key={i}>
+              {line.segments.map((s, j) => (
+                <span key={j} className={OP_CLASS[s.op]}>
+                  {s.text}
+                </span>
+              ))}
+            </p>
+          ) : (
+            <p key={i} className={OP_CLASS[line.op]}>
+              {line.text}
+            </p>
+          ),
+        )}
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="w-full"
+        disabled={isCurrent || restoring || locked}
+        onClick={() => setConfirmOpen(true)}
+      >
+        <HistoryIcon className="size-3" />
+        <BilingualLabel
+          ja={`r${selected.revision_number}に戻す`}
+          en={`Restore r${selected.revision_number}`}
+        />
+      </Button>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              <BilingualLabel
+                ja={`r${selected.revision_number}に戻しますか？`}
+                en={`Restore revision ${selected.revision_number}?`}
+              />
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              <BilingualLabel
+                ja="現在の本文は履歴に残ります。復元後にコンプライアンスチェックを再実行します。"
+                en="The current body stays in history. Compliance is re-run after restoring."
+              />
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>
+              <BilingualLabel ja="キャンセル" en="Cancel" />
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setConfirmOpen(false);
+                onRestore(selected.id);
+              }}
+            >
+              <BilingualLabel ja="復元" en="Restore" />
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
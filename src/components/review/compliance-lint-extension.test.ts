@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import {
+  editorBodyText,
+  textRangeOfSelection,
+} from './compliance-lint-extension';
+import {
+  documentToEditorContent,
+  editorToDocument,
+  VariantDocumentNodes,
+} from './variant-document-nodes';
+import { documentToText, type VariantDocument } from '@/lib/variant-document';
+
+describe('textRangeOfSelection', () => {
+  const editor = new Editor({
+    extensions: [StarterKit],
+    content: '<p>見出し</p><p>画期的な<br>新薬です。</p>',
+  });
+  const { doc } = editor.state;
+  const text = editorBodyText(doc);
+
+  it('maps an editor range inside a paragraph to body_text offsets', () => {
+    // Paragraph 2 opens at position 5; its text starts at 6.
+    const range = textRangeOfSelection(doc, 6, 9);
+    expect(range).toEqual({ start: 5, end: 8, text: '画期的' });
+    expect(text.slice(range!.start, range!.end)).toBe('画期的');
+  });
+
+  it('keeps paragraph breaks and hard breaks in a range that spans them', () => {
+    const range = textRangeOfSelection(doc, 2, doc.content.size - 2);
+    expect(range?.text).toBe('出し\n\n画期的な\n新薬です');
+  });
+
+  it('returns null for an empty range', () => {
+    expect(textRangeOfSelection(doc, 6, 6)).toBeNull();
+  });
+});
+
+describe('editorBodyText on a structured document', () => {
+  const doc: VariantDocument = {
+    version: 1,
+    blocks: [
+      { type: 'title', text: '新薬を発表' },
+      { type: 'heading', text: '概要' },
+      { type: 'paragraph', text: '画期的な\n新薬です。' },
+      { type: 'quote', text: '大きな一歩です。', attribution: '' },
+      {
+        type: 'table',
+        caption: '試験結果',
+        header: ['群', '例数'],
+        rows: [
+          ['A', '120'],
+          ['B', ''],
+        ],
+      },
+      { type: 'boilerplate', heading: '', text: '当社は…。\n\n所在地…。' },
+      { type: 'contact', text: '広報部' },
+    ],
+  };
+  const editor = new Editor({
+    extensions: [
+      StarterKit.configure({ heading: { levels: [2] } }),
+      ...VariantDocumentNodes,
+    ],
+    content: documentToEditorContent(doc),
+  });
+
+  it('reads the same text as documentToText', () => {
+    expect(editorBodyText(editor.state.doc)).toBe(documentToText(doc));
+  });
+
+  it('reads the document back block for block', () => {
+    expect(editorToDocument(editor.state.doc)).toEqual(doc);
+  });
+
+  it('maps a range inside a table cell to body_text offsets', () => {
+    const text = editorBodyText(editor.state.doc);
+    let from = -1;
+    editor.state.doc.descendants((node, pos) => {
+      if (node.isText && node.text === '120') from = pos;
+    });
+    const range = textRangeOfSelection(editor.state.doc, from, from + 3);
+    expect(range?.text).toBe('120');
+    expect(range?.start).toBe(text.indexOf('120'));
+  });
+});
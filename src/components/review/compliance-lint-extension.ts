@@ -0,0 +1,178 @@
+import { Extension, type Editor } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { ComplianceSeverity } from '@/types/domain';
+import {
+  OPTIONAL_TEXTBLOCKS,
+  TABLE_CELL,
+} from '@/components/review/variant-document-nodes';
+
+/**
+ * Inline compliance highlights for VariantEditor. Two sources, both given as
+ * [start, end) offsets into the editor's plain text (editorBodyText):
+ *
+ *   lint    — the live deterministic pass over the text being typed.
+ *   finding — recorded compliance_findings, re-anchored to the current text.
+ *
+ * Each highlight gets its severity colour and the explanation on hover.
+ * Decorations are display-only — nothing here writes compliance_findings.
+ */
+
+export interface ComplianceHighlight {
+  start: number;
+  end: number;
+  severity: ComplianceSeverity;
+  explanation: string;
+  source: 'lint' | 'finding';
+}
+
+const HIGHLIGHT_CLASS: Record<
+  ComplianceHighlight['source'],
+  Record<ComplianceSeverity, string>
+> = {
+  lint: {
+    blocker: 'underline decoration-wavy decoration-red-500 bg-red-50',
+    warning: 'underline decoration-wavy decoration-amber-500 bg-amber-50',
+    note: 'underline decoration-dotted decoration-sky-500',
+  },
+  finding: {
+    blocker: 'underline decoration-2 decoration-red-600 bg-red-100',
+    warning: 'underline decoration-2 decoration-amber-600 bg-amber-100',
+    note: 'underline decoration-2 decoration-sky-600 bg-sky-50',
+  },
+};
+
+const complianceLintKey = new PluginKey<DecorationSet>('complianceLint');
+
+// The document as body_text-shaped plain text — textblocks joined by a
+// blank line, hard breaks as '\n', table cells by a tab and table rows by a
+// newline, empty optional parts (attribution, caption, boilerplate heading)
+// left out — plus the document position of every character, so text
+// offsets can be turned back into editor ranges. Matches documentToText of
+// editorToDocument (variant-document-nodes).
+function textWithPositions(doc: ProseMirrorNode): {
+  text: string;
+  positions: number[];
+} {
+  let text = '';
+  const positions: number[] = [];
+  let first = true;
+  // Row and table of the previous textblock when it was a table cell.
+  let lastCell: { row: number; table: number } | null = null;
+  doc.descendants((block, blockPos) => {
+    if (!block.isTextblock) return true;
+    if (block.content.size === 0 && OPTIONAL_TEXTBLOCKS.has(block.type.name)) {
+      return false;
+    }
+    let cell: { row: number; table: number } | null = null;
+    if (block.type.name === TABLE_CELL) {
+      const $pos = doc.resolve(blockPos);
+      cell = { row: $pos.start(), table: $pos.start($pos.depth - 1) };
+    }
+    if (!first) {
+      const separator =
+        cell && lastCell?.table === cell.table
+          ? lastCell.row === cell.row
+            ? '\t'
+            : '\n'
+          : '\n\n';
+      text += separator;
+      for (let i = 0; i < separator.length; i++) positions.push(blockPos);
+    }
+    first = false;
+    lastCell = cell;
+    block.descendants((child, childPos) => {
+      const pos = blockPos + 1 + childPos;
+      if (child.isText && child.text) {
+        text += child.text;
+        for (let i = 0; i < child.text.length; i++) positions.push(pos + i);
+      } else if (child.type.name === 'hardBreak') {
+        text += '\n';
+        positions.push(pos);
+      }
+    });
+    return false;
+  });
+  return { text, positions };
+}
+
+export function editorBodyText(doc: ProseMirrorNode): string {
+  return textWithPositions(doc).text;
+}
+
+// The editor range [from, to) as offsets into editorBodyText — the inverse
+// of the mapping buildHighlightDecorations uses. Null when the range holds
+// no text.
+export function textRangeOfSelection(
+  doc: ProseMirrorNode,
+  from: number,
+  to: number,
+): { start: number; end: number; text: string } | null {
+  const { text, positions } = textWithPositions(doc);
+  const start = positions.findIndex((p) => p >= from);
+  if (start === -1) return null;
+  const after = positions.findIndex((p) => p >= to);
+  const end = after === -1 ? positions.length : after;
+  if (end <= start) return null;
+  return { start, end, text: text.slice(start, end) };
+}
+
+export function buildHighlightDecorations(
+  doc: ProseMirrorNode,
+  highlights: readonly ComplianceHighlight[],
+): DecorationSet {
+  const { text, positions } = textWithPositions(doc);
+  const decorations = highlights.flatMap((h) => {
+    if (h.start < 0 || h.end <= h.start || h.end > text.length) return [];
+    return [
+      Decoration.inline(positions[h.start], positions[h.end - 1] + 1, {
+        class: HIGHLIGHT_CLASS[h.source][h.severity],
+        title: h.explanation,
+        'data-lint-severity': h.severity,
+        'data-highlight-source': h.source,
+      }),
+    ];
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+export const ComplianceLint = Extension.create({
+  name: 'complianceLint',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: complianceLintKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, set) => {
+            const highlights = tr.getMeta(complianceLintKey) as
+              readonly ComplianceHighlight[] | undefined;
+            if (highlights)
+              return buildHighlightDecorations(tr.doc, highlights);
+            // Keep highlights roughly in place until the next debounced
+            // pass replaces them.
+            return set.map(tr.mapping, tr.doc);
+          },
+        },
+        props: {
+          decorations: (state) => complianceLintKey.getState(state),
+        },
+      }),
+    ];
+  },
+});
+
+// Highlights must be computed against editorBodyText of the current
+// document.
+export function setComplianceHighlights(
+  editor: Editor,
+  highlights: readonly ComplianceHighlight[],
+) {
+  editor.view.dispatch(
+    editor.state.tr
+      .setMeta(complianceLintKey, highlights)
+      .setMeta('addToHistory', false),
+  );
+}
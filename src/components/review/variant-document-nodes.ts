@@ -0,0 +1,316 @@
+import { mergeAttributes, Node, type JSONContent } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Selection, TextSelection } from '@tiptap/pm/state';
+import type { DocumentBlock, VariantDocument } from '@/lib/variant-document';
+
+/**
+ * Tiptap nodes for the structured variant document (lib/variant-document).
+ * Each block type is its own node, so VariantEditor edits a title as a
+ * title and a quote's attribution as an attribution:
+ *
+ *   title, subtitle, dateline, lead, contact — top-level textblocks
+ *   heading, paragraph                       — StarterKit's (heading level 2)
+ *   quote       → quoteText, quoteAttribution
+ *   dataTable   → tableCaption, tableRow+ → tableCell+ (one line each)
+ *   boilerplate → boilerplateHeading, paragraph+
+ *
+ * documentToEditorContent / editorToDocument convert between the two, and
+ * editorBodyText (compliance-lint-extension) reads the same text out of the
+ * editor as documentToText reads out of the document, so highlight offsets
+ * and the saved body_text agree.
+ */
+
+// Textblocks that add nothing to the text while empty — the document
+// model's optional fields.
+export const OPTIONAL_TEXTBLOCKS: ReadonlySet<string> = new Set([
+  'quoteAttribution',
+  'tableCaption',
+  'boilerplateHeading',
+]);
+
+export const TABLE_CELL = 'tableCell';
+
+const textblock = (name: string, tag: string, className: string) =>
+  Node.create({
+    name,
+    group: 'block',
+    content: 'inline*',
+    defining: true,
+    parseHTML: () => [{ tag: `${tag}[data-block="${name}"]` }],
+    renderHTML: ({ HTMLAttributes }) => [
+      tag,
+      mergeAttributes(HTMLAttributes, { 'data-block': name, class: className }),
+      0,
+    ],
+  });
+
+const part = (name: string, tag: string, className: string, content: string) =>
+  Node.create({
+    name,
+    content,
+    defining: true,
+    parseHTML: () => [{ tag: `${tag}[data-block="${name}"]` }],
+    renderHTML: ({ HTMLAttributes }) => [
+      tag,
+      mergeAttributes(HTMLAttributes, { 'data-block': name, class: className }),
+      0,
+    ],
+  });
+
+const container = (
+  name: string,
+  tag: string,
+  className: string,
+  content: string,
+) =>
+  Node.create({
+    name,
+    group: 'block',
+    content,
+    isolating: true,
+    parseHTML: () => [{ tag: `${tag}[data-block="${name}"]` }],
+    renderHTML: ({ HTMLAttributes }) => [
+      tag,
+      mergeAttributes(HTMLAttributes, { 'data-block': name, class: className }),
+      0,
+    ],
+  });
+
+const TableRow = Node.create({
+  name: 'tableRow',
+  content: 'tableCell+',
+  addAttributes: () => ({
+    header: {
+      default: false,
+      parseHTML: (el) => el.getAttribute('data-header') === 'true',
+      renderHTML: (attrs) => ({ 'data-header': attrs.header ? 'true' : null }),
+    },
+  }),
+  parseHTML: () => [{ tag: 'div[data-block="tableRow"]' }],
+  renderHTML: ({ node, HTMLAttributes }) => [
+    'div',
+    mergeAttributes(HTMLAttributes, {
+      'data-block': 'tableRow',
+      class: `flex border-b last:border-b-0${node.attrs.header ? ' font-semibold bg-muted/40' : ''}`,
+    }),
+    0,
+  ],
+});
+
+// Cells hold a single line: Enter adds a row below, Tab moves on.
+const TableCell = Node.create({
+  name: TABLE_CELL,
+  content: 'text*',
+  marks: '',
+  parseHTML: () => [{ tag: 'div[data-block="tableCell"]' }],
+  renderHTML: ({ HTMLAttributes }) => [
+    'div',
+    mergeAttributes(HTMLAttributes, {
+      'data-block': TABLE_CELL,
+      class: 'flex-1 min-w-0 px-2 py-1 border-r last:border-r-0',
+    }),
+    0,
+  ],
+  addKeyboardShortcuts() {
+    return {
+      Enter: ({ editor }) => {
+        const { $from } = editor.state.selection;
+        if ($from.parent.type.name !== TABLE_CELL) return false;
+        const row = $from.node($from.depth - 1);
+        const after = $from.after($from.depth - 1);
+        const cells = Array.from({ length: row.childCount }, () =>
+          $from.parent.type.create(),
+        );
+        const tr = editor.state.tr.insert(after, row.type.create(null, cells));
+        editor.view.dispatch(
+          tr.setSelection(TextSelection.create(tr.doc, after + 2)),
+        );
+        return true;
+      },
+      Tab: ({ editor }) => {
+        const { $from } = editor.state.selection;
+        if ($from.parent.type.name !== TABLE_CELL) return false;
+        const next = Selection.findFrom(
+          editor.state.doc.resolve($from.after()),
+          1,
+          true,
+        );
+        if (next) editor.view.dispatch(editor.state.tr.setSelection(next));
+        return true;
+      },
+    };
+  },
+});
+
+export const VariantDocumentNodes = [
+  textblock('title', 'h1', 'text-xl font-bold'),
+  textblock('subtitle', 'p', 'text-base font-semibold text-muted-foreground'),
+  textblock('dateline', 'p', 'text-xs text-muted-foreground'),
+  textblock('lead', 'p', 'font-semibold'),
+  textblock('contact', 'p', 'rounded-md border px-3 py-2 text-sm'),
+  container('quote', 'blockquote', '', 'quoteText quoteAttribution'),
+  part('quoteText', 'p', '', 'inline*'),
+  part(
+    'quoteAttribution',
+    'p',
+    "text-right text-xs not-italic text-muted-foreground before:content-['—_']",
+    'inline*',
+  ),
+  container(
+    'dataTable',
+    'div',
+    'my-4 rounded-md border text-sm',
+    'tableCaption tableRow+',
+  ),
+  part(
+    'tableCaption',
+    'p',
+    'm-0 border-b px-2 py-1 text-xs text-muted-foreground',
+    'inline*',
+  ),
+  TableRow,
+  TableCell,
+  container(
+    'boilerplate',
+    'div',
+    'mt-6 border-t pt-3 text-sm',
+    'boilerplateHeading paragraph+',
+  ),
+  part('boilerplateHeading', 'h3', '', 'inline*'),
+];
+
+const inline = (text: string): JSONContent[] =>
+  text
+    .split('\n')
+    .flatMap((line, i): JSONContent[] => [
+      ...(i > 0 ? [{ type: 'hardBreak' }] : []),
+      ...(line === '' ? [] : [{ type: 'text', text: line }]),
+    ]);
+
+const node = (type: string, text: string): JSONContent => ({
+  type,
+  content: inline(text),
+});
+
+const cell = (text: string): JSONContent => ({
+  type: TABLE_CELL,
+  content:
+    text === '' ? [] : [{ type: 'text', text: text.replace(/\s/g, ' ') }],
+});
+
+export const blockToEditor = (b: DocumentBlock): JSONContent => {
+  switch (b.type) {
+    case 'heading':
+      return { ...node('heading', b.text), attrs: { level: 2 } };
+    case 'quote':
+      return {
+        type: 'quote',
+        content: [
+          node('quoteText', b.text),
+          node('quoteAttribution', b.attribution),
+        ],
+      };
+    case 'table': {
+      const rows = [
+        ...(b.header.length > 0 ? [{ header: true, cells: b.header }] : []),
+        ...b.rows.map((cells) => ({ header: false, cells })),
+      ];
+      return {
+        type: 'dataTable',
+        content: [
+          node('tableCaption', b.caption),
+          ...rows.map((r) => ({
+            type: 'tableRow',
+            attrs: { header: r.header },
+            content: r.cells.map(cell),
+          })),
+        ],
+      };
+    }
+    case 'boilerplate':
+      return {
+        type: 'boilerplate',
+        content: [
+          node('boilerplateHeading', b.heading),
+          ...b.text.split('\n\n').map((p) => node('paragraph', p)),
+        ],
+      };
+    default:
+      return node(b.type, b.text);
+  }
+};
+
+export const documentToEditorContent = (doc: VariantDocument): JSONContent => ({
+  type: 'doc',
+  content: doc.blocks.map(blockToEditor),
+});
+
+// Text of a textblock the way editorBodyText reads it: hard breaks as '\n'.
+const textOf = (block: ProseMirrorNode): string => {
+  let text = '';
+  block.forEach((child) => {
+    if (child.isText) text += child.text ?? '';
+    else if (child.type.name === 'hardBreak') text += '\n';
+  });
+  return text;
+};
+
+const children = (n: ProseMirrorNode): ProseMirrorNode[] => {
+  const out: ProseMirrorNode[] = [];
+  n.forEach((c) => out.push(c));
+  return out;
+};
+
+const TEXTBLOCK_TYPES: ReadonlySet<string> = new Set([
+  'title',
+  'subtitle',
+  'dateline',
+  'lead',
+  'heading',
+  'paragraph',
+  'contact',
+]);
+
+export const editorToDocument = (doc: ProseMirrorNode): VariantDocument => {
+  const blocks: DocumentBlock[] = [];
+  doc.forEach((n) => {
+    const name = n.type.name;
+    if (name === 'quote') {
+      const [text, attribution] = children(n);
+      blocks.push({
+        type: 'quote',
+        text: textOf(text),
+        attribution: textOf(attribution),
+      });
+    } else if (name === 'dataTable') {
+      const [caption, ...rows] = children(n);
+      const grid = rows.map((r) => ({
+        header: r.attrs.header === true,
+        cells: children(r).map(textOf),
+      }));
+      const header = grid[0]?.header ? grid[0].cells : [];
+      blocks.push({
+        type: 'table',
+        caption: textOf(caption),
+        header,
+        rows: grid.slice(header.length > 0 ? 1 : 0).map((r) => r.cells),
+      });
+    } else if (name === 'boilerplate') {
+      const [heading, ...paragraphs] = children(n);
+      blocks.push({
+        type: 'boilerplate',
+        heading: textOf(heading),
+        text: paragraphs.map(textOf).join('\n\n'),
+      });
+    } else if (TEXTBLOCK_TYPES.has(name)) {
+      blocks.push({
+        type: name as Exclude<
+          DocumentBlock['type'],
+          'quote' | 'table' | 'boilerplate'
+        >,
+        text: textOf(n),
+      });
+    }
+  });
+  return { version: 1, blocks };
+};
@@ -0,0 +1,392 @@
+import { useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import {
+  complianceRuleFormSchema,
+  EMPTY_COMPLIANCE_RULE,
+  RULE_KIND_LABEL,
+  RULE_MATCH_TYPE_LABEL,
+  ruleToFormValues,
+  type ComplianceRuleFormValues,
+} from '@/components/settings/ComplianceRuleForm.schema';
+import { useSaveComplianceRule } from '@/hooks/useComplianceRules';
+import {
+  CONTENT_SUB_TYPES,
+  CONTENT_TYPES,
+  DRUG_LIFECYCLE_STATUSES,
+  TARGET_AUDIENCES,
+  type LabeledOption,
+} from '@/lib/project-options';
+import { SEVERITY_LABEL, SEVERITY_ORDER } from '@/lib/severity';
+import type { ComplianceRuleRow } from '@/types/domain';
+
+type ScopeField =
+  'content_types' | 'content_sub_types' | 'audiences' | 'lifecycles';
+
+const SCOPE_FIELDS: {
+  name: ScopeField;
+  ja: string;
+  en: string;
+  options: readonly LabeledOption<string>[];
+}[] = [
+  {
+    name: 'content_types',
+    ja: 'コンテンツ種別',
+    en: 'Content type',
+    options: CONTENT_TYPES,
+  },
+  {
+    name: 'content_sub_types',
+    ja: 'サブタイプ',
+    en: 'Sub-type',
+    options: CONTENT_SUB_TYPES,
+  },
+  {
+    name: 'audiences',
+    ja: '対象読者',
+    en: 'Audience',
+    options: TARGET_AUDIENCES,
+  },
+  {
+    name: 'lifecycles',
+    ja: 'ライフサイクル',
+    en: 'Lifecycle',
+    options: DRUG_LIFECYCLE_STATUSES,
+  },
+];
+
+interface ComplianceRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null = create.
+  rule: ComplianceRuleRow | null;
+}
+
+export function ComplianceRuleDialog({
+  open,
+  onOpenChange,
+  rule,
+}: ComplianceRuleDialogProps) {
+  const { t } = useTranslation();
+  const save = useSaveComplianceRule();
+  const form = useForm<ComplianceRuleFormValues>({
+    resolver: zodResolver(complianceRuleFormSchema),
+    defaultValues: EMPTY_COMPLIANCE_RULE,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(rule ? ruleToFormValues(rule) : EMPTY_COMPLIANCE_RULE);
+  }, [open, rule, form]);
+
+  const kind = useWatch({ control: form.control, name: 'kind' });
+
+  const onSubmit = async ({
+    change_note,
+    ...values
+  }: ComplianceRuleFormValues) => {
+    try {
+      const result = await save.mutateAsync({
+        ruleId: rule?.id ?? null,
+        rule: {
+          ...values,
+          suggested_correction: values.suggested_correction.trim() || null,
+        },
+        changeNote: change_note,
+      });
+      toast.success(
+        t('settings.complianceRules.toasts.saved', {
+          version: result.rule_set_version,
+        }),
+      );
+      onOpenChange(false);
+    } catch {
+      toast.error(t('settings.complianceRules.toasts.saveFailed'));
+    }
+  };
+
+  const errorText = (message: string | undefined) =>
+    message ? t(message) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? (
+              <BilingualLabel ja="ルールを編集" en="Edit rule" />
+            ) : (
+              <BilingualLabel ja="ルールを追加" en="Add rule" />
+            )}
+          </DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            noValidate
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <BilingualLabel ja="種類" en="Kind" />
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(['prohibited', 'required'] as const).map((k) => (
+                          <SelectItem key={k} value={k}>
+                            <BilingualLabel {...RULE_KIND_LABEL[k]} />
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="match_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <BilingualLabel ja="照合方法" en="Match" />
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(['term', 'regex'] as const).map((m) => (
+                          <SelectItem key={m} value={m}>
+                            <BilingualLabel {...RULE_MATCH_TYPE_LABEL[m]} />
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="severity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      <BilingualLabel ja="重要度" en="Severity" />
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SEVERITY_ORDER.map((s) => (
+                          <SelectItem key={s} value={s}>
+                            <BilingualLabel {...SEVERITY_LABEL[s]} />
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="pattern"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel ja="語句・パターン" en="Term / pattern" />
+                  </FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" {...field} />
+                  </FormControl>
+                  <FormMessage>
+                    {errorText(form.formState.errors.pattern?.message)}
+                  </FormMessage>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="regulation_reference"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel ja="根拠規制" en="Regulation reference" />
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="薬機法 第66条" {...field} />
+                  </FormControl>
+                  <FormMessage>
+                    {errorText(
+                      form.formState.errors.regulation_reference?.message,
+                    )}
+                  </FormMessage>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="explanation_template"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {kind === 'prohibited' ? (
+                      <BilingualLabel
+                        ja="説明（{{MATCH}} は該当語句に置換）"
+                        en="Explanation ({{MATCH}} becomes the matched text)"
+                      />
+                    ) : (
+                      <BilingualLabel ja="説明" en="Explanation" />
+                    )}
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage>
+                    {errorText(
+                      form.formState.errors.explanation_template?.message,
+                    )}
+                  </FormMessage>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="suggested_correction"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="修正案（任意）"
+                      en="Suggested correction (optional)"
+                    />
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3 rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">
+                <BilingualLabel
+                  ja="適用範囲（未選択の項目はすべてに適用）"
+                  en="Scope (nothing selected = applies to all)"
+                />
+              </p>
+              {SCOPE_FIELDS.map((scope) => (
+                <FormField
+                  key={scope.name}
+                  control={form.control}
+                  name={scope.name}
+                  render={({ field }) => {
+                    const selected = field.value as string[];
+                    return (
+                      <FormItem>
+                        <FormLabel>
+                          <BilingualLabel ja={scope.ja} en={scope.en} />
+                        </FormLabel>
+                        <div className="flex flex-wrap gap-x-4 gap-y-2">
+                          {scope.options.map((o) => (
+                            <label
+                              key={o.value}
+                              className="flex items-center gap-1.5 text-sm"
+                            >
+                              <Checkbox
+                                checked={selected.includes(o.value)}
+                                onCheckedChange={(c) =>
+                                  field.onChange(
+                                    c === true
+                                      ? [...selected, o.value]
+                                      : selected.filter((v) => v !== o.value),
+                                  )
+                                }
+                              />
+                              <BilingualLabel ja={o.ja} en={o.en} />
+                            </label>
+                          ))}
+                        </div>
+                      </FormItem>
+                    );
+                  }}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="change_note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    <BilingualLabel
+                      ja="変更メモ（任意）"
+                      en="Change note (optional)"
+                    />
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={save.isPending}>
+                <BilingualLabel ja="保存して公開" en="Save & publish" />
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
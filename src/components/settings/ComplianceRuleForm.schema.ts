@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import {
+  CONTENT_SUB_TYPE_VALUES,
+  CONTENT_TYPE_VALUES,
+  DRUG_LIFECYCLE_VALUES,
+  TARGET_AUDIENCE_VALUES,
+} from '@/lib/project-options';
+import type { ComplianceRuleRow } from '@/types/domain';
+
+// Mirrors the compliance_rules CHECK constraints. The regex check uses the
+// browser's engine — the same one compliance-check runs — so a pattern that
+// saves here is one the deterministic pass can apply.
+export const complianceRuleFormSchema = z
+  .object({
+    kind: z.enum(['prohibited', 'required']),
+    match_type: z.enum(['term', 'regex']),
+    pattern: z
+      .string()
+      .trim()
+      .min(1, 'settings.complianceRules.errors.patternRequired')
+      .max(500, 'settings.complianceRules.errors.patternTooLong'),
+    severity: z.enum(['blocker', 'warning', 'note']),
+    regulation_reference: z
+      .string()
+      .trim()
+      .min(1, 'settings.complianceRules.errors.regulationRequired'),
+    explanation_template: z
+      .string()
+      .trim()
+      .min(1, 'settings.complianceRules.errors.explanationRequired'),
+    suggested_correction: z.string(),
+    content_types: z.array(z.enum(CONTENT_TYPE_VALUES)),
+    content_sub_types: z.array(z.enum(CONTENT_SUB_TYPE_VALUES)),
+    audiences: z.array(z.enum(TARGET_AUDIENCE_VALUES)),
+    lifecycles: z.array(z.enum(DRUG_LIFECYCLE_VALUES)),
+    active: z.boolean(),
+    change_note: z.string(),
+  })
+  .superRefine((v, ctx) => {
+    if (v.match_type !== 'regex') return;
+    try {
+      new RegExp(v.pattern, 'g');
+    } catch {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['pattern'],
+        message: 'settings.complianceRules.errors.invalidRegex',
+      });
+    }
+  });
+
+export type ComplianceRuleFormValues = z.infer<typeof complianceRuleFormSchema>;
+
+export const EMPTY_COMPLIANCE_RULE: ComplianceRuleFormValues = {
+  kind: 'prohibited',
+  match_type: 'term',
+  pattern: '',
+  severity: 'blocker',
+  regulation_reference: '',
+  explanation_template: '',
+  suggested_correction: '',
+  content_types: [],
+  content_sub_types: [],
+  audiences: [],
+  lifecycles: [],
+  active: true,
+  change_note: '',
+};
+
+export const RULE_KIND_LABEL = {
+  prohibited: { ja: '禁止表現', en: 'Prohibited' },
+  required: { ja: '必須表現', en: 'Required' },
+} as const;
+
+export const RULE_MATCH_TYPE_LABEL = {
+  term: { ja: '語句', en: 'Term' },
+  regex: { ja: '正規表現', en: 'Regex' },
+} as const;
+
+export function ruleToFormValues(
+  rule: ComplianceRuleRow,
+): ComplianceRuleFormValues {
+  return {
+    kind: rule.kind as ComplianceRuleFormValues['kind'],
+    match_type: rule.match_type as ComplianceRuleFormValues['match_type'],
+    pattern: rule.pattern,
+    severity: rule.severity as ComplianceRuleFormValues['severity'],
+    regulation_reference: rule.regulation_reference,
+    explanation_template: rule.explanation_template,
+    suggested_correction: rule.suggested_correction ?? '',
+    content_types:
+      rule.content_types as ComplianceRuleFormValues['content_types'],
+    content_sub_types:
+      rule.content_sub_types as ComplianceRuleFormValues['content_sub_types'],
+    audiences: rule.audiences as ComplianceRuleFormValues['audiences'],
+    lifecycles: rule.lifecycles as ComplianceRuleFormValues['lifecycles'],
+    active: rule.active,
+    change_note: '',
+  };
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { PencilIcon, PlusIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { ComplianceRuleDialog } from '@/components/settings/ComplianceRuleDialog';
+import {
+  RULE_KIND_LABEL,
+  RULE_MATCH_TYPE_LABEL,
+  ruleToFormValues,
+} from '@/components/settings/ComplianceRuleForm.schema';
+import {
+  useComplianceRules,
+  useLatestComplianceRuleSet,
+  useSaveComplianceRule,
+} from '@/hooks/useComplianceRules';
+import {
+  CONTENT_SUB_TYPES,
+  CONTENT_TYPES,
+  DRUG_LIFECYCLE_STATUSES,
+  TARGET_AUDIENCES,
+  type LabeledOption,
+} from '@/lib/project-options';
+import { SEVERITY_LABEL, SEVERITY_VARIANT } from '@/lib/severity';
+import type {
+  ComplianceRuleKind,
+  ComplianceRuleMatchType,
+  ComplianceRuleRow,
+  ComplianceSeverity,
+} from '@/types/domain';
+
+const SCOPE_OPTIONS: readonly LabeledOption<string>[] = [
+  ...CONTENT_TYPES,
+  ...CONTENT_SUB_TYPES,
+  ...TARGET_AUDIENCES,
+  ...DRUG_LIFECYCLE_STATUSES,
+];
+
+// Scope values across all four dimensions; empty = applies everywhere.
+function scopeLabels(rule: ComplianceRuleRow): LabeledOption<string>[] {
+  return [
+    ...rule.content_types,
+    ...rule.content_sub_types,
+    ...rule.audiences,
+    ...rule.lifecycles,
+  ].flatMap((value) => SCOPE_OPTIONS.filter((o) => o.value === value));
+}
+
+// Settings card for the firm-wide deterministic rule library. Every save —
+// including toggling a rule on or off — publishes a new rule-set version.
+export function ComplianceRuleLibrary() {
+  const { t } = useTranslation();
+  const { data: rules, isLoading } = useComplianceRules();
+  const { data: ruleSet } = useLatestComplianceRuleSet();
+  const save = useSaveComplianceRule();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ComplianceRuleRow | null>(null);
+
+  const openDialog = (rule: ComplianceRuleRow | null) => {
+    setEditing(rule);
+    setDialogOpen(true);
+  };
+
+  const toggleActive = async (rule: ComplianceRuleRow, active: boolean) => {
+    try {
+      const result = await save.mutateAsync({
+        ruleId: rule.id,
+        rule: {
+          ...ruleToFormValues(rule),
+          suggested_correction: rule.suggested_correction,
+          active,
+        },
+        changeNote: active ? 'Rule re-enabled' : 'Rule disabled',
+      });
+      toast.success(
+        t('settings.complianceRules.toasts.saved', {
+          version: result.rule_set_version,
+        }),
+      );
+    } catch {
+      toast.error(t('settings.complianceRules.toasts.saveFailed'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle>
+              <BilingualLabel
+                ja="コンプライアンスルール"
+                en="Compliance rules"
+              />
+            </CardTitle>
+            <CardDescription>
+              {ruleSet ? (
+                <BilingualLabel
+                  ja={`公開中のバージョン: v${ruleSet.version}`}
+                  en={`Published version: v${ruleSet.version}`}
+                />
+              ) : (
+                <BilingualLabel ja="未公開" en="Not yet published" />
+              )}
+            </CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => openDialog(null)}
+          >
+            <PlusIcon className="size-3" />
+            <BilingualLabel ja="ルールを追加" en="Add rule" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : !rules || rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            <BilingualLabel ja="ルールはありません" en="No rules yet" />
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {rules.map((rule) => {
+              const severity = rule.severity as ComplianceSeverity;
+              const scope = scopeLabels(rule);
+              return (
+                <li
+                  key={rule.id}
+                  className={
+                    'flex items-start gap-3 py-2 ' +
+                    (rule.active ? '' : 'opacity-60')
+                  }
+                >
+                  <Checkbox
+                    className="mt-1"
+                    aria-label={rule.pattern}
+                    checked={rule.active}
+                    disabled={save.isPending}
+                    onCheckedChange={(c) => toggleActive(rule, c === true)}
+                  />
+                  <div className="min-w-0 flex-1 space-y-1 text-sm">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-mono break-all">
+                        {rule.pattern}
+                      </span>
+                      <Badge variant={SEVERITY_VARIANT[severity]}>
+                        <BilingualLabel {...SEVERITY_LABEL[severity]} />
+                      </Badge>
+                      <Badge variant="outline" className="font-normal">
+                        <BilingualLabel
+                          {...RULE_KIND_LABEL[rule.kind as ComplianceRuleKind]}
+                        />
+                        {' · '}
+                        <BilingualLabel
+                          {...RULE_MATCH_TYPE_LABEL[
+                            rule.match_type as ComplianceRuleMatchType
+                          ]}
+                        />
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {rule.regulation_reference}
+                      {scope.map((o) => (
+                        <span key={o.value}>
+                          {' · '}
+                          <BilingualLabel ja={o.ja} en={o.en} />
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label={t('common.edit')}
+                    onClick={() => openDialog(rule)}
+                  >
+                    <PencilIcon className="size-3" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+      <ComplianceRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rule={editing}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { MailIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import {
+  useDisconnectMailbox,
+  useMailboxConnection,
+  useMailboxProviders,
+  useStartMailboxConnect,
+} from '@/hooks/useMailboxConnection';
+import {
+  MAILBOX_PROVIDER_LABEL,
+  type MailboxProviderName,
+} from '@/lib/mailbox';
+
+// The user's own mailbox, which deliveries they send go out from
+// (PRD §5.4). Without one, or once its grant is revoked, deliveries use
+// the managed address shown in the composer.
+export function MailboxConnectionCard() {
+  const { t } = useTranslation();
+  const { data: connection, isLoading } = useMailboxConnection();
+  const { data: providers, isLoading: providersLoading } =
+    useMailboxProviders();
+  const start = useStartMailboxConnect();
+  const disconnect = useDisconnectMailbox();
+
+  const connect = async (provider: MailboxProviderName) => {
+    try {
+      await start.mutateAsync({ provider });
+    } catch {
+      toast.error(t('settings.mailbox.toasts.connectFailed'));
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await disconnect.mutateAsync();
+      toast.success(t('settings.mailbox.toasts.disconnected'));
+    } catch {
+      toast.error(t('settings.mailbox.toasts.disconnectFailed'));
+    }
+  };
+
+  const connectButtons = (
+    <div className="flex flex-wrap gap-2">
+      {(providers ?? []).map((provider) => (
+        <Button
+          key={provider}
+          variant="outline"
+          size="sm"
+          disabled={start.isPending}
+          onClick={() => connect(provider)}
+        >
+          <MailIcon className="size-4" />
+          <BilingualLabel
+            ja={`${MAILBOX_PROVIDER_LABEL[provider].ja} を接続`}
+            en={`Connect ${MAILBOX_PROVIDER_LABEL[provider].en}`}
+          />
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <BilingualLabel ja="送信用メールボックス" en="Sending mailbox" />
+        </CardTitle>
+        <CardDescription>
+          <BilingualLabel
+            ja="接続すると、配信はあなたのメールアドレスから送信されます。未接続または接続が失効している場合は、ClearPress の送信用アドレスから送信されます。"
+            en="Once connected, deliveries you send go out from your own address. Without a connection, or if it has been revoked, they are sent from the ClearPress address."
+          />
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {isLoading || providersLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : connection ? (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{connection.email}</span>
+              <span className="text-muted-foreground">
+                <BilingualLabel
+                  {...MAILBOX_PROVIDER_LABEL[connection.provider]}
+                />
+              </span>
+              {connection.status === 'active' ? (
+                <Badge variant="secondary">
+                  <BilingualLabel ja="接続済み" en="Connected" />
+                </Badge>
+              ) : (
+                <Badge variant="destructive">
+                  <BilingualLabel ja="失効" en="Revoked" />
+                </Badge>
+              )}
+            </div>
+            {connection.status === 'revoked' && (
+              <p className="text-xs text-muted-foreground">
+                <BilingualLabel
+                  ja="アクセス権が取り消されたため、ClearPress の送信用アドレスから送信しています。再接続してください。"
+                  en="Access was revoked, so deliveries are being sent from the ClearPress address. Connect again to send as yourself."
+                />
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {connection.status === 'revoked' && connectButtons}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={disconnect.isPending}
+                onClick={remove}
+              >
+                <BilingualLabel ja="接続を解除" en="Disconnect" />
+              </Button>
+            </div>
+          </>
+        ) : providers && providers.length > 0 ? (
+          connectButtons
+        ) : (
+          <p className="text-muted-foreground">
+            <BilingualLabel
+              ja="この環境ではメールボックス接続が設定されていません。"
+              en="Mailbox connections are not set up in this environment."
+            />
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { useSaveSchedulingBlackout } from '@/hooks/useSchedulingRules';
+import {
+  jstWallclockToUtcIso,
+  utcIsoToJstWallclock,
+} from '@/lib/schedule-warnings';
+import type { SchedulingBlackout } from '@/types/domain';
+
+interface SchedulingBlackoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null = create.
+  blackout: SchedulingBlackout | null;
+}
+
+// Same limit as save_scheduling_blackout's blackout_label_invalid gate.
+const MAX_LABEL_LENGTH = 200;
+
+export function SchedulingBlackoutDialog({
+  open,
+  onOpenChange,
+  blackout,
+}: SchedulingBlackoutDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        {/* Mounted per opening, so the fields start from the saved window. */}
+        <BlackoutForm blackout={blackout} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BlackoutForm({
+  blackout,
+  onDone,
+}: {
+  blackout: SchedulingBlackout | null;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation();
+  const save = useSaveSchedulingBlackout();
+  const [label, setLabel] = useState(blackout?.label ?? '');
+  const [startsJst, setStartsJst] = useState(
+    blackout ? utcIsoToJstWallclock(blackout.starts_at) : '',
+  );
+  const [endsJst, setEndsJst] = useState(
+    blackout ? utcIsoToJstWallclock(blackout.ends_at) : '',
+  );
+
+  // datetime-local values compare correctly as strings.
+  const valid =
+    label.trim().length > 0 &&
+    startsJst !== '' &&
+    endsJst !== '' &&
+    endsJst > startsJst;
+
+  const handleSave = async () => {
+    try {
+      await save.mutateAsync({
+        blackoutId: blackout?.id ?? null,
+        label: label.trim(),
+        startsAt: jstWallclockToUtcIso(startsJst),
+        endsAt: jstWallclockToUtcIso(endsJst),
+        active: blackout?.active ?? true,
+      });
+      toast.success(t('settings.blackouts.toasts.saved'));
+      onDone();
+    } catch {
+      toast.error(t('settings.blackouts.toasts.saveFailed'));
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          {blackout ? (
+            <BilingualLabel ja="配信停止期間を編集" en="Edit blackout window" />
+          ) : (
+            <BilingualLabel ja="配信停止期間を追加" en="Add blackout window" />
+          )}
+        </DialogTitle>
+        <DialogDescription>
+          <BilingualLabel
+            ja="期間中の送信・予約には確認が求められます。"
+            en="Sends in this window ask for confirmation first."
+          />
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="blackout-label">
+          <BilingualLabel ja="名称" en="Label" />
+        </Label>
+        <Input
+          id="blackout-label"
+          value={label}
+          maxLength={MAX_LABEL_LENGTH}
+          placeholder="決算発表 / Earnings release"
+          onChange={(e) => setLabel(e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="blackout-starts-at">
+            <BilingualLabel ja="開始" en="Starts" />
+          </Label>
+          <Input
+            id="blackout-starts-at"
+            type="datetime-local"
+            value={startsJst}
+            onChange={(e) => setStartsJst(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="blackout-ends-at">
+            <BilingualLabel ja="終了" en="Ends" />
+          </Label>
+          <Input
+            id="blackout-ends-at"
+            type="datetime-local"
+            value={endsJst}
+            onChange={(e) => setEndsJst(e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        <BilingualLabel
+          ja="日本時間 (JST)。終了時刻は含みません。"
+          en="Japan Standard Time (JST). The end time itself is outside the window."
+        />
+      </p>
+
+      <DialogFooter>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={save.isPending || !valid}
+        >
+          <BilingualLabel ja="保存" en="Save" />
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { PencilIcon, PlusIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import { SchedulingBlackoutDialog } from '@/components/settings/SchedulingBlackoutDialog';
+import {
+  useSaveSchedulingBlackout,
+  useSchedulingBlackouts,
+} from '@/hooks/useSchedulingRules';
+import type { SchedulingBlackout } from '@/types/domain';
+
+// Settings card for the firm-wide blackout windows. Sends and schedules
+// that fall inside an active window carry the blackout_window warning;
+// unchecking a window retires it without deleting it.
+export function SchedulingBlackoutLibrary() {
+  const { t } = useTranslation();
+  const { data: blackouts, isLoading } = useSchedulingBlackouts();
+  const save = useSaveSchedulingBlackout();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SchedulingBlackout | null>(null);
+
+  const openDialog = (blackout: SchedulingBlackout | null) => {
+    setEditing(blackout);
+    setDialogOpen(true);
+  };
+
+  const toggleActive = async (
+    blackout: SchedulingBlackout,
+    active: boolean,
+  ) => {
+    try {
+      await save.mutateAsync({
+        blackoutId: blackout.id,
+        label: blackout.label,
+        startsAt: blackout.starts_at,
+        endsAt: blackout.ends_at,
+        active,
+      });
+      toast.success(t('settings.blackouts.toasts.saved'));
+    } catch {
+      toast.error(t('settings.blackouts.toasts.saveFailed'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle>
+              <BilingualLabel ja="配信停止期間" en="Blackout windows" />
+            </CardTitle>
+            <CardDescription>
+              <BilingualLabel
+                ja="決算発表日や休業日など、配信を避けたい期間です。"
+                en="Periods nothing should go out in, such as results days or office closures."
+              />
+            </CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => openDialog(null)}
+          >
+            <PlusIcon className="size-3" />
+            <BilingualLabel ja="期間を追加" en="Add window" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !blackouts || blackouts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            <BilingualLabel
+              ja="配信停止期間はありません"
+              en="No blackout windows yet"
+            />
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {blackouts.map((blackout) => (
+              <li
+                key={blackout.id}
+                className={
+                  'flex items-start gap-3 py-2 ' +
+                  (blackout.active ? '' : 'opacity-60')
+                }
+              >
+                <Checkbox
+                  className="mt-1"
+                  aria-label={blackout.label}
+                  checked={blackout.active}
+                  disabled={save.isPending}
+                  onCheckedChange={(c) => toggleActive(blackout, c === true)}
+                />
+                <div className="min-w-0 flex-1 space-y-1 text-sm">
+                  <div className="break-words">{blackout.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(blackout.starts_at).toLocaleString()} –{' '}
+                    {new Date(blackout.ends_at).toLocaleString()}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('common.edit')}
+                  onClick={() => openDialog(blackout)}
+                >
+                  <PencilIcon className="size-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      <SchedulingBlackoutDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        blackout={editing}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { BilingualLabel } from '@/components/shared/BilingualLabel';
+import {
+  useSaveSignoffPolicy,
+  useSignoffPolicies,
+} from '@/hooks/useSignoffPolicies';
+import {
+  SIGNOFF_ROLES,
+  SIGNOFF_ROLE_LABEL,
+  orderSignoffRoles,
+} from '@/lib/signoff';
+import type { SignoffRole } from '@/types/domain';
+
+interface SignoffPolicyEditorProps {
+  // Omitted = the firm-wide policy; set = that client's override.
+  clientId?: string;
+}
+
+// Which roles must sign an audit report before it finalizes. Each toggle
+// saves immediately; reports already being signed keep the roles their
+// current round started with.
+export function SignoffPolicyEditor({ clientId }: SignoffPolicyEditorProps) {
+  const { t } = useTranslation();
+  const { data: policies, isLoading } = useSignoffPolicies();
+  const save = useSaveSignoffPolicy();
+
+  const firm = policies?.find((p) => p.client_id === null);
+  const override = clientId
+    ? policies?.find((p) => p.client_id === clientId)
+    : undefined;
+  const inherits = clientId !== undefined && !override;
+  const roles = orderSignoffRoles((override ?? firm)?.roles ?? ['reviewer']);
+
+  const persist = async (next: SignoffRole[] | null) => {
+    try {
+      await save.mutateAsync({ clientId: clientId ?? null, roles: next });
+      toast.success(t('settings.signoffPolicy.toasts.saved'));
+    } catch {
+      toast.error(t('settings.signoffPolicy.toasts.saveFailed'));
+    }
+  };
+
+  const toggleRole = (role: SignoffRole, checked: boolean) =>
+    persist(
+      orderSignoffRoles(
+        checked ? [...roles, role] : roles.filter((r) => r !== role),
+      ),
+    );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <BilingualLabel ja="署名ポリシー" en="Sign-off policy" />
+        </CardTitle>
+        <CardDescription>
+          <BilingualLabel
+            ja="監査レポートの確定に必要な署名者の役割です。署名は表示順に行います。1人が複数の役割で署名することはできません。"
+            en="The roles that must sign an audit report before it finalizes, in signing order. One person cannot sign for more than one role."
+          />
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : (
+          <>
+            {clientId && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="signoff-inherit"
+                  checked={inherits}
+                  disabled={save.isPending}
+                  onCheckedChange={(c) => persist(c === true ? null : roles)}
+                />
+                <Label htmlFor="signoff-inherit">
+                  <BilingualLabel
+                    ja="事務所の既定ポリシーを使用"
+                    en="Use the firm default"
+                  />
+                </Label>
+              </div>
+            )}
+            <ul className="space-y-2">
+              {SIGNOFF_ROLES.map((role) => {
+                const checked = roles.includes(role);
+                const id = `signoff-role-${role}`;
+                return (
+                  <li key={role} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={checked}
+                      // At least one role must sign.
+                      disabled={
+                        inherits ||
+                        save.isPending ||
+                        (checked && roles.length === 1)
+                      }
+                      onCheckedChange={(c) => toggleRole(role, c === true)}
+                    />
+                    <Label htmlFor={id}>
+                      <BilingualLabel {...SIGNOFF_ROLE_LABEL[role]} />
+                    </Label>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
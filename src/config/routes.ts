@@ -4,6 +4,7 @@ import {
   Users,
   FolderKanban,
   MessageSquare,
+  FileDown,
   Settings,
 } from "lucide-react";
 
@@ -21,5 +22,6 @@ export const SIDEBAR_NAV: NavItem[] = [
   { path: "/clients",  labelJa: "クライアント",   labelEn: "Clients",   enabled: true, icon: Users },
   { path: "/projects", labelJa: "プロジェクト",   labelEn: "Projects",  enabled: true, icon: FolderKanban },
   { path: "/feedback", labelJa: "フィードバック", labelEn: "Feedback",  enabled: true, icon: MessageSquare },
+  { path: "/audit-export", labelJa: "監査エクスポート", labelEn: "Audit export", enabled: true, icon: FileDown },
   { path: "/settings", labelJa: "設定",           labelEn: "Settings",  enabled: true, icon: Settings },
 ];
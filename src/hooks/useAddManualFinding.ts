@@ -0,0 +1,80 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { complianceFindingsKey } from "@/hooks/useComplianceFindings";
+import {
+  anchorContextHash,
+  locateFinding,
+  paragraphIndexAt,
+  type FindingAnchor,
+} from "@/lib/finding-anchor";
+import type { ComplianceFindingRow, ComplianceSeverity } from "@/types/domain";
+
+export interface AddManualFindingInput {
+  variantId: string;
+  // The variant's stored body_text; the selection offsets refer to it.
+  bodyText: string;
+  start: number;
+  end: number;
+  sourceText: string;
+  severity: ComplianceSeverity;
+  regulationReference: string;
+  explanation: string;
+  suggestedCorrection: string | null;
+}
+
+// The selection's anchor in body_text. The editor's text matches body_text
+// for a saved body; if the two ever disagree, fall back to locating the
+// selected text the way unanchored LLM findings are located.
+function anchorSelection({
+  bodyText,
+  start,
+  end,
+  sourceText,
+}: AddManualFindingInput): FindingAnchor | null {
+  if (bodyText.slice(start, end) === sourceText) {
+    return {
+      start,
+      end,
+      context_hash: anchorContextHash(bodyText, start, end),
+    };
+  }
+  return locateFinding(bodyText, sourceText, null);
+}
+
+// Calls the add_manual_finding RPC (migration 0024). The finding is stored
+// with source 'manual', so record_compliance_check leaves it in place on
+// re-checks. Rejects with `source_text_not_in_body` when the body changed
+// under the selection.
+export function useAddManualFinding(contentItemId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation<ComplianceFindingRow, Error, AddManualFindingInput>({
+    mutationFn: async (input) => {
+      const anchor = anchorSelection(input);
+      const { data, error } = await supabase.rpc("add_manual_finding", {
+        p_variant_id: input.variantId,
+        p_finding: {
+          severity: input.severity,
+          source_text: input.sourceText,
+          paragraph_index: anchor
+            ? paragraphIndexAt(input.bodyText, anchor.start)
+            : null,
+          anchor_start: anchor?.start ?? null,
+          anchor_end: anchor?.end ?? null,
+          anchor_context_hash: anchor?.context_hash ?? null,
+          explanation: input.explanation,
+          regulation_reference: input.regulationReference,
+          suggested_correction: input.suggestedCorrection,
+        },
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (contentItemId) {
+        qc.invalidateQueries({
+          queryKey: complianceFindingsKey(contentItemId),
+        });
+      }
+    },
+  });
+}
@@ -47,6 +47,7 @@ describe("useApplyFix", () => {
       variantId: "v1",
       newBodyText: "edited body",
       newBodyHtml: null,
+      newBodyDoc: null,
       newCharCount: 11,
       newReadingTimeSeconds: 2,
     });
@@ -57,6 +58,7 @@ describe("useApplyFix", () => {
       p_finding_id: "f1",
       p_new_body_text: "edited body",
       p_new_body_html: null,
+      p_new_body_doc: null,
       p_new_char_count: 11,
       p_new_reading_time_seconds: 2,
     });
@@ -77,6 +79,7 @@ describe("useApplyFix", () => {
       variantId: "v1",
       newBodyText: "edited",
       newBodyHtml: "<p>edited</p>",
+      newBodyDoc: null,
       newCharCount: 6,
       newReadingTimeSeconds: 1,
     });
@@ -88,6 +91,37 @@ describe("useApplyFix", () => {
     );
   });
 
+  it("passes the structured document with the fix spliced in", async () => {
+    rpc.mockResolvedValueOnce({
+      data: { id: "f1", resolution_status: "fixed" },
+      error: null,
+    });
+
+    const { result } = renderHook(() => useApplyFix("ci1"), {
+      wrapper: makeWrapper(),
+    });
+
+    const doc = {
+      version: 1 as const,
+      blocks: [{ type: "paragraph" as const, text: "edited" }],
+    };
+    result.current.mutate({
+      findingId: "f1",
+      variantId: "v1",
+      newBodyText: "edited",
+      newBodyHtml: null,
+      newBodyDoc: doc,
+      newCharCount: 6,
+      newReadingTimeSeconds: 1,
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(rpc).toHaveBeenCalledWith(
+      "apply_fix",
+      expect.objectContaining({ p_new_body_doc: doc }),
+    );
+  });
+
   it("surfaces a finding_already_fixed P0004 as a mutation error", async () => {
     rpc.mockResolvedValueOnce({
       data: null,
@@ -103,6 +137,7 @@ describe("useApplyFix", () => {
       variantId: "v1",
       newBodyText: "x",
       newBodyHtml: null,
+      newBodyDoc: null,
       newCharCount: 1,
       newReadingTimeSeconds: 1,
     });
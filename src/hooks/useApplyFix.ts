@@ -2,12 +2,17 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
 import { variantsKey } from "@/hooks/useVariants";
 import { complianceFindingsKey } from "@/hooks/useComplianceFindings";
+import { variantRevisionsKey } from "@/hooks/useVariantRevisions";
+import type { VariantDocument } from "@/lib/variant-document";
 
 export interface ApplyFixInput {
   findingId: string;
   variantId: string;
   newBodyText: string;
   newBodyHtml: string | null;
+  // The structured document with the fix spliced in, or null for a
+  // plain-text variant.
+  newBodyDoc: VariantDocument | null;
   newCharCount: number;
   newReadingTimeSeconds: number;
 }
@@ -15,7 +20,8 @@ export interface ApplyFixInput {
 // Calls the apply_fix PL/pgSQL RPC: variant body update + finding flip to
 // 'fixed' in one transaction (I4). Bumps content_variants.updated_at, which
 // marks any OTHER findings on the same variant as stale — callers must
-// re-run compliance before sign-off (gate I3 #5).
+// re-run compliance before sign-off (gate I3 #5). Also records a
+// 'fix_applied' revision in the variant's history.
 //
 // Generated types mark p_new_body_html as non-nullable string but the SQL
 // parameter is `text` and accepts NULL; the cast below preserves the
@@ -27,6 +33,7 @@ export function useApplyFix(contentItemId: string | undefined) {
       findingId,
       newBodyText,
       newBodyHtml,
+      newBodyDoc,
       newCharCount,
       newReadingTimeSeconds,
     }) => {
@@ -34,13 +41,15 @@ export function useApplyFix(contentItemId: string | undefined) {
         p_finding_id: findingId,
         p_new_body_text: newBodyText,
         p_new_body_html: newBodyHtml as unknown as string,
+        p_new_body_doc: newBodyDoc,
         p_new_char_count: newCharCount,
         p_new_reading_time_seconds: newReadingTimeSeconds,
       });
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (_data, { variantId }) => {
+      qc.invalidateQueries({ queryKey: variantRevisionsKey(variantId) });
       if (contentItemId) {
         qc.invalidateQueries({ queryKey: variantsKey(contentItemId) });
         qc.invalidateQueries({
@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { ApprovedExample, BrandVoiceSample } from '@/types/domain';
+
+const approvedExamplesKey = (clientId: string) =>
+  ['approved-examples', clientId] as const;
+
+// Whole pool (active + archived) for the Brand Voice tab. Client-chosen rows
+// arrive via the client_feedback trigger (migration 0016); this hook only
+// lists them and lets staff archive/restore or hand-pick uploaded samples.
+export function useApprovedExamples(clientId: string | undefined) {
+  return useQuery({
+    queryKey: approvedExamplesKey(clientId ?? ''),
+    enabled: Boolean(clientId),
+    queryFn: async (): Promise<ApprovedExample[]> => {
+      const { data, error } = await supabase
+        .from('approved_examples')
+        .select('*')
+        .eq('client_id', clientId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useAddSampleAsApprovedExample(clientId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (sample: BrandVoiceSample): Promise<ApprovedExample> => {
+      if (!sample.content_text) {
+        throw new Error('Sample has no extracted text');
+      }
+      const { data: auth } = await supabase.auth.getUser();
+      if (!auth.user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('approved_examples')
+        .insert({
+          client_id: clientId,
+          source_type: 'brand_voice_sample',
+          brand_voice_sample_id: sample.id,
+          label: sample.filename,
+          body_text: sample.content_text,
+          created_by: auth.user.id,
+        })
+        .select('*')
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: approvedExamplesKey(clientId) });
+    },
+  });
+}
+
+export interface SetApprovedExampleActiveInput {
+  id: string;
+  active: boolean;
+}
+
+export function useSetApprovedExampleActive(clientId: string) {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      active,
+    }: SetApprovedExampleActiveInput): Promise<void> => {
+      const { error } = await supabase
+        .from('approved_examples')
+        .update({ active })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: approvedExamplesKey(clientId) });
+    },
+  });
+}
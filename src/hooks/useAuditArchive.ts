@@ -0,0 +1,114 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { auditReportsKey } from "@/hooks/useAuditReports";
+import { auditReportKey } from "@/hooks/useAuditReport";
+import { auditTrailEventsKey } from "@/hooks/useAuditTrailEvents";
+import { latestFinalizedAuditReportKey } from "@/hooks/useLatestFinalizedAuditReport";
+import type { AuditReport } from "@/types/domain";
+
+// Private bucket from migration 0028; objects are write-once.
+const AUDIT_ARCHIVE_BUCKET = "audit-archives";
+
+export type AuditArchiveRecord = Pick<
+  AuditReport,
+  | "archive_path"
+  | "archive_sha256"
+  | "archive_renderer"
+  | "archive_size_bytes"
+  | "archived_at"
+>;
+
+// Renders and records the archival PDF of a finalized report through the
+// archive-audit-report Edge Function. sign-audit-report normally does this
+// at finalize time; this covers a failed attempt and reports finalized
+// before archives existed. Idempotent server-side.
+export function useArchiveAuditReport(projectId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation<AuditArchiveRecord, Error, { auditReportId: string }>({
+    mutationFn: async ({ auditReportId }) => {
+      const { data, error } = await supabase.functions.invoke<{
+        data: AuditArchiveRecord | null;
+        error: { code: string; message: string } | null;
+      }>("archive-audit-report", {
+        body: { audit_report_id: auditReportId },
+      });
+      if (error) {
+        if (error instanceof FunctionsHttpError) {
+          try {
+            const body = await error.context.json();
+            const inner = body?.error?.message ?? body?.message;
+            if (inner) throw new Error(inner);
+          } catch (parseError) {
+            if (parseError instanceof Error && parseError.message) {
+              throw parseError;
+            }
+          }
+        }
+        throw error;
+      }
+      if (!data || data.error) {
+        throw new Error(data?.error?.message ?? "Archive request failed");
+      }
+      if (!data.data) throw new Error("Archive response missing data");
+      return data.data;
+    },
+    onSuccess: (_data, vars) => {
+      qc.invalidateQueries({ queryKey: auditReportKey(vars.auditReportId) });
+      if (!projectId) return;
+      qc.invalidateQueries({ queryKey: auditReportsKey(projectId) });
+      qc.invalidateQueries({
+        queryKey: latestFinalizedAuditReportKey(projectId),
+      });
+      qc.invalidateQueries({ queryKey: auditTrailEventsKey(projectId) });
+    },
+  });
+}
+
+async function sha256HexOfBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer(),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Downloads a report's archival PDF and saves it as
+// <report id>_v<version>.pdf. The bytes are re-hashed first: a stored
+// object that no longer matches archive_sha256 is reported, not saved.
+export function useDownloadAuditArchive() {
+  return useMutation<
+    void,
+    Error,
+    {
+      report: Pick<
+        AuditReport,
+        "report_id_display" | "version" | "archive_path" | "archive_sha256"
+      >;
+    }
+  >({
+    mutationFn: async ({ report }) => {
+      if (!report.archive_path || !report.archive_sha256) {
+        throw new Error("audit_archive_missing");
+      }
+      const { data, error } = await supabase.storage
+        .from(AUDIT_ARCHIVE_BUCKET)
+        .download(report.archive_path);
+      if (error) throw error;
+      const digest = await sha256HexOfBlob(data);
+      if (digest !== report.archive_sha256) {
+        throw new Error(
+          `Archive hash mismatch: expected ${report.archive_sha256}, got ${digest}`,
+        );
+      }
+      const url = URL.createObjectURL(data);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${report.report_id_display}_v${report.version ?? ""}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { verifyAuditChain, type AuditChainResult } from "@/lib/audit-chain";
+import type { AuditTrailEvent } from "@/types/domain";
+
+// Re-checks a project's audit trail hash chain in the browser (see
+// src/lib/audit-chain.ts) whenever the loaded events change. Keyed by the
+// newest hash, so a refetch that adds nothing reuses the last result.
+export function useAuditChainVerification(events: AuditTrailEvent[]) {
+  const head = events.reduce<AuditTrailEvent | null>(
+    (max, e) => (max && max.chain_seq >= e.chain_seq ? max : e),
+    null,
+  );
+  return useQuery<AuditChainResult>({
+    queryKey: [
+      "audit_chain",
+      head?.project_id ?? "",
+      events.length,
+      head?.event_hash ?? "",
+    ],
+    enabled: events.length > 0,
+    queryFn: () => verifyAuditChain(events),
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import type { AuditReportSignoff } from "@/lib/signoff";
+
+export const auditReportSignoffKey = (reportId: string) => [
+  "audit_report_signoff",
+  reportId,
+];
+
+// Sign-off slots for one report: required roles, active signatures, the
+// next role to sign, and whether the content changed since those
+// signatures (audit_report_signoff RPC, migration 0025).
+export function useAuditReportSignoff(reportId: string | undefined) {
+  return useQuery<AuditReportSignoff>({
+    queryKey: auditReportSignoffKey(reportId ?? ""),
+    enabled: Boolean(reportId),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("audit_report_signoff", {
+        p_audit_report_id: reportId!,
+      });
+      if (error) throw error;
+      return data as unknown as AuditReportSignoff;
+    },
+  });
+}
@@ -1,6 +1,12 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
-import type { AuditReport } from "@/types/domain";
+import type { AuditReport, AuditSignature } from "@/types/domain";
+
+// Each report carries just enough of its signatures to count sign-off
+// progress; useAuditReport loads the full rows.
+export interface AuditReportListItem extends AuditReport {
+  signatures: Pick<AuditSignature, "signoff_role" | "invalidated_at">[];
+}
 
 export const auditReportsKey = (projectId: string) => [
   "audit_reports",
@@ -9,13 +15,15 @@ export const auditReportsKey = (projectId: string) => [
 
 // List all audit reports for a project, newest first.
 export function useAuditReports(projectId: string | undefined) {
-  return useQuery<AuditReport[]>({
+  return useQuery<AuditReportListItem[]>({
     queryKey: auditReportsKey(projectId ?? ""),
     enabled: Boolean(projectId),
     queryFn: async () => {
       const { data, error } = await supabase
         .from("audit_reports")
-        .select("*")
+        .select(
+          "*, signatures:audit_signatures(signoff_role, invalidated_at)",
+        )
         .eq("project_id", projectId!)
         .order("created_at", { ascending: false });
       if (error) throw error;
@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { deliveriesForProjectKey } from '@/hooks/useDeliveriesForProject';
+import { auditTrailEventsKey } from '@/hooks/useAuditTrailEvents';
+
+export interface CancelDeliveryInput {
+  deliveryId: string;
+  reason: string;
+}
+
+// Calls the cancel_delivery RPC (migration 0034). Only a scheduled
+// delivery can be cancelled; the reason is required and goes into the
+// delivery_cancelled audit event.
+export function useCancelDelivery(projectId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation<unknown, Error, CancelDeliveryInput>({
+    mutationFn: async ({ deliveryId, reason }) => {
+      const { data, error } = await supabase.rpc('cancel_delivery', {
+        p_delivery_id: deliveryId,
+        p_reason: reason,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (!projectId) return;
+      qc.invalidateQueries({ queryKey: deliveriesForProjectKey(projectId) });
+      qc.invalidateQueries({ queryKey: auditTrailEventsKey(projectId) });
+    },
+  });
+}
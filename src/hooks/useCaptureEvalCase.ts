@@ -0,0 +1,29 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { Json } from '@/types/database';
+import type { EvalCase } from '@/lib/compliance-eval/corpus';
+
+export interface CaptureEvalCaseInput {
+  variantId: string;
+  evalCase: EvalCase;
+}
+
+// Stores a labelled production case for the compliance evaluation set
+// (compliance_eval_cases, migration 0023). Rejects with `body_changed` when
+// the variant was edited after the case was built — the label offsets
+// would no longer point at the flagged text.
+export function useCaptureEvalCase() {
+  return useMutation<string, Error, CaptureEvalCaseInput>({
+    mutationFn: async ({ variantId, evalCase }) => {
+      const { data, error } = await supabase.rpc(
+        'capture_compliance_eval_case',
+        {
+          p_variant_id: variantId,
+          p_case: evalCase as unknown as Json,
+        },
+      );
+      if (error) throw error;
+      return data;
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { parseEml, type ParsedEml } from "@/lib/eml";
+
+// Written by the capture email transport (EMAIL_TRANSPORT=capture,
+// migration 0032) as <UTC timestamp>_<idempotency key>.eml.
+const EMAIL_CAPTURE_BUCKET = "email-capture";
+
+export interface CapturedEmailEntry {
+  name: string;
+  createdAt: string | null;
+  sizeBytes: number | null;
+}
+
+// Newest first. The dev inbox polls so a send shows up without a reload.
+export function useCapturedEmails() {
+  return useQuery({
+    queryKey: ["captured-emails"],
+    refetchInterval: 5000,
+    queryFn: async (): Promise<CapturedEmailEntry[]> => {
+      const { data, error } = await supabase.storage
+        .from(EMAIL_CAPTURE_BUCKET)
+        .list("", {
+          limit: 200,
+          sortBy: { column: "name", order: "desc" },
+        });
+      if (error) throw error;
+      return (data ?? [])
+        .filter((o) => o.name.endsWith(".eml"))
+        .map((o) => ({
+          name: o.name,
+          createdAt: o.created_at ?? null,
+          sizeBytes:
+            typeof o.metadata?.size === "number" ? o.metadata.size : null,
+        }));
+    },
+  });
+}
+
+export function useCapturedEmail(name: string | null) {
+  return useQuery({
+    queryKey: ["captured-email", name],
+    enabled: name !== null,
+    queryFn: async (): Promise<{ raw: string; parsed: ParsedEml }> => {
+      const { data, error } = await supabase.storage
+        .from(EMAIL_CAPTURE_BUCKET)
+        .download(name!);
+      if (error) throw error;
+      const raw = await data.text();
+      return { raw, parsed: parseEml(raw) };
+    },
+  });
+}
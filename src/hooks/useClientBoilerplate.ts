@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type {
+  ClientBoilerplateBlock,
+  ClientBoilerplateVersion,
+} from '@/types/domain';
+import type { Json } from '@/types/database';
+import type { BoilerplateKind } from '@/lib/client-boilerplate';
+
+const blocksKey = (clientId: string) =>
+  ['client-boilerplate', clientId] as const;
+const versionsKey = (blockId: string) =>
+  ['client-boilerplate-versions', blockId] as const;
+
+// The client's managed blocks, active and retired, oldest first — the order
+// generate-variants appends blocks of the same kind in.
+export function useClientBoilerplate(clientId: string | undefined) {
+  return useQuery({
+    queryKey: blocksKey(clientId ?? ''),
+    enabled: Boolean(clientId),
+    queryFn: async (): Promise<ClientBoilerplateBlock[]> => {
+      const { data, error } = await supabase
+        .from('client_boilerplate_blocks')
+        .select('*')
+        .eq('client_id', clientId!)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+// Every approved version of one block, newest first.
+export function useClientBoilerplateVersions(blockId: string | undefined) {
+  return useQuery({
+    queryKey: versionsKey(blockId ?? ''),
+    enabled: Boolean(blockId),
+    queryFn: async (): Promise<ClientBoilerplateVersion[]> => {
+      const { data, error } = await supabase
+        .from('client_boilerplate_versions')
+        .select('*')
+        .eq('block_id', blockId!)
+        .order('version', { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+export interface ClientBoilerplateInput {
+  kind: BoilerplateKind;
+  language: 'ja' | 'en';
+  heading: string;
+  body: string;
+  content_types: string[];
+  active: boolean;
+}
+
+export interface SaveClientBoilerplateInput {
+  blockId: string | null;
+  block: ClientBoilerplateInput;
+  changeNote?: string;
+}
+
+export interface SaveClientBoilerplateResult {
+  block_id: string;
+  version: number;
+}
+
+// save_client_boilerplate (migration 0031) writes the block and, when its
+// text or scope changed, the next approved version; generation and the
+// compliance check use it from then on.
+export function useSaveClientBoilerplate(clientId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    SaveClientBoilerplateResult,
+    Error,
+    SaveClientBoilerplateInput
+  >({
+    mutationFn: async ({ blockId, block, changeNote }) => {
+      const { data, error } = await supabase.rpc('save_client_boilerplate', {
+        p_block_id: blockId as unknown as string,
+        p_client_id: clientId,
+        p_block: block as unknown as Json,
+        p_change_note: changeNote ?? '',
+      });
+      if (error) throw error;
+      return data as unknown as SaveClientBoilerplateResult;
+    },
+    onSuccess: (result) => {
+      qc.invalidateQueries({ queryKey: blocksKey(clientId) });
+      qc.invalidateQueries({ queryKey: versionsKey(result.block_id) });
+    },
+  });
+}
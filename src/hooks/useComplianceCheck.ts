@@ -17,6 +17,7 @@ export interface ComplianceCheckError {
 export interface ComplianceCheckResult {
   findings_by_variant: Record<string, ComplianceFindingRow[]>;
   prompt_version: string;
+  rule_set_version: number;
 }
 
 export interface ComplianceCheckInput {
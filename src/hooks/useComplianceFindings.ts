@@ -1,5 +1,7 @@
+import { useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
+import { resolveFindingAnchor, type ResolvedAnchor } from '@/lib/finding-anchor';
 import type { ComplianceFindingRow, ContentVariant } from '@/types/domain';
 
 export const complianceFindingsKey = (contentItemId: string) =>
@@ -7,45 +9,63 @@ export const complianceFindingsKey = (contentItemId: string) =>
 
 export interface ComplianceFindingWithStale extends ComplianceFindingRow {
   is_stale: boolean;
+  // The stored anchor resolved against the variant's current body_text.
+  anchor: ResolvedAnchor;
 }
 
 /**
  * Loads all compliance findings for the variants belonging to a content_item
  * and decorates each with `is_stale = variant.updated_at > finding.created_at`
  * (D10 — without a schema change, the UI surfaces "needs re-check" once a
- * user edits the body after findings were computed).
+ * user edits the body after findings were computed), and with `anchor`, the
+ * finding's span re-located in the current body (orphaned when it can no
+ * longer be identified). Manual findings are never stale: a re-check does
+ * not recreate them, so their anchor is what says whether they still apply.
  */
 export function useComplianceFindings(
   contentItemId: string | undefined,
   variants: ContentVariant[] | undefined,
 ) {
   const variantIds = (variants ?? []).map((v) => v.id);
+  // Decorated in `select` rather than the queryFn so a body edit, which
+  // refetches the variants but not the findings, still re-derives staleness
+  // and anchors against the new body.
+  const decorate = useCallback(
+    (rows: ComplianceFindingRow[]) => {
+      const variantById = new Map((variants ?? []).map((v) => [v.id, v]));
+
+      const byVariant: Record<string, ComplianceFindingWithStale[]> = {};
+      for (const v of variants ?? []) {
+        byVariant[v.id] = [];
+      }
+      for (const f of rows) {
+        const variant = variantById.get(f.variant_id);
+        const isStale =
+          variant && f.source !== 'manual'
+            ? variant.updated_at > f.created_at
+            : false;
+        const anchor: ResolvedAnchor = variant
+          ? resolveFindingAnchor(variant.body_text, f)
+          : { status: 'orphaned' };
+        const list = byVariant[f.variant_id] ?? [];
+        list.push({ ...f, is_stale: isStale, anchor });
+        byVariant[f.variant_id] = list;
+      }
+      return byVariant;
+    },
+    [variants],
+  );
   return useQuery({
     queryKey: [...complianceFindingsKey(contentItemId ?? ''), variantIds],
     enabled: Boolean(contentItemId) && variantIds.length > 0,
-    queryFn: async (): Promise<Record<string, ComplianceFindingWithStale[]>> => {
+    queryFn: async (): Promise<ComplianceFindingRow[]> => {
       const { data, error } = await supabase
         .from('compliance_findings')
         .select('*')
         .in('variant_id', variantIds);
       if (error) throw error;
-
-      const variantUpdatedAt = new Map(
-        (variants ?? []).map((v) => [v.id, v.updated_at]),
-      );
-
-      const byVariant: Record<string, ComplianceFindingWithStale[]> = {};
-      for (const id of variantIds) {
-        byVariant[id] = [];
-      }
-      for (const f of data ?? []) {
-        const variantTs = variantUpdatedAt.get(f.variant_id);
-        const isStale = variantTs ? variantTs > f.created_at : false;
-        const list = byVariant[f.variant_id] ?? [];
-        list.push({ ...f, is_stale: isStale });
-        byVariant[f.variant_id] = list;
-      }
-      return byVariant;
+      return data ?? [];
     },
+    select: decorate,
   });
 }
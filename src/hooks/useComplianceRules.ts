@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type {
+  ComplianceRuleKind,
+  ComplianceRuleMatchType,
+  ComplianceRuleRow,
+  ComplianceRuleSetVersion,
+  ComplianceSeverity,
+} from '@/types/domain';
+import type { Json } from '@/types/database';
+import {
+  ComplianceRuleSetSchema,
+  type ComplianceRuleSet,
+} from '@/lib/prompts/compliance';
+
+const RULES_KEY = ['compliance-rules'] as const;
+const RULE_SET_VERSION_KEY = ['compliance-rule-set-version'] as const;
+const RULE_SET_KEY = ['compliance-rule-set'] as const;
+
+// Working copy, active and retired, in the order the published snapshot
+// uses.
+export function useComplianceRules() {
+  return useQuery({
+    queryKey: RULES_KEY,
+    queryFn: async (): Promise<ComplianceRuleRow[]> => {
+      const { data, error } = await supabase
+        .from('compliance_rules')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+// Latest published snapshot header (the version compliance-check applies).
+export function useLatestComplianceRuleSet() {
+  return useQuery({
+    queryKey: RULE_SET_VERSION_KEY,
+    queryFn: async (): Promise<Omit<
+      ComplianceRuleSetVersion,
+      'rules'
+    > | null> => {
+      const { data, error } = await supabase
+        .from('compliance_rule_set_versions')
+        .select(
+          'version, change_note, created_at, created_by, created_by_name_snapshot',
+        )
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Latest published snapshot with its rules, parsed the way compliance-check
+// parses it. Feeds the editor's live deterministic lint.
+export function useComplianceRuleSet() {
+  return useQuery({
+    queryKey: RULE_SET_KEY,
+    queryFn: async (): Promise<ComplianceRuleSet | null> => {
+      const { data, error } = await supabase
+        .from('compliance_rule_set_versions')
+        .select('version, rules')
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? ComplianceRuleSetSchema.parse(data) : null;
+    },
+  });
+}
+
+export interface ComplianceRuleInput {
+  kind: ComplianceRuleKind;
+  match_type: ComplianceRuleMatchType;
+  pattern: string;
+  severity: ComplianceSeverity;
+  regulation_reference: string;
+  explanation_template: string;
+  suggested_correction: string | null;
+  content_types: string[];
+  content_sub_types: string[];
+  audiences: string[];
+  lifecycles: string[];
+  active: boolean;
+}
+
+export interface SaveComplianceRuleInput {
+  ruleId: string | null;
+  rule: ComplianceRuleInput;
+  changeNote?: string;
+}
+
+export interface SaveComplianceRuleResult {
+  rule_id: string;
+  rule_set_version: number;
+}
+
+// save_compliance_rule writes the rule and publishes the next rule-set
+// version in one transaction; the new version applies from the next
+// compliance check.
+export function useSaveComplianceRule() {
+  const qc = useQueryClient();
+  return useMutation<SaveComplianceRuleResult, Error, SaveComplianceRuleInput>({
+    mutationFn: async ({ ruleId, rule, changeNote }) => {
+      const { data, error } = await supabase.rpc('save_compliance_rule', {
+        p_rule_id: ruleId as unknown as string,
+        p_rule: rule as unknown as Json,
+        p_change_note: changeNote ?? '',
+      });
+      if (error) throw error;
+      return data as unknown as SaveComplianceRuleResult;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: RULES_KEY });
+      qc.invalidateQueries({ queryKey: RULE_SET_VERSION_KEY });
+      qc.invalidateQueries({ queryKey: RULE_SET_KEY });
+    },
+  });
+}
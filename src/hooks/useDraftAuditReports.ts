@@ -5,7 +5,8 @@ import type { DraftAuditItem } from '@/lib/dashboard-metrics';
 const KEY = ['audit_reports_draft'] as const;
 
 // All other audit hooks are project-scoped; the dashboard needs the
-// cross-project set of assembled-but-unsigned (status='draft') reports.
+// cross-project set of assembled reports still awaiting signatures
+// (status 'draft' or 'partially_signed').
 interface Row {
   id: string;
   project_id: string;
@@ -21,7 +22,7 @@ export function useDraftAuditReports(options?: { enabled?: boolean }) {
       const { data, error } = await supabase
         .from('audit_reports')
         .select('id, project_id, report_id_display, projects(name)')
-        .eq('status', 'draft')
+        .in('status', ['draft', 'partially_signed'])
         .order('created_at', { ascending: false });
       if (error) throw error;
       const rows = (data ?? []) as unknown as Row[];
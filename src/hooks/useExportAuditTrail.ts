@@ -0,0 +1,69 @@
+import { useMutation } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import type {
+  AuditTrailExportFormat,
+  AuditTrailExportRequest,
+} from "@/lib/audit-trail-export";
+
+export interface AuditTrailExportResult {
+  filename: string;
+  sha256: string;
+  eventCount: number;
+}
+
+const MIME: Record<AuditTrailExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  jsonl: "application/x-ndjson",
+  pdf: "application/pdf",
+};
+
+// Runs the export-audit-trail Edge Function and saves the file it returns.
+// The server records an audit_trail_exported event (with the file's
+// SHA-256) before responding, so a successful download is always on the
+// record.
+export function useExportAuditTrail() {
+  return useMutation<AuditTrailExportResult, Error, AuditTrailExportRequest>({
+    mutationFn: async (request) => {
+      const { data, error, response } = await supabase.functions.invoke<Blob>(
+        "export-audit-trail",
+        { body: request },
+      );
+      if (error) {
+        if (error instanceof FunctionsHttpError) {
+          try {
+            const body = await error.context.json();
+            const inner = body?.error?.message ?? body?.message;
+            if (inner) throw new Error(inner);
+          } catch (parseError) {
+            if (parseError instanceof Error && parseError.message) {
+              throw parseError;
+            }
+          }
+        }
+        throw error;
+      }
+      if (!(data instanceof Blob)) {
+        throw new Error("Export response missing file");
+      }
+
+      const disposition = response?.headers.get("Content-Disposition") ?? "";
+      const filename =
+        disposition.match(/filename="([^"]+)"/)?.[1] ??
+        `audit-trail.${request.format}`;
+      const blob = new Blob([data], { type: MIME[request.format] });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      return {
+        filename,
+        sha256: response?.headers.get("X-Export-Sha256") ?? "",
+        eventCount: Number(response?.headers.get("X-Export-Event-Count") ?? 0),
+      };
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import {
+  buildEvidenceBundle,
+  type BundleKey,
+  type BundleReport,
+  type EvidenceBundle,
+} from "@/lib/evidence-bundle/format";
+
+const REPORT_COLUMNS =
+  "id, project_id, report_id_display, version, status, previous_version_id, created_at, finalized_at, reviewer_comments, signoff_roles, report_snapshot";
+
+async function fetchReport(id: string): Promise<BundleReport> {
+  const { data, error } = await supabase
+    .from("audit_reports")
+    .select(REPORT_COLUMNS)
+    .eq("id", id)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Gathers one report, its previous_version_id chain, every signature on
+// them, the keys those signatures name and the project's full audit trail
+// into an evidence bundle (src/lib/evidence-bundle/format.ts). Read-only:
+// nothing is recorded server-side, the bundle is assembled in the browser.
+export function useExportEvidenceBundle() {
+  return useMutation<EvidenceBundle, Error, { auditReportId: string }>({
+    mutationFn: async ({ auditReportId }) => {
+      const reports: BundleReport[] = [];
+      let nextId: string | null = auditReportId;
+      while (nextId && !reports.some((r) => r.id === nextId)) {
+        const report = await fetchReport(nextId);
+        reports.push(report);
+        nextId = report.previous_version_id;
+      }
+      const projectId = reports[0].project_id;
+
+      const { data: signatures, error: sigError } = await supabase
+        .from("audit_signatures")
+        .select("*")
+        .in(
+          "audit_report_id",
+          reports.map((r) => r.id),
+        )
+        .order("signed_at", { ascending: true });
+      if (sigError) throw sigError;
+
+      const keyIds = [
+        ...new Set(signatures.flatMap((s) => (s.key_id ? [s.key_id] : []))),
+      ];
+      const keys: BundleKey[] = [];
+      if (keyIds.length > 0) {
+        const { data, error } = await supabase
+          .from("audit_signing_keys")
+          .select("*")
+          .in("key_id", keyIds);
+        if (error) throw error;
+        for (const k of data) {
+          keys.push({
+            kty: "OKP",
+            crv: "Ed25519",
+            kid: k.key_id,
+            x: k.public_key,
+            created_at: k.created_at,
+            retired_at: k.retired_at,
+          });
+        }
+      }
+
+      const { data: auditTrail, error: trailError } = await supabase
+        .from("audit_trail_events")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("chain_seq", { ascending: true });
+      if (trailError) throw trailError;
+
+      const { data: project, error: projectError } = await supabase
+        .from("projects")
+        .select("id, name, client:clients(name)")
+        .eq("id", projectId)
+        .single();
+      if (projectError) throw projectError;
+
+      return buildEvidenceBundle({
+        project: {
+          id: project.id,
+          name: project.name,
+          client_name: project.client?.name ?? null,
+        },
+        reports,
+        signatures,
+        keys,
+        auditTrail,
+        generatedAt: new Date().toISOString(),
+      });
+    },
+  });
+}
+
+// Saves a bundle as evidence-<report id>.json.
+export function downloadEvidenceBundle(
+  bundle: EvidenceBundle,
+  reportIdDisplay: string,
+) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `evidence-${reportIdDisplay}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { variantsKey } from '@/hooks/useVariants';
+import { variantRevisionsKey } from '@/hooks/useVariantRevisions';
 import type { ContentVariant } from '@/types/domain';
 
 export interface GenerateVariantsError {
@@ -71,7 +72,10 @@ export function useGenerateVariants(contentItemId: string | undefined) {
       }
       return body.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      for (const v of data.variants) {
+        qc.invalidateQueries({ queryKey: variantRevisionsKey(v.id) });
+      }
       if (contentItemId) {
         qc.invalidateQueries({ queryKey: variantsKey(contentItemId) });
       }
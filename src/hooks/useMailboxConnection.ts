@@ -0,0 +1,128 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import type { MailboxProviderName } from "@/lib/mailbox";
+
+// mailbox_connections (migration 0033) minus the encrypted refresh token,
+// which authenticated users cannot select.
+export interface MailboxConnection {
+  id: string;
+  user_id: string;
+  provider: MailboxProviderName;
+  email: string;
+  display_name: string | null;
+  status: "active" | "revoked";
+  connected_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  last_error: string | null;
+}
+
+export const mailboxConnectionKey = ["mailbox_connection"] as const;
+export const mailboxProvidersKey = ["mailbox_providers"] as const;
+
+const PUBLIC_COLUMNS =
+  "id, user_id, provider, email, display_name, status, connected_at, last_used_at, revoked_at, last_error";
+
+// The signed-in user's own connection (RLS returns no one else's), or
+// null when they send from the managed address.
+export function useMailboxConnection() {
+  return useQuery<MailboxConnection | null>({
+    queryKey: mailboxConnectionKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("mailbox_connections")
+        .select(PUBLIC_COLUMNS)
+        .maybeSingle();
+      if (error) throw error;
+      return (data as MailboxConnection | null) ?? null;
+    },
+  });
+}
+
+// The providers this deployment has OAuth credentials for.
+export function useMailboxProviders() {
+  return useQuery<MailboxProviderName[]>({
+    queryKey: mailboxProvidersKey,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const data = await invokeMailboxConnect<{
+        providers: MailboxProviderName[];
+      }>({ action: "providers" });
+      return data.providers;
+    },
+  });
+}
+
+// Sends the browser to the provider's consent screen; it comes back to
+// /settings/mailbox/callback (MailboxCallbackPage).
+export function useStartMailboxConnect() {
+  return useMutation<void, Error, { provider: MailboxProviderName }>({
+    mutationFn: async ({ provider }) => {
+      const data = await invokeMailboxConnect<{ authorize_url: string }>({
+        action: "start",
+        provider,
+      });
+      window.location.assign(data.authorize_url);
+    },
+  });
+}
+
+export function useCompleteMailboxConnect() {
+  const qc = useQueryClient();
+  return useMutation<MailboxConnection, Error, { code: string; state: string }>(
+    {
+      mutationFn: async ({ code, state }) => {
+        const data = await invokeMailboxConnect<{
+          connection: MailboxConnection;
+        }>({ action: "complete", code, state });
+        return data.connection;
+      },
+      onSuccess: (connection) => {
+        qc.setQueryData(mailboxConnectionKey, connection);
+      },
+    },
+  );
+}
+
+export function useDisconnectMailbox() {
+  const qc = useQueryClient();
+  return useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await invokeMailboxConnect<{ disconnected: boolean }>({
+        action: "disconnect",
+      });
+    },
+    onSuccess: () => {
+      qc.setQueryData(mailboxConnectionKey, null);
+    },
+  });
+}
+
+async function invokeMailboxConnect<T>(
+  body: Record<string, unknown>,
+): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<{
+    data: T | null;
+    error: { code: string; message: string } | null;
+  }>("mailbox-connect", { body });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      try {
+        const payload = await error.context.json();
+        const inner = payload?.error?.message ?? payload?.message;
+        if (inner) throw new Error(inner);
+      } catch (parseError) {
+        if (parseError instanceof Error && parseError.message) {
+          throw parseError;
+        }
+      }
+    }
+    throw error;
+  }
+  if (!data || data.error) {
+    throw new Error(data?.error?.message ?? "mailbox-connect request failed");
+  }
+  if (!data.data) throw new Error("mailbox-connect response missing data");
+  return data.data;
+}
@@ -1,5 +1,6 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
+import { auditTrailEventsKey } from '@/hooks/useAuditTrailEvents';
 import type { Json } from '@/types/database';
 import type {
   BriefQuote,
@@ -13,6 +14,7 @@ import type {
   ProjectSummary,
   ProjectUrgency,
   TargetAudience,
+  VariationAxis,
 } from '@/types/domain';
 
 const PROJECTS_KEY = ['projects'] as const;
@@ -82,6 +84,7 @@ export interface CreateProjectInput {
   length_target_chars: number | null;
   enforce_hard_cap: boolean;
   variant_count: number;
+  variation_axis: VariationAxis;
   brief_free_text: string;
   brief_key_messages: string[];
   brief_quotes: BriefQuote[];
@@ -136,6 +139,7 @@ export function useCreateProject() {
           length_target_chars: input.length_target_chars,
           enforce_hard_cap: input.enforce_hard_cap,
           variant_count: input.variant_count,
+          variation_axis: input.variation_axis,
         })
         .select('*')
         .single();
@@ -154,3 +158,40 @@ export function useCreateProject() {
     },
   });
 }
+
+export interface ProjectSchedulingRulesInput {
+  embargoLiftAt: string | null;
+  embargoLabel: string;
+  embargoEnforced: boolean;
+  marketHoursSensitive: boolean;
+}
+
+// Calls set_project_scheduling_rules (migration 0036), which records the
+// change as scheduling_rules_updated. Rejects with
+// `embargo_conflicts_scheduled` when enforcing would strand deliveries
+// already scheduled before the lift, or catch a send-now delivery still
+// being sent (migration 0042). Generated types mark
+// p_embargo_lift_at non-nullable; null clears the embargo.
+export function useSaveProjectSchedulingRules(projectId: string) {
+  const qc = useQueryClient();
+  return useMutation<unknown, Error, ProjectSchedulingRulesInput>({
+    mutationFn: async (input) => {
+      const { data, error } = await supabase.rpc(
+        'set_project_scheduling_rules',
+        {
+          p_project_id: projectId,
+          p_embargo_lift_at: input.embargoLiftAt as unknown as string,
+          p_embargo_label: input.embargoLabel,
+          p_embargo_enforced: input.embargoEnforced,
+          p_market_hours_sensitive: input.marketHoursSensitive,
+        },
+      );
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: projectKey(projectId) });
+      qc.invalidateQueries({ queryKey: auditTrailEventsKey(projectId) });
+    },
+  });
+}
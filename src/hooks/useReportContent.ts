@@ -4,6 +4,7 @@ import { useVariantsForContentItem } from "@/hooks/useVariants";
 import { useComplianceFindings } from "@/hooks/useComplianceFindings";
 import type {
   AuditReport,
+  ComplianceFindingSource,
   ComplianceSeverity,
   ContentVariant,
 } from "@/types/domain";
@@ -91,12 +92,16 @@ function buildSnapshotFromLive(
             id: f.id,
             variant_id: f.variant_id,
             severity: f.severity as ComplianceSeverity,
+            source: f.source as ComplianceFindingSource,
             source_text: f.source_text,
             paragraph_index: f.paragraph_index,
             explanation: f.explanation,
             regulation_reference: f.regulation_reference,
             suggested_correction: f.suggested_correction,
             resolution_status: f.resolution_status,
+            created_by: f.created_by
+              ? { id: f.created_by, name: null }
+              : null,
             resolved_by: f.resolved_by
               ? { id: f.resolved_by, name: null }
               : null,
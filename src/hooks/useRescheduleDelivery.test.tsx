@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { deliveriesForProjectKey } from './useDeliveriesForProject';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpc(...args) },
+}));
+
+import { useRescheduleDelivery } from './useRescheduleDelivery';
+
+function makeHarness() {
+  const client = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={client}>{children}</QueryClientProvider>
+  );
+  return { client, wrapper };
+}
+
+describe('useRescheduleDelivery', () => {
+  beforeEach(() => rpc.mockReset());
+
+  it('sends the scheduling warnings for the new time and refreshes the list', async () => {
+    rpc.mockResolvedValueOnce({
+      data: { delivery_id: 'd1', status: 'scheduled' },
+      error: null,
+    });
+    const { client, wrapper } = makeHarness();
+    const invalidate = vi.spyOn(client, 'invalidateQueries');
+    const { result } = renderHook(() => useRescheduleDelivery('p1'), {
+      wrapper,
+    });
+
+    // 2026-05-05 07:00 JST: before business hours, on Children's Day.
+    result.current.mutate({
+      deliveryId: 'd1',
+      scheduledFor: '2026-05-04T22:00:00.000Z',
+    });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(rpc).toHaveBeenCalledWith('reschedule_delivery', {
+      p_delivery_id: 'd1',
+      p_scheduled_for: '2026-05-04T22:00:00.000Z',
+      p_scheduling_warnings: ['outside_business_hours', 'japanese_holiday'],
+    });
+    expect(invalidate).toHaveBeenCalledWith({
+      queryKey: deliveriesForProjectKey('p1'),
+    });
+  });
+
+  it('sends no warnings for a business-hours weekday', async () => {
+    rpc.mockResolvedValueOnce({ data: {}, error: null });
+    const { wrapper } = makeHarness();
+    const { result } = renderHook(() => useRescheduleDelivery('p1'), {
+      wrapper,
+    });
+
+    // 2026-05-14 14:00 JST, a Thursday.
+    result.current.mutate({
+      deliveryId: 'd1',
+      scheduledFor: '2026-05-14T05:00:00.000Z',
+    });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(rpc.mock.calls[0][1].p_scheduling_warnings).toEqual([]);
+  });
+
+  it('adds the warnings of the project scheduling rules', async () => {
+    rpc.mockResolvedValueOnce({ data: {}, error: null });
+    const { wrapper } = makeHarness();
+    const { result } = renderHook(() => useRescheduleDelivery('p1'), {
+      wrapper,
+    });
+
+    // 2026-05-14 10:00 JST: a trading session, before the embargo lift.
+    result.current.mutate({
+      deliveryId: 'd1',
+      scheduledFor: '2026-05-14T01:00:00.000Z',
+      context: {
+        marketHoursSensitive: true,
+        embargo: {
+          liftAt: '2026-05-15T00:00:00.000Z',
+          label: 'ASCO',
+          enforced: false,
+        },
+      },
+    });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(rpc.mock.calls[0][1].p_scheduling_warnings).toEqual([
+      'tse_trading_hours',
+      'embargo_before_lift',
+    ]);
+  });
+
+  it('propagates P0004 gate errors', async () => {
+    rpc.mockResolvedValueOnce({
+      data: null,
+      error: { code: 'P0004', message: 'delivery_not_scheduled' },
+    });
+    const { wrapper } = makeHarness();
+    const { result } = renderHook(() => useRescheduleDelivery('p1'), {
+      wrapper,
+    });
+
+    result.current.mutate({
+      deliveryId: 'd1',
+      scheduledFor: '2026-05-14T05:00:00.000Z',
+    });
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error?.message).toBe('delivery_not_scheduled');
+  });
+});
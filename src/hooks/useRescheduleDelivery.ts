@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import {
+  getSchedulingWarnings,
+  type SchedulingContext,
+} from '@/lib/schedule-warnings';
+import { deliveriesForProjectKey } from '@/hooks/useDeliveriesForProject';
+import { auditTrailEventsKey } from '@/hooks/useAuditTrailEvents';
+
+export interface RescheduleDeliveryInput {
+  deliveryId: string;
+  scheduledFor: string;
+  // The project's scheduling rules (useSchedulingContext); omitted, only
+  // the business-hours and holiday warnings apply.
+  context?: SchedulingContext;
+}
+
+// Calls the reschedule_delivery RPC (migration 0034). The warnings for the
+// new time are computed here, with the composer's getSchedulingWarnings,
+// so the delivery_rescheduled event records what the user was shown and
+// acknowledged in RescheduleDeliveryDialog. Rejects with
+// `delivery_not_scheduled` once the delivery has been sent, failed or
+// cancelled, with `scheduled_in_past`, and with `embargo_not_lifted` for a
+// time before the project's enforced embargo lift.
+export function useRescheduleDelivery(projectId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation<unknown, Error, RescheduleDeliveryInput>({
+    mutationFn: async ({ deliveryId, scheduledFor, context }) => {
+      const { data, error } = await supabase.rpc('reschedule_delivery', {
+        p_delivery_id: deliveryId,
+        p_scheduled_for: scheduledFor,
+        p_scheduling_warnings: getSchedulingWarnings(scheduledFor, context),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (!projectId) return;
+      qc.invalidateQueries({ queryKey: deliveriesForProjectKey(projectId) });
+      qc.invalidateQueries({ queryKey: auditTrailEventsKey(projectId) });
+    },
+  });
+}
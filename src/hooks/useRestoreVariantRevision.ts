@@ -0,0 +1,32 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { variantsKey } from '@/hooks/useVariants';
+import { variantRevisionsKey } from '@/hooks/useVariantRevisions';
+import type { ContentVariant } from '@/types/domain';
+
+export interface RestoreVariantRevisionInput {
+  revisionId: string;
+}
+
+// restore_variant_revision copies the chosen revision back onto the variant
+// and records it as a new 'restored' revision. Like apply_fix it bumps
+// updated_at, so existing findings go stale — callers re-run compliance on
+// success.
+export function useRestoreVariantRevision(contentItemId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation<ContentVariant, Error, RestoreVariantRevisionInput>({
+    mutationFn: async ({ revisionId }) => {
+      const { data, error } = await supabase
+        .rpc('restore_variant_revision', { p_revision_id: revisionId })
+        .single();
+      if (error) throw error;
+      return data as ContentVariant;
+    },
+    onSuccess: (variant) => {
+      qc.invalidateQueries({ queryKey: variantRevisionsKey(variant.id) });
+      if (contentItemId) {
+        qc.invalidateQueries({ queryKey: variantsKey(contentItemId) });
+      }
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { deliveriesForProjectKey } from '@/hooks/useDeliveriesForProject';
+import { auditTrailEventsKey } from '@/hooks/useAuditTrailEvents';
+
+export interface RetryDeliveryInput {
+  deliveryId: string;
+}
+
+// Calls the retry_delivery RPC (migration 0034). The failed delivery goes
+// back to 'scheduled', due now: process-scheduled-sends sends it from its
+// delivery_snapshot on the next tick, so the list shows it as scheduled
+// until then. Rejects with `delivery_send_unreconciled` when the failed
+// attempt had already sent the email, and with `embargo_not_lifted` before
+// the project's enforced embargo lifts (migration 0042).
+export function useRetryDelivery(projectId: string | undefined) {
+  const qc = useQueryClient();
+  return useMutation<unknown, Error, RetryDeliveryInput>({
+    mutationFn: async ({ deliveryId }) => {
+      const { data, error } = await supabase.rpc('retry_delivery', {
+        p_delivery_id: deliveryId,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      if (!projectId) return;
+      qc.invalidateQueries({ queryKey: deliveriesForProjectKey(projectId) });
+      qc.invalidateQueries({ queryKey: auditTrailEventsKey(projectId) });
+    },
+  });
+}
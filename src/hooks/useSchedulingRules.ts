@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useProject } from '@/hooks/useProjects';
+import type { SchedulingContext } from '@/lib/schedule-warnings';
+import type { SchedulingBlackout } from '@/types/domain';
+
+const schedulingBlackoutsKey = ['scheduling-blackouts'] as const;
+
+// Every firm blackout window, active and retired, latest first.
+export function useSchedulingBlackouts() {
+  return useQuery({
+    queryKey: schedulingBlackoutsKey,
+    queryFn: async (): Promise<SchedulingBlackout[]> => {
+      const { data, error } = await supabase
+        .from('scheduling_blackouts')
+        .select('*')
+        .order('starts_at', { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+export interface SaveSchedulingBlackoutInput {
+  blackoutId: string | null;
+  label: string;
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+}
+
+// Calls save_scheduling_blackout (migration 0036). Generated types mark
+// p_blackout_id non-nullable; null creates a new window.
+export function useSaveSchedulingBlackout() {
+  const qc = useQueryClient();
+  return useMutation<string, Error, SaveSchedulingBlackoutInput>({
+    mutationFn: async ({ blackoutId, label, startsAt, endsAt, active }) => {
+      const { data, error } = await supabase.rpc('save_scheduling_blackout', {
+        p_blackout_id: blackoutId as unknown as string,
+        p_label: label,
+        p_starts_at: startsAt,
+        p_ends_at: endsAt,
+        p_active: active,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: schedulingBlackoutsKey });
+    },
+  });
+}
+
+// The rules getSchedulingWarnings checks a send time of this project
+// against. Blackouts that are still loading simply add no warnings yet.
+export function useSchedulingContext(
+  projectId: string | undefined,
+): SchedulingContext {
+  const { data: project } = useProject(projectId);
+  const { data: blackouts } = useSchedulingBlackouts();
+  return useMemo(
+    () => ({
+      marketHoursSensitive: project?.market_hours_sensitive ?? false,
+      embargo: project?.embargo_lift_at
+        ? {
+            liftAt: project.embargo_lift_at,
+            label: project.embargo_label,
+            enforced: project.embargo_enforced,
+          }
+        : null,
+      blackouts: (blackouts ?? []).filter((b) => b.active),
+    }),
+    [project, blackouts],
+  );
+}
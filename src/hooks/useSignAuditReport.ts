@@ -3,8 +3,10 @@ import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase";
 import { auditReportsKey } from "@/hooks/useAuditReports";
 import { auditReportKey } from "@/hooks/useAuditReport";
+import { auditReportSignoffKey } from "@/hooks/useAuditReportSignoff";
 import { auditTrailEventsKey } from "@/hooks/useAuditTrailEvents";
 import { latestAuditReportKey } from "@/hooks/useLatestAuditReport";
+import type { AuditArchiveRecord } from "@/hooks/useAuditArchive";
 import type { AuditReport, AuditSignature } from "@/types/domain";
 
 export interface SignAuditReportInput {
@@ -14,14 +16,20 @@ export interface SignAuditReportInput {
 export interface SignAuditReportResponse {
   report: AuditReport;
   signature: AuditSignature;
+  // Set when this signature finalized the report and its archival PDF was
+  // stored. archive_error explains a failed attempt; the report is
+  // finalized either way.
+  archive: AuditArchiveRecord | null;
+  archive_error: string | null;
 }
 
 // Calls the sign-audit-report Edge Function (T7). The Edge Function holds
-// the HMAC secret, builds the canonical payload server-side, computes the
-// signature hash, then calls finalize_audit_report RPC which enforces the
-// seven I3 gates inside its transaction. The client never sees the secret.
-// On success, predecessor reports cascade to 'revised' in the same
-// transaction so we invalidate the project-wide list as well.
+// the Ed25519 private key, builds the canonical payload server-side, signs
+// it, then calls finalize_audit_report RPC which enforces the seven I3
+// gates inside its transaction. The client never sees the private key.
+// Each call fills the next sign-off role; the report finalizes on the last
+// one, when predecessor reports cascade to 'revised' in the same
+// transaction, so we invalidate the project-wide list as well.
 export function useSignAuditReport(projectId: string | undefined) {
   const qc = useQueryClient();
   return useMutation<SignAuditReportResponse, Error, SignAuditReportInput>({
@@ -58,6 +66,9 @@ export function useSignAuditReport(projectId: string | undefined) {
     },
     onSuccess: (_data, vars) => {
       qc.invalidateQueries({ queryKey: auditReportKey(vars.auditReportId) });
+      qc.invalidateQueries({
+        queryKey: auditReportSignoffKey(vars.auditReportId),
+      });
       if (!projectId) return;
       qc.invalidateQueries({ queryKey: auditReportsKey(projectId) });
       qc.invalidateQueries({ queryKey: latestAuditReportKey(projectId) });
@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import type { SignoffPolicy, SignoffRole } from "@/types/domain";
+
+export const signoffPoliciesKey = ["signoff_policies"] as const;
+
+// The firm-wide sign-off policy (client_id null) and every per-client
+// override. Small table; one query serves settings and client pages.
+export function useSignoffPolicies() {
+  return useQuery<SignoffPolicy[]>({
+    queryKey: signoffPoliciesKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("signoff_policies")
+        .select("*");
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
+
+export interface SaveSignoffPolicyInput {
+  // null = the firm-wide policy.
+  clientId: string | null;
+  // null clears a client override so the firm policy applies.
+  roles: SignoffRole[] | null;
+}
+
+// Calls set_signoff_policy (migration 0025). Reports already being signed
+// keep the roles their current round started with. Generated types mark
+// both parameters non-nullable; the SQL accepts NULL for each.
+export function useSaveSignoffPolicy() {
+  const qc = useQueryClient();
+  return useMutation<unknown, Error, SaveSignoffPolicyInput>({
+    mutationFn: async ({ clientId, roles }) => {
+      const { data, error } = await supabase.rpc("set_signoff_policy", {
+        p_client_id: clientId as unknown as string,
+        p_roles: roles as unknown as string[],
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: signoffPoliciesKey });
+    },
+  });
+}
@@ -1,39 +1,44 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { variantsKey } from '@/hooks/useVariants';
+import { variantRevisionsKey } from '@/hooks/useVariantRevisions';
 import type { ContentVariant } from '@/types/domain';
+import type { VariantDocument } from '@/lib/variant-document';
 
 export interface UpdateVariantInput {
   variantId: string;
   body_text: string;
+  // The editor's structured document; body_text is its documentToText.
+  body_doc: VariantDocument;
 }
 
+// Autosave path. save_variant_body writes the body and folds the edit into
+// the user's open 'autosave' revision checkpoint (or opens a new one) in the
+// same transaction.
 export function useUpdateVariant(contentItemId: string | undefined) {
   const qc = useQueryClient();
   return useMutation<ContentVariant, Error, UpdateVariantInput>({
-    mutationFn: async ({ variantId, body_text }) => {
+    mutationFn: async ({ variantId, body_text, body_doc }) => {
       // Codepoint-correct char count (Array.from iterates code points, not
       // UTF-16 code units — important for Japanese).
       const charCount = Array.from(body_text).length;
       const readingTimeSeconds = Math.ceil(charCount / 6);
-      const now = new Date().toISOString();
 
       const { data, error } = await supabase
-        .from('content_variants')
-        .update({
-          body_text,
-          char_count: charCount,
-          reading_time_seconds: readingTimeSeconds,
-          updated_at: now,
+        .rpc('save_variant_body', {
+          p_variant_id: variantId,
+          p_body_text: body_text,
+          p_body_doc: body_doc,
+          p_char_count: charCount,
+          p_reading_time_seconds: readingTimeSeconds,
         })
-        .eq('id', variantId)
-        .select('*')
         .single();
 
       if (error) throw error;
-      return data;
+      return data as ContentVariant;
     },
-    onSuccess: () => {
+    onSuccess: (_data, { variantId }) => {
+      qc.invalidateQueries({ queryKey: variantRevisionsKey(variantId) });
       if (contentItemId) {
         qc.invalidateQueries({ queryKey: variantsKey(contentItemId) });
       }
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+
+// Firm members, for pickers that filter by who did something.
+export function useUsers() {
+  return useQuery({
+    queryKey: ["users"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, full_name")
+        .order("full_name", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
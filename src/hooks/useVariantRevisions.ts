@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import type { ContentVariantRevision } from '@/types/domain';
+
+export const variantRevisionsKey = (variantId: string) =>
+  ['variant-revisions', variantId] as const;
+
+// Newest first. Written server-side only (regenerate_variant, apply_fix,
+// save_variant_body, restore_variant_revision); the table is read-only to
+// the client.
+export function useVariantRevisions(
+  variantId: string | undefined,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: variantRevisionsKey(variantId ?? ''),
+    enabled: Boolean(variantId) && enabled,
+    queryFn: async (): Promise<ContentVariantRevision[]> => {
+      const { data, error } = await supabase
+        .from('content_variant_revisions')
+        .select('*')
+        .eq('variant_id', variantId!)
+        .order('revision_number', { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+}
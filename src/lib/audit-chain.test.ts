@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  auditEventHash,
+  toChainTimestamp,
+  verifyAuditChain,
+  type ChainedAuditEvent,
+} from "./audit-chain";
+
+// Chains events the way the _chain_audit_event trigger does.
+async function chainEvents(
+  events: Omit<ChainedAuditEvent, "chain_seq" | "prev_hash" | "event_hash">[],
+): Promise<ChainedAuditEvent[]> {
+  const chained: ChainedAuditEvent[] = [];
+  for (const [i, e] of events.entries()) {
+    const event = {
+      ...e,
+      chain_seq: i + 1,
+      prev_hash: chained[i - 1]?.event_hash ?? null,
+      event_hash: "",
+    };
+    event.event_hash = await auditEventHash(event);
+    chained.push(event);
+  }
+  return chained;
+}
+
+const event = (id: string, details: unknown = {}) => ({
+  id,
+  project_id: "p1",
+  audit_report_id: null,
+  event_type: "compliance_checked",
+  actor_type: "system",
+  actor_id: null,
+  actor_name_snapshot: null,
+  model_used: "claude-sonnet",
+  occurred_at: "2026-10-19T07:30:00.1234+00:00",
+  details,
+});
+
+describe("toChainTimestamp", () => {
+  it("normalizes PostgREST timestamps to UTC with microseconds", () => {
+    expect(toChainTimestamp("2026-10-19T07:30:00.1234+00:00")).toBe(
+      "2026-10-19T07:30:00.123400Z",
+    );
+    expect(toChainTimestamp("2026-10-19T07:30:00+00:00")).toBe(
+      "2026-10-19T07:30:00.000000Z",
+    );
+    expect(toChainTimestamp("2026-10-19 16:30:00.000001+09")).toBe(
+      "2026-10-19T07:30:00.000001Z",
+    );
+    expect(toChainTimestamp("2026-01-01T00:15:00.5-05:30")).toBe(
+      "2026-01-01T05:45:00.500000Z",
+    );
+    expect(toChainTimestamp("2026-10-19T07:30:00Z")).toBe(
+      "2026-10-19T07:30:00.000000Z",
+    );
+  });
+
+  it("rejects anything else", () => {
+    expect(() => toChainTimestamp("yesterday")).toThrow();
+  });
+});
+
+describe("verifyAuditChain", () => {
+  it("accepts an intact chain and reports its head", async () => {
+    const events = await chainEvents([
+      event("e1"),
+      event("e2", { variant_id: "v1", score: 0.5 }),
+      event("e3"),
+    ]);
+
+    const result = await verifyAuditChain([...events].reverse());
+
+    expect(result).toEqual({
+      ok: true,
+      length: 3,
+      head: { chain_seq: 3, event_hash: events[2].event_hash },
+    });
+  });
+
+  it("accepts an empty trail", async () => {
+    expect(await verifyAuditChain([])).toEqual({
+      ok: true,
+      length: 0,
+      head: null,
+    });
+  });
+
+  it("reports an edited event", async () => {
+    const events = await chainEvents([event("e1"), event("e2"), event("e3")]);
+    events[1] = { ...events[1], details: { edited: true } };
+
+    const result = await verifyAuditChain(events);
+
+    expect(result).toMatchObject({
+      ok: false,
+      broken_at: { chain_seq: 2, event_id: "e2", reason: "event_altered" },
+    });
+  });
+
+  it("reports a deleted event at the gap it leaves", async () => {
+    const events = await chainEvents([event("e1"), event("e2"), event("e3")]);
+
+    const result = await verifyAuditChain([events[0], events[2]]);
+
+    expect(result).toMatchObject({
+      ok: false,
+      broken_at: { chain_seq: 3, event_id: "e3", reason: "link_missing" },
+    });
+  });
+
+  it("reports a rehashed event that no longer links to its predecessor", async () => {
+    const events = await chainEvents([event("e1"), event("e2")]);
+    const forged = { ...events[0], details: { edited: true } };
+    forged.event_hash = await auditEventHash(forged);
+
+    const result = await verifyAuditChain([forged, events[1]]);
+
+    expect(result).toMatchObject({
+      ok: false,
+      broken_at: { chain_seq: 2, event_id: "e2", reason: "link_mismatch" },
+    });
+  });
+});
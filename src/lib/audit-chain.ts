@@ -0,0 +1,139 @@
+/**
+ * Verifies the per-project hash chain on audit_trail_events (migration
+ * 0027). Each event's event_hash is the SHA-256 of canonicalize() over its
+ * columns plus prev_hash, computed by the _chain_audit_event trigger; this
+ * module recomputes it and reports the first link that does not hold.
+ *
+ * Used by AuditTrailTimeline and by the evidence bundle verifier, so like
+ * src/lib/evidence-bundle it imports with .ts extensions and no "@/" alias
+ * to run under plain Node as well.
+ */
+import { canonicalize } from "./canonical-payload.ts";
+
+export interface ChainedAuditEvent {
+  id: string;
+  project_id: string;
+  audit_report_id: string | null;
+  event_type: string;
+  actor_type: string;
+  actor_id: string | null;
+  actor_name_snapshot: string | null;
+  model_used: string | null;
+  occurred_at: string;
+  details: unknown;
+  chain_seq: number;
+  prev_hash: string | null;
+  event_hash: string;
+}
+
+export type AuditChainBreak =
+  // chain_seq skips or repeats: an event was deleted or inserted.
+  | "link_missing"
+  // prev_hash is not the previous event's hash.
+  | "link_mismatch"
+  // The event's contents no longer produce its hash.
+  | "event_altered";
+
+export type AuditChainResult =
+  | {
+      ok: true;
+      length: number;
+      head: { chain_seq: number; event_hash: string } | null;
+    }
+  | {
+      ok: false;
+      length: number;
+      broken_at: {
+        chain_seq: number;
+        event_id: string;
+        reason: AuditChainBreak;
+      };
+    };
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const TIMESTAMP =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,6}))?(Z|[+-]\d{2}(?::?\d{2})?)?$/;
+
+// occurred_at as the trigger hashes it: UTC, always six fractional digits
+// ("2026-10-19T07:30:00.123456Z"). PostgREST returns the session time zone
+// and trims trailing zeros, and Date would drop the microseconds, so the
+// string is re-assembled by hand.
+export function toChainTimestamp(timestamp: string): string {
+  const m = TIMESTAMP.exec(timestamp);
+  if (!m) throw new Error(`Unrecognized timestamp: ${timestamp}`);
+  const [, y, mo, d, h, mi, s, fraction = "", zone = "Z"] = m;
+  let offsetMinutes = 0;
+  if (zone !== "Z") {
+    const sign = zone.startsWith("-") ? -1 : 1;
+    const digits = zone.slice(1).replace(":", "");
+    offsetMinutes =
+      sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0));
+  }
+  const ms = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s) - offsetMinutes * 60_000;
+  return `${new Date(ms).toISOString().slice(0, 19)}.${fraction.padEnd(6, "0")}Z`;
+}
+
+// Mirrors _audit_event_hash() in migration 0027.
+export function auditEventHash(event: ChainedAuditEvent): Promise<string> {
+  return sha256Hex(
+    canonicalize({
+      actor_id: event.actor_id,
+      actor_name_snapshot: event.actor_name_snapshot,
+      actor_type: event.actor_type,
+      audit_report_id: event.audit_report_id,
+      chain_seq: event.chain_seq,
+      details: event.details,
+      event_type: event.event_type,
+      id: event.id,
+      model_used: event.model_used,
+      occurred_at: toChainTimestamp(event.occurred_at),
+      prev_hash: event.prev_hash,
+      project_id: event.project_id,
+    }),
+  );
+}
+
+// Walks one project's events in chain_seq order and stops at the first
+// link that fails. Deleting the newest events leaves a shorter, intact
+// chain; signatures guard against that by committing to the head.
+export async function verifyAuditChain(
+  events: ChainedAuditEvent[],
+): Promise<AuditChainResult> {
+  const ordered = [...events].sort((a, b) => a.chain_seq - b.chain_seq);
+  let previous: ChainedAuditEvent | null = null;
+  for (const [i, event] of ordered.entries()) {
+    const broken = (reason: AuditChainBreak): AuditChainResult => ({
+      ok: false,
+      length: ordered.length,
+      broken_at: { chain_seq: event.chain_seq, event_id: event.id, reason },
+    });
+    if (event.chain_seq !== i + 1) return broken("link_missing");
+    if (event.prev_hash !== (previous?.event_hash ?? null)) {
+      return broken("link_mismatch");
+    }
+    let hash: string | null = null;
+    try {
+      hash = await auditEventHash(event);
+    } catch {
+      // An unparseable occurred_at can't have produced the stored hash.
+    }
+    if (hash !== event.event_hash) return broken("event_altered");
+    previous = event;
+  }
+  return {
+    ok: true,
+    length: ordered.length,
+    head: previous
+      ? { chain_seq: previous.chain_seq, event_hash: previous.event_hash }
+      : null,
+  };
+}
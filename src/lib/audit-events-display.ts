@@ -8,7 +8,11 @@ export interface BilingualText {
   en: string;
 }
 
-const EVENT_TYPE_LABEL: Record<string, BilingualText> = {
+// Mirrored in supabase/functions/_shared/audit-event-labels.ts for the
+// server-rendered exports; audit-event-labels.drift.test.ts keeps the two
+// byte-identical.
+// drift:start AUDIT_EVENT_LABELS
+export const EVENT_TYPE_LABEL: Record<string, BilingualText> = {
   variant_generated: { ja: "変種生成", en: "Variant generated" },
   variant_approved: { ja: "変種承認", en: "Variant approved" },
   compliance_checked: {
@@ -25,16 +29,45 @@ const EVENT_TYPE_LABEL: Record<string, BilingualText> = {
     ja: "指摘事項を確認済みに",
     en: "Finding acknowledged",
   },
+  manual_finding_added: { ja: "手動指摘の追加", en: "Manual finding added" },
   audit_report_created: { ja: "監査レポート作成", en: "Audit report created" },
   audit_revision_started: {
     ja: "監査レポート改訂開始",
     en: "Audit revision started",
   },
-  sign_off: { ja: "署名・確定", en: "Sign off" },
+  sign_off: { ja: "署名", en: "Sign off" },
+  signatures_invalidated: {
+    ja: "署名の無効化",
+    en: "Signatures invalidated",
+  },
+  report_archived: {
+    ja: "アーカイブPDF保存",
+    en: "Archival PDF stored",
+  },
+  audit_trail_exported: {
+    ja: "監査トレイルのエクスポート",
+    en: "Audit trail exported",
+  },
   delivery_sent: { ja: "配信送信", en: "Delivery sent" },
+  delivery_rescheduled: { ja: "配信予約の変更", en: "Delivery rescheduled" },
+  delivery_cancelled: { ja: "配信の取り消し", en: "Delivery cancelled" },
+  delivery_retried: { ja: "配信の再送", en: "Delivery retried" },
+  scheduling_rules_updated: {
+    ja: "配信ルール（エンバーゴ・市場時間）の更新",
+    en: "Scheduling rules updated",
+  },
+  feedback_reminder_sent: {
+    ja: "フィードバック催促送信",
+    en: "Feedback reminder sent",
+  },
+  feedback_expired: {
+    ja: "フィードバック期限切れ",
+    en: "Feedback link expired",
+  },
   feedback_received: { ja: "フィードバック受信", en: "Feedback received" },
   voice_updated: { ja: "ボイス更新", en: "Voice profile updated" },
 };
+// drift:end AUDIT_EVENT_LABELS
 
 export function getEventTypeLabel(eventType: string): BilingualText {
   return EVENT_TYPE_LABEL[eventType] ?? { ja: eventType, en: eventType };
@@ -1,18 +1,109 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { canonicalize } from "./canonical-payload";
 
-const { invoke } = vi.hoisted(() => ({ invoke: vi.fn() }));
+const { invoke, fromMock } = vi.hoisted(() => ({
+  invoke: vi.fn(),
+  fromMock: vi.fn(),
+}));
 
 vi.mock("@/lib/supabase", () => ({
   supabase: {
     functions: { invoke },
+    from: (...args: unknown[]) => fromMock(...args),
   },
 }));
 
 import { verifyAuditSignature } from "./audit-signature";
 
-describe("verifyAuditSignature", () => {
+// One query-builder chain per table, resolving .single() to `row`.
+function mockRows(rows: Record<string, unknown>) {
+  fromMock.mockImplementation((table: string) => ({
+    select: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: rows[table], error: null }),
+  }));
+}
+
+const LEGACY_ROW = {
+  canonical_payload: { report_id: "r1" },
+  signature_hash: "deadbeef",
+  algorithm: "hmac-sha256",
+  key_id: null,
+};
+
+async function signEd25519(payload: unknown) {
+  const keys = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey("jwk", keys.publicKey);
+  const signature = await crypto.subtle.sign(
+    { name: "Ed25519" },
+    keys.privateKey,
+    new TextEncoder().encode(canonicalize(payload)),
+  );
+  const hex = Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return { publicKey: jwk.x!, signatureHex: hex };
+}
+
+describe("verifyAuditSignature — Ed25519", () => {
+  beforeEach(() => {
+    invoke.mockReset();
+    fromMock.mockReset();
+  });
+
+  const payload = { key_id: "k1", report_id: "r1", signoff_role: "reviewer" };
+
+  it("verifies in the browser with the published public key", async () => {
+    const { publicKey, signatureHex } = await signEd25519(payload);
+    mockRows({
+      audit_signatures: {
+        canonical_payload: payload,
+        signature_hash: signatureHex,
+        algorithm: "ed25519",
+        key_id: "k1",
+      },
+      audit_signing_keys: { public_key: publicKey },
+    });
+
+    const result = await verifyAuditSignature("sig-1");
+
+    expect(result).toEqual({
+      matches: true,
+      algorithm: "ed25519",
+      key_id: "k1",
+      verified_in: "browser",
+    });
+    expect(fromMock).toHaveBeenCalledWith("audit_signing_keys");
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("reports a mismatch when the stored payload was altered", async () => {
+    const { publicKey, signatureHex } = await signEd25519(payload);
+    mockRows({
+      audit_signatures: {
+        canonical_payload: { ...payload, signoff_role: "legal_counsel" },
+        signature_hash: signatureHex,
+        algorithm: "ed25519",
+        key_id: "k1",
+      },
+      audit_signing_keys: { public_key: publicKey },
+    });
+
+    const result = await verifyAuditSignature("sig-1");
+
+    expect(result.matches).toBe(false);
+    expect(result.verified_in).toBe("browser");
+  });
+});
+
+describe("verifyAuditSignature — legacy HMAC", () => {
   beforeEach(() => {
     invoke.mockReset();
+    fromMock.mockReset();
+    mockRows({ audit_signatures: LEGACY_ROW });
   });
 
   it("returns the inner data envelope on success", async () => {
@@ -20,6 +111,8 @@ describe("verifyAuditSignature", () => {
       data: {
         data: {
           matches: true,
+          algorithm: "hmac-sha256",
+          key_id: null,
           computed_hash: "deadbeef",
           stored_hash: "deadbeef",
         },
@@ -37,8 +130,9 @@ describe("verifyAuditSignature", () => {
     });
     expect(result).toEqual({
       matches: true,
-      computed_hash: "deadbeef",
-      stored_hash: "deadbeef",
+      algorithm: "hmac-sha256",
+      key_id: null,
+      verified_in: "server",
     });
   });
 
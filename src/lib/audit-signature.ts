@@ -1,34 +1,120 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase";
+import { canonicalize, verifyEd25519Hex } from "@/lib/canonical-payload";
+import type { AuditSignature, AuditSignatureAlgorithm } from "@/types/domain";
 
 export interface VerifyAuditSignatureResult {
   matches: boolean;
-  computed_hash: string;
+  algorithm: AuditSignatureAlgorithm;
+  key_id: string | null;
+  // "browser": checked here against the published public key, no server
+  // secret involved. "server": verify-audit-signature did it — always the
+  // case for legacy HMAC signatures.
+  verified_in: "browser" | "server";
+}
+
+interface ServerVerifyResult {
+  matches: boolean;
+  algorithm: AuditSignatureAlgorithm;
+  key_id: string | null;
+  computed_hash: string | null;
   stored_hash: string;
 }
 
 /**
- * Verify an audit signature by re-HMACing its persisted canonical_payload
- * via the verify-audit-signature Edge Function. The Edge Function is the
- * only place that holds AUDIT_SIGNING_SECRET; this wrapper exists so
- * non-component callers (CLI ops, future audits) have a single entry
- * point instead of duplicating the fetch shape.
+ * Check an Ed25519 signature against its canonical_payload with the key's
+ * published public key (audit_signing_keys.public_key). Uses the same
+ * canonicalize() + verify code as the Edge Functions (drift-guarded).
+ */
+export function verifyEd25519Signature(
+  signature: Pick<AuditSignature, "canonical_payload" | "signature_hash">,
+  publicKey: string,
+): Promise<boolean> {
+  return verifyEd25519Hex(
+    publicKey,
+    canonicalize(signature.canonical_payload),
+    signature.signature_hash,
+  );
+}
+
+/**
+ * Verify an audit signature. Ed25519 signatures (migration 0026) are
+ * checked in the browser with the published public key, so the answer
+ * doesn't rest on trusting our server. Legacy HMAC signatures can only be
+ * re-HMACed by the verify-audit-signature Edge Function, which holds
+ * AUDIT_SIGNING_SECRET; so can browsers without WebCrypto Ed25519.
  *
  * Components should use useVerifyAuditSignature() instead — it gives
  * the same result with TanStack Query state (pending, error).
  */
 export async function verifyAuditSignature(
   signatureId: string,
+): Promise<VerifyAuditSignatureResult> {
+  const { data: signature, error } = await supabase
+    .from("audit_signatures")
+    .select("canonical_payload, signature_hash, algorithm, key_id")
+    .eq("id", signatureId)
+    .single();
+  if (error) throw error;
+  if (signature.algorithm !== "ed25519" || !signature.key_id) {
+    return verifyOnServer(signatureId);
+  }
+
+  const { data: key, error: keyError } = await supabase
+    .from("audit_signing_keys")
+    .select("public_key")
+    .eq("key_id", signature.key_id)
+    .single();
+  if (keyError) throw keyError;
+
+  let matches: boolean;
+  try {
+    matches = await verifyEd25519Signature(signature, key.public_key);
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "NotSupportedError") {
+      return verifyOnServer(signatureId);
+    }
+    throw e;
+  }
+  return {
+    matches,
+    algorithm: "ed25519",
+    key_id: signature.key_id,
+    verified_in: "browser",
+  };
+}
+
+async function verifyOnServer(
+  signatureId: string,
 ): Promise<VerifyAuditSignatureResult> {
   const { data, error } = await supabase.functions.invoke<{
-    data: VerifyAuditSignatureResult | null;
+    data: ServerVerifyResult | null;
     error: { code: string; message: string } | null;
   }>("verify-audit-signature", {
     body: { signature_id: signatureId },
   });
-  if (error) throw error;
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      try {
+        const body = await error.context.json();
+        const inner = body?.error?.message ?? body?.message;
+        if (inner) throw new Error(inner);
+      } catch (parseError) {
+        if (parseError instanceof Error && parseError.message) {
+          throw parseError;
+        }
+      }
+    }
+    throw error;
+  }
   if (!data || data.error) {
     throw new Error(data?.error?.message ?? "Verify request failed");
   }
   if (!data.data) throw new Error("Verify response missing data");
-  return data.data;
+  return {
+    matches: data.data.matches,
+    algorithm: data.data.algorithm,
+    key_id: data.data.key_id,
+    verified_in: "server",
+  };
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildAuditTrailExportRequest,
+  isExportDateRangeValid,
+  type AuditTrailExportForm,
+} from "./audit-trail-export";
+
+const empty: AuditTrailExportForm = {
+  format: "csv",
+  clientId: null,
+  projectIds: [],
+  fromDate: "",
+  toDate: "",
+  eventTypes: [],
+  actor: "all",
+};
+
+describe("buildAuditTrailExportRequest", () => {
+  it("sends only the format when nothing is filtered", () => {
+    expect(buildAuditTrailExportRequest(empty)).toEqual({ format: "csv" });
+  });
+
+  it("maps the inclusive JST date range to a half-open range", () => {
+    const request = buildAuditTrailExportRequest({
+      ...empty,
+      fromDate: "2026-04-01",
+      toDate: "2026-04-30",
+    });
+    expect(request.from).toBe("2026-04-01T00:00:00+09:00");
+    expect(request.to).toBe("2026-04-30T15:00:00.000Z");
+  });
+
+  it("passes client, projects and event types through", () => {
+    const request = buildAuditTrailExportRequest({
+      ...empty,
+      format: "pdf",
+      clientId: "c1",
+      projectIds: ["p1", "p2"],
+      eventTypes: ["sign_off"],
+    });
+    expect(request).toEqual({
+      format: "pdf",
+      client_id: "c1",
+      project_ids: ["p1", "p2"],
+      event_types: ["sign_off"],
+    });
+  });
+
+  it("maps the actor choice to actor_type / actor_id", () => {
+    expect(
+      buildAuditTrailExportRequest({ ...empty, actor: "system" }),
+    ).toMatchObject({ actor_type: "system" });
+    const byUser = buildAuditTrailExportRequest({ ...empty, actor: "u-1" });
+    expect(byUser.actor_type).toBe("user");
+    expect(byUser.actor_id).toBe("u-1");
+  });
+});
+
+describe("isExportDateRangeValid", () => {
+  it("accepts open and ordered ranges, rejects reversed ones", () => {
+    expect(isExportDateRangeValid({ fromDate: "", toDate: "" })).toBe(true);
+    expect(
+      isExportDateRangeValid({ fromDate: "2026-04-01", toDate: "2026-04-01" }),
+    ).toBe(true);
+    expect(
+      isExportDateRangeValid({ fromDate: "2026-04-02", toDate: "2026-04-01" }),
+    ).toBe(false);
+  });
+});
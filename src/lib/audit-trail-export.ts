@@ -0,0 +1,69 @@
+export type AuditTrailExportFormat = "csv" | "jsonl" | "pdf";
+
+// Mirrors AuditExportRequestSchema in
+// supabase/functions/_shared/audit-export.ts. `from`/`to` are ISO
+// timestamps with offset; `to` is exclusive.
+export interface AuditTrailExportRequest {
+  format: AuditTrailExportFormat;
+  client_id?: string;
+  project_ids?: string[];
+  from?: string;
+  to?: string;
+  event_types?: string[];
+  actor_type?: "user" | "system";
+  actor_id?: string;
+}
+
+// "all" | "system" | "user" | a users.id
+export type ActorFilter = "all" | "system" | "user" | (string & {});
+
+export interface AuditTrailExportForm {
+  format: AuditTrailExportFormat;
+  clientId: string | null;
+  projectIds: string[];
+  // YYYY-MM-DD, inclusive, in JST — the firm's working day.
+  fromDate: string;
+  toDate: string;
+  eventTypes: string[];
+  actor: ActorFilter;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function jstDayStart(date: string): string {
+  return `${date}T00:00:00+09:00`;
+}
+
+function jstNextDayStart(date: string): string {
+  return new Date(Date.parse(jstDayStart(date)) + DAY_MS).toISOString();
+}
+
+// Turns the page's form state into the export-audit-trail request. Empty
+// selections mean "no filter"; the inclusive JST end date becomes the
+// exclusive start of the following day.
+export function buildAuditTrailExportRequest(
+  form: AuditTrailExportForm,
+): AuditTrailExportRequest {
+  const request: AuditTrailExportRequest = { format: form.format };
+  if (form.clientId) request.client_id = form.clientId;
+  if (form.projectIds.length > 0) request.project_ids = form.projectIds;
+  if (form.fromDate) request.from = jstDayStart(form.fromDate);
+  if (form.toDate) request.to = jstNextDayStart(form.toDate);
+  if (form.eventTypes.length > 0) request.event_types = form.eventTypes;
+  if (form.actor === "system") {
+    request.actor_type = "system";
+  } else if (form.actor === "user") {
+    request.actor_type = "user";
+  } else if (form.actor !== "all") {
+    request.actor_type = "user";
+    request.actor_id = form.actor;
+  }
+  return request;
+}
+
+// Date inputs allow picking an end before the start; the server rejects it.
+export function isExportDateRangeValid(
+  form: Pick<AuditTrailExportForm, "fromDate" | "toDate">,
+): boolean {
+  return !form.fromDate || !form.toDate || form.fromDate <= form.toDate;
+}
@@ -23,4 +23,10 @@ describe("canonical-payload drift (TS mirror vs Deno _shared/canonical.ts)", ()
     const deno = extractDriftRegion(denoSrc, "CANONICALIZE");
     expect(deno).toBe(ts);
   });
+
+  it("ED25519_VERIFY region is byte-identical across both files", () => {
+    const ts = extractDriftRegion(tsSrc, "ED25519_VERIFY");
+    const deno = extractDriftRegion(denoSrc, "ED25519_VERIFY");
+    expect(deno).toBe(ts);
+  });
 });
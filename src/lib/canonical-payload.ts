@@ -1,10 +1,10 @@
-// TS mirror of supabase/functions/_shared/canonical.ts canonicalize(). The
-// Deno function is authoritative for sign-audit-report; this mirror exists
-// so vitest can prove byte-equivalence on every commit via the
-// canonical-payload.sync.test drift guard, and so client code can compute
-// the same canonical string when needed (currently only verify reads the
-// stored canonical_payload back -- no client recomputation today, but the
-// mirror is here for tests and any future ops tooling).
+// TS mirror of supabase/functions/_shared/canonical.ts canonicalize() and
+// verifyEd25519Hex(). The Deno functions are authoritative for
+// sign-audit-report; this mirror exists so vitest can prove
+// byte-equivalence on every commit via the canonical-payload.sync.test
+// drift guard, and so the browser can verify an Ed25519 signature
+// against its stored canonical_payload with only the published public key
+// (src/lib/audit-signature.ts).
 
 // drift:start CANONICALIZE
 export function canonicalize(value: unknown): string {
@@ -25,3 +25,37 @@ function sortKeys(value: unknown): unknown {
   return value;
 }
 // drift:end CANONICALIZE
+
+// drift:start ED25519_VERIFY
+// `publicKey` is the base64url raw key published in audit_signing_keys.
+export async function verifyEd25519Hex(
+  publicKey: string,
+  message: string,
+  signatureHex: string,
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty: "OKP", crv: "Ed25519", x: publicKey },
+    { name: "Ed25519" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify(
+    { name: "Ed25519" },
+    key,
+    hexToBytes(signatureHex),
+    new TextEncoder().encode(message),
+  );
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error("Signature is not a hex string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+// drift:end ED25519_VERIFY
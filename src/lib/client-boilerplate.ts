@@ -0,0 +1,129 @@
+/**
+ * TS mirror of supabase/functions/_shared/client-boilerplate.ts. The Deno
+ * copy inserts the managed blocks into generated variants and feeds the
+ * compliance check; this one backs the client Boilerplate tab. The drift
+ * guard in src/__tests__/client-boilerplate.drift.test.ts proves byte
+ * equality.
+ */
+import {
+  documentToText,
+  type DocumentBlock,
+  type VariantDocument,
+} from './variant-document';
+
+// drift:start CLIENT_BOILERPLATE
+// Document order: the "about" block, then the forward-looking statement and
+// disclaimers, with the media contact last.
+export const BOILERPLATE_KINDS = [
+  'about',
+  'forward_looking',
+  'disclaimer',
+  'media_contact',
+] as const;
+
+export type BoilerplateKind = (typeof BOILERPLATE_KINDS)[number];
+
+export const BOILERPLATE_KIND_LABEL = {
+  about: { ja: '会社概要', en: 'About the company' },
+  forward_looking: {
+    ja: '将来見通しに関する注意事項',
+    en: 'Forward-looking statements',
+  },
+  disclaimer: { ja: '免責事項', en: 'Disclaimer' },
+  media_contact: { ja: '報道関係者お問い合わせ先', en: 'Media contact' },
+} satisfies Record<BoilerplateKind, { ja: string; en: string }>;
+
+// The current approved version of a client_boilerplate_blocks row
+// (migration 0031). content_types empty = every content type.
+export interface ManagedBoilerplate {
+  id: string;
+  kind: BoilerplateKind;
+  language: 'ja' | 'en';
+  heading: string;
+  body: string;
+  version: number;
+  content_types: string[];
+}
+
+export interface BoilerplateScope {
+  contentType: string;
+  language: 'ja' | 'en';
+}
+
+export const boilerplateApplies = (
+  block: ManagedBoilerplate,
+  scope: BoilerplateScope,
+): boolean =>
+  block.language === scope.language &&
+  (block.content_types.length === 0 ||
+    block.content_types.includes(scope.contentType));
+
+// The blocks a content item gets, in document order. Blocks of one kind keep
+// the order they were given in.
+export const selectManagedBoilerplate = (
+  blocks: readonly ManagedBoilerplate[],
+  scope: BoilerplateScope,
+): ManagedBoilerplate[] =>
+  blocks
+    .filter((b) => boilerplateApplies(b, scope))
+    .map((b, i) => ({ b, i }))
+    .sort(
+      (x, y) =>
+        BOILERPLATE_KINDS.indexOf(x.b.kind) -
+          BOILERPLATE_KINDS.indexOf(y.b.kind) || x.i - y.i,
+    )
+    .map(({ b }) => b);
+
+// The media contact is a contact block (its heading, if any, as the first
+// line); everything else is a boilerplate block.
+const documentBlockType = (kind: BoilerplateKind): 'boilerplate' | 'contact' =>
+  kind === 'media_contact' ? 'contact' : 'boilerplate';
+
+export const boilerplateToDocumentBlock = (
+  block: Pick<ManagedBoilerplate, 'kind' | 'heading' | 'body'>,
+): DocumentBlock =>
+  documentBlockType(block.kind) === 'contact'
+    ? {
+        type: 'contact',
+        text: block.heading ? `${block.heading}\n${block.body}` : block.body,
+      }
+    : { type: 'boilerplate', heading: block.heading, text: block.body };
+
+// Exactly the text a block puts into body_text — what compliance looks for.
+export const boilerplateText = (
+  block: Pick<ManagedBoilerplate, 'kind' | 'heading' | 'body'>,
+): string =>
+  documentToText({ version: 1, blocks: [boilerplateToDocumentBlock(block)] });
+
+// The document block types the managed blocks replace: whatever the model
+// wrote of these is dropped in favour of the approved text.
+export const managedBlockTypes = (
+  blocks: readonly ManagedBoilerplate[],
+): ('boilerplate' | 'contact')[] =>
+  (['boilerplate', 'contact'] as const).filter((type) =>
+    blocks.some((b) => documentBlockType(b.kind) === type),
+  );
+
+// A generated document with the managed blocks appended verbatim.
+export const applyManagedBoilerplate = (
+  doc: VariantDocument,
+  blocks: readonly ManagedBoilerplate[],
+): VariantDocument => {
+  const replaced = new Set<string>(managedBlockTypes(blocks));
+  return {
+    ...doc,
+    blocks: [
+      ...doc.blocks.filter((b) => !replaced.has(b.type)),
+      ...blocks.map(boilerplateToDocumentBlock),
+    ],
+  };
+};
+
+// The same for a reply that didn't parse as a document: the managed text
+// follows the plain-text body as its own paragraphs.
+export const appendManagedBoilerplate = (
+  text: string,
+  blocks: readonly ManagedBoilerplate[],
+): string =>
+  [text, ...blocks.map(boilerplateText)].filter((t) => t !== '').join('\n\n');
+// drift:end CLIENT_BOILERPLATE
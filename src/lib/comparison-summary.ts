@@ -0,0 +1,255 @@
+import type { ComparisonSummaryLine } from '@/lib/delivery-template';
+import type { VariationAxis } from '@/types/domain';
+
+/**
+ * Variant comparison for the delivery email, derived from the variant bodies
+ * themselves (PRD §5.4: "generated from actual variant differences, not
+ * boilerplate"). Deterministic and local — no model call — so the composer
+ * can regenerate on every selection change.
+ *
+ * The lowest-index variant is the baseline and gets a profile line; every
+ * other variant gets the differences from it, e.g.
+ *   案2 バランス: 見出しを変更、データ要約を冒頭に / Variant 2: reworded headline, data summary up front
+ *
+ * Heuristics work on body_text split into lines (the generator emits one
+ * paragraph per line; the first line is the headline):
+ *   - lead        first body paragraph: data / quote / announcement
+ *   - quote       position of the first 「…」 quotation (opening/middle/end)
+ *   - data        position of the first quantified figure
+ *   - register    です・ます vs. plain sentence endings
+ *   - length      char_count delta of 15% or more
+ */
+
+export interface ComparisonSourceVariant {
+  id: string;
+  variant_index: number;
+  variant_label: string;
+  variation_axis?: VariationAxis | null;
+  body_text: string;
+  char_count: number;
+}
+
+type LeadKind = 'data' | 'quote' | 'announcement';
+type Position = 'opening' | 'middle' | 'end';
+type Register = 'polite' | 'plain';
+
+interface Profile {
+  headline: string;
+  lead: LeadKind;
+  quoteAt: Position | null;
+  dataAt: Position | null;
+  register: Register | null;
+  chars: number;
+}
+
+interface Phrase {
+  ja: string;
+  en: string;
+}
+
+// More than three differences reads as a paragraph, not a line.
+const MAX_DIFFS = 3;
+const LENGTH_DELTA_THRESHOLD = 0.15;
+
+const QUOTE_RE = /「[^」]{8,}」/;
+const DATA_RE =
+  /[0-9０-９]+(?:[.,．][0-9０-９]+)?\s*(?:%|％|例|名|人|億|万|円|mg|倍|週|ヵ月|か月|カ月|年|施設|件)/;
+const POLITE_END_RE =
+  /(?:です|ます|ました|ません|でした|ください|ございます|いたします)[。！]/g;
+const SENTENCE_END_RE = /[。！]/g;
+
+const AXIS_JA: Record<VariationAxis, string> = {
+  tone: 'トーン',
+  structure: '構成',
+  length: '分量',
+};
+
+const LEAD_PHRASE: Record<LeadKind, Phrase> = {
+  data: { ja: 'データ', en: 'data' },
+  quote: { ja: '引用', en: 'quote' },
+  announcement: { ja: '発表', en: 'announcement' },
+};
+
+const POSITION_PHRASE: Record<Position, Phrase> = {
+  opening: { ja: '冒頭', en: 'the opening' },
+  middle: { ja: '中盤', en: 'mid-body' },
+  end: { ja: '末尾', en: 'the end' },
+};
+
+const REGISTER_PHRASE: Record<Register, Phrase> = {
+  polite: { ja: '敬体', en: 'polite' },
+  plain: { ja: '常体', en: 'plain' },
+};
+
+function paragraphsOf(bodyText: string): string[] {
+  return bodyText
+    .split(/\n+/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+}
+
+function positionOf(index: number, total: number): Position {
+  const ratio = total <= 1 ? 0 : index / (total - 1);
+  if (ratio < 1 / 3) return 'opening';
+  if (ratio <= 2 / 3) return 'middle';
+  return 'end';
+}
+
+function firstPosition(body: string[], re: RegExp): Position | null {
+  const i = body.findIndex((p) => re.test(p));
+  return i === -1 ? null : positionOf(i, body.length);
+}
+
+function profileOf(v: ComparisonSourceVariant): Profile {
+  const paragraphs = paragraphsOf(v.body_text);
+  const headline = paragraphs[0] ?? '';
+  const body = paragraphs.slice(1);
+  const leadParagraph = body[0] ?? '';
+  const lead: LeadKind = QUOTE_RE.test(leadParagraph)
+    ? 'quote'
+    : DATA_RE.test(leadParagraph)
+      ? 'data'
+      : 'announcement';
+  const sentences = (v.body_text.match(SENTENCE_END_RE) ?? []).length;
+  const polite = (v.body_text.match(POLITE_END_RE) ?? []).length;
+  return {
+    headline: headline.replace(/\s+/g, ''),
+    lead,
+    quoteAt: firstPosition(body, QUOTE_RE),
+    dataAt: firstPosition(body, DATA_RE),
+    register:
+      sentences === 0 ? null : polite * 2 >= sentences ? 'polite' : 'plain',
+    chars: v.char_count,
+  };
+}
+
+const POSITION_ORDER: Record<Position, number> = {
+  opening: 0,
+  middle: 1,
+  end: 2,
+};
+
+function diffPhrases(base: Profile, p: Profile): Phrase[] {
+  const out: Phrase[] = [];
+  if (p.headline !== base.headline) {
+    out.push({ ja: '見出しを変更', en: 'reworded headline' });
+  }
+  if (p.lead !== base.lead) {
+    const lead = LEAD_PHRASE[p.lead];
+    out.push({ ja: `${lead.ja}先行のリード`, en: `${lead.en}-led opening` });
+  }
+  if (p.dataAt !== base.dataAt && p.lead !== 'data') {
+    if (p.dataAt === null) {
+      out.push({ ja: 'データを省略', en: 'figures dropped' });
+    } else if (
+      base.dataAt === null ||
+      POSITION_ORDER[p.dataAt] < POSITION_ORDER[base.dataAt]
+    ) {
+      out.push(
+        p.dataAt === 'opening'
+          ? { ja: 'データ要約を冒頭に', en: 'data summary up front' }
+          : { ja: 'データを前倒し', en: 'figures moved earlier' },
+      );
+    } else {
+      out.push({
+        ja: `データを${POSITION_PHRASE[p.dataAt].ja}に`,
+        en: `figures moved to ${POSITION_PHRASE[p.dataAt].en}`,
+      });
+    }
+  }
+  if (p.quoteAt !== base.quoteAt && p.lead !== 'quote') {
+    out.push(
+      p.quoteAt === null
+        ? { ja: '引用なし', en: 'no quote' }
+        : {
+            ja: `引用を${POSITION_PHRASE[p.quoteAt].ja}に`,
+            en: `quote at ${POSITION_PHRASE[p.quoteAt].en}`,
+          },
+    );
+  }
+  if (p.register && base.register && p.register !== base.register) {
+    const reg = REGISTER_PHRASE[p.register];
+    out.push({ ja: `${reg.ja}に`, en: `${reg.en} register` });
+  }
+  if (base.chars > 0) {
+    const delta = (p.chars - base.chars) / base.chars;
+    if (Math.abs(delta) >= LENGTH_DELTA_THRESHOLD) {
+      const pct = Math.round(Math.abs(delta) * 100);
+      out.push(
+        delta < 0
+          ? { ja: `約${pct}%短く`, en: `about ${pct}% shorter` }
+          : { ja: `約${pct}%長く`, en: `about ${pct}% longer` },
+      );
+    }
+  }
+  return out.slice(0, MAX_DIFFS);
+}
+
+function baselinePhrases(p: Profile): Phrase[] {
+  const lead = LEAD_PHRASE[p.lead];
+  const out: Phrase[] = [
+    { ja: `${lead.ja}先行のリード`, en: `${lead.en}-led opening` },
+  ];
+  if (p.quoteAt && p.lead !== 'quote') {
+    out.push({
+      ja: `引用は${POSITION_PHRASE[p.quoteAt].ja}`,
+      en: `quote at ${POSITION_PHRASE[p.quoteAt].en}`,
+    });
+  }
+  if (p.register) {
+    const reg = REGISTER_PHRASE[p.register];
+    out.push({ ja: reg.ja, en: `${reg.en} register` });
+  }
+  out.push({ ja: `${p.chars}字`, en: `${p.chars} chars` });
+  return out;
+}
+
+function linePrefix(v: ComparisonSourceVariant): Phrase {
+  const axis = v.variation_axis ? `（${AXIS_JA[v.variation_axis]}）` : '';
+  const axisEn = v.variation_axis ? ` (${v.variation_axis})` : '';
+  return {
+    ja: `案${v.variant_index} ${v.variant_label}${axis}`,
+    en: `Variant ${v.variant_index}${axisEn}`,
+  };
+}
+
+export function summarizeVariantDifferences(
+  variants: ReadonlyArray<ComparisonSourceVariant>,
+): ComparisonSummaryLine[] {
+  const sorted = variants
+    .slice()
+    .sort((a, b) => a.variant_index - b.variant_index);
+  if (sorted.length === 0) return [];
+  const baseProfile = profileOf(sorted[0]);
+
+  return sorted.map((v, i) => {
+    const prefix = linePrefix(v);
+    let phrases: Phrase[];
+    let jaLead = '';
+    let enLead = '';
+    if (i === 0) {
+      phrases = baselinePhrases(baseProfile);
+      if (sorted.length > 1) {
+        jaLead = '基準案 — ';
+        enLead = 'baseline — ';
+      }
+    } else {
+      phrases = diffPhrases(baseProfile, profileOf(v));
+      if (phrases.length === 0) {
+        phrases = [
+          {
+            ja: `案${sorted[0].variant_index}とほぼ同じ構成`,
+            en: `structured like variant ${sorted[0].variant_index}`,
+          },
+        ];
+      }
+    }
+    const ja = phrases.map((p) => p.ja).join('、');
+    const en = phrases.map((p) => p.en).join(', ');
+    return {
+      variant_id: v.id,
+      variant_index: v.variant_index,
+      text: `${prefix.ja}: ${jaLead}${ja} / ${prefix.en}: ${enLead}${en}`,
+    };
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * Labelled corpus format for the offline compliance evaluation (PRD §10:
+ * automated checks should catch ≥80% of what human reviewers flag).
+ *
+ * A corpus is one rule set snapshot plus cases. Each case is a body_text
+ * with the scope the check would see, the client's words_to_avoid, and the
+ * human labels — the issues a reviewer says are really there:
+ *
+ *   start / end — [start, end) body_text offsets (UTF-16, as in
+ *                 finding-anchor.ts); both null for an issue about the body
+ *                 as a whole, e.g. missing boilerplate.
+ *   source_text — the labelled text, kept for readability and checked
+ *                 against the offsets on load.
+ *
+ * `recorded_llm` holds the raw LLM response text per
+ * COMPLIANCE_PROMPT_VERSION, so the LLM pass can be replayed without
+ * calling the model and old prompt versions stay comparable.
+ *
+ * The golden set lives in `golden.json` next to this file. Production cases
+ * are captured from reviewed variants (caseFromReviewedVariant) into
+ * compliance_eval_cases (migration 0023) and exported in the same shape —
+ * they hold client copy, so they are kept out of the repo.
+ */
+import { z } from 'zod';
+import {
+  ComplianceRuleSetSchema,
+  type DrugLifecycleStatus,
+} from '@/lib/prompts/compliance';
+import {
+  resolveFindingAnchor,
+  type AnchoredFindingFields,
+} from '@/lib/finding-anchor';
+import { findingSource } from '@/lib/finding-source';
+
+const SeveritySchema = z.enum(['blocker', 'warning', 'note']);
+
+export const EvalLabelSchema = z.object({
+  start: z.number().int().nonnegative().nullable(),
+  end: z.number().int().positive().nullable(),
+  source_text: z.string().min(1),
+  severity: SeveritySchema,
+  regulation_reference: z.string().min(1),
+});
+
+export const EvalCaseSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    body_text: z.string().min(1),
+    scope: z.object({
+      content_type: z.string(),
+      content_sub_type: z.string(),
+      audience: z.string(),
+      lifecycle: z.enum(['pre_approval', 'in_trial', 'approved']),
+    }),
+    words_to_avoid: z.array(z.string()),
+    labels: z.array(EvalLabelSchema),
+    recorded_llm: z.record(z.string(), z.string()),
+    provenance: z.discriminatedUnion('source', [
+      z.object({ source: z.literal('curated') }),
+      z.object({
+        source: z.literal('production'),
+        variant_id: z.string().uuid(),
+        captured_at: z.string(),
+      }),
+    ]),
+  })
+  .superRefine((c, ctx) => {
+    c.labels.forEach((l, i) => {
+      const documentLevel = l.start === null && l.end === null;
+      const spanned =
+        l.start !== null &&
+        l.end !== null &&
+        l.end > l.start &&
+        c.body_text.slice(l.start, l.end) === l.source_text;
+      if (!documentLevel && !spanned) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['labels', i],
+          message: `Label offsets do not select "${l.source_text}" in the body`,
+        });
+      }
+    });
+  });
+
+export const EvalCorpusSchema = z.object({
+  rule_set: ComplianceRuleSetSchema,
+  cases: z.array(EvalCaseSchema),
+});
+
+export type EvalLabel = z.infer<typeof EvalLabelSchema>;
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+export type EvalCorpus = z.infer<typeof EvalCorpusSchema>;
+
+// A reviewed finding as the review page holds it.
+export interface ReviewedFinding extends AnchoredFindingFields {
+  severity: string;
+  regulation_reference: string;
+  resolution_status: string;
+  source?: string | null;
+}
+
+export interface ReviewedVariant {
+  id: string;
+  body_text: string;
+  contentType: string;
+  contentSubType: string;
+  audience: string;
+  lifecycle: DrugLifecycleStatus;
+  wordsToAvoid: readonly string[];
+}
+
+const SOURCE_SUFFIX = /\s*\[(deterministic|LLM|manual)\]$/;
+
+// The regulation without the "[deterministic]" / "[LLM]" / "[manual]" tag, so
+// labels and findings compare on what was cited rather than who cited it.
+export function baseRegulation(reference: string): string {
+  return reference.replace(SOURCE_SUFFIX, '');
+}
+
+/**
+ * Builds a production case from a variant a reviewer has worked through.
+ * Acknowledged findings are the reviewer's confirmation that an issue is
+ * real, and a manual finding is an issue the reviewer raised themselves, so
+ * each becomes a label at its anchor in the current body. A
+ * finding that can no longer be located is left out rather than guessed;
+ * fixed findings are left out because their text is gone from the body.
+ * Returns null when nothing would be labelled.
+ */
+export function caseFromReviewedVariant(
+  variant: ReviewedVariant,
+  findings: readonly ReviewedFinding[],
+  capturedAt: string,
+): EvalCase | null {
+  const labels = findings.flatMap((f): EvalLabel[] => {
+    const labelled =
+      f.resolution_status === 'acknowledged' ||
+      (findingSource(f) === 'manual' && f.resolution_status === 'unresolved');
+    if (!labelled) return [];
+    const anchor = resolveFindingAnchor(variant.body_text, f);
+    const severity = SeveritySchema.safeParse(f.severity);
+    if (!severity.success) return [];
+    const label = {
+      severity: severity.data,
+      regulation_reference: baseRegulation(f.regulation_reference),
+    };
+    switch (anchor.status) {
+      case 'anchored':
+      case 'shifted':
+        return [
+          {
+            ...label,
+            start: anchor.start,
+            end: anchor.end,
+            source_text: variant.body_text.slice(anchor.start, anchor.end),
+          },
+        ];
+      case 'document':
+        return [
+          { ...label, start: null, end: null, source_text: f.source_text },
+        ];
+      case 'orphaned':
+        return [];
+    }
+  });
+  if (labels.length === 0) return null;
+  return {
+    id: `production-${variant.id}`,
+    title: variant.body_text.split('\n', 1)[0].slice(0, 80),
+    body_text: variant.body_text,
+    scope: {
+      content_type: variant.contentType,
+      content_sub_type: variant.contentSubType,
+      audience: variant.audience,
+      lifecycle: variant.lifecycle,
+    },
+    words_to_avoid: [...variant.wordsToAvoid],
+    labels,
+    recorded_llm: {},
+    provenance: {
+      source: 'production',
+      variant_id: variant.id,
+      captured_at: capturedAt,
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { COMPLIANCE_PROMPT_VERSION } from '@/lib/prompts/compliance';
+import { anchorContextHash } from '@/lib/finding-anchor';
+import goldenJson from './golden.json';
+import {
+  EvalCaseSchema,
+  EvalCorpusSchema,
+  caseFromReviewedVariant,
+} from './corpus';
+import {
+  evaluateCorpus,
+  formatReport,
+  liveLlmPass,
+  recordedLlmPass,
+} from './runner';
+import { recall } from './score';
+
+// Runs the golden set against the recorded LLM responses on every test
+// run. To see the full report, or to score the current prompt live:
+//
+//   COMPLIANCE_EVAL_REPORT=1 npx vitest run compliance-eval --reporter=verbose
+//   COMPLIANCE_EVAL_LIVE=1 ANTHROPIC_API_KEY=… npx vitest run compliance-eval --reporter=verbose
+const env = import.meta.env;
+
+// PRD §10: automated compliance catches ≥80% of issues human reviewers flag.
+const RECALL_TARGET = 0.8;
+
+const corpus = EvalCorpusSchema.parse(goldenJson);
+
+describe('compliance golden set', () => {
+  it('meets the recall target for the current prompt version', async () => {
+    const live = Boolean(env.COMPLIANCE_EVAL_LIVE);
+    const reports = await evaluateCorpus(
+      corpus,
+      live ? liveLlmPass(env.ANTHROPIC_API_KEY) : recordedLlmPass,
+      [COMPLIANCE_PROMPT_VERSION],
+    );
+    if (live || env.COMPLIANCE_EVAL_REPORT) {
+      console.info(reports.map(formatReport).join('\n\n'));
+    }
+
+    const current = reports.find(
+      (r) => r.promptVersion === COMPLIANCE_PROMPT_VERSION,
+    );
+    expect(current?.cases).toBe(corpus.cases.length);
+    expect(current?.llmErrors).toBe(0);
+    expect(recall(current!.overall)).toBeGreaterThanOrEqual(RECALL_TARGET);
+  }, 120_000);
+
+  it('scores the rule library alone below the combined pipeline', async () => {
+    const [deterministic, combined] = await evaluateCorpus(
+      corpus,
+      recordedLlmPass,
+      [COMPLIANCE_PROMPT_VERSION],
+    );
+    expect(deterministic.promptVersion).toBeNull();
+    expect(recall(deterministic.overall)!).toBeLessThan(
+      recall(combined.overall)!,
+    );
+    expect(deterministic.byRule.find((r) => r.name === '奇跡')).toMatchObject({
+      predictions: 2,
+      correct: 2,
+      caught: 2,
+    });
+  });
+
+  it('rejects a label whose offsets do not select its text', () => {
+    const [first] = corpus.cases;
+    const result = EvalCaseSchema.safeParse({
+      ...first,
+      labels: [{ ...first.labels[0], start: first.labels[0].start! + 1 }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('caseFromReviewedVariant', () => {
+  const body = '画期的な新薬。\n\n副作用はありません。';
+  const variant = {
+    id: '00000000-0000-4000-8000-0000000000aa',
+    body_text: body,
+    contentType: 'press_release',
+    contentSubType: 'auto',
+    audience: 'hcp',
+    lifecycle: 'approved' as const,
+    wordsToAvoid: [],
+  };
+  const finding = (text: string, resolution_status: string) => {
+    const start = body.indexOf(text);
+    return {
+      severity: 'blocker',
+      regulation_reference: '医薬品等適正広告基準 [LLM]',
+      resolution_status,
+      source_text: text,
+      paragraph_index: 2,
+      anchor_start: start,
+      anchor_end: start + text.length,
+      anchor_context_hash: anchorContextHash(body, start, start + text.length),
+    };
+  };
+
+  it('labels acknowledged findings at their anchors', () => {
+    const evalCase = caseFromReviewedVariant(
+      variant,
+      [
+        finding('副作用はありません', 'acknowledged'),
+        finding('画期的', 'unresolved'),
+      ],
+      '2026-10-01T00:00:00Z',
+    );
+    expect(evalCase?.labels).toEqual([
+      {
+        start: body.indexOf('副作用'),
+        end: body.indexOf('副作用') + 9,
+        source_text: '副作用はありません',
+        severity: 'blocker',
+        regulation_reference: '医薬品等適正広告基準',
+      },
+    ]);
+    expect(EvalCaseSchema.safeParse(evalCase).success).toBe(true);
+  });
+
+  it('labels unresolved manual findings as the reviewer filed them', () => {
+    const evalCase = caseFromReviewedVariant(
+      variant,
+      [
+        {
+          ...finding('画期的', 'unresolved'),
+          source: 'manual',
+          regulation_reference: '薬機法 第66条 [manual]',
+        },
+      ],
+      '2026-10-01T00:00:00Z',
+    );
+    expect(evalCase?.labels).toEqual([
+      {
+        start: 0,
+        end: 3,
+        source_text: '画期的',
+        severity: 'blocker',
+        regulation_reference: '薬機法 第66条',
+      },
+    ]);
+  });
+
+  it('returns null when no finding is acknowledged', () => {
+    expect(
+      caseFromReviewedVariant(
+        variant,
+        [finding('画期的', 'fixed')],
+        '2026-10-01T00:00:00Z',
+      ),
+    ).toBeNull();
+  });
+});
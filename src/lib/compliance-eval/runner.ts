@@ -0,0 +1,280 @@
+/**
+ * Offline compliance evaluation runner. Runs the same two passes as the
+ * compliance-check Edge Function over a labelled corpus — the deterministic
+ * rule set via runDeterministicChecks, and the LLM pass either replayed
+ * from `recorded_llm` or called live — anchors LLM findings the same way
+ * (locateFinding), and scores the result against the labels.
+ *
+ * One report per prompt version: a version is scored over the cases that
+ * have a response for it, so recordings for an old prompt stay comparable
+ * with a new one. A deterministic-only report (promptVersion null) covers
+ * every case and shows how much the rule library catches on its own.
+ */
+import {
+  CLAUDE_MODELS,
+  COMPLIANCE_PROMPT_VERSION,
+  COMPLIANCE_SYSTEM,
+  ComplianceResponseSchema,
+  buildComplianceUserMessage,
+  runDeterministicChecks,
+  type ComplianceFinding,
+} from '@/lib/prompts/compliance';
+import { locateFinding, WHOLE_BODY_SOURCE_TEXT } from '@/lib/finding-anchor';
+import type { EvalCase, EvalCorpus } from './corpus';
+import {
+  EMPTY_COUNTS,
+  LLM_RULE,
+  WORDS_TO_AVOID_RULE,
+  addCounts,
+  caughtAs,
+  precision,
+  recall,
+  scoreCase,
+  severityAgreement,
+  type EvalCounts,
+  type EvalPrediction,
+} from './score';
+
+// Returns the raw response text for a case, or null when there is none
+// for this prompt version.
+export type LlmPass = (
+  evalCase: EvalCase,
+  promptVersion: string,
+) => Promise<string | null>;
+
+export const recordedLlmPass: LlmPass = async (evalCase, promptVersion) =>
+  evalCase.recorded_llm[promptVersion] ?? null;
+
+// Calls the Messages API with the current prompt. Only the current
+// COMPLIANCE_PROMPT_VERSION can be run live.
+export function liveLlmPass(apiKey: string): LlmPass {
+  return async (evalCase, promptVersion) => {
+    if (promptVersion !== COMPLIANCE_PROMPT_VERSION) return null;
+    const res = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: CLAUDE_MODELS.compliance_check,
+        max_tokens: 4096,
+        system: COMPLIANCE_SYSTEM({ lifecycle: evalCase.scope.lifecycle }),
+        messages: [
+          {
+            role: 'user',
+            content: buildComplianceUserMessage(evalCase.body_text),
+          },
+        ],
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(
+        `LLM call for case ${evalCase.id} failed: HTTP ${res.status}`,
+      );
+    }
+    const body = (await res.json()) as {
+      content: { type: string; text?: string }[];
+    };
+    return body.content.find((b) => b.type === 'text')?.text ?? '';
+  };
+}
+
+// Same fence stripping and schema as compliance-check; null when the
+// response is unusable, which the report counts as an LLM error.
+export function parseLlmResponse(text: string): ComplianceFinding[] | null {
+  const fenceStripped = text.replace(
+    /^```(?:json)?\s*\n([\s\S]*?)\n```\s*$/,
+    '$1',
+  );
+  try {
+    const parsed = ComplianceResponseSchema.safeParse(
+      JSON.parse(fenceStripped),
+    );
+    return parsed.success ? parsed.data.findings : null;
+  } catch {
+    return null;
+  }
+}
+
+export function predictionsForCase(
+  evalCase: EvalCase,
+  rules: EvalCorpus['rule_set']['rules'],
+  llmFindings: readonly ComplianceFinding[],
+): EvalPrediction[] {
+  const deterministic = runDeterministicChecks(
+    evalCase.body_text,
+    evalCase.words_to_avoid,
+    rules,
+    {
+      contentType: evalCase.scope.content_type,
+      contentSubType: evalCase.scope.content_sub_type,
+      audience: evalCase.scope.audience,
+      lifecycle: evalCase.scope.lifecycle,
+    },
+  ).map((f): EvalPrediction => ({
+    start: f.start,
+    end: f.end,
+    located: true,
+    severity: f.severity,
+    regulation_reference: f.regulation_reference,
+    rule: f.rule_id ?? WORDS_TO_AVOID_RULE,
+  }));
+  const llm = llmFindings.map((f): EvalPrediction => {
+    const base = {
+      severity: f.severity,
+      regulation_reference: f.regulation_reference,
+      rule: LLM_RULE,
+    };
+    if (f.source_text === WHOLE_BODY_SOURCE_TEXT) {
+      return { ...base, start: null, end: null, located: true };
+    }
+    const anchor = locateFinding(
+      evalCase.body_text,
+      f.source_text,
+      f.paragraph_index,
+    );
+    return anchor
+      ? { ...base, start: anchor.start, end: anchor.end, located: true }
+      : { ...base, start: null, end: null, located: false };
+  });
+  return [...deterministic, ...llm];
+}
+
+// Per rule, `labels` is every label in the scored cases, so recall reads as
+// the share of all labelled issues that rule catches on its own.
+export interface RuleCounts extends EvalCounts {
+  rule: string;
+  // Pattern for library rules; the rule key otherwise.
+  name: string;
+}
+
+export interface EvalReport {
+  // null for the deterministic-only report.
+  promptVersion: string | null;
+  ruleSetVersion: number;
+  cases: number;
+  llmErrors: number;
+  overall: EvalCounts;
+  byRule: RuleCounts[];
+  byRegulation: Record<string, EvalCounts>;
+}
+
+export async function evaluateCorpus(
+  corpus: EvalCorpus,
+  llm: LlmPass,
+  promptVersions: readonly string[],
+): Promise<EvalReport[]> {
+  const ruleNames = new Map(
+    corpus.rule_set.rules.map((r) => [r.id, r.pattern]),
+  );
+  const versions: (string | null)[] = [null, ...promptVersions];
+  const reports: EvalReport[] = [];
+
+  for (const promptVersion of versions) {
+    let cases = 0;
+    let llmErrors = 0;
+    let overall = EMPTY_COUNTS;
+    const byRule = new Map<string, EvalCounts>();
+    const byRegulation: Record<string, EvalCounts> = {};
+    const addRule = (rule: string, delta: Partial<EvalCounts>) =>
+      byRule.set(rule, addCounts(byRule.get(rule) ?? EMPTY_COUNTS, delta));
+
+    for (const evalCase of corpus.cases) {
+      let llmFindings: ComplianceFinding[] = [];
+      if (promptVersion !== null) {
+        const text = await llm(evalCase, promptVersion);
+        if (text === null) continue;
+        const parsed = parseLlmResponse(text);
+        if (parsed === null) llmErrors += 1;
+        llmFindings = parsed ?? [];
+      }
+      cases += 1;
+
+      const predictions = predictionsForCase(
+        evalCase,
+        corpus.rule_set.rules,
+        llmFindings,
+      );
+      const score = scoreCase(evalCase.labels, predictions);
+
+      predictions.forEach((p, i) =>
+        addRule(p.rule, { predictions: 1, correct: score.correct[i] ? 1 : 0 }),
+      );
+      overall = addCounts(overall, {
+        predictions: predictions.length,
+        correct: score.correct.filter(Boolean).length,
+      });
+
+      evalCase.labels.forEach((label, i) => {
+        const hits = score.hits[i];
+        const severity = caughtAs(hits, predictions);
+        const delta = {
+          labels: 1,
+          caught: severity ? 1 : 0,
+          severityAgreed: severity === label.severity ? 1 : 0,
+        };
+        overall = addCounts(overall, delta);
+        byRegulation[label.regulation_reference] = addCounts(
+          byRegulation[label.regulation_reference] ?? EMPTY_COUNTS,
+          delta,
+        );
+        for (const rule of new Set(predictions.map((p) => p.rule))) {
+          const ruleSeverity = caughtAs(
+            hits.filter((h) => predictions[h].rule === rule),
+            predictions,
+          );
+          addRule(rule, {
+            caught: ruleSeverity ? 1 : 0,
+            severityAgreed: ruleSeverity === label.severity ? 1 : 0,
+          });
+        }
+      });
+    }
+
+    reports.push({
+      promptVersion,
+      ruleSetVersion: corpus.rule_set.version,
+      cases,
+      llmErrors,
+      overall,
+      byRule: [...byRule].map(([rule, counts]) => ({
+        ...counts,
+        labels: overall.labels,
+        rule,
+        name: ruleNames.get(rule) ?? rule,
+      })),
+      byRegulation,
+    });
+  }
+  return reports;
+}
+
+const pct = (n: number | null) =>
+  n === null ? '—' : `${(n * 100).toFixed(1)}%`;
+
+export function formatReport(report: EvalReport): string {
+  const { overall } = report;
+  const lines = [
+    `prompt ${report.promptVersion ?? '(deterministic only)'} · rule set v${report.ruleSetVersion} · ${report.cases} cases` +
+      (report.llmErrors > 0
+        ? ` · ${report.llmErrors} unparseable LLM responses`
+        : ''),
+    `  precision ${pct(precision(overall))} (${overall.correct}/${overall.predictions})` +
+      `  recall ${pct(recall(overall))} (${overall.caught}/${overall.labels})` +
+      `  severity agreement ${pct(severityAgreement(overall))}`,
+    '  by rule:',
+    ...report.byRule.map(
+      (r) =>
+        `    ${r.name}: precision ${pct(precision(r))} (${r.correct}/${r.predictions})` +
+        `  recall ${pct(recall(r))}  severity agreement ${pct(severityAgreement(r))}`,
+    ),
+    '  by regulation:',
+    ...Object.entries(report.byRegulation).map(
+      ([reg, c]) =>
+        `    ${reg}: recall ${pct(recall(c))} (${c.caught}/${c.labels})  severity agreement ${pct(severityAgreement(c))}`,
+    ),
+  ];
+  return lines.join('\n');
+}
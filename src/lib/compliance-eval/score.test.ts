@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { caughtAs, scoreCase, type EvalPrediction } from './score';
+import type { EvalLabel } from './corpus';
+
+const label = (overrides: Partial<EvalLabel>): EvalLabel => ({
+  start: 10,
+  end: 15,
+  source_text: '画期的な薬',
+  severity: 'blocker',
+  regulation_reference: '薬機法 第66条',
+  ...overrides,
+});
+
+const prediction = (overrides: Partial<EvalPrediction>): EvalPrediction => ({
+  start: 10,
+  end: 13,
+  located: true,
+  severity: 'blocker',
+  regulation_reference: '薬機法 第66条 [deterministic]',
+  rule: 'r1',
+  ...overrides,
+});
+
+describe('scoreCase', () => {
+  it('matches spans that overlap, not ones that only touch', () => {
+    const score = scoreCase(
+      [label({})],
+      [prediction({ start: 12, end: 20 }), prediction({ start: 15, end: 18 })],
+    );
+    expect(score.correct).toEqual([true, false]);
+    expect(score.hits).toEqual([[0]]);
+  });
+
+  it('matches whole-body labels by regulation, ignoring the source tag', () => {
+    const score = scoreCase(
+      [label({ start: null, end: null, regulation_reference: '必須開示' })],
+      [
+        prediction({
+          start: null,
+          end: null,
+          regulation_reference: '必須開示 [LLM]',
+        }),
+        prediction({
+          start: null,
+          end: null,
+          regulation_reference: '臨床表現 [deterministic]',
+        }),
+      ],
+    );
+    expect(score.correct).toEqual([true, false]);
+  });
+
+  it('never matches an LLM finding that could not be located', () => {
+    const score = scoreCase(
+      [label({ start: null, end: null })],
+      [prediction({ start: null, end: null, located: false, rule: 'llm' })],
+    );
+    expect(score.correct).toEqual([false]);
+    expect(score.hits).toEqual([[]]);
+  });
+});
+
+describe('caughtAs', () => {
+  it('reports the most severe matching finding, null when missed', () => {
+    const predictions = [
+      prediction({ severity: 'note' }),
+      prediction({ severity: 'warning' }),
+    ];
+    expect(caughtAs([0, 1], predictions)).toBe('warning');
+    expect(caughtAs([], predictions)).toBeNull();
+  });
+});
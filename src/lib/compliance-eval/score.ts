@@ -0,0 +1,119 @@
+/**
+ * Scoring for the offline compliance evaluation. Pure functions over a
+ * case's labels and the findings the pipeline produced for it.
+ *
+ * Matching is by location, not wording:
+ *   - a spanned finding matches a spanned label when the spans overlap;
+ *   - a whole-body finding matches a whole-body label citing the same
+ *     regulation (source tag ignored).
+ * Several findings may match one label (the deterministic and LLM passes
+ * often flag the same phrase, and the review UI shows both), so:
+ *   precision          = findings matching some label / findings
+ *   recall             = labels matched by some finding / labels
+ *   severity agreement = caught labels whose most severe matching finding
+ *                        has the labelled severity / caught labels
+ * An LLM finding whose text could not be located in the body matches
+ * nothing and counts against precision.
+ */
+import { SEVERITY_ORDER } from '@/lib/severity';
+import type { ComplianceSeverity } from '@/types/domain';
+import { baseRegulation, type EvalLabel } from './corpus';
+
+export interface EvalPrediction {
+  start: number | null;
+  end: number | null;
+  // False for an LLM finding that names text the body doesn't contain.
+  located: boolean;
+  severity: ComplianceSeverity;
+  regulation_reference: string;
+  // Library rule id, WORDS_TO_AVOID_RULE or LLM_RULE.
+  rule: string;
+}
+
+export const WORDS_TO_AVOID_RULE = 'words_to_avoid';
+export const LLM_RULE = 'llm';
+
+export interface CaseScore {
+  // Per prediction: did it match a label?
+  correct: boolean[];
+  // Per label: indices of the predictions that match it.
+  hits: number[][];
+}
+
+function matches(label: EvalLabel, p: EvalPrediction): boolean {
+  if (!p.located) return false;
+  if (label.start === null || label.end === null) {
+    return (
+      p.start === null &&
+      baseRegulation(p.regulation_reference) ===
+        baseRegulation(label.regulation_reference)
+    );
+  }
+  return (
+    p.start !== null &&
+    p.end !== null &&
+    p.start < label.end &&
+    label.start < p.end
+  );
+}
+
+export function scoreCase(
+  labels: readonly EvalLabel[],
+  predictions: readonly EvalPrediction[],
+): CaseScore {
+  return {
+    correct: predictions.map((p) => labels.some((l) => matches(l, p))),
+    hits: labels.map((l) =>
+      predictions.flatMap((p, i) => (matches(l, p) ? [i] : [])),
+    ),
+  };
+}
+
+// The severity a reviewer would see for a label: the most severe of the
+// findings that caught it, or null when it was missed.
+export function caughtAs(
+  hits: readonly number[],
+  predictions: readonly EvalPrediction[],
+): ComplianceSeverity | null {
+  if (hits.length === 0) return null;
+  return hits
+    .map((i) => predictions[i].severity)
+    .reduce((a, b) =>
+      SEVERITY_ORDER.indexOf(b) < SEVERITY_ORDER.indexOf(a) ? b : a,
+    );
+}
+
+export interface EvalCounts {
+  labels: number;
+  caught: number;
+  severityAgreed: number;
+  predictions: number;
+  correct: number;
+}
+
+export const EMPTY_COUNTS: EvalCounts = {
+  labels: 0,
+  caught: 0,
+  severityAgreed: 0,
+  predictions: 0,
+  correct: 0,
+};
+
+export function addCounts(a: EvalCounts, b: Partial<EvalCounts>): EvalCounts {
+  return {
+    labels: a.labels + (b.labels ?? 0),
+    caught: a.caught + (b.caught ?? 0),
+    severityAgreed: a.severityAgreed + (b.severityAgreed ?? 0),
+    predictions: a.predictions + (b.predictions ?? 0),
+    correct: a.correct + (b.correct ?? 0),
+  };
+}
+
+// Ratios are null when the denominator is zero, so "no labels" never reads
+// as perfect recall.
+const ratio = (n: number, d: number): number | null => (d === 0 ? null : n / d);
+
+export const precision = (c: EvalCounts) => ratio(c.correct, c.predictions);
+export const recall = (c: EvalCounts) => ratio(c.caught, c.labels);
+export const severityAgreement = (c: EvalCounts) =>
+  ratio(c.severityAgreed, c.caught);
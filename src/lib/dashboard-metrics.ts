@@ -27,7 +27,12 @@ export interface DraftAuditItem {
   project_name: string | null;
 }
 
-const TERMINAL_STATUSES = ['delivered', 'feedback_received', 'completed'];
+const TERMINAL_STATUSES = [
+  'delivered',
+  'feedback_received',
+  'completed',
+  'no_feedback',
+];
 
 function startOfLocalDay(d: Date): number {
   return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
@@ -1,8 +1,12 @@
 // P0004 error codes raised by Phase 5 RPCs (create_delivery, mark_delivery_*,
-// record_scheduled_attempt_failure, get_firm_config_public). The codes come
-// through useCreateDelivery's FunctionsHttpError unwrap and the composer
-// surfaces them in a destructive Alert via BilingualLabel — same pattern as
-// Phase 4's SignAuditDialog GATE_MESSAGES.
+// record_scheduled_attempt_failure, get_firm_config_public) and by
+// reschedule_delivery / cancel_delivery / retry_delivery (migrations 0034
+// and 0035), and by the embargo guard and set_project_scheduling_rules
+// (migration 0036).
+// The codes come through useCreateDelivery's FunctionsHttpError unwrap (or
+// straight from supabase.rpc for the list-page actions) and are surfaced in
+// a destructive Alert via BilingualLabel — same pattern as Phase 4's
+// SignAuditDialog GATE_MESSAGES.
 //
 // Server-side codes are authoritative; if a new gate is added in a future
 // migration without an entry here, the raw code string falls through to the
@@ -65,6 +69,14 @@ const GATE_MESSAGES: Record<string, { ja: string; en: string }> = {
     ja: '添付形式が不正です。',
     en: 'Invalid attachment format.',
   },
+  audit_archive_missing: {
+    ja: '監査レポートのアーカイブPDFがまだありません。バージョン履歴から生成してから送信してください。',
+    en: 'The audit report has no archival PDF yet. Generate it from the version history, then send.',
+  },
+  comparison_summary_invalid: {
+    ja: 'バリアント比較の各行は、添付する案ごとに1行・500文字以内で入力してください。',
+    en: 'Each comparison line must belong to an attached variant and be 1–500 characters.',
+  },
   scheduled_in_past: {
     ja: '予約送信時刻が過去になっています。未来の時刻を指定してください。',
     en: 'Scheduled time is in the past. Pick a future time.',
@@ -81,6 +93,50 @@ const GATE_MESSAGES: Record<string, { ja: string; en: string }> = {
     ja: 'この配信はすでに送信または失敗状態です。',
     en: 'This delivery is no longer pending (already sent or failed).',
   },
+  delivery_not_scheduled: {
+    ja: 'この配信は予約中ではありません。一覧を更新してください。',
+    en: 'This delivery is no longer scheduled. Refresh the list.',
+  },
+  scheduled_send_not_found: {
+    ja: 'この配信の予約が見つかりません。',
+    en: 'No scheduled send was found for this delivery.',
+  },
+  scheduling_warnings_invalid: {
+    ja: '送信タイミングの確認内容が不正です。',
+    en: 'The acknowledged scheduling warnings are invalid.',
+  },
+  cancellation_reason_invalid: {
+    ja: '取り消し理由を1〜1000文字で入力してください。',
+    en: 'Enter a cancellation reason of 1–1000 characters.',
+  },
+  delivery_not_failed: {
+    ja: '再送できるのは失敗した配信のみです。',
+    en: 'Only failed deliveries can be retried.',
+  },
+  delivery_send_unreconciled: {
+    ja: 'このメールは送信済みですが記録に失敗しています。二重送信を防ぐため再送できません。管理者に確認してください。',
+    en: 'This email was sent but recording it failed. It cannot be retried without sending it twice; ask an administrator to reconcile it.',
+  },
+  delivery_send_in_progress: {
+    ja: 'この配信は現在送信処理中です。しばらくしてから一覧を更新してください。',
+    en: 'This delivery is being sent right now. Refresh the list in a moment.',
+  },
+  embargo_not_lifted: {
+    ja: 'このプロジェクトのエンバーゴ解除前です。解除時刻以降に送信または予約してください。',
+    en: "The project's embargo has not lifted yet. Send or schedule the delivery for the lift time or later.",
+  },
+  embargo_lift_required: {
+    ja: 'エンバーゴを強制するには解除時刻を指定してください。',
+    en: 'Set an embargo lift time before enforcing the embargo.',
+  },
+  embargo_label_invalid: {
+    ja: 'エンバーゴの名称は200文字以内で入力してください。',
+    en: 'Keep the embargo label to 200 characters or fewer.',
+  },
+  embargo_conflicts_scheduled: {
+    ja: '解除時刻より前に予約された配信、または送信中の配信があります。予約を変更または取り消すか、送信の完了を待ってから強制してください。',
+    en: 'Deliveries are scheduled before the lift time or being sent right now. Reschedule or cancel them, or wait for the send to finish, before enforcing the embargo.',
+  },
 };
 
 export function explainDeliveryError(
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { buildMimeMessage } from "../../supabase/functions/_shared/mime";
+import { parseEml } from "./eml";
+
+const PDF_BASE64 = btoa("%PDF-1.7 test");
+
+describe("parseEml", () => {
+  it("reads back what the capture transport writes", () => {
+    const raw = buildMimeMessage(
+      {
+        from: "株式会社テスト 広報部 <pr@firm.example>",
+        to: "editor@media.example",
+        cc: ["desk@media.example"],
+        bcc: ["archive@firm.example"],
+        reply_to: "reply@firm.example",
+        subject: "新製品「テスト錠」の発売に関するお知らせ（第二報・詳細版）",
+        text: "本文です。\n\n.先頭のドット",
+        html: "<p>本文です。</p>",
+        attachments: [{ filename: "発表資料.pdf", content: PDF_BASE64 }],
+        idempotencyKey: "delivery-1",
+      },
+      {
+        messageId: "delivery-1@firm.example",
+        date: new Date("2026-10-19T09:00:00Z"),
+        includeBcc: true,
+      },
+    );
+    const email = parseEml(raw);
+    expect(email).toMatchObject({
+      from: "株式会社テスト 広報部 <pr@firm.example>",
+      to: "editor@media.example",
+      cc: "desk@media.example",
+      bcc: "archive@firm.example",
+      replyTo: "reply@firm.example",
+      subject: "新製品「テスト錠」の発売に関するお知らせ（第二報・詳細版）",
+      date: "Mon, 19 Oct 2026 09:00:00 GMT",
+      messageId: "delivery-1@firm.example",
+      text: "本文です。\n\n.先頭のドット",
+      html: "<p>本文です。</p>",
+    });
+    expect(email.attachments).toEqual([
+      {
+        filename: "発表資料.pdf",
+        contentType: "application/pdf",
+        content: PDF_BASE64,
+        sizeBytes: 13,
+      },
+    ]);
+  });
+
+  it("keeps every header line within the RFC 5322 limit", () => {
+    const raw = buildMimeMessage(
+      {
+        from: "pr@firm.example",
+        to: "editor@media.example",
+        subject: "長い件名".repeat(20),
+        text: "x",
+        idempotencyKey: "k",
+      },
+      { messageId: "k@firm.example", date: new Date() },
+    );
+    for (const line of raw.split("\r\n")) {
+      expect(line.length).toBeLessThanOrEqual(78);
+    }
+    expect(parseEml(raw).subject).toBe("長い件名".repeat(20));
+  });
+
+  it("reads a plain quoted-printable message", () => {
+    const email = parseEml(
+      [
+        "From: a@example.com",
+        "Subject: =?UTF-8?Q?caf=C3=A9?=",
+        "Content-Type: text/plain; charset=UTF-8",
+        "Content-Transfer-Encoding: quoted-printable",
+        "",
+        "caf=C3=A9 =",
+        "au lait",
+      ].join("\r\n"),
+    );
+    expect(email.subject).toBe("café");
+    expect(email.text).toBe("café au lait");
+    expect(email.html).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+// Reads back the .eml files the capture email transport writes
+// (supabase/functions/_shared/mime.ts) for the dev inbox. Handles what
+// that serialiser produces — multipart/mixed and /alternative, base64 and
+// quoted-printable parts, RFC 2047 encoded-words — not every MIME message
+// in the wild.
+
+export interface EmlAttachment {
+  filename: string;
+  contentType: string;
+  // base64, without line breaks
+  content: string;
+  sizeBytes: number;
+}
+
+export interface ParsedEml {
+  from: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  replyTo: string;
+  subject: string;
+  date: string;
+  messageId: string;
+  text: string | null;
+  html: string | null;
+  attachments: EmlAttachment[];
+}
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  body: string;
+}
+
+export function parseEml(raw: string): ParsedEml {
+  const root = parseEntity(raw.replace(/\r\n/g, "\n"));
+  const parsed: ParsedEml = {
+    from: header(root, "from"),
+    to: header(root, "to"),
+    cc: header(root, "cc"),
+    bcc: header(root, "bcc"),
+    replyTo: header(root, "reply-to"),
+    subject: header(root, "subject"),
+    date: header(root, "date"),
+    messageId: header(root, "message-id").replace(/^<|>$/g, ""),
+    text: null,
+    html: null,
+    attachments: [],
+  };
+  collectParts(root, parsed);
+  return parsed;
+}
+
+function parseEntity(source: string): MimeEntity {
+  const split = source.indexOf("\n\n");
+  const head = split >= 0 ? source.slice(0, split) : source;
+  const body = split >= 0 ? source.slice(split + 2) : "";
+  const headers = new Map<string, string>();
+  // Unfold continuation lines, then split "Name: value".
+  for (const line of head.replace(/\n[ \t]+/g, " ").split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    headers.set(
+      line.slice(0, colon).trim().toLowerCase(),
+      line.slice(colon + 1).trim(),
+    );
+  }
+  return { headers, body };
+}
+
+function header(entity: MimeEntity, name: string): string {
+  return decodeWords(entity.headers.get(name) ?? "");
+}
+
+function collectParts(entity: MimeEntity, out: ParsedEml): void {
+  const contentType = entity.headers.get("content-type") ?? "text/plain";
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  if (mediaType.startsWith("multipart/")) {
+    const boundary = param(contentType, "boundary");
+    if (!boundary) return;
+    for (const part of splitMultipart(entity.body, boundary)) {
+      collectParts(parseEntity(part), out);
+    }
+    return;
+  }
+  const disposition = entity.headers.get("content-disposition") ?? "";
+  const filename =
+    param(disposition, "filename") ?? param(contentType, "name") ?? null;
+  if (filename !== null || disposition.toLowerCase().startsWith("attachment")) {
+    const content = toBase64(entity);
+    out.attachments.push({
+      filename: decodeWords(filename ?? "attachment"),
+      contentType: mediaType,
+      content,
+      sizeBytes: Math.floor((content.length * 3) / 4) - padding(content),
+    });
+    return;
+  }
+  if (mediaType === "text/html" && out.html === null) {
+    out.html = decodeText(entity);
+  } else if (mediaType === "text/plain" && out.text === null) {
+    out.text = decodeText(entity);
+  }
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  for (const chunk of body.split(`\n${delimiter}`)) {
+    const part = chunk.startsWith(delimiter)
+      ? chunk.slice(delimiter.length)
+      : chunk;
+    if (part.startsWith("--")) break;
+    parts.push(part.replace(/^[ \t]*\n/, ""));
+  }
+  // Everything before the first delimiter is the preamble.
+  return body.startsWith(delimiter) ? parts : parts.slice(1);
+}
+
+function param(value: string, name: string): string | null {
+  const m = value.match(
+    new RegExp(
+      `;\\s*${name}\\s*=\\s*(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]+))`,
+      "i",
+    ),
+  );
+  if (!m) return null;
+  return m[1] !== undefined ? m[1].replace(/\\(.)/g, "$1") : m[2];
+}
+
+function encodingOf(entity: MimeEntity): string {
+  return (
+    entity.headers.get("content-transfer-encoding") ?? "7bit"
+  ).toLowerCase();
+}
+
+function decodeText(entity: MimeEntity): string {
+  const encoding = encodingOf(entity);
+  if (encoding === "base64") return utf8(base64ToBytes(entity.body));
+  if (encoding === "quoted-printable") return utf8(qpToBytes(entity.body));
+  return entity.body.replace(/\n$/, "");
+}
+
+function toBase64(entity: MimeEntity): string {
+  if (encodingOf(entity) === "base64") return entity.body.replace(/\s+/g, "");
+  const bytes =
+    encodingOf(entity) === "quoted-printable"
+      ? qpToBytes(entity.body)
+      : new TextEncoder().encode(entity.body);
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function padding(b64: string): number {
+  return b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0;
+}
+
+// RFC 2047: =?charset?B|Q?text?= ; whitespace between adjacent words drops.
+function decodeWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+      (_match, _charset: string, enc: string, text: string) =>
+        utf8(
+          enc.toUpperCase() === "B"
+            ? base64ToBytes(text)
+            : qpToBytes(text.replace(/_/g, " ")),
+        ),
+    );
+}
+
+function base64ToBytes(b64: string): Uint8Array {
+  const binary = atob(b64.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function qpToBytes(text: string): Uint8Array {
+  const unfolded = text.replace(/=\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < unfolded.length; i++) {
+    const hex = unfolded.slice(i + 1, i + 3);
+    if (unfolded[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(unfolded[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function utf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,159 @@
+/**
+ * Audit evidence bundle: everything needed to show what was reviewed and
+ * signed for one audit report, in a single JSON document that verifies
+ * offline (verify.ts, scripts/verify-evidence-bundle.ts).
+ *
+ * The bundle stands in for an archive: `files` maps archive-style paths to
+ * their contents and `manifest` maps the same paths to the SHA-256 of
+ * canonicalize(content). It carries the public keys its Ed25519 signatures
+ * name, so no network access is needed to check them.
+ *
+ *   project.json                      project + client name
+ *   reports/<report id>.json          the report and each prior version in
+ *                                     its previous_version_id chain, with
+ *                                     report_snapshot
+ *   variants/<report id>/<index>.txt  final variant texts per version
+ *   signatures/<signature id>.json    every signature on those reports,
+ *                                     invalidated ones included
+ *   keys.json                         JWK set for the signatures' key IDs
+ *   audit-trail.json                  the project's full audit trail,
+ *                                     hash-chained (migration 0027)
+ *
+ * Imports carry explicit .ts extensions and avoid the "@/" alias: this
+ * module and verify.ts also run under plain Node for the CLI.
+ */
+import { sha256Hex, type ChainedAuditEvent } from "../audit-chain.ts";
+import { canonicalize } from "../canonical-payload.ts";
+
+export const EVIDENCE_BUNDLE_FORMAT = "clearpress-evidence-bundle";
+export const EVIDENCE_BUNDLE_VERSION = 1;
+
+export interface BundleProject {
+  id: string;
+  name: string;
+  client_name: string | null;
+}
+
+export interface BundleReport {
+  id: string;
+  project_id: string;
+  report_id_display: string;
+  version: string | null;
+  status: string;
+  previous_version_id: string | null;
+  created_at: string;
+  finalized_at: string | null;
+  reviewer_comments: string | null;
+  signoff_roles: string[] | null;
+  report_snapshot: unknown;
+}
+
+export interface BundleSignature {
+  id: string;
+  audit_report_id: string;
+  signoff_role: string;
+  signer_id: string;
+  signer_name_snapshot: string;
+  signer_role_snapshot: string;
+  signed_at: string;
+  algorithm: string;
+  key_id: string | null;
+  signature_hash: string;
+  canonical_payload: unknown;
+  invalidated_at: string | null;
+  invalidated_reason: string | null;
+}
+
+// Same members the audit-signing-keys Edge Function publishes.
+export interface BundleKey {
+  kty: "OKP";
+  crv: "Ed25519";
+  kid: string;
+  x: string;
+  created_at: string;
+  retired_at: string | null;
+}
+
+// audit_trail_events rows as stored, chain columns included.
+export type BundleAuditEvent = ChainedAuditEvent;
+
+export interface EvidenceBundle {
+  format: typeof EVIDENCE_BUNDLE_FORMAT;
+  format_version: number;
+  generated_at: string;
+  // The report the bundle was exported for (the newest in `reports/`).
+  report_id: string;
+  manifest: Record<string, string>;
+  files: Record<string, unknown>;
+}
+
+export const PROJECT_PATH = "project.json";
+export const KEYS_PATH = "keys.json";
+export const AUDIT_TRAIL_PATH = "audit-trail.json";
+export const reportPath = (reportId: string) => `reports/${reportId}.json`;
+export const signaturePath = (signatureId: string) =>
+  `signatures/${signatureId}.json`;
+export const variantTextPath = (reportId: string, variantIndex: number) =>
+  `variants/${reportId}/${variantIndex}.txt`;
+
+// The manifest digest of one file. Text files are JSON strings, so they
+// hash as their quoted canonical form like everything else.
+export function fileDigest(content: unknown): Promise<string> {
+  return sha256Hex(canonicalize(content));
+}
+
+// Variant bodies from a report_snapshot (see src/types/audit-snapshot.ts).
+export function snapshotVariantTexts(
+  snapshot: unknown,
+): { variant_index: number; body_text: string }[] {
+  const variants = (snapshot as { variants?: unknown } | null)?.variants;
+  if (!Array.isArray(variants)) return [];
+  return variants.flatMap((v) =>
+    typeof v?.variant_index === "number" && typeof v?.body_text === "string"
+      ? [{ variant_index: v.variant_index, body_text: v.body_text }]
+      : [],
+  );
+}
+
+export interface EvidenceBundleInput {
+  project: BundleProject;
+  // The exported report first, then its predecessors.
+  reports: BundleReport[];
+  signatures: BundleSignature[];
+  keys: BundleKey[];
+  auditTrail: BundleAuditEvent[];
+  generatedAt: string;
+}
+
+export async function buildEvidenceBundle(
+  input: EvidenceBundleInput,
+): Promise<EvidenceBundle> {
+  const files: Record<string, unknown> = {
+    [PROJECT_PATH]: input.project,
+    [KEYS_PATH]: { keys: input.keys },
+    [AUDIT_TRAIL_PATH]: input.auditTrail,
+  };
+  for (const report of input.reports) {
+    files[reportPath(report.id)] = report;
+    for (const v of snapshotVariantTexts(report.report_snapshot)) {
+      files[variantTextPath(report.id, v.variant_index)] = v.body_text;
+    }
+  }
+  for (const signature of input.signatures) {
+    files[signaturePath(signature.id)] = signature;
+  }
+
+  const manifest: Record<string, string> = {};
+  for (const path of Object.keys(files).sort()) {
+    manifest[path] = await fileDigest(files[path]);
+  }
+
+  return {
+    format: EVIDENCE_BUNDLE_FORMAT,
+    format_version: EVIDENCE_BUNDLE_VERSION,
+    generated_at: input.generatedAt,
+    report_id: input.reports[0].id,
+    manifest,
+    files,
+  };
+}
@@ -0,0 +1,333 @@
+import { describe, it, expect } from "vitest";
+import { auditEventHash, type ChainedAuditEvent } from "../audit-chain";
+import { canonicalize } from "../canonical-payload";
+import {
+  AUDIT_TRAIL_PATH,
+  buildEvidenceBundle,
+  fileDigest,
+  reportPath,
+  signaturePath,
+  variantTextPath,
+  type BundleReport,
+  type BundleSignature,
+  type EvidenceBundle,
+} from "./format";
+import { verifyEvidenceBundle, type CheckCode } from "./verify";
+
+const SNAPSHOT_V1 = {
+  variants: [{ variant_index: 0, body_text: "旧リリース本文" }],
+};
+const SNAPSHOT_V2 = {
+  variants: [
+    { variant_index: 0, body_text: "新リリース本文" },
+    { variant_index: 1, body_text: "English release text" },
+  ],
+};
+
+function report(
+  id: string,
+  snapshot: unknown,
+  previous: string | null,
+): BundleReport {
+  return {
+    id,
+    project_id: "p1",
+    report_id_display: `CP-${id}`,
+    version: null,
+    status: previous ? "finalized" : "revised",
+    previous_version_id: previous,
+    created_at: "2026-10-01T00:00:00Z",
+    finalized_at: "2026-10-02T00:00:00Z",
+    reviewer_comments: null,
+    signoff_roles: ["reviewer"],
+    report_snapshot: snapshot,
+  };
+}
+
+async function auditTrail(): Promise<ChainedAuditEvent[]> {
+  const chained: ChainedAuditEvent[] = [];
+  for (const [i, type] of [
+    "variant_generated",
+    "compliance_checked",
+  ].entries()) {
+    const event: ChainedAuditEvent = {
+      id: `e${i + 1}`,
+      project_id: "p1",
+      audit_report_id: null,
+      event_type: type,
+      actor_type: "system",
+      actor_id: null,
+      actor_name_snapshot: null,
+      model_used: null,
+      occurred_at: "2026-10-01T00:00:00+00:00",
+      details: {},
+      chain_seq: i + 1,
+      prev_hash: chained[i - 1]?.event_hash ?? null,
+      event_hash: "",
+    };
+    event.event_hash = await auditEventHash(event);
+    chained.push(event);
+  }
+  return chained;
+}
+
+async function fixture() {
+  const trail = await auditTrail();
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const { x } = await crypto.subtle.exportKey("jwk", pair.publicKey);
+
+  const sign = async (
+    id: string,
+    r: BundleReport,
+  ): Promise<BundleSignature> => {
+    const payload = {
+      audit_trail_head: {
+        chain_seq: trail[1].chain_seq,
+        event_hash: trail[1].event_hash,
+      },
+      key_id: "k1",
+      report_id: r.id,
+      report_snapshot: r.report_snapshot,
+      signer_id: "u1",
+      signoff_role: "reviewer",
+    };
+    const sig = await crypto.subtle.sign(
+      { name: "Ed25519" },
+      pair.privateKey,
+      new TextEncoder().encode(canonicalize(payload)),
+    );
+    return {
+      id,
+      audit_report_id: r.id,
+      signoff_role: "reviewer",
+      signer_id: "u1",
+      signer_name_snapshot: "山田",
+      signer_role_snapshot: "reviewer",
+      signed_at: "2026-10-02T00:00:00Z",
+      algorithm: "ed25519",
+      key_id: "k1",
+      signature_hash: Array.from(new Uint8Array(sig))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join(""),
+      canonical_payload: payload,
+      invalidated_at: null,
+      invalidated_reason: null,
+    };
+  };
+
+  const v1 = report("r1", SNAPSHOT_V1, null);
+  const v2 = report("r2", SNAPSHOT_V2, "r1");
+  const key = {
+    kty: "OKP" as const,
+    crv: "Ed25519" as const,
+    kid: "k1",
+    x: x!,
+    created_at: "2026-01-01T00:00:00Z",
+    retired_at: null,
+  };
+  const bundle = await buildEvidenceBundle({
+    project: { id: "p1", name: "Launch", client_name: "Acme" },
+    reports: [v2, v1],
+    signatures: [await sign("s2", v2), await sign("s1", v1)],
+    keys: [key],
+    auditTrail: trail,
+    generatedAt: "2026-10-03T00:00:00Z",
+  });
+  return { bundle, key };
+}
+
+// Edit a file and re-seal its manifest entry, as a forger would.
+async function reseal(
+  bundle: EvidenceBundle,
+  path: string,
+  content: unknown,
+): Promise<EvidenceBundle> {
+  const files = { ...bundle.files, [path]: content };
+  const manifest = { ...bundle.manifest, [path]: await fileDigest(content) };
+  return { ...bundle, files, manifest };
+}
+
+function failures(checks: { code: CheckCode; status: string }[]) {
+  return checks.filter((c) => c.status === "fail").map((c) => c.code);
+}
+
+describe("verifyEvidenceBundle", () => {
+  it("passes an untouched bundle and its whole version chain", async () => {
+    const { bundle, key } = await fixture();
+
+    const result = await verifyEvidenceBundle(
+      JSON.parse(JSON.stringify(bundle)),
+      { publishedKeys: [key] },
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.counts.fail).toBe(0);
+    const codes = result.checks.map((c) => c.code);
+    expect(codes.filter((c) => c === "signature_valid")).toHaveLength(2);
+    expect(codes).toContain("chain_linked");
+    expect(codes).toContain("key_published");
+    expect(codes).toContain("audit_chain_intact");
+    expect(codes.filter((c) => c === "signature_head_in_trail")).toHaveLength(
+      2,
+    );
+    expect(codes.filter((c) => c === "variant_text_match")).toHaveLength(3);
+  });
+
+  it("skips the key comparison when no published keys are given", async () => {
+    const { bundle } = await fixture();
+
+    const result = await verifyEvidenceBundle(bundle);
+
+    expect(result.ok).toBe(true);
+    expect(result.checks).toContainEqual({
+      code: "keys_not_compared",
+      status: "skipped",
+      subject: "keys.json",
+    });
+  });
+
+  it("flags a file edited without updating the manifest", async () => {
+    const { bundle } = await fixture();
+    const path = variantTextPath("r2", 1);
+    bundle.files[path] = "Edited text";
+
+    const result = await verifyEvidenceBundle(bundle);
+
+    expect(result.ok).toBe(false);
+    expect(result.checks).toContainEqual({
+      code: "file_digest_mismatch",
+      status: "fail",
+      subject: path,
+    });
+    expect(result.checks).toContainEqual({
+      code: "variant_text_mismatch",
+      status: "fail",
+      subject: path,
+    });
+  });
+
+  it("flags a re-sealed snapshot the signatures do not cover", async () => {
+    const { bundle } = await fixture();
+    const r2 = bundle.files[reportPath("r2")] as BundleReport;
+    const forged = await reseal(bundle, reportPath("r2"), {
+      ...r2,
+      report_snapshot: { variants: [] },
+    });
+
+    const result = await verifyEvidenceBundle(forged);
+
+    expect(failures(result.checks)).toEqual(["signature_snapshot_mismatch"]);
+  });
+
+  it("flags a re-sealed signed payload", async () => {
+    const { bundle } = await fixture();
+    const s2 = bundle.files[signaturePath("s2")] as BundleSignature;
+    const forged = await reseal(bundle, signaturePath("s2"), {
+      ...s2,
+      canonical_payload: {
+        ...(s2.canonical_payload as object),
+        signer_id: "u9",
+      },
+    });
+
+    const result = await verifyEvidenceBundle(forged);
+
+    expect(failures(result.checks)).toEqual([
+      "signature_invalid",
+      "signature_fields_mismatch",
+    ]);
+  });
+
+  it("reports the first broken link in a re-sealed audit trail", async () => {
+    const { bundle } = await fixture();
+    const trail = bundle.files[AUDIT_TRAIL_PATH] as ChainedAuditEvent[];
+    const forged = await reseal(bundle, AUDIT_TRAIL_PATH, [
+      trail[0],
+      { ...trail[1], details: { edited: true } },
+    ]);
+
+    const result = await verifyEvidenceBundle(forged);
+
+    expect(failures(result.checks)).toEqual(["audit_chain_event_altered"]);
+    expect(result.checks).toContainEqual({
+      code: "audit_chain_event_altered",
+      status: "fail",
+      subject: "audit-trail.json #2 (e2)",
+    });
+  });
+
+  it("flags a trail cut back to before the signed head", async () => {
+    const { bundle } = await fixture();
+    const trail = bundle.files[AUDIT_TRAIL_PATH] as ChainedAuditEvent[];
+    const forged = await reseal(bundle, AUDIT_TRAIL_PATH, [trail[0]]);
+
+    const result = await verifyEvidenceBundle(forged);
+
+    expect(failures(result.checks)).toEqual([
+      "signature_head_not_in_trail",
+      "signature_head_not_in_trail",
+    ]);
+  });
+
+  it("flags missing and unlisted files and a broken chain", async () => {
+    const { bundle } = await fixture();
+    delete bundle.files[reportPath("r1")];
+    delete bundle.manifest[reportPath("r1")];
+    bundle.files["extra.json"] = {};
+    delete bundle.files["audit-trail.json"];
+
+    const codes = failures((await verifyEvidenceBundle(bundle)).checks);
+
+    expect(codes).toContain("file_missing");
+    expect(codes).toContain("file_unlisted");
+    expect(codes).toContain("chain_broken");
+  });
+
+  it("fails keys that differ from the published set", async () => {
+    const { bundle, key } = await fixture();
+
+    const result = await verifyEvidenceBundle(bundle, {
+      publishedKeys: [{ kid: key.kid, x: "AAAA" }],
+    });
+
+    expect(failures(result.checks)).toEqual(["key_not_published"]);
+  });
+
+  it("skips legacy HMAC signatures", async () => {
+    const { bundle } = await fixture();
+    const s1 = bundle.files[signaturePath("s1")] as BundleSignature;
+    const legacy = await reseal(bundle, signaturePath("s1"), {
+      ...s1,
+      algorithm: "hmac-sha256",
+      key_id: null,
+      canonical_payload: {
+        report_id: "r1",
+        report_snapshot: SNAPSHOT_V1,
+      },
+    });
+
+    const result = await verifyEvidenceBundle(legacy);
+
+    expect(result.ok).toBe(true);
+    expect(result.checks).toContainEqual({
+      code: "signature_head_absent",
+      status: "skipped",
+      subject: signaturePath("s1"),
+    });
+    expect(result.checks).toContainEqual({
+      code: "signature_legacy",
+      status: "skipped",
+      subject: signaturePath("s1"),
+    });
+  });
+
+  it("rejects input that is not a bundle", async () => {
+    const result = await verifyEvidenceBundle({ hello: "world" });
+
+    expect(result.ok).toBe(false);
+    expect(result.checks.map((c) => c.code)).toEqual(["format_unrecognized"]);
+  });
+});
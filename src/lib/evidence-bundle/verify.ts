@@ -0,0 +1,465 @@
+/**
+ * Offline verifier for audit evidence bundles (format.ts). Re-runs
+ * canonicalize() and the signature checks on a bundle and reports every
+ * check, passing or not, so the reader sees exactly what matched.
+ *
+ * Shared by the in-app verify page and scripts/verify-evidence-bundle.ts;
+ * like format.ts it imports with .ts extensions and no "@/" alias.
+ *
+ * A bundle carries its own public keys. Those prove the signatures are
+ * internally consistent; pass `publishedKeys` (fetched independently from
+ * the audit-signing-keys endpoint) to also prove the keys are ours.
+ */
+import { verifyAuditChain, type AuditChainBreak } from "../audit-chain.ts";
+import { canonicalize, verifyEd25519Hex } from "../canonical-payload.ts";
+import {
+  AUDIT_TRAIL_PATH,
+  EVIDENCE_BUNDLE_FORMAT,
+  EVIDENCE_BUNDLE_VERSION,
+  KEYS_PATH,
+  fileDigest,
+  type BundleAuditEvent,
+  snapshotVariantTexts,
+  variantTextPath,
+  type BundleKey,
+  type BundleReport,
+  type BundleSignature,
+} from "./format.ts";
+
+export type CheckStatus = "pass" | "fail" | "skipped";
+
+export const CHECK_INFO = {
+  format_unrecognized: {
+    status: "fail",
+    ja: "ClearPress の証跡バンドルではありません",
+    en: "Not a ClearPress evidence bundle",
+  },
+  format_version_unsupported: {
+    status: "fail",
+    ja: "この検証ツールより新しい形式のバンドルです",
+    en: "Bundle format is newer than this verifier",
+  },
+  file_digest_match: {
+    status: "pass",
+    ja: "ダイジェストがマニフェストと一致",
+    en: "Digest matches the manifest",
+  },
+  file_digest_mismatch: {
+    status: "fail",
+    ja: "ダイジェストがマニフェストと不一致（改変あり）",
+    en: "Digest differs from the manifest (file altered)",
+  },
+  file_missing: {
+    status: "fail",
+    ja: "マニフェストに記載されているがファイルがありません",
+    en: "Listed in the manifest but missing",
+  },
+  file_unlisted: {
+    status: "fail",
+    ja: "マニフェストに記載のないファイルです",
+    en: "Present but not listed in the manifest",
+  },
+  keys_not_compared: {
+    status: "skipped",
+    ja: "公開鍵セットとの照合は行っていません",
+    en: "Keys not compared against the published key set",
+  },
+  key_published: {
+    status: "pass",
+    ja: "公開鍵セットの鍵と一致",
+    en: "Key matches the published key set",
+  },
+  key_not_published: {
+    status: "fail",
+    ja: "公開鍵セットに含まれない鍵です",
+    en: "Key is not in the published key set",
+  },
+  signature_valid: {
+    status: "pass",
+    ja: "Ed25519 署名は有効です",
+    en: "Ed25519 signature is valid",
+  },
+  signature_invalid: {
+    status: "fail",
+    ja: "Ed25519 署名が署名対象と一致しません",
+    en: "Ed25519 signature does not match its payload",
+  },
+  signature_key_missing: {
+    status: "fail",
+    ja: "署名鍵がバンドルに含まれていません",
+    en: "Signing key is not included in the bundle",
+  },
+  signature_legacy: {
+    status: "skipped",
+    ja: "旧方式の HMAC 署名のため、オフラインでは検証できません",
+    en: "Legacy HMAC signature; cannot be verified offline",
+  },
+  signature_fields_match: {
+    status: "pass",
+    ja: "署名記録が署名対象の内容と一致",
+    en: "Signature record agrees with its signed payload",
+  },
+  signature_fields_mismatch: {
+    status: "fail",
+    ja: "署名記録が署名対象の内容と一致しません",
+    en: "Signature record disagrees with its signed payload",
+  },
+  signature_covers_report: {
+    status: "pass",
+    ja: "署名がレポートの確定内容を対象としています",
+    en: "Signature covers the report's final snapshot",
+  },
+  signature_snapshot_mismatch: {
+    status: "fail",
+    ja: "署名対象がレポートの確定内容と異なります",
+    en: "Signed snapshot differs from the report's final snapshot",
+  },
+  report_missing: {
+    status: "fail",
+    ja: "対象のレポートがバンドルに含まれていません",
+    en: "The exported report is not in the bundle",
+  },
+  report_signoff_complete: {
+    status: "pass",
+    ja: "必要な役割の署名がすべて揃っています",
+    en: "Every required role has signed",
+  },
+  report_signoff_incomplete: {
+    status: "fail",
+    ja: "必要な役割の署名が揃っていません",
+    en: "Not every required role has signed",
+  },
+  variant_text_match: {
+    status: "pass",
+    ja: "本文がレポートの確定内容と一致",
+    en: "Text matches the report's final snapshot",
+  },
+  variant_text_mismatch: {
+    status: "fail",
+    ja: "本文がレポートの確定内容と一致しません",
+    en: "Text differs from the report's final snapshot",
+  },
+  chain_linked: {
+    status: "pass",
+    ja: "前バージョンがバンドルに含まれています",
+    en: "Previous version is in the bundle",
+  },
+  chain_broken: {
+    status: "fail",
+    ja: "前バージョンがバンドルに含まれていません",
+    en: "Previous version is missing from the bundle",
+  },
+  audit_chain_intact: {
+    status: "pass",
+    ja: "監査トレイルのハッシュチェーンは改ざんされていません",
+    en: "Audit trail hash chain is intact",
+  },
+  audit_chain_link_missing: {
+    status: "fail",
+    ja: "監査トレイルのイベントが削除または挿入されています",
+    en: "An audit trail event was deleted or inserted here",
+  },
+  audit_chain_link_mismatch: {
+    status: "fail",
+    ja: "監査トレイルのイベントが前のイベントとつながっていません",
+    en: "Audit trail event does not link to the one before it",
+  },
+  audit_chain_event_altered: {
+    status: "fail",
+    ja: "監査トレイルのイベントが記録後に変更されています",
+    en: "Audit trail event was altered after it was recorded",
+  },
+  signature_head_in_trail: {
+    status: "pass",
+    ja: "署名時点の監査トレイルがバンドルに含まれています",
+    en: "The audit trail as signed is in the bundle",
+  },
+  signature_head_not_in_trail: {
+    status: "fail",
+    ja: "署名時点の監査トレイルがバンドルと一致しません",
+    en: "The audit trail head this signature covers is not in the bundle",
+  },
+  signature_head_absent: {
+    status: "skipped",
+    ja: "監査トレイルのハッシュチェーン導入前の署名です",
+    en: "Signed before the audit trail was hash-chained",
+  },
+} as const satisfies Record<
+  string,
+  { status: CheckStatus; ja: string; en: string }
+>;
+
+export type CheckCode = keyof typeof CHECK_INFO;
+
+export interface BundleCheck {
+  code: CheckCode;
+  status: CheckStatus;
+  // The bundle path (or key ID) the check is about.
+  subject: string;
+}
+
+export interface BundleVerification {
+  ok: boolean;
+  checks: BundleCheck[];
+  counts: Record<CheckStatus, number>;
+}
+
+export interface VerifyBundleOptions {
+  // The key set published by the audit-signing-keys endpoint, obtained
+  // independently of the bundle.
+  publishedKeys?: Pick<BundleKey, "kid" | "x">[];
+}
+
+// Fields a signature row repeats from its signed payload. Legacy payloads
+// predate some of them; only fields present in the payload are compared.
+const SIGNED_FIELDS = [
+  "signer_id",
+  "signer_name_snapshot",
+  "signer_role_snapshot",
+  "signoff_role",
+  "key_id",
+] as const;
+
+const CHAIN_BREAK_CODE: Record<AuditChainBreak, CheckCode> = {
+  link_missing: "audit_chain_link_missing",
+  link_mismatch: "audit_chain_link_mismatch",
+  event_altered: "audit_chain_event_altered",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Object-valued files under a path prefix, as [path, content] pairs.
+function entriesUnder<T>(
+  files: Record<string, unknown>,
+  prefix: string,
+): [string, T][] {
+  return Object.entries(files).flatMap(([path, content]) =>
+    path.startsWith(prefix) && isRecord(content)
+      ? [[path, content as T] as [string, T]]
+      : [],
+  );
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return canonicalize(a) === canonicalize(b);
+}
+
+export async function verifyEvidenceBundle(
+  input: unknown,
+  options: VerifyBundleOptions = {},
+): Promise<BundleVerification> {
+  const checks: BundleCheck[] = [];
+  const add = (code: CheckCode, subject: string) =>
+    checks.push({ code, status: CHECK_INFO[code].status, subject });
+
+  if (
+    !isRecord(input) ||
+    input.format !== EVIDENCE_BUNDLE_FORMAT ||
+    !isRecord(input.manifest) ||
+    !isRecord(input.files)
+  ) {
+    add("format_unrecognized", "bundle");
+    return summarize(checks);
+  }
+  if (
+    typeof input.format_version !== "number" ||
+    input.format_version > EVIDENCE_BUNDLE_VERSION
+  ) {
+    add("format_version_unsupported", "bundle");
+    return summarize(checks);
+  }
+  const manifest = input.manifest;
+  const files = input.files;
+
+  // 1. Every file against the manifest.
+  const paths = [
+    ...new Set([...Object.keys(manifest), ...Object.keys(files)]),
+  ].sort();
+  for (const path of paths) {
+    if (!(path in files)) {
+      add("file_missing", path);
+    } else if (!(path in manifest)) {
+      add("file_unlisted", path);
+    } else {
+      const digest = await fileDigest(files[path]);
+      add(
+        digest === manifest[path]
+          ? "file_digest_match"
+          : "file_digest_mismatch",
+        path,
+      );
+    }
+  }
+
+  // 2. Bundled keys against the published set.
+  const keysFile = files[KEYS_PATH];
+  const keys: BundleKey[] =
+    isRecord(keysFile) && Array.isArray(keysFile.keys) ? keysFile.keys : [];
+  if (options.publishedKeys) {
+    for (const key of keys) {
+      const published = options.publishedKeys.find((k) => k.kid === key.kid);
+      add(
+        published?.x === key.x ? "key_published" : "key_not_published",
+        key.kid,
+      );
+    }
+  } else if (keys.length > 0) {
+    add("keys_not_compared", KEYS_PATH);
+  }
+
+  // 3. Each signature against its payload and key.
+  const signatures = entriesUnder<BundleSignature>(files, "signatures/");
+  for (const [path, signature] of signatures) {
+    const payload = isRecord(signature.canonical_payload)
+      ? signature.canonical_payload
+      : {};
+
+    if (signature.algorithm !== "ed25519") {
+      add("signature_legacy", path);
+    } else {
+      const key = keys.find((k) => k.kid === signature.key_id);
+      if (!key) {
+        add("signature_key_missing", path);
+      } else {
+        let valid = false;
+        try {
+          valid = await verifyEd25519Hex(
+            key.x,
+            canonicalize(signature.canonical_payload),
+            signature.signature_hash,
+          );
+        } catch {
+          // A malformed key or signature can't be valid.
+        }
+        add(valid ? "signature_valid" : "signature_invalid", path);
+      }
+    }
+
+    const fieldsAgree =
+      payload.report_id === signature.audit_report_id &&
+      SIGNED_FIELDS.every(
+        (field) => !(field in payload) || payload[field] === signature[field],
+      );
+    add(
+      fieldsAgree ? "signature_fields_match" : "signature_fields_mismatch",
+      path,
+    );
+  }
+
+  // 4. Reports: signatures cover the final snapshot, texts match it, and
+  // the version chain is complete.
+  const reports = entriesUnder<BundleReport>(files, "reports/");
+  if (!reports.some(([, r]) => r.id === input.report_id)) {
+    add("report_missing", "bundle");
+  }
+  for (const [path, report] of reports) {
+    const active = signatures.filter(
+      ([, s]) => s.audit_report_id === report.id && s.invalidated_at === null,
+    );
+    for (const [signaturePath, signature] of active) {
+      const payload = signature.canonical_payload as {
+        report_snapshot?: unknown;
+      } | null;
+      add(
+        sameJson(payload?.report_snapshot, report.report_snapshot)
+          ? "signature_covers_report"
+          : "signature_snapshot_mismatch",
+        signaturePath,
+      );
+    }
+    const required = report.signoff_roles?.length ?? 1;
+    add(
+      active.length >= required
+        ? "report_signoff_complete"
+        : "report_signoff_incomplete",
+      path,
+    );
+
+    for (const v of snapshotVariantTexts(report.report_snapshot)) {
+      const textPath = variantTextPath(report.id, v.variant_index);
+      add(
+        files[textPath] === v.body_text
+          ? "variant_text_match"
+          : "variant_text_mismatch",
+        textPath,
+      );
+    }
+
+    if (report.previous_version_id !== null) {
+      add(
+        reports.some(([, r]) => r.id === report.previous_version_id)
+          ? "chain_linked"
+          : "chain_broken",
+        path,
+      );
+    }
+  }
+
+  // 5. The audit trail's hash chain, and the head each signature covers.
+  const trail = files[AUDIT_TRAIL_PATH];
+  if (!Array.isArray(trail)) {
+    add("file_missing", AUDIT_TRAIL_PATH);
+  } else {
+    const events = trail as BundleAuditEvent[];
+    const chain = await verifyAuditChain(events);
+    if (chain.ok) {
+      add("audit_chain_intact", AUDIT_TRAIL_PATH);
+    } else {
+      const { chain_seq, event_id, reason } = chain.broken_at;
+      add(
+        CHAIN_BREAK_CODE[reason],
+        `${AUDIT_TRAIL_PATH} #${chain_seq} (${event_id})`,
+      );
+    }
+
+    for (const [path, signature] of signatures) {
+      const head = (
+        signature.canonical_payload as {
+          audit_trail_head?: { chain_seq: number; event_hash: string };
+        } | null
+      )?.audit_trail_head;
+      if (!head) {
+        add("signature_head_absent", path);
+        continue;
+      }
+      add(
+        events.some(
+          (e) =>
+            e.chain_seq === head.chain_seq && e.event_hash === head.event_hash,
+        )
+          ? "signature_head_in_trail"
+          : "signature_head_not_in_trail",
+        path,
+      );
+    }
+  }
+
+  return summarize(checks);
+}
+
+function summarize(checks: BundleCheck[]): BundleVerification {
+  const counts: Record<CheckStatus, number> = { pass: 0, fail: 0, skipped: 0 };
+  for (const check of checks) counts[check.status]++;
+  return { ok: counts.fail === 0, checks, counts };
+}
+
+const STATUS_MARK: Record<CheckStatus, string> = {
+  pass: "PASS",
+  fail: "FAIL",
+  skipped: "SKIP",
+};
+
+// Plain-text report for the CLI.
+export function formatVerification(result: BundleVerification): string {
+  const lines = result.checks.map(
+    (c) => `${STATUS_MARK[c.status]}  ${c.subject}  ${CHECK_INFO[c.code].en}`,
+  );
+  lines.push(
+    "",
+    `${result.counts.pass} passed, ${result.counts.fail} failed, ${result.counts.skipped} skipped`,
+    result.ok ? "Bundle verified." : "Bundle did NOT verify.",
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,157 @@
+/**
+ * TS mirror of supabase/functions/_shared/finding-anchor.ts. compliance-check
+ * anchors findings with the Deno copy; the review UI resolves those anchors
+ * against the current body with this one (CompliancePanel, VariantEditor,
+ * apply-fix). The drift guard in src/__tests__/finding-anchor.drift.test.ts
+ * proves byte equality.
+ */
+
+// drift:start FINDING_ANCHOR
+// Findings are anchored by [start, end) offsets into content_variants.body_text
+// as it stood when compliance-check ran. Offsets are UTF-16 code units (JS
+// string indices), not Postgres character positions — anchors are only ever
+// computed and resolved in TypeScript.
+//
+// The context hash covers the flagged text plus ANCHOR_CONTEXT_CHARS on each
+// side, so a phrase repeated elsewhere in the body can be told apart from the
+// occurrence that was actually flagged.
+export const ANCHOR_CONTEXT_CHARS = 12;
+
+// source_text of findings about the body as a whole (e.g. missing
+// boilerplate). They have no span to anchor to.
+export const WHOLE_BODY_SOURCE_TEXT = '(本文全体)';
+
+export interface FindingAnchor {
+  start: number;
+  end: number;
+  context_hash: string;
+}
+
+export interface AnchoredFindingFields {
+  source_text: string;
+  paragraph_index: number | null;
+  anchor_start: number | null;
+  anchor_end: number | null;
+  anchor_context_hash: string | null;
+}
+
+// anchored — the span is where the check left it, context unchanged.
+// shifted  — the text moved or its surroundings were edited, but exactly one
+//            span still qualifies.
+// orphaned — the text is gone, or is repeated and none of the copies can be
+//            identified as the flagged one. Never guessed.
+// document — whole-body finding; nothing to highlight.
+export type ResolvedAnchor =
+  | { status: 'anchored' | 'shifted'; start: number; end: number }
+  | { status: 'orphaned' | 'document' };
+
+// FNV-1a, 32-bit, over UTF-16 code units. Not cryptographic — it only has
+// to tell contexts apart and be cheap on both runtimes.
+const fnv1a32 = (s: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+export const anchorContextHash = (
+  body: string,
+  start: number,
+  end: number,
+): string =>
+  fnv1a32(
+    [
+      body.slice(Math.max(0, start - ANCHOR_CONTEXT_CHARS), start),
+      body.slice(start, end),
+      body.slice(end, end + ANCHOR_CONTEXT_CHARS),
+    ].join('\u0000'),
+  );
+
+// 1-indexed paragraph (blank-line separated) containing `offset`.
+export const paragraphIndexAt = (body: string, offset: number): number => {
+  let index = 1;
+  for (const m of body.matchAll(/\n\n+/g)) {
+    if ((m.index ?? 0) + m[0].length > offset) break;
+    index++;
+  }
+  return index;
+};
+
+const occurrencesOf = (body: string, needle: string): number[] => {
+  const out: number[] = [];
+  if (needle.length === 0) return out;
+  for (
+    let at = body.indexOf(needle);
+    at !== -1;
+    at = body.indexOf(needle, at + needle.length)
+  ) {
+    out.push(at);
+  }
+  return out;
+};
+
+// First anchoring of a finding that arrives without offsets (LLM findings,
+// pre-anchor rows). Prefers an occurrence inside the paragraph the finding
+// names; otherwise takes the text only when it occurs exactly once.
+export const locateFinding = (
+  body: string,
+  sourceText: string,
+  paragraphHint: number | null,
+): FindingAnchor | null => {
+  const all = occurrencesOf(body, sourceText);
+  const inHint =
+    paragraphHint === null
+      ? []
+      : all.filter((at) => paragraphIndexAt(body, at) === paragraphHint);
+  const pick =
+    inHint.length === 1 ? inHint[0] : all.length === 1 ? all[0] : null;
+  if (pick === null) return null;
+  const end = pick + sourceText.length;
+  return {
+    start: pick,
+    end,
+    context_hash: anchorContextHash(body, pick, end),
+  };
+};
+
+// Resolves a stored anchor against the body as it is now.
+export const resolveFindingAnchor = (
+  body: string,
+  finding: AnchoredFindingFields,
+): ResolvedAnchor => {
+  const { source_text: text } = finding;
+  if (text === WHOLE_BODY_SOURCE_TEXT) return { status: 'document' };
+
+  const start = finding.anchor_start;
+  const hash = finding.anchor_context_hash;
+  if (start === null || hash === null) {
+    const located = locateFinding(body, text, finding.paragraph_index);
+    return located
+      ? { status: 'shifted', start: located.start, end: located.end }
+      : { status: 'orphaned' };
+  }
+
+  const span = (at: number) => ({ start: at, end: at + text.length });
+  const hashAt = (at: number) => anchorContextHash(body, at, at + text.length);
+  const inPlace = body.slice(start, start + text.length) === text;
+  if (inPlace && hashAt(start) === hash) {
+    return { status: 'anchored', ...span(start) };
+  }
+
+  const candidates = occurrencesOf(body, text);
+  const sameContext = candidates.filter((at) => hashAt(at) === hash);
+  if (sameContext.length > 0) {
+    const nearest = sameContext.reduce((a, b) =>
+      Math.abs(b - start) < Math.abs(a - start) ? b : a,
+    );
+    return { status: 'shifted', ...span(nearest) };
+  }
+  if (inPlace) return { status: 'shifted', ...span(start) };
+  if (candidates.length === 1) {
+    return { status: 'shifted', ...span(candidates[0]) };
+  }
+  return { status: 'orphaned' };
+};
+// drift:end FINDING_ANCHOR
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { findingSource, summarizeFindings } from "./finding-source";
+
+describe("findingSource", () => {
+  it("prefers the stored source column", () => {
+    expect(
+      findingSource({
+        source: "manual",
+        regulation_reference: "薬機法 第66条",
+      }),
+    ).toBe("manual");
+  });
+
+  it("falls back to the regulation_reference tag for older snapshots", () => {
+    expect(
+      findingSource({ regulation_reference: "薬機法 第66条 [manual]" }),
+    ).toBe("manual");
+    expect(
+      findingSource({ regulation_reference: "必須開示 [deterministic]" }),
+    ).toBe("deterministic");
+    expect(findingSource({ regulation_reference: "薬機法 第66条 [LLM]" })).toBe(
+      "llm",
+    );
+  });
+});
+
+describe("summarizeFindings", () => {
+  it("counts manual findings apart from automated ones, per severity", () => {
+    const summary = summarizeFindings([
+      { severity: "blocker", source: "llm", regulation_reference: "a [LLM]" },
+      {
+        severity: "blocker",
+        source: "manual",
+        regulation_reference: "b [manual]",
+      },
+      { severity: "note", regulation_reference: "c [deterministic]" },
+    ]);
+    expect(summary.automated).toBe(2);
+    expect(summary.manual).toBe(1);
+    expect(summary.bySeverity.blocker).toEqual({ automated: 1, manual: 1 });
+    expect(summary.bySeverity.note).toEqual({ automated: 1, manual: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+import type {
+  ComplianceFindingSource,
+  ComplianceSeverity,
+} from "@/types/domain";
+import { SEVERITY_ORDER } from "@/lib/severity";
+
+// Which pass produced a finding, for the review panel and the audit
+// report's findings summary. Snapshots finalized before migration 0024
+// have no `source`; the regulation_reference tag says the same thing.
+
+export const FINDING_SOURCE_LABEL: Record<
+  ComplianceFindingSource,
+  { ja: string; en: string }
+> = {
+  deterministic: { ja: "ルール", en: "Rule" },
+  llm: { ja: "AI", en: "LLM" },
+  manual: { ja: "手動", en: "Manual" },
+};
+
+export const MANUAL_TAG = "[manual]";
+
+export function findingSource(finding: {
+  source?: string | null;
+  regulation_reference: string;
+}): ComplianceFindingSource {
+  if (
+    finding.source === "deterministic" ||
+    finding.source === "llm" ||
+    finding.source === "manual"
+  ) {
+    return finding.source;
+  }
+  if (finding.regulation_reference.endsWith(MANUAL_TAG)) return "manual";
+  if (finding.regulation_reference.endsWith("[deterministic]")) {
+    return "deterministic";
+  }
+  return "llm";
+}
+
+export interface FindingsSummary {
+  automated: number;
+  manual: number;
+  bySeverity: Record<ComplianceSeverity, { automated: number; manual: number }>;
+}
+
+export function summarizeFindings(
+  findings: readonly {
+    severity: string;
+    source?: string | null;
+    regulation_reference: string;
+  }[],
+): FindingsSummary {
+  const summary: FindingsSummary = {
+    automated: 0,
+    manual: 0,
+    bySeverity: {
+      blocker: { automated: 0, manual: 0 },
+      warning: { automated: 0, manual: 0 },
+      note: { automated: 0, manual: 0 },
+    },
+  };
+  for (const f of findings) {
+    const kind = findingSource(f) === "manual" ? "manual" : "automated";
+    summary[kind] += 1;
+    if (SEVERITY_ORDER.includes(f.severity as ComplianceSeverity)) {
+      summary.bySeverity[f.severity as ComplianceSeverity][kind] += 1;
+    }
+  }
+  return summary;
+}
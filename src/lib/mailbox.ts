@@ -0,0 +1,13 @@
+// Staff mailbox providers (migration 0033, supabase/functions/_shared/
+// mailbox.ts). Which ones a deployment offers comes from mailbox-connect.
+
+export type MailboxProviderName = "gmail" | "microsoft" | "mock";
+
+export const MAILBOX_PROVIDER_LABEL: Record<
+  MailboxProviderName,
+  { ja: string; en: string }
+> = {
+  gmail: { ja: "Gmail", en: "Gmail" },
+  microsoft: { ja: "Microsoft 365", en: "Microsoft 365" },
+  mock: { ja: "モック (開発用)", en: "Mock (development)" },
+};
@@ -1,7 +1,8 @@
 /**
  * Single source of truth for the New Project generation-lever option lists
- * (audience / lifecycle / channel / length tier). Reused by the form schema,
- * the form UI, and the client-side summary.
+ * (content type / sub-type / audience / lifecycle / channel / length tier /
+ * variation axis). Reused by the form schema, the form UI, the client-side
+ * summary, and the compliance rule library's scope pickers.
  *
  * The generate-variants / compliance-check prompt modules deliberately declare
  * their OWN copies of these unions (drift-mirrored to their Deno `_prompt.ts`),
@@ -9,10 +10,13 @@
  * `satisfies Record<Union, string>` so a new enum value fails typecheck there.
  */
 import type {
+  ContentType,
+  ContentSubType,
   TargetAudience,
   DrugLifecycleStatus,
   DistributionChannel,
   LengthTier,
+  VariationAxis,
 } from '@/types/domain';
 
 export interface LabeledOption<V extends string> {
@@ -21,6 +25,27 @@ export interface LabeledOption<V extends string> {
   en: string;
 }
 
+export const CONTENT_TYPES: readonly LabeledOption<ContentType>[] = [
+  { value: 'press_release', ja: 'プレスリリース', en: 'Press Release' },
+  { value: 'blog_post', ja: 'ブログ', en: 'Blog Post' },
+  { value: 'social_media', ja: 'SNS投稿', en: 'Social Media' },
+  { value: 'internal_memo', ja: '社内メモ', en: 'Internal Memo' },
+  { value: 'faq', ja: 'FAQ', en: 'FAQ' },
+  {
+    value: 'executive_statement',
+    ja: 'エグゼクティブステートメント',
+    en: 'Executive Statement',
+  },
+];
+
+export const CONTENT_SUB_TYPES: readonly LabeledOption<ContentSubType>[] = [
+  { value: 'auto', ja: '自動判定', en: 'Auto-detect' },
+  { value: 'full_clinical', ja: '完全臨床発表', en: 'Full Clinical' },
+  { value: 'partner_ack', ja: 'パートナー謝辞', en: 'Partner Acknowledgment' },
+  { value: 'csr_event', ja: 'CSR/イベント', en: 'CSR / Event' },
+  { value: 'business_news', ja: 'ビジネスニュース', en: 'Business News' },
+];
+
 export const TARGET_AUDIENCES: readonly LabeledOption<TargetAudience>[] = [
   { value: 'hcp', ja: '医療従事者', en: 'HCP' },
   { value: 'patient_public', ja: '患者・一般', en: 'Patient / Public' },
@@ -51,6 +76,47 @@ export const LENGTH_TIERS: readonly LabeledOption<LengthTier>[] = [
   { value: 'long', ja: '長め', en: 'Long' },
 ];
 
+export const VARIATION_AXES: readonly LabeledOption<VariationAxis>[] = [
+  { value: 'tone', ja: 'トーン', en: 'Tone' },
+  { value: 'structure', ja: '構成', en: 'Structure' },
+  { value: 'length', ja: '分量', en: 'Length' },
+];
+
+/**
+ * Per-axis display names for variants 1–3. The `ja` strings are the
+ * VARIATION_DIRECTIVES labels generate-variants stores as variant_label
+ * (project-options.test.ts pins them); `en` exists only for the UI.
+ */
+export const VARIATION_AXIS_VARIANTS = {
+  tone: [
+    { ja: 'フォーマル', en: 'Formal' },
+    { ja: 'バランス', en: 'Balanced' },
+    { ja: 'アクセシブル', en: 'Accessible' },
+  ],
+  structure: [
+    { ja: 'データ先行', en: 'Lead with data' },
+    { ja: '引用先行', en: 'Lead with quote' },
+    { ja: '発表先行', en: 'Lead with announcement' },
+  ],
+  length: [
+    { ja: '簡潔', en: 'Concise' },
+    { ja: '標準', en: 'Standard' },
+    { ja: '詳細', en: 'Detailed' },
+  ],
+} satisfies Record<VariationAxis, readonly { ja: string; en: string }[]>;
+
+/**
+ * The axis generate-variants recorded in generation_params. null for variants
+ * generated before the axis was written there.
+ */
+export function variationAxisOf(generationParams: unknown): VariationAxis | null {
+  const axis = (generationParams as { variation_axis?: unknown } | null)
+    ?.variation_axis;
+  return VARIATION_AXES.some((o) => o.value === axis)
+    ? (axis as VariationAxis)
+    : null;
+}
+
 /** Segmented tier → preset 文字 target the form writes into length_target_chars. */
 export const LENGTH_TIER_PRESET_CHARS = {
   short: 400,
@@ -61,7 +127,10 @@ export const LENGTH_TIER_PRESET_CHARS = {
 const values = <V extends string>(opts: readonly LabeledOption<V>[]): [V, ...V[]] =>
   opts.map((o) => o.value) as [V, ...V[]];
 
+export const CONTENT_TYPE_VALUES = values(CONTENT_TYPES);
+export const CONTENT_SUB_TYPE_VALUES = values(CONTENT_SUB_TYPES);
 export const TARGET_AUDIENCE_VALUES = values(TARGET_AUDIENCES);
 export const DRUG_LIFECYCLE_VALUES = values(DRUG_LIFECYCLE_STATUSES);
 export const DISTRIBUTION_CHANNEL_VALUES = values(DISTRIBUTION_CHANNELS);
 export const LENGTH_TIER_VALUES = values(LENGTH_TIERS);
+export const VARIATION_AXIS_VALUES = values(VARIATION_AXES);
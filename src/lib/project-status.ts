@@ -10,6 +10,7 @@ export const PROJECT_STATUS_LABELS: Record<string, { ja: string; en: string }> =
     delivered: { ja: "送付済", en: "Delivered" },
     feedback_received: { ja: "フィードバック受領", en: "Feedback" },
     completed: { ja: "完了", en: "Completed" },
+    no_feedback: { ja: "フィードバックなし", en: "No feedback" },
   };
 
 export function projectStatusLabel(
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { COMPLIANCE_SYSTEM } from './compliance';
+import {
+  COMPLIANCE_SYSTEM,
+  buildComplianceUserMessage,
+  checkManagedBoilerplate,
+  runDeterministicChecks,
+  type ComplianceRule,
+  type ComplianceRuleScope,
+} from './compliance';
+import type { ManagedBoilerplate } from '../client-boilerplate';
 
 describe('COMPLIANCE_SYSTEM lifecycle posture wiring', () => {
   it('pre_approval treats efficacy claims as a blocker', () => {
@@ -22,3 +30,242 @@ describe('COMPLIANCE_SYSTEM lifecycle posture wiring', () => {
     expect(out).toMatch(/statistical context/i);
   });
 });
+
+describe('buildComplianceUserMessage standing text', () => {
+  it('sends a plain-text variant as the body alone', () => {
+    const out = buildComplianceUserMessage('本文');
+    expect(out).toContain('---\n本文\n---');
+    expect(out).not.toMatch(/boilerplate/);
+  });
+
+  // The golden set's v3-standing-text recordings replay v2-lifecycle-aware
+  // responses: its cases are plain text, so the request did not change.
+  it('leaves the v2 message unchanged for a plain-text variant', () => {
+    expect(buildComplianceUserMessage('本文')).toBe(
+      '\nReview the following press release for regulatory compliance:\n\n---\n本文\n---\n\nOutput JSON only.\n',
+    );
+  });
+
+  it('names the boilerplate and contact passages as standing corporate text', () => {
+    const out = buildComplianceUserMessage('本文\n\n会社概要\n\n広報部', [
+      '会社概要',
+      '広報部',
+    ]);
+    expect(out).toMatch(/standing corporate text/);
+    expect(out).toContain('---\n会社概要\n---\n---\n広報部\n---');
+  });
+});
+
+const rule = (overrides: Partial<ComplianceRule>): ComplianceRule => ({
+  id: '00000000-0000-4000-8000-000000000001',
+  kind: 'prohibited',
+  match_type: 'term',
+  pattern: '画期的',
+  severity: 'blocker',
+  regulation_reference: '薬機法 第66条',
+  explanation_template: '「{{MATCH}}」は誇大表現です。',
+  suggested_correction: null,
+  content_types: [],
+  content_sub_types: [],
+  audiences: [],
+  lifecycles: [],
+  ...overrides,
+});
+
+const SCOPE: ComplianceRuleScope = {
+  contentType: 'press_release',
+  contentSubType: 'full_clinical',
+  audience: 'hcp',
+  lifecycle: 'approved',
+};
+
+describe('runDeterministicChecks rule library', () => {
+  it('flags every prohibited occurrence at its offsets and substitutes {{MATCH}}', () => {
+    const text = '画期的な新薬。\n\n再び画期的な成果。';
+    const findings = runDeterministicChecks(text, [], [rule({})], SCOPE);
+    expect(findings).toEqual([
+      {
+        rule_id: '00000000-0000-4000-8000-000000000001',
+        severity: 'blocker',
+        source_text: '画期的',
+        paragraph_index: 1,
+        start: 0,
+        end: 3,
+        explanation: '「画期的」は誇大表現です。',
+        regulation_reference: '薬機法 第66条 [deterministic]',
+        suggested_correction: null,
+      },
+      {
+        rule_id: '00000000-0000-4000-8000-000000000001',
+        severity: 'blocker',
+        source_text: '画期的',
+        paragraph_index: 2,
+        start: 11,
+        end: 14,
+        explanation: '「画期的」は誇大表現です。',
+        regulation_reference: '薬機法 第66条 [deterministic]',
+        suggested_correction: null,
+      },
+    ]);
+    for (const f of findings) {
+      expect(text.slice(f.start!, f.end!)).toBe(f.source_text);
+    }
+  });
+
+  it('anchors client words_to_avoid at every occurrence', () => {
+    const findings = runDeterministicChecks('最高で最高', ['最高'], [], SCOPE);
+    expect(findings.map((f) => [f.start, f.end])).toEqual([
+      [0, 2],
+      [3, 5],
+    ]);
+    expect(findings.every((f) => f.rule_id === null)).toBe(true);
+  });
+
+  it('reports each regex match in its own paragraph', () => {
+    const findings = runDeterministicChecks(
+      '本文。\n\n奏効率100%。\n\n治癒率100%。',
+      [],
+      [rule({ match_type: 'regex', pattern: '(奏効|治癒)率100%' })],
+      SCOPE,
+    );
+    expect(findings.map((f) => [f.source_text, f.paragraph_index])).toEqual([
+      ['奏効率100%', 2],
+      ['治癒率100%', 3],
+    ]);
+  });
+
+  it('matches terms literally', () => {
+    const findings = runDeterministicChecks(
+      '効果は1.5倍',
+      [],
+      [rule({ pattern: '1.5倍' }), rule({ pattern: '2.5倍' })],
+      SCOPE,
+    );
+    expect(findings.map((f) => f.source_text)).toEqual(['1.5倍']);
+    expect(
+      runDeterministicChecks(
+        '効果は105倍',
+        [],
+        [rule({ pattern: '1.5倍' })],
+        SCOPE,
+      ),
+    ).toEqual([]);
+  });
+
+  it('skips rules scoped away from the variant', () => {
+    const scoped = rule({ audiences: ['patient_public'] });
+    expect(runDeterministicChecks('画期的', [], [scoped], SCOPE)).toEqual([]);
+    expect(
+      runDeterministicChecks('画期的', [], [scoped], {
+        ...SCOPE,
+        audience: 'patient_public',
+      }),
+    ).toHaveLength(1);
+  });
+
+  it('flags a required rule once when nothing matches', () => {
+    const required = rule({
+      kind: 'required',
+      match_type: 'regex',
+      pattern: 'お問い合わせ|広報部',
+      severity: 'warning',
+      regulation_reference: '必須開示',
+      explanation_template: '定型句が見当たりません。',
+      suggested_correction: '問い合わせ先を追記してください。',
+    });
+    expect(runDeterministicChecks('本文のみ', [], [required], SCOPE)).toEqual([
+      {
+        rule_id: '00000000-0000-4000-8000-000000000001',
+        severity: 'warning',
+        source_text: '(本文全体)',
+        paragraph_index: null,
+        start: null,
+        end: null,
+        explanation: '定型句が見当たりません。',
+        regulation_reference: '必須開示 [deterministic]',
+        suggested_correction: '問い合わせ先を追記してください。',
+      },
+    ]);
+    expect(
+      runDeterministicChecks('本文\n\n広報部まで', [], [required], SCOPE),
+    ).toEqual([]);
+  });
+
+  it('skips a regex the JS engine rejects instead of failing the check', () => {
+    const findings = runDeterministicChecks(
+      '画期的',
+      [],
+      [rule({ match_type: 'regex', pattern: '(?<' }), rule({})],
+      SCOPE,
+    );
+    expect(findings).toHaveLength(1);
+  });
+
+  it('orders prohibited, then client words, then required findings', () => {
+    const findings = runDeterministicChecks(
+      '画期的で最高',
+      ['最高'],
+      [rule({ kind: 'required', pattern: '広報部' }), rule({})],
+      SCOPE,
+    );
+    expect(findings.map((f) => f.regulation_reference)).toEqual([
+      '薬機法 第66条 [deterministic]',
+      'ブランドボイス [deterministic]',
+      '薬機法 第66条 [deterministic]',
+    ]);
+    expect(findings[2].source_text).toBe('(本文全体)');
+  });
+});
+
+describe('checkManagedBoilerplate', () => {
+  const CONTACT: ManagedBoilerplate = {
+    id: 'b1',
+    kind: 'media_contact',
+    language: 'ja',
+    heading: '本件に関するお問い合わせ',
+    body: '広報部 TEL 03-0000-0001',
+    version: 2,
+    content_types: [],
+  };
+  const V1 = {
+    block_id: 'b1',
+    version: 1,
+    heading: '本件に関するお問い合わせ',
+    body: '広報部 TEL 03-0000-0000',
+  };
+
+  it('passes a body that carries the current version verbatim', () => {
+    const text = '本文\n\n本件に関するお問い合わせ\n広報部 TEL 03-0000-0001';
+    expect(checkManagedBoilerplate(text, [CONTACT], [V1])).toEqual([]);
+  });
+
+  it('anchors an older version at its text with the current one as the fix', () => {
+    const text = '本文\n\n本件に関するお問い合わせ\n広報部 TEL 03-0000-0000';
+    const [finding] = checkManagedBoilerplate(text, [CONTACT], [V1]);
+    expect(finding).toMatchObject({
+      rule_id: null,
+      severity: 'warning',
+      source_text: '本件に関するお問い合わせ\n広報部 TEL 03-0000-0000',
+      paragraph_index: 2,
+      start: 4,
+      regulation_reference: '管理定型文 [deterministic]',
+      suggested_correction: '本件に関するお問い合わせ\n広報部 TEL 03-0000-0001',
+    });
+    expect(finding.explanation).toContain('旧版（v1）');
+  });
+
+  it('flags a missing or edited block on the whole body', () => {
+    const [finding] = checkManagedBoilerplate(
+      '本文\n\n広報部 TEL 03-9999-9999',
+      [CONTACT],
+      [V1],
+    );
+    expect(finding).toMatchObject({
+      source_text: '(本文全体)',
+      paragraph_index: null,
+      start: null,
+      end: null,
+    });
+    expect(finding.explanation).toContain('報道関係者お問い合わせ先');
+  });
+});
@@ -24,10 +24,9 @@ function extractStringLiteral(src: string, name: string): string {
 const DRIFT_REGIONS = [
   'COMPLIANCE_SYSTEM',
   'buildComplianceUserMessage',
-  'FORBIDDEN_ABSOLUTE_TERMS',
-  'REQUIRED_BOILERPLATE_PATTERNS',
-  'CLINICAL_REFERENCE_PATTERNS',
+  'ComplianceRule',
   'runDeterministicChecks',
+  'checkManagedBoilerplate',
 ] as const;
 
 describe('Compliance prompt sync (src vs supabase/functions)', () => {
@@ -7,20 +7,34 @@
  * across both files (H10 audit fix: full-function-body comparison).
  *
  * The `compliance-check` Edge Function (T7) runs two passes:
- *   1. Deterministic: runDeterministicChecks(...) — regex over forbidden
- *      terms, client words_to_avoid, required boilerplate, optional
- *      clinical reference. Findings carry `[deterministic]` suffix on
- *      regulation_reference.
+ *   1. Deterministic: runDeterministicChecks(...) — the firm's rule library
+ *      (prohibited terms/patterns, required boilerplate, scoped clinical
+ *      reference, …) plus client words_to_avoid. Findings carry
+ *      `[deterministic]` suffix on regulation_reference.
  *   2. LLM: Claude with COMPLIANCE_SYSTEM. Findings carry `[LLM]`.
  * The two finding sets are merged and inserted into compliance_findings.
  */
 
 import { z } from 'zod';
 import { CLAUDE_MODELS } from './brand-voice';
+import {
+  paragraphIndexAt,
+  WHOLE_BODY_SOURCE_TEXT,
+} from '../finding-anchor';
+import {
+  BOILERPLATE_KIND_LABEL,
+  boilerplateText,
+  type ManagedBoilerplate,
+} from '../client-boilerplate';
 
 export { CLAUDE_MODELS };
 
-export const COMPLIANCE_PROMPT_VERSION = 'v2-lifecycle-aware';
+// Bump on any change to what the LLM pass is sent, and record golden
+// responses for the new version (compliance-eval/golden.json). v3 adds the
+// standing_text block. The managed-boilerplate check (checkManagedBoilerplate)
+// is deterministic and sends nothing to the model; its versions are recorded
+// per check as managed_boilerplate.
+export const COMPLIANCE_PROMPT_VERSION = 'v3-standing-text';
 
 export type DrugLifecycleStatus = 'pre_approval' | 'in_trial' | 'approved';
 
@@ -64,92 +78,174 @@ Be precise. Do not flag content that complies. Do not flag absence of disclosure
 // drift:end COMPLIANCE_SYSTEM
 
 // drift:start buildComplianceUserMessage
-export const buildComplianceUserMessage = (variant_text: string): string => `
+// standing_text: passages of the body that are the client's standing
+// corporate text — the boilerplate "about" block and media contact of a
+// structured variant (variant-document.ts). Empty for a plain-text variant,
+// which leaves the message as it was.
+export const buildComplianceUserMessage = (
+  variant_text: string,
+  standing_text: readonly string[] = [],
+): string => `
 Review the following press release for regulatory compliance:
 
 ---
 ${variant_text}
 ---
+${
+  standing_text.length === 0
+    ? ''
+    : `
+The following passages of the release are the company boilerplate and media contact — standing corporate text reused across releases, not claims about this announcement. Review them as corporate description: still flag a violation in them, but do not flag them for lacking this product's context or disclosures.
 
+${standing_text.map((t) => `---\n${t}\n---`).join('\n')}
+`
+}
 Output JSON only.
 `;
 // drift:end buildComplianceUserMessage
 
-// drift:start FORBIDDEN_ABSOLUTE_TERMS
-export const FORBIDDEN_ABSOLUTE_TERMS: readonly string[] = [
-  '画期的',
-  '革命的',
-  '驚異的',
-  '夢の薬',
-  '夢の',
-  '奇跡',
-  '確実な治療効果',
-] as const;
-// drift:end FORBIDDEN_ABSOLUTE_TERMS
-
-// drift:start REQUIRED_BOILERPLATE_PATTERNS
-export const REQUIRED_BOILERPLATE_PATTERNS: readonly RegExp[] = [
-  /お問い合わせ/,
-  /広報部/,
-  /TEL/,
-  /株式会社.{0,40}について/,
-] as const;
-// drift:end REQUIRED_BOILERPLATE_PATTERNS
-
-// drift:start CLINICAL_REFERENCE_PATTERNS
-export const CLINICAL_REFERENCE_PATTERNS: readonly RegExp[] = [
-  /臨床試験/,
-  /第[IVX]+相/,
-] as const;
-// drift:end CLINICAL_REFERENCE_PATTERNS
+// drift:start ComplianceRule
+// Deterministic rules come from the firm-managed library: compliance_rules,
+// published as immutable compliance_rule_set_versions snapshots on every
+// save (migration 0021). The Edge Function applies the latest snapshot and
+// records its version in the compliance_checked audit event.
+//
+//   prohibited — flagged when the pattern matches; one finding per
+//                occurrence. `{{MATCH}}` in the explanation is replaced
+//                with the matched text.
+//   required   — flagged once when the pattern matches nowhere.
+//
+// An empty scope array means the rule applies to every value of that field.
+export const ComplianceRuleSchema = z.object({
+  id: z.string().uuid(),
+  kind: z.enum(['prohibited', 'required']),
+  match_type: z.enum(['term', 'regex']),
+  pattern: z.string().min(1),
+  severity: z.enum(['blocker', 'warning', 'note']),
+  regulation_reference: z.string().min(1),
+  explanation_template: z.string().min(1),
+  suggested_correction: z.string().nullable(),
+  content_types: z.array(z.string()),
+  content_sub_types: z.array(z.string()),
+  audiences: z.array(z.string()),
+  lifecycles: z.array(z.string()),
+});
+
+export const ComplianceRuleSetSchema = z.object({
+  version: z.number().int().positive(),
+  rules: z.array(ComplianceRuleSchema),
+});
 
-// drift:start runDeterministicChecks
-export interface DeterministicCheckOptions {
-  requireClinicalReference?: boolean;
+export type ComplianceRule = z.infer<typeof ComplianceRuleSchema>;
+export type ComplianceRuleSet = z.infer<typeof ComplianceRuleSetSchema>;
+
+export interface ComplianceRuleScope {
+  contentType: string;
+  contentSubType: string;
+  audience: string;
+  lifecycle: string;
 }
 
+export const MATCH_PLACEHOLDER = '{{MATCH}}';
+
+export const ruleApplies = (
+  rule: ComplianceRule,
+  scope: ComplianceRuleScope,
+): boolean => {
+  const within = (allowed: readonly string[], value: string) =>
+    allowed.length === 0 || allowed.includes(value);
+  return (
+    within(rule.content_types, scope.contentType) &&
+    within(rule.content_sub_types, scope.contentSubType) &&
+    within(rule.audiences, scope.audience) &&
+    within(rule.lifecycles, scope.lifecycle)
+  );
+};
+
+// Terms match literally. Returns null for a regex the JS engine rejects —
+// the library validates against Postgres' engine on save, and the two
+// dialects differ at the edges, so a bad rule is skipped rather than
+// failing the whole check.
+export const compileRulePattern = (rule: ComplianceRule): RegExp | null => {
+  const source =
+    rule.match_type === 'term'
+      ? rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      : rule.pattern;
+  try {
+    return new RegExp(source, 'g');
+  } catch {
+    return null;
+  }
+};
+// drift:end ComplianceRule
+
+// drift:start runDeterministicChecks
+// start/end are body_text offsets of the flagged span; null for findings
+// about the body as a whole (source_text WHOLE_BODY_SOURCE_TEXT). rule_id is
+// the library rule that fired; null for client words_to_avoid.
 export interface DeterministicFinding {
+  rule_id: string | null;
   severity: 'blocker' | 'warning' | 'note';
   source_text: string;
-  paragraph_index: number;
+  paragraph_index: number | null;
+  start: number | null;
+  end: number | null;
   explanation: string;
   regulation_reference: string;
   suggested_correction: string | null;
 }
 
+// One finding per occurrence, so a phrase repeated across the body is
+// flagged (and anchored) at every place it appears.
 export const runDeterministicChecks = (
   variantText: string,
   wordsToAvoid: readonly string[],
-  options: DeterministicCheckOptions = {},
+  rules: readonly ComplianceRule[],
+  scope: ComplianceRuleScope,
 ): DeterministicFinding[] => {
   const findings: DeterministicFinding[] = [];
-  const paragraphs = variantText.split(/\n\n+/);
 
-  const paragraphIndexOf = (needle: string): number => {
-    const idx = paragraphs.findIndex((p) => p.includes(needle));
-    return idx >= 0 ? idx + 1 : 1;
-  };
+  const at = (start: number, text: string) => ({
+    source_text: text,
+    paragraph_index: paragraphIndexAt(variantText, start),
+    start,
+    end: start + text.length,
+  });
+
+  const applicable = rules.flatMap((rule) => {
+    if (!ruleApplies(rule, scope)) return [];
+    const re = compileRulePattern(rule);
+    return re ? [{ rule, re }] : [];
+  });
 
-  for (const term of FORBIDDEN_ABSOLUTE_TERMS) {
-    if (variantText.includes(term)) {
+  for (const { rule, re } of applicable) {
+    if (rule.kind !== 'prohibited') continue;
+    for (const m of variantText.matchAll(re)) {
+      if (m[0].length === 0) continue;
       findings.push({
-        severity: 'blocker',
-        source_text: term,
-        paragraph_index: paragraphIndexOf(term),
-        explanation: `「${term}」は薬機法第66条で禁じられた誇大表現に該当する可能性があります。`,
-        regulation_reference: '薬機法 第66条 [deterministic]',
-        suggested_correction: null,
+        rule_id: rule.id,
+        severity: rule.severity,
+        ...at(m.index ?? 0, m[0]),
+        explanation: rule.explanation_template
+          .split(MATCH_PLACEHOLDER)
+          .join(m[0]),
+        regulation_reference: `${rule.regulation_reference} [deterministic]`,
+        suggested_correction: rule.suggested_correction,
       });
     }
   }
 
   for (const word of wordsToAvoid) {
     if (word.length === 0) continue;
-    if (variantText.includes(word)) {
+    for (
+      let i = variantText.indexOf(word);
+      i !== -1;
+      i = variantText.indexOf(word, i + word.length)
+    ) {
       findings.push({
+        rule_id: null,
         severity: 'warning',
-        source_text: word,
-        paragraph_index: paragraphIndexOf(word),
+        ...at(i, word),
         explanation: `「${word}」はこのクライアントが避ける語彙です。`,
         regulation_reference: 'ブランドボイス [deterministic]',
         suggested_correction: null,
@@ -157,42 +253,88 @@ export const runDeterministicChecks = (
     }
   }
 
-  const hasBoilerplate = REQUIRED_BOILERPLATE_PATTERNS.some((re) =>
-    re.test(variantText),
-  );
-  if (!hasBoilerplate) {
+  for (const { rule, re } of applicable) {
+    if (rule.kind !== 'required') continue;
+    if (variantText.search(re) !== -1) continue;
     findings.push({
-      severity: 'warning',
-      source_text: '(末尾)',
-      paragraph_index: Math.max(paragraphs.length, 1),
-      explanation: '会社情報・問い合わせ先などの定型句が見当たりません。',
-      regulation_reference: '必須開示 [deterministic]',
-      suggested_correction:
-        '末尾に「お問い合わせ：〜広報部 TEL: …」などの定型句を追記してください。',
+      rule_id: rule.id,
+      severity: rule.severity,
+      source_text: WHOLE_BODY_SOURCE_TEXT,
+      paragraph_index: null,
+      start: null,
+      end: null,
+      explanation: rule.explanation_template,
+      regulation_reference: `${rule.regulation_reference} [deterministic]`,
+      suggested_correction: rule.suggested_correction,
     });
   }
 
-  if (options.requireClinicalReference) {
-    const hasClinicalRef = CLINICAL_REFERENCE_PATTERNS.some((re) =>
-      re.test(variantText),
-    );
-    if (!hasClinicalRef) {
-      findings.push({
-        severity: 'warning',
-        source_text: '(本文全体)',
-        paragraph_index: 1,
-        explanation:
-          '臨床試験への参照（臨床試験／第I-III相など）が見当たりません。',
-        regulation_reference: '臨床表現 [deterministic]',
-        suggested_correction: null,
-      });
-    }
-  }
-
   return findings;
 };
 // drift:end runDeterministicChecks
 
+// drift:start checkManagedBoilerplate
+// Each applicable block of the client's managed boilerplate
+// (client-boilerplate.ts) must appear in the body exactly as its current
+// approved version. An older version still in the body is flagged at that
+// text, with the current one as the correction; a block that is missing or
+// edited is flagged on the body as a whole.
+export interface ManagedBoilerplateVersion {
+  block_id: string;
+  version: number;
+  heading: string;
+  body: string;
+}
+
+export const checkManagedBoilerplate = (
+  variantText: string,
+  blocks: readonly ManagedBoilerplate[],
+  history: readonly ManagedBoilerplateVersion[],
+): DeterministicFinding[] =>
+  blocks.flatMap((block): DeterministicFinding[] => {
+    const approved = boilerplateText(block);
+    if (variantText.includes(approved)) return [];
+    const label = BOILERPLATE_KIND_LABEL[block.kind].ja;
+    const common = {
+      rule_id: null,
+      severity: 'warning' as const,
+      regulation_reference: '管理定型文 [deterministic]',
+      suggested_correction: approved,
+    };
+    const older = history
+      .filter((h) => h.block_id === block.id && h.version < block.version)
+      .sort((a, b) => b.version - a.version)
+      .map((h) => ({
+        version: h.version,
+        text: boilerplateText({ ...h, kind: block.kind }),
+      }))
+      .find((h) => variantText.includes(h.text));
+    if (older) {
+      const start = variantText.indexOf(older.text);
+      return [
+        {
+          ...common,
+          source_text: older.text,
+          paragraph_index: paragraphIndexAt(variantText, start),
+          start,
+          end: start + older.text.length,
+          explanation: `「${label}」が旧版（v${older.version}）のままです。承認済みの最新版（v${block.version}）に差し替えてください。`,
+        },
+      ];
+    }
+    return [
+      {
+        ...common,
+        source_text: WHOLE_BODY_SOURCE_TEXT,
+        paragraph_index: null,
+        start: null,
+        end: null,
+        explanation: `承認済みの「${label}」（v${block.version}）が本文にそのまま含まれていません。欠落しているか、変更されています。`,
+      },
+    ];
+  });
+// drift:end checkManagedBoilerplate
+
 export const ComplianceFindingSchema = z.object({
   severity: z.enum(['blocker', 'warning', 'note']),
   source_text: z.string().min(1),
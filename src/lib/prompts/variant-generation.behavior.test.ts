@@ -2,8 +2,11 @@ import { describe, it, expect } from 'vitest';
 import {
   VARIANT_GENERATION_SYSTEM,
   exceedsHardCap,
+  selectApprovedExamples,
+  type ApprovedExampleCandidate,
   type VariantSystemArgs,
 } from './variant-generation';
+import { DocumentBlockSchema } from '../variant-document';
 
 const baseArgs = (over: Partial<VariantSystemArgs> = {}): VariantSystemArgs => ({
   voiceProfile: {
@@ -23,6 +26,8 @@ const baseArgs = (over: Partial<VariantSystemArgs> = {}): VariantSystemArgs => (
   channel: 'pr_times',
   lengthTargetChars: null,
   enforceHardCap: false,
+  approvedExamples: [],
+  managedBoilerplate: { blockTypes: [], chars: 0 },
   ...over,
 });
 
@@ -84,6 +89,177 @@ describe('VARIANT_GENERATION_SYSTEM lever wiring', () => {
     const out = VARIANT_GENERATION_SYSTEM(baseArgs({ lengthTargetChars: null }));
     expect(out).not.toMatch(/EXPLICIT LENGTH TARGET/);
   });
+
+  it('injects approved examples with their source and a no-copy instruction', () => {
+    const out = VARIANT_GENERATION_SYSTEM(
+      baseArgs({
+        approvedExamples: [
+          {
+            id: 'a',
+            source_type: 'client_feedback',
+            body_text: '選ばれた本文',
+            truncated: false,
+          },
+          {
+            id: 'b',
+            source_type: 'brand_voice_sample',
+            body_text: 'サンプル本文',
+            truncated: true,
+          },
+        ],
+      }),
+    );
+    expect(out).toContain('APPROVED EXAMPLES');
+    expect(out).toMatch(/Do NOT copy facts/);
+    expect(out).toContain(
+      '<example index="1" source="client_chosen">\n選ばれた本文\n</example>',
+    );
+    expect(out).toContain(
+      '<example index="2" source="uploaded_sample" truncated="true">',
+    );
+  });
+
+  it('omits the approved-examples block when the pool is empty', () => {
+    const out = VARIANT_GENERATION_SYSTEM(baseArgs());
+    expect(out).not.toMatch(/APPROVED EXAMPLES/);
+  });
+
+  it('leaves the boilerplate to the model when the client has none managed', () => {
+    const out = VARIANT_GENERATION_SYSTEM(baseArgs());
+    expect(out).not.toMatch(/MANAGED BOILERPLATE/);
+    expect(out).toMatch(/include company boilerplate/);
+  });
+
+  it('tells the model which managed blocks not to write, and their length', () => {
+    const out = VARIANT_GENERATION_SYSTEM(
+      baseArgs({
+        managedBoilerplate: {
+          blockTypes: ['boilerplate', 'contact'],
+          chars: 240,
+        },
+      }),
+    );
+    expect(out).toMatch(/MANAGED BOILERPLATE/);
+    expect(out).toContain('about 240字');
+    expect(out).toContain('Do NOT write "boilerplate" or "contact" blocks');
+    expect(out).not.toMatch(/include company boilerplate/);
+  });
+
+  it('asks for a <document> covering every block type the document model has', () => {
+    const out = VARIANT_GENERATION_SYSTEM(baseArgs());
+    expect(out).toContain('<document></document>');
+    for (const option of DocumentBlockSchema.options) {
+      expect(out).toContain(`{"type":"${option.shape.type.value}"`);
+    }
+  });
+});
+
+const candidate = (
+  over: Partial<ApprovedExampleCandidate> = {},
+): ApprovedExampleCandidate => ({
+  id: 'x',
+  source_type: 'client_feedback',
+  content_type: 'press_release',
+  body_text: '本文。'.repeat(200),
+  created_at: '2026-05-01T00:00:00Z',
+  ...over,
+});
+
+describe('selectApprovedExamples (ranking + budget)', () => {
+  it('ranks client-chosen drafts above uploaded samples, then by recency', () => {
+    const out = selectApprovedExamples(
+      [
+        candidate({
+          id: 'sample',
+          source_type: 'brand_voice_sample',
+          content_type: null,
+          created_at: '2026-06-01T00:00:00Z',
+        }),
+        candidate({ id: 'old', created_at: '2026-01-01T00:00:00Z' }),
+        candidate({ id: 'new', created_at: '2026-04-01T00:00:00Z' }),
+      ],
+      'press_release',
+    );
+    expect(out.map((e) => e.id)).toEqual(['new', 'old', 'sample']);
+  });
+
+  it('prefers an exact content-type match within the same source', () => {
+    const out = selectApprovedExamples(
+      [
+        candidate({
+          id: 'blog',
+          content_type: 'blog_post',
+          created_at: '2026-06-01T00:00:00Z',
+        }),
+        candidate({ id: 'pr', content_type: 'press_release' }),
+      ],
+      'press_release',
+    );
+    expect(out[0].id).toBe('pr');
+  });
+
+  it('caps the number of examples', () => {
+    const out = selectApprovedExamples(
+      Array.from({ length: 6 }, (_, i) =>
+        candidate({ id: `e${i}`, body_text: '短い本文。' }),
+      ),
+      'press_release',
+      {
+        maxExamples: 2,
+        maxTotalChars: 6000,
+        maxCharsPerExample: 2400,
+        minUsefulChars: 400,
+      },
+    );
+    expect(out).toHaveLength(2);
+  });
+
+  it('trims long examples at a paragraph break and flags them truncated', () => {
+    const body = `${'あ'.repeat(300)}\n\n${'い'.repeat(300)}`;
+    const [ex] = selectApprovedExamples(
+      [candidate({ body_text: body })],
+      'press_release',
+      {
+        maxExamples: 3,
+        maxTotalChars: 6000,
+        maxCharsPerExample: 450,
+        minUsefulChars: 100,
+      },
+    );
+    expect(ex.body_text).toBe('あ'.repeat(300));
+    expect(ex.truncated).toBe(true);
+  });
+
+  it('stays within the total budget and skips picks squeezed below the useful minimum', () => {
+    const out = selectApprovedExamples(
+      [
+        candidate({
+          id: 'a',
+          body_text: 'あ'.repeat(900),
+          created_at: '2026-03-01T00:00:00Z',
+        }),
+        candidate({
+          id: 'b',
+          body_text: 'い'.repeat(900),
+          created_at: '2026-02-01T00:00:00Z',
+        }),
+      ],
+      'press_release',
+      {
+        maxExamples: 3,
+        maxTotalChars: 1000,
+        maxCharsPerExample: 2400,
+        minUsefulChars: 400,
+      },
+    );
+    expect(out.map((e) => e.id)).toEqual(['a']);
+    const total = out.reduce((n, e) => n + Array.from(e.body_text).length, 0);
+    expect(total).toBeLessThanOrEqual(1000);
+  });
+
+  it('returns an empty selection for an empty pool', () => {
+    expect(selectApprovedExamples([], 'press_release')).toEqual([]);
+  });
 });
 
 describe('exceedsHardCap (enforce → retry → error decision)', () => {
@@ -29,6 +29,7 @@ function extractStringLiteral(src: string, name: string): string {
 
 const DRIFT_REGIONS = [
   'VARIATION_DIRECTIVES',
+  'selectApprovedExamples',
   'VARIANT_GENERATION_SYSTEM',
   'buildVariantUserMessage',
   'parseSubTypeMarker',
@@ -21,7 +21,7 @@ import { CLAUDE_MODELS } from './brand-voice';
 
 export { CLAUDE_MODELS };
 
-export const VARIANT_GENERATION_PROMPT_VERSION = 'v2-audience-lifecycle';
+export const VARIANT_GENERATION_PROMPT_VERSION = 'v6-managed-boilerplate';
 
 export type ContentSubType =
   | 'auto'
@@ -71,38 +71,144 @@ export const VARIATION_DIRECTIVES = {
     1: {
       label: 'データ先行',
       directive:
-        'Lead the announcement with the headline data point or statistic.',
+        'Lead with data. Open the lead paragraph with the headline data point or statistic from the brief, with its statistical context. Follow with what the data means, then the announcement details and quotes. Use the balanced house register.',
     },
     2: {
       label: '引用先行',
       directive:
-        'Lead with an executive quote that frames the announcement.',
+        'Lead with a quote. Open with the most newsworthy executive quote from the brief, attributed with name and title, framing why the announcement matters. Follow with the announcement and supporting data. If the brief has no quote, lead with the announcement and place no invented quote. Use the balanced house register.',
     },
     3: {
       label: '発表先行',
       directive:
-        'Lead with the announcement itself, then provide supporting detail.',
+        'Lead with the announcement. Open with a classic inverted-pyramid lead — who, what, when — then supporting data, then quotes, then background. Use the balanced house register.',
     },
   },
   length: {
     1: {
       label: '簡潔',
       directive:
-        'Write a concise version — roughly 60% of the standard length.',
+        'Concise. Aim for roughly 60% of the standard length for this content type: keep the lead, the single most important data point and one quote; drop secondary background. Keep every required disclosure and the boilerplate.',
     },
     2: {
       label: '標準',
-      directive: 'Write at the standard length for this content type.',
+      directive:
+        'Standard. Write at the standard length for this content type, with the usual balance of lead, data, quotes and background. Use the balanced house register.',
     },
     3: {
       label: '詳細',
       directive:
-        'Write a detailed version — roughly 140% of the standard length, with additional context.',
+        'Detailed. Aim for roughly 140% of the standard length: add study design or business context, all supplied data points and quotes, and a short background section — still inside the sub-type cap. Do not pad with facts absent from the brief.',
     },
   },
 } as const;
 // drift:end VARIATION_DIRECTIVES
 
+// drift:start selectApprovedExamples
+export type ApprovedExampleSource = 'client_feedback' | 'brand_voice_sample';
+
+export interface ApprovedExampleCandidate {
+  id: string;
+  source_type: ApprovedExampleSource;
+  /** null = untyped (uploaded samples); matches any content type. */
+  content_type: string | null;
+  body_text: string;
+  created_at: string;
+}
+
+export interface SelectedApprovedExample {
+  id: string;
+  source_type: ApprovedExampleSource;
+  body_text: string;
+  truncated: boolean;
+}
+
+/**
+ * Prompt budget for the approved-examples block. Measured in characters
+ * (code points) as a token proxy — Japanese runs close to one token per
+ * character, so 6,000字 keeps the block well inside the system prompt
+ * without crowding out the brief.
+ */
+export const APPROVED_EXAMPLES_BUDGET = {
+  maxExamples: 3,
+  maxTotalChars: 6000,
+  maxCharsPerExample: 2400,
+  /** Below this, a trimmed example is too short to carry voice — skip it. */
+  minUsefulChars: 400,
+} as const;
+
+const APPROVED_EXAMPLE_SOURCE_WEIGHT = {
+  client_feedback: 2,
+  brand_voice_sample: 1,
+} satisfies Record<ApprovedExampleSource, number>;
+
+/**
+ * Trim to at most `limit` code points, preferring the last paragraph break so
+ * the model never sees a half sentence. Falls back to the last 。 and then a
+ * hard cut when the first paragraph alone is over the limit.
+ */
+const truncateExample = (text: string, limit: number): string => {
+  const chars = Array.from(text);
+  if (chars.length <= limit) return text;
+  const head = chars.slice(0, limit).join('');
+  const paragraphBreak = head.lastIndexOf('\n\n');
+  if (paragraphBreak > 0) return head.slice(0, paragraphBreak).trimEnd();
+  const sentenceEnd = head.lastIndexOf('。');
+  if (sentenceEnd > 0) return head.slice(0, sentenceEnd + 1);
+  return head;
+};
+
+/**
+ * Rank the client's approved-examples pool and fit it to the prompt budget.
+ * Order: source weight (client-chosen over uploaded samples) plus one point
+ * for an exact content-type match, then most recent first. Each pick is
+ * trimmed to the per-example cap and then to whatever total budget remains;
+ * a pick that would drop below minUsefulChars is skipped, not squeezed in.
+ */
+export const selectApprovedExamples = (
+  candidates: ApprovedExampleCandidate[],
+  contentType: string,
+  budget: {
+    maxExamples: number;
+    maxTotalChars: number;
+    maxCharsPerExample: number;
+    minUsefulChars: number;
+  } = APPROVED_EXAMPLES_BUDGET,
+): SelectedApprovedExample[] => {
+  const score = (c: ApprovedExampleCandidate): number =>
+    APPROVED_EXAMPLE_SOURCE_WEIGHT[c.source_type] +
+    (c.content_type === contentType ? 1 : 0);
+
+  const ranked = candidates
+    .filter((c) => c.body_text.trim().length > 0)
+    .sort(
+      (a, b) =>
+        score(b) - score(a) || b.created_at.localeCompare(a.created_at),
+    );
+
+  const selected: SelectedApprovedExample[] = [];
+  let remaining = budget.maxTotalChars;
+  for (const candidate of ranked) {
+    if (selected.length >= budget.maxExamples) break;
+    const body = candidate.body_text.trim();
+    const limit = Math.min(budget.maxCharsPerExample, remaining);
+    const trimmed = truncateExample(body, limit);
+    const length = Array.from(trimmed).length;
+    if (length < budget.minUsefulChars && length < Array.from(body).length) {
+      continue;
+    }
+    selected.push({
+      id: candidate.id,
+      source_type: candidate.source_type,
+      body_text: trimmed,
+      truncated: trimmed !== body,
+    });
+    remaining -= length;
+  }
+  return selected;
+};
+// drift:end selectApprovedExamples
+
 // drift:start VARIANT_GENERATION_SYSTEM
 export interface VariantSystemArgs {
   voiceProfile: {
@@ -127,6 +233,17 @@ export interface VariantSystemArgs {
   channel: DistributionChannel;
   lengthTargetChars: number | null;
   enforceHardCap: boolean;
+  /** Output of selectApprovedExamples — already ranked and budget-trimmed. */
+  approvedExamples: SelectedApprovedExample[];
+  /**
+   * The client's managed boilerplate generate-variants appends verbatim
+   * (client-boilerplate.ts): the document block types it supplies and its
+   * length in characters. No block types = nothing managed.
+   */
+  managedBoilerplate: {
+    blockTypes: ('boilerplate' | 'contact')[];
+    chars: number;
+  };
 }
 
 const AUDIENCE_INSTRUCTIONS = {
@@ -171,10 +288,12 @@ export const VARIANT_GENERATION_SYSTEM = ({
   channel,
   lengthTargetChars,
   enforceHardCap,
+  approvedExamples,
+  managedBoilerplate,
 }: VariantSystemArgs): string => {
   const subTypeBlock =
     subType === 'auto'
-      ? "First, internally classify which sub-type best fits this brief (full_clinical / partner_ack / csr_event / business_news). Apply the matching length range. Emit your classification on a single line at the very start of your output in exactly this form: <sub_type_classified>VALUE</sub_type_classified> where VALUE is one of: full_clinical, partner_ack, csr_event, business_news. Then a blank line. Then the press release body."
+      ? "First, internally classify which sub-type best fits this brief (full_clinical / partner_ack / csr_event / business_news). Apply the matching length range. Emit your classification on a single line at the very start of your output in exactly this form: <sub_type_classified>VALUE</sub_type_classified> where VALUE is one of: full_clinical, partner_ack, csr_event, business_news. Then a blank line. Then the <document>."
       : `Apply the length range for sub-type '${subType}'. Do not emit a <sub_type_classified> marker.`;
 
   const guidelinesBlock =
@@ -191,6 +310,38 @@ export const VARIANT_GENERATION_SYSTEM = ({
         : `\nEXPLICIT LENGTH TARGET: Aim for approximately ${lengthTargetChars}字. Treat the sub-type cap above as the outer bound.\n`
       : '';
 
+  const approvedExamplesBlock =
+    approvedExamples.length > 0
+      ? `\nAPPROVED EXAMPLES (drafts this client has approved — the strongest available evidence of their voice; client-chosen drafts outrank uploaded samples):
+Match their register, sentence rhythm and structure. Do NOT copy facts, figures, names, dates or quotes from them — they describe other announcements.
+${approvedExamples
+  .map(
+    (ex, i) =>
+      `<example index="${i + 1}" source="${ex.source_type === 'client_feedback' ? 'client_chosen' : 'uploaded_sample'}"${ex.truncated ? ' truncated="true"' : ''}>\n${ex.body_text}\n</example>`,
+  )
+  .join('\n')}
+`
+      : '';
+
+  const managed = managedBoilerplate.blockTypes;
+  const managedNames = managed
+    .map((type) =>
+      type === 'contact'
+        ? 'media contact'
+        : 'company "about" block and disclaimers',
+    )
+    .join(' and ');
+  const managedTypes = managed.map((type) => `"${type}"`).join(' or ');
+  const managedBoilerplateBlock =
+    managed.length > 0
+      ? `\nMANAGED BOILERPLATE: The client's approved ${managedNames} will be appended verbatim after your document (about ${managedBoilerplate.chars}字 — it counts toward the length cap and target). Do NOT write ${managedTypes} blocks yourself, and do not restate their contents elsewhere.\n`
+      : '';
+
+  const disclosuresLine =
+    managed.length > 0
+      ? "- Required disclosures: the client's approved boilerplate is supplied (MANAGED BOILERPLATE below); write only the disclosures it does not cover. Where clinical content is present, reference the trial (臨床試験 / 第I-III相) explicitly."
+      : '- Required disclosures: include company boilerplate (お問い合わせ / 広報部 / TEL / 株式会社…について as appropriate). Where clinical content is present, reference the trial (臨床試験 / 第I-III相) explicitly.';
+
   return `You are a Japanese pharmaceutical PR writer at a top Tokyo PR firm. You write for one specific client whose voice profile is below. Match this voice precisely.
 
 CLIENT VOICE PROFILE:
@@ -203,7 +354,7 @@ CLIENT VOICE PROFILE:
 
 ADDITIONAL GUIDELINES (accumulated from feedback and internal review):
 ${guidelinesBlock}
-
+${approvedExamplesBlock}
 TARGET AUDIENCE: ${AUDIENCE_INSTRUCTIONS[audience]}
 
 REGULATORY POSTURE — ${LIFECYCLE_POSTURE[lifecycle]}
@@ -228,11 +379,23 @@ REGULATORY CONSTRAINTS:
 - Comply with 薬機法 (Pharmaceutical Affairs Law). Do not use 誇大表現 (exaggerated expressions).
 - Forbidden absolute terms: 画期的, 革命的, 驚異的, 夢の, 奇跡, 確実な治療効果.
 - All efficacy claims must include statistical context (CI, p-value, sample size) where available.
-- Required disclosures: include company boilerplate (お問い合わせ / 広報部 / TEL / 株式会社…について as appropriate). Where clinical content is present, reference the trial (臨床試験 / 第I-III相) explicitly.
-
+${disclosuresLine}
+${managedBoilerplateBlock}
 LANGUAGE: ${language === 'ja' ? 'Japanese (日本語)' : 'English'}
 
-Output the press release/content as plain text. No preamble, no explanation, no markdown headers — just the content as it would appear (preceded by the <sub_type_classified> marker line when SUB-TYPE is 'auto').`;
+OUTPUT FORMAT — a structured document:
+Output the press release/content as one JSON object inside <document></document> tags, and nothing else (apart from the <sub_type_classified> marker line when SUB-TYPE is 'auto'). No preamble, no explanation, no code fences. Shape: {"version":1,"blocks":[...]} with the blocks in reading order, each one of:
+- {"type":"title","text":"…"} — the headline. Exactly one, first.
+- {"type":"subtitle","text":"…"} — optional sub-headline.
+- {"type":"dateline","text":"…"} — date and place line, only from facts in the brief.
+- {"type":"lead","text":"…"} — the lead paragraph (リード文) summarizing the announcement.
+- {"type":"heading","text":"…"} — a body section heading, when the body has sections.
+- {"type":"paragraph","text":"…"} — a body paragraph.
+- {"type":"quote","text":"…","attribution":"…"} — a quote from the brief, verbatim, without 「」; attribution is the speaker's title and name as given in the brief.
+- {"type":"table","caption":"…","header":["…"],"rows":[["…"]]} — data points from the brief, when a table reads better than prose. Cells are single lines.
+- {"type":"boilerplate","heading":"…","text":"…"} — the company "about" block (e.g. heading 株式会社…について); separate its paragraphs with a blank line.
+- {"type":"contact","text":"…"} — the media contact (お問い合わせ先), one item per line.
+All text is plain text: no markdown, no HTML. Use \\n for a line break inside a block. Length caps and targets count the characters of the text, not the JSON.`;
 };
 // drift:end VARIANT_GENERATION_SYSTEM
 
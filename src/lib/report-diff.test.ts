@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { diffFindings, diffReportSnapshots } from "./report-diff";
+import type { SnapshotFinding, SnapshotVariant } from "@/types/audit-snapshot";
+
+function finding(id: string, over: Partial<SnapshotFinding> = {}) {
+  return {
+    id,
+    variant_id: "v1",
+    severity: "warning",
+    source: "automated",
+    source_text: "必ず治る",
+    paragraph_index: 0,
+    explanation: "効能の断定",
+    regulation_reference: "薬機法第66条",
+    suggested_correction: null,
+    resolution_status: "unresolved",
+    resolved_by: null,
+    resolved_at: null,
+    created_at: "2026-10-01T00:00:00Z",
+    ...over,
+  } as SnapshotFinding;
+}
+
+function variant(
+  id: string,
+  index: number,
+  body: string,
+  findings: SnapshotFinding[] = [],
+): SnapshotVariant {
+  return {
+    id,
+    variant_label: `案${index}`,
+    variant_index: index,
+    body_text: body,
+    body_html: null,
+    char_count: body.length,
+    reading_time_seconds: 60,
+    internal_approved_by: { id: "u1", name: "山田" },
+    internal_approved_at: null,
+    model_used: "m",
+    generation_params: {},
+    findings,
+  };
+}
+
+describe("diffFindings", () => {
+  it("reports resolution changes on the same finding", () => {
+    const diff = diffFindings(
+      [finding("f1")],
+      [
+        finding("f1", {
+          resolution_status: "acknowledged",
+          resolved_by: { id: "u2", name: "佐藤" },
+          resolved_at: "2026-10-02T00:00:00Z",
+        }),
+      ],
+    );
+
+    expect(diff).toEqual([
+      {
+        status: "changed",
+        finding: expect.objectContaining({ id: "f1" }),
+        changes: [
+          {
+            field: "resolution_status",
+            before: "unresolved",
+            after: "acknowledged",
+          },
+          { field: "resolved_by", before: null, after: "佐藤" },
+        ],
+      },
+    ]);
+  });
+
+  it("pairs a rechecked finding with its predecessor by what it says", () => {
+    const diff = diffFindings(
+      [finding("f1")],
+      [finding("f9", { severity: "blocker" })],
+    );
+
+    expect(diff).toHaveLength(1);
+    expect(diff[0].status).toBe("changed");
+    expect(diff[0].changes).toEqual([
+      { field: "severity", before: "warning", after: "blocker" },
+    ]);
+  });
+
+  it("reports added and removed findings and ignores unchanged ones", () => {
+    const diff = diffFindings(
+      [finding("f1"), finding("f2", { source_text: "副作用なし" })],
+      [finding("f1"), finding("f3", { source_text: "日本一" })],
+    );
+
+    expect(diff.map((d) => [d.status, d.finding.id])).toEqual([
+      ["added", "f3"],
+      ["removed", "f2"],
+    ]);
+  });
+
+  it("compares fields a newer snapshot adds", () => {
+    const before = finding("f1");
+    const after = { ...finding("f1"), note: "確認済み" } as SnapshotFinding;
+
+    expect(diffFindings([before], [after])[0].changes).toEqual([
+      { field: "note", before: null, after: "確認済み" },
+    ]);
+  });
+});
+
+describe("diffReportSnapshots", () => {
+  it("diffs variant bodies and counts the changes", () => {
+    const before = {
+      variants: [
+        variant("v1", 1, "第一段落\n第二段落", [finding("f1")]),
+        variant("v2", 2, "変更なし"),
+        variant("v3", 3, "削除される案"),
+      ],
+    };
+    const after = {
+      variants: [
+        variant("v1", 1, "第一段落\n第二段落を修正"),
+        variant("v2", 2, "変更なし"),
+      ],
+    };
+
+    const diff = diffReportSnapshots(before, after);
+
+    expect(diff.variants.map((v) => v.status)).toEqual([
+      "changed",
+      "unchanged",
+      "removed",
+    ]);
+    expect(diff.variants[0].body?.[0]).toEqual({
+      op: "equal",
+      text: "第一段落",
+    });
+    expect(diff.variants[0].body?.[1].op).toBe("changed");
+    expect(diff.counts).toEqual({
+      variants_changed: 2,
+      findings_added: 0,
+      findings_removed: 1,
+      findings_changed: 0,
+    });
+  });
+
+  it("matches variants by index when the id changed", () => {
+    const diff = diffReportSnapshots(
+      { variants: [variant("old", 1, "本文")] },
+      { variants: [variant("new", 1, "本文")] },
+    );
+
+    expect(diff.variants).toHaveLength(1);
+    expect(diff.variants[0].status).toBe("unchanged");
+  });
+});
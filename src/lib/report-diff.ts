@@ -0,0 +1,237 @@
+/**
+ * Structured diff between two audit report snapshots (one version and a
+ * later revision of it), for the version-compare view and the printed
+ * revision summary.
+ *
+ * Variants are matched by id, then by variant_index. Findings are matched
+ * by id first; a recheck replaces automated findings with new rows, so the
+ * leftovers are paired again on what the finding says (source, regulation
+ * and flagged text) before being called added or removed.
+ */
+import { diffLines, type DiffLine } from "@/lib/text-diff";
+import type {
+  AuditReportSnapshot,
+  SnapshotFinding,
+  SnapshotUserRef,
+  SnapshotVariant,
+} from "@/types/audit-snapshot";
+
+export type ChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface FindingDiff {
+  status: Exclude<ChangeStatus, "unchanged">;
+  // The later finding, or the earlier one when removed.
+  finding: SnapshotFinding;
+  changes: FieldChange[];
+}
+
+export interface VariantDiff {
+  status: ChangeStatus;
+  variant_index: number;
+  variant_label: string;
+  // Line diff of body_text; null when the text is unchanged or the variant
+  // exists on one side only.
+  body: DiffLine[] | null;
+  // Variant-level fields other than the body (label, approver).
+  changes: FieldChange[];
+  findings: FindingDiff[];
+}
+
+export interface ReportDiff {
+  variants: VariantDiff[];
+  counts: {
+    variants_changed: number;
+    findings_added: number;
+    findings_removed: number;
+    findings_changed: number;
+  };
+}
+
+// Finding fields worth reporting, in display order. Anything else a newer
+// snapshot adds is compared too and listed after these. Timestamps and
+// ids are bookkeeping, not content.
+const FINDING_FIELDS = [
+  "severity",
+  "source",
+  "source_text",
+  "paragraph_index",
+  "explanation",
+  "regulation_reference",
+  "suggested_correction",
+  "resolution_status",
+  "resolved_by",
+] as const;
+const FINDING_IGNORED = new Set([
+  "id",
+  "variant_id",
+  "created_at",
+  "resolved_at",
+]);
+
+function userName(ref: SnapshotUserRef | null | undefined): string | null {
+  return ref ? (ref.name ?? ref.id) : null;
+}
+
+function comparable(field: string, value: unknown): unknown {
+  if (field === "resolved_by" || field === "created_by") {
+    return userName(value as SnapshotUserRef | null);
+  }
+  return value ?? null;
+}
+
+function fieldChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[],
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const b = comparable(field, before[field]);
+    const a = comparable(field, after[field]);
+    if (JSON.stringify(b) !== JSON.stringify(a)) {
+      changes.push({ field, before: b, after: a });
+    }
+  }
+  return changes;
+}
+
+function findingFields(a: SnapshotFinding, b: SnapshotFinding): string[] {
+  const extra = [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(
+      (k) =>
+        !FINDING_IGNORED.has(k) &&
+        !(FINDING_FIELDS as readonly string[]).includes(k),
+    )
+    .sort();
+  return [...FINDING_FIELDS, ...extra];
+}
+
+const findingKey = (f: SnapshotFinding) =>
+  JSON.stringify([f.source ?? null, f.regulation_reference, f.source_text]);
+
+export function diffFindings(
+  before: SnapshotFinding[],
+  after: SnapshotFinding[],
+): FindingDiff[] {
+  const pairs: [SnapshotFinding, SnapshotFinding][] = [];
+  let removed = [...before];
+  let added: SnapshotFinding[] = [];
+  for (const f of after) {
+    const match = removed.find((b) => b.id === f.id);
+    if (match) {
+      pairs.push([match, f]);
+      removed = removed.filter((b) => b !== match);
+    } else {
+      added.push(f);
+    }
+  }
+  for (const f of [...added]) {
+    const match = removed.find((b) => findingKey(b) === findingKey(f));
+    if (match) {
+      pairs.push([match, f]);
+      removed = removed.filter((b) => b !== match);
+      added = added.filter((a) => a !== f);
+    }
+  }
+
+  const out: FindingDiff[] = [];
+  for (const [b, a] of pairs) {
+    const changes = fieldChanges(
+      b as unknown as Record<string, unknown>,
+      a as unknown as Record<string, unknown>,
+      findingFields(b, a),
+    );
+    if (changes.length > 0)
+      out.push({ status: "changed", finding: a, changes });
+  }
+  for (const f of added) out.push({ status: "added", finding: f, changes: [] });
+  for (const f of removed) {
+    out.push({ status: "removed", finding: f, changes: [] });
+  }
+  return out;
+}
+
+function diffVariant(
+  before: SnapshotVariant | undefined,
+  after: SnapshotVariant | undefined,
+): VariantDiff {
+  const v = (after ?? before)!;
+  if (!before || !after) {
+    return {
+      status: before ? "removed" : "added",
+      variant_index: v.variant_index,
+      variant_label: v.variant_label,
+      body: null,
+      changes: [],
+      findings: [],
+    };
+  }
+
+  const body =
+    before.body_text === after.body_text
+      ? null
+      : diffLines(before.body_text, after.body_text);
+  const changes = fieldChanges(
+    {
+      variant_label: before.variant_label,
+      internal_approved_by: userName(before.internal_approved_by),
+    },
+    {
+      variant_label: after.variant_label,
+      internal_approved_by: userName(after.internal_approved_by),
+    },
+    ["variant_label", "internal_approved_by"],
+  );
+  const findings = diffFindings(before.findings, after.findings);
+  return {
+    status:
+      body || changes.length > 0 || findings.length > 0
+        ? "changed"
+        : "unchanged",
+    variant_index: after.variant_index,
+    variant_label: after.variant_label,
+    body,
+    changes,
+    findings,
+  };
+}
+
+export function diffReportSnapshots(
+  before: AuditReportSnapshot,
+  after: AuditReportSnapshot,
+): ReportDiff {
+  const remaining = [...before.variants];
+  const take = (pred: (v: SnapshotVariant) => boolean) => {
+    const i = remaining.findIndex(pred);
+    return i >= 0 ? remaining.splice(i, 1)[0] : undefined;
+  };
+
+  const paired: [SnapshotVariant | undefined, SnapshotVariant][] =
+    after.variants.map((a) => [take((b) => b.id === a.id), a]);
+  for (const pair of paired) {
+    if (!pair[0])
+      pair[0] = take((b) => b.variant_index === pair[1].variant_index);
+  }
+
+  const variants = [
+    ...paired.map(([b, a]) => diffVariant(b, a)),
+    ...remaining.map((b) => diffVariant(b, undefined)),
+  ].sort((x, y) => x.variant_index - y.variant_index);
+
+  const findings = variants.flatMap((v) => v.findings);
+  return {
+    variants,
+    counts: {
+      variants_changed: variants.filter((v) => v.status !== "unchanged").length,
+      findings_added: findings.filter((f) => f.status === "added").length,
+      findings_removed: findings.filter((f) => f.status === "removed").length,
+      findings_changed: findings.filter((f) => f.status === "changed").length,
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import holidays2026 from '@/lib/holidays-2026.json';
 import type { SchedulingWarning } from '@/lib/types/delivery';
+import type { SchedulingBlackout } from '@/types/domain';
 
 interface Holiday {
   date: string;
@@ -11,11 +12,30 @@ const HOLIDAY_MAP: Map<string, Holiday> = new Map(
   (holidays2026 as Holiday[]).map((h) => [h.date, h]),
 );
 
+// The scheduling rules that apply to one project (migration 0036): the
+// project's market-hours flag and embargo, and the firm's active blackout
+// windows. Omitted parts add no warnings.
+export interface SchedulingContext {
+  marketHoursSensitive?: boolean;
+  embargo?: {
+    liftAt: string;
+    label: string | null;
+    enforced: boolean;
+  } | null;
+  blackouts?: ReadonlyArray<
+    Pick<SchedulingBlackout, 'id' | 'label' | 'starts_at' | 'ends_at'>
+  >;
+}
+
 // Returns warning codes for a UTC ISO timestamp interpreted in JST. Business
 // hours per PRD §5.4 are widened to [09, 18) — the strict 22:00–06:00 quiet
 // window is implied by the wider off-hours flag. Holidays sourced from the
 // hardcoded src/lib/holidays-2026.json (v2 swaps to a maintained library).
-export function getSchedulingWarnings(utcIso: string | null | undefined): SchedulingWarning[] {
+// The context's rule warnings follow the two calendar ones.
+export function getSchedulingWarnings(
+  utcIso: string | null | undefined,
+  context: SchedulingContext = {},
+): SchedulingWarning[] {
   if (!utcIso) return [];
   const date = new Date(utcIso);
   if (Number.isNaN(date.getTime())) return [];
@@ -30,9 +50,82 @@ export function getSchedulingWarnings(utcIso: string | null | undefined): Schedu
   if (HOLIDAY_MAP.has(dateStr)) {
     warnings.push('japanese_holiday');
   }
+  return [...warnings, ...getRuleWarnings(date, context)];
+}
+
+// Send now has no chosen time to second-guess, so only the rules apply,
+// evaluated at the moment of sending.
+export function getSendNowWarnings(
+  context: SchedulingContext,
+  now: Date = new Date(),
+): SchedulingWarning[] {
+  return getRuleWarnings(now, context);
+}
+
+function getRuleWarnings(
+  date: Date,
+  context: SchedulingContext,
+): SchedulingWarning[] {
+  const warnings: SchedulingWarning[] = [];
+  if (context.marketHoursSensitive && isTseTradingSession(date)) {
+    warnings.push('tse_trading_hours');
+  }
+  if (context.embargo && date < new Date(context.embargo.liftAt)) {
+    warnings.push('embargo_before_lift');
+  }
+  if (getMatchingBlackouts(date, context.blackouts).length > 0) {
+    warnings.push('blackout_window');
+  }
   return warnings;
 }
 
+// TSE cash-equity sessions since 2024-11-05: 09:00–11:30 and 12:30–15:30
+// JST on weekdays, closed on national holidays and 12/31–1/3.
+const TSE_SESSIONS: ReadonlyArray<[number, number]> = [
+  [9 * 60, 11 * 60 + 30],
+  [12 * 60 + 30, 15 * 60 + 30],
+];
+
+export function isTseTradingSession(at: Date): boolean {
+  if (Number.isNaN(at.getTime())) return false;
+  const jst = new Date(at.getTime() + 9 * 60 * 60 * 1000);
+  const weekday = jst.getUTCDay();
+  if (weekday === 0 || weekday === 6) return false;
+  const dateStr = jst.toISOString().slice(0, 10);
+  const monthDay = dateStr.slice(5);
+  if (HOLIDAY_MAP.has(dateStr) || monthDay === '12-31' || monthDay <= '01-03') {
+    return false;
+  }
+  const minutes = jst.getUTCHours() * 60 + jst.getUTCMinutes();
+  return TSE_SESSIONS.some(
+    ([open, close]) => minutes >= open && minutes < close,
+  );
+}
+
+// Windows are half-open, [starts_at, ends_at).
+export function getMatchingBlackouts<
+  B extends Pick<SchedulingBlackout, 'starts_at' | 'ends_at'>,
+>(at: Date, blackouts: ReadonlyArray<B> | undefined): B[] {
+  if (!blackouts) return [];
+  const t = at.getTime();
+  return blackouts.filter(
+    (b) =>
+      new Date(b.starts_at).getTime() <= t && t < new Date(b.ends_at).getTime(),
+  );
+}
+
+// Mirrors the 0036 triggers: an enforced embargo refuses any send before
+// the lift. Null utcIso is send now.
+export function isEmbargoBlocked(
+  utcIso: string | null | undefined,
+  embargo: SchedulingContext['embargo'],
+  now: Date = new Date(),
+): boolean {
+  if (!embargo?.enforced) return false;
+  const at = utcIso ? new Date(utcIso) : now;
+  return at < new Date(embargo.liftAt);
+}
+
 export function getHoliday(utcIso: string | null | undefined): Holiday | null {
   if (!utcIso) return null;
   const date = new Date(utcIso);
@@ -41,3 +134,15 @@ export function getHoliday(utcIso: string | null | undefined): Holiday | null {
   const dateStr = new Date(jstMs).toISOString().slice(0, 10);
   return HOLIDAY_MAP.get(dateStr) ?? null;
 }
+
+// The composer's datetime-local inputs hold JST wall-clock time
+// ("YYYY-MM-DDTHH:mm"); the RPCs take UTC ISO timestamps.
+export function utcIsoToJstWallclock(iso: string): string {
+  const d = new Date(iso);
+  const jstMs = d.getTime() + 9 * 60 * 60 * 1000;
+  return new Date(jstMs).toISOString().slice(0, 16);
+}
+
+export function jstWallclockToUtcIso(jstValue: string): string {
+  return new Date(`${jstValue}:00+09:00`).toISOString();
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  orderSignoffRoles,
+  signoffSlots,
+  type AuditReportSignoff,
+} from "./signoff";
+
+function signoff(overrides: Partial<AuditReportSignoff>): AuditReportSignoff {
+  return {
+    status: "partially_signed",
+    roles: ["reviewer", "compliance_officer", "legal_counsel"],
+    next_role: "compliance_officer",
+    content_changed: false,
+    signatures: [
+      {
+        id: "sig-1",
+        signoff_role: "reviewer",
+        signer_id: "u1",
+        signer_name_snapshot: "山田 太郎",
+        signed_at: "2026-10-01T00:00:00Z",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("signoffSlots", () => {
+  it("fills each required role with its active signature", () => {
+    const slots = signoffSlots(signoff({}));
+    expect(slots.map((s) => s.role)).toEqual([
+      "reviewer",
+      "compliance_officer",
+      "legal_counsel",
+    ]);
+    expect(slots[0].signature?.id).toBe("sig-1");
+    expect(slots[1].signature).toBeNull();
+    expect(slots[2].signature).toBeNull();
+  });
+
+  it("leaves every slot open once the content changed after signing", () => {
+    const slots = signoffSlots(
+      signoff({ content_changed: true, next_role: "reviewer" }),
+    );
+    expect(slots.every((s) => s.signature === null)).toBe(true);
+  });
+
+  it("only lists the roles the policy requires", () => {
+    const slots = signoffSlots(
+      signoff({ roles: ["reviewer"], next_role: null, status: "finalized" }),
+    );
+    expect(slots).toHaveLength(1);
+    expect(slots[0].signature?.id).toBe("sig-1");
+  });
+});
+
+describe("orderSignoffRoles", () => {
+  it("puts roles in signing order and drops unknown ones", () => {
+    expect(orderSignoffRoles(["legal_counsel", "auditor", "reviewer"])).toEqual(
+      ["reviewer", "legal_counsel"],
+    );
+  });
+});
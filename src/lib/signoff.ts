@@ -0,0 +1,59 @@
+import type { AuditReportStatus, SignoffRole } from "@/types/domain";
+
+// Sign-off roles in signing order, and what audit_report_signoff (migration
+// 0025) reports about a report's signatures. A policy lists a subset of
+// SIGNOFF_ROLES; reports are signed in this order.
+
+export const SIGNOFF_ROLES: SignoffRole[] = [
+  "reviewer",
+  "compliance_officer",
+  "legal_counsel",
+];
+
+export const SIGNOFF_ROLE_LABEL: Record<
+  SignoffRole,
+  { ja: string; en: string }
+> = {
+  reviewer: { ja: "レビュー担当", en: "PR reviewer" },
+  compliance_officer: { ja: "コンプライアンス担当", en: "Compliance officer" },
+  legal_counsel: { ja: "法務担当", en: "Legal counsel" },
+};
+
+export interface SignoffSignature {
+  id: string;
+  signoff_role: SignoffRole;
+  signer_id: string;
+  signer_name_snapshot: string;
+  signed_at: string;
+}
+
+export interface AuditReportSignoff {
+  status: AuditReportStatus;
+  roles: SignoffRole[];
+  next_role: SignoffRole | null;
+  // The content changed since the active signatures were made; the next
+  // signature invalidates them and starts a new round.
+  content_changed: boolean;
+  signatures: SignoffSignature[];
+}
+
+export interface SignoffSlot {
+  role: SignoffRole;
+  signature: SignoffSignature | null;
+}
+
+// One slot per required role, filled by its active signature. Signatures
+// the next signing will invalidate don't fill a slot.
+export function signoffSlots(signoff: AuditReportSignoff): SignoffSlot[] {
+  return signoff.roles.map((role) => ({
+    role,
+    signature: signoff.content_changed
+      ? null
+      : (signoff.signatures.find((s) => s.signoff_role === role) ?? null),
+  }));
+}
+
+// Keeps the policy's roles in signing order.
+export function orderSignoffRoles(roles: readonly string[]): SignoffRole[] {
+  return SIGNOFF_ROLES.filter((r) => roles.includes(r));
+}
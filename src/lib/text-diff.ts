@@ -0,0 +1,97 @@
+/**
+ * Plain-text diff for the variant History tab. Pure, LCS-based.
+ *
+ * diffLines compares paragraph by paragraph. body_text is one paragraph per
+ * line from the generator but blank-line separated from the editor, so a run
+ * of newlines counts as one break. A removed paragraph immediately followed
+ * by an added one is reported as a single 'changed' entry carrying a
+ * character-level diff: most autosave edits touch a few characters inside a
+ * paragraph, and a whole-paragraph swap hides that.
+ */
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export type DiffLine =
+  { op: DiffOp; text: string } | { op: 'changed'; segments: DiffSegment[] };
+
+// Character diff is O(n·m); past this size a paired line is shown as a plain
+// remove + add instead.
+const MAX_CHAR_DIFF_CELLS = 250_000;
+
+function diffSequence<T>(
+  a: readonly T[],
+  b: readonly T[],
+): { op: DiffOp; item: T }[] {
+  const n = a.length;
+  const m = b.length;
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array<number>(m + 1).fill(0),
+  );
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: { op: DiffOp; item: T }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push({ op: 'equal', item: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ op: 'removed', item: a[i++] });
+    } else {
+      out.push({ op: 'added', item: b[j++] });
+    }
+  }
+  while (i < n) out.push({ op: 'removed', item: a[i++] });
+  while (j < m) out.push({ op: 'added', item: b[j++] });
+  return out;
+}
+
+/** Character diff, merged into runs. Code-point aware (Array.from). */
+export function diffChars(before: string, after: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  for (const { op, item } of diffSequence(
+    Array.from(before),
+    Array.from(after),
+  )) {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) last.text += item;
+    else segments.push({ op, text: item });
+  }
+  return segments;
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const ops = diffSequence(before.split(/\n+/), after.split(/\n+/));
+  const out: DiffLine[] = [];
+  for (let k = 0; k < ops.length; k++) {
+    const cur = ops[k];
+    const next = ops[k + 1];
+    if (
+      cur.op === 'removed' &&
+      next?.op === 'added' &&
+      Array.from(cur.item).length * Array.from(next.item).length <=
+        MAX_CHAR_DIFF_CELLS
+    ) {
+      out.push({ op: 'changed', segments: diffChars(cur.item, next.item) });
+      k++;
+      continue;
+    }
+    out.push({ op: cur.op, text: cur.item });
+  }
+  return out;
+}
@@ -6,6 +6,7 @@
  * src/__tests__/delivery-snapshot.drift.test.ts.
  */
 import { z } from 'zod';
+import { VariantDocumentSchema } from '../variant-document';
 
 // drift:start DELIVERY_TYPES
 const EMAIL_RE = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
@@ -16,6 +17,12 @@ const emailString = z.string().refine((v) => EMAIL_RE.test(v), {
 export const SchedulingWarningSchema = z.enum([
   'outside_business_hours',
   'japanese_holiday',
+  // Scheduling rules (migration 0036): TSE session for market-hours
+  // sensitive projects, before the project's embargo lift, inside a firm
+  // blackout window.
+  'tse_trading_hours',
+  'embargo_before_lift',
+  'blackout_window',
 ]);
 
 export const AttachmentFormatSchema = z.enum(['pdf', 'word', 'both']);
@@ -34,10 +41,19 @@ export const SnapshotVariantSchema = z.object({
   variant_index: z.number().int().min(1).max(3),
   body_html: z.string().nullable(),
   body_text: z.string(),
+  // Structured document (migration 0030). Absent from snapshots taken
+  // before it, null for plain-text variants.
+  body_doc: VariantDocumentSchema.nullable().optional(),
   variation_directive: z.string().nullable(),
   char_count: z.number().int(),
 });
 
+export const ComparisonSummaryLineSchema = z.object({
+  variant_id: z.string().uuid(),
+  variant_index: z.number().int().min(1).max(3),
+  text: z.string().min(1).max(500),
+});
+
 export const DeliverySnapshotSchema = z.object({
   project: z.object({
     id: z.string().uuid(),
@@ -69,6 +85,17 @@ export const DeliverySnapshotSchema = z.object({
     bcc_emails_effective: z.array(emailString),
   }),
   scheduling_warnings: z.array(SchedulingWarningSchema),
+  // Absent on snapshots written before the comparison summary was frozen.
+  comparison_summary: z.array(ComparisonSummaryLineSchema).max(3).optional(),
+  // The audit report's archival PDF, present only when the composer opted
+  // to attach it (migration 0028).
+  audit_archive: z
+    .object({
+      storage_path: z.string(),
+      sha256: z.string(),
+      filename: z.string(),
+    })
+    .optional(),
 });
 
 export const ComposerInputSchema = z.object({
@@ -84,7 +111,9 @@ export const ComposerInputSchema = z.object({
   body_html: z.string().min(1),
   body_text: z.string().optional(),
   attachment_format: AttachmentFormatSchema,
+  include_audit_archive: z.boolean().optional(),
   scheduling_warnings: z.array(SchedulingWarningSchema).optional(),
+  comparison_summary: z.array(ComparisonSummaryLineSchema).max(3).optional(),
   scheduled_for: z.string().datetime().nullable().optional(),
 });
 
@@ -0,0 +1,261 @@
+/**
+ * TS mirror of supabase/functions/_shared/variant-document.ts. The Deno copy
+ * parses generation output and renders attachments; this one backs the
+ * block editor (VariantEditor) and keeps apply-fix edits inside the block
+ * they touch. The drift guard in src/__tests__/variant-document.drift.test.ts
+ * proves byte equality.
+ */
+import { z } from 'zod';
+
+// drift:start VARIANT_DOCUMENT
+export const DocumentBlockSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('title'), text: z.string() }),
+  z.object({ type: z.literal('subtitle'), text: z.string() }),
+  z.object({ type: z.literal('dateline'), text: z.string() }),
+  z.object({ type: z.literal('lead'), text: z.string() }),
+  z.object({ type: z.literal('heading'), text: z.string() }),
+  z.object({ type: z.literal('paragraph'), text: z.string() }),
+  z.object({
+    type: z.literal('quote'),
+    text: z.string(),
+    attribution: z.string().default(''),
+  }),
+  z.object({
+    type: z.literal('table'),
+    caption: z.string().default(''),
+    header: z.array(z.string()).default([]),
+    rows: z.array(z.array(z.string())),
+  }),
+  z.object({
+    type: z.literal('boilerplate'),
+    heading: z.string().default(''),
+    text: z.string(),
+  }),
+  z.object({ type: z.literal('contact'), text: z.string() }),
+]);
+
+export type DocumentBlock = z.infer<typeof DocumentBlockSchema>;
+export type DocumentBlockType = DocumentBlock['type'];
+
+export const VariantDocumentSchema = z.object({
+  version: z.literal(1),
+  blocks: z.array(DocumentBlockSchema),
+});
+
+export type VariantDocument = z.infer<typeof VariantDocumentSchema>;
+
+// body_doc as stored (jsonb); null when there is none or it isn't a
+// document.
+export const readVariantDocument = (value: unknown): VariantDocument | null => {
+  if (value == null) return null;
+  const parsed = VariantDocumentSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+// Where a block's text sits in documentToText — [start, end) offsets, the
+// same UTF-16 offsets finding anchors use.
+export interface DocumentSection {
+  type: DocumentBlockType;
+  start: number;
+  end: number;
+}
+
+// One run of editable text in reading order, with what precedes it in
+// documentToText: a blank line between paragraphs, a newline between table
+// rows, a tab between cells. Empty optional fields (attribution, boilerplate
+// heading, table caption) contribute nothing, separator included.
+interface TextPiece {
+  block: number;
+  text: string;
+  separator: '' | '\n\n' | '\n' | '\t';
+  replace: (text: string) => DocumentBlock;
+}
+
+const textPieces = (doc: VariantDocument): TextPiece[] => {
+  const pieces: TextPiece[] = [];
+  const push = (
+    block: number,
+    text: string,
+    separator: TextPiece['separator'],
+    replace: TextPiece['replace'],
+  ) => {
+    pieces.push({
+      block,
+      text,
+      separator: pieces.length === 0 ? '' : separator,
+      replace,
+    });
+  };
+  doc.blocks.forEach((b, i) => {
+    switch (b.type) {
+      case 'quote':
+        push(i, b.text, '\n\n', (text) => ({ ...b, text }));
+        if (b.attribution !== '') {
+          push(i, b.attribution, '\n\n', (attribution) => ({
+            ...b,
+            attribution,
+          }));
+        }
+        break;
+      case 'boilerplate':
+        if (b.heading !== '') {
+          push(i, b.heading, '\n\n', (heading) => ({ ...b, heading }));
+        }
+        push(i, b.text, '\n\n', (text) => ({ ...b, text }));
+        break;
+      case 'table': {
+        if (b.caption !== '') {
+          push(i, b.caption, '\n\n', (caption) => ({ ...b, caption }));
+        }
+        const grid = b.header.length > 0 ? [b.header, ...b.rows] : b.rows;
+        const offset = b.header.length > 0 ? 1 : 0;
+        grid.forEach((row, r) =>
+          row.forEach((cell, c) =>
+            push(i, cell, c > 0 ? '\t' : r > 0 ? '\n' : '\n\n', (text) => {
+              const set = (cells: string[]) =>
+                cells.map((v, j) => (j === c ? text : v));
+              return r < offset
+                ? { ...b, header: set(b.header) }
+                : {
+                    ...b,
+                    rows: b.rows.map((v, j) => (j === r - offset ? set(v) : v)),
+                  };
+            }),
+          ),
+        );
+        break;
+      }
+      default:
+        push(i, b.text, '\n\n', (text) => ({ ...b, text }));
+    }
+  });
+  return pieces;
+};
+
+// The body_text of a document.
+export const documentToText = (doc: VariantDocument): string =>
+  textPieces(doc)
+    .map((p) => p.separator + p.text)
+    .join('');
+
+// A plain-text body as a document of paragraphs — how a variant without
+// body_doc opens in the editor.
+export const textToDocument = (text: string): VariantDocument => ({
+  version: 1,
+  blocks: text.split(/\n\n+/).map((p) => ({ type: 'paragraph', text: p })),
+});
+
+export const documentSections = (doc: VariantDocument): DocumentSection[] => {
+  const sections: DocumentSection[] = [];
+  let at = 0;
+  let last = -1;
+  for (const piece of textPieces(doc)) {
+    at += piece.separator.length;
+    if (piece.block !== last) {
+      sections.push({ type: doc.blocks[piece.block].type, start: at, end: at });
+      last = piece.block;
+    }
+    at += piece.text.length;
+    sections[sections.length - 1].end = at;
+  }
+  return sections;
+};
+
+// Replaces documentToText(doc).slice(start, end) with `replacement` inside
+// the block that holds it. Null when the range crosses from one block or
+// cell into another — there is no single place to put the new text.
+export const spliceDocumentText = (
+  doc: VariantDocument,
+  start: number,
+  end: number,
+  replacement: string,
+): VariantDocument | null => {
+  let at = 0;
+  for (const piece of textPieces(doc)) {
+    at += piece.separator.length;
+    const pieceEnd = at + piece.text.length;
+    if (start >= at && end <= pieceEnd) {
+      const text =
+        piece.text.slice(0, start - at) +
+        replacement +
+        piece.text.slice(end - at);
+      return {
+        ...doc,
+        blocks: doc.blocks.map((b, i) =>
+          i === piece.block ? piece.replace(text) : b,
+        ),
+      };
+    }
+    at = pieceEnd;
+  }
+  return null;
+};
+
+const tidy = (s: string): string =>
+  s
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+// Only the boilerplate holds more than one paragraph; elsewhere a blank line
+// is a line break.
+const tidyLines = (s: string): string => tidy(s).replace(/\n{2,}/g, '\n');
+const tidyParagraphs = (s: string): string =>
+  tidy(s).replace(/\n{3,}/g, '\n\n');
+// Cells are one line: tabs and newlines separate cells and rows in
+// documentToText.
+const tidyCell = (s: string): string => s.replace(/\s+/g, ' ').trim();
+
+const normalizeBlock = (b: DocumentBlock): DocumentBlock | null => {
+  switch (b.type) {
+    case 'quote': {
+      const text = tidyLines(b.text);
+      return text === ''
+        ? null
+        : { ...b, text, attribution: tidyLines(b.attribution) };
+    }
+    case 'boilerplate': {
+      const text = tidyParagraphs(b.text);
+      return text === '' ? null : { ...b, heading: tidyLines(b.heading), text };
+    }
+    case 'table': {
+      const header = b.header.map(tidyCell);
+      const rows = b.rows
+        .map((row) => row.map(tidyCell))
+        .filter((row) => row.length > 0);
+      return header.length === 0 && rows.length === 0
+        ? null
+        : { ...b, caption: tidyLines(b.caption), header, rows };
+    }
+    default: {
+      const text = tidyLines(b.text);
+      return text === '' ? null : { ...b, text };
+    }
+  }
+};
+
+// The document in a generation reply: JSON inside <document>…</document>
+// (VARIANT_GENERATION_SYSTEM asks for it). Null when there is none, or it
+// doesn't parse — the caller keeps the reply as plain text.
+export const parseVariantDocument = (
+  output: string,
+): VariantDocument | null => {
+  const match = output.match(/<document>([\s\S]*)<\/document>/);
+  if (!match) return null;
+  const json = match[1]
+    .trim()
+    .replace(/^```(?:json)?\s*/, '')
+    .replace(/\s*```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const parsed = VariantDocumentSchema.safeParse(value);
+  if (!parsed.success) return null;
+  const blocks = parsed.data.blocks
+    .map(normalizeBlock)
+    .filter((b): b is DocumentBlock => b !== null);
+  return blocks.length > 0 ? { version: 1, blocks } : null;
+};
+// drift:end VARIANT_DOCUMENT
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { DownloadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import { PageShell } from "@/components/shared/PageShell";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { useClients } from "@/hooks/useClients";
+import { useProjectSummaries } from "@/hooks/useProjects";
+import { useUsers } from "@/hooks/useUsers";
+import {
+  useExportAuditTrail,
+  type AuditTrailExportResult,
+} from "@/hooks/useExportAuditTrail";
+import { EVENT_TYPE_LABEL } from "@/lib/audit-events-display";
+import {
+  buildAuditTrailExportRequest,
+  isExportDateRangeValid,
+  type ActorFilter,
+  type AuditTrailExportFormat,
+} from "@/lib/audit-trail-export";
+import { pickLang } from "@/lib/bilingual";
+
+const ALL_CLIENTS = "__all__";
+
+function toggle(list: string[], value: string, on: boolean): string[] {
+  return on ? [...list, value] : list.filter((v) => v !== value);
+}
+
+// Regulator-facing export of the audit trail across projects. Filters map
+// 1:1 onto the export-audit-trail request; every export is itself recorded
+// as an audit_trail_exported event on the projects it covers.
+export default function AuditExportPage() {
+  const { i18n } = useTranslation();
+  const { data: clients } = useClients();
+  const { data: projects } = useProjectSummaries();
+  const { data: users } = useUsers();
+  const exportTrail = useExportAuditTrail();
+
+  const [format, setFormat] = useState<AuditTrailExportFormat>("csv");
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [projectIds, setProjectIds] = useState<string[]>([]);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [actor, setActor] = useState<ActorFilter>("all");
+  const [lastResult, setLastResult] = useState<AuditTrailExportResult | null>(
+    null,
+  );
+
+  const clientProjects = (projects ?? []).filter(
+    (p): p is typeof p & { id: string } =>
+      p.id !== null && (!clientId || p.client_id === clientId),
+  );
+  const rangeValid = isExportDateRangeValid({ fromDate, toDate });
+
+  const handleExport = () => {
+    const request = buildAuditTrailExportRequest({
+      format,
+      clientId,
+      projectIds,
+      fromDate,
+      toDate,
+      eventTypes,
+      actor,
+    });
+    exportTrail.mutate(request, {
+      onSuccess: (result) => {
+        setLastResult(result);
+        toast.success(
+          pickLang(
+            i18n.language,
+            `${result.eventCount}件をエクスポートしました`,
+            `Exported ${result.eventCount} events`,
+          ),
+        );
+      },
+      onError: (e) => {
+        toast.error(
+          e.message === "export_too_large"
+            ? pickLang(
+                i18n.language,
+                "件数が上限を超えています。条件を絞り込んでください。",
+                "Too many events. Narrow the filters and try again.",
+              )
+            : e.message,
+        );
+      },
+    });
+  };
+
+  return (
+    <PageShell className="max-w-3xl">
+      <PageHeader
+        title={
+          <BilingualLabel
+            ja="監査トレイルのエクスポート"
+            en="Audit trail export"
+          />
+        }
+        subtitle={
+          <BilingualLabel
+            ja="規制当局やクライアント法務への提出用に、プロジェクト横断で監査トレイルを書き出します。エクスポート自体も監査トレイルに記録されます。"
+            en="Export the audit trail across projects for regulators or client legal teams. Each export is itself recorded in the audit trail."
+          />
+        }
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <BilingualLabel ja="対象" en="Scope" />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1.5">
+            <Label>
+              <BilingualLabel ja="クライアント" en="Client" />
+            </Label>
+            <Select
+              value={clientId ?? ALL_CLIENTS}
+              onValueChange={(v) => {
+                setClientId(v === ALL_CLIENTS ? null : v);
+                setProjectIds([]);
+              }}
+            >
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLIENTS}>
+                  <BilingualLabel ja="すべてのクライアント" en="All clients" />
+                </SelectItem>
+                {(clients ?? []).map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>
+              <BilingualLabel ja="プロジェクト" en="Projects" />
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              <BilingualLabel
+                ja="未選択の場合は上記クライアントの全プロジェクトが対象です。"
+                en="Leave empty to include every project of the selected client."
+              />
+            </p>
+            <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+              {clientProjects.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  <BilingualLabel ja="プロジェクトなし" en="No projects" />
+                </p>
+              )}
+              {clientProjects.map((p) => (
+                <label
+                  key={p.id}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                >
+                  <Checkbox
+                    checked={projectIds.includes(p.id)}
+                    onCheckedChange={(s) =>
+                      setProjectIds((ids) => toggle(ids, p.id, s === true))
+                    }
+                  />
+                  <span>{p.name}</span>
+                  {!clientId && p.client_name && (
+                    <span className="text-xs text-muted-foreground">
+                      {p.client_name}
+                    </span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="export-from">
+                <BilingualLabel ja="開始日" en="From" />
+              </Label>
+              <Input
+                id="export-from"
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="export-to">
+                <BilingualLabel ja="終了日" en="To" />
+              </Label>
+              <Input
+                id="export-to"
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            <BilingualLabel
+              ja="日付は日本時間で、終了日を含みます。"
+              en="Dates are in JST; the end date is included."
+            />
+          </p>
+          {!rangeValid && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                <BilingualLabel
+                  ja="終了日は開始日以降にしてください。"
+                  en="The end date must not be before the start date."
+                />
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <BilingualLabel ja="イベント" en="Events" />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1.5">
+            <Label>
+              <BilingualLabel ja="イベント種別" en="Event types" />
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              <BilingualLabel
+                ja="未選択の場合はすべての種別が対象です。"
+                en="Leave empty to include every event type."
+              />
+            </p>
+            <div className="grid grid-cols-2 gap-1">
+              {Object.entries(EVENT_TYPE_LABEL).map(([type, label]) => (
+                <label
+                  key={type}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                >
+                  <Checkbox
+                    checked={eventTypes.includes(type)}
+                    onCheckedChange={(s) =>
+                      setEventTypes((types) => toggle(types, type, s === true))
+                    }
+                  />
+                  {pickLang(i18n.language, label.ja, label.en)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>
+              <BilingualLabel ja="実行者" en="Actor" />
+            </Label>
+            <Select value={actor} onValueChange={setActor}>
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">
+                  <BilingualLabel ja="すべて" en="Everyone" />
+                </SelectItem>
+                <SelectItem value="system">
+                  <BilingualLabel ja="システムのみ" en="System only" />
+                </SelectItem>
+                <SelectItem value="user">
+                  <BilingualLabel ja="ユーザーのみ" en="Users only" />
+                </SelectItem>
+                {(users ?? []).map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <BilingualLabel ja="形式" en="Format" />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RadioGroup
+            value={format}
+            onValueChange={(v) => setFormat(v as AuditTrailExportFormat)}
+            className="flex gap-6"
+          >
+            <label className="flex items-center gap-2 cursor-pointer">
+              <RadioGroupItem value="csv" />
+              CSV
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <RadioGroupItem value="jsonl" />
+              JSON Lines
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <RadioGroupItem value="pdf" />
+              PDF
+            </label>
+          </RadioGroup>
+          <Button
+            onClick={handleExport}
+            disabled={!rangeValid || exportTrail.isPending}
+          >
+            <DownloadIcon className="size-4" />
+            {exportTrail.isPending ? (
+              <BilingualLabel ja="エクスポート中…" en="Exporting…" />
+            ) : (
+              <BilingualLabel ja="エクスポート" en="Export" />
+            )}
+          </Button>
+          {lastResult && (
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+              <dt className="text-muted-foreground">
+                <BilingualLabel ja="ファイル" en="File" />
+              </dt>
+              <dd className="font-mono">{lastResult.filename}</dd>
+              <dt className="text-muted-foreground">
+                <BilingualLabel ja="件数" en="Events" />
+              </dt>
+              <dd>{lastResult.eventCount}</dd>
+              <dt className="text-muted-foreground">SHA-256</dt>
+              <dd className="font-mono break-all">{lastResult.sha256}</dd>
+            </dl>
+          )}
+        </CardContent>
+      </Card>
+    </PageShell>
+  );
+}
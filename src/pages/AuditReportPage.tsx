@@ -4,6 +4,7 @@ import { useTranslation } from "react-i18next";
 import { toast } from "sonner";
 import { pickLang } from "@/lib/bilingual";
 import {
+  FileArchiveIcon,
   FileTextIcon,
   GitBranchIcon,
   MailIcon,
@@ -23,18 +24,25 @@ import { SignatureBlock } from "@/components/audit/SignatureBlock";
 import { SignAuditDialog } from "@/components/audit/SignAuditDialog";
 import { RequestRevisionDialog } from "@/components/audit/RequestRevisionDialog";
 import { VersionHistory } from "@/components/audit/VersionHistory";
+import { VersionCompare } from "@/components/audit/VersionCompare";
 import { FindingsList } from "@/components/audit/FindingsList";
 import { useProject } from "@/hooks/useProjects";
 import { useClient } from "@/hooks/useClients";
 import { useAuditReports } from "@/hooks/useAuditReports";
 import { useAuditReport } from "@/hooks/useAuditReport";
+import { useAuditReportSignoff } from "@/hooks/useAuditReportSignoff";
 import { useAuditTrailEvents } from "@/hooks/useAuditTrailEvents";
 import { useCreateAuditReport } from "@/hooks/useCreateAuditReport";
+import {
+  downloadEvidenceBundle,
+  useExportEvidenceBundle,
+} from "@/hooks/useExportEvidenceBundle";
 import { useReportContent } from "@/hooks/useReportContent";
 import type { AuditReportStatus } from "@/types/domain";
 
 const STATUS_LABEL: Record<AuditReportStatus, { ja: string; en: string }> = {
   draft: { ja: "下書き", en: "Draft" },
+  partially_signed: { ja: "一部署名済", en: "Partially signed" },
   finalized: { ja: "確定済", en: "Finalized" },
   revised: { ja: "改訂済", en: "Superseded" },
 };
@@ -44,6 +52,7 @@ const STATUS_VARIANT: Record<
   "outline" | "default" | "secondary"
 > = {
   draft: "outline",
+  partially_signed: "outline",
   finalized: "default",
   revised: "secondary",
 };
@@ -60,6 +69,7 @@ export default function AuditReportPage() {
     useAuditReports(projectId);
   const { data: events } = useAuditTrailEvents(projectId);
   const create = useCreateAuditReport(projectId);
+  const exportBundle = useExportEvidenceBundle();
 
   // Selected report = explicit ?reportId in URL OR the head of chain.
   // useAuditReports orders newest-first by created_at, so [0] is the head.
@@ -75,6 +85,15 @@ export default function AuditReportPage() {
 
   const { data: reportWithSigs } = useAuditReport(selectedReport?.id);
 
+  // Still being signed: draft or partially_signed. Content stays live and
+  // editable until the last required role signs.
+  const inSignoff =
+    selectedReport?.status === "draft" ||
+    selectedReport?.status === "partially_signed";
+  const { data: signoff } = useAuditReportSignoff(
+    inSignoff ? selectedReport?.id : undefined,
+  );
+
   const { content, isLoading: contentLoading, source } =
     useReportContent(selectedReport);
 
@@ -83,7 +102,8 @@ export default function AuditReportPage() {
 
   const status = (selectedReport?.status ?? "draft") as AuditReportStatus;
   const canSign =
-    selectedReport?.status === "draft" &&
+    inSignoff &&
+    signoff?.next_role != null &&
     (content?.variants.length ?? 0) > 0;
 
   // Revise gates (UX-side mirror of revise_audit_report RPC checks):
@@ -96,7 +116,7 @@ export default function AuditReportPage() {
       (r) => r.previous_version_id === selectedReport.id,
     );
   const draftInProgress = (allReports ?? []).find(
-    (r) => r.status === "draft",
+    (r) => r.status === "draft" || r.status === "partially_signed",
   );
   const canRevise =
     selectedReport?.status === "finalized" &&
@@ -113,6 +133,18 @@ export default function AuditReportPage() {
     });
   };
 
+  const handleExport = () => {
+    if (!selectedReport) return;
+    exportBundle.mutate(
+      { auditReportId: selectedReport.id },
+      {
+        onSuccess: (bundle) =>
+          downloadEvidenceBundle(bundle, selectedReport.report_id_display),
+        onError: (e) => toast.error(e.message),
+      },
+    );
+  };
+
   return (
     <PageShell className="max-w-4xl">
       <PageHeader
@@ -139,15 +171,28 @@ export default function AuditReportPage() {
             {selectedReport &&
               (selectedReport.status === "finalized" ||
                 selectedReport.status === "revised") && (
-                <Button variant="outline" asChild>
-                  <Link
-                    to={`/print/audit-report/${selectedReport.id}`}
-                    target="_blank"
+                <>
+                  <Button variant="outline" asChild>
+                    <Link
+                      to={`/print/audit-report/${selectedReport.id}`}
+                      target="_blank"
+                    >
+                      <PrinterIcon className="size-4" />
+                      <BilingualLabel ja="印刷" en="Print" />
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleExport}
+                    disabled={exportBundle.isPending}
                   >
-                    <PrinterIcon className="size-4" />
-                    <BilingualLabel ja="印刷" en="Print" />
-                  </Link>
-                </Button>
+                    <FileArchiveIcon className="size-4" />
+                    <BilingualLabel
+                      ja="証跡バンドルを書き出す"
+                      en="Export evidence bundle"
+                    />
+                  </Button>
+                </>
               )}
           </>
         }
@@ -204,7 +249,7 @@ export default function AuditReportPage() {
               {canSign && (
                 <Button onClick={() => setSignOpen(true)}>
                   <ShieldCheckIcon className="size-4" />
-                  <BilingualLabel ja="署名して確定" en="Sign & finalize" />
+                  <BilingualLabel ja="署名" en="Sign" />
                 </Button>
               )}
               {canRevise && (
@@ -243,7 +288,7 @@ export default function AuditReportPage() {
             </div>
           </div>
 
-          {source === "live" && status === "draft" && (
+          {source === "live" && inSignoff && (
             <Alert>
               <AlertTitle>
                 <BilingualLabel
@@ -253,8 +298,8 @@ export default function AuditReportPage() {
               </AlertTitle>
               <AlertDescription>
                 <BilingualLabel
-                  ja="このページは現時点で承認されている案を表示しています。署名すると内容が固定され、その後の編集には改訂が必要です。"
-                  en="This page shows currently approved variants. Signing locks the content; further edits require a revision."
+                  ja="このページは現時点で承認されている案を表示しています。必要な役割がすべて署名すると内容が固定され、その後の編集には改訂が必要です。"
+                  en="This page shows currently approved variants. The content locks once every required role has signed; further edits require a revision."
                 />
               </AlertDescription>
             </Alert>
@@ -339,10 +384,26 @@ export default function AuditReportPage() {
             ))}
 
           <section className="space-y-3 rounded-xl bg-card p-4 ring-1 ring-foreground/10">
-            <h2 className="text-base font-medium">
-              <BilingualLabel ja="署名" en="Signatures" />
-            </h2>
-            <SignatureBlock signatures={reportWithSigs?.signatures ?? []} />
+            <header className="flex items-center justify-between gap-2">
+              <h2 className="text-base font-medium">
+                <BilingualLabel ja="署名" en="Signatures" />
+              </h2>
+              <Link
+                to="/verify-evidence"
+                target="_blank"
+                className="text-xs text-muted-foreground underline"
+              >
+                <BilingualLabel
+                  ja="証跡バンドルを検証する"
+                  en="Verify an evidence bundle"
+                />
+              </Link>
+            </header>
+            <SignatureBlock
+              signatures={reportWithSigs?.signatures ?? []}
+              roles={selectedReport.signoff_roles}
+              signoff={inSignoff ? signoff : undefined}
+            />
           </section>
 
           <section className="space-y-3 rounded-xl bg-card p-4 ring-1 ring-foreground/10">
@@ -353,23 +414,41 @@ export default function AuditReportPage() {
           </section>
 
           <VersionHistory
+            projectId={projectId}
             reports={allReports ?? []}
             selectedReportId={selectedReport.id}
             onSelect={(id) => setSearchParams({ reportId: id })}
           />
+
+          <VersionCompare
+            key={selectedReport.id}
+            reports={allReports ?? []}
+            selectedReportId={selectedReport.id}
+            liveContent={source === "live" ? content : null}
+          />
         </>
       )}
 
       <SignAuditDialog
         report={selectedReport ?? undefined}
+        signoff={signoff}
         open={signOpen}
         onOpenChange={setSignOpen}
         projectId={projectId}
-        onSigned={() =>
+        onSigned={(result) => {
           toast.success(
             pickLang(i18n.language, "署名を完了しました", "Audit report signed"),
-          )
-        }
+          );
+          if (result.archive_error) {
+            toast.warning(
+              pickLang(
+                i18n.language,
+                "アーカイブPDFを作成できませんでした。バージョン履歴から再作成できます。",
+                "The archival PDF could not be created. Generate it again from the version history.",
+              ),
+            );
+          }
+        }}
       />
 
       <RequestRevisionDialog
@@ -37,7 +37,10 @@ import { SampleUploader } from "@/components/brand-voice/SampleUploader";
 import { SampleList } from "@/components/brand-voice/SampleList";
 import { VoiceProfileEditor } from "@/components/brand-voice/VoiceProfileEditor";
 import { GuidelinesPanel } from "@/components/brand-voice/GuidelinesPanel";
+import { ApprovedExamplesPanel } from "@/components/brand-voice/ApprovedExamplesPanel";
 import { ClientFeedbackTab } from "@/components/feedback/ClientFeedbackTab";
+import { BoilerplateLibrary } from "@/components/client/BoilerplateLibrary";
+import { SignoffPolicyEditor } from "@/components/settings/SignoffPolicyEditor";
 
 export default function ClientDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -141,12 +144,15 @@ export default function ClientDetailPage() {
           <TabsTrigger value="guidelines">
             <BilingualLabel ja="ガイドライン" en="Guidelines" />
           </TabsTrigger>
+          <TabsTrigger value="boilerplate">
+            <BilingualLabel ja="定型文" en="Boilerplate" />
+          </TabsTrigger>
           <TabsTrigger value="feedback">
             <BilingualLabel ja="フィードバック" en="Feedback" />
           </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="details" className="pt-6">
+        <TabsContent value="details" className="pt-6 space-y-6">
           {editing ? (
             <div className="space-y-4">
               <ClientForm
@@ -168,6 +174,7 @@ export default function ClientDetailPage() {
           ) : (
             <ClientDetailsReadOnly client={client} />
           )}
+          <SignoffPolicyEditor clientId={id} />
         </TabsContent>
 
         <TabsContent value="brandVoice" className="pt-6 space-y-6">
@@ -196,12 +203,26 @@ export default function ClientDetailPage() {
               <VoiceProfileEditor clientId={id} />
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <BilingualLabel ja="承認済み例文" en="Approved examples" />
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ApprovedExamplesPanel clientId={id} />
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="guidelines" className="pt-6">
           <GuidelinesPanel clientId={id} />
         </TabsContent>
 
+        <TabsContent value="boilerplate" className="pt-6">
+          <BoilerplateLibrary clientId={id} />
+        </TabsContent>
+
         <TabsContent value="feedback" className="pt-6">
           <ClientFeedbackTab clientId={id} />
         </TabsContent>
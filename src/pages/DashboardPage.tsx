@@ -58,7 +58,10 @@ export default function DashboardPage() {
     hasProject: hasProjects,
     hasApproved: projectList.some((p) => (p.variants_approved ?? 0) > 0),
     hasDelivered: projectList.some(
-      (p) => p.status === 'delivered' || p.status === 'feedback_received',
+      (p) =>
+        p.status === 'delivered' ||
+        p.status === 'feedback_received' ||
+        p.status === 'no_feedback',
     ),
     firstClientId,
   });
@@ -16,6 +16,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { BilingualLabel } from '@/components/shared/BilingualLabel';
 import { PageShell } from '@/components/shared/PageShell';
 import { PageHeader } from '@/components/shared/PageHeader';
+import { DeliveryRowActions } from '@/components/delivery/DeliveryRowActions';
 import { useProject } from '@/hooks/useProjects';
 import { useDeliveriesForProject } from '@/hooks/useDeliveriesForProject';
 import type { DeliveryStatus } from '@/types/domain';
@@ -25,6 +26,7 @@ const STATUS_LABEL: Record<DeliveryStatus, { ja: string; en: string }> = {
   scheduled: { ja: '予約済', en: 'Scheduled' },
   sent: { ja: '送信済', en: 'Sent' },
   failed: { ja: '失敗', en: 'Failed' },
+  cancelled: { ja: '取消', en: 'Cancelled' },
 };
 
 const STATUS_VARIANT: Record<
@@ -35,6 +37,7 @@ const STATUS_VARIANT: Record<
   scheduled: 'secondary',
   sent: 'default',
   failed: 'destructive',
+  cancelled: 'outline',
 };
 
 const ATTACHMENT_LABEL: Record<string, string> = {
@@ -159,12 +162,14 @@ export default function DeliveriesListPage() {
               <TableHead>
                 <BilingualLabel ja="送信日時" en="Sent at" />
               </TableHead>
+              <TableHead />
             </TableRow>
           </TableHeader>
           <TableBody>
             {data.map((row) => {
               const status = row.status as DeliveryStatus;
               const statusLabel = STATUS_LABEL[status];
+              const send = row.scheduled_sends[0] ?? null;
               return (
                 <TableRow key={row.id}>
                   <TableCell className="text-muted-foreground text-sm">
@@ -195,12 +200,35 @@ export default function DeliveriesListPage() {
                     {status === 'scheduled' && (
                       <span className="ml-2 inline-flex items-center text-xs text-muted-foreground">
                         <ClockIcon className="size-3 mr-1" />
+                        {formatDateTime(
+                          send?.scheduled_for ?? null,
+                          i18n.language,
+                        )}
                       </span>
                     )}
+                    {status === 'failed' && send?.error_message && (
+                      <div
+                        className="mt-1 max-w-56 truncate text-xs text-muted-foreground"
+                        title={send.error_message}
+                      >
+                        {send.error_message}
+                      </div>
+                    )}
+                    {status === 'cancelled' && row.cancellation_reason && (
+                      <div
+                        className="mt-1 max-w-56 truncate text-xs text-muted-foreground"
+                        title={row.cancellation_reason}
+                      >
+                        {row.cancellation_reason}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-muted-foreground text-sm">
                     {formatDateTime(row.sent_at, i18n.language)}
                   </TableCell>
+                  <TableCell>
+                    <DeliveryRowActions projectId={projectId} delivery={row} />
+                  </TableCell>
                 </TableRow>
               );
             })}
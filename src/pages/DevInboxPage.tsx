@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { PaperclipIcon } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import { PageShell } from "@/components/shared/PageShell";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { useCapturedEmail, useCapturedEmails } from "@/hooks/useCapturedEmails";
+import type { ParsedEml } from "@/lib/eml";
+
+// Dev-only (registered in App.tsx under import.meta.env.DEV): the messages
+// the capture email transport wrote instead of sending, so the delivery
+// flow can be followed end to end without a mail account.
+export default function DevInboxPage() {
+  const { data: entries, isLoading, error } = useCapturedEmails();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  return (
+    <PageShell className="max-w-6xl">
+      <PageHeader
+        title={<BilingualLabel ja="開発用受信箱" en="Dev inbox" />}
+        subtitle={
+          <BilingualLabel
+            ja="EMAIL_TRANSPORT=capture で送信されたメール"
+            en="Messages sent with EMAIL_TRANSPORT=capture"
+          />
+        }
+      />
+      <div className="grid gap-4 md:grid-cols-[18rem_1fr]">
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="space-y-2 p-3">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : error ? (
+              <p className="p-3 text-sm text-destructive">{error.message}</p>
+            ) : !entries || entries.length === 0 ? (
+              <p className="p-3 text-sm text-muted-foreground">
+                <BilingualLabel ja="メールはありません" en="No messages" />
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {entries.map((entry) => (
+                  <li key={entry.name}>
+                    <button
+                      type="button"
+                      onClick={() => setSelected(entry.name)}
+                      className={
+                        "w-full px-3 py-2 text-left text-xs hover:bg-muted " +
+                        (entry.name === selected ? "bg-muted" : "")
+                      }
+                    >
+                      <span className="block truncate font-mono">
+                        {entry.name}
+                      </span>
+                      {entry.createdAt && (
+                        <span className="text-muted-foreground">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+        {selected ? (
+          <CapturedEmailView name={selected} />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            <BilingualLabel
+              ja="左の一覧からメールを選択してください"
+              en="Select a message on the left"
+            />
+          </p>
+        )}
+      </div>
+    </PageShell>
+  );
+}
+
+function CapturedEmailView({ name }: { name: string }) {
+  const { data, isLoading, error } = useCapturedEmail(name);
+  if (isLoading) return <Skeleton className="h-64 w-full" />;
+  if (error || !data) {
+    return <p className="text-sm text-destructive">{error?.message}</p>;
+  }
+  const email = data.parsed;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{email.subject}</CardTitle>
+        <EnvelopeHeaders email={email} />
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {email.attachments.length > 0 && (
+          <ul className="flex flex-wrap gap-2 text-xs">
+            {email.attachments.map((a) => (
+              <li key={a.filename}>
+                <a
+                  className="inline-flex items-center gap-1 rounded border px-2 py-1 hover:bg-muted"
+                  href={`data:${a.contentType};base64,${a.content}`}
+                  download={a.filename}
+                >
+                  <PaperclipIcon className="size-3" />
+                  {a.filename} ({Math.ceil(a.sizeBytes / 1024)} KB)
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Tabs defaultValue={email.html !== null ? "html" : "text"}>
+          <TabsList>
+            <TabsTrigger value="html" disabled={email.html === null}>
+              HTML
+            </TabsTrigger>
+            <TabsTrigger value="text" disabled={email.text === null}>
+              <BilingualLabel ja="テキスト" en="Text" />
+            </TabsTrigger>
+            <TabsTrigger value="source">
+              <BilingualLabel ja="ソース" en="Source" />
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="html">
+            {/* Sandboxed: no scripts, no same-origin access. */}
+            <iframe
+              title={email.subject}
+              sandbox=""
+              srcDoc={email.html ?? ""}
+              className="h-[32rem] w-full rounded border bg-white"
+            />
+          </TabsContent>
+          <TabsContent value="text">
+            <pre className="whitespace-pre-wrap text-sm">{email.text}</pre>
+          </TabsContent>
+          <TabsContent value="source">
+            <pre className="max-h-[32rem] overflow-auto text-xs">
+              {data.raw}
+            </pre>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function EnvelopeHeaders({ email }: { email: ParsedEml }) {
+  const rows: [string, string][] = [
+    ["From", email.from],
+    ["To", email.to],
+    ["Cc", email.cc],
+    ["Bcc", email.bcc],
+    ["Reply-To", email.replyTo],
+    ["Date", email.date],
+    ["Message-ID", email.messageId],
+  ];
+  return (
+    <dl className="grid grid-cols-[6rem_1fr] gap-x-2 text-xs">
+      {rows
+        .filter(([, value]) => value !== "")
+        .map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="break-all">{value}</dd>
+          </div>
+        ))}
+    </dl>
+  );
+}
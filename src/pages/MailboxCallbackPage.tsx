@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import { PageShell } from "@/components/shared/PageShell";
+import { useCompleteMailboxConnect } from "@/hooks/useMailboxConnection";
+
+// Where Google / Microsoft send the browser back after the consent screen
+// (MAILBOX_OAUTH_REDIRECT_URL). Hands the code to mailbox-connect, then
+// returns to Settings either way.
+export default function MailboxCallbackPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [params] = useSearchParams();
+  const complete = useCompleteMailboxConnect();
+  // A code is single-use: StrictMode's second effect run must not post it
+  // again.
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+    const code = params.get("code");
+    const state = params.get("state");
+    if (!code || !state) {
+      // ?error=access_denied etc. — the user declined or the provider
+      // refused.
+      toast.error(t("settings.mailbox.toasts.connectFailed"));
+      navigate("/settings", { replace: true });
+      return;
+    }
+    complete.mutate(
+      { code, state },
+      {
+        onSuccess: () => toast.success(t("settings.mailbox.toasts.connected")),
+        onError: () => toast.error(t("settings.mailbox.toasts.connectFailed")),
+        onSettled: () => navigate("/settings", { replace: true }),
+      },
+    );
+  }, [params, complete, navigate, t]);
+
+  return (
+    <PageShell className="max-w-3xl">
+      <p className="text-sm text-muted-foreground">
+        <BilingualLabel
+          ja="メールボックスを接続しています…"
+          en="Connecting your mailbox…"
+        />
+      </p>
+    </PageShell>
+  );
+}
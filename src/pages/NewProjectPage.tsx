@@ -37,6 +37,7 @@ export default function NewProjectPage() {
       length_target_chars: null,
       enforce_hard_cap: false,
       variant_count: 3,
+      variation_axis: 'tone',
       brief_free_text: '',
       brief_key_messages: [],
       brief_quotes: [],
@@ -62,6 +63,7 @@ export default function NewProjectPage() {
         length_target_chars: values.length_target_chars,
         enforce_hard_cap: values.enforce_hard_cap,
         variant_count: values.variant_count,
+        variation_axis: values.variation_axis,
         brief_free_text: values.brief_free_text,
         brief_key_messages: values.brief_key_messages,
         brief_quotes: values.brief_quotes,
@@ -6,10 +6,12 @@ import { BilingualLabel } from "@/components/shared/BilingualLabel";
 import { AuditTrailTimeline } from "@/components/audit/AuditTrailTimeline";
 import { SignatureBlock } from "@/components/audit/SignatureBlock";
 import { FindingsList } from "@/components/audit/FindingsList";
+import { ReportDiffView } from "@/components/audit/ReportDiffView";
 import { useAuditReport } from "@/hooks/useAuditReport";
 import { useAuditTrailEvents } from "@/hooks/useAuditTrailEvents";
 import { useProject } from "@/hooks/useProjects";
 import { useClient } from "@/hooks/useClients";
+import { diffReportSnapshots } from "@/lib/report-diff";
 import type { AuditReportSnapshot } from "@/types/audit-snapshot";
 
 // I2: print artifact ALWAYS reads from report_snapshot. Drafts can't be
@@ -18,12 +20,18 @@ import type { AuditReportSnapshot } from "@/types/audit-snapshot";
 //
 // Print styles inline: @page margins, page-break-inside for sections,
 // color preservation so severity badges keep their hue.
+//
+// A revision (previous_version_id set) gets a revision summary on its own
+// trailing page: what changed since the version it replaced.
 export default function PrintAuditReportPage() {
   const { id: reportId } = useParams<{ id: string }>();
   const { data: report } = useAuditReport(reportId);
   const { data: project } = useProject(report?.project_id);
   const { data: client } = useClient(project?.client_id);
   const { data: events } = useAuditTrailEvents(report?.project_id);
+  const { data: previous } = useAuditReport(
+    report?.previous_version_id ?? undefined,
+  );
 
   // Auto-trigger the print dialog once the snapshot loads. Users can
   // dismiss and re-print via Ctrl+P.
@@ -71,6 +79,12 @@ export default function PrintAuditReportPage() {
   }
 
   const snapshot = report.report_snapshot as AuditReportSnapshot | null;
+  const previousSnapshot = previous?.report_snapshot as
+    AuditReportSnapshot | null | undefined;
+  const revisionDiff =
+    snapshot && previousSnapshot
+      ? diffReportSnapshots(previousSnapshot, snapshot)
+      : null;
 
   return (
     <>
@@ -168,7 +182,10 @@ export default function PrintAuditReportPage() {
           <h2 className="text-base font-medium">
             <BilingualLabel ja="署名" en="Signatures" />
           </h2>
-          <SignatureBlock signatures={report.signatures ?? []} />
+          <SignatureBlock
+            signatures={report.signatures ?? []}
+            roles={report.signoff_roles}
+          />
         </section>
 
         <section className="print-section space-y-3 border-t pt-4">
@@ -177,6 +194,28 @@ export default function PrintAuditReportPage() {
           </h2>
           <AuditTrailTimeline events={events ?? []} />
         </section>
+
+        {previous && revisionDiff && (
+          <section className="revision-summary space-y-3 border-t pt-4">
+            <header className="space-y-1">
+              <h2 className="text-base font-medium">
+                <BilingualLabel ja="改訂サマリー" en="Revision summary" />
+              </h2>
+              <p className="text-xs text-muted-foreground">
+                <span className="font-mono">{previous.report_id_display}</span>{" "}
+                v{previous.version} →{" "}
+                <span className="font-mono">{report.report_id_display}</span> v
+                {report.version}
+              </p>
+              {report.reviewer_comments && (
+                <p className="text-xs italic text-muted-foreground">
+                  {report.reviewer_comments}
+                </p>
+              )}
+            </header>
+            <ReportDiffView diff={revisionDiff} />
+          </section>
+        )}
       </div>
     </>
   );
@@ -196,6 +235,10 @@ const PRINT_CSS = `
     break-inside: avoid;
     page-break-inside: avoid;
   }
+  .revision-summary {
+    break-before: page;
+    page-break-before: always;
+  }
   /* Keep severity badge colors instead of stripping them */
   * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
   /* Hide the verify button -- it's interactive, not a printable artifact */
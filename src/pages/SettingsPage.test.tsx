@@ -7,6 +7,22 @@ vi.mock("@/hooks/useCurrentUser", () => ({
   useCurrentUser: () => ({ data: null, isLoading: false }),
 }));
 
+vi.mock("@/components/settings/ComplianceRuleLibrary", () => ({
+  ComplianceRuleLibrary: () => null,
+}));
+
+vi.mock("@/components/settings/SignoffPolicyEditor", () => ({
+  SignoffPolicyEditor: () => null,
+}));
+
+vi.mock("@/components/settings/SchedulingBlackoutLibrary", () => ({
+  SchedulingBlackoutLibrary: () => null,
+}));
+
+vi.mock("@/components/settings/MailboxConnectionCard", () => ({
+  MailboxConnectionCard: () => null,
+}));
+
 vi.mock("@/lib/supabase", () => ({
   supabase: {
     auth: { getUser: vi.fn() },
@@ -4,6 +4,10 @@ import { LanguageToggle } from "@/components/shared/LanguageToggle";
 import { BilingualLabel } from "@/components/shared/BilingualLabel";
 import { PageShell } from "@/components/shared/PageShell";
 import { PageHeader } from "@/components/shared/PageHeader";
+import { ComplianceRuleLibrary } from "@/components/settings/ComplianceRuleLibrary";
+import { SignoffPolicyEditor } from "@/components/settings/SignoffPolicyEditor";
+import { SchedulingBlackoutLibrary } from "@/components/settings/SchedulingBlackoutLibrary";
+import { MailboxConnectionCard } from "@/components/settings/MailboxConnectionCard";
 import {
   Card,
   CardContent,
@@ -20,8 +24,8 @@ export default function SettingsPage() {
       title={<BilingualLabel ja="設定" en="Settings" />}
       subtitle={
         <BilingualLabel
-          ja="アカウントと表示に関する設定を管理します。"
-          en="Manage your account and display preferences."
+          ja="アカウント・表示・送信用メールボックス・コンプライアンスルール・署名ポリシー・配信停止期間に関する設定を管理します。"
+          en="Manage your account, display preferences, sending mailbox, compliance rules, sign-off policy and blackout windows."
         />
       }
     />
@@ -29,14 +33,14 @@ export default function SettingsPage() {
 
   if (isLoading)
     return (
-      <PageShell className="max-w-2xl">
+      <PageShell className="max-w-3xl">
         {header}
         <div className="text-muted-foreground">{t("common.loading")}</div>
       </PageShell>
     );
 
   return (
-    <PageShell className="max-w-2xl">
+    <PageShell className="max-w-3xl">
       {header}
       <Card>
         <CardHeader>
@@ -63,6 +67,10 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
       )}
+      <MailboxConnectionCard />
+      <ComplianceRuleLibrary />
+      <SignoffPolicyEditor />
+      <SchedulingBlackoutLibrary />
     </PageShell>
   );
 }
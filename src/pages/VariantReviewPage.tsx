@@ -12,9 +12,16 @@ import { BilingualLabel } from '@/components/shared/BilingualLabel';
 import { PageShell } from '@/components/shared/PageShell';
 import { PageHeader } from '@/components/shared/PageHeader';
 import { VariantColumn } from '@/components/review/VariantColumn';
+import type {
+  EditorTextSelection,
+  VariantLintConfig,
+} from '@/components/review/VariantEditor';
+import type { ManualFindingValues } from '@/components/review/ManualFindingForm.schema';
 import { CompliancePanel } from '@/components/review/CompliancePanel';
 import { useProject, useContentItemForProject } from '@/hooks/useProjects';
 import { useClient } from '@/hooks/useClients';
+import { useBrandVoiceProfile } from '@/hooks/useBrandVoiceProfile';
+import { useComplianceRuleSet } from '@/hooks/useComplianceRules';
 import { useVariantsForContentItem } from '@/hooks/useVariants';
 import { useGenerateVariants } from '@/hooks/useGenerateVariants';
 import { useApproveVariant } from '@/hooks/useApproveVariant';
@@ -25,11 +32,22 @@ import {
   type ComplianceFindingWithStale,
 } from '@/hooks/useComplianceFindings';
 import { useApplyFix } from '@/hooks/useApplyFix';
+import { useRestoreVariantRevision } from '@/hooks/useRestoreVariantRevision';
 import { useAcknowledgeFinding } from '@/hooks/useAcknowledgeFinding';
 import { useReopenFinding } from '@/hooks/useReopenFinding';
+import { useCaptureEvalCase } from '@/hooks/useCaptureEvalCase';
+import { useAddManualFinding } from '@/hooks/useAddManualFinding';
+import { caseFromReviewedVariant } from '@/lib/compliance-eval/corpus';
+import type { DrugLifecycleStatus } from '@/lib/prompts/compliance';
+import {
+  documentToText,
+  readVariantDocument,
+  spliceDocumentText,
+} from '@/lib/variant-document';
 import { useRecordManualReviewStarted } from '@/hooks/useRecordManualReviewStarted';
 import { useLatestAuditReport } from '@/hooks/useLatestAuditReport';
 import { RevisionBanner } from '@/components/review/RevisionBanner';
+import type { ContentVariant } from '@/types/domain';
 
 export default function VariantReviewPage() {
   const { id: projectId } = useParams<{ id: string }>();
@@ -45,10 +63,15 @@ export default function VariantReviewPage() {
   const updateVariant = useUpdateVariant(contentItem?.id);
   const complianceCheck = useComplianceCheck(contentItem?.id);
   const applyFix = useApplyFix(contentItem?.id);
+  const restoreRevision = useRestoreVariantRevision(contentItem?.id);
   const acknowledgeFinding = useAcknowledgeFinding(contentItem?.id);
   const reopenFinding = useReopenFinding(contentItem?.id);
+  const captureEvalCase = useCaptureEvalCase();
+  const addManualFinding = useAddManualFinding(contentItem?.id);
   const { mutate: recordReview } = useRecordManualReviewStarted();
   const { data: latestAuditReport } = useLatestAuditReport(projectId);
+  const { data: ruleSet } = useComplianceRuleSet();
+  const { data: voiceProfile } = useBrandVoiceProfile(project?.client_id);
 
   // I2 corollary lock: latest audit report 'finalized' means content is
   // immutable until a revision is requested on the audit page. Draft
@@ -73,6 +96,9 @@ export default function VariantReviewPage() {
   const [resolvingFindingId, setResolvingFindingId] = useState<string | null>(
     null,
   );
+  const [capturingVariantId, setCapturingVariantId] = useState<string | null>(
+    null,
+  );
 
   useEffect(() => {
     if (
@@ -103,6 +129,26 @@ export default function VariantReviewPage() {
 
   const generating = generateVariants.isPending;
 
+  // Same inputs compliance-check gives the deterministic pass, so the live
+  // lint in each editor agrees with the next full run.
+  const lint = useMemo<VariantLintConfig | null>(
+    () =>
+      ruleSet && contentItem
+        ? {
+            rules: ruleSet.rules,
+            wordsToAvoid:
+              (voiceProfile?.words_to_avoid as string[] | null) ?? [],
+            scope: {
+              contentType: contentItem.content_type,
+              contentSubType: contentItem.content_sub_type,
+              audience: contentItem.target_audience,
+              lifecycle: contentItem.drug_lifecycle_status,
+            },
+          }
+        : null,
+    [ruleSet, contentItem, voiceProfile],
+  );
+
   const sortedVariants = useMemo(
     () =>
       (variants ?? []).slice().sort((a, b) => a.variant_index - b.variant_index),
@@ -117,12 +163,13 @@ export default function VariantReviewPage() {
     if (!variant) return;
     if (!finding.suggested_correction) return;
 
-    const found = variant.body_text.includes(finding.source_text);
-    if (!found) {
-      // Behavior change vs. Phase 3: when the source_text isn't in the body
+    const { anchor } = finding;
+    if (anchor.status !== 'anchored' && anchor.status !== 'shifted') {
+      // Behavior change vs. Phase 3: when the flagged span can't be located
       // we no longer silently mark the finding 'fixed' — the apply_fix RPC
       // is one atomic gesture and skipping the body edit while flipping
-      // status would be dishonest.
+      // status would be dishonest. The fix is spliced at the anchor, never
+      // find-and-replaced, so a repeated phrase elsewhere is left alone.
       toast.warning(
         pickLang(
           i18n.language,
@@ -135,10 +182,23 @@ export default function VariantReviewPage() {
 
     setResolvingFindingId(finding.id);
     try {
-      const next = variant.body_text.replace(
-        finding.source_text,
-        finding.suggested_correction,
-      );
+      // A structured variant takes the fix inside the block that holds the
+      // span. A span across blocks has no single home, so the variant falls
+      // back to plain text rather than guessing where the new text belongs.
+      const doc = readVariantDocument(variant.body_doc);
+      const nextDoc = doc
+        ? spliceDocumentText(
+            doc,
+            anchor.start,
+            anchor.end,
+            finding.suggested_correction,
+          )
+        : null;
+      const next = nextDoc
+        ? documentToText(nextDoc)
+        : variant.body_text.slice(0, anchor.start) +
+          finding.suggested_correction +
+          variant.body_text.slice(anchor.end);
       const newCharCount = Array.from(next).length;
       const newReadingTimeSeconds = Math.ceil(newCharCount / 6);
       await applyFix.mutateAsync({
@@ -146,6 +206,7 @@ export default function VariantReviewPage() {
         variantId,
         newBodyText: next,
         newBodyHtml: variant.body_html ?? null,
+        newBodyDoc: nextDoc,
         newCharCount,
         newReadingTimeSeconds,
       });
@@ -168,6 +229,24 @@ export default function VariantReviewPage() {
     );
   };
 
+  // Restoring bumps updated_at, staling every finding on the variant, so
+  // compliance re-runs straight away rather than waiting for a manual
+  // re-check.
+  const handleRestoreRevision = (variantId: string, revisionId: string) => {
+    restoreRevision.mutate(
+      { revisionId },
+      {
+        onError: (e) => toast.error(e.message),
+        onSuccess: () => {
+          toast.success(
+            pickLang(i18n.language, '履歴から復元しました', 'Revision restored'),
+          );
+          handleRecheck(variantId);
+        },
+      },
+    );
+  };
+
   const handleAcknowledge = (findingId: string) => {
     setResolvingFindingId(findingId);
     acknowledgeFinding.mutate(
@@ -190,6 +269,76 @@ export default function VariantReviewPage() {
     );
   };
 
+  const handleCaptureEvalCase = (variantId: string) => {
+    const variant = sortedVariants.find((v) => v.id === variantId);
+    if (!variant || !contentItem) return;
+    const evalCase = caseFromReviewedVariant(
+      {
+        id: variant.id,
+        body_text: variant.body_text,
+        contentType: contentItem.content_type,
+        contentSubType: contentItem.content_sub_type,
+        audience: contentItem.target_audience,
+        lifecycle: contentItem.drug_lifecycle_status as DrugLifecycleStatus,
+        wordsToAvoid: (voiceProfile?.words_to_avoid as string[] | null) ?? [],
+      },
+      findingsByVariant?.[variantId] ?? [],
+      new Date().toISOString(),
+    );
+    if (!evalCase) {
+      toast.warning(
+        pickLang(
+          i18n.language,
+          '本文中で特定できる確認済・手動の指摘がありません',
+          'No acknowledged or manual finding can be located in the current body',
+        ),
+      );
+      return;
+    }
+    setCapturingVariantId(variantId);
+    captureEvalCase.mutate(
+      { variantId, evalCase },
+      {
+        onError: (e) => toast.error(e.message),
+        onSuccess: () =>
+          toast.success(
+            pickLang(
+              i18n.language,
+              `評価セットに追加しました（${evalCase.labels.length}件）`,
+              `Added to the eval set (${evalCase.labels.length} labels)`,
+            ),
+          ),
+        onSettled: () => setCapturingVariantId(null),
+      },
+    );
+  };
+
+  const handleFileFinding = async (
+    variant: ContentVariant,
+    selection: EditorTextSelection,
+    values: ManualFindingValues,
+  ) => {
+    try {
+      await addManualFinding.mutateAsync({
+        variantId: variant.id,
+        bodyText: variant.body_text,
+        start: selection.start,
+        end: selection.end,
+        sourceText: selection.text,
+        severity: values.severity,
+        regulationReference: values.regulation_reference.trim(),
+        explanation: values.explanation.trim(),
+        suggestedCorrection: values.suggested_correction.trim() || null,
+      });
+      toast.success(
+        pickLang(i18n.language, '指摘を追加しました', 'Finding added'),
+      );
+    } catch (e) {
+      toast.error((e as Error).message);
+      throw e;
+    }
+  };
+
   // Fire `manual_review_started` once per (project, variant, user) tuple.
   // The RPC is idempotent server-side so a client-side Set is a courtesy
   // to avoid noise, not a correctness guard.
@@ -284,16 +433,26 @@ export default function VariantReviewPage() {
                 findings={findingsByVariant?.[variant.id] ?? []}
                 approving={approveVariant.isPending}
                 regenerating={generateVariants.isPending}
+                restoring={restoreRevision.isPending}
                 locked={isLocked}
+                lint={lint}
+                onRestoreRevision={(revisionId) =>
+                  handleRestoreRevision(variant.id, revisionId)
+                }
+                onFileFinding={(selection, values) =>
+                  handleFileFinding(variant, selection, values)
+                }
+                filingFinding={addManualFinding.isPending}
                 onOpenCompliance={() => {
                   setPanelVariantId(variant.id);
                   setPanelOpen(true);
                 }}
-                onSaveBody={async (body) => {
+                onSaveBody={async (body, doc) => {
                   try {
                     await updateVariant.mutateAsync({
                       variantId: variant.id,
                       body_text: body,
+                      body_doc: doc,
                     });
                   } catch (e) {
                     toast.error((e as Error).message);
@@ -378,8 +537,10 @@ export default function VariantReviewPage() {
         onApplyFix={handleApplyFix}
         onAcknowledge={handleAcknowledge}
         onReopen={handleReopen}
+        onCaptureEvalCase={handleCaptureEvalCase}
         recheckingVariantId={recheckingVariantId}
         resolvingFindingId={resolvingFindingId}
+        capturingVariantId={capturingVariantId}
       />
     </PageShell>
   );
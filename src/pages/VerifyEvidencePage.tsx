@@ -0,0 +1,183 @@
+import { useRef, useState, type ReactNode } from "react";
+import {
+  CheckCircle2Icon,
+  CircleSlashIcon,
+  FileArchiveIcon,
+  XCircleIcon,
+} from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent } from "@/components/ui/card";
+import { BilingualLabel } from "@/components/shared/BilingualLabel";
+import { LanguageToggle } from "@/components/shared/LanguageToggle";
+import { supabase } from "@/lib/supabase";
+import {
+  CHECK_INFO,
+  verifyEvidenceBundle,
+  type BundleVerification,
+  type CheckStatus,
+} from "@/lib/evidence-bundle/verify";
+
+const STATUS_ICON: Record<CheckStatus, ReactNode> = {
+  pass: <CheckCircle2Icon className="size-4 shrink-0 text-emerald-600" />,
+  fail: <XCircleIcon className="size-4 shrink-0 text-destructive" />,
+  skipped: (
+    <CircleSlashIcon className="size-4 shrink-0 text-muted-foreground" />
+  ),
+};
+
+// The published key set, when reachable. Verification still runs without
+// it (offline); the result then says the keys were not compared.
+async function fetchPublishedKeys() {
+  try {
+    const { data, error } = await supabase
+      .from("audit_signing_keys")
+      .select("key_id, public_key");
+    if (error) return undefined;
+    return data.map((k) => ({ kid: k.key_id, x: k.public_key }));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * /verify-evidence — public, outside ProtectedRoute. Checks an evidence
+ * bundle exported from the audit report page entirely in the browser: the
+ * file never leaves the machine. Same checks as
+ * scripts/verify-evidence-bundle.ts.
+ */
+export default function VerifyEvidencePage() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<BundleVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const verifyFile = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setBusy(true);
+    setFileName(file.name);
+    let bundle: unknown = null;
+    try {
+      bundle = JSON.parse(await file.text());
+    } catch {
+      // Not JSON: verifyEvidenceBundle reports format_unrecognized.
+    }
+    const publishedKeys = await fetchPublishedKeys();
+    setResult(await verifyEvidenceBundle(bundle, { publishedKeys }));
+    setBusy(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="mx-auto flex max-w-3xl items-center justify-between gap-3 px-4 py-3 sm:px-6">
+          <div className="text-sm font-medium">
+            <BilingualLabel
+              ja="証跡バンドルの検証"
+              en="Verify an evidence bundle"
+            />
+          </div>
+          <LanguageToggle />
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-6 sm:px-6 sm:py-10">
+        <p className="text-sm text-muted-foreground">
+          <BilingualLabel
+            ja="監査レポート画面から書き出した証跡バンドル（.json）を選択してください。検証はこのブラウザ内で行われ、ファイルは送信されません。"
+            en="Choose an evidence bundle (.json) exported from the audit report page. It is checked in this browser; the file is never uploaded."
+          />
+        </p>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            if (!busy) setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragOver(false);
+            if (!busy) verifyFile(e.dataTransfer.files);
+          }}
+          onClick={() => !busy && inputRef.current?.click()}
+          className={
+            "flex cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed p-8 text-center transition-colors " +
+            (busy ? "pointer-events-none opacity-50 " : "") +
+            (dragOver
+              ? "border-primary bg-primary/5"
+              : "border-muted-foreground/30 hover:border-muted-foreground/50")
+          }
+        >
+          <FileArchiveIcon className="mb-2 size-6 text-muted-foreground" />
+          <p className="text-sm">
+            {fileName ?? (
+              <BilingualLabel
+                ja="ここにドロップ、またはクリックして選択"
+                en="Drop a bundle here, or click to choose"
+              />
+            )}
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              verifyFile(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {result && (
+          <>
+            <Alert variant={result.ok ? "default" : "destructive"}>
+              <AlertTitle>
+                {result.ok ? (
+                  <BilingualLabel
+                    ja="検証に成功しました"
+                    en="Bundle verified"
+                  />
+                ) : (
+                  <BilingualLabel
+                    ja="検証に失敗した項目があります"
+                    en="Bundle did not verify"
+                  />
+                )}
+              </AlertTitle>
+              <AlertDescription>
+                <BilingualLabel
+                  ja={`成功 ${result.counts.pass} · 失敗 ${result.counts.fail} · 未検証 ${result.counts.skipped}`}
+                  en={`${result.counts.pass} passed · ${result.counts.fail} failed · ${result.counts.skipped} skipped`}
+                />
+              </AlertDescription>
+            </Alert>
+
+            <Card>
+              <CardContent>
+                <ul className="divide-y">
+                  {result.checks.map((check, i) => (
+                    <li key={i} className="flex items-start gap-2 py-2 text-sm">
+                      {STATUS_ICON[check.status]}
+                      <div className="min-w-0">
+                        <BilingualLabel
+                          ja={CHECK_INFO[check.code].ja}
+                          en={CHECK_INFO[check.code].en}
+                        />
+                        <p className="break-all font-mono text-xs text-muted-foreground">
+                          {check.subject}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
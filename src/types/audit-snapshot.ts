@@ -1,5 +1,8 @@
 import type { Json } from "@/types/database";
-import type { ComplianceSeverity } from "@/types/domain";
+import type {
+  ComplianceFindingSource,
+  ComplianceSeverity,
+} from "@/types/domain";
 
 // Mirror of the jsonb shape produced by _build_audit_snapshot() and stored
 // in audit_reports.report_snapshot. The Edge Function and the page both
@@ -14,12 +17,17 @@ export interface SnapshotFinding {
   id: string;
   variant_id: string;
   severity: ComplianceSeverity;
+  // Absent from snapshots finalized before migration 0024 — use
+  // findingSource(), which falls back to the regulation_reference tag.
+  source?: ComplianceFindingSource;
   source_text: string;
   paragraph_index: number | null;
   explanation: string;
   regulation_reference: string;
   suggested_correction: string | null;
   resolution_status: string;
+  // The reviewer who filed a manual finding.
+  created_by?: SnapshotUserRef | null;
   resolved_by: SnapshotUserRef | null;
   resolved_at: string | null;
   created_at: string;
@@ -57,8 +57,101 @@ export type Database = {
         }
         Relationships: []
       }
+      approved_examples: {
+        Row: {
+          active: boolean
+          body_text: string
+          brand_voice_sample_id: string | null
+          client_feedback_id: string | null
+          client_id: string
+          content_type: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          label: string | null
+          source_type: string
+          variant_id: string | null
+        }
+        Insert: {
+          active?: boolean
+          body_text: string
+          brand_voice_sample_id?: string | null
+          client_feedback_id?: string | null
+          client_id: string
+          content_type?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label?: string | null
+          source_type: string
+          variant_id?: string | null
+        }
+        Update: {
+          active?: boolean
+          body_text?: string
+          brand_voice_sample_id?: string | null
+          client_feedback_id?: string | null
+          client_id?: string
+          content_type?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label?: string | null
+          source_type?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approved_examples_brand_voice_sample_id_fkey"
+            columns: ["brand_voice_sample_id"]
+            isOneToOne: true
+            referencedRelation: "brand_voice_samples"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approved_examples_client_feedback_id_fkey"
+            columns: ["client_feedback_id"]
+            isOneToOne: true
+            referencedRelation: "client_feedback"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approved_examples_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approved_examples_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "project_summary"
+            referencedColumns: ["client_id"]
+          },
+          {
+            foreignKeyName: "approved_examples_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approved_examples_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "content_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_reports: {
         Row: {
+          archive_path: string | null
+          archive_renderer: string | null
+          archive_sha256: string | null
+          archive_size_bytes: number | null
+          archived_at: string | null
           assembled_snapshot: Json | null
           created_at: string
           created_by: string
@@ -69,12 +162,18 @@ export type Database = {
           report_id_display: string
           report_snapshot: Json | null
           reviewer_comments: string | null
+          signoff_roles: string[] | null
           status: string
           version: string | null
           version_major: number
           version_minor: number
         }
         Insert: {
+          archive_path?: string | null
+          archive_renderer?: string | null
+          archive_sha256?: string | null
+          archive_size_bytes?: number | null
+          archived_at?: string | null
           assembled_snapshot?: Json | null
           created_at?: string
           created_by: string
@@ -85,12 +184,18 @@ export type Database = {
           report_id_display: string
           report_snapshot?: Json | null
           reviewer_comments?: string | null
+          signoff_roles?: string[] | null
           status?: string
           version?: string | null
           version_major?: number
           version_minor?: number
         }
         Update: {
+          archive_path?: string | null
+          archive_renderer?: string | null
+          archive_sha256?: string | null
+          archive_size_bytes?: number | null
+          archived_at?: string | null
           assembled_snapshot?: Json | null
           created_at?: string
           created_by?: string
@@ -101,6 +206,7 @@ export type Database = {
           report_id_display?: string
           report_snapshot?: Json | null
           reviewer_comments?: string | null
+          signoff_roles?: string[] | null
           status?: string
           version?: string | null
           version_major?: number
@@ -139,34 +245,49 @@ export type Database = {
       }
       audit_signatures: {
         Row: {
+          algorithm: string
           audit_report_id: string
           canonical_payload: Json
           id: string
+          invalidated_at: string | null
+          invalidated_reason: string | null
+          key_id: string | null
           signature_hash: string
           signed_at: string
           signer_id: string
           signer_name_snapshot: string
           signer_role_snapshot: string
+          signoff_role: string
         }
         Insert: {
+          algorithm: string
           audit_report_id: string
           canonical_payload: Json
           id?: string
+          invalidated_at?: string | null
+          invalidated_reason?: string | null
+          key_id?: string | null
           signature_hash: string
           signed_at?: string
           signer_id: string
           signer_name_snapshot: string
           signer_role_snapshot: string
+          signoff_role: string
         }
         Update: {
+          algorithm?: string
           audit_report_id?: string
           canonical_payload?: Json
           id?: string
+          invalidated_at?: string | null
+          invalidated_reason?: string | null
+          key_id?: string | null
           signature_hash?: string
           signed_at?: string
           signer_id?: string
           signer_name_snapshot?: string
           signer_role_snapshot?: string
+          signoff_role?: string
         }
         Relationships: [
           {
@@ -176,6 +297,13 @@ export type Database = {
             referencedRelation: "audit_reports"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "audit_signatures_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "audit_signing_keys"
+            referencedColumns: ["key_id"]
+          },
           {
             foreignKeyName: "audit_signatures_signer_id_fkey"
             columns: ["signer_id"]
@@ -185,17 +313,44 @@ export type Database = {
           },
         ]
       }
+      audit_signing_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          key_id: string
+          public_key: string
+          retired_at: string | null
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          key_id: string
+          public_key: string
+          retired_at?: string | null
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          key_id?: string
+          public_key?: string
+          retired_at?: string | null
+        }
+        Relationships: []
+      }
       audit_trail_events: {
         Row: {
           actor_id: string | null
           actor_name_snapshot: string | null
           actor_type: string
           audit_report_id: string | null
+          chain_seq: number
           details: Json
+          event_hash: string
           event_type: string
           id: string
           model_used: string | null
           occurred_at: string
+          prev_hash: string | null
           project_id: string
         }
         Insert: {
@@ -203,11 +358,14 @@ export type Database = {
           actor_name_snapshot?: string | null
           actor_type: string
           audit_report_id?: string | null
+          chain_seq?: number
           details?: Json
+          event_hash?: string
           event_type: string
           id?: string
           model_used?: string | null
           occurred_at?: string
+          prev_hash?: string | null
           project_id: string
         }
         Update: {
@@ -215,11 +373,14 @@ export type Database = {
           actor_name_snapshot?: string | null
           actor_type?: string
           audit_report_id?: string | null
+          chain_seq?: number
           details?: Json
+          event_hash?: string
           event_type?: string
           id?: string
           model_used?: string | null
           occurred_at?: string
+          prev_hash?: string | null
           project_id?: string
         }
         Relationships: [
@@ -421,6 +582,127 @@ export type Database = {
           },
         ]
       }
+      client_boilerplate_blocks: {
+        Row: {
+          active: boolean
+          body: string
+          client_id: string
+          content_types: string[]
+          created_at: string
+          created_by: string | null
+          current_version: number
+          heading: string
+          id: string
+          kind: string
+          language: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          active?: boolean
+          body: string
+          client_id: string
+          content_types?: string[]
+          created_at?: string
+          created_by?: string | null
+          current_version?: number
+          heading?: string
+          id?: string
+          kind: string
+          language: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          active?: boolean
+          body?: string
+          client_id?: string
+          content_types?: string[]
+          created_at?: string
+          created_by?: string | null
+          current_version?: number
+          heading?: string
+          id?: string
+          kind?: string
+          language?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_boilerplate_blocks_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_boilerplate_blocks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_boilerplate_blocks_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_boilerplate_versions: {
+        Row: {
+          block_id: string
+          body: string
+          change_note: string | null
+          content_types: string[]
+          created_at: string
+          created_by: string | null
+          created_by_name_snapshot: string | null
+          heading: string
+          version: number
+        }
+        Insert: {
+          block_id: string
+          body: string
+          change_note?: string | null
+          content_types: string[]
+          created_at?: string
+          created_by?: string | null
+          created_by_name_snapshot?: string | null
+          heading: string
+          version: number
+        }
+        Update: {
+          block_id?: string
+          body?: string
+          change_note?: string | null
+          content_types?: string[]
+          created_at?: string
+          created_by?: string | null
+          created_by_name_snapshot?: string | null
+          heading?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_boilerplate_versions_block_id_fkey"
+            columns: ["block_id"]
+            isOneToOne: false
+            referencedRelation: "client_boilerplate_blocks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_boilerplate_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       client_feedback: {
         Row: {
           chosen_variant_id: string | null
@@ -522,9 +804,58 @@ export type Database = {
           },
         ]
       }
+      compliance_eval_cases: {
+        Row: {
+          captured_at: string
+          captured_by: string | null
+          captured_by_name_snapshot: string | null
+          eval_case: Json
+          id: string
+          label_count: number
+          variant_id: string | null
+        }
+        Insert: {
+          captured_at?: string
+          captured_by?: string | null
+          captured_by_name_snapshot?: string | null
+          eval_case: Json
+          id?: string
+          label_count: number
+          variant_id?: string | null
+        }
+        Update: {
+          captured_at?: string
+          captured_by?: string | null
+          captured_by_name_snapshot?: string | null
+          eval_case?: Json
+          id?: string
+          label_count?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_eval_cases_captured_by_fkey"
+            columns: ["captured_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_eval_cases_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: true
+            referencedRelation: "content_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       compliance_findings: {
         Row: {
+          anchor_context_hash: string | null
+          anchor_end: number | null
+          anchor_start: number | null
           created_at: string
+          created_by: string | null
           explanation: string
           id: string
           paragraph_index: number | null
@@ -533,12 +864,17 @@ export type Database = {
           resolved_at: string | null
           resolved_by: string | null
           severity: string
+          source: string
           source_text: string
           suggested_correction: string | null
           variant_id: string
         }
         Insert: {
+          anchor_context_hash?: string | null
+          anchor_end?: number | null
+          anchor_start?: number | null
           created_at?: string
+          created_by?: string | null
           explanation: string
           id?: string
           paragraph_index?: number | null
@@ -547,12 +883,17 @@ export type Database = {
           resolved_at?: string | null
           resolved_by?: string | null
           severity: string
+          source?: string
           source_text: string
           suggested_correction?: string | null
           variant_id: string
         }
         Update: {
+          anchor_context_hash?: string | null
+          anchor_end?: number | null
+          anchor_start?: number | null
           created_at?: string
+          created_by?: string | null
           explanation?: string
           id?: string
           paragraph_index?: number | null
@@ -561,11 +902,19 @@ export type Database = {
           resolved_at?: string | null
           resolved_by?: string | null
           severity?: string
+          source?: string
           source_text?: string
           suggested_correction?: string | null
           variant_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "compliance_findings_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "compliance_findings_resolved_by_fkey"
             columns: ["resolved_by"]
@@ -582,6 +931,116 @@ export type Database = {
           },
         ]
       }
+      compliance_rule_set_versions: {
+        Row: {
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          created_by_name_snapshot: string | null
+          rules: Json
+          version: number
+        }
+        Insert: {
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name_snapshot?: string | null
+          rules: Json
+          version: number
+        }
+        Update: {
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name_snapshot?: string | null
+          rules?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_rule_set_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_rules: {
+        Row: {
+          active: boolean
+          audiences: string[]
+          content_sub_types: string[]
+          content_types: string[]
+          created_at: string
+          created_by: string | null
+          explanation_template: string
+          id: string
+          kind: string
+          lifecycles: string[]
+          match_type: string
+          pattern: string
+          regulation_reference: string
+          severity: string
+          suggested_correction: string | null
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          active?: boolean
+          audiences?: string[]
+          content_sub_types?: string[]
+          content_types?: string[]
+          created_at?: string
+          created_by?: string | null
+          explanation_template: string
+          id?: string
+          kind: string
+          lifecycles?: string[]
+          match_type: string
+          pattern: string
+          regulation_reference: string
+          severity: string
+          suggested_correction?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          active?: boolean
+          audiences?: string[]
+          content_sub_types?: string[]
+          content_types?: string[]
+          created_at?: string
+          created_by?: string | null
+          explanation_template?: string
+          id?: string
+          kind?: string
+          lifecycles?: string[]
+          match_type?: string
+          pattern?: string
+          regulation_reference?: string
+          severity?: string
+          suggested_correction?: string | null
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_rules_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       content_items: {
         Row: {
           brief_constraints: string | null
@@ -602,6 +1061,7 @@ export type Database = {
           project_id: string
           target_audience: string
           variant_count: number
+          variation_axis: string
         }
         Insert: {
           brief_constraints?: string | null
@@ -622,6 +1082,7 @@ export type Database = {
           project_id: string
           target_audience?: string
           variant_count?: number
+          variation_axis?: string
         }
         Update: {
           brief_constraints?: string | null
@@ -642,6 +1103,7 @@ export type Database = {
           project_id?: string
           target_audience?: string
           variant_count?: number
+          variation_axis?: string
         }
         Relationships: [
           {
@@ -660,50 +1122,142 @@ export type Database = {
           },
         ]
       }
-      content_variants: {
+      content_variant_revisions: {
         Row: {
+          author_id: string | null
+          author_name_snapshot: string | null
+          author_type: string
+          body_doc: Json | null
           body_html: string | null
           body_text: string
           char_count: number
-          content_item_id: string
           created_at: string
-          generation_params: Json | null
+          finding_id: string | null
           id: string
-          internal_approved: boolean
-          internal_approved_at: string | null
-          internal_approved_by: string | null
-          model_used: string
+          model_used: string | null
           reading_time_seconds: number
+          reason: string
+          restored_from_revision_id: string | null
+          revision_number: number
           updated_at: string
-          variant_index: number
-          variant_label: string
+          variant_id: string
         }
         Insert: {
+          author_id?: string | null
+          author_name_snapshot?: string | null
+          author_type: string
+          body_doc?: Json | null
           body_html?: string | null
           body_text: string
-          char_count?: number
-          content_item_id: string
+          char_count: number
           created_at?: string
-          generation_params?: Json | null
+          finding_id?: string | null
           id?: string
-          internal_approved?: boolean
-          internal_approved_at?: string | null
-          internal_approved_by?: string | null
-          model_used: string
-          reading_time_seconds?: number
+          model_used?: string | null
+          reading_time_seconds: number
+          reason: string
+          restored_from_revision_id?: string | null
+          revision_number: number
           updated_at?: string
-          variant_index: number
-          variant_label: string
+          variant_id: string
         }
         Update: {
+          author_id?: string | null
+          author_name_snapshot?: string | null
+          author_type?: string
+          body_doc?: Json | null
           body_html?: string | null
           body_text?: string
           char_count?: number
-          content_item_id?: string
           created_at?: string
-          generation_params?: Json | null
+          finding_id?: string | null
           id?: string
-          internal_approved?: boolean
+          model_used?: string | null
+          reading_time_seconds?: number
+          reason?: string
+          restored_from_revision_id?: string | null
+          revision_number?: number
+          updated_at?: string
+          variant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_variant_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_variant_revisions_finding_id_fkey"
+            columns: ["finding_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_findings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_variant_revisions_restored_from_revision_id_fkey"
+            columns: ["restored_from_revision_id"]
+            isOneToOne: false
+            referencedRelation: "content_variant_revisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_variant_revisions_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "content_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_variants: {
+        Row: {
+          body_doc: Json | null
+          body_html: string | null
+          body_text: string
+          char_count: number
+          content_item_id: string
+          created_at: string
+          generation_params: Json | null
+          id: string
+          internal_approved: boolean
+          internal_approved_at: string | null
+          internal_approved_by: string | null
+          model_used: string
+          reading_time_seconds: number
+          updated_at: string
+          variant_index: number
+          variant_label: string
+        }
+        Insert: {
+          body_doc?: Json | null
+          body_html?: string | null
+          body_text: string
+          char_count?: number
+          content_item_id: string
+          created_at?: string
+          generation_params?: Json | null
+          id?: string
+          internal_approved?: boolean
+          internal_approved_at?: string | null
+          internal_approved_by?: string | null
+          model_used: string
+          reading_time_seconds?: number
+          updated_at?: string
+          variant_index: number
+          variant_label: string
+        }
+        Update: {
+          body_doc?: Json | null
+          body_html?: string | null
+          body_text?: string
+          char_count?: number
+          content_item_id?: string
+          created_at?: string
+          generation_params?: Json | null
+          id?: string
+          internal_approved?: boolean
           internal_approved_at?: string | null
           internal_approved_by?: string | null
           model_used?: string
@@ -743,8 +1297,12 @@ export type Database = {
           bcc_emails: Json
           body_html: string
           body_text: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           cc_emails: Json
           created_at: string
+          created_by: string | null
           delivery_snapshot: Json
           id: string
           project_id: string
@@ -763,8 +1321,12 @@ export type Database = {
           bcc_emails?: Json
           body_html: string
           body_text?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           cc_emails?: Json
           created_at?: string
+          created_by?: string | null
           delivery_snapshot: Json
           id?: string
           project_id: string
@@ -783,8 +1345,12 @@ export type Database = {
           bcc_emails?: Json
           body_html?: string
           body_text?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           cc_emails?: Json
           created_at?: string
+          created_by?: string | null
           delivery_snapshot?: Json
           id?: string
           project_id?: string
@@ -805,6 +1371,20 @@ export type Database = {
             referencedRelation: "audit_reports"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deliveries_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "deliveries_project_id_fkey"
             columns: ["project_id"]
@@ -835,10 +1415,38 @@ export type Database = {
           },
         ]
       }
+      email_send_ledger: {
+        Row: {
+          claimed_at: string
+          idempotency_key: string
+          message_id: string | null
+          payload_sha256: string
+          sent_at: string | null
+          transport: string
+        }
+        Insert: {
+          claimed_at?: string
+          idempotency_key: string
+          message_id?: string | null
+          payload_sha256: string
+          sent_at?: string | null
+          transport: string
+        }
+        Update: {
+          claimed_at?: string
+          idempotency_key?: string
+          message_id?: string | null
+          payload_sha256?: string
+          sent_at?: string | null
+          transport?: string
+        }
+        Relationships: []
+      }
       feedback_tokens: {
         Row: {
           created_at: string
           delivery_id: string
+          expired_at: string | null
           expires_at: string
           id: string
           reminder_sent_at: string | null
@@ -848,6 +1456,7 @@ export type Database = {
         Insert: {
           created_at?: string
           delivery_id: string
+          expired_at?: string | null
           expires_at: string
           id?: string
           reminder_sent_at?: string | null
@@ -857,6 +1466,7 @@ export type Database = {
         Update: {
           created_at?: string
           delivery_id?: string
+          expired_at?: string | null
           expires_at?: string
           id?: string
           reminder_sent_at?: string | null
@@ -959,13 +1569,67 @@ export type Database = {
           },
         ]
       }
+      mailbox_connections: {
+        Row: {
+          connected_at: string
+          display_name: string | null
+          email: string
+          id: string
+          last_error: string | null
+          last_used_at: string | null
+          provider: string
+          refresh_token_encrypted: string
+          revoked_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          connected_at?: string
+          display_name?: string | null
+          email: string
+          id?: string
+          last_error?: string | null
+          last_used_at?: string | null
+          provider: string
+          refresh_token_encrypted: string
+          revoked_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          connected_at?: string
+          display_name?: string | null
+          email?: string
+          id?: string
+          last_error?: string | null
+          last_used_at?: string | null
+          provider?: string
+          refresh_token_encrypted?: string
+          revoked_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mailbox_connections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           client_id: string
           created_at: string
           created_by: string
           deadline: string | null
+          embargo_enforced: boolean
+          embargo_label: string | null
+          embargo_lift_at: string | null
           id: string
+          market_hours_sensitive: boolean
           name: string
           status: string
           updated_at: string
@@ -976,7 +1640,11 @@ export type Database = {
           created_at?: string
           created_by: string
           deadline?: string | null
+          embargo_enforced?: boolean
+          embargo_label?: string | null
+          embargo_lift_at?: string | null
           id?: string
+          market_hours_sensitive?: boolean
           name: string
           status?: string
           updated_at?: string
@@ -987,7 +1655,11 @@ export type Database = {
           created_at?: string
           created_by?: string
           deadline?: string | null
+          embargo_enforced?: boolean
+          embargo_label?: string | null
+          embargo_lift_at?: string | null
           id?: string
+          market_hours_sensitive?: boolean
           name?: string
           status?: string
           updated_at?: string
@@ -1024,9 +1696,13 @@ export type Database = {
           delivery_id: string
           error_message: string | null
           id: string
+          leased_by: string | null
+          leased_until: string | null
+          manual_retries: number
           processed: boolean
           processed_at: string | null
           scheduled_for: string
+          scheduling_warnings: Json | null
         }
         Insert: {
           attempts?: number
@@ -1034,9 +1710,13 @@ export type Database = {
           delivery_id: string
           error_message?: string | null
           id?: string
+          leased_by?: string | null
+          leased_until?: string | null
+          manual_retries?: number
           processed?: boolean
           processed_at?: string | null
           scheduled_for: string
+          scheduling_warnings?: Json | null
         }
         Update: {
           attempts?: number
@@ -1044,9 +1724,13 @@ export type Database = {
           delivery_id?: string
           error_message?: string | null
           id?: string
+          leased_by?: string | null
+          leased_until?: string | null
+          manual_retries?: number
           processed?: boolean
           processed_at?: string | null
           scheduled_for?: string
+          scheduling_warnings?: Json | null
         }
         Relationships: [
           {
@@ -1058,6 +1742,96 @@ export type Database = {
           },
         ]
       }
+      scheduling_blackouts: {
+        Row: {
+          active: boolean
+          created_at: string
+          created_by: string | null
+          ends_at: string
+          id: string
+          label: string
+          starts_at: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          label: string
+          starts_at: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          label?: string
+          starts_at?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduling_blackouts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduling_blackouts_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      signoff_policies: {
+        Row: {
+          client_id: string | null
+          id: string
+          roles: string[]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          id?: string
+          roles: string[]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          id?: string
+          roles?: string[]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signoff_policies_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signoff_policies_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       users: {
         Row: {
           created_at: string
@@ -1114,10 +1888,26 @@ export type Database = {
       }
     }
     Functions: {
+      _audit_event_hash: {
+        Args: {
+          p_event: Database["public"]["Tables"]["audit_trail_events"]["Row"]
+        }
+        Returns: string
+      }
       _build_audit_snapshot: { Args: { p_project_id: string }; Returns: Json }
+      _canonical_json: { Args: { p_value: Json }; Returns: string }
+      _embargo_blocks: {
+        Args: { p_at: string; p_project_id: string }
+        Returns: boolean
+      }
       _latest_finalized_audit_report: {
         Args: { p_project_id: string }
         Returns: {
+          archive_path: string | null
+          archive_renderer: string | null
+          archive_sha256: string | null
+          archive_size_bytes: number | null
+          archived_at: string | null
           assembled_snapshot: Json | null
           created_at: string
           created_by: string
@@ -1128,6 +1918,7 @@ export type Database = {
           report_id_display: string
           report_snapshot: Json | null
           reviewer_comments: string | null
+          signoff_roles: string[] | null
           status: string
           version: string | null
           version_major: number
@@ -1140,10 +1931,22 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      _scheduling_warnings_valid: {
+        Args: { p_warnings: Json }
+        Returns: boolean
+      }
+      _signoff_roles_for_project: {
+        Args: { p_project_id: string }
+        Returns: string[]
+      }
       acknowledge_finding: {
         Args: { p_finding_id: string }
         Returns: {
+          anchor_context_hash: string | null
+          anchor_end: number | null
+          anchor_start: number | null
           created_at: string
+          created_by: string | null
           explanation: string
           id: string
           paragraph_index: number | null
@@ -1152,6 +1955,35 @@ export type Database = {
           resolved_at: string | null
           resolved_by: string | null
           severity: string
+          source: string
+          source_text: string
+          suggested_correction: string | null
+          variant_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "compliance_findings"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      add_manual_finding: {
+        Args: { p_finding: Json; p_variant_id: string }
+        Returns: {
+          anchor_context_hash: string | null
+          anchor_end: number | null
+          anchor_start: number | null
+          created_at: string
+          created_by: string | null
+          explanation: string
+          id: string
+          paragraph_index: number | null
+          regulation_reference: string
+          resolution_status: string
+          resolved_at: string | null
+          resolved_by: string | null
+          severity: string
+          source: string
           source_text: string
           suggested_correction: string | null
           variant_id: string
@@ -1170,13 +2002,18 @@ export type Database = {
       apply_fix: {
         Args: {
           p_finding_id: string
+          p_new_body_doc: Json
           p_new_body_html: string
           p_new_body_text: string
           p_new_char_count: number
           p_new_reading_time_seconds: number
         }
         Returns: {
+          anchor_context_hash: string | null
+          anchor_end: number | null
+          anchor_start: number | null
           created_at: string
+          created_by: string | null
           explanation: string
           id: string
           paragraph_index: number | null
@@ -1185,6 +2022,7 @@ export type Database = {
           resolved_at: string | null
           resolved_by: string | null
           severity: string
+          source: string
           source_text: string
           suggested_correction: string | null
           variant_id: string
@@ -1199,6 +2037,7 @@ export type Database = {
       approve_variant: {
         Args: { p_variant_id: string }
         Returns: {
+          body_doc: Json | null
           body_html: string | null
           body_text: string
           char_count: number
@@ -1225,6 +2064,11 @@ export type Database = {
       assemble_audit_report: {
         Args: { p_project_id: string }
         Returns: {
+          archive_path: string | null
+          archive_renderer: string | null
+          archive_sha256: string | null
+          archive_size_bytes: number | null
+          archived_at: string | null
           assembled_snapshot: Json | null
           created_at: string
           created_by: string
@@ -1235,6 +2079,7 @@ export type Database = {
           report_id_display: string
           report_snapshot: Json | null
           reviewer_comments: string | null
+          signoff_roles: string[] | null
           status: string
           version: string | null
           version_major: number
@@ -1247,10 +2092,52 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      audit_report_signoff: {
+        Args: { p_audit_report_id: string }
+        Returns: Json
+      }
+      cancel_delivery: {
+        Args: { p_delivery_id: string; p_reason: string }
+        Returns: Json
+      }
+      capture_compliance_eval_case: {
+        Args: { p_case: Json; p_variant_id: string }
+        Returns: string
+      }
+      claim_email_send: {
+        Args: {
+          p_idempotency_key: string
+          p_payload_sha256: string
+          p_transport: string
+        }
+        Returns: Json
+      }
+      claim_scheduled_sends: {
+        Args: {
+          p_lease_seconds: number
+          p_limit: number
+          p_max_attempts: number
+          p_worker: string
+        }
+        Returns: Json
+      }
+      complete_email_send: {
+        Args: { p_idempotency_key: string; p_message_id: string }
+        Returns: undefined
+      }
       create_delivery: {
         Args: { p_payload: Json; p_scheduled_for: string }
         Returns: Json
       }
+      expire_feedback_token: { Args: { p_token_id: string }; Returns: Json }
+      extend_scheduled_send_leases: {
+        Args: {
+          p_lease_seconds: number
+          p_scheduled_send_ids: string[]
+          p_worker: string
+        }
+        Returns: string[]
+      }
       finalize_audit_report: {
         Args: {
           p_audit_report_id: string
@@ -1258,6 +2145,11 @@ export type Database = {
           p_signature_hash: string
         }
         Returns: {
+          archive_path: string | null
+          archive_renderer: string | null
+          archive_sha256: string | null
+          archive_size_bytes: number | null
+          archived_at: string | null
           assembled_snapshot: Json | null
           created_at: string
           created_by: string
@@ -1268,6 +2160,7 @@ export type Database = {
           report_id_display: string
           report_snapshot: Json | null
           reviewer_comments: string | null
+          signoff_roles: string[] | null
           status: string
           version: string | null
           version_major: number
@@ -1290,8 +2183,12 @@ export type Database = {
           bcc_emails: Json
           body_html: string
           body_text: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           cc_emails: Json
           created_at: string
+          created_by: string | null
           delivery_snapshot: Json
           id: string
           project_id: string
@@ -1312,15 +2209,23 @@ export type Database = {
         }
       }
       mark_delivery_sent_system: {
-        Args: { p_delivery_id: string; p_resend_message_id: string }
+        Args: {
+          p_delivery_id: string
+          p_resend_message_id: string
+          p_sender: Json
+        }
         Returns: {
           attachment_format: string
           audit_report_id: string
           bcc_emails: Json
           body_html: string
           body_text: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           cc_emails: Json
           created_at: string
+          created_by: string | null
           delivery_snapshot: Json
           id: string
           project_id: string
@@ -1341,15 +2246,23 @@ export type Database = {
         }
       }
       mark_delivery_sent_user: {
-        Args: { p_delivery_id: string; p_resend_message_id: string }
+        Args: {
+          p_delivery_id: string
+          p_resend_message_id: string
+          p_sender: Json
+        }
         Returns: {
           attachment_format: string
           audit_report_id: string
           bcc_emails: Json
           body_html: string
           body_text: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           cc_emails: Json
           created_at: string
+          created_by: string | null
           delivery_snapshot: Json
           id: string
           project_id: string
@@ -1369,6 +2282,58 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      mark_feedback_reminder_sent: {
+        Args: { p_resend_message_id: string; p_token_id: string }
+        Returns: Json
+      }
+      record_audit_report_archive: {
+        Args: {
+          p_archive_path: string
+          p_archive_renderer: string
+          p_archive_sha256: string
+          p_archive_size_bytes: number
+          p_audit_report_id: string
+        }
+        Returns: {
+          archive_path: string | null
+          archive_renderer: string | null
+          archive_sha256: string | null
+          archive_size_bytes: number | null
+          archived_at: string | null
+          assembled_snapshot: Json | null
+          created_at: string
+          created_by: string
+          finalized_at: string | null
+          id: string
+          previous_version_id: string | null
+          project_id: string
+          report_id_display: string
+          report_snapshot: Json | null
+          reviewer_comments: string | null
+          signoff_roles: string[] | null
+          status: string
+          version: string | null
+          version_major: number
+          version_minor: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "audit_reports"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      record_audit_trail_export: {
+        Args: {
+          p_event_count: number
+          p_filename: string
+          p_filters: Json
+          p_format: string
+          p_project_event_counts: Json
+          p_sha256: string
+        }
+        Returns: number
+      }
       record_compliance_check: {
         Args: {
           p_audit_details: Json
@@ -1388,14 +2353,17 @@ export type Database = {
         Returns: undefined
       }
       record_scheduled_attempt_failure: {
-        Args: { p_error_message: string; p_scheduled_send_id: string }
+        Args: {
+          p_error_message: string
+          p_scheduled_send_id: string
+          p_worker: string
+        }
         Returns: Json
       }
       regenerate_variant: {
         Args: {
-          p_actor_id: string
-          p_actor_name_snapshot: string
           p_audit_details: Json
+          p_body_doc: Json
           p_body_text: string
           p_char_count: number
           p_content_item_id: string
@@ -1407,6 +2375,7 @@ export type Database = {
           p_variant_label: string
         }
         Returns: {
+          body_doc: Json | null
           body_html: string | null
           body_text: string
           char_count: number
@@ -1430,9 +2399,82 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      release_email_send: {
+        Args: { p_idempotency_key: string }
+        Returns: undefined
+      }
+      reopen_finding: {
+        Args: { p_finding_id: string }
+        Returns: {
+          anchor_context_hash: string | null
+          anchor_end: number | null
+          anchor_start: number | null
+          created_at: string
+          created_by: string | null
+          explanation: string
+          id: string
+          paragraph_index: number | null
+          regulation_reference: string
+          resolution_status: string
+          resolved_at: string | null
+          resolved_by: string | null
+          severity: string
+          source: string
+          source_text: string
+          suggested_correction: string | null
+          variant_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "compliance_findings"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      reschedule_delivery: {
+        Args: {
+          p_delivery_id: string
+          p_scheduled_for: string
+          p_scheduling_warnings: Json
+        }
+        Returns: Json
+      }
+      restore_variant_revision: {
+        Args: { p_revision_id: string }
+        Returns: {
+          body_doc: Json | null
+          body_html: string | null
+          body_text: string
+          char_count: number
+          content_item_id: string
+          created_at: string
+          generation_params: Json | null
+          id: string
+          internal_approved: boolean
+          internal_approved_at: string | null
+          internal_approved_by: string | null
+          model_used: string
+          reading_time_seconds: number
+          updated_at: string
+          variant_index: number
+          variant_label: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "content_variants"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      retry_delivery: { Args: { p_delivery_id: string }; Returns: Json }
       revise_audit_report: {
         Args: { p_audit_report_id: string; p_comment: string }
         Returns: {
+          archive_path: string | null
+          archive_renderer: string | null
+          archive_sha256: string | null
+          archive_size_bytes: number | null
+          archived_at: string | null
           assembled_snapshot: Json | null
           created_at: string
           created_by: string
@@ -1443,6 +2485,7 @@ export type Database = {
           report_id_display: string
           report_snapshot: Json | null
           reviewer_comments: string | null
+          signoff_roles: string[] | null
           status: string
           version: string | null
           version_major: number
@@ -1455,6 +2498,88 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      save_client_boilerplate: {
+        Args: {
+          p_block: Json
+          p_block_id: string
+          p_change_note: string
+          p_client_id: string
+        }
+        Returns: Json
+      }
+      save_compliance_rule: {
+        Args: { p_change_note: string; p_rule: Json; p_rule_id: string }
+        Returns: Json
+      }
+      save_scheduling_blackout: {
+        Args: {
+          p_active: boolean
+          p_blackout_id: string
+          p_ends_at: string
+          p_label: string
+          p_starts_at: string
+        }
+        Returns: string
+      }
+      save_variant_body: {
+        Args: {
+          p_body_doc: Json
+          p_body_text: string
+          p_char_count: number
+          p_reading_time_seconds: number
+          p_variant_id: string
+        }
+        Returns: {
+          body_doc: Json | null
+          body_html: string | null
+          body_text: string
+          char_count: number
+          content_item_id: string
+          created_at: string
+          generation_params: Json | null
+          id: string
+          internal_approved: boolean
+          internal_approved_at: string | null
+          internal_approved_by: string | null
+          model_used: string
+          reading_time_seconds: number
+          updated_at: string
+          variant_index: number
+          variant_label: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "content_variants"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      set_project_scheduling_rules: {
+        Args: {
+          p_embargo_enforced: boolean
+          p_embargo_label: string
+          p_embargo_lift_at: string
+          p_market_hours_sensitive: boolean
+          p_project_id: string
+        }
+        Returns: Json
+      }
+      set_signoff_policy: {
+        Args: { p_client_id: string; p_roles: string[] }
+        Returns: {
+          client_id: string | null
+          id: string
+          roles: string[]
+          updated_at: string
+          updated_by: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "signoff_policies"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       submit_feedback: {
         Args: { p_payload: Json; p_token: string }
         Returns: Json
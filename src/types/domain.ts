@@ -16,6 +16,13 @@ export type BrandVoiceProfileUpdate = Tables['brand_voice_profiles']['Update'];
 export type BrandVoiceGuideline = Tables['brand_voice_guidelines']['Row'];
 export type BrandVoiceGuidelineInsert = Tables['brand_voice_guidelines']['Insert'];
 
+export type ApprovedExample = Tables['approved_examples']['Row'];
+export type ApprovedExampleSourceType = 'client_feedback' | 'brand_voice_sample';
+
+export type ClientBoilerplateBlock = Tables['client_boilerplate_blocks']['Row'];
+export type ClientBoilerplateVersion =
+  Tables['client_boilerplate_versions']['Row'];
+
 export type GuidelineSourceType =
   | 'extraction'
   | 'internal_annotation'
@@ -33,18 +40,48 @@ export type ContentItemInsert = Tables['content_items']['Insert'];
 export type ContentVariant = Tables['content_variants']['Row'];
 export type ContentVariantUpdate = Tables['content_variants']['Update'];
 
+export type ContentVariantRevision = Tables['content_variant_revisions']['Row'];
+export type VariantRevisionReason =
+  | 'generated'
+  | 'regenerated'
+  | 'autosave'
+  | 'fix_applied'
+  | 'restored';
+export type VariantRevisionAuthorType = 'model' | 'user';
+
 export type ComplianceFindingRow = Tables['compliance_findings']['Row'];
 export type ComplianceFindingUpdate = Tables['compliance_findings']['Update'];
 
+export type ComplianceRuleRow = Tables['compliance_rules']['Row'];
+export type ComplianceRuleSetVersion =
+  Tables['compliance_rule_set_versions']['Row'];
+export type ComplianceRuleKind = 'prohibited' | 'required';
+export type ComplianceRuleMatchType = 'term' | 'regex';
+
 export type AuditReport = Tables['audit_reports']['Row'];
 export type AuditSignature = Tables['audit_signatures']['Row'];
+export type AuditSigningKey = Tables['audit_signing_keys']['Row'];
+// 'hmac-sha256' = legacy, signed before migration 0026.
+export type AuditSignatureAlgorithm = 'hmac-sha256' | 'ed25519';
 export type AuditTrailEvent = Tables['audit_trail_events']['Row'];
-export type AuditReportStatus = 'draft' | 'finalized' | 'revised';
+export type AuditReportStatus =
+  | 'draft'
+  | 'partially_signed'
+  | 'finalized'
+  | 'revised';
+export type SignoffPolicy = Tables['signoff_policies']['Row'];
+export type SignoffRole = 'reviewer' | 'compliance_officer' | 'legal_counsel';
 
 export type Delivery = Tables['deliveries']['Row'];
-export type DeliveryStatus = 'draft' | 'scheduled' | 'sent' | 'failed';
+export type DeliveryStatus =
+  | 'draft'
+  | 'scheduled'
+  | 'sent'
+  | 'failed'
+  | 'cancelled';
 export type AttachmentFormat = 'pdf' | 'word' | 'both';
 export type ScheduledSend = Tables['scheduled_sends']['Row'];
+export type SchedulingBlackout = Tables['scheduling_blackouts']['Row'];
 export type FeedbackToken = Tables['feedback_tokens']['Row'];
 
 export type InternalFeedback = Tables['internal_feedback']['Row'];
@@ -91,12 +128,15 @@ export type DistributionChannel =
 
 export type LengthTier = 'short' | 'standard' | 'long';
 
+export type VariationAxis = 'tone' | 'structure' | 'length';
+
 export type ProjectStatus =
   | 'draft'
   | 'in_review'
   | 'delivered'
   | 'feedback_received'
-  | 'completed';
+  | 'completed'
+  | 'no_feedback';
 
 export type ProjectUrgency = 'standard' | 'priority' | 'urgent' | 'crisis';
 
@@ -107,6 +147,9 @@ export type ComplianceResolutionStatus =
   | 'fixed'
   | 'acknowledged';
 
+// Which pass produced a finding; 'manual' is filed by a reviewer.
+export type ComplianceFindingSource = 'deterministic' | 'llm' | 'manual';
+
 export interface BriefQuote {
   name: string;
   title: string;
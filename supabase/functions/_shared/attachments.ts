@@ -1,8 +1,15 @@
 /**
  * Attachment generation for delivery emails.
  *
- *   PDF: pdfshift.io (HTML → PDF, ~2-5s; $0.005/conversion).
- *   DOCX: docx npm package, in-Function generation.
+ *   PDF: HTML → PDF through the configured PdfRenderer (pdf-renderer.ts;
+ *        the in-process local engine by default; pdfshift.io when
+ *        selected, ~2-5s; $0.005/conversion).
+ *   Audit archive: the stored archival PDF of the audit report, when the
+ *        composer opted in (loadAuditArchive).
+ *   DOCX: docx npm package, in-Function generation. Structured variants
+ *        (body_doc) map each block to a Word style — Title, Subtitle,
+ *        Heading 3, Quote, Caption … — and data tables to Word tables;
+ *        plain-text variants are one paragraph per blank-line block.
  *
  * Size caps:
  *   - Each attachment ≤ 5 MB.
@@ -27,16 +34,20 @@ import {
   Packer,
   Paragraph,
   ShadingType,
+  Table,
+  TableCell,
+  TableRow,
   TextRun,
+  WidthType,
 } from 'docx';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { DocMeta, PdfOptions } from './doc-rendering.ts';
-import {
-  buildPdfConvertBody,
-  DRAFT_BANNER_TEXT,
-  buildPdfFooterText,
-} from './doc-rendering.ts';
+import { DRAFT_BANNER_TEXT, buildPdfFooterText } from './doc-rendering.ts';
+import { type PdfRenderer, selectPdfRenderer } from './pdf-renderer.ts';
+import { AUDIT_ARCHIVE_BUCKET, sha256HexBytes } from './audit-report-pdf.ts';
+import type { DocumentBlock, VariantDocument } from './variant-document.ts';
 
-export type AttachmentWhich = 'pdf' | 'docx';
+export type AttachmentWhich = 'pdf' | 'docx' | 'archive';
 
 export class AttachmentError extends Error {
   constructor(public which: AttachmentWhich, message: string) {
@@ -62,28 +73,23 @@ export function sanitizeFilename(name: string): string {
     .slice(0, 80) || 'attachment';
 }
 
+// `renderer` defaults to the engine PDF_RENDERER selects (pdf-renderer.ts).
 export async function generatePdf(
   html: string,
   filename: string,
   opts: PdfOptions = {},
+  renderer?: PdfRenderer,
 ): Promise<Attachment> {
-  const apiKey = normalizeSecret(Deno.env.get('PDFSHIFT_API_KEY'));
-  if (!apiKey) {
-    throw new AttachmentError('pdf', 'PDFSHIFT_API_KEY not set');
-  }
-  const res = await fetch('https://api.pdfshift.io/v3/convert/pdf', {
-    method: 'POST',
-    headers: {
-      'X-API-Key': apiKey,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(buildPdfConvertBody(html, opts)),
-  });
-  if (!res.ok) {
-    const errText = await res.text();
-    throw new AttachmentError('pdf', `pdfshift ${res.status}: ${errText}`);
+  let buf: Uint8Array;
+  try {
+    const engine = renderer ?? selectPdfRenderer((name) => Deno.env.get(name));
+    buf = await engine.render(html, opts);
+  } catch (err) {
+    throw new AttachmentError(
+      'pdf',
+      err instanceof Error ? err.message : String(err),
+    );
   }
-  const buf = new Uint8Array(await res.arrayBuffer());
   if (buf.byteLength > MAX_SINGLE_BYTES) {
     throw new AttachmentError(
       'pdf',
@@ -98,10 +104,203 @@ export async function generatePdf(
   };
 }
 
+// The archival PDF of the delivery's audit report, as frozen into
+// delivery_snapshot.audit_archive by create_delivery (migration 0028).
+// Downloaded from the private audit-archives bucket and re-hashed: a stored
+// object that no longer matches the recorded SHA-256 is never sent.
+export async function loadAuditArchive(
+  supabase: SupabaseClient,
+  archive: { storage_path: string; sha256: string },
+  filename: string,
+): Promise<Attachment> {
+  const { data, error } = await supabase.storage
+    .from(AUDIT_ARCHIVE_BUCKET)
+    .download(archive.storage_path);
+  if (error || !data) {
+    throw new AttachmentError(
+      'archive',
+      `archive download failed: ${error?.message ?? 'no data'}`,
+    );
+  }
+  const buf = new Uint8Array(await data.arrayBuffer());
+  const digest = await sha256HexBytes(buf);
+  if (digest !== archive.sha256) {
+    throw new AttachmentError(
+      'archive',
+      `archive sha256 mismatch: expected ${archive.sha256}, got ${digest}`,
+    );
+  }
+  if (buf.byteLength > MAX_SINGLE_BYTES) {
+    throw new AttachmentError(
+      'archive',
+      `archive size ${buf.byteLength} exceeds ${MAX_SINGLE_BYTES}`,
+    );
+  }
+  return {
+    filename: sanitizeFilename(filename),
+    contentType: 'application/pdf',
+    content: bufToBase64(buf),
+    size_bytes: buf.byteLength,
+  };
+}
+
 export interface VariantBlock {
   variant_label: string;
   variant_index: number;
   body_text: string;
+  body_doc?: VariantDocument | null;
+}
+
+// Paragraph styles for the document blocks Word has no built-in style
+// for. Title and the headings use Word's own (HeadingLevel).
+const DOCUMENT_STYLES = [
+  {
+    id: 'Subtitle',
+    name: 'Subtitle',
+    basedOn: 'Normal',
+    next: 'Normal',
+    quickFormat: true,
+    run: { size: 28, color: '374151' },
+  },
+  {
+    id: 'Dateline',
+    name: 'Dateline',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { size: 18, color: '6B7280' },
+  },
+  {
+    id: 'Lead',
+    name: 'Lead',
+    basedOn: 'Normal',
+    next: 'Normal',
+    quickFormat: true,
+    run: { bold: true },
+  },
+  {
+    id: 'Quote',
+    name: 'Quote',
+    basedOn: 'Normal',
+    next: 'Normal',
+    quickFormat: true,
+    run: { italics: true },
+    paragraph: { indent: { left: 720 } },
+  },
+  {
+    id: 'QuoteAttribution',
+    name: 'Quote Attribution',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { size: 18, color: '6B7280' },
+    paragraph: { alignment: AlignmentType.RIGHT },
+  },
+  {
+    id: 'Caption',
+    name: 'Caption',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { size: 18, color: '6B7280' },
+  },
+  {
+    id: 'Boilerplate',
+    name: 'Boilerplate',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { size: 18 },
+  },
+  {
+    id: 'Contact',
+    name: 'Contact',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { size: 18 },
+    paragraph: { spacing: { before: 240 } },
+  },
+];
+
+// A run per line, with Word line breaks between them.
+function lineRuns(text: string, bold = false): TextRun[] {
+  return text
+    .split('\n')
+    .map((line, i) =>
+      new TextRun({ text: line, bold, break: i > 0 ? 1 : undefined })
+    );
+}
+
+function styled(style: string, text: string): Paragraph {
+  return new Paragraph({ style, children: lineRuns(text) });
+}
+
+function blockChildren(b: DocumentBlock): (Paragraph | Table)[] {
+  switch (b.type) {
+    case 'title':
+      return [
+        new Paragraph({
+          heading: HeadingLevel.TITLE,
+          children: lineRuns(b.text),
+        }),
+      ];
+    case 'subtitle':
+      return [styled('Subtitle', b.text)];
+    case 'dateline':
+      return [styled('Dateline', b.text)];
+    case 'lead':
+      return [styled('Lead', b.text)];
+    case 'heading':
+      return [
+        new Paragraph({
+          heading: HeadingLevel.HEADING_3,
+          children: lineRuns(b.text),
+        }),
+      ];
+    case 'paragraph':
+      return [new Paragraph({ children: lineRuns(b.text) })];
+    case 'quote':
+      return [
+        styled('Quote', `「${b.text}」`),
+        ...(b.attribution
+          ? [styled('QuoteAttribution', `— ${b.attribution}`)]
+          : []),
+      ];
+    case 'table': {
+      const row = (cells: string[], header: boolean) =>
+        new TableRow({
+          tableHeader: header,
+          children: cells.map((c) =>
+            new TableCell({
+              shading: header
+                ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' }
+                : undefined,
+              children: [new Paragraph({ children: lineRuns(c, header) })],
+            })
+          ),
+        });
+      return [
+        ...(b.caption ? [styled('Caption', b.caption)] : []),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            ...(b.header.length > 0 ? [row(b.header, true)] : []),
+            ...b.rows.map((r) => row(r, false)),
+          ],
+        }),
+      ];
+    }
+    case 'boilerplate':
+      return [
+        ...(b.heading
+          ? [
+            new Paragraph({
+              heading: HeadingLevel.HEADING_3,
+              children: lineRuns(b.heading),
+            }),
+          ]
+          : []),
+        ...b.text.split(/\n\n+/).map((p) => styled('Boilerplate', p)),
+      ];
+    case 'contact':
+      return [styled('Contact', b.text)];
+  }
 }
 
 export async function generateDocx(
@@ -115,9 +314,11 @@ export async function generateDocx(
       text: `Variant ${b.variant_index} — ${b.variant_label}`,
       heading: HeadingLevel.HEADING_2,
     }),
-    ...b.body_text.split(/\n\n+/).map(
-      (p) => new Paragraph({ children: [new TextRun(p)] }),
-    ),
+    ...(b.body_doc
+      ? b.body_doc.blocks.flatMap(blockChildren)
+      : b.body_text.split(/\n\n+/).map(
+        (p) => new Paragraph({ children: [new TextRun(p)] }),
+      )),
   ]);
   const headerParagraph = new Paragraph({
     alignment: AlignmentType.CENTER,
@@ -146,6 +347,7 @@ export async function generateDocx(
     ],
   });
   const doc = new Document({
+    styles: { paragraphStyles: DOCUMENT_STYLES },
     sections: [{
       headers: { default: new Header({ children: [headerParagraph] }) },
       footers: { default: new Footer({ children: [footerParagraph] }) },
@@ -192,7 +394,3 @@ function bufToBase64(buf: Uint8Array): string {
   for (let i = 0; i < buf.length; i++) bin += String.fromCharCode(buf[i]);
   return btoa(bin);
 }
-
-function normalizeSecret(value: string | undefined): string | undefined {
-  return value?.trim().replace(/^['"]|['"]$/g, '');
-}
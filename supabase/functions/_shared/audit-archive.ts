@@ -0,0 +1,124 @@
+/**
+ * Renders a finalized audit report to its archival PDF, stores it in the
+ * private audit-archives bucket and records its SHA-256 on the report.
+ *
+ * Called by sign-audit-report right after the last signature finalizes a
+ * report, and by archive-audit-report to retry or backfill. Recording goes
+ * through record_audit_report_archive (migration 0028), which writes the
+ * report_archived audit event in the same transaction and only ever
+ * records one archive per report: a concurrent second run leaves its
+ * object orphaned in the bucket and gets the first run's record back.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PdfRenderer } from './pdf-renderer.ts';
+import {
+  AUDIT_ARCHIVE_BUCKET,
+  type AuditArchiveReport,
+  auditArchivePath,
+  buildAuditReportHtml,
+  buildAuditReportPdfOptions,
+  sha256HexBytes,
+} from './audit-report-pdf.ts';
+
+export interface AuditArchiveRecord {
+  archive_path: string;
+  archive_sha256: string;
+  archive_renderer: string;
+  archive_size_bytes: number;
+  archived_at: string;
+}
+
+const REPORT_COLUMNS =
+  'id, project_id, report_id_display, version, status, finalized_at, previous_version_id, reviewer_comments, signoff_roles, report_snapshot, archive_path, archive_sha256, archive_renderer, archive_size_bytes, archived_at';
+
+export async function archiveAuditReport(
+  supabase: SupabaseClient,
+  auditReportId: string,
+  renderer: PdfRenderer,
+): Promise<AuditArchiveRecord> {
+  const { data: report, error: reportError } = await supabase
+    .from('audit_reports')
+    .select(REPORT_COLUMNS)
+    .eq('id', auditReportId)
+    .single();
+  if (reportError || !report) {
+    throw new Error(
+      `Report lookup failed: ${reportError?.message ?? 'no row'}`,
+    );
+  }
+  if (report.archive_path) return report as AuditArchiveRecord;
+  if (report.status !== 'finalized' && report.status !== 'revised') {
+    throw new Error('report_not_finalized');
+  }
+
+  const { data: signatures, error: sigError } = await supabase
+    .from('audit_signatures')
+    .select(
+      'signoff_role, signer_name_snapshot, signer_role_snapshot, signed_at, algorithm, key_id, signature_hash, invalidated_at, invalidated_reason',
+    )
+    .eq('audit_report_id', auditReportId)
+    .order('signed_at', { ascending: true });
+  if (sigError) {
+    throw new Error(`Signature lookup failed: ${sigError.message}`);
+  }
+
+  const { data: auditTrail, error: trailError } = await supabase
+    .from('audit_trail_events')
+    .select(
+      'chain_seq, occurred_at, event_type, actor_type, actor_name_snapshot, model_used, event_hash',
+    )
+    .eq('project_id', report.project_id)
+    .order('chain_seq', { ascending: true });
+  if (trailError) {
+    throw new Error(`Audit trail lookup failed: ${trailError.message}`);
+  }
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('name, client:clients(name)')
+    .eq('id', report.project_id)
+    .single();
+  if (projectError || !project) {
+    throw new Error(
+      `Project lookup failed: ${projectError?.message ?? 'no row'}`,
+    );
+  }
+  const client = project.client as { name: string } | null;
+
+  const archiveReport = report as AuditArchiveReport;
+  const html = buildAuditReportHtml({
+    project: { name: project.name, client_name: client?.name ?? null },
+    report: archiveReport,
+    signatures: signatures ?? [],
+    auditTrail: auditTrail ?? [],
+  });
+  const pdf = await renderer.render(
+    html,
+    buildAuditReportPdfOptions(archiveReport),
+  );
+  const sha256 = await sha256HexBytes(pdf);
+  const path = auditArchivePath(archiveReport, sha256);
+
+  const { error: uploadError } = await supabase.storage
+    .from(AUDIT_ARCHIVE_BUCKET)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: false });
+  if (uploadError) {
+    throw new Error(`Archive upload failed: ${uploadError.message}`);
+  }
+
+  const { data: recorded, error: recordError } = await supabase
+    .rpc('record_audit_report_archive', {
+      p_audit_report_id: auditReportId,
+      p_archive_path: path,
+      p_archive_sha256: sha256,
+      p_archive_renderer: renderer.name,
+      p_archive_size_bytes: pdf.byteLength,
+    })
+    .single();
+  if (recordError || !recorded) {
+    throw new Error(
+      `Archive record failed: ${recordError?.message ?? 'no row'}`,
+    );
+  }
+  return recorded as AuditArchiveRecord;
+}
@@ -0,0 +1,74 @@
+/**
+ * Bilingual labels for audit_trail_events.event_type, as the app shows
+ * them. Server-rendered documents (the audit trail export) use the same
+ * wording as the timeline.
+ *
+ * Drift-guarded against src/lib/audit-events-display.ts via vitest in
+ * audit-event-labels.drift.test.ts.
+ */
+export interface BilingualText {
+  ja: string;
+  en: string;
+}
+
+// drift:start AUDIT_EVENT_LABELS
+export const EVENT_TYPE_LABEL: Record<string, BilingualText> = {
+  variant_generated: { ja: "変種生成", en: "Variant generated" },
+  variant_approved: { ja: "変種承認", en: "Variant approved" },
+  compliance_checked: {
+    ja: "コンプライアンスチェック",
+    en: "Compliance checked",
+  },
+  compliance_rechecked: {
+    ja: "コンプライアンス再チェック",
+    en: "Compliance re-checked",
+  },
+  manual_review_started: { ja: "手動レビュー開始", en: "Manual review started" },
+  fix_applied: { ja: "修正適用", en: "Fix applied" },
+  acknowledge_finding: {
+    ja: "指摘事項を確認済みに",
+    en: "Finding acknowledged",
+  },
+  manual_finding_added: { ja: "手動指摘の追加", en: "Manual finding added" },
+  audit_report_created: { ja: "監査レポート作成", en: "Audit report created" },
+  audit_revision_started: {
+    ja: "監査レポート改訂開始",
+    en: "Audit revision started",
+  },
+  sign_off: { ja: "署名", en: "Sign off" },
+  signatures_invalidated: {
+    ja: "署名の無効化",
+    en: "Signatures invalidated",
+  },
+  report_archived: {
+    ja: "アーカイブPDF保存",
+    en: "Archival PDF stored",
+  },
+  audit_trail_exported: {
+    ja: "監査トレイルのエクスポート",
+    en: "Audit trail exported",
+  },
+  delivery_sent: { ja: "配信送信", en: "Delivery sent" },
+  delivery_rescheduled: { ja: "配信予約の変更", en: "Delivery rescheduled" },
+  delivery_cancelled: { ja: "配信の取り消し", en: "Delivery cancelled" },
+  delivery_retried: { ja: "配信の再送", en: "Delivery retried" },
+  scheduling_rules_updated: {
+    ja: "配信ルール（エンバーゴ・市場時間）の更新",
+    en: "Scheduling rules updated",
+  },
+  feedback_reminder_sent: {
+    ja: "フィードバック催促送信",
+    en: "Feedback reminder sent",
+  },
+  feedback_expired: {
+    ja: "フィードバック期限切れ",
+    en: "Feedback link expired",
+  },
+  feedback_received: { ja: "フィードバック受信", en: "Feedback received" },
+  voice_updated: { ja: "ボイス更新", en: "Voice profile updated" },
+};
+// drift:end AUDIT_EVENT_LABELS
+
+export function getEventTypeLabel(eventType: string): BilingualText {
+  return EVENT_TYPE_LABEL[eventType] ?? { ja: eventType, en: eventType };
+}
@@ -24,7 +24,9 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 /**
  * `feedback_received` and `voice_updated` are emitted from PL/pgSQL RPCs
  * (`submit_feedback`, `append_voice_guidelines_from_feedback`) in migration
- * 0009, not via `recordAuditEvent`. The enum is widened here so any future
+ * 0009, and `feedback_reminder_sent` / `feedback_expired` from
+ * `mark_feedback_reminder_sent` / `expire_feedback_token` in 0018 — none via
+ * `recordAuditEvent`. The enum is widened here so any future
  * Edge Function caller — and any audit-trail consumer importing this type —
  * stays type-safe across the full Phase 6 event surface.
  */
@@ -33,6 +35,8 @@ export type ServerAuditEventType =
   | 'compliance_checked'
   | 'compliance_rechecked'
   | 'feedback_received'
+  | 'feedback_reminder_sent'
+  | 'feedback_expired'
   | 'voice_updated';
 
 export interface RecordAuditEventInput {
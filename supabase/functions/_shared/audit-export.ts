@@ -0,0 +1,391 @@
+/**
+ * Audit trail export: the request contract of export-audit-trail and the
+ * three file formats it produces.
+ *
+ *   csv    RFC 4180, CRLF line ends, UTF-8 with a BOM so Excel opens the
+ *          Japanese columns correctly.
+ *   jsonl  One JSON object per event; `details` kept as an object.
+ *   pdf    Bilingual table for reading, not re-import. Handed to the
+ *          PdfRenderer like the archival report (audit-report-pdf.ts).
+ *
+ * Every format carries the same flattened row (AuditExportRow): the
+ * fields a reviewer asks about first — exact model_used, prompt and rule
+ * set versions, signature hash and key — are lifted out of `details` into
+ * their own columns, and the hash chain columns (migration 0027) are kept
+ * so the file can be checked against the live trail.
+ *
+ * Pure string rendering (no Deno globals), so the vitest suite exercises
+ * it directly.
+ */
+import { z } from 'zod';
+import { escapeHtml, type PdfOptions } from './doc-rendering.ts';
+import { getEventTypeLabel } from './audit-event-labels.ts';
+import { formatJstDateTime } from './audit-report-pdf.ts';
+
+export const AUDIT_EXPORT_FORMATS = ['csv', 'jsonl', 'pdf'] as const;
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+// One request, one file: past this the caller narrows the filters. The
+// PDF cap is lower because every row is laid out by the renderer.
+export const AUDIT_EXPORT_MAX_EVENTS: Record<AuditExportFormat, number> = {
+  csv: 50000,
+  jsonl: 50000,
+  pdf: 5000,
+};
+
+export const AuditExportRequestSchema = z
+  .object({
+    format: z.enum(AUDIT_EXPORT_FORMATS),
+    client_id: z.string().uuid().optional(),
+    project_ids: z.array(z.string().uuid()).min(1).max(200).optional(),
+    // Half-open range [from, to).
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    event_types: z.array(z.string().min(1)).min(1).max(50).optional(),
+    actor_type: z.enum(['user', 'system']).optional(),
+    actor_id: z.string().uuid().optional(),
+  })
+  .refine(
+    (v) => !v.from || !v.to || Date.parse(v.from) < Date.parse(v.to),
+    { message: 'from must be before to', path: ['to'] },
+  );
+
+export type AuditExportRequest = z.infer<typeof AuditExportRequestSchema>;
+export type AuditExportFilters = Omit<AuditExportRequest, 'format'>;
+
+// Row as selected by export-audit-trail: the event plus its project and
+// client names.
+export interface AuditExportSourceEvent {
+  id: string;
+  project_id: string;
+  audit_report_id: string | null;
+  chain_seq: number;
+  occurred_at: string;
+  event_type: string;
+  actor_type: string;
+  actor_id: string | null;
+  actor_name_snapshot: string | null;
+  model_used: string | null;
+  details: unknown;
+  event_hash: string;
+  prev_hash: string | null;
+  project: {
+    name: string;
+    client: { id: string; name: string } | null;
+  } | null;
+}
+
+export interface AuditExportRow {
+  occurred_at: string;
+  client_id: string | null;
+  client_name: string | null;
+  project_id: string;
+  project_name: string | null;
+  chain_seq: number;
+  event_id: string;
+  event_type: string;
+  event_label_ja: string;
+  event_label_en: string;
+  actor_type: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  audit_report_id: string | null;
+  model_used: string | null;
+  prompt_version: string | null;
+  rule_set_version: string | null;
+  signature_hash: string | null;
+  signature_key_id: string | null;
+  event_hash: string;
+  prev_hash: string | null;
+  details: unknown;
+}
+
+// CSV column order; JSON Lines uses the same key order.
+export const AUDIT_EXPORT_COLUMNS: readonly (keyof AuditExportRow)[] = [
+  'occurred_at',
+  'client_id',
+  'client_name',
+  'project_id',
+  'project_name',
+  'chain_seq',
+  'event_id',
+  'event_type',
+  'event_label_ja',
+  'event_label_en',
+  'actor_type',
+  'actor_id',
+  'actor_name',
+  'audit_report_id',
+  'model_used',
+  'prompt_version',
+  'rule_set_version',
+  'signature_hash',
+  'signature_key_id',
+  'event_hash',
+  'prev_hash',
+  'details',
+];
+
+function detailString(details: unknown, key: string): string | null {
+  if (details === null || typeof details !== 'object') return null;
+  const value = (details as Record<string, unknown>)[key];
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+export function toAuditExportRow(e: AuditExportSourceEvent): AuditExportRow {
+  const label = getEventTypeLabel(e.event_type);
+  return {
+    occurred_at: e.occurred_at,
+    client_id: e.project?.client?.id ?? null,
+    client_name: e.project?.client?.name ?? null,
+    project_id: e.project_id,
+    project_name: e.project?.name ?? null,
+    chain_seq: e.chain_seq,
+    event_id: e.id,
+    event_type: e.event_type,
+    event_label_ja: label.ja,
+    event_label_en: label.en,
+    actor_type: e.actor_type,
+    actor_id: e.actor_id,
+    actor_name: e.actor_name_snapshot,
+    audit_report_id: e.audit_report_id,
+    // The column is authoritative; older events only have it in details.
+    model_used: e.model_used ?? detailString(e.details, 'model_used'),
+    prompt_version: detailString(e.details, 'prompt_version'),
+    rule_set_version: detailString(e.details, 'rule_set_version'),
+    signature_hash: detailString(e.details, 'signature_hash'),
+    signature_key_id: detailString(e.details, 'key_id'),
+    event_hash: e.event_hash,
+    prev_hash: e.prev_hash,
+    details: e.details ?? {},
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildAuditExportCsv(rows: AuditExportRow[]): string {
+  const lines = [AUDIT_EXPORT_COLUMNS.join(',')];
+  for (const r of rows) {
+    lines.push(AUDIT_EXPORT_COLUMNS.map((c) => csvCell(r[c])).join(','));
+  }
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export function buildAuditExportJsonl(rows: AuditExportRow[]): string {
+  return rows
+    .map((r) => {
+      const ordered: Record<string, unknown> = {};
+      for (const c of AUDIT_EXPORT_COLUMNS) ordered[c] = r[c];
+      return JSON.stringify(ordered) + '\n';
+    })
+    .join('');
+}
+
+// Names resolved by the caller so the PDF cover shows what was asked for,
+// not bare IDs.
+export interface AuditExportContext {
+  generated_at: string;
+  generated_by: string | null;
+  client_name: string | null;
+  actor_name: string | null;
+  project_names: string[];
+  filters: AuditExportFilters;
+}
+
+export function describeAuditExportFilters(
+  ctx: AuditExportContext,
+): [string, string][] {
+  const f = ctx.filters;
+  const all = 'すべて / All';
+  const range = f.from || f.to
+    ? `${f.from ? formatJstDateTime(f.from) : '…'} – ${
+      f.to ? formatJstDateTime(f.to) : '…'
+    }`
+    : all;
+  const actor = f.actor_id
+    ? ctx.actor_name ?? f.actor_id
+    : f.actor_type === 'system'
+    ? 'システム / System'
+    : f.actor_type === 'user'
+    ? 'ユーザー / Users'
+    : all;
+  return [
+    ['クライアント / Client', ctx.client_name ?? (f.client_id ?? all)],
+    [
+      'プロジェクト / Projects',
+      ctx.project_names.length > 0 ? ctx.project_names.join(', ') : all,
+    ],
+    ['期間 / Period', range],
+    [
+      'イベント種別 / Event types',
+      f.event_types
+        ? f.event_types
+          .map((t) => {
+            const l = getEventTypeLabel(t);
+            return `${l.ja} / ${l.en}`;
+          })
+          .join(', ')
+        : all,
+    ],
+    ['実行者 / Actor', actor],
+  ];
+}
+
+function row(cells: string[]): string {
+  return `<tr>${cells.map((c) => `<td>${c}</td>`).join('')}</tr>`;
+}
+
+function renderEventRow(r: AuditExportRow): string {
+  const trace = [
+    r.model_used ? `model: ${escapeHtml(r.model_used)}` : '',
+    r.prompt_version ? `prompt: ${escapeHtml(r.prompt_version)}` : '',
+    r.rule_set_version ? `rules: ${escapeHtml(r.rule_set_version)}` : '',
+    r.signature_hash
+      ? `sig: <span class="hash">${escapeHtml(r.signature_hash)}</span>`
+        + (r.signature_key_id ? ` (${escapeHtml(r.signature_key_id)})` : '')
+      : '',
+  ].filter(Boolean);
+  return row([
+    escapeHtml(formatJstDateTime(r.occurred_at)),
+    escapeHtml(r.project_name ?? r.project_id)
+    + (r.client_name ? `<br><span class="meta">${escapeHtml(r.client_name)}</span>` : ''),
+    `${escapeHtml(r.event_label_ja)}<br><span class="meta">${
+      escapeHtml(r.event_label_en)
+    }</span>`,
+    escapeHtml(
+      r.actor_type === 'system' || !r.actor_name
+        ? 'システム / System'
+        : r.actor_name,
+    ),
+    trace.length > 0 ? trace.join('<br>') : '—',
+    `#${r.chain_seq}<br><span class="hash">${escapeHtml(r.event_hash)}</span>`,
+  ]);
+}
+
+export function buildAuditExportHtml(
+  rows: AuditExportRow[],
+  ctx: AuditExportContext,
+): string {
+  const meta: [string, string][] = [
+    ['作成日時 / Generated at', formatJstDateTime(ctx.generated_at)],
+    ['作成者 / Generated by', ctx.generated_by ?? '—'],
+    ...describeAuditExportFilters(ctx),
+    ['件数 / Events', String(rows.length)],
+  ];
+
+  // Same font stack + overflow-wrap rationale as doc-rendering.ts. The
+  // header row repeats across page breaks; rows never split.
+  const style = `
+    body {
+      font-family: 'Hiragino Kaku Gothic ProN', 'Yu Gothic', 'Meiryo', sans-serif;
+      font-size: 9px;
+      line-height: 1.5;
+      color: #111827;
+      overflow-wrap: anywhere;
+    }
+    h1 { font-size: 18px; margin: 0 0 8px; }
+    .kicker { font-size: 10px; color: #6b7280; letter-spacing: 0.5px; }
+    .meta { color: #6b7280; font-size: 8px; }
+    .hash { font-family: monospace; font-size: 7px; word-break: break-all; }
+    dl {
+      display: grid;
+      grid-template-columns: max-content 1fr;
+      gap: 2px 16px;
+      font-size: 10px;
+      margin-bottom: 16px;
+    }
+    dt { color: #6b7280; }
+    dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+    th, td {
+      border: 1px solid #e5e7eb;
+      padding: 3px 4px;
+      text-align: left;
+      vertical-align: top;
+    }
+    th { background: #f3f4f6; font-weight: 600; }
+  `;
+
+  const headers = [
+    '日時 / When',
+    'プロジェクト / Project',
+    'イベント / Event',
+    '実行者 / Actor',
+    'モデル・署名 / Model & signature',
+    'チェーン / Chain',
+  ];
+
+  return [
+    '<!doctype html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>監査トレイル / Audit trail</title>',
+    `<style>${style}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    '<p class="kicker">監査トレイル エクスポート / AUDIT TRAIL EXPORT</p>',
+    '<h1>監査トレイル / Audit trail</h1>',
+    '<dl>',
+    meta
+      .map(([k, v]) => `<dt>${escapeHtml(k)}</dt><dd>${escapeHtml(v)}</dd>`)
+      .join(''),
+    '</dl>',
+    '</header>',
+    rows.length === 0
+      ? '<p class="meta">イベントなし / No events</p>'
+      : `<table><thead><tr>${
+        headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('')
+      }</tr></thead><tbody>${rows.map(renderEventRow).join('')}</tbody></table>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+const PDF_FONT_STACK =
+  "'Hiragino Kaku Gothic ProN','Yu Gothic','Meiryo',sans-serif";
+
+export function buildAuditExportPdfOptions(ctx: AuditExportContext): PdfOptions {
+  return {
+    format: 'A4',
+    footer: {
+      source: `<div style="font-family:${PDF_FONT_STACK};`
+        + `width:100%;color:#6b7280;text-align:center;font-size:9px;">`
+        + `監査トレイル / Audit trail · ${
+          escapeHtml(formatJstDateTime(ctx.generated_at))
+        }`
+        + ` · {{page}} / {{total}}</div>`,
+      height: '32',
+    },
+    margin: { top: '32', right: '28', bottom: '56', left: '28' },
+  };
+}
+
+export const AUDIT_EXPORT_MIME: Record<AuditExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  jsonl: 'application/x-ndjson',
+  pdf: 'application/pdf',
+};
+
+// audit-trail_20260512-1430.csv — JST, like every other timestamp in the
+// export.
+export function auditExportFilename(
+  format: AuditExportFormat,
+  generatedAt: string,
+): string {
+  const jst = new Date(Date.parse(generatedAt) + 9 * 60 * 60 * 1000)
+    .toISOString();
+  const stamp = `${jst.slice(0, 10).replace(/-/g, '')}-${
+    jst.slice(11, 16).replace(':', '')
+  }`;
+  return `audit-trail_${stamp}.${format}`;
+}
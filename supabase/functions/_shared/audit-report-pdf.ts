@@ -0,0 +1,368 @@
+/**
+ * Archival PDF of a finalized audit report: the HTML handed to the
+ * PdfRenderer, plus the storage naming and hashing the archive relies on.
+ *
+ * Same approach as doc-rendering.ts — a self-contained HTML document for
+ * the body, and native renderer header/footer options so the report ID
+ * repeats on every page. Content comes only from the immutable record:
+ * report_snapshot, the report's signatures (invalidated ones included, as
+ * the print page shows them) and the project's audit trail with its hash
+ * chain columns (migration 0027). Nothing is read from live variant rows.
+ *
+ * Pure string rendering (no Deno globals, no 'docx'), so the vitest suite
+ * exercises it directly.
+ */
+import { escapeHtml, formatJstDate, type PdfOptions } from './doc-rendering.ts';
+
+export const AUDIT_ARCHIVE_BUCKET = 'audit-archives';
+
+// Mirror of src/types/audit-snapshot.ts, narrowed to what the PDF prints.
+interface ArchiveSnapshotFinding {
+  severity: string;
+  source_text: string;
+  explanation: string;
+  regulation_reference: string;
+  suggested_correction: string | null;
+  resolution_status: string;
+  resolved_by: { id: string; name: string | null } | null;
+}
+
+interface ArchiveSnapshotVariant {
+  id: string;
+  variant_label: string;
+  variant_index: number;
+  body_text: string;
+  char_count: number;
+  model_used: string;
+  internal_approved_by: { id: string; name: string | null } | null;
+  internal_approved_at: string | null;
+  findings: ArchiveSnapshotFinding[];
+}
+
+export interface AuditArchiveReport {
+  id: string;
+  project_id: string;
+  report_id_display: string;
+  version: string | null;
+  status: string;
+  finalized_at: string | null;
+  previous_version_id: string | null;
+  reviewer_comments: string | null;
+  signoff_roles: string[] | null;
+  report_snapshot: unknown;
+}
+
+export interface AuditArchiveSignature {
+  signoff_role: string;
+  signer_name_snapshot: string;
+  signer_role_snapshot: string;
+  signed_at: string;
+  algorithm: string;
+  key_id: string | null;
+  signature_hash: string;
+  invalidated_at: string | null;
+  invalidated_reason: string | null;
+}
+
+export interface AuditArchiveEvent {
+  chain_seq: number;
+  occurred_at: string;
+  event_type: string;
+  actor_type: string;
+  actor_name_snapshot: string | null;
+  model_used: string | null;
+  event_hash: string;
+}
+
+export interface AuditArchiveInput {
+  project: { name: string; client_name: string | null };
+  report: AuditArchiveReport;
+  signatures: AuditArchiveSignature[];
+  auditTrail: AuditArchiveEvent[];
+}
+
+const SIGNOFF_ROLE_LABEL: Record<string, string> = {
+  reviewer: 'レビュー担当 / PR reviewer',
+  compliance_officer: 'コンプライアンス担当 / Compliance officer',
+  legal_counsel: '法務担当 / Legal counsel',
+};
+
+const SEVERITY_LABEL: Record<string, string> = {
+  blocker: '阻止 / Blocker',
+  warning: '警告 / Warning',
+  note: '注記 / Note',
+};
+
+// "YYYY-MM-DD HH:MM JST" — archival copies must not depend on the reader's
+// locale or time zone.
+export function formatJstDateTime(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return '';
+  const jst = new Date(d.getTime() + 9 * 60 * 60 * 1000).toISOString();
+  return `${jst.slice(0, 10)} ${jst.slice(11, 16)} JST`;
+}
+
+function snapshotVariants(snapshot: unknown): ArchiveSnapshotVariant[] {
+  const variants = (snapshot as { variants?: unknown } | null)?.variants;
+  if (!Array.isArray(variants)) return [];
+  return (variants as ArchiveSnapshotVariant[])
+    .slice()
+    .sort((a, b) => a.variant_index - b.variant_index);
+}
+
+function row(cells: string[]): string {
+  return `<tr>${cells.map((c) => `<td>${c}</td>`).join('')}</tr>`;
+}
+
+function table(headers: string[], rows: string[]): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function renderVariant(v: ArchiveSnapshotVariant): string {
+  const approval = v.internal_approved_by
+    ? `<p class="meta">承認者 / Approved by: ${
+      escapeHtml(v.internal_approved_by.name ?? v.internal_approved_by.id)
+    }${
+      v.internal_approved_at
+        ? ` · ${escapeHtml(formatJstDateTime(v.internal_approved_at))}`
+        : ''
+    }</p>`
+    : '';
+  const findings = v.findings.length === 0
+    ? '<p class="meta">指摘なし / No findings</p>'
+    : table(
+      ['重要度 / Severity', '該当箇所 / Text', '説明 / Explanation', '根拠 / Reference', '状態 / Status'],
+      v.findings.map((f) =>
+        row([
+          escapeHtml(SEVERITY_LABEL[f.severity] ?? f.severity),
+          escapeHtml(f.source_text),
+          escapeHtml(f.explanation)
+          + (f.suggested_correction
+            ? `<br><span class="meta">修正案 / Suggested: ${escapeHtml(f.suggested_correction)}</span>`
+            : ''),
+          escapeHtml(f.regulation_reference),
+          escapeHtml(f.resolution_status)
+          + (f.resolved_by
+            ? `<br><span class="meta">${escapeHtml(f.resolved_by.name ?? f.resolved_by.id)}</span>`
+            : ''),
+        ])
+      ),
+    );
+  return [
+    '<section class="variant">',
+    `<h2>案${v.variant_index} · ${escapeHtml(v.variant_label)}</h2>`,
+    `<p class="meta">${v.char_count}字 · ${escapeHtml(v.model_used)}</p>`,
+    approval,
+    `<pre>${escapeHtml(v.body_text)}</pre>`,
+    '<h3>コンプライアンス指摘 / Compliance findings</h3>',
+    findings,
+    '</section>',
+  ].join('\n');
+}
+
+function renderSignatures(signatures: AuditArchiveSignature[]): string {
+  if (signatures.length === 0) {
+    return '<p class="meta">署名なし / No signatures</p>';
+  }
+  return table(
+    ['役割 / Role', '署名者 / Signer', '署名日時 / Signed at', '方式 / Algorithm', '署名 / Signature'],
+    signatures.map((s) =>
+      row([
+        escapeHtml(SIGNOFF_ROLE_LABEL[s.signoff_role] ?? s.signoff_role),
+        `${escapeHtml(s.signer_name_snapshot)}<br><span class="meta">${
+          escapeHtml(s.signer_role_snapshot)
+        }</span>`,
+        escapeHtml(formatJstDateTime(s.signed_at)),
+        escapeHtml(s.algorithm)
+        + (s.key_id ? `<br><span class="meta">${escapeHtml(s.key_id)}</span>` : ''),
+        `<span class="hash">${escapeHtml(s.signature_hash)}</span>`
+        + (s.invalidated_at
+          ? `<br><span class="invalidated">無効 / Invalidated ${
+            escapeHtml(formatJstDateTime(s.invalidated_at))
+          }${s.invalidated_reason ? ` — ${escapeHtml(s.invalidated_reason)}` : ''}</span>`
+          : ''),
+      ])
+    ),
+  );
+}
+
+function renderAuditTrail(events: AuditArchiveEvent[]): string {
+  if (events.length === 0) {
+    return '<p class="meta">イベントなし / No events</p>';
+  }
+  const sorted = events.slice().sort((a, b) => a.chain_seq - b.chain_seq);
+  const head = sorted[sorted.length - 1];
+  return [
+    `<p class="meta">チェーン先頭 / Chain head: #${head.chain_seq} <span class="hash">${
+      escapeHtml(head.event_hash)
+    }</span></p>`,
+    table(
+      ['#', '日時 / When', 'イベント / Event', '実行者 / Actor', 'ハッシュ / Hash'],
+      sorted.map((e) =>
+        row([
+          String(e.chain_seq),
+          escapeHtml(formatJstDateTime(e.occurred_at)),
+          escapeHtml(e.event_type)
+          + (e.model_used ? `<br><span class="meta">${escapeHtml(e.model_used)}</span>` : ''),
+          escapeHtml(
+            e.actor_type === 'system' || !e.actor_name_snapshot
+              ? 'システム / System'
+              : e.actor_name_snapshot,
+          ),
+          `<span class="hash">${escapeHtml(e.event_hash.slice(0, 16))}…</span>`,
+        ])
+      ),
+    ),
+  ].join('\n');
+}
+
+export function buildAuditReportHtml(input: AuditArchiveInput): string {
+  const { project, report } = input;
+  const meta: [string, string][] = [
+    ['レポートID / Report ID', report.report_id_display],
+    ['バージョン / Version', report.version ?? ''],
+    ['ステータス / Status', report.status],
+  ];
+  if (report.finalized_at) {
+    meta.push(['確定日時 / Finalized at', formatJstDateTime(report.finalized_at)]);
+  }
+  if (report.signoff_roles && report.signoff_roles.length > 0) {
+    meta.push([
+      '署名ポリシー / Sign-off policy',
+      report.signoff_roles.map((r) => SIGNOFF_ROLE_LABEL[r] ?? r).join(' → '),
+    ]);
+  }
+  if (report.reviewer_comments) {
+    meta.push(['改訂理由 / Revision reason', report.reviewer_comments]);
+  }
+
+  // Same font stack + overflow-wrap rationale as doc-rendering.ts. Tables
+  // repeat their header row across page breaks; rows never split.
+  const style = `
+    body {
+      font-family: 'Hiragino Kaku Gothic ProN', 'Yu Gothic', 'Meiryo', sans-serif;
+      font-size: 11px;
+      line-height: 1.6;
+      color: #111827;
+      overflow-wrap: anywhere;
+    }
+    h1 { font-size: 20px; margin: 0; }
+    h2 {
+      font-size: 14px;
+      border-bottom: 2px solid #e5e7eb;
+      padding-bottom: 4px;
+    }
+    h3 { font-size: 12px; color: #4b5563; }
+    .kicker { font-size: 10px; color: #6b7280; letter-spacing: 0.5px; }
+    .meta { color: #6b7280; font-size: 10px; margin: 2px 0; }
+    .hash { font-family: monospace; font-size: 9px; word-break: break-all; }
+    .invalidated { color: #b91c1c; font-size: 10px; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; }
+    dt { color: #6b7280; }
+    dd { margin: 0; }
+    section.variant { page-break-before: always; }
+    section.trail { page-break-before: always; }
+    pre {
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+      font-family: inherit;
+      font-size: 12px;
+    }
+    table { width: 100%; border-collapse: collapse; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+    th, td {
+      border: 1px solid #e5e7eb;
+      padding: 4px 6px;
+      text-align: left;
+      vertical-align: top;
+    }
+    th { background: #f3f4f6; font-weight: 600; }
+  `;
+
+  return [
+    '<!doctype html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(report.report_id_display)}</title>`,
+    `<style>${style}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    '<p class="kicker">監査レポート / AUDIT REPORT</p>',
+    `<h1>${escapeHtml(project.name)}</h1>`,
+    project.client_name ? `<p class="meta">${escapeHtml(project.client_name)}</p>` : '',
+    '<dl>',
+    meta
+      .map(([k, v]) => `<dt>${escapeHtml(k)}</dt><dd>${escapeHtml(v)}</dd>`)
+      .join(''),
+    '</dl>',
+    '</header>',
+    '<section class="signatures">',
+    '<h2>署名 / Signatures</h2>',
+    renderSignatures(input.signatures),
+    '</section>',
+    snapshotVariants(report.report_snapshot).map(renderVariant).join('\n'),
+    '<section class="trail">',
+    '<h2>監査トレイル / Audit trail</h2>',
+    renderAuditTrail(input.auditTrail),
+    '</section>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+const PDF_FONT_STACK =
+  "'Hiragino Kaku Gothic ProN','Yu Gothic','Meiryo',sans-serif";
+
+export function buildAuditReportFooterText(report: AuditArchiveReport): string {
+  const finalized = report.finalized_at
+    ? ` · 確定 / Finalized ${formatJstDate(report.finalized_at)}`
+    : '';
+  return `${report.report_id_display} · v${report.version ?? ''}${finalized}`;
+}
+
+// No DRAFT banner: this is the formal record. The footer carries the report
+// ID, version and page counter (pdfshift substitutes {{page}}/{{total}}).
+export function buildAuditReportPdfOptions(
+  report: AuditArchiveReport,
+): PdfOptions {
+  return {
+    format: 'A4',
+    footer: {
+      source: `<div style="font-family:${PDF_FONT_STACK};`
+        + `width:100%;color:#6b7280;text-align:center;font-size:9px;">`
+        + `${escapeHtml(buildAuditReportFooterText(report))}`
+        + ` · {{page}} / {{total}}</div>`,
+      height: '32',
+    },
+    margin: { top: '40', right: '40', bottom: '60', left: '40' },
+  };
+}
+
+// Content-addressed: a concurrent second render lands beside the first
+// instead of overwriting it, and the recorded path always names the bytes
+// that were hashed.
+export function auditArchivePath(
+  report: Pick<AuditArchiveReport, 'project_id' | 'id'>,
+  sha256: string,
+): string {
+  return `${report.project_id}/${report.id}/${sha256}.pdf`;
+}
+
+export function auditArchiveFilename(
+  report: Pick<AuditArchiveReport, 'report_id_display' | 'version'>,
+): string {
+  return `${report.report_id_display}_v${report.version ?? ''}.pdf`;
+}
+
+export async function sha256HexBytes(bytes: Uint8Array): Promise<string> {
+  // Copy into a plain ArrayBuffer-backed view; digest() rejects shared
+  // buffers.
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(bytes));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
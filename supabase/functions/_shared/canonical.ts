@@ -1,6 +1,7 @@
 /**
- * Deterministic JSON canonicalization + HMAC-SHA-256 used by
- * sign-audit-report and verify-audit-signature.
+ * Deterministic JSON canonicalization + the signature primitives used by
+ * sign-audit-report and verify-audit-signature: Ed25519 for new
+ * signatures (migration 0026), HMAC-SHA-256 for legacy ones.
  *
  * Both endpoints MUST produce byte-identical output from canonicalize()
  * for the same value, otherwise the HMAC computed at sign-time won't
@@ -8,7 +9,9 @@
  * appear forged. The drift-guard test in T11 (src/lib/canonical-payload
  * mirror + .sync.test.ts) compares this file's function bodies to the
  * TS mirror via the `drift:start CANONICALIZE` / `drift:end CANONICALIZE`
- * sentinels.
+ * sentinels. ED25519_VERIFY is mirrored the same way: the browser checks
+ * signatures with the published public key, so it must verify exactly
+ * what this file signs.
  */
 
 // drift:start CANONICALIZE
@@ -48,7 +51,66 @@ export async function hmacSha256Hex(
     key,
     encoder.encode(message),
   );
-  return Array.from(new Uint8Array(signature))
+  return bytesToHex(signature);
+}
+
+// `privateJwk` is the AUDIT_SIGNING_PRIVATE_JWK secret (an OKP/Ed25519 JWK
+// with "d" and "x"). Returns the 64-byte signature, hex-encoded.
+export async function signEd25519Hex(
+  privateJwk: JsonWebKey,
+  message: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    privateJwk,
+    { name: "Ed25519" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    { name: "Ed25519" },
+    key,
+    new TextEncoder().encode(message),
+  );
+  return bytesToHex(signature);
+}
+
+function bytesToHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 }
+
+// drift:start ED25519_VERIFY
+// `publicKey` is the base64url raw key published in audit_signing_keys.
+export async function verifyEd25519Hex(
+  publicKey: string,
+  message: string,
+  signatureHex: string,
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    { kty: "OKP", crv: "Ed25519", x: publicKey },
+    { name: "Ed25519" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify(
+    { name: "Ed25519" },
+    key,
+    hexToBytes(signatureHex),
+    new TextEncoder().encode(message),
+  );
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error("Signature is not a hex string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+// drift:end ED25519_VERIFY
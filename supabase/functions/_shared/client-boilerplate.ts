@@ -0,0 +1,137 @@
+/**
+ * A client's managed boilerplate — the approved company "about" paragraph,
+ * media contact, disclaimers and forward-looking-statement text, kept per
+ * client in client_boilerplate_blocks (migration 0031) with every edit a
+ * new version in client_boilerplate_versions.
+ *
+ * generate-variants appends the blocks that apply to the content item
+ * (language and content type) verbatim instead of letting the model write
+ * them, and records the versions it used. compliance-check looks for the
+ * current version's exact text (boilerplateText) in the body and flags a
+ * block that is missing, edited, or still at an older version.
+ *
+ * Mirror: `src/lib/client-boilerplate.ts`. The CLIENT_BOILERPLATE region is
+ * byte-equality tested by `src/__tests__/client-boilerplate.drift.test.ts`.
+ */
+import {
+  documentToText,
+  type DocumentBlock,
+  type VariantDocument,
+} from './variant-document.ts';
+
+// drift:start CLIENT_BOILERPLATE
+// Document order: the "about" block, then the forward-looking statement and
+// disclaimers, with the media contact last.
+export const BOILERPLATE_KINDS = [
+  'about',
+  'forward_looking',
+  'disclaimer',
+  'media_contact',
+] as const;
+
+export type BoilerplateKind = (typeof BOILERPLATE_KINDS)[number];
+
+export const BOILERPLATE_KIND_LABEL = {
+  about: { ja: '会社概要', en: 'About the company' },
+  forward_looking: {
+    ja: '将来見通しに関する注意事項',
+    en: 'Forward-looking statements',
+  },
+  disclaimer: { ja: '免責事項', en: 'Disclaimer' },
+  media_contact: { ja: '報道関係者お問い合わせ先', en: 'Media contact' },
+} satisfies Record<BoilerplateKind, { ja: string; en: string }>;
+
+// The current approved version of a client_boilerplate_blocks row
+// (migration 0031). content_types empty = every content type.
+export interface ManagedBoilerplate {
+  id: string;
+  kind: BoilerplateKind;
+  language: 'ja' | 'en';
+  heading: string;
+  body: string;
+  version: number;
+  content_types: string[];
+}
+
+export interface BoilerplateScope {
+  contentType: string;
+  language: 'ja' | 'en';
+}
+
+export const boilerplateApplies = (
+  block: ManagedBoilerplate,
+  scope: BoilerplateScope,
+): boolean =>
+  block.language === scope.language &&
+  (block.content_types.length === 0 ||
+    block.content_types.includes(scope.contentType));
+
+// The blocks a content item gets, in document order. Blocks of one kind keep
+// the order they were given in.
+export const selectManagedBoilerplate = (
+  blocks: readonly ManagedBoilerplate[],
+  scope: BoilerplateScope,
+): ManagedBoilerplate[] =>
+  blocks
+    .filter((b) => boilerplateApplies(b, scope))
+    .map((b, i) => ({ b, i }))
+    .sort(
+      (x, y) =>
+        BOILERPLATE_KINDS.indexOf(x.b.kind) -
+          BOILERPLATE_KINDS.indexOf(y.b.kind) || x.i - y.i,
+    )
+    .map(({ b }) => b);
+
+// The media contact is a contact block (its heading, if any, as the first
+// line); everything else is a boilerplate block.
+const documentBlockType = (kind: BoilerplateKind): 'boilerplate' | 'contact' =>
+  kind === 'media_contact' ? 'contact' : 'boilerplate';
+
+export const boilerplateToDocumentBlock = (
+  block: Pick<ManagedBoilerplate, 'kind' | 'heading' | 'body'>,
+): DocumentBlock =>
+  documentBlockType(block.kind) === 'contact'
+    ? {
+        type: 'contact',
+        text: block.heading ? `${block.heading}\n${block.body}` : block.body,
+      }
+    : { type: 'boilerplate', heading: block.heading, text: block.body };
+
+// Exactly the text a block puts into body_text — what compliance looks for.
+export const boilerplateText = (
+  block: Pick<ManagedBoilerplate, 'kind' | 'heading' | 'body'>,
+): string =>
+  documentToText({ version: 1, blocks: [boilerplateToDocumentBlock(block)] });
+
+// The document block types the managed blocks replace: whatever the model
+// wrote of these is dropped in favour of the approved text.
+export const managedBlockTypes = (
+  blocks: readonly ManagedBoilerplate[],
+): ('boilerplate' | 'contact')[] =>
+  (['boilerplate', 'contact'] as const).filter((type) =>
+    blocks.some((b) => documentBlockType(b.kind) === type),
+  );
+
+// A generated document with the managed blocks appended verbatim.
+export const applyManagedBoilerplate = (
+  doc: VariantDocument,
+  blocks: readonly ManagedBoilerplate[],
+): VariantDocument => {
+  const replaced = new Set<string>(managedBlockTypes(blocks));
+  return {
+    ...doc,
+    blocks: [
+      ...doc.blocks.filter((b) => !replaced.has(b.type)),
+      ...blocks.map(boilerplateToDocumentBlock),
+    ],
+  };
+};
+
+// The same for a reply that didn't parse as a document: the managed text
+// follows the plain-text body as its own paragraphs.
+export const appendManagedBoilerplate = (
+  text: string,
+  blocks: readonly ManagedBoilerplate[],
+): string =>
+  [text, ...blocks.map(boilerplateText)].filter((t) => t !== '').join('\n\n');
+// drift:end CLIENT_BOILERPLATE
@@ -0,0 +1,237 @@
+/**
+ * Who a delivery is sent from, decided at send time (PRD §5.4).
+ *
+ * The delivery's creator's connected mailbox (mailbox.ts) is the primary
+ * identity; the ClearPress-managed address frozen in
+ * delivery_snapshot.sender is the fallback. Resolution happens when the
+ * email actually goes out — immediately for send-delivery, at the
+ * scheduled time for process-scheduled-sends — so a mailbox connected,
+ * disconnected or revoked in between is honoured.
+ *
+ *   no connection          → managed address, no fallback recorded.
+ *   connection revoked     → managed address, fallback_reason
+ *                            'mailbox_revoked'. A grant found revoked while
+ *                            sending (refresh refused, 401 from the API,
+ *                            unreadable token) marks the connection revoked
+ *                            first, so Settings shows it.
+ *   any other failure      → the send fails like any transport failure:
+ *                            a transient provider error is retried, and a
+ *                            provider switched off (not_configured) stops
+ *                            the send rather than changing its sender.
+ *
+ * The identity used goes to mark_delivery_sent_* as p_sender and lands in
+ * the delivery_sent audit event's details.sender.
+ *
+ * Mailbox sends have no idempotency of their own, so they run through
+ * email_send_ledger (withIdempotencyLedger) under the delivery id, like
+ * smtp. A failed mailbox send releases its claim, so the managed fallback
+ * can use the same key.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  type EmailPayload,
+  type EmailSendLedger,
+  type EmailTransport,
+  withIdempotencyLedger,
+} from './email-transport.ts';
+import {
+  decryptRefreshToken,
+  encryptRefreshToken,
+  MailboxError,
+  type MailboxKeys,
+  type MailboxProvider,
+  type MailboxProviderName,
+} from './mailbox.ts';
+import { ResendError } from './resend.ts';
+
+export type SenderFallbackReason = 'mailbox_revoked';
+
+export interface SenderIdentity {
+  mode: 'mailbox' | 'managed';
+  from_email: string;
+  // mailbox mode only.
+  provider?: MailboxProviderName;
+  // Set when the creator had a mailbox connected that couldn't be used.
+  fallback_reason?: SenderFallbackReason;
+}
+
+// mailbox_connections (migration 0033), as the send path needs it.
+export interface MailboxConnectionRecord {
+  id: string;
+  provider: MailboxProviderName;
+  email: string;
+  display_name: string | null;
+  refresh_token_encrypted: string;
+  status: 'active' | 'revoked';
+}
+
+export interface MailboxConnectionStore {
+  forUser(userId: string): Promise<MailboxConnectionRecord | null>;
+  markRevoked(id: string, reason: string): Promise<void>;
+  // After a successful send; rotatedToken replaces the stored one.
+  markUsed(id: string, rotatedToken: string | null): Promise<void>;
+}
+
+export interface DeliverySenderDeps {
+  connections: MailboxConnectionStore;
+  keys: () => Promise<MailboxKeys>;
+  provider: (name: MailboxProviderName) => MailboxProvider;
+  ledger: () => EmailSendLedger;
+  managedTransport: () => EmailTransport;
+}
+
+export interface DeliverySenderRequest {
+  // deliveries.created_by; null for deliveries older than migration 0033.
+  createdBy: string | null;
+  managed: { from_name: string; from_email: string };
+  payload: Omit<EmailPayload, 'from'>;
+}
+
+// Throws ResendError, whichever identity was used, so callers keep their
+// existing failure handling.
+export async function sendAsDeliverySender(
+  deps: DeliverySenderDeps,
+  request: DeliverySenderRequest,
+): Promise<{ id: string; sender: SenderIdentity }> {
+  const connection = request.createdBy
+    ? await lookup(() => deps.connections.forUser(request.createdBy!))
+    : null;
+
+  if (connection?.status === 'active') {
+    try {
+      return await sendFromMailbox(deps, connection, request.payload);
+    } catch (e) {
+      if (!(e instanceof MailboxError && e.kind === 'revoked')) {
+        throw toResendError(e);
+      }
+      await deps.connections.markRevoked(connection.id, e.message).catch(
+        (err) => {
+          console.error(
+            `mailbox_connections revoke failed id=${connection.id}`,
+            err,
+          );
+        },
+      );
+    }
+  }
+
+  const { from_name, from_email } = request.managed;
+  const result = await deps.managedTransport().send({
+    ...request.payload,
+    from: `${from_name} <${from_email}>`,
+  });
+  return {
+    id: result.id,
+    sender: connection
+      ? { mode: 'managed', from_email, fallback_reason: 'mailbox_revoked' }
+      : { mode: 'managed', from_email },
+  };
+}
+
+async function sendFromMailbox(
+  deps: DeliverySenderDeps,
+  connection: MailboxConnectionRecord,
+  payload: Omit<EmailPayload, 'from'>,
+): Promise<{ id: string; sender: SenderIdentity }> {
+  const provider = deps.provider(connection.provider);
+  const keys = await deps.keys();
+  const refreshToken = await decryptRefreshToken(
+    keys,
+    connection.refresh_token_encrypted,
+  );
+  const token = await provider.refreshAccessToken(refreshToken);
+
+  const transport = withIdempotencyLedger(
+    {
+      name: provider.name,
+      deliver: (p, messageId) => provider.send(token.accessToken, p, messageId),
+    },
+    deps.ledger(),
+  );
+  const from = connection.display_name
+    ? `${connection.display_name} <${connection.email}>`
+    : connection.email;
+  // A revoked grant surfaces from deliver() as MailboxError; the ledger
+  // wrapper has released the claim by the time it reaches the caller.
+  const result = await transport.send({ ...payload, from });
+
+  const rotated = token.refreshToken && token.refreshToken !== refreshToken
+    ? await encryptRefreshToken(keys, token.refreshToken)
+    : null;
+  await deps.connections.markUsed(connection.id, rotated).catch((e) => {
+    console.error(`mailbox_connections update failed id=${connection.id}`, e);
+  });
+  return {
+    id: result.id,
+    sender: {
+      mode: 'mailbox',
+      from_email: connection.email,
+      provider: connection.provider,
+    },
+  };
+}
+
+async function lookup<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new ResendError(
+      'other',
+      `mailbox_connections lookup failed: ${message}`,
+      0,
+    );
+  }
+}
+
+function toResendError(e: unknown): unknown {
+  if (!(e instanceof MailboxError)) return e;
+  switch (e.kind) {
+    case 'transient':
+      return new ResendError('rate_limited_429', `mailbox: ${e.message}`, 429);
+    case 'not_configured':
+      return new ResendError('auth_401', `mailbox: ${e.message}`, 401);
+    default:
+      return new ResendError('other', `mailbox: ${e.message}`, e.statusCode);
+  }
+}
+
+export function createSupabaseMailboxStore(
+  supabase: SupabaseClient,
+): MailboxConnectionStore {
+  return {
+    async forUser(userId) {
+      const { data, error } = await supabase
+        .from('mailbox_connections')
+        .select(
+          'id, provider, email, display_name, refresh_token_encrypted, status',
+        )
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as MailboxConnectionRecord | null) ?? null;
+    },
+    async markRevoked(id, reason) {
+      const { error } = await supabase
+        .from('mailbox_connections')
+        .update({
+          status: 'revoked',
+          revoked_at: new Date().toISOString(),
+          last_error: reason.slice(0, 500),
+        })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+    async markUsed(id, rotatedToken) {
+      const { error } = await supabase
+        .from('mailbox_connections')
+        .update({
+          last_used_at: new Date().toISOString(),
+          last_error: null,
+          ...(rotatedToken ? { refresh_token_encrypted: rotatedToken } : {}),
+        })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
@@ -7,32 +7,49 @@
  */
 
 // drift:start COMPARISON_SUMMARY
-export function buildComparisonSummary(
-  variants: ReadonlyArray<{
-    variant_index: number;
-    variant_label: string;
-    variation_directive: string | null;
-    char_count: number;
-  }>,
-): { html: string; text: string } {
-  const sorted = variants.slice().sort((a, b) => a.variant_index - b.variant_index);
-  const rows = sorted.map((v) => {
-    const directive = v.variation_directive ?? '(指示なし / no directive)';
-    const safeLabel = escapeHtml(v.variant_label);
-    const safeDirective = escapeHtml(directive);
-    return {
-      html: `  <li><strong>バリアント ${v.variant_index} / Variant ${v.variant_index} — ${safeLabel}</strong>: ${safeDirective} (${v.char_count}字)</li>`,
-      text: `バリアント ${v.variant_index} / Variant ${v.variant_index} — ${v.variant_label}: ${directive} (${v.char_count}字)`,
-    };
-  });
+export const COMPARISON_PLACEHOLDER = '{{COMPARISON_SUMMARY}}';
+
+// One bilingual line per attached variant. Generated in the composer from the
+// variant bodies (src/lib/comparison-summary.ts), optionally edited, then frozen
+// into delivery_snapshot.comparison_summary by create_delivery so the
+// immediate and scheduled send paths render identical text.
+export interface ComparisonSummaryLine {
+  variant_id: string;
+  variant_index: number;
+  text: string;
+}
 
+export function renderComparisonSummary(
+  lines: ReadonlyArray<ComparisonSummaryLine>,
+): { html: string; text: string } {
+  const sorted = lines.slice().sort((a, b) => a.variant_index - b.variant_index);
   const html =
     '<h2>バリアント比較 / Variant Comparison</h2>\n<ul>\n' +
-    rows.map((r) => r.html).join('\n') +
+    sorted.map((l) => `  <li>${escapeHtml(l.text)}</li>`).join('\n') +
     '\n</ul>';
   const text =
     'バリアント比較 / Variant Comparison\n\n' +
-    rows.map((r) => r.text).join('\n');
+    sorted.map((l) => l.text).join('\n');
+  return { html, text };
+}
+
+// Substitutes the placeholder the composer seeds into the body. Unlike the
+// feedback footer nothing is appended when the placeholder is absent — the
+// user deleted it on purpose. An empty line list drops the placeholder.
+export function applyComparisonSummaryToBody(
+  body: { html: string; text: string },
+  lines: ReadonlyArray<ComparisonSummaryLine>,
+): { html: string; text: string } {
+  const summary = lines.length > 0
+    ? renderComparisonSummary(lines)
+    : { html: '', text: '' };
+  // Tiptap wraps the placeholder in its own paragraph; replace the whole
+  // <p> so the <h2>/<ul> don't end up nested inside it.
+  const html = body.html
+    .replace(/<p>\s*\{\{COMPARISON_SUMMARY\}\}\s*<\/p>/g, () => summary.html)
+    .split(COMPARISON_PLACEHOLDER)
+    .join(summary.html);
+  const text = body.text.split(COMPARISON_PLACEHOLDER).join(summary.text);
   return { html, text };
 }
 
@@ -11,6 +11,7 @@
  * so the vitest suite can exercise it directly.
  */
 import type { DeliverySnapshot } from './types-delivery.ts';
+import type { DocumentBlock, VariantDocument } from './variant-document.ts';
 
 export interface DocMeta {
   projectName: string;
@@ -51,6 +52,71 @@ export function escapeHtml(s: string): string {
 
 const BANNER_TEXT = '確認用 — DRAFT FOR REVIEW';
 
+// Escaped, with line breaks kept.
+const htmlLines = (text: string): string =>
+  escapeHtml(text).replace(/\n/g, '<br>');
+
+// One block of a structured variant. Classes carry the styling in
+// buildPdfHtml's CSS; the local PDF engine (html-blocks.ts) reads the tags —
+// h1/h3 headings, bold runs, muted "meta" paragraphs, tables.
+function blockHtml(b: DocumentBlock): string {
+  switch (b.type) {
+    case 'title':
+      return `<h1 class="doc-title">${htmlLines(b.text)}</h1>`;
+    case 'subtitle':
+      return `<p class="doc-subtitle"><strong>${
+        htmlLines(b.text)
+      }</strong></p>`;
+    case 'dateline':
+      return `<p class="doc-dateline meta">${htmlLines(b.text)}</p>`;
+    case 'lead':
+      return `<p class="doc-lead"><strong>${htmlLines(b.text)}</strong></p>`;
+    case 'heading':
+      return `<h3>${htmlLines(b.text)}</h3>`;
+    case 'paragraph':
+      return `<p>${htmlLines(b.text)}</p>`;
+    case 'quote':
+      return [
+        '<blockquote class="doc-quote">',
+        `<p>「${htmlLines(b.text)}」</p>`,
+        b.attribution
+          ? `<p class="doc-attribution meta">— ${
+            htmlLines(b.attribution)
+          }</p>`
+          : '',
+        '</blockquote>',
+      ].join('');
+    case 'table': {
+      const row = (cells: string[], tag: 'th' | 'td') =>
+        `<tr>${
+          cells.map((c) => `<${tag}>${escapeHtml(c)}</${tag}>`).join('')
+        }</tr>`;
+      return [
+        b.caption
+          ? `<p class="doc-caption meta">${htmlLines(b.caption)}</p>`
+          : '',
+        '<table class="doc-table">',
+        b.header.length > 0 ? `<thead>${row(b.header, 'th')}</thead>` : '',
+        `<tbody>${b.rows.map((r) => row(r, 'td')).join('')}</tbody>`,
+        '</table>',
+      ].join('');
+    }
+    case 'boilerplate':
+      return [
+        '<div class="doc-boilerplate">',
+        b.heading ? `<h3>${htmlLines(b.heading)}</h3>` : '',
+        ...b.text.split(/\n\n+/).map((p) => `<p>${htmlLines(p)}</p>`),
+        '</div>',
+      ].join('');
+    case 'contact':
+      return `<div class="doc-contact"><p>${htmlLines(b.text)}</p></div>`;
+  }
+}
+
+export function documentToHtml(doc: VariantDocument): string {
+  return doc.blocks.map(blockHtml).join('\n');
+}
+
 function buildFooterText(meta: DocMeta): string {
   return `${meta.projectName} · ${meta.versionLabel} · 確認用 / For Review · ${meta.dateJst}`;
 }
@@ -60,7 +126,9 @@ export function buildPdfHtml(snapshot: DeliverySnapshot): string {
     .slice()
     .sort((a, b) => a.variant_index - b.variant_index)
     .map((v) => {
-      const body = v.body_html ?? `<pre>${escapeHtml(v.body_text)}</pre>`;
+      const body = v.body_doc
+        ? documentToHtml(v.body_doc)
+        : v.body_html ?? `<pre>${escapeHtml(v.body_text)}</pre>`;
       return [
         '<section>',
         `<h2>Variant ${v.variant_index} — ${escapeHtml(v.variant_label)}</h2>`,
@@ -70,8 +138,8 @@ export function buildPdfHtml(snapshot: DeliverySnapshot): string {
     })
     .join('\n');
 
-  // The DRAFT banner + footer are NOT in this HTML — they're passed to pdfshift
-  // as native header/footer request options (buildPdfOptions) so they repeat on
+  // The DRAFT banner + footer are NOT in this HTML — they're passed to the PDF
+  // renderer as header/footer options (buildPdfOptions) so they repeat on
   // every page. pdfshift v3 is Chromium, which ignores CSS running-elements.
   // overflow-wrap: anywhere is required because Chromium won't break space-free
   // Japanese to fit the page without an explicit break opportunity.
@@ -93,6 +161,41 @@ export function buildPdfHtml(snapshot: DeliverySnapshot): string {
       overflow-wrap: anywhere;
       font-family: inherit;
     }
+    .doc-title {
+      font-size: 1.6em;
+      line-height: 1.4;
+      margin: 0.5em 0 0.25em;
+    }
+    .doc-subtitle { font-size: 1.1em; color: #374151; margin-top: 0; }
+    .doc-dateline, .doc-caption, .doc-attribution {
+      color: #6b7280;
+      font-size: 0.9em;
+    }
+    .doc-attribution { text-align: right; }
+    .doc-quote {
+      margin: 1em 0;
+      padding-left: 1em;
+      border-left: 3px solid #e5e7eb;
+    }
+    .doc-table { border-collapse: collapse; width: 100%; margin: 0.5em 0 1em; }
+    .doc-table th, .doc-table td {
+      border: 1px solid #d1d5db;
+      padding: 4px 8px;
+      text-align: left;
+    }
+    .doc-table th { background: #f3f4f6; }
+    .doc-boilerplate {
+      margin-top: 2em;
+      padding-top: 0.5em;
+      border-top: 1px solid #e5e7eb;
+      font-size: 0.9em;
+    }
+    .doc-contact {
+      margin-top: 1em;
+      padding: 0.5em 1em;
+      border: 1px solid #e5e7eb;
+      font-size: 0.9em;
+    }
   `;
 
   return [
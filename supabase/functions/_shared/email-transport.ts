@@ -0,0 +1,342 @@
+/**
+ * Pluggable outbound email.
+ *
+ * Every email the system sends (deliveries, scheduled sends, feedback
+ * reminders, internal-feedback notifications) goes through an
+ * EmailTransport, picked by the EMAIL_TRANSPORT secret:
+ *
+ *   resend (default)  Resend's POST /emails (resend.ts); needs
+ *                     RESEND_API_KEY.
+ *   smtp              the firm's own relay (smtp.ts); needs SMTP_HOST.
+ *                     SMTP_TLS is starttls (default), implicit or none;
+ *                     SMTP_PORT defaults to 587 / 465 / 25 to match.
+ *                     SMTP_USERNAME + SMTP_PASSWORD enable AUTH;
+ *                     SMTP_HELO_NAME and SMTP_TIMEOUT_MS are optional.
+ *   capture           sends nothing: each message is written as .eml into
+ *                     the email-capture bucket (migration 0032), for local
+ *                     development and CI. The dev-only /dev/inbox page
+ *                     reads them back.
+ *
+ * Callers get the same contract from all three:
+ *   - idempotencyKey: sending again under a key returns the first send's id
+ *     without sending twice; the same key with a different message is
+ *     'idempotency_collision_409'. Resend enforces this itself; smtp and
+ *     capture claim the key in email_send_ledger first
+ *     (withIdempotencyLedger).
+ *   - failures are ResendError, with the kinds documented in resend.ts.
+ *
+ * No Deno globals: env, sockets and the service-role ledger / capture
+ * store are injected (email.ts wires the Deno ones), so the vitest suite
+ * drives every transport directly.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { canonicalize } from './canonical.ts';
+import { buildMimeMessage } from './mime.ts';
+import { createResendTransport, ResendError } from './resend.ts';
+import { createSmtpSink, type SmtpSockets, type SmtpTlsMode } from './smtp.ts';
+
+export interface EmailAttachment {
+  filename: string;
+  // base64
+  content: string;
+}
+
+export interface EmailPayload {
+  from: string;
+  to: string;
+  cc?: string[];
+  bcc?: string[];
+  reply_to?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  attachments?: EmailAttachment[];
+  idempotencyKey: string;
+}
+
+export interface EmailTransport {
+  // The configured EMAIL_TRANSPORT, for logs.
+  readonly name: string;
+  send(payload: EmailPayload): Promise<{ id: string }>;
+}
+
+// A transport with no idempotency of its own (smtp, capture): it delivers
+// one message under the Message-ID it is given.
+export interface MessageSink {
+  readonly name: string;
+  deliver(payload: EmailPayload, messageId: string): Promise<void>;
+}
+
+export type EmailLedgerClaim =
+  | { status: 'claimed' }
+  | { status: 'sent'; message_id: string }
+  | { status: 'in_flight' }
+  | { status: 'collision' };
+
+// email_send_ledger (migration 0032), behind claim_email_send /
+// complete_email_send / release_email_send.
+export interface EmailSendLedger {
+  claim(
+    key: string,
+    transport: string,
+    payloadSha256: string,
+  ): Promise<EmailLedgerClaim>;
+  complete(key: string, messageId: string): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+export interface EmailCaptureStore {
+  put(path: string, eml: string): Promise<void>;
+}
+
+export type EnvLookup = (name: string) => string | undefined;
+
+export interface EmailTransportDeps {
+  env: EnvLookup;
+  sockets: SmtpSockets;
+  // Lazy: only smtp and capture need the service-role client behind these.
+  ledger: () => EmailSendLedger;
+  captureStore: () => EmailCaptureStore;
+}
+
+export const DEFAULT_EMAIL_TRANSPORT = 'resend';
+
+export const EMAIL_CAPTURE_BUCKET = 'email-capture';
+
+const SMTP_DEFAULT_PORT: Record<SmtpTlsMode, number> = {
+  starttls: 587,
+  implicit: 465,
+  none: 25,
+};
+
+const SMTP_DEFAULT_TIMEOUT_MS = 30_000;
+
+const TRANSPORTS: Record<string, (deps: EmailTransportDeps) => EmailTransport> =
+  {
+    resend: ({ env }) => {
+      const apiKey = normalizeSecret(env('RESEND_API_KEY'));
+      if (!apiKey) {
+        throw new ResendError('other', 'RESEND_API_KEY not set', 0);
+      }
+      return createResendTransport(apiKey);
+    },
+    smtp: (deps) =>
+      withIdempotencyLedger(
+        createSmtpSink(readSmtpConfig(deps.env), deps.sockets),
+        deps.ledger(),
+      ),
+    capture: (deps) =>
+      withIdempotencyLedger(
+        createCaptureSink(deps.captureStore()),
+        deps.ledger(),
+      ),
+  };
+
+// Resolves the configured transport. Throws ResendError('other') for an
+// unknown EMAIL_TRANSPORT or a missing setting, so a misconfiguration fails
+// the send instead of silently falling back to another transport.
+export function selectEmailTransport(deps: EmailTransportDeps): EmailTransport {
+  const name = deps.env('EMAIL_TRANSPORT')?.trim() || DEFAULT_EMAIL_TRANSPORT;
+  const factory = TRANSPORTS[name];
+  if (!factory) {
+    throw new ResendError('other', `unknown EMAIL_TRANSPORT '${name}'`, 0);
+  }
+  return factory(deps);
+}
+
+function readSmtpConfig(env: EnvLookup) {
+  const host = normalizeSecret(env('SMTP_HOST'));
+  if (!host) {
+    throw new ResendError('other', 'SMTP_HOST not set', 0);
+  }
+  const tls = (env('SMTP_TLS')?.trim() || 'starttls') as SmtpTlsMode;
+  if (!(tls in SMTP_DEFAULT_PORT)) {
+    throw new ResendError('other', `unknown SMTP_TLS '${tls}'`, 0);
+  }
+  const port = readPositiveInt(env, 'SMTP_PORT') ?? SMTP_DEFAULT_PORT[tls];
+  const username = normalizeSecret(env('SMTP_USERNAME'));
+  const password = normalizeSecret(env('SMTP_PASSWORD'));
+  if (Boolean(username) !== Boolean(password)) {
+    throw new ResendError(
+      'auth_401',
+      'SMTP_USERNAME and SMTP_PASSWORD must be set together',
+      0,
+    );
+  }
+  return {
+    host,
+    port,
+    tls,
+    username,
+    password,
+    heloName: env('SMTP_HELO_NAME')?.trim() || 'clearpress.local',
+    timeoutMs: readPositiveInt(env, 'SMTP_TIMEOUT_MS') ??
+      SMTP_DEFAULT_TIMEOUT_MS,
+  };
+}
+
+function readPositiveInt(env: EnvLookup, name: string): number | undefined {
+  const raw = env(name)?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new ResendError('other', `${name} must be a positive integer`, 0);
+  }
+  return value;
+}
+
+// Gives a MessageSink Resend's idempotency semantics. The key is claimed
+// before anything is sent; a failed send releases it so the next attempt
+// can go out. A key still claimed by a send in progress is reported as
+// transient ('rate_limited_429') — the cron path retries it next tick.
+export function withIdempotencyLedger(
+  sink: MessageSink,
+  ledger: EmailSendLedger,
+): EmailTransport {
+  return {
+    name: sink.name,
+    async send(payload) {
+      const key = payload.idempotencyKey;
+      const claim = await ledgerCall('claim', () =>
+        payloadSha256(payload).then((sha) =>
+          ledger.claim(key, sink.name, sha)
+        )
+      );
+      switch (claim.status) {
+        case 'sent':
+          return { id: claim.message_id };
+        case 'collision':
+          throw new ResendError(
+            'idempotency_collision_409',
+            `idempotency key ${key} was already used for a different message`,
+            409,
+          );
+        case 'in_flight':
+          throw new ResendError(
+            'rate_limited_429',
+            `a send under idempotency key ${key} is still in progress`,
+            429,
+          );
+      }
+      const messageId = messageIdFor(payload);
+      try {
+        await sink.deliver(payload, messageId);
+      } catch (e) {
+        await ledger.release(key).catch(() => {});
+        throw e;
+      }
+      // The message is out; a failed bookkeeping write must not turn it
+      // into a failure the caller retries. The claim expires instead.
+      await ledger.complete(key, messageId).catch((e) => {
+        console.error(
+          `email_send_ledger complete failed key=${key} message_id=${messageId}`,
+          e,
+        );
+      });
+      return { id: messageId };
+    },
+  };
+}
+
+async function ledgerCall<T>(stage: string, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new ResendError('other', `email_send_ledger ${stage} failed: ${message}`, 0);
+  }
+}
+
+// The same key always yields the same Message-ID, so a retried send is
+// recognisable as the same message downstream.
+export function messageIdFor(payload: EmailPayload): string {
+  const local = payload.idempotencyKey.replace(/[^A-Za-z0-9._-]/g, '.');
+  const domain = payload.from.match(/@([^>\s]+)>?\s*$/)?.[1] ??
+    'clearpress.local';
+  return `${local}@${domain}`;
+}
+
+// What "the same message" means for the ledger: every field but the key.
+export async function payloadSha256(payload: EmailPayload): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(
+      canonicalize({ ...payload, idempotencyKey: undefined }),
+    ),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Capture writes the message, Bcc included, where the dev inbox lists it:
+// <UTC timestamp>_<key>.eml, so the names sort in send order.
+export function createCaptureSink(store: EmailCaptureStore): MessageSink {
+  return {
+    name: 'capture',
+    async deliver(payload, messageId) {
+      const date = new Date();
+      const eml = buildMimeMessage(payload, {
+        messageId,
+        date,
+        includeBcc: true,
+      });
+      const stamp = date.toISOString().replace(/[:.]/g, '-');
+      const key = payload.idempotencyKey.replace(/[^A-Za-z0-9._-]/g, '_');
+      try {
+        await store.put(`${stamp}_${key}.eml`, eml);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        throw new ResendError('other', `email capture failed: ${message}`, 0);
+      }
+    },
+  };
+}
+
+export function createSupabaseSendLedger(
+  supabase: SupabaseClient,
+): EmailSendLedger {
+  return {
+    async claim(key, transport, payloadSha256) {
+      const { data, error } = await supabase.rpc('claim_email_send', {
+        p_idempotency_key: key,
+        p_transport: transport,
+        p_payload_sha256: payloadSha256,
+      });
+      if (error) throw new Error(error.message);
+      return data as EmailLedgerClaim;
+    },
+    async complete(key, messageId) {
+      const { error } = await supabase.rpc('complete_email_send', {
+        p_idempotency_key: key,
+        p_message_id: messageId,
+      });
+      if (error) throw new Error(error.message);
+    },
+    async release(key) {
+      const { error } = await supabase.rpc('release_email_send', {
+        p_idempotency_key: key,
+      });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+export function createSupabaseCaptureStore(
+  supabase: SupabaseClient,
+): EmailCaptureStore {
+  return {
+    async put(path, eml) {
+      const { error } = await supabase.storage
+        .from(EMAIL_CAPTURE_BUCKET)
+        .upload(path, new Blob([eml], { type: 'message/rfc822' }), {
+          contentType: 'message/rfc822',
+        });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+function normalizeSecret(value: string | undefined): string | undefined {
+  return value?.trim().replace(/^['"]|['"]$/g, '') || undefined;
+}
@@ -0,0 +1,90 @@
+/**
+ * The configured EmailTransport for an Edge Function — selection rules and
+ * secrets are in email-transport.ts; this file wires in the Deno pieces.
+ * Deliveries go through sendDeliveryEmail instead, which sends from the
+ * creator's connected mailbox when there is one (delivery-sender.ts).
+ *
+ * smtp and capture get a service-role client for email_send_ledger and the
+ * email-capture bucket. That bookkeeping is infrastructure, not the
+ * caller's own write, so it never runs under the caller's JWT (send-delivery
+ * sends on a user's behalf; the cron functions are service-role anyway).
+ */
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  createSupabaseCaptureStore,
+  createSupabaseSendLedger,
+  type EmailTransport,
+  selectEmailTransport,
+} from './email-transport.ts';
+import {
+  createSupabaseMailboxStore,
+  type DeliverySenderRequest,
+  sendAsDeliverySender,
+  type SenderIdentity,
+} from './delivery-sender.ts';
+import {
+  importMailboxKeys,
+  type MailboxProviderDeps,
+  selectMailboxProvider,
+} from './mailbox.ts';
+import { ResendError } from './resend.ts';
+import type { SmtpConn, SmtpSockets } from './smtp.ts';
+
+const denoSockets: SmtpSockets = {
+  connect: ({ hostname, port, tls }) =>
+    tls ? Deno.connectTls({ hostname, port }) : Deno.connect({ hostname, port }),
+  startTls: (conn: SmtpConn, hostname: string) =>
+    Deno.startTls(conn as Deno.TcpConn, { hostname }),
+};
+
+let serviceClient: SupabaseClient | null = null;
+
+export function serviceRoleClient(): SupabaseClient {
+  if (serviceClient) return serviceClient;
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !serviceKey) {
+    throw new ResendError(
+      'other',
+      'Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY',
+      0,
+    );
+  }
+  serviceClient = createClient(url, serviceKey);
+  return serviceClient;
+}
+
+// Throws ResendError on a misconfiguration; call it inside the same try as
+// send() so that surfaces like any other send failure.
+export function getEmailTransport(): EmailTransport {
+  return selectEmailTransport({
+    env: (name) => Deno.env.get(name),
+    sockets: denoSockets,
+    ledger: () => createSupabaseSendLedger(serviceRoleClient()),
+    captureStore: () => createSupabaseCaptureStore(serviceRoleClient()),
+  });
+}
+
+export function mailboxProviderDeps(): MailboxProviderDeps {
+  return {
+    env: (name) => Deno.env.get(name),
+    fetch: (input, init) => fetch(input, init),
+    captureStore: () => createSupabaseCaptureStore(serviceRoleClient()),
+  };
+}
+
+// Throws ResendError, like getEmailTransport().send().
+export function sendDeliveryEmail(
+  request: DeliverySenderRequest,
+): Promise<{ id: string; sender: SenderIdentity }> {
+  return sendAsDeliverySender(
+    {
+      connections: createSupabaseMailboxStore(serviceRoleClient()),
+      keys: () => importMailboxKeys(Deno.env.get('MAILBOX_TOKEN_KEY')),
+      provider: (name) => selectMailboxProvider(name, mailboxProviderDeps()),
+      ledger: () => createSupabaseSendLedger(serviceRoleClient()),
+      managedTransport: getEmailTransport,
+    },
+    request,
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Day-7 feedback reminder helpers (PRD §8 decision 5).
+ *
+ * Pure functions only — no Deno APIs — so src/__tests__/feedback-reminder.test.ts
+ * can import this module directly, same as magic-link.ts.
+ *
+ * Timing and copy come from app_config (op_feedback_reminder_seed.sql):
+ *
+ *   FEEDBACK_REMINDER_AFTER_DAYS — whole days after deliveries.sent_at
+ *   FEEDBACK_REMINDER_SUBJECT    — subject template
+ *   FEEDBACK_REMINDER_BODY_TEXT  — plain-text body template; the HTML part
+ *                                  is derived from it (escaped, one <p> per
+ *                                  blank-line paragraph)
+ *
+ * Templates substitute {{PROJECT_NAME}}, {{ORIGINAL_SUBJECT}},
+ * {{FEEDBACK_LINK}} and {{EXPIRES_ON}}. Unknown placeholders are left as-is
+ * so a typo in the seed is visible in the sent mail rather than silently
+ * dropped. A missing or blank row falls back to the defaults below.
+ */
+
+export const FEEDBACK_REMINDER_CONFIG_KEYS = [
+  'FEEDBACK_REMINDER_AFTER_DAYS',
+  'FEEDBACK_REMINDER_SUBJECT',
+  'FEEDBACK_REMINDER_BODY_TEXT',
+] as const;
+
+export const DEFAULT_REMINDER_AFTER_DAYS = 7;
+
+export const DEFAULT_REMINDER_SUBJECT =
+  '【ご確認のお願い】{{ORIGINAL_SUBJECT}} / Reminder: {{PROJECT_NAME}}';
+
+export const DEFAULT_REMINDER_BODY_TEXT = [
+  '先日お送りした「{{PROJECT_NAME}}」の原稿について、ご感想をお聞かせいただけますと幸いです。',
+  'ご回答は1分ほどで完了します。',
+  '',
+  '{{FEEDBACK_LINK}}',
+  '',
+  '回答期限: {{EXPIRES_ON}}',
+  '',
+  '---',
+  '',
+  'A quick reminder: we would value your feedback on the drafts we sent for "{{PROJECT_NAME}}". It takes about a minute.',
+  '',
+  '{{FEEDBACK_LINK}}',
+  '',
+  'The link expires on {{EXPIRES_ON}}.',
+].join('\n');
+
+export interface FeedbackReminderConfig {
+  afterDays: number;
+  subject: string;
+  bodyText: string;
+}
+
+export interface FeedbackReminderVars {
+  projectName: string;
+  originalSubject: string;
+  feedbackUrl: string;
+  /** ISO timestamp of feedback_tokens.expires_at. */
+  expiresAt: string;
+}
+
+export function parseReminderConfig(
+  config: ReadonlyMap<string, string>,
+): FeedbackReminderConfig {
+  const rawDays = Number.parseInt(
+    config.get('FEEDBACK_REMINDER_AFTER_DAYS') ?? '',
+    10,
+  );
+  const afterDays = Number.isFinite(rawDays) && rawDays > 0
+    ? rawDays
+    : DEFAULT_REMINDER_AFTER_DAYS;
+  const subject = config.get('FEEDBACK_REMINDER_SUBJECT')?.trim() ||
+    DEFAULT_REMINDER_SUBJECT;
+  const bodyText = config.get('FEEDBACK_REMINDER_BODY_TEXT')?.trim() ||
+    DEFAULT_REMINDER_BODY_TEXT;
+  return { afterDays, subject, bodyText };
+}
+
+/** Deliveries sent at or before this instant are due a reminder. */
+export function reminderCutoff(now: Date, afterDays: number): Date {
+  return new Date(now.getTime() - afterDays * 24 * 60 * 60 * 1000);
+}
+
+// Expiry date as the client reads it: JST calendar date, both languages
+// understand YYYY-MM-DD.
+function formatExpiresOn(iso: string): string {
+  const jst = new Date(new Date(iso).getTime() + 9 * 60 * 60 * 1000);
+  return jst.toISOString().slice(0, 10);
+}
+
+function substitute(
+  template: string,
+  values: Record<string, string>,
+): string {
+  return template.replace(
+    /\{\{([A-Z_]+)\}\}/g,
+    (match, key: string) => values[key] ?? match,
+  );
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderReminder(
+  config: FeedbackReminderConfig,
+  vars: FeedbackReminderVars,
+): { subject: string; html: string; text: string } {
+  const values: Record<string, string> = {
+    PROJECT_NAME: vars.projectName,
+    ORIGINAL_SUBJECT: vars.originalSubject,
+    FEEDBACK_LINK: vars.feedbackUrl,
+    EXPIRES_ON: formatExpiresOn(vars.expiresAt),
+  };
+  // Subject lines can't carry newlines (header injection via a project name).
+  const subject = substitute(config.subject, values).replace(/\s*\n\s*/g, ' ');
+  const text = substitute(config.bodyText, values);
+  const html = text
+    .split(/\n{2,}/)
+    .map((para) => `<p>${escapeHtml(para).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+  return { subject, html, text };
+}
@@ -0,0 +1,362 @@
+/**
+ * Reads the HTML our documents are built from into a flat list of layout
+ * blocks for the local PDF engine (pdf-local-renderer.ts).
+ *
+ * This is not a browser. It understands the markup the system itself
+ * produces — buildPdfHtml (doc-rendering.ts) with sanitized Tiptap bodies
+ * (sanitize.ts: p, strong, em, ul, ol, li, a, br, h1-h3), the archival
+ * audit report (audit-report-pdf.ts) and the audit trail export
+ * (audit-export.ts): headings, paragraphs, pre, lists, tables and
+ * definition lists, with bold and muted ("meta"/"kicker" class) runs.
+ * Anything else contributes its text to the surrounding block.
+ *
+ * Page breaks follow the rules those documents declare in CSS: a <section>
+ * that directly follows another <section> starts a new page.
+ *
+ * The <style> element is read separately, for a handful of properties
+ * (body font-size and line-height, h1-h3 font-size, h2 border-bottom), by
+ * readDocumentStyle, so a document's own sizing carries over.
+ */
+
+export interface TextRun {
+  text: string;
+  bold: boolean;
+  muted: boolean;
+}
+
+export type Block =
+  | { kind: 'heading'; level: 1 | 2 | 3; runs: TextRun[] }
+  | { kind: 'paragraph'; runs: TextRun[]; muted: boolean }
+  | { kind: 'pre'; text: string }
+  | { kind: 'list'; ordered: boolean; items: TextRun[][] }
+  | { kind: 'table'; header: TextRun[][] | null; rows: TextRun[][][] }
+  | { kind: 'definitions'; items: { term: TextRun[]; detail: TextRun[] }[] }
+  | { kind: 'pageBreak' };
+
+interface Element {
+  tag: string;
+  attrs: Record<string, string>;
+  children: Node[];
+}
+
+type Node = Element | string;
+
+const VOID_TAGS = new Set(['br', 'meta', 'hr', 'img', 'link', 'input', 'col']);
+const SKIP_TAGS = new Set(['head', 'style', 'script', 'title']);
+const MUTED_CLASSES = ['meta', 'kicker'];
+const BLOCK_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'pre', 'ul', 'ol', 'table', 'dl',
+  'section', 'header', 'footer', 'div', 'article', 'blockquote', 'body', 'html',
+  'main', 'hr',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (m, body: string) => {
+    if (body[0] === '#') {
+      const cp = body[1] === 'x' || body[1] === 'X'
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+      return Number.isFinite(cp) && cp > 0 && cp <= 0x10ffff
+        ? String.fromCodePoint(cp)
+        : m;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? m;
+  });
+}
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*(?:=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (const m of source.matchAll(re)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[3] ?? m[4] ?? m[5] ?? '');
+  }
+  return attrs;
+}
+
+export function parseHtml(html: string): Element {
+  const root: Element = { tag: '#root', attrs: {}, children: [] };
+  const stack: Element[] = [root];
+  const re = /<!--[\s\S]*?-->|<!doctype[^>]*>|<\/([a-zA-Z0-9]+)\s*>|<([a-zA-Z0-9]+)((?:\s[^>]*?)?)\s*(\/?)>|([^<]+|<)/gi;
+  let skipping: string | null = null;
+  for (const m of html.matchAll(re)) {
+    const [, closeTag, openTag, attrSource, selfClose, text] = m;
+    if (skipping) {
+      if (closeTag?.toLowerCase() === skipping) skipping = null;
+      continue;
+    }
+    const top = stack[stack.length - 1];
+    if (text !== undefined) {
+      top.children.push(decodeEntities(text));
+    } else if (openTag) {
+      const tag = openTag.toLowerCase();
+      if (SKIP_TAGS.has(tag)) {
+        if (!selfClose) skipping = tag;
+        continue;
+      }
+      const el: Element = { tag, attrs: parseAttrs(attrSource ?? ''), children: [] };
+      top.children.push(el);
+      if (!VOID_TAGS.has(tag) && !selfClose) stack.push(el);
+    } else if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const at = stack.map((e) => e.tag).lastIndexOf(tag);
+      if (at > 0) stack.length = at;
+    }
+  }
+  return root;
+}
+
+function hasClass(el: Element, names: string[]): boolean {
+  const classes = (el.attrs.class ?? '').split(/\s+/);
+  return names.some((n) => classes.includes(n));
+}
+
+function collapse(text: string): string {
+  return text.replace(/[ \t\r\n\f]+/g, ' ');
+}
+
+function collectRuns(
+  nodes: Node[],
+  style: { bold: boolean; muted: boolean },
+  out: TextRun[],
+  preserve = false,
+): TextRun[] {
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      const text = preserve ? node : collapse(node);
+      if (text) out.push({ text, ...style });
+      continue;
+    }
+    if (node.tag === 'br') {
+      out.push({ text: '\n', ...style });
+      continue;
+    }
+    // Block children of an inline context (<p> inside <li>, a nested list)
+    // start on their own line.
+    if (BLOCK_TAGS.has(node.tag) || node.tag === 'li') {
+      if (out.length > 0) out.push({ text: '\n', ...style });
+    }
+    collectRuns(
+      node.children,
+      {
+        bold: style.bold || ['strong', 'b', 'th'].includes(node.tag),
+        muted: style.muted || hasClass(node, MUTED_CLASSES),
+      },
+      out,
+      preserve || node.tag === 'pre',
+    );
+  }
+  return out;
+}
+
+// Merges adjacent runs with the same style and trims the whitespace that
+// HTML source formatting leaves at the edges of a block.
+function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const r of runs) {
+    const prev = merged[merged.length - 1];
+    if (prev && prev.bold === r.bold && prev.muted === r.muted) {
+      prev.text += r.text;
+    } else {
+      merged.push({ ...r });
+    }
+  }
+  for (const r of merged) r.text = r.text.replace(/ ?\n ?/g, '\n');
+  if (merged.length > 0) {
+    merged[0].text = merged[0].text.replace(/^ +/, '');
+    const last = merged[merged.length - 1];
+    last.text = last.text.replace(/ +$/, '');
+  }
+  return merged.filter((r) => r.text.length > 0);
+}
+
+function runsOf(el: Element, muted = false): TextRun[] {
+  return normalizeRuns(
+    collectRuns(el.children, { bold: false, muted: muted || hasClass(el, MUTED_CLASSES) }, []),
+  );
+}
+
+function childElements(el: Element, tags: string[]): Element[] {
+  const out: Element[] = [];
+  for (const c of el.children) {
+    if (typeof c === 'string') continue;
+    if (tags.includes(c.tag)) out.push(c);
+    else if (['thead', 'tbody', 'tfoot'].includes(c.tag)) out.push(...childElements(c, tags));
+  }
+  return out;
+}
+
+export function htmlToBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  let inline: Node[] = [];
+  let inlineMuted = false;
+
+  const flushInline = () => {
+    const runs = normalizeRuns(collectRuns(inline, { bold: false, muted: inlineMuted }, []));
+    if (runs.length > 0) blocks.push({ kind: 'paragraph', runs, muted: false });
+    inline = [];
+  };
+
+  const walk = (nodes: Node[], muted: boolean) => {
+    let previousElement: string | null = null;
+    for (const node of nodes) {
+      if (typeof node === 'string' || !BLOCK_TAGS.has(node.tag)) {
+        if (inline.length === 0) inlineMuted = muted;
+        inline.push(node);
+        if (typeof node !== 'string') previousElement = node.tag;
+        continue;
+      }
+      flushInline();
+      const el = node;
+      const elMuted = muted || hasClass(el, MUTED_CLASSES);
+      switch (el.tag) {
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6': {
+          const level = Math.min(3, Number(el.tag[1])) as 1 | 2 | 3;
+          blocks.push({ kind: 'heading', level, runs: runsOf(el, elMuted) });
+          break;
+        }
+        case 'p': {
+          const runs = runsOf(el, elMuted);
+          if (runs.length > 0) blocks.push({ kind: 'paragraph', runs, muted: elMuted });
+          break;
+        }
+        case 'pre': {
+          const text = collectRuns(el.children, { bold: false, muted: false }, [], true)
+            .map((r) => r.text)
+            .join('')
+            .replace(/^\n/, '')
+            .replace(/\n+$/, '');
+          blocks.push({ kind: 'pre', text });
+          break;
+        }
+        case 'ul':
+        case 'ol':
+          blocks.push({
+            kind: 'list',
+            ordered: el.tag === 'ol',
+            items: childElements(el, ['li']).map((li) => runsOf(li, elMuted)),
+          });
+          break;
+        case 'table': {
+          const rows = childElements(el, ['tr']).map((tr) =>
+            childElements(tr, ['td', 'th']).map((cell) =>
+              normalizeRuns(collectRuns(cell.children, {
+                bold: cell.tag === 'th',
+                muted: elMuted || hasClass(cell, MUTED_CLASSES),
+              }, []))
+            )
+          );
+          const headerRow = childElements(el, ['tr'])[0];
+          const hasHeader = headerRow !== undefined &&
+            childElements(headerRow, ['th', 'td']).every((c) => c.tag === 'th');
+          blocks.push({
+            kind: 'table',
+            header: hasHeader ? rows[0] : null,
+            rows: hasHeader ? rows.slice(1) : rows,
+          });
+          break;
+        }
+        case 'dl': {
+          const items: { term: TextRun[]; detail: TextRun[] }[] = [];
+          for (const c of childElements(el, ['dt', 'dd'])) {
+            if (c.tag === 'dt') items.push({ term: runsOf(c, true), detail: [] });
+            else if (items.length > 0) items[items.length - 1].detail = runsOf(c, elMuted);
+            else items.push({ term: [], detail: runsOf(c, elMuted) });
+          }
+          blocks.push({ kind: 'definitions', items });
+          break;
+        }
+        case 'hr':
+          break;
+        case 'section':
+          if (previousElement === 'section' && blocks.length > 0) {
+            blocks.push({ kind: 'pageBreak' });
+          }
+          walk(el.children, elMuted);
+          flushInline();
+          break;
+        default:
+          walk(el.children, elMuted);
+          flushInline();
+      }
+      previousElement = el.tag;
+    }
+  };
+
+  walk(parseHtml(html).children, false);
+  flushInline();
+  return blocks;
+}
+
+export interface DocumentStyle {
+  // CSS px, as written in the document.
+  fontSize: number;
+  lineHeight: number;
+  headingSizes: Record<1 | 2 | 3, number>;
+  h2Rule: boolean;
+}
+
+function cssRules(html: string): Map<string, string> {
+  const rules = new Map<string, string>();
+  for (const m of html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)) {
+    const css = m[1].replace(/\/\*[\s\S]*?\*\//g, '');
+    for (const r of css.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+      for (const selector of r[1].split(',')) {
+        const key = selector.trim();
+        rules.set(key, (rules.get(key) ?? '') + ';' + r[2]);
+      }
+    }
+  }
+  return rules;
+}
+
+function cssValue(body: string | undefined, prop: string): string | null {
+  if (!body) return null;
+  const re = new RegExp(`(?:^|;)\\s*${prop}\\s*:\\s*([^;]+)`, 'gi');
+  let last: string | null = null;
+  for (const m of body.matchAll(re)) last = m[1].trim();
+  return last;
+}
+
+function px(value: string | null, base: number): number | null {
+  if (!value) return null;
+  const m = value.match(/^([0-9.]+)(px|em|rem|pt)?$/);
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  if (m[2] === 'em' || m[2] === 'rem') return n * base;
+  if (m[2] === 'pt') return n / 0.75;
+  return n;
+}
+
+// Browser defaults where the document is silent: 16px body, h1 2em,
+// h2 1.5em, h3 1.17em.
+export function readDocumentStyle(html: string): DocumentStyle {
+  const rules = cssRules(html);
+  const body = rules.get('body');
+  const fontSize = px(cssValue(body, 'font-size'), 16) ?? 16;
+  const lh = cssValue(body, 'line-height');
+  const lineHeight = lh && /^[0-9.]+$/.test(lh)
+    ? parseFloat(lh)
+    : (px(lh, fontSize) ?? fontSize * 1.5) / fontSize;
+  const heading = (tag: string, em: number) =>
+    px(cssValue(rules.get(tag), 'font-size'), fontSize) ?? fontSize * em;
+  return {
+    fontSize,
+    lineHeight,
+    headingSizes: { 1: heading('h1', 2), 2: heading('h2', 1.5), 3: heading('h3', 1.17) },
+    h2Rule: cssValue(rules.get('h2'), 'border-bottom') !== null,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Line breaking for the local PDF engine, written for mixed
+ * Japanese/Latin press-release text.
+ *
+ * Japanese has no spaces, so every boundary between two CJK characters is
+ * a break opportunity — except where kinsoku shori (禁則処理) forbids it:
+ * a line may not start with closing brackets, 、。, small kana or the long
+ * vowel mark, and may not end with an opening bracket. Latin words break
+ * only at spaces; a single word wider than the line is split by character
+ * as a last resort. '\n' is a forced break.
+ *
+ * Widths come from the caller (glyph advances in points), so this module
+ * knows nothing about fonts and the vitest suite can drive it with
+ * fixed-width measures.
+ */
+
+// Characters that must not begin a line (行頭禁則).
+const NO_LINE_START = new Set(
+  Array.from(
+    '、。，．・：；？！‼⁇⁈⁉ー－～…‥' +
+      '）〕］｝〉》」』】〙〗〟’”｠»' +
+      'ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿ' +
+      '々〻ゝゞヽヾ゛゜' +
+      ')]},.:;!?%',
+  ),
+);
+
+// Characters that must not end a line (行末禁則).
+const NO_LINE_END = new Set(
+  Array.from('（〔［｛〈《「『【〘〖〝‘“｟«([{'),
+);
+
+function isWideChar(cp: number): boolean {
+  return (
+    (cp >= 0x1100 && cp <= 0x115f) ||
+    (cp >= 0x2e80 && cp <= 0xa4cf) ||
+    (cp >= 0xac00 && cp <= 0xd7a3) ||
+    (cp >= 0xf900 && cp <= 0xfaff) ||
+    (cp >= 0xfe30 && cp <= 0xfe4f) ||
+    (cp >= 0xff00 && cp <= 0xff60) ||
+    (cp >= 0xffe0 && cp <= 0xffe6) ||
+    (cp >= 0x20000 && cp <= 0x3fffd)
+  );
+}
+
+function isSpace(ch: string): boolean {
+  return ch === ' ' || ch === '\t' || ch === '　';
+}
+
+// [start, end) into the input string; end excludes trailing spaces and the
+// '\n' that ended the line.
+export interface LineSpan {
+  start: number;
+  end: number;
+}
+
+interface Atom {
+  start: number;
+  end: number;
+  width: number;
+  kind: 'word' | 'space' | 'newline';
+  first: string;
+  last: string;
+}
+
+function atomize(
+  text: string,
+  advance: (codePoint: number) => number,
+): Atom[] {
+  const atoms: Atom[] = [];
+  let word: Atom | null = null;
+  const flush = () => {
+    if (word) atoms.push(word);
+    word = null;
+  };
+  let i = 0;
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!;
+    const start = i;
+    i += ch.length;
+    if (ch === '\n') {
+      flush();
+      atoms.push({ start, end: i, width: 0, kind: 'newline', first: ch, last: ch });
+    } else if (isSpace(ch)) {
+      flush();
+      atoms.push({
+        start,
+        end: i,
+        width: advance(cp),
+        kind: 'space',
+        first: ch,
+        last: ch,
+      });
+    } else if (isWideChar(cp)) {
+      flush();
+      atoms.push({
+        start,
+        end: i,
+        width: advance(cp),
+        kind: 'word',
+        first: ch,
+        last: ch,
+      });
+    } else if (word) {
+      word.end = i;
+      word.width += advance(cp);
+      word.last = ch;
+    } else {
+      word = { start, end: i, width: advance(cp), kind: 'word', first: ch, last: ch };
+    }
+  }
+  flush();
+  return atoms;
+}
+
+// May the line break between atoms a and b?
+function canBreakBetween(a: Atom, b: Atom): boolean {
+  if (a.kind === 'space' || b.kind === 'space') return true;
+  if (NO_LINE_START.has(b.first)) return false;
+  if (NO_LINE_END.has(a.last)) return false;
+  return true;
+}
+
+function splitWord(
+  text: string,
+  atom: Atom,
+  maxWidth: number,
+  advance: (codePoint: number) => number,
+): Atom[] {
+  const pieces: Atom[] = [];
+  let piece: Atom | null = null;
+  let i = atom.start;
+  for (const ch of text.slice(atom.start, atom.end)) {
+    const w = advance(ch.codePointAt(0)!);
+    if (piece && piece.width + w > maxWidth) {
+      pieces.push(piece);
+      piece = null;
+    }
+    if (piece) {
+      piece.end = i + ch.length;
+      piece.width += w;
+      piece.last = ch;
+    } else {
+      piece = { start: i, end: i + ch.length, width: w, kind: 'word', first: ch, last: ch };
+    }
+    i += ch.length;
+  }
+  if (piece) pieces.push(piece);
+  return pieces;
+}
+
+export function breakLines(
+  text: string,
+  maxWidth: number,
+  advance: (codePoint: number) => number,
+): LineSpan[] {
+  const atoms: Atom[] = [];
+  for (const atom of atomize(text, advance)) {
+    if (atom.kind === 'word' && atom.width > maxWidth && atom.end - atom.start > 1) {
+      atoms.push(...splitWord(text, atom, maxWidth, advance));
+    } else {
+      atoms.push(atom);
+    }
+  }
+
+  const lines: LineSpan[] = [];
+  let line: Atom[] = [];
+  let width = 0;
+  // Where the current line began; locates an empty line in the text.
+  let lineStart = 0;
+
+  const emit = (items: Atom[]) => {
+    let last = items.length - 1;
+    while (last >= 0 && items[last].kind === 'space') last--;
+    if (last < 0) {
+      const at = items.length > 0 ? items[0].start : lineStart;
+      lines.push({ start: at, end: at });
+    } else {
+      lines.push({ start: items[0].start, end: items[last].end });
+    }
+  };
+
+  for (const atom of atoms) {
+    if (atom.kind === 'newline') {
+      emit(line);
+      line = [];
+      width = 0;
+      lineStart = atom.end;
+      continue;
+    }
+    if (atom.kind === 'space' || width + atom.width <= maxWidth || line.length === 0) {
+      line.push(atom);
+      width += atom.width;
+      continue;
+    }
+    // Overflow: break at the last allowed opportunity, carrying the atoms
+    // after it to the next line. With none, break before this atom.
+    let cut = line.length;
+    while (cut > 0 && !canBreakBetween(line[cut - 1], cut < line.length ? line[cut] : atom)) {
+      cut--;
+    }
+    if (cut === 0) cut = line.length;
+    emit(line.slice(0, cut));
+    line = line.slice(cut);
+    while (line.length > 0 && line[0].kind === 'space') line.shift();
+    line.push(atom);
+    width = line.reduce((sum, a) => sum + a.width, 0);
+  }
+  if (line.length > 0 || lines.length === 0) emit(line);
+  return lines;
+}
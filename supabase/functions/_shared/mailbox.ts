@@ -0,0 +1,729 @@
+/**
+ * Staff mailboxes (PRD §5.4): an Internal User connects their own Gmail or
+ * Microsoft 365 account over OAuth, and deliveries they send go out from
+ * that address through the provider's API instead of the ClearPress-managed
+ * one. delivery-sender.ts decides which identity a send uses; this file is
+ * the provider side:
+ *
+ *   gmail      Google OAuth + Gmail API users.messages.send. Needs
+ *              GOOGLE_OAUTH_CLIENT_ID + GOOGLE_OAUTH_CLIENT_SECRET.
+ *   microsoft  Microsoft identity platform + Graph /me/sendMail. Needs
+ *              MICROSOFT_OAUTH_CLIENT_ID + MICROSOFT_OAUTH_CLIENT_SECRET;
+ *              MICROSOFT_OAUTH_TENANT defaults to 'common'.
+ *   mock       local testing only, enabled by MAILBOX_MOCK_PROVIDER=true.
+ *              "Connecting" redirects straight back with the user's own
+ *              address; sends are written to the email-capture bucket
+ *              (the dev inbox) like EMAIL_TRANSPORT=capture.
+ *
+ * Both real providers redirect to MAILBOX_OAUTH_REDIRECT_URL (the app's
+ * /settings/mailbox/callback), which must be registered with each.
+ *
+ * Refresh tokens are stored AES-GCM encrypted (mailbox_connections,
+ * migration 0033) under MAILBOX_TOKEN_KEY — 32 random bytes, base64. The
+ * same secret signs the OAuth state, through separate HKDF-derived keys.
+ * Rotating it disconnects every mailbox: the stored tokens no longer
+ * decrypt, and sends fall back to the managed address.
+ *
+ * No Deno globals: env and the capture store are injected, so the vitest
+ * suite drives every provider with a stubbed fetch.
+ */
+import {
+  createCaptureSink,
+  type EmailCaptureStore,
+  type EmailPayload,
+  type EnvLookup,
+} from './email-transport.ts';
+import { buildMimeMessage } from './mime.ts';
+
+export type MailboxProviderName = 'gmail' | 'microsoft' | 'mock';
+
+/**
+ * Discriminated error kinds:
+ *   - 'revoked' → the grant is gone (revoked, expired, scope removed);
+ *     the connection is marked revoked and the send falls back
+ *   - 'not_configured' → provider secrets or MAILBOX_TOKEN_KEY missing
+ *   - 'transient' → 429 / 5xx from the provider; retried like any send
+ *   - 'other' → anything else
+ */
+export type MailboxErrorKind =
+  | 'revoked'
+  | 'not_configured'
+  | 'transient'
+  | 'other';
+
+export class MailboxError extends Error {
+  kind: MailboxErrorKind;
+  statusCode: number;
+  constructor(kind: MailboxErrorKind, message: string, statusCode: number) {
+    super(message);
+    this.kind = kind;
+    this.statusCode = statusCode;
+    this.name = 'MailboxError';
+  }
+}
+
+export interface MailboxAccount {
+  email: string;
+  displayName: string | null;
+  refreshToken: string;
+}
+
+export interface MailboxAccessToken {
+  accessToken: string;
+  // Set when the provider rotated the refresh token; store it instead.
+  refreshToken?: string;
+}
+
+// The connecting user, for the mock provider (which has no account of its
+// own to read the address from).
+export interface MailboxUser {
+  email: string;
+  fullName: string;
+}
+
+export interface MailboxProvider {
+  readonly name: MailboxProviderName;
+  authorizeUrl(state: string, redirectUri: string): string;
+  exchangeCode(
+    code: string,
+    redirectUri: string,
+    user: MailboxUser,
+  ): Promise<MailboxAccount>;
+  refreshAccessToken(refreshToken: string): Promise<MailboxAccessToken>;
+  send(
+    accessToken: string,
+    payload: EmailPayload,
+    messageId: string,
+  ): Promise<void>;
+  // Best effort, on disconnect. Providers without a revocation endpoint
+  // leave the grant for the user to remove from their account.
+  revoke?(refreshToken: string): Promise<void>;
+}
+
+export interface MailboxProviderDeps {
+  env: EnvLookup;
+  fetch: typeof fetch;
+  // Lazy: only the mock provider needs the service-role client behind it.
+  captureStore: () => EmailCaptureStore;
+}
+
+const GOOGLE_SCOPES = [
+  'openid',
+  'email',
+  'profile',
+  'https://www.googleapis.com/auth/gmail.send',
+];
+
+const MICROSOFT_SCOPES = [
+  'offline_access',
+  'openid',
+  'email',
+  'profile',
+  'https://graph.microsoft.com/Mail.Send',
+  'https://graph.microsoft.com/User.Read',
+];
+
+const PROVIDERS: Record<
+  MailboxProviderName,
+  {
+    configured: (env: EnvLookup) => boolean;
+    create: (deps: MailboxProviderDeps) => MailboxProvider;
+  }
+> = {
+  gmail: {
+    configured: (env) =>
+      Boolean(
+        normalizeSecret(env('GOOGLE_OAUTH_CLIENT_ID')) &&
+          normalizeSecret(env('GOOGLE_OAUTH_CLIENT_SECRET')),
+      ),
+    create: (deps) => createGmailProvider(deps),
+  },
+  microsoft: {
+    configured: (env) =>
+      Boolean(
+        normalizeSecret(env('MICROSOFT_OAUTH_CLIENT_ID')) &&
+          normalizeSecret(env('MICROSOFT_OAUTH_CLIENT_SECRET')),
+      ),
+    create: (deps) => createMicrosoftProvider(deps),
+  },
+  mock: {
+    configured: (env) => env('MAILBOX_MOCK_PROVIDER')?.trim() === 'true',
+    create: (deps) => createMockProvider(deps),
+  },
+};
+
+export function isMailboxProviderName(
+  value: string,
+): value is MailboxProviderName {
+  return Object.hasOwn(PROVIDERS, value);
+}
+
+// The providers a user may connect, in display order.
+export function availableMailboxProviders(
+  env: EnvLookup,
+): MailboxProviderName[] {
+  return (Object.keys(PROVIDERS) as MailboxProviderName[]).filter((name) =>
+    PROVIDERS[name].configured(env)
+  );
+}
+
+// Throws MailboxError('not_configured') rather than returning a provider
+// that would fail later: a connection whose provider has since been
+// switched off must not silently change who a delivery comes from.
+export function selectMailboxProvider(
+  name: MailboxProviderName,
+  deps: MailboxProviderDeps,
+): MailboxProvider {
+  const entry = PROVIDERS[name];
+  if (!entry || !entry.configured(deps.env)) {
+    throw new MailboxError(
+      'not_configured',
+      `mailbox provider '${name}' is not configured`,
+      0,
+    );
+  }
+  return entry.create(deps);
+}
+
+// ------------------------------------------------------------------
+// Gmail
+// ------------------------------------------------------------------
+
+function createGmailProvider(deps: MailboxProviderDeps): MailboxProvider {
+  const clientId = normalizeSecret(deps.env('GOOGLE_OAUTH_CLIENT_ID'))!;
+  const clientSecret = normalizeSecret(
+    deps.env('GOOGLE_OAUTH_CLIENT_SECRET'),
+  )!;
+  const tokenUrl = 'https://oauth2.googleapis.com/token';
+
+  return {
+    name: 'gmail',
+    authorizeUrl(state, redirectUri) {
+      // offline + consent: Google only returns a refresh token on a
+      // consent screen, and a reconnect must get a fresh one.
+      return 'https://accounts.google.com/o/oauth2/v2/auth?' +
+        new URLSearchParams({
+          client_id: clientId,
+          redirect_uri: redirectUri,
+          response_type: 'code',
+          scope: GOOGLE_SCOPES.join(' '),
+          access_type: 'offline',
+          prompt: 'consent',
+          state,
+        });
+    },
+    async exchangeCode(code, redirectUri) {
+      const token = await postTokenForm(deps.fetch, tokenUrl, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: clientId,
+        client_secret: clientSecret,
+      });
+      if (!token.refresh_token) {
+        throw new MailboxError(
+          'other',
+          'Google returned no refresh token (offline access not granted)',
+          0,
+        );
+      }
+      const info = await getJson(
+        deps.fetch,
+        'https://openidconnect.googleapis.com/v1/userinfo',
+        token.access_token,
+      );
+      if (typeof info.email !== 'string' || info.email_verified === false) {
+        throw new MailboxError(
+          'other',
+          'Google account has no verified email address',
+          0,
+        );
+      }
+      return {
+        email: info.email,
+        displayName: typeof info.name === 'string' ? info.name : null,
+        refreshToken: token.refresh_token,
+      };
+    },
+    async refreshAccessToken(refreshToken) {
+      const token = await postTokenForm(deps.fetch, tokenUrl, {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: clientId,
+        client_secret: clientSecret,
+      });
+      return {
+        accessToken: token.access_token,
+        refreshToken: token.refresh_token,
+      };
+    },
+    async send(accessToken, payload, messageId) {
+      // Gmail delivers to the Bcc header's addresses and strips it from
+      // what the other recipients receive.
+      const raw = buildMimeMessage(payload, {
+        messageId,
+        date: new Date(),
+        includeBcc: true,
+      });
+      const res = await deps.fetch(
+        'https://gmail.googleapis.com/gmail/v1/users/me/messages/send',
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ raw: base64UrlFromText(raw) }),
+        },
+      );
+      if (!res.ok) throw await apiError('Gmail send', res);
+    },
+    async revoke(refreshToken) {
+      await deps.fetch('https://oauth2.googleapis.com/revoke', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token: refreshToken }),
+      });
+    },
+  };
+}
+
+// ------------------------------------------------------------------
+// Microsoft 365
+// ------------------------------------------------------------------
+
+function createMicrosoftProvider(deps: MailboxProviderDeps): MailboxProvider {
+  const clientId = normalizeSecret(deps.env('MICROSOFT_OAUTH_CLIENT_ID'))!;
+  const clientSecret = normalizeSecret(
+    deps.env('MICROSOFT_OAUTH_CLIENT_SECRET'),
+  )!;
+  const tenant = deps.env('MICROSOFT_OAUTH_TENANT')?.trim() || 'common';
+  const base = `https://login.microsoftonline.com/${
+    encodeURIComponent(tenant)
+  }/oauth2/v2.0`;
+  const scope = MICROSOFT_SCOPES.join(' ');
+
+  return {
+    name: 'microsoft',
+    authorizeUrl(state, redirectUri) {
+      return `${base}/authorize?` + new URLSearchParams({
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        response_type: 'code',
+        response_mode: 'query',
+        scope,
+        prompt: 'select_account',
+        state,
+      });
+    },
+    async exchangeCode(code, redirectUri) {
+      const token = await postTokenForm(deps.fetch, `${base}/token`, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope,
+      });
+      if (!token.refresh_token) {
+        throw new MailboxError(
+          'other',
+          'Microsoft returned no refresh token (offline_access not granted)',
+          0,
+        );
+      }
+      const me = await getJson(
+        deps.fetch,
+        'https://graph.microsoft.com/v1.0/me?$select=mail,userPrincipalName,displayName',
+        token.access_token,
+      );
+      // mail is null for accounts without an Exchange mailbox; those
+      // can't send through Graph anyway.
+      if (typeof me.mail !== 'string' || me.mail === '') {
+        throw new MailboxError(
+          'other',
+          'Microsoft account has no mailbox',
+          0,
+        );
+      }
+      return {
+        email: me.mail,
+        displayName: typeof me.displayName === 'string'
+          ? me.displayName
+          : null,
+        refreshToken: token.refresh_token,
+      };
+    },
+    async refreshAccessToken(refreshToken) {
+      // Microsoft rotates refresh tokens on every use.
+      const token = await postTokenForm(deps.fetch, `${base}/token`, {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope,
+      });
+      return {
+        accessToken: token.access_token,
+        refreshToken: token.refresh_token,
+      };
+    },
+    async send(accessToken, payload) {
+      // Graph takes the message as JSON and assigns its own Message-ID;
+      // the ledger's id is what the caller records.
+      const recipients = (list: string[] | undefined) =>
+        (list ?? []).map((address) => ({ emailAddress: toGraphAddress(address) }));
+      const res = await deps.fetch(
+        'https://graph.microsoft.com/v1.0/me/sendMail',
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            message: {
+              subject: payload.subject,
+              body: payload.html !== undefined
+                ? { contentType: 'HTML', content: payload.html }
+                : { contentType: 'Text', content: payload.text ?? '' },
+              toRecipients: recipients([payload.to]),
+              ccRecipients: recipients(payload.cc),
+              bccRecipients: recipients(payload.bcc),
+              replyTo: recipients(
+                payload.reply_to ? [payload.reply_to] : undefined,
+              ),
+              attachments: (payload.attachments ?? []).map((a) => ({
+                '@odata.type': '#microsoft.graph.fileAttachment',
+                name: a.filename,
+                contentBytes: a.content,
+              })),
+            },
+            saveToSentItems: true,
+          }),
+        },
+      );
+      if (!res.ok) throw await apiError('Graph sendMail', res);
+    },
+  };
+}
+
+function toGraphAddress(mailbox: string): { address: string; name?: string } {
+  const m = mailbox.match(/^\s*"?(.*?)"?\s*<([^>]+)>\s*$/);
+  if (!m) return { address: mailbox.trim() };
+  return m[1] ? { address: m[2].trim(), name: m[1] } : { address: m[2].trim() };
+}
+
+// ------------------------------------------------------------------
+// Mock
+// ------------------------------------------------------------------
+
+const MOCK_TOKEN_PREFIX = 'mock-refresh:';
+
+function createMockProvider(deps: MailboxProviderDeps): MailboxProvider {
+  return {
+    name: 'mock',
+    authorizeUrl(state, redirectUri) {
+      const url = new URL(redirectUri);
+      url.searchParams.set('code', 'mock');
+      url.searchParams.set('state', state);
+      return url.toString();
+    },
+    exchangeCode(_code, _redirectUri, user) {
+      return Promise.resolve({
+        email: user.email,
+        displayName: user.fullName,
+        refreshToken: `${MOCK_TOKEN_PREFIX}${user.email}`,
+      });
+    },
+    refreshAccessToken(refreshToken) {
+      // A token the mock didn't issue stands for a grant the user took back.
+      if (!refreshToken.startsWith(MOCK_TOKEN_PREFIX)) {
+        return Promise.reject(
+          new MailboxError('revoked', 'mock grant revoked', 400),
+        );
+      }
+      return Promise.resolve({ accessToken: refreshToken });
+    },
+    send(_accessToken, payload, messageId) {
+      return createCaptureSink(deps.captureStore()).deliver(
+        payload,
+        messageId,
+      );
+    },
+  };
+}
+
+// ------------------------------------------------------------------
+// OAuth plumbing
+// ------------------------------------------------------------------
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+}
+
+// invalid_grant is both providers' answer for a revoked or expired
+// refresh token; interaction_required is Microsoft's for a grant that
+// now needs the user (MFA, consent withdrawn).
+const REVOKED_OAUTH_ERRORS = new Set(['invalid_grant', 'interaction_required']);
+
+async function postTokenForm(
+  fetchFn: typeof fetch,
+  url: string,
+  form: Record<string, string>,
+): Promise<TokenResponse> {
+  const res = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(form),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const code = typeof body?.error === 'string' ? body.error : '';
+    const detail = body?.error_description ?? code ?? res.statusText;
+    if (REVOKED_OAUTH_ERRORS.has(code)) {
+      throw new MailboxError('revoked', `${code}: ${detail}`, res.status);
+    }
+    throw new MailboxError(
+      res.status === 429 || res.status >= 500 ? 'transient' : 'other',
+      `token endpoint ${res.status}: ${detail}`,
+      res.status,
+    );
+  }
+  if (typeof body?.access_token !== 'string') {
+    throw new MailboxError('other', 'token response missing access_token', 0);
+  }
+  return body as TokenResponse;
+}
+
+async function getJson(
+  fetchFn: typeof fetch,
+  url: string,
+  accessToken: string,
+): Promise<Record<string, unknown>> {
+  const res = await fetchFn(url, {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+  if (!res.ok) throw await apiError('profile lookup', res);
+  return await res.json();
+}
+
+// 401 / 403 with a freshly refreshed token means the grant no longer
+// covers sending (revoked, or the send scope was removed).
+async function apiError(what: string, res: Response): Promise<MailboxError> {
+  const text = await res.text().catch(() => '');
+  const kind: MailboxErrorKind = res.status === 401 || res.status === 403
+    ? 'revoked'
+    : (res.status === 429 || res.status >= 500 ? 'transient' : 'other');
+  return new MailboxError(kind, `${what} ${res.status}: ${text}`, res.status);
+}
+
+// ------------------------------------------------------------------
+// Token encryption + OAuth state
+// ------------------------------------------------------------------
+
+export interface MailboxKeys {
+  tokens: CryptoKey;
+  state: CryptoKey;
+}
+
+const TOKEN_FORMAT = 'v1';
+
+// OAuth round trips are interactive; ten minutes covers a slow consent
+// screen without leaving a usable state lying around.
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export async function importMailboxKeys(
+  rawKey: string | undefined,
+): Promise<MailboxKeys> {
+  const secret = normalizeSecret(rawKey);
+  let bytes: Uint8Array<ArrayBuffer> | null;
+  try {
+    bytes = secret ? base64ToBytes(secret) : null;
+  } catch {
+    bytes = null;
+  }
+  if (!bytes || bytes.length !== 32) {
+    throw new MailboxError(
+      'not_configured',
+      'MAILBOX_TOKEN_KEY must be 32 bytes, base64',
+      0,
+    );
+  }
+  const master = await crypto.subtle.importKey(
+    'raw',
+    bytes,
+    'HKDF',
+    false,
+    ['deriveKey'],
+  );
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams) =>
+    crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(info),
+      },
+      master,
+      algorithm,
+      false,
+      algorithm.name === 'HMAC' ? ['sign', 'verify'] : ['encrypt', 'decrypt'],
+    );
+  return {
+    tokens: await derive('clearpress mailbox refresh token', {
+      name: 'AES-GCM',
+      length: 256,
+    }),
+    state: await derive('clearpress mailbox oauth state', {
+      name: 'HMAC',
+      hash: 'SHA-256',
+    }),
+  };
+}
+
+// v1.<iv>.<ciphertext>, both base64url.
+export async function encryptRefreshToken(
+  keys: MailboxKeys,
+  refreshToken: string,
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    keys.tokens,
+    new TextEncoder().encode(refreshToken),
+  );
+  return [
+    TOKEN_FORMAT,
+    base64UrlFromBytes(iv),
+    base64UrlFromBytes(new Uint8Array(ciphertext)),
+  ].join('.');
+}
+
+// A token that doesn't decrypt (MAILBOX_TOKEN_KEY rotated, row tampered
+// with) is as good as revoked: the user has to connect again.
+export async function decryptRefreshToken(
+  keys: MailboxKeys,
+  stored: string,
+): Promise<string> {
+  const [format, iv, ciphertext] = stored.split('.');
+  try {
+    if (format !== TOKEN_FORMAT || !iv || !ciphertext) {
+      throw new Error('unknown token format');
+    }
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytesFromBase64Url(iv) },
+      keys.tokens,
+      bytesFromBase64Url(ciphertext),
+    );
+    return new TextDecoder().decode(plain);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new MailboxError(
+      'revoked',
+      `stored refresh token unreadable: ${message}`,
+      0,
+    );
+  }
+}
+
+export interface OAuthState {
+  userId: string;
+  provider: MailboxProviderName;
+}
+
+// <payload>.<hmac>, both base64url. Binds the callback to the user who
+// started it, so a code can't be attached to someone else's account.
+export async function signOAuthState(
+  keys: MailboxKeys,
+  state: OAuthState,
+  now: Date = new Date(),
+): Promise<string> {
+  const payload = base64UrlFromText(JSON.stringify({
+    u: state.userId,
+    p: state.provider,
+    n: base64UrlFromBytes(crypto.getRandomValues(new Uint8Array(16))),
+    e: now.getTime() + OAUTH_STATE_TTL_MS,
+  }));
+  const mac = await crypto.subtle.sign(
+    'HMAC',
+    keys.state,
+    new TextEncoder().encode(payload),
+  );
+  return `${payload}.${base64UrlFromBytes(new Uint8Array(mac))}`;
+}
+
+// Returns null for a forged, malformed or expired state.
+export async function verifyOAuthState(
+  keys: MailboxKeys,
+  token: string,
+  now: Date = new Date(),
+): Promise<OAuthState | null> {
+  const [payload, mac] = token.split('.');
+  if (!payload || !mac) return null;
+  let valid: boolean;
+  try {
+    valid = await crypto.subtle.verify(
+      'HMAC',
+      keys.state,
+      bytesFromBase64Url(mac),
+      new TextEncoder().encode(payload),
+    );
+  } catch {
+    return null;
+  }
+  if (!valid) return null;
+  try {
+    const decoded = JSON.parse(
+      new TextDecoder().decode(bytesFromBase64Url(payload)),
+    );
+    if (
+      typeof decoded.u !== 'string' ||
+      typeof decoded.p !== 'string' ||
+      !isMailboxProviderName(decoded.p) ||
+      typeof decoded.e !== 'number' ||
+      decoded.e < now.getTime()
+    ) {
+      return null;
+    }
+    return { userId: decoded.u, provider: decoded.p };
+  } catch {
+    return null;
+  }
+}
+
+// ------------------------------------------------------------------
+// Encoding helpers
+// ------------------------------------------------------------------
+
+function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function bytesFromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+}
+
+function base64UrlFromBytes(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(
+    /=+$/,
+    '',
+  );
+}
+
+function base64UrlFromText(value: string): string {
+  return base64UrlFromBytes(new TextEncoder().encode(value));
+}
+
+function normalizeSecret(value: string | undefined): string | undefined {
+  return value?.trim().replace(/^['"]|['"]$/g, '') || undefined;
+}
@@ -0,0 +1,177 @@
+/**
+ * RFC 5322 / MIME serialisation of an EmailPayload — the message the smtp
+ * transport hands to the relay and the capture transport stores as .eml.
+ *
+ * Layout: text/plain and text/html as multipart/alternative when both are
+ * present, wrapped in multipart/mixed with the attachments. Every part is
+ * UTF-8, base64-encoded, so no body line needs dot-stuffing or exceeds the
+ * 998-octet limit. Non-ASCII display names and subjects become RFC 2047
+ * encoded-words.
+ *
+ * No Deno globals: the vitest suite builds messages and the dev inbox's
+ * parser (src/lib/eml.ts) is tested against this output.
+ */
+import type { EmailAttachment, EmailPayload } from './email-transport.ts';
+
+export interface MimeOptions {
+  messageId: string;
+  date: Date;
+  // Capture only: a Bcc header records who the message would have gone to.
+  // Never set for a real send — the relay would deliver it to everyone.
+  includeBcc?: boolean;
+}
+
+const CRLF = '\r\n';
+
+const ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx:
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export function buildMimeMessage(
+  payload: EmailPayload,
+  opts: MimeOptions,
+): string {
+  const seed = crypto.randomUUID().replace(/-/g, '');
+  const headers: string[] = [
+    `From: ${encodeAddress(payload.from)}`,
+    `To: ${encodeAddress(payload.to)}`,
+  ];
+  if (payload.cc?.length) {
+    headers.push(`Cc: ${payload.cc.map(encodeAddress).join(', ')}`);
+  }
+  if (opts.includeBcc && payload.bcc?.length) {
+    headers.push(`Bcc: ${payload.bcc.map(encodeAddress).join(', ')}`);
+  }
+  if (payload.reply_to) {
+    headers.push(`Reply-To: ${encodeAddress(payload.reply_to)}`);
+  }
+  headers.push(
+    `Subject: ${encodeHeaderText(payload.subject)}`,
+    `Date: ${opts.date.toUTCString()}`,
+    `Message-ID: <${opts.messageId}>`,
+    'MIME-Version: 1.0',
+  );
+
+  const body = bodyPart(payload, seed);
+  const attachments = payload.attachments ?? [];
+  const root = attachments.length === 0
+    ? body
+    : multipart('mixed', `mixed_${seed}`, [
+      body,
+      ...attachments.map(attachmentPart),
+    ]);
+  return [...headers, ...root.headers].join(CRLF) + CRLF + CRLF + root.body;
+}
+
+// The bare address of a "Name <addr>" mailbox, as SMTP's envelope needs it.
+export function addressOf(mailbox: string): string {
+  const angle = mailbox.match(/<([^>]+)>\s*$/);
+  return (angle ? angle[1] : mailbox).trim();
+}
+
+interface Part {
+  headers: string[];
+  body: string;
+}
+
+function bodyPart(payload: EmailPayload, seed: string): Part {
+  const text = payload.text !== undefined
+    ? textPart('plain', payload.text)
+    : null;
+  const html = payload.html !== undefined ? textPart('html', payload.html) : null;
+  if (text && html) return multipart('alternative', `alt_${seed}`, [text, html]);
+  return text ?? html ?? textPart('plain', '');
+}
+
+function textPart(subtype: 'plain' | 'html', content: string): Part {
+  return {
+    headers: [
+      `Content-Type: text/${subtype}; charset=UTF-8`,
+      'Content-Transfer-Encoding: base64',
+    ],
+    body: wrapBase64(utf8ToBase64(content)),
+  };
+}
+
+function attachmentPart(attachment: EmailAttachment): Part {
+  const ext = attachment.filename.split('.').pop()?.toLowerCase() ?? '';
+  const type = ATTACHMENT_TYPES[ext] ?? 'application/octet-stream';
+  const name = encodeParameter(attachment.filename);
+  return {
+    headers: [
+      `Content-Type: ${type}; name=${name}`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename=${name}`,
+    ],
+    body: wrapBase64(attachment.content.replace(/\s+/g, '')),
+  };
+}
+
+function multipart(subtype: string, boundary: string, parts: Part[]): Part {
+  const b = `=_cp_${boundary}`;
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${b}"`],
+    body: parts
+      .map((p) => `--${b}${CRLF}${p.headers.join(CRLF)}${CRLF}${CRLF}${p.body}`)
+      .join(CRLF) + `${CRLF}--${b}--`,
+  };
+}
+
+function encodeAddress(mailbox: string): string {
+  const m = mailbox.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!m || m[1] === '') return addressOf(mailbox);
+  const name = m[1].replace(/^"(.*)"$/, '$1');
+  const display = isPrintableAscii(name)
+    ? `"${name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeaderText(name);
+  return `${display} <${m[2].trim()}>`;
+}
+
+// RFC 2047 B-encoding, split on character boundaries so each encoded-word
+// (and the header line it starts) stays within 78 chars.
+function encodeHeaderText(value: string): string {
+  if (isPrintableAscii(value)) return value;
+  const words: string[] = [];
+  let chunk = '';
+  for (const ch of value) {
+    if (utf8Length(chunk + ch) > 36) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += ch;
+  }
+  if (chunk !== '') words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${utf8ToBase64(w)}?=`).join(`${CRLF} `);
+}
+
+// RFC 2231 is not universally read; a single quoted encoded-word is what
+// most clients write (and read) for non-ASCII attachment names.
+function encodeParameter(value: string): string {
+  if (isPrintableAscii(value)) return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+  return `"=?UTF-8?B?${utf8ToBase64(value)}?="`;
+}
+
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+function utf8Length(value: string): number {
+  return new TextEncoder().encode(value).byteLength;
+}
+
+function utf8ToBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function wrapBase64(b64: string): string {
+  const lines: string[] = [];
+  for (let i = 0; i < b64.length; i += 76) lines.push(b64.slice(i, i + 76));
+  return lines.join(CRLF);
+}
@@ -0,0 +1,631 @@
+/**
+ * The local PDF engine: lays out our own document HTML and writes the PDF
+ * in-process, with no network call and no content leaving the function.
+ *
+ *   html-blocks.ts        HTML → headings, paragraphs, lists, tables, …
+ *   line-break.ts         Japanese-aware line breaking (kinsoku shori)
+ *   truetype.ts           font metrics + glyph subsetting
+ *   pdf-writer.ts         PDF objects, embedded font, ToUnicode
+ *
+ * Takes the same PdfOptions as pdfshift. Header and footer sources are the
+ * small inline-styled <div>s doc-rendering.ts builds (the DRAFT banner,
+ * buildFooterText); their text, colours, size and alignment are read from
+ * the inline style and drawn on every page, with pdfshift's {{page}} and
+ * {{total}} placeholders substituted. Margins and heights are CSS px, as
+ * pdfshift takes them.
+ *
+ * One font covers the whole document — a TrueType Japanese font with Latin
+ * glyphs (IPAexGothic, for example) loaded once per isolate. Bold is drawn
+ * by stroking the fill, so no second font file is needed.
+ *
+ * No Deno globals: the font comes in through a loader, so the vitest suite
+ * renders with an in-memory font.
+ */
+import type { PdfOptions } from './doc-rendering.ts';
+import {
+  type Block,
+  decodeEntities,
+  htmlToBlocks,
+  readDocumentStyle,
+  type TextRun,
+} from './html-blocks.ts';
+import { breakLines } from './line-break.ts';
+import { type PdfRenderer, PdfRenderError } from './pdf-renderer.ts';
+import { pdfNumber, type PdfPageContent, writePdf } from './pdf-writer.ts';
+import { parseTrueType, type TrueTypeFont } from './truetype.ts';
+
+export type FontLoader = () => Promise<Uint8Array>;
+
+const PX = 0.75;
+
+const PAGE_SIZES: Record<string, [number, number]> = {
+  a3: [841.89, 1190.55],
+  a4: [595.28, 841.89],
+  a5: [419.53, 595.28],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+type Rgb = [number, number, number];
+
+const TEXT: Rgb = [0x11, 0x18, 0x27];
+const MUTED: Rgb = [0x6b, 0x72, 0x80];
+const RULE: Rgb = [0xe5, 0xe7, 0xeb];
+const HEADER_FILL: Rgb = [0xf3, 0xf4, 0xf6];
+
+interface Segment extends TextRun {
+  size: number;
+}
+
+type DrawCommand =
+  | { type: 'text'; x: number; y: number; segments: Segment[]; color?: Rgb }
+  | { type: 'rect'; x: number; y: number; w: number; h: number; fill: Rgb }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color: Rgb };
+
+interface Frame {
+  width: number;
+  height: number;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+function plainText(runs: TextRun[]): string {
+  return runs.map((r) => r.text).join('');
+}
+
+function parseColor(value: string | undefined): Rgb | null {
+  if (!value) return null;
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const h = hex[1].length === 3
+      ? hex[1].split('').map((c) => c + c).join('')
+      : hex[1];
+    return [0, 2, 4].map((i) => parseInt(h.slice(i, i + 2), 16)) as Rgb;
+  }
+  const named: Record<string, Rgb> = {
+    white: [255, 255, 255],
+    black: [0, 0, 0],
+  };
+  return named[value.trim().toLowerCase()] ?? null;
+}
+
+function rgbOps(c: Rgb, op: 'rg' | 'RG'): string {
+  return `${c.map((v) => pdfNumber(v / 255)).join(' ')} ${op}`;
+}
+
+interface Band {
+  text: string;
+  size: number;
+  color: Rgb;
+  background: Rgb | null;
+  bold: boolean;
+  align: 'left' | 'center' | 'right';
+  padding: number;
+}
+
+// Reads a header/footer source: inline style of its first element, plus
+// its text content.
+export function parseBand(source: string): Band {
+  const style = source.match(/style\s*=\s*"([^"]*)"/i)?.[1] ?? '';
+  const prop = (name: string) => {
+    const m = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`, 'i'));
+    return m ? decodeEntities(m[1]).trim() : undefined;
+  };
+  const size = parseFloat(prop('font-size') ?? '') || 9;
+  const padding = parseFloat(prop('padding') ?? '') || 0;
+  const weight = prop('font-weight');
+  const align = prop('text-align');
+  return {
+    text: decodeEntities(source.replace(/<[^>]*>/g, '')).trim(),
+    size: size * PX,
+    color: parseColor(prop('color')) ?? MUTED,
+    background: parseColor(prop('background') ?? prop('background-color')),
+    bold: weight === 'bold' || Number(weight) >= 600,
+    align: align === 'left' || align === 'right' ? align : 'center',
+    padding: padding * PX,
+  };
+}
+
+function pageFrame(opts: PdfOptions): Frame {
+  const [width, height] = PAGE_SIZES[(opts.format ?? 'A4').toLowerCase()] ??
+    PAGE_SIZES.a4;
+  const m = (v: string | undefined) => (parseFloat(v ?? '') || 40) * PX;
+  return {
+    width,
+    height,
+    left: m(opts.margin?.left),
+    right: width - m(opts.margin?.right),
+    top: m(opts.margin?.top),
+    bottom: height - m(opts.margin?.bottom),
+  };
+}
+
+interface Typesetter {
+  ascentRatio: number;
+  width(text: string, size: number): number;
+  lines(runs: TextRun[], maxWidth: number, size: number): Segment[][];
+}
+
+function createTypesetter(font: TrueTypeFont): Typesetter {
+  const advances = new Map<number, number>();
+  const unit = (cp: number) => {
+    let a = advances.get(cp);
+    if (a === undefined) {
+      a = font.advanceWidth(font.glyphId(cp === 9 ? 32 : cp)) / font.unitsPerEm;
+      advances.set(cp, a);
+    }
+    return a;
+  };
+  const width = (text: string, size: number) => {
+    let w = 0;
+    for (const ch of text) w += unit(ch.codePointAt(0)!);
+    return w * size;
+  };
+  return {
+    ascentRatio: font.ascent / (font.ascent - font.descent),
+    width,
+    lines(runs, maxWidth, size) {
+      const text = runs.map((r) => r.text).join('');
+      const spans = breakLines(text, maxWidth, (cp) => unit(cp) * size);
+      return spans.map(({ start, end }) => {
+        const segments: Segment[] = [];
+        let at = 0;
+        for (const r of runs) {
+          const s = Math.max(start, at);
+          const e = Math.min(end, at + r.text.length);
+          if (s < e) {
+            segments.push({
+              text: text.slice(s, e),
+              bold: r.bold,
+              muted: r.muted,
+              size,
+            });
+          }
+          at += r.text.length;
+        }
+        return segments;
+      });
+    },
+  };
+}
+
+// Top-down layout onto pages of draw commands. y grows downward here and
+// is flipped when the content stream is written.
+function layout(
+  blocks: Block[],
+  html: string,
+  frame: Frame,
+  ts: Typesetter,
+): DrawCommand[][] {
+  const style = readDocumentStyle(html);
+  const base = style.fontSize * PX;
+  const leading = style.lineHeight;
+  const contentWidth = frame.right - frame.left;
+
+  const pages: DrawCommand[][] = [[]];
+  let y = frame.top;
+  const page = () => pages[pages.length - 1];
+  const atTop = () => y === frame.top;
+  const newPage = () => {
+    pages.push([]);
+    y = frame.top;
+  };
+  const ensure = (h: number) => {
+    if (y + h > frame.bottom && !atTop()) newPage();
+  };
+
+  const drawLine = (
+    segments: Segment[],
+    x: number,
+    lineTop: number,
+    size: number,
+  ) => {
+    const lineHeight = size * leading;
+    const baseline = lineTop + (lineHeight - size) / 2 + size * ts.ascentRatio;
+    if (segments.length > 0) {
+      page().push({ type: 'text', x, y: baseline, segments });
+    }
+  };
+
+  const rule = (x1: number, y1: number, x2: number, y2: number) => {
+    page().push({ type: 'line', x1, y1, x2, y2, color: RULE });
+  };
+
+  const paragraph = (
+    runs: TextRun[],
+    size: number,
+    x: number,
+    width: number,
+  ) => {
+    const lineHeight = size * leading;
+    for (const line of ts.lines(runs, width, size)) {
+      ensure(lineHeight);
+      drawLine(line, x, y, size);
+      y += lineHeight;
+    }
+  };
+
+  const table = (
+    header: TextRun[][] | null,
+    rows: TextRun[][][],
+    size: number,
+  ) => {
+    const padX = 4;
+    const padY = 2;
+    const lineHeight = size * leading;
+    const cols = Math.max(header?.length ?? 0, ...rows.map((r) => r.length));
+    if (cols === 0) return;
+    const all = header ? [header, ...rows] : rows;
+
+    // Each column asks for its widest single-line cell; when the total
+    // doesn't fit, columns under an equal share keep what they asked for
+    // and the rest split the remainder in proportion to their request.
+    const cellWidth = (cell: TextRun[] | undefined) =>
+      cell
+        ? Math.max(
+          ...plainText(cell).split('\n').map((l) => ts.width(l, size)),
+        ) + padX * 2
+        : 0;
+    const natural = Array.from(
+      { length: cols },
+      (_, c) => Math.max(24, ...all.map((r) => cellWidth(r[c]))),
+    );
+    const total = natural.reduce((a, b) => a + b, 0);
+    let widths: number[];
+    if (total <= contentWidth) {
+      widths = natural.map((w) => (w * contentWidth) / total);
+    } else {
+      const share = contentWidth / cols;
+      const small = natural.map((w) => w <= share);
+      const fixed = natural.reduce((sum, w, i) => sum + (small[i] ? w : 0), 0);
+      const wide = natural.reduce((sum, w, i) => sum + (small[i] ? 0 : w), 0);
+      widths = natural.map((w, i) =>
+        small[i] ? w : ((contentWidth - fixed) * w) / wide
+      );
+    }
+
+    const cellLines = (row: TextRun[][]) =>
+      widths.map((w, c) => (row[c] ? ts.lines(row[c], w - padX * 2, size) : []));
+
+    const drawRow = (lines: Segment[][][], fill: Rgb | null) => {
+      const count = Math.max(1, ...lines.map((l) => l.length));
+      const h = count * lineHeight + padY * 2;
+      let x = frame.left;
+      if (fill) page().push({ type: 'rect', x, y, w: contentWidth, h, fill });
+      widths.forEach((w, c) => {
+        (lines[c] ?? []).forEach((line, i) => {
+          drawLine(line, x + padX, y + padY + i * lineHeight, size);
+        });
+        rule(x, y, x + w, y);
+        rule(x, y + h, x + w, y + h);
+        rule(x, y, x, y + h);
+        x += w;
+      });
+      rule(x, y, x, y + h);
+      y += h;
+    };
+
+    const headerLines = header ? cellLines(header) : null;
+    const headerHeight = headerLines
+      ? Math.max(1, ...headerLines.map((l) => l.length)) * lineHeight + padY * 2
+      : 0;
+    const drawHeader = () => {
+      if (headerLines) drawRow(headerLines, HEADER_FILL);
+    };
+
+    ensure(headerHeight + lineHeight + padY * 2);
+    drawHeader();
+    for (const row of rows) {
+      let lines = cellLines(row);
+      for (;;) {
+        const count = Math.max(1, ...lines.map((l) => l.length));
+        const h = count * lineHeight + padY * 2;
+        if (y + h <= frame.bottom) {
+          drawRow(lines, null);
+          break;
+        }
+        // Rows never split unless a row is taller than a whole page; then
+        // it continues on the next page below the repeated header.
+        const room = Math.floor((frame.bottom - y - padY * 2) / lineHeight);
+        const fullPage = frame.bottom - frame.top - headerHeight;
+        if (h <= fullPage || room < 1) {
+          newPage();
+          drawHeader();
+          if (h <= fullPage) continue;
+        }
+        const fit = Math.max(
+          1,
+          Math.floor((frame.bottom - y - padY * 2) / lineHeight),
+        );
+        drawRow(lines.map((l) => l.slice(0, fit)), null);
+        lines = lines.map((l) => l.slice(fit));
+        newPage();
+        drawHeader();
+      }
+    }
+  };
+
+  blocks.forEach((block, index) => {
+    switch (block.kind) {
+      case 'pageBreak':
+        if (!atTop()) newPage();
+        return;
+      case 'heading': {
+        const size = style.headingSizes[block.level] * PX;
+        const lineHeight = size * 1.3;
+        if (!atTop()) y += size * 0.6;
+        // Keep the heading with at least two lines of what follows.
+        ensure(lineHeight + base * leading * 2);
+        for (const line of ts.lines(
+          block.runs.map((r) => ({ ...r, bold: true })),
+          contentWidth,
+          size,
+        )) {
+          drawLine(line, frame.left, y + (lineHeight - size * leading) / 2, size);
+          y += lineHeight;
+        }
+        if (block.level === 2 && style.h2Rule) {
+          y += 3;
+          rule(frame.left, y, frame.right, y);
+          y += 2;
+        }
+        y += size * 0.4;
+        return;
+      }
+      case 'paragraph': {
+        const size = block.muted ? base * 0.9 : base;
+        paragraph(block.runs, size, frame.left, contentWidth);
+        y += base * 0.5;
+        return;
+      }
+      case 'pre':
+        paragraph(
+          [{ text: block.text, bold: false, muted: false }],
+          base,
+          frame.left,
+          contentWidth,
+        );
+        y += base * 0.5;
+        return;
+      case 'list': {
+        const indent = base * 1.6;
+        block.items.forEach((item, i) => {
+          const marker = block.ordered ? `${i + 1}.` : '•';
+          const lineHeight = base * leading;
+          ensure(lineHeight);
+          const markerWidth = ts.width(marker, base);
+          drawLine(
+            [{ text: marker, bold: false, muted: false, size: base }],
+            frame.left + indent - markerWidth - base * 0.4,
+            y,
+            base,
+          );
+          paragraph(item, base, frame.left + indent, contentWidth - indent);
+        });
+        y += base * 0.5;
+        return;
+      }
+      case 'definitions': {
+        const size = base;
+        const termWidth = Math.min(
+          contentWidth * 0.4,
+          Math.max(
+            0,
+            ...block.items.map((d) => ts.width(plainText(d.term), size)),
+          ) + size,
+        );
+        const lineHeight = size * leading;
+        for (const d of block.items) {
+          const term = ts.lines(d.term, termWidth - size, size);
+          const detail = ts.lines(d.detail, contentWidth - termWidth, size);
+          const count = Math.max(1, term.length, detail.length);
+          ensure(Math.min(count, 3) * lineHeight);
+          for (let i = 0; i < count; i++) {
+            ensure(lineHeight);
+            if (term[i]) drawLine(term[i], frame.left, y, size);
+            if (detail[i]) drawLine(detail[i], frame.left + termWidth, y, size);
+            y += lineHeight;
+          }
+        }
+        y += base * 0.5;
+        return;
+      }
+      case 'table':
+        table(block.header, block.rows, base);
+        if (index < blocks.length - 1) y += base * 0.8;
+        return;
+    }
+  });
+
+  // A trailing page break can leave an empty last page.
+  if (pages.length > 1 && page().length === 0) pages.pop();
+  return pages;
+}
+
+function drawBand(
+  band: Band,
+  y: number,
+  frame: Frame,
+  ts: Typesetter,
+): DrawCommand[] {
+  const out: DrawCommand[] = [];
+  const boxHeight = band.size * 1.4 + band.padding * 2;
+  if (band.background) {
+    out.push({
+      type: 'rect',
+      x: frame.left,
+      y,
+      w: frame.right - frame.left,
+      h: boxHeight,
+      fill: band.background,
+    });
+  }
+  const contentWidth = frame.right - frame.left;
+  const lines = ts.lines(
+    [{ text: band.text, bold: band.bold, muted: false }],
+    contentWidth,
+    band.size,
+  );
+  const line = lines[0] ?? [];
+  const textWidth = line.reduce((w, s) => w + ts.width(s.text, s.size), 0);
+  const x = band.align === 'left'
+    ? frame.left
+    : band.align === 'right'
+    ? frame.right - textWidth
+    : frame.left + (contentWidth - textWidth) / 2;
+  const baseline = y + band.padding + band.size * 0.2 + band.size * ts.ascentRatio;
+  out.push({ type: 'text', x, y: baseline, segments: line, color: band.color });
+  return out;
+}
+
+function placeholders(text: string, pageNo: number, total: number): string {
+  return text.replace(/\{\{page\}\}/g, String(pageNo)).replace(
+    /\{\{total\}\}/g,
+    String(total),
+  );
+}
+
+function toOps(
+  commands: DrawCommand[],
+  pageHeight: number,
+  font: TrueTypeFont,
+  glyphs: Map<number, string>,
+): string {
+  const ops: string[] = [];
+  const flip = (y: number) => pdfNumber(pageHeight - y);
+  for (const c of commands) {
+    if (c.type === 'rect') {
+      ops.push(
+        rgbOps(c.fill, 'rg'),
+        `${pdfNumber(c.x)} ${flip(c.y + c.h)}`
+          + ` ${pdfNumber(c.w)} ${pdfNumber(c.h)} re f`,
+      );
+    } else if (c.type === 'line') {
+      ops.push(
+        rgbOps(c.color, 'RG'),
+        '0.5 w',
+        `${pdfNumber(c.x1)} ${flip(c.y1)} m ${pdfNumber(c.x2)} ${flip(c.y2)} l S`,
+      );
+    } else {
+      let x = c.x;
+      for (const s of c.segments) {
+        let hex = '';
+        let advance = 0;
+        for (const ch of s.text) {
+          const cp = ch === '\t' ? 32 : ch.codePointAt(0)!;
+          if (cp < 32) continue;
+          const gid = font.glyphId(cp);
+          if (!glyphs.has(gid)) glyphs.set(gid, gid === 0 ? '�' : ch);
+          hex += gid.toString(16).toUpperCase().padStart(4, '0');
+          advance += font.advanceWidth(gid);
+        }
+        const color = c.color ?? (s.muted ? MUTED : TEXT);
+        ops.push(rgbOps(color, 'rg'));
+        if (s.bold) {
+          ops.push(rgbOps(color, 'RG'), `${pdfNumber(s.size * 0.03)} w`, '2 Tr');
+        }
+        ops.push(
+          `BT /F1 ${pdfNumber(s.size)} Tf`
+            + ` ${pdfNumber(x)} ${flip(c.y)} Td <${hex}> Tj ET`,
+        );
+        if (s.bold) ops.push('0 Tr');
+        x += (advance / font.unitsPerEm) * s.size;
+      }
+    }
+  }
+  return ops.join('\n');
+}
+
+export function createLocalPdfRenderer(loadFont: FontLoader): PdfRenderer {
+  let fontPromise: Promise<TrueTypeFont> | null = null;
+  const getFont = () => {
+    fontPromise ??= loadFont().then(parseTrueType);
+    // A failed load is retried on the next render rather than cached.
+    fontPromise.catch(() => {
+      fontPromise = null;
+    });
+    return fontPromise;
+  };
+
+  return {
+    name: 'local',
+    async render(html, opts = {}) {
+      let font: TrueTypeFont;
+      try {
+        font = await getFont();
+      } catch (err) {
+        throw new PdfRenderError(
+          'local',
+          `font load failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+      try {
+        const frame = pageFrame(opts);
+        const ts = createTypesetter(font);
+        const pages = layout(htmlToBlocks(html), html, frame, ts);
+        const header = opts.header ? parseBand(opts.header.source) : null;
+        const footer = opts.footer ? parseBand(opts.footer.source) : null;
+
+        const glyphs = new Map<number, string>();
+        const contents: PdfPageContent[] = pages.map((commands, i) => {
+          const all = [...commands];
+          const bands: [Band | null, number][] = [
+            [header, frame.top],
+            [footer, frame.height - frame.bottom],
+          ];
+          bands.forEach(([band, space], which) => {
+            if (!band) return;
+            const b = {
+              ...band,
+              text: placeholders(band.text, i + 1, pages.length),
+            };
+            const boxHeight = b.size * 1.4 + b.padding * 2;
+            const top = which === 0
+              ? Math.max(0, (space - boxHeight) / 2)
+              : frame.bottom + Math.max(0, (space - boxHeight) / 2);
+            all.push(...drawBand(b, top, frame, ts));
+          });
+          return {
+            width: frame.width,
+            height: frame.height,
+            ops: toOps(all, frame.height, font, glyphs),
+          };
+        });
+
+        const title = html.match(/<title>([\s\S]*?)<\/title>/i)?.[1];
+        return await writePdf(contents, font, glyphs, {
+          title: title ? decodeEntities(title).trim() : undefined,
+          producer: 'ClearPress local PDF renderer',
+        });
+      } catch (err) {
+        if (err instanceof PdfRenderError) throw err;
+        throw new PdfRenderError(
+          'local',
+          err instanceof Error ? err.message : String(err),
+        );
+      }
+    },
+  };
+}
+
+// Fetches the font once per isolate. https:// for a font in a storage
+// bucket or CDN; file:// works under Deno for a font shipped with the
+// function.
+const fontCache = new Map<string, Promise<Uint8Array>>();
+
+export function fetchFontLoader(url: string): FontLoader {
+  return () => {
+    let pending = fontCache.get(url);
+    if (!pending) {
+      pending = fetch(url).then(async (res) => {
+        if (!res.ok) throw new Error(`GET ${url}: ${res.status}`);
+        return new Uint8Array(await res.arrayBuffer());
+      });
+      pending.catch(() => fontCache.delete(url));
+      fontCache.set(url, pending);
+    }
+    return pending;
+  };
+}
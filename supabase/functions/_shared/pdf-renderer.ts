@@ -0,0 +1,96 @@
+/**
+ * Pluggable HTML → PDF rendering.
+ *
+ * Every PDF the system produces (delivery attachments, archival audit
+ * reports) goes through a PdfRenderer, picked by the PDF_RENDERER secret:
+ *
+ *   local (default)  pure-TypeScript engine in this isolate
+ *                    (pdf-local-renderer.ts); needs PDF_FONT_URL, a
+ *                    TrueType Japanese font (e.g. IPAexGothic .ttf).
+ *   pdfshift         pdfshift.io v3 (Chromium); needs PDFSHIFT_API_KEY.
+ *
+ * Further engines register in RENDERERS. Callers that need a specific
+ * engine — tests, or a backfill run against a local renderer — pass one
+ * explicitly instead of going through selectPdfRenderer.
+ *
+ * No Deno globals here: env access is injected so the vitest suite can
+ * exercise engine selection and the pdfshift request directly.
+ */
+import { buildPdfConvertBody, type PdfOptions } from './doc-rendering.ts';
+import { createLocalPdfRenderer, fetchFontLoader } from './pdf-local-renderer.ts';
+
+export interface PdfRenderer {
+  // Recorded with archived PDFs (audit_reports.archive_renderer) so a
+  // rendering difference can be traced back to the engine that made it.
+  readonly name: string;
+  render(html: string, opts?: PdfOptions): Promise<Uint8Array>;
+}
+
+export class PdfRenderError extends Error {
+  renderer: string;
+  constructor(renderer: string, message: string) {
+    super(message);
+    this.renderer = renderer;
+    this.name = 'PdfRenderError';
+  }
+}
+
+export type EnvLookup = (name: string) => string | undefined;
+
+export const DEFAULT_PDF_RENDERER = 'local';
+
+const PDFSHIFT_URL = 'https://api.pdfshift.io/v3/convert/pdf';
+
+export function createPdfshiftRenderer(apiKey: string): PdfRenderer {
+  return {
+    name: 'pdfshift',
+    async render(html, opts = {}) {
+      const res = await fetch(PDFSHIFT_URL, {
+        method: 'POST',
+        headers: {
+          'X-API-Key': apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildPdfConvertBody(html, opts)),
+      });
+      if (!res.ok) {
+        const errText = await res.text();
+        throw new PdfRenderError('pdfshift', `pdfshift ${res.status}: ${errText}`);
+      }
+      return new Uint8Array(await res.arrayBuffer());
+    },
+  };
+}
+
+const RENDERERS: Record<string, (env: EnvLookup) => PdfRenderer> = {
+  local: (env) => {
+    const fontUrl = normalizeSecret(env('PDF_FONT_URL'));
+    if (!fontUrl) {
+      throw new PdfRenderError('local', 'PDF_FONT_URL not set');
+    }
+    return createLocalPdfRenderer(fetchFontLoader(fontUrl));
+  },
+  pdfshift: (env) => {
+    const apiKey = normalizeSecret(env('PDFSHIFT_API_KEY'));
+    if (!apiKey) {
+      throw new PdfRenderError('pdfshift', 'PDFSHIFT_API_KEY not set');
+    }
+    return createPdfshiftRenderer(apiKey);
+  },
+};
+
+// Resolves the configured engine. Throws PdfRenderError for an unknown
+// PDF_RENDERER value or a missing engine secret, so a misconfiguration
+// fails the render instead of silently falling back to another engine.
+export function selectPdfRenderer(env: EnvLookup): PdfRenderer {
+  const name = env('PDF_RENDERER')?.trim() || DEFAULT_PDF_RENDERER;
+  const factory = RENDERERS[name];
+  if (!factory) {
+    throw new PdfRenderError(name, `unknown PDF_RENDERER '${name}'`);
+  }
+  return factory(env);
+}
+
+function normalizeSecret(value: string | undefined): string | undefined {
+  return value?.trim().replace(/^['"]|['"]$/g, '');
+}
@@ -0,0 +1,247 @@
+/**
+ * Serializes laid-out pages into a PDF 1.7 file with one embedded,
+ * subsetted TrueType font (truetype.ts).
+ *
+ * The font goes in as a Type0 / CIDFontType2 pair with Identity-H
+ * encoding: content streams address glyphs by glyph ID, two bytes each,
+ * which covers any font size a Japanese font needs. A ToUnicode CMap maps
+ * every glyph back to its text, so copy/paste and search work in viewers.
+ *
+ * Output is deterministic — no creation date, no random IDs — so the same
+ * document renders to the same bytes and hashes (audit archives record the
+ * SHA-256 of what was rendered).
+ */
+import type { TrueTypeFont } from './truetype.ts';
+
+export interface PdfPageContent {
+  width: number;
+  height: number;
+  // Content stream operators; the font is available as /F1.
+  ops: string;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  producer?: string;
+}
+
+const encoder = new TextEncoder();
+
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(data));
+      controller.close();
+    },
+  }).pipeThrough(new CompressionStream('deflate'));
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+  let at = 0;
+  for (const c of chunks) {
+    out.set(c, at);
+    at += c.byteLength;
+  }
+  return out;
+}
+
+function hex4(n: number): string {
+  return n.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function utf16Hex(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) out += hex4(text.charCodeAt(i));
+  return out;
+}
+
+export function pdfNumber(n: number): string {
+  const fixed = n.toFixed(2);
+  return fixed.replace(/\.?0+$/, '') || '0';
+}
+
+// Six uppercase letters derived from the glyph set (ISO 32000 §9.6.4), so
+// the tag is stable for the same subset.
+function subsetTag(glyphIds: number[]): string {
+  let h = 2166136261;
+  for (const g of glyphIds) {
+    h ^= g;
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  let tag = '';
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (h % 26));
+    h = Math.floor(h / 26) + i * 7919;
+  }
+  return tag;
+}
+
+function toUnicodeCMap(glyphs: Map<number, string>): string {
+  const entries = [...glyphs.entries()].sort((a, b) => a[0] - b[0]);
+  const chunks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const part = entries.slice(i, i + 100);
+    chunks.push(
+      `${part.length} beginbfchar\n`
+        + part.map(([gid, text]) => `<${hex4(gid)}> <${utf16Hex(text)}>`).join('\n')
+        + '\nendbfchar',
+    );
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...chunks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+// `glyphs` maps every glyph ID used in the page content to the text it
+// stands for.
+export async function writePdf(
+  pages: PdfPageContent[],
+  font: TrueTypeFont,
+  glyphs: Map<number, string>,
+  info: PdfDocumentInfo = {},
+): Promise<Uint8Array> {
+  const objects: (Uint8Array | null)[] = [];
+  const reserve = () => {
+    objects.push(null);
+    return objects.length;
+  };
+  const set = (id: number, body: string | Uint8Array) => {
+    objects[id - 1] = typeof body === 'string' ? encoder.encode(body) : body;
+  };
+  const stream = async (dict: string, data: Uint8Array) => {
+    const packed = await deflate(data);
+    return concat([
+      encoder.encode(
+        `<< ${dict} /Length ${packed.byteLength} /Filter /FlateDecode >>\nstream\n`,
+      ),
+      packed,
+      encoder.encode('\nendstream'),
+    ]);
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const fontId = reserve();
+  const cidFontId = reserve();
+  const descriptorId = reserve();
+  const fontFileId = reserve();
+  const toUnicodeId = reserve();
+  const infoId = reserve();
+
+  const scale = 1000 / font.unitsPerEm;
+  const gids = [...glyphs.keys()].sort((a, b) => a - b);
+  const baseFont = `${subsetTag(gids)}+${font.postscriptName}`;
+
+  const fontFile = font.subset(gids);
+  set(fontFileId, await stream(`/Length1 ${fontFile.byteLength}`, fontFile));
+  set(toUnicodeId, await stream('', encoder.encode(toUnicodeCMap(glyphs))));
+  set(
+    descriptorId,
+    `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 4`
+      + ` /FontBBox [${font.bbox.map((v) => pdfNumber(v * scale)).join(' ')}]`
+      + ` /ItalicAngle ${pdfNumber(font.italicAngle)}`
+      + ` /Ascent ${pdfNumber(font.ascent * scale)}`
+      + ` /Descent ${pdfNumber(font.descent * scale)}`
+      + ` /CapHeight ${pdfNumber(font.capHeight * scale)}`
+      + ` /StemV 80 /FontFile2 ${fontFileId} 0 R >>`,
+  );
+  const widths = gids
+    .map((g) => `${g} [${pdfNumber(font.advanceWidth(g) * scale)}]`)
+    .join(' ');
+  set(
+    cidFontId,
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont}`
+      + ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>'
+      + ` /FontDescriptor ${descriptorId} 0 R /DW 1000 /W [${widths}]`
+      + ' /CIDToGIDMap /Identity >>',
+  );
+  set(
+    fontId,
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont}`
+      + ` /Encoding /Identity-H /DescendantFonts [${cidFontId} 0 R]`
+      + ` /ToUnicode ${toUnicodeId} 0 R >>`,
+  );
+
+  const pageIds: number[] = [];
+  for (const page of pages) {
+    const pageId = reserve();
+    const contentId = reserve();
+    pageIds.push(pageId);
+    set(contentId, await stream('', encoder.encode(page.ops)));
+    set(
+      pageId,
+      `<< /Type /Page /Parent ${pagesId} 0 R`
+        + ` /MediaBox [0 0 ${pdfNumber(page.width)} ${pdfNumber(page.height)}]`
+        + ` /Resources << /Font << /F1 ${fontId} 0 R >> >>`
+        + ` /Contents ${contentId} 0 R >>`,
+    );
+  }
+  set(
+    pagesId,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}]`
+      + ` /Count ${pageIds.length} >>`,
+  );
+  set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  const infoEntries = [
+    info.title ? `/Title <FEFF${utf16Hex(info.title)}>` : '',
+    info.producer ? `/Producer <FEFF${utf16Hex(info.producer)}>` : '',
+  ].filter(Boolean);
+  set(infoId, `<< ${infoEntries.join(' ')} >>`);
+
+  const chunks: Uint8Array[] = [
+    // The binary comment marks the file as binary for transfer tools.
+    concat([
+      encoder.encode('%PDF-1.7\n%'),
+      new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3]),
+      encoder.encode('\n'),
+    ]),
+  ];
+  let offset = chunks[0].byteLength;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const obj = concat([
+      encoder.encode(`${i + 1} 0 obj\n`),
+      body ?? encoder.encode('null'),
+      encoder.encode('\nendobj\n'),
+    ]);
+    offsets.push(offset);
+    chunks.push(obj);
+    offset += obj.byteLength;
+  });
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    '',
+  ].join('\n');
+  chunks.push(encoder.encode(xref));
+  return concat(chunks);
+}
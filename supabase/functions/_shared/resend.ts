@@ -1,5 +1,7 @@
 /**
- * Typed wrapper around Resend's POST /emails endpoint.
+ * The Resend transport: a typed wrapper around Resend's POST /emails
+ * endpoint (email-transport.ts picks it when EMAIL_TRANSPORT is unset or
+ * 'resend').
  *
  * Headers per Resend API conventions:
  *   - Idempotency-Key: caller-supplied (delivery_id); 24-hour retention per
@@ -7,12 +9,15 @@
  *   - User-Agent: identifies this client; required by
  *     https://resend.com/docs/api-reference/introduction
  *
- * Discriminated error kinds let callers branch:
+ * Discriminated error kinds let callers branch. Every transport raises
+ * ResendError with these kinds, so callers never need to know which one
+ * is configured:
  *   - 'idempotency_collision_409' → code bug (same key, different body); not retried
  *   - 'rate_limited_429' → transient; cron path increments attempts
  *   - 'auth_401' → misconfig; not retried
  *   - 'other' → unknown; treated as terminal by the immediate path
  */
+import type { EmailPayload, EmailTransport } from './email-transport.ts';
 
 export type ResendErrorKind =
   | 'idempotency_collision_409'
@@ -21,43 +26,29 @@ export type ResendErrorKind =
   | 'other';
 
 export class ResendError extends Error {
-  constructor(
-    public kind: ResendErrorKind,
-    message: string,
-    public statusCode: number,
-  ) {
+  kind: ResendErrorKind;
+  statusCode: number;
+  constructor(kind: ResendErrorKind, message: string, statusCode: number) {
     super(message);
+    this.kind = kind;
+    this.statusCode = statusCode;
     this.name = 'ResendError';
   }
 }
 
-export interface ResendAttachment {
-  filename: string;
-  content: string;
-}
+const USER_AGENT = 'ClearPress-AI/1.0 (+https://clearpress.local)';
 
-export interface ResendSendPayload {
-  from: string;
-  to: string;
-  cc?: string[];
-  bcc?: string[];
-  reply_to?: string;
-  subject: string;
-  html?: string;
-  text?: string;
-  attachments?: ResendAttachment[];
-  idempotencyKey: string;
+export function createResendTransport(apiKey: string): EmailTransport {
+  return {
+    name: 'resend',
+    send: (payload) => sendViaResend(apiKey, payload),
+  };
 }
 
-const USER_AGENT = 'ClearPress-AI/1.0 (+https://clearpress.local)';
-
-export async function sendEmail(
-  payload: ResendSendPayload,
+async function sendViaResend(
+  apiKey: string,
+  payload: EmailPayload,
 ): Promise<{ id: string }> {
-  const apiKey = Deno.env.get('RESEND_API_KEY');
-  if (!apiKey) {
-    throw new ResendError('other', 'RESEND_API_KEY not set', 0);
-  }
   const { idempotencyKey, ...body } = payload;
   const res = await fetch('https://api.resend.com/emails', {
     method: 'POST',
@@ -0,0 +1,239 @@
+/**
+ * Leased claiming for process-scheduled-sends (migration 0035).
+ *
+ * A tick claims due rows with claim_scheduled_sends, which leases each one
+ * to this worker for leaseSeconds, and keeps the leases of rows still in
+ * progress alive with extend_scheduled_send_leases every heartbeatMs. A
+ * worker that stalls past its lease loses the row to the next claim, so
+ * nothing irreversible happens without Lease.confirm() first: it re-asserts
+ * the lease and extends it, leaving a full lease for the send that follows.
+ *
+ * The queue is an interface so src/__tests__/scheduled-send-leases.test.ts
+ * can run ticks against an in-memory queue as well as a local database. No
+ * Deno APIs, same as feedback-reminder.ts.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface ClaimedSend {
+  id: string;
+  delivery_id: string;
+  scheduled_for: string;
+  attempts: number;
+  manual_retries: number;
+  leased_until: string;
+  /** The same claim settled an expired lease on this row. */
+  reclaimed: boolean;
+}
+
+export interface ExpiredLease {
+  id: string;
+  delivery_id: string;
+  leased_by: string;
+  attempts_after: number;
+  /** That was the row's last attempt: the claim failed the delivery. */
+  failed: boolean;
+}
+
+export interface ClaimResult {
+  claimed: ClaimedSend[];
+  expired: ExpiredLease[];
+}
+
+export interface ClaimRequest {
+  worker: string;
+  limit: number;
+  leaseSeconds: number;
+  maxAttempts: number;
+}
+
+export interface ScheduledSendQueue {
+  claim(req: ClaimRequest): Promise<ClaimResult>;
+  /** Extends the leases `worker` still holds; returns their ids. */
+  extend(
+    ids: string[],
+    worker: string,
+    leaseSeconds: number,
+  ): Promise<string[]>;
+}
+
+export function createSupabaseSendQueue(
+  supabase: SupabaseClient,
+): ScheduledSendQueue {
+  return {
+    async claim(req) {
+      const { data, error } = await supabase.rpc('claim_scheduled_sends', {
+        p_worker: req.worker,
+        p_limit: req.limit,
+        p_lease_seconds: req.leaseSeconds,
+        p_max_attempts: req.maxAttempts,
+      });
+      if (error) {
+        throw new Error(`claim_scheduled_sends failed: ${error.message}`);
+      }
+      return data as ClaimResult;
+    },
+    async extend(ids, worker, leaseSeconds) {
+      const { data, error } = await supabase.rpc(
+        'extend_scheduled_send_leases',
+        {
+          p_scheduled_send_ids: ids,
+          p_worker: worker,
+          p_lease_seconds: leaseSeconds,
+        },
+      );
+      if (error) {
+        throw new Error(
+          `extend_scheduled_send_leases failed: ${error.message}`,
+        );
+      }
+      return (data as string[] | null) ?? [];
+    },
+  };
+}
+
+export interface Lease {
+  readonly send: ClaimedSend;
+  readonly worker: string;
+  /**
+   * Re-asserts and extends the lease. false: the row was reclaimed or
+   * settled elsewhere (or the check itself failed) and must be left alone.
+   */
+  confirm(): Promise<boolean>;
+}
+
+export interface TickOptions {
+  worker: string;
+  batchSize: number;
+  concurrency: number;
+  leaseSeconds: number;
+  heartbeatMs: number;
+  maxAttempts: number;
+}
+
+export interface TickReport<O extends { kind: string }> {
+  worker: string;
+  started_at: string;
+  finished_at: string;
+  claimed: number;
+  reclaimed: number;
+  expired: ExpiredLease[];
+  summary: Record<string, number>;
+  outcomes: O[];
+}
+
+/**
+ * One cron tick: claim, process each leased row with at most `concurrency`
+ * in flight while the heartbeat runs, and report. Throws only if the claim
+ * does; `process` is expected to turn its own failures into outcomes.
+ */
+export async function runLeasedTick<O extends { kind: string }>(
+  queue: ScheduledSendQueue,
+  opts: TickOptions,
+  process: (lease: Lease) => Promise<O>,
+): Promise<TickReport<O>> {
+  const startedAt = new Date().toISOString();
+  const { claimed, expired } = await queue.claim({
+    worker: opts.worker,
+    limit: opts.batchSize,
+    leaseSeconds: opts.leaseSeconds,
+    maxAttempts: opts.maxAttempts,
+  });
+
+  // Rows still being processed, and rows whose lease a heartbeat or
+  // confirm() found gone.
+  const held = new Set(claimed.map((s) => s.id));
+  const lost = new Set<string>();
+  const drop = (id: string) => {
+    held.delete(id);
+    lost.add(id);
+  };
+
+  let beat: Promise<void> | null = null;
+  const timer = setInterval(() => {
+    if (beat || held.size === 0) return;
+    const ids = [...held];
+    beat = queue.extend(ids, opts.worker, opts.leaseSeconds).then(
+      (kept) => {
+        const still = new Set(kept);
+        for (const id of ids) if (!still.has(id) && held.has(id)) drop(id);
+      },
+      (e) => {
+        // Keep going: confirm() checks again before anything is sent.
+        console.warn(
+          `lease heartbeat failed (${opts.worker}): ${
+            e instanceof Error ? e.message : String(e)
+          }`,
+        );
+      },
+    ).finally(() => {
+      beat = null;
+    });
+  }, opts.heartbeatMs);
+
+  let outcomes: O[];
+  try {
+    outcomes = await runWithConcurrency(claimed, opts.concurrency, (send) => {
+      const lease: Lease = {
+        send,
+        worker: opts.worker,
+        async confirm() {
+          if (lost.has(send.id)) return false;
+          try {
+            const kept = await queue.extend(
+              [send.id],
+              opts.worker,
+              opts.leaseSeconds,
+            );
+            if (kept.includes(send.id)) return true;
+          } catch (e) {
+            console.warn(
+              `lease confirm failed (${send.id}): ${
+                e instanceof Error ? e.message : String(e)
+              }`,
+            );
+          }
+          drop(send.id);
+          return false;
+        },
+      };
+      return process(lease).finally(() => held.delete(send.id));
+    });
+  } finally {
+    clearInterval(timer);
+    await beat;
+  }
+
+  const summary: Record<string, number> = {};
+  for (const o of outcomes) summary[o.kind] = (summary[o.kind] ?? 0) + 1;
+
+  return {
+    worker: opts.worker,
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    claimed: claimed.length,
+    reclaimed: claimed.filter((s) => s.reclaimed).length,
+    expired,
+    summary,
+    outcomes,
+  };
+}
+
+export async function runWithConcurrency<T, U>(
+  items: ReadonlyArray<T>,
+  n: number,
+  fn: (item: T) => Promise<U>,
+): Promise<U[]> {
+  const results: U[] = new Array(items.length);
+  let next = 0;
+  const workers = new Array(Math.min(n, items.length)).fill(0).map(
+    async () => {
+      while (true) {
+        const i = next++;
+        if (i >= items.length) return;
+        results[i] = await fn(items[i]);
+      }
+    },
+  );
+  await Promise.all(workers);
+  return results;
+}
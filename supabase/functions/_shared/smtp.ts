@@ -0,0 +1,312 @@
+/**
+ * The smtp transport: a minimal ESMTP client for the firm's own relay.
+ *
+ *   EHLO → [STARTTLS → EHLO] → [AUTH PLAIN | LOGIN] → MAIL FROM →
+ *   RCPT TO (to, cc, bcc) → DATA → QUIT
+ *
+ * TLS is either implicit (port 465), negotiated with STARTTLS (587, the
+ * default — the relay must offer it) or off. Credentials are never sent
+ * over an unencrypted connection. The whole exchange runs under one
+ * deadline; a relay that stops answering is disconnected, not waited on.
+ *
+ * Reply codes map onto the shared ResendError kinds: 530/534/535 are
+ * 'auth_401', any other 4xx is 'rate_limited_429' (transient, retried by
+ * the cron path), everything else is 'other'. SMTP has no idempotency of
+ * its own; email-transport.ts puts the send ledger in front of it.
+ *
+ * No Deno globals: sockets come in through SmtpSockets (email.ts wires
+ * Deno.connect / connectTls / startTls), so the vitest suite talks to a
+ * scripted server.
+ */
+import type { EmailPayload, MessageSink } from './email-transport.ts';
+import { addressOf, buildMimeMessage } from './mime.ts';
+import { ResendError, type ResendErrorKind } from './resend.ts';
+
+export type SmtpTlsMode = 'implicit' | 'starttls' | 'none';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  tls: SmtpTlsMode;
+  username?: string;
+  password?: string;
+  // The name given in EHLO.
+  heloName: string;
+  timeoutMs: number;
+}
+
+// The subset of Deno.Conn the client uses.
+export interface SmtpConn {
+  read(buffer: Uint8Array): Promise<number | null>;
+  write(data: Uint8Array): Promise<number>;
+  close(): void;
+}
+
+export interface SmtpSockets {
+  connect(opts: { hostname: string; port: number; tls: boolean }): Promise<
+    SmtpConn
+  >;
+  startTls(conn: SmtpConn, hostname: string): Promise<SmtpConn>;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const AUTH_CODES = new Set([530, 534, 535]);
+
+export function createSmtpSink(
+  config: SmtpConfig,
+  sockets: SmtpSockets,
+): MessageSink {
+  return {
+    name: 'smtp',
+    async deliver(payload, messageId) {
+      const message = buildMimeMessage(payload, {
+        messageId,
+        date: new Date(),
+      });
+      await smtpSend(config, sockets, envelopeOf(payload), message);
+    },
+  };
+}
+
+function envelopeOf(
+  payload: EmailPayload,
+): { from: string; recipients: string[] } {
+  return {
+    from: addressOf(payload.from),
+    recipients: [payload.to, ...(payload.cc ?? []), ...(payload.bcc ?? [])]
+      .map(addressOf),
+  };
+}
+
+export async function smtpSend(
+  config: SmtpConfig,
+  sockets: SmtpSockets,
+  envelope: { from: string; recipients: string[] },
+  message: string,
+): Promise<void> {
+  if (config.username && config.tls === 'none') {
+    throw new ResendError(
+      'auth_401',
+      'refusing to send SMTP credentials over an unencrypted connection',
+      0,
+    );
+  }
+  let conn = await connectOrThrow(() =>
+    sockets.connect({
+      hostname: config.host,
+      port: config.port,
+      tls: config.tls === 'implicit',
+    })
+  );
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    conn.close();
+  }, config.timeoutMs);
+  try {
+    let session = new SmtpSession(conn);
+    await session.expect('greeting', [220]);
+    let ehlo = await session.command('EHLO', `EHLO ${config.heloName}`, [250]);
+
+    if (config.tls === 'starttls') {
+      if (!hasExtension(ehlo, 'STARTTLS')) {
+        throw new ResendError(
+          'other',
+          `SMTP relay ${config.host} does not offer STARTTLS`,
+          0,
+        );
+      }
+      await session.command('STARTTLS', 'STARTTLS', [220]);
+      conn = await connectOrThrow(() => sockets.startTls(conn, config.host));
+      session = new SmtpSession(conn);
+      ehlo = await session.command('EHLO', `EHLO ${config.heloName}`, [250]);
+    }
+
+    if (config.username) {
+      await authenticate(session, ehlo, config.username, config.password ?? '');
+    }
+
+    await session.command('MAIL', `MAIL FROM:<${envelope.from}>`, [250]);
+    for (const rcpt of envelope.recipients) {
+      await session.command('RCPT', `RCPT TO:<${rcpt}>`, [250, 251]);
+    }
+    await session.command('DATA', 'DATA', [354]);
+    await session.command('DATA', `${dotStuff(message)}\r\n.`, [250]);
+    await session.command('QUIT', 'QUIT', [221]).catch(() => {});
+  } catch (e) {
+    if (timedOut) {
+      throw new ResendError(
+        'rate_limited_429',
+        `SMTP relay ${config.host} timed out after ${config.timeoutMs}ms`,
+        0,
+      );
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the deadline or the relay.
+    }
+  }
+}
+
+async function authenticate(
+  session: SmtpSession,
+  ehlo: SmtpReply,
+  username: string,
+  password: string,
+): Promise<void> {
+  const mechanisms = extensionArgs(ehlo, 'AUTH');
+  if (mechanisms.includes('PLAIN')) {
+    await session.command(
+      'AUTH',
+      `AUTH PLAIN ${utf8ToBase64(`\0${username}\0${password}`)}`,
+      [235],
+    );
+    return;
+  }
+  if (mechanisms.includes('LOGIN')) {
+    await session.command('AUTH', 'AUTH LOGIN', [334]);
+    await session.command('AUTH', utf8ToBase64(username), [334]);
+    await session.command('AUTH', utf8ToBase64(password), [235]);
+    return;
+  }
+  throw new ResendError(
+    'auth_401',
+    `SMTP relay offers no supported AUTH mechanism (${mechanisms.join(' ') || 'none'})`,
+    0,
+  );
+}
+
+class SmtpSession {
+  private buffered = '';
+  private readonly decoder = new TextDecoder();
+  private readonly encoder = new TextEncoder();
+  private readonly conn: SmtpConn;
+
+  constructor(conn: SmtpConn) {
+    this.conn = conn;
+  }
+
+  async command(
+    stage: string,
+    line: string,
+    accept: number[],
+  ): Promise<SmtpReply> {
+    await this.write(`${line}\r\n`);
+    return await this.expect(stage, accept);
+  }
+
+  async expect(stage: string, accept: number[]): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!accept.includes(reply.code)) {
+      const text = reply.lines.join(' ');
+      throw new ResendError(
+        kindOf(reply.code),
+        `SMTP ${stage} ${reply.code}: ${text}`,
+        reply.code,
+      );
+    }
+    return reply;
+  }
+
+  private async write(data: string): Promise<void> {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    try {
+      while (written < bytes.length) {
+        written += await this.conn.write(bytes.subarray(written));
+      }
+    } catch (e) {
+      throw connectionError(e);
+    }
+  }
+
+  // A reply is one or more "NNN-text" lines ending with "NNN text".
+  private async readReply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.readLine();
+      const m = line.match(/^(\d{3})([ -]?)(.*)$/);
+      if (!m) {
+        throw new ResendError('other', `SMTP malformed reply: ${line}`, 0);
+      }
+      lines.push(m[3]);
+      if (m[2] !== '-') return { code: Number(m[1]), lines };
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    const chunk = new Uint8Array(4096);
+    for (;;) {
+      const end = this.buffered.indexOf('\r\n');
+      if (end >= 0) {
+        const line = this.buffered.slice(0, end);
+        this.buffered = this.buffered.slice(end + 2);
+        return line;
+      }
+      let n: number | null;
+      try {
+        n = await this.conn.read(chunk);
+      } catch (e) {
+        throw connectionError(e);
+      }
+      if (n === null) {
+        throw new ResendError('other', 'SMTP connection closed by relay', 0);
+      }
+      this.buffered += this.decoder.decode(chunk.subarray(0, n), {
+        stream: true,
+      });
+    }
+  }
+}
+
+function kindOf(code: number): ResendErrorKind {
+  if (AUTH_CODES.has(code)) return 'auth_401';
+  if (code >= 400 && code < 500) return 'rate_limited_429';
+  return 'other';
+}
+
+function hasExtension(ehlo: SmtpReply, name: string): boolean {
+  return ehlo.lines.some((l) => l.split(/\s+/)[0].toUpperCase() === name);
+}
+
+function extensionArgs(ehlo: SmtpReply, name: string): string[] {
+  const line = ehlo.lines.find(
+    (l) => l.split(/\s+/)[0].toUpperCase() === name,
+  );
+  return line ? line.split(/\s+/).slice(1).map((a) => a.toUpperCase()) : [];
+}
+
+// RFC 5321 §4.5.2: a line that starts with "." gets a second one.
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, '..');
+}
+
+async function connectOrThrow(open: () => Promise<SmtpConn>): Promise<SmtpConn> {
+  try {
+    return await open();
+  } catch (e) {
+    throw connectionError(e);
+  }
+}
+
+function connectionError(e: unknown): ResendError {
+  if (e instanceof ResendError) return e;
+  const message = e instanceof Error ? e.message : String(e);
+  return new ResendError('other', `SMTP connection failed: ${message}`, 0);
+}
+
+function utf8ToBase64(value: string): string {
+  let binary = '';
+  for (const b of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(b);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,415 @@
+/**
+ * Minimal TrueType reader + subsetter for the local PDF engine
+ * (pdf-local-renderer.ts).
+ *
+ * Reads what PDF embedding needs — metrics, the Unicode cmap, advance
+ * widths — and writes a subset containing only the glyphs a document
+ * uses. Glyph IDs are kept as-is (unused glyphs become empty outlines), so
+ * the PDF can address glyphs with CIDToGIDMap /Identity and the subset
+ * still compresses to a few hundred KB even for a full Japanese font.
+ *
+ * TrueType (glyf) outlines only. CFF-flavoured OpenType ('OTTO', e.g. the
+ * .otf Noto Sans CJK builds) and collections (.ttc) are rejected with a
+ * FontError, as are fonts whose OS/2 fsType forbids embedding or
+ * subsetting.
+ *
+ * No Deno globals: the vitest suite builds a small font in memory and runs
+ * it through here.
+ */
+
+export class FontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FontError';
+  }
+}
+
+export interface TrueTypeFont {
+  readonly postscriptName: string;
+  readonly unitsPerEm: number;
+  readonly ascent: number;
+  readonly descent: number;
+  readonly capHeight: number;
+  readonly italicAngle: number;
+  readonly bbox: readonly [number, number, number, number];
+  readonly numGlyphs: number;
+  // 0 (.notdef) when the font has no glyph for the code point.
+  glyphId(codePoint: number): number;
+  advanceWidth(glyphId: number): number;
+  // A standalone TrueType file with the given glyphs (plus .notdef and any
+  // composite-glyph components) and every other glyph emptied.
+  subset(glyphIds: Iterable<number>): Uint8Array;
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+const FS_TYPE_RESTRICTED = 0x0002;
+const FS_TYPE_NO_SUBSETTING = 0x0100;
+const FS_TYPE_BITMAP_ONLY = 0x0200;
+
+// Tables a PDF FontFile2 needs (ISO 32000 §9.9). cmap is not among them:
+// the PDF maps CIDs to glyph IDs itself.
+const SUBSET_TABLES = [
+  'cvt ',
+  'fpgm',
+  'glyf',
+  'head',
+  'hhea',
+  'hmtx',
+  'loca',
+  'maxp',
+  'prep',
+];
+
+export function parseTrueType(bytes: Uint8Array): TrueTypeFont {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12) throw new FontError('font file too short');
+
+  const tag = (offset: number) =>
+    String.fromCharCode(
+      bytes[offset],
+      bytes[offset + 1],
+      bytes[offset + 2],
+      bytes[offset + 3],
+    );
+  const flavor = tag(0);
+  if (flavor === 'OTTO') {
+    throw new FontError(
+      'CFF-outline OpenType fonts are not supported; use a TrueType (.ttf) font',
+    );
+  }
+  if (flavor === 'ttcf') {
+    throw new FontError('font collections (.ttc) are not supported');
+  }
+  if (view.getUint32(0) !== 0x00010000 && flavor !== 'true') {
+    throw new FontError('not a TrueType font');
+  }
+
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const rec = 12 + i * 16;
+    const offset = view.getUint32(rec + 8);
+    const length = view.getUint32(rec + 12);
+    if (offset + length > bytes.byteLength) {
+      throw new FontError(`table ${tag(rec)} extends past end of file`);
+    }
+    tables.set(tag(rec), { offset, length });
+  }
+  const table = (name: string): TableRecord => {
+    const t = tables.get(name);
+    if (!t) throw new FontError(`missing required table '${name}'`);
+    return t;
+  };
+
+  const head = table('head').offset;
+  const unitsPerEm = view.getUint16(head + 18);
+  const bbox = [
+    view.getInt16(head + 36),
+    view.getInt16(head + 38),
+    view.getInt16(head + 40),
+    view.getInt16(head + 42),
+  ] as const;
+  const longLoca = view.getInt16(head + 50) === 1;
+
+  const hhea = table('hhea').offset;
+  let ascent = view.getInt16(hhea + 4);
+  let descent = view.getInt16(hhea + 6);
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+
+  const numGlyphs = view.getUint16(table('maxp').offset + 4);
+
+  let capHeight = ascent;
+  const os2 = tables.get('OS/2');
+  if (os2) {
+    const fsType = view.getUint16(os2.offset + 8);
+    if (fsType & FS_TYPE_RESTRICTED) {
+      throw new FontError('font license forbids embedding (fsType restricted)');
+    }
+    if (fsType & (FS_TYPE_NO_SUBSETTING | FS_TYPE_BITMAP_ONLY)) {
+      throw new FontError('font license forbids outline subsetting');
+    }
+    if (os2.length >= 72) {
+      ascent = view.getInt16(os2.offset + 68);
+      descent = view.getInt16(os2.offset + 70);
+    }
+    if (view.getUint16(os2.offset) >= 2 && os2.length >= 90) {
+      capHeight = view.getInt16(os2.offset + 88);
+    }
+  }
+
+  const post = tables.get('post');
+  const italicAngle = post ? view.getInt32(post.offset + 4) / 65536 : 0;
+
+  const hmtx = table('hmtx').offset;
+  const advanceWidth = (glyphId: number): number => {
+    const i = Math.min(glyphId, numberOfHMetrics - 1);
+    return view.getUint16(hmtx + i * 4);
+  };
+
+  const loca = table('loca').offset;
+  const glyf = table('glyf');
+  const glyphRange = (glyphId: number): [number, number] => {
+    if (glyphId >= numGlyphs) return [0, 0];
+    const start = longLoca
+      ? view.getUint32(loca + glyphId * 4)
+      : view.getUint16(loca + glyphId * 2) * 2;
+    const end = longLoca
+      ? view.getUint32(loca + (glyphId + 1) * 4)
+      : view.getUint16(loca + (glyphId + 1) * 2) * 2;
+    return [glyf.offset + start, glyf.offset + end];
+  };
+
+  const glyphId = buildCmapLookup(view, table('cmap').offset, numGlyphs);
+
+  return {
+    postscriptName: readPostscriptName(view, tables.get('name')),
+    unitsPerEm,
+    ascent,
+    descent,
+    capHeight,
+    italicAngle,
+    bbox,
+    numGlyphs,
+    glyphId,
+    advanceWidth,
+    subset(glyphIds) {
+      const keep = new Set<number>([0]);
+      const pending = [...glyphIds];
+      while (pending.length > 0) {
+        const gid = pending.pop()!;
+        if (gid >= numGlyphs || keep.has(gid)) continue;
+        keep.add(gid);
+        pending.push(...compositeComponents(view, ...glyphRange(gid)));
+      }
+      return writeSubset(bytes, tables, numGlyphs, keep, glyphRange);
+    },
+  };
+}
+
+function readPostscriptName(
+  view: DataView,
+  name: TableRecord | undefined,
+): string {
+  if (!name) return 'EmbeddedFont';
+  const count = view.getUint16(name.offset + 2);
+  const strings = name.offset + view.getUint16(name.offset + 4);
+  for (let i = 0; i < count; i++) {
+    const rec = name.offset + 6 + i * 12;
+    const platform = view.getUint16(rec);
+    const nameId = view.getUint16(rec + 6);
+    if (nameId !== 6) continue;
+    const length = view.getUint16(rec + 8);
+    const start = strings + view.getUint16(rec + 10);
+    let out = '';
+    if (platform === 1) {
+      for (let j = 0; j < length; j++) {
+        out += String.fromCharCode(view.getUint8(start + j));
+      }
+    } else {
+      for (let j = 0; j + 1 < length; j += 2) {
+        out += String.fromCharCode(view.getUint16(start + j));
+      }
+    }
+    // PDF names can't carry spaces or delimiters.
+    const clean = out.replace(/[^A-Za-z0-9_.-]/g, '');
+    if (clean) return clean;
+  }
+  return 'EmbeddedFont';
+}
+
+// Prefers a full-repertoire Unicode subtable (format 12) so characters
+// outside the BMP resolve, then the BMP-only format 4.
+function buildCmapLookup(
+  view: DataView,
+  cmap: number,
+  numGlyphs: number,
+): (codePoint: number) => number {
+  const count = view.getUint16(cmap + 2);
+  let format4: number | null = null;
+  let format12: number | null = null;
+  for (let i = 0; i < count; i++) {
+    const rec = cmap + 4 + i * 8;
+    const platform = view.getUint16(rec);
+    const encoding = view.getUint16(rec + 2);
+    const sub = cmap + view.getUint32(rec + 4);
+    const unicode =
+      platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!unicode) continue;
+    const format = view.getUint16(sub);
+    if (format === 12 && format12 === null) format12 = sub;
+    if (format === 4 && format4 === null) format4 = sub;
+  }
+
+  const valid = (gid: number) => (gid < numGlyphs ? gid : 0);
+
+  if (format12 !== null) {
+    const sub = format12;
+    const groups = view.getUint32(sub + 12);
+    return (cp) => {
+      let lo = 0;
+      let hi = groups - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const g = sub + 16 + mid * 12;
+        const start = view.getUint32(g);
+        const end = view.getUint32(g + 4);
+        if (cp < start) hi = mid - 1;
+        else if (cp > end) lo = mid + 1;
+        else return valid(view.getUint32(g + 8) + (cp - start));
+      }
+      return 0;
+    };
+  }
+
+  if (format4 !== null) {
+    const sub = format4;
+    const segCount = view.getUint16(sub + 6) / 2;
+    const endCodes = sub + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return (cp) => {
+      if (cp > 0xffff) return 0;
+      let lo = 0;
+      let hi = segCount - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const end = view.getUint16(endCodes + mid * 2);
+        const start = view.getUint16(startCodes + mid * 2);
+        if (cp > end) lo = mid + 1;
+        else if (cp < start) hi = mid - 1;
+        else {
+          const delta = view.getInt16(idDeltas + mid * 2);
+          const rangeOffsetAt = idRangeOffsets + mid * 2;
+          const rangeOffset = view.getUint16(rangeOffsetAt);
+          if (rangeOffset === 0) return valid((cp + delta) & 0xffff);
+          const gid = view.getUint16(
+            rangeOffsetAt + rangeOffset + (cp - start) * 2,
+          );
+          return gid === 0 ? 0 : valid((gid + delta) & 0xffff);
+        }
+      }
+      return 0;
+    };
+  }
+
+  throw new FontError('font has no Unicode cmap subtable');
+}
+
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+function compositeComponents(
+  view: DataView,
+  start: number,
+  end: number,
+): number[] {
+  if (end - start < 10 || view.getInt16(start) >= 0) return [];
+  const out: number[] = [];
+  let p = start + 10;
+  for (;;) {
+    const flags = view.getUint16(p);
+    out.push(view.getUint16(p + 2));
+    p += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+    if (flags & WE_HAVE_A_SCALE) p += 2;
+    else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) p += 4;
+    else if (flags & WE_HAVE_A_TWO_BY_TWO) p += 8;
+    if (!(flags & MORE_COMPONENTS)) break;
+  }
+  return out;
+}
+
+function pad4(n: number): number {
+  return (n + 3) & ~3;
+}
+
+function checksum(data: Uint8Array): number {
+  const padded = new Uint8Array(pad4(data.byteLength));
+  padded.set(data);
+  const view = new DataView(padded.buffer);
+  let sum = 0;
+  for (let i = 0; i < padded.byteLength; i += 4) {
+    sum = (sum + view.getUint32(i)) >>> 0;
+  }
+  return sum;
+}
+
+function writeSubset(
+  bytes: Uint8Array,
+  tables: Map<string, TableRecord>,
+  numGlyphs: number,
+  keep: Set<number>,
+  glyphRange: (glyphId: number) => [number, number],
+): Uint8Array {
+  // New glyf holds only the kept outlines; loca (always long format here)
+  // points every other glyph at a zero-length entry.
+  let glyfSize = 0;
+  for (const gid of keep) {
+    const [s, e] = glyphRange(gid);
+    glyfSize += pad4(e - s);
+  }
+  const glyf = new Uint8Array(glyfSize);
+  const loca = new Uint8Array((numGlyphs + 1) * 4);
+  const locaView = new DataView(loca.buffer);
+  let offset = 0;
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    locaView.setUint32(gid * 4, offset);
+    if (!keep.has(gid)) continue;
+    const [s, e] = glyphRange(gid);
+    glyf.set(bytes.subarray(s, e), offset);
+    offset += pad4(e - s);
+  }
+  locaView.setUint32(numGlyphs * 4, offset);
+
+  const out = new Map<string, Uint8Array>();
+  for (const name of SUBSET_TABLES) {
+    if (name === 'glyf') out.set(name, glyf);
+    else if (name === 'loca') out.set(name, loca);
+    else {
+      const t = tables.get(name);
+      if (t) out.set(name, bytes.slice(t.offset, t.offset + t.length));
+    }
+  }
+  const head = out.get('head')!;
+  const headView = new DataView(head.buffer);
+  headView.setUint32(8, 0); // checkSumAdjustment, set below
+  headView.setInt16(50, 1); // indexToLocFormat: long
+
+  const names = [...out.keys()].sort();
+  const dirSize = 12 + names.length * 16;
+  let total = dirSize;
+  for (const name of names) total += pad4(out.get(name)!.byteLength);
+
+  const font = new Uint8Array(total);
+  const view = new DataView(font.buffer);
+  const entrySelector = Math.floor(Math.log2(names.length));
+  const searchRange = 2 ** entrySelector * 16;
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, names.length);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, names.length * 16 - searchRange);
+
+  let dataOffset = dirSize;
+  let headOffset = 0;
+  names.forEach((name, i) => {
+    const data = out.get(name)!;
+    const rec = 12 + i * 16;
+    for (let j = 0; j < 4; j++) font[rec + j] = name.charCodeAt(j);
+    view.setUint32(rec + 4, checksum(data));
+    view.setUint32(rec + 8, dataOffset);
+    view.setUint32(rec + 12, data.byteLength);
+    font.set(data, dataOffset);
+    if (name === 'head') headOffset = dataOffset;
+    dataOffset += pad4(data.byteLength);
+  });
+  view.setUint32(headOffset + 8, (0xb1b0afba - checksum(font)) >>> 0);
+  return font;
+}
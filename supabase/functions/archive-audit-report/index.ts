@@ -0,0 +1,93 @@
+/**
+ * archive-audit-report — Edge Function
+ *
+ * Renders and stores the archival PDF of a finalized (or since revised)
+ * audit report. sign-audit-report already does this when the last
+ * signature lands; this function covers the cases where that attempt
+ * failed (renderer outage, storage error) and reports finalized before
+ * archiving existed. The archive VersionHistory offers for download is
+ * whatever this records.
+ *
+ * Idempotent: a report that already has an archive returns its existing
+ * record without rendering again. The record is written by
+ * record_audit_report_archive (migration 0028) together with a
+ * report_archived audit event.
+ */
+
+import { z } from "zod";
+import { handlePreflight } from "../_shared/cors.ts";
+import { jsonResponse, jsonError } from "../_shared/errors.ts";
+import {
+  AuthError,
+  createSupabaseFromRequest,
+  getUserIdFromAuth,
+} from "../_shared/auth.ts";
+import { archiveAuditReport } from "../_shared/audit-archive.ts";
+import { selectPdfRenderer } from "../_shared/pdf-renderer.ts";
+
+const InputSchema = z.object({
+  audit_report_id: z.string().uuid(),
+});
+
+Deno.serve(async (req: Request) => {
+  const preflight = handlePreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "POST") {
+    return jsonError(405, {
+      code: "validation_error",
+      message: "Method not allowed",
+    });
+  }
+
+  let supabase;
+  try {
+    supabase = createSupabaseFromRequest(req);
+    await getUserIdFromAuth(supabase);
+  } catch (e) {
+    if (e instanceof AuthError) {
+      return jsonError(401, { code: "permission_denied", message: e.message });
+    }
+    return jsonError(500, {
+      code: "internal_error",
+      message: (e as Error).message,
+    });
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await req.json();
+  } catch {
+    return jsonError(400, {
+      code: "validation_error",
+      message: "Body must be valid JSON",
+    });
+  }
+  const parsed = InputSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    return jsonError(400, {
+      code: "validation_error",
+      message: "Invalid input",
+      details: parsed.error.issues,
+    });
+  }
+  const { audit_report_id } = parsed.data;
+
+  try {
+    const archive = await archiveAuditReport(
+      supabase,
+      audit_report_id,
+      selectPdfRenderer((name) => Deno.env.get(name)),
+    );
+    return jsonResponse(200, { data: archive, error: null });
+  } catch (e) {
+    const message = (e as Error).message;
+    if (message.includes("report_not_finalized")) {
+      return jsonError(409, { code: "validation_error", message });
+    }
+    return jsonError(500, {
+      code: "internal_error",
+      message: `Archive failed: ${message}`,
+    });
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * audit-signing-keys — Edge Function (--no-verify-jwt, anonymous)
+ *
+ * Publishes the audit-signature public keys (audit_signing_keys, migration
+ * 0026) as a JWK set, so a regulator or a client's compliance team can
+ * verify an exported audit signature without an account or our secret:
+ *   1. canonicalize(canonical_payload) — sorted-key JSON, see
+ *      _shared/canonical.ts.
+ *   2. Ed25519-verify signature_hash (hex) with the JWK whose kid is the
+ *      signature's key_id.
+ *
+ * Retired keys stay in the set with `retired_at`: they no longer sign, but
+ * everything they signed must remain verifiable. Legacy HMAC signatures
+ * have no public key and are not covered here.
+ *
+ * Read through the anon key; the table's RLS policy is public by design.
+ */
+import { createClient } from "@supabase/supabase-js";
+import { corsHeaders, handlePreflight } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+
+Deno.serve(async (req: Request) => {
+  const preflight = handlePreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "GET") {
+    return jsonError(405, {
+      code: "validation_error",
+      message: "Method not allowed",
+    });
+  }
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!url || !anonKey) {
+    return jsonError(500, {
+      code: "internal_error",
+      message: "Missing SUPABASE_URL or SUPABASE_ANON_KEY",
+    });
+  }
+  const supabase = createClient(url, anonKey);
+
+  const { data, error } = await supabase
+    .from("audit_signing_keys")
+    .select("key_id, public_key, created_at, retired_at")
+    .order("created_at", { ascending: true });
+  if (error) {
+    return jsonError(500, {
+      code: "internal_error",
+      message: `Key lookup failed: ${error.message}`,
+    });
+  }
+
+  const keys = (data ?? []).map((k) => ({
+    kty: "OKP",
+    crv: "Ed25519",
+    alg: "EdDSA",
+    use: "sig",
+    kid: k.key_id,
+    x: k.public_key,
+    created_at: k.created_at,
+    retired_at: k.retired_at,
+  }));
+
+  return new Response(JSON.stringify({ keys }), {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/jwk-set+json",
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+});
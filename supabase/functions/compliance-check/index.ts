@@ -1,14 +1,34 @@
 /**
  * compliance-check — Edge Function
  *
- * For each variant_id (1–3): runs a deterministic regex pass over forbidden
- * absolute terms + client words_to_avoid + required boilerplate + (when
- * applicable) clinical-reference patterns; runs an LLM compliance pass with
- * the TSD §6.3 prompt; merges both finding sets; clears prior
- * compliance_findings for the variant; inserts the merged findings.
+ * For each variant_id (1–3): runs a deterministic pass with the latest
+ * published compliance rule set (firm-managed library, migration 0021 —
+ * rules scoped to the content item's type / sub-type / audience / lifecycle)
+ * plus client words_to_avoid; runs an LLM compliance pass with
+ * the TSD §6.3 prompt; merges both finding sets; clears the variant's prior
+ * automated compliance_findings (reviewer-filed `manual` findings survive a
+ * recheck); inserts the merged findings.
  *
  * Each finding's `regulation_reference` is suffixed `[deterministic]` or
- * `[LLM]` so the audit trail (Phase 4) can distinguish source.
+ * `[LLM]` so the audit trail (Phase 4) can distinguish source. The rule set
+ * version is loaded once per request and recorded as `rule_set_version` in
+ * every variant's compliance_checked audit event.
+ *
+ * Every finding with a span is anchored by body_text offsets plus a context
+ * hash (_shared/finding-anchor.ts): deterministic findings carry their match
+ * offsets; LLM findings are located by source_text, preferring the paragraph
+ * the model named. An LLM finding whose text can't be pinned down is stored
+ * unanchored and shows as orphaned in the review UI.
+ *
+ * The client's managed boilerplate (_shared/client-boilerplate.ts) is
+ * checked deterministically: each active block that applies to the content
+ * item must appear verbatim at its current version. The versions checked
+ * are recorded as `managed_boilerplate` in the audit event.
+ *
+ * A structured variant (body_doc, _shared/variant-document.ts) has its
+ * boilerplate and media contact passed to the LLM as standing corporate
+ * text, so they are reviewed as such rather than as claims about the
+ * announcement.
  *
  * Auth: requires a valid JWT.
  */
@@ -20,12 +40,29 @@ import {
   COMPLIANCE_PROMPT_VERSION,
   COMPLIANCE_SYSTEM,
   ComplianceResponseSchema,
+  ComplianceRuleSetSchema,
   buildComplianceUserMessage,
+  checkManagedBoilerplate,
   runDeterministicChecks,
   type ComplianceFinding,
   type DeterministicFinding,
   type DrugLifecycleStatus,
 } from './_prompt.ts';
+import {
+  anchorContextHash,
+  locateFinding,
+  paragraphIndexAt,
+  type FindingAnchor,
+} from '../_shared/finding-anchor.ts';
+import {
+  selectManagedBoilerplate,
+  type ManagedBoilerplate,
+} from '../_shared/client-boilerplate.ts';
+import {
+  documentSections,
+  documentToText,
+  readVariantDocument,
+} from '../_shared/variant-document.ts';
 import { handlePreflight } from '../_shared/cors.ts';
 import { jsonResponse, jsonError } from '../_shared/errors.ts';
 import {
@@ -40,13 +77,17 @@ const InputSchema = z.object({
 interface VariantContext {
   variantId: string;
   bodyText: string;
+  standingText: string[];
   contentType: string;
   contentSubType: string;
+  audience: string;
   wordsToAvoid: string[];
 }
 
-interface MergedFinding extends ComplianceFinding {
-  source: 'deterministic' | 'LLM';
+interface MergedFinding extends Omit<ComplianceFinding, 'paragraph_index'> {
+  paragraph_index: number | null;
+  anchor: FindingAnchor | null;
+  source: 'deterministic' | 'llm';
 }
 
 Deno.serve(async (req: Request) => {
@@ -102,6 +143,29 @@ Deno.serve(async (req: Request) => {
 
   const variantIds = Array.from(new Set(parsed.data.variant_ids));
 
+  const { data: ruleSetRow, error: ruleSetError } = await supabase
+    .from('compliance_rule_set_versions')
+    .select('version, rules')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (ruleSetError) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: `Rule set fetch failed: ${ruleSetError.message}`,
+    });
+  }
+  const ruleSetParsed = ComplianceRuleSetSchema.safeParse(ruleSetRow);
+  if (!ruleSetParsed.success) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: ruleSetRow
+        ? `Rule set v${ruleSetRow.version} is malformed: ${ruleSetParsed.error.message}`
+        : 'No compliance rule set has been published',
+    });
+  }
+  const ruleSet = ruleSetParsed.data;
+
   const anthropic = new Anthropic({ apiKey: anthropicKey, maxRetries: 6 });
 
   try {
@@ -112,7 +176,7 @@ Deno.serve(async (req: Request) => {
         const { data: variantRow, error: variantError } = await supabase
           .from('content_variants')
           .select(
-            'id, body_text, content_items!inner(project_id, content_type, content_sub_type, drug_lifecycle_status, projects!inner(client_id))',
+            'id, body_text, body_doc, content_items!inner(project_id, content_type, content_sub_type, language, target_audience, drug_lifecycle_status, projects!inner(client_id))',
           )
           .eq('id', variantId)
           .single();
@@ -127,6 +191,8 @@ Deno.serve(async (req: Request) => {
           project_id: string;
           content_type: string;
           content_sub_type: string;
+          language: 'ja' | 'en';
+          target_audience: string;
           drug_lifecycle_status: string;
           projects: { client_id: string };
         };
@@ -150,21 +216,89 @@ Deno.serve(async (req: Request) => {
         const wordsToAvoid = (voiceProfile?.words_to_avoid ??
           []) as string[];
 
+        const { data: boilerplateRows, error: boilerplateError } =
+          await supabase
+            .from('client_boilerplate_blocks')
+            .select(
+              'id, kind, language, heading, body, current_version, content_types',
+            )
+            .eq('client_id', clientId)
+            .eq('active', true)
+            .order('created_at', { ascending: true });
+
+        if (boilerplateError) {
+          throw new Error(
+            `Boilerplate fetch failed for client ${clientId}: ${boilerplateError.message}`,
+          );
+        }
+
+        const managedBoilerplate = selectManagedBoilerplate(
+          (boilerplateRows ?? []).map(
+            ({ current_version, ...b }) =>
+              ({ ...b, version: current_version }) as ManagedBoilerplate,
+          ),
+          {
+            contentType: contentItem.content_type,
+            language: contentItem.language,
+          },
+        );
+
+        // Older versions, so a release still carrying one is flagged where
+        // it stands.
+        const { data: boilerplateHistory, error: historyError } =
+          managedBoilerplate.length > 0
+            ? await supabase
+              .from('client_boilerplate_versions')
+              .select('block_id, version, heading, body')
+              .in('block_id', managedBoilerplate.map((b) => b.id))
+            : { data: [], error: null };
+
+        if (historyError) {
+          throw new Error(
+            `Boilerplate history fetch failed for client ${clientId}: ${historyError.message}`,
+          );
+        }
+
+        // Sections only when the document still is the body — both are
+        // written together, but a mismatch must not misplace the passages.
+        const bodyDoc = readVariantDocument(variantRow.body_doc);
+        const standingText =
+          bodyDoc && documentToText(bodyDoc) === variantRow.body_text
+            ? documentSections(bodyDoc)
+              .filter((s) => s.type === 'boilerplate' || s.type === 'contact')
+              .map((s) => variantRow.body_text.slice(s.start, s.end))
+            : [];
+
         const ctx: VariantContext = {
           variantId,
           bodyText: variantRow.body_text,
+          standingText,
           contentType: contentItem.content_type,
           contentSubType: contentItem.content_sub_type,
+          audience: contentItem.target_audience,
           wordsToAvoid,
         };
 
-        // 1. Deterministic pass (D9 + H5).
-        const requireClinicalReference =
-          ctx.contentSubType === 'full_clinical';
-        const deterministicFindings: DeterministicFinding[] =
-          runDeterministicChecks(ctx.bodyText, ctx.wordsToAvoid, {
-            requireClinicalReference,
-          });
+        // 1. Deterministic pass (D9 + H5), scoped rule library, then the
+        // client's managed boilerplate.
+        const deterministicFindings: DeterministicFinding[] = [
+          ...runDeterministicChecks(
+            ctx.bodyText,
+            ctx.wordsToAvoid,
+            ruleSet.rules,
+            {
+              contentType: ctx.contentType,
+              contentSubType: ctx.contentSubType,
+              audience: ctx.audience,
+              lifecycle,
+            },
+          ),
+          ...checkManagedBoilerplate(
+            ctx.bodyText,
+            managedBoilerplate,
+            boilerplateHistory ?? [],
+          ),
+        ];
 
         // 2. LLM pass.
         const llmResponse = await anthropic.messages.create({
@@ -174,7 +308,10 @@ Deno.serve(async (req: Request) => {
           messages: [
             {
               role: 'user',
-              content: buildComplianceUserMessage(ctx.bodyText),
+              content: buildComplianceUserMessage(
+                ctx.bodyText,
+                ctx.standingText,
+              ),
             },
           ],
         });
@@ -215,16 +352,36 @@ Deno.serve(async (req: Request) => {
           }),
         );
 
-        // 3. Merge (no dedupe — side panel surfaces both sources).
+        // 3. Merge (no dedupe — side panel surfaces both sources), anchoring
+        // each finding to its span in the body that was checked.
         const merged: MergedFinding[] = [
-          ...deterministicFindings.map((f) => ({
+          ...deterministicFindings.map(({ start, end, ...f }) => ({
             ...f,
+            anchor:
+              start !== null && end !== null
+                ? {
+                    start,
+                    end,
+                    context_hash: anchorContextHash(ctx.bodyText, start, end),
+                  }
+                : null,
             source: 'deterministic' as const,
           })),
-          ...llmFindingsTagged.map((f) => ({
-            ...f,
-            source: 'LLM' as const,
-          })),
+          ...llmFindingsTagged.map((f) => {
+            const anchor = locateFinding(
+              ctx.bodyText,
+              f.source_text,
+              f.paragraph_index,
+            );
+            return {
+              ...f,
+              paragraph_index: anchor
+                ? paragraphIndexAt(ctx.bodyText, anchor.start)
+                : f.paragraph_index,
+              anchor,
+              source: 'llm' as const,
+            };
+          }),
         ];
 
         // Phase 7: I4 atomicity. record_compliance_check wraps the
@@ -235,16 +392,28 @@ Deno.serve(async (req: Request) => {
           severity: f.severity,
           source_text: f.source_text,
           paragraph_index: f.paragraph_index,
+          anchor_start: f.anchor?.start ?? null,
+          anchor_end: f.anchor?.end ?? null,
+          anchor_context_hash: f.anchor?.context_hash ?? null,
           explanation: f.explanation,
           regulation_reference: f.regulation_reference,
           suggested_correction: f.suggested_correction,
+          source: f.source,
         }));
 
         const auditDetails = {
           deterministic_finding_count: deterministicFindings.length,
           llm_finding_count: llmFindingsTagged.length,
           total_finding_count: merged.length,
+          unanchored_llm_finding_count: merged.filter(
+            (f) => f.source === 'llm' && f.anchor === null,
+          ).length,
           prompt_version: COMPLIANCE_PROMPT_VERSION,
+          rule_set_version: ruleSet.version,
+          managed_boilerplate: managedBoilerplate.map((b) => ({
+            block_id: b.id,
+            version: b.version,
+          })),
           drug_lifecycle_status: lifecycle,
         };
 
@@ -285,6 +454,7 @@ Deno.serve(async (req: Request) => {
       data: {
         findings_by_variant: findingsByVariant,
         prompt_version: COMPLIANCE_PROMPT_VERSION,
+        rule_set_version: ruleSet.version,
       },
       error: null,
     });
@@ -0,0 +1,257 @@
+/**
+ * export-audit-trail — Edge Function
+ *
+ * Exports audit_trail_events across projects for a regulator or a client's
+ * legal team: filtered by client, project, date range, event type and
+ * actor, returned as CSV, JSON Lines or a bilingual PDF. Row shape and
+ * formats live in _shared/audit-export.ts.
+ *
+ * The export is recorded before the file leaves the server:
+ * record_audit_trail_export (migration 0029) writes an audit_trail_exported
+ * event on every project in the file, carrying the filters, counts and the
+ * SHA-256 of the exact bytes returned. If recording fails, nothing is
+ * returned.
+ *
+ * Response: the file itself. Text formats go out as application/octet-stream
+ * so supabase-js hands the client a Blob — decoding them as text would strip
+ * the CSV's BOM and the bytes would no longer match the recorded hash. The
+ * hash and event count travel in X-Export-* headers.
+ */
+
+import { corsHeaders, handlePreflight } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+import {
+  AuthError,
+  createSupabaseFromRequest,
+  getUserIdFromAuth,
+} from "../_shared/auth.ts";
+import {
+  AUDIT_EXPORT_MAX_EVENTS,
+  AUDIT_EXPORT_MIME,
+  AuditExportRequestSchema,
+  type AuditExportSourceEvent,
+  auditExportFilename,
+  buildAuditExportCsv,
+  buildAuditExportHtml,
+  buildAuditExportJsonl,
+  buildAuditExportPdfOptions,
+  toAuditExportRow,
+} from "../_shared/audit-export.ts";
+import { sha256HexBytes } from "../_shared/audit-report-pdf.ts";
+import { PdfRenderError, selectPdfRenderer } from "../_shared/pdf-renderer.ts";
+
+// PostgREST caps a response at 1000 rows; page through with .range().
+const PAGE_SIZE = 1000;
+
+const EVENT_COLUMNS =
+  "id, project_id, audit_report_id, chain_seq, occurred_at, event_type, actor_type, actor_id, actor_name_snapshot, model_used, details, event_hash, prev_hash, project:projects(name, client:clients(id, name))";
+
+Deno.serve(async (req: Request) => {
+  const preflight = handlePreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "POST") {
+    return jsonError(405, {
+      code: "validation_error",
+      message: "Method not allowed",
+    });
+  }
+
+  let supabase;
+  let userId: string;
+  try {
+    supabase = createSupabaseFromRequest(req);
+    userId = await getUserIdFromAuth(supabase);
+  } catch (e) {
+    if (e instanceof AuthError) {
+      return jsonError(401, { code: "permission_denied", message: e.message });
+    }
+    return jsonError(500, {
+      code: "internal_error",
+      message: (e as Error).message,
+    });
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await req.json();
+  } catch {
+    return jsonError(400, {
+      code: "validation_error",
+      message: "Body must be valid JSON",
+    });
+  }
+  const parsed = AuditExportRequestSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    return jsonError(400, {
+      code: "validation_error",
+      message: "Invalid input",
+      details: parsed.error.issues,
+    });
+  }
+  const { format, ...filters } = parsed.data;
+  const generatedAt = new Date().toISOString();
+
+  // Resolve the project scope first so the PDF names what was asked for
+  // and an unknown client or project is a 404, not an empty file.
+  let scopeIds: string[] | null = null;
+  let projectNames: string[] = [];
+  let clientName: string | null = null;
+  if (filters.client_id) {
+    const { data: client, error } = await supabase
+      .from("clients")
+      .select("name")
+      .eq("id", filters.client_id)
+      .maybeSingle();
+    if (error) {
+      return jsonError(500, { code: "internal_error", message: error.message });
+    }
+    if (!client) {
+      return jsonError(404, { code: "not_found", message: "Client not found" });
+    }
+    clientName = client.name;
+  }
+  if (filters.client_id || filters.project_ids) {
+    let query = supabase.from("projects").select("id, name");
+    if (filters.client_id) query = query.eq("client_id", filters.client_id);
+    if (filters.project_ids) query = query.in("id", filters.project_ids);
+    const { data: projects, error } = await query.order("name");
+    if (error) {
+      return jsonError(500, { code: "internal_error", message: error.message });
+    }
+    if (
+      filters.project_ids &&
+      (projects ?? []).length !== new Set(filters.project_ids).size
+    ) {
+      return jsonError(404, {
+        code: "not_found",
+        message: filters.client_id
+          ? "Project not found for this client"
+          : "Project not found",
+      });
+    }
+    scopeIds = (projects ?? []).map((p) => p.id);
+    if (filters.project_ids) projectNames = (projects ?? []).map((p) => p.name);
+  }
+
+  const events: AuditExportSourceEvent[] = [];
+  const cap = AUDIT_EXPORT_MAX_EVENTS[format];
+  if (scopeIds === null || scopeIds.length > 0) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase.from("audit_trail_events").select(EVENT_COLUMNS);
+      if (scopeIds) query = query.in("project_id", scopeIds);
+      if (filters.from) query = query.gte("occurred_at", filters.from);
+      if (filters.to) query = query.lt("occurred_at", filters.to);
+      if (filters.event_types)
+        query = query.in("event_type", filters.event_types);
+      if (filters.actor_type)
+        query = query.eq("actor_type", filters.actor_type);
+      if (filters.actor_id) query = query.eq("actor_id", filters.actor_id);
+      const { data: page, error } = await query
+        .order("occurred_at", { ascending: true })
+        .order("project_id", { ascending: true })
+        .order("chain_seq", { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) {
+        return jsonError(500, {
+          code: "internal_error",
+          message: `Audit trail lookup failed: ${error.message}`,
+        });
+      }
+      events.push(...((page ?? []) as unknown as AuditExportSourceEvent[]));
+      if (events.length > cap) {
+        return jsonError(413, {
+          code: "validation_error",
+          message: "export_too_large",
+          details: { max_events: cap },
+        });
+      }
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+  }
+
+  const rows = events.map(toAuditExportRow);
+
+  const { data: me } = await supabase
+    .from("users")
+    .select("full_name")
+    .eq("id", userId)
+    .maybeSingle();
+  let actorName: string | null = null;
+  if (filters.actor_id) {
+    const { data: actor } = await supabase
+      .from("users")
+      .select("full_name")
+      .eq("id", filters.actor_id)
+      .maybeSingle();
+    actorName = actor?.full_name ?? null;
+  }
+
+  let bytes: Uint8Array;
+  if (format === "csv") {
+    bytes = new TextEncoder().encode(buildAuditExportCsv(rows));
+  } else if (format === "jsonl") {
+    bytes = new TextEncoder().encode(buildAuditExportJsonl(rows));
+  } else {
+    const ctx = {
+      generated_at: generatedAt,
+      generated_by: me?.full_name ?? null,
+      client_name: clientName,
+      actor_name: actorName,
+      project_names: projectNames,
+      filters,
+    };
+    try {
+      const renderer = selectPdfRenderer((name) => Deno.env.get(name));
+      bytes = await renderer.render(
+        buildAuditExportHtml(rows, ctx),
+        buildAuditExportPdfOptions(ctx),
+      );
+    } catch (e) {
+      return jsonError(e instanceof PdfRenderError ? 502 : 500, {
+        code: "internal_error",
+        message: `PDF render failed: ${(e as Error).message}`,
+      });
+    }
+  }
+
+  const sha256 = await sha256HexBytes(bytes);
+  const filename = auditExportFilename(format, generatedAt);
+
+  const projectEventCounts: Record<string, number> = {};
+  for (const r of rows) {
+    projectEventCounts[r.project_id] =
+      (projectEventCounts[r.project_id] ?? 0) + 1;
+  }
+  const { error: recordError } = await supabase.rpc(
+    "record_audit_trail_export",
+    {
+      p_project_event_counts: projectEventCounts,
+      p_format: format,
+      p_filters: filters,
+      p_event_count: rows.length,
+      p_sha256: sha256,
+      p_filename: filename,
+    },
+  );
+  if (recordError) {
+    return jsonError(500, {
+      code: "internal_error",
+      message: `Export record failed: ${recordError.message}`,
+    });
+  }
+
+  return new Response(bytes, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Access-Control-Expose-Headers":
+        "Content-Disposition, X-Export-Sha256, X-Export-Event-Count",
+      "Content-Type":
+        format === "pdf" ? AUDIT_EXPORT_MIME.pdf : "application/octet-stream",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "X-Export-Sha256": sha256,
+      "X-Export-Event-Count": String(rows.length),
+    },
+  });
+});
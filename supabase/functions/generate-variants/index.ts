@@ -2,8 +2,9 @@
  * generate-variants — Edge Function
  *
  * Given a content_item_id (and optional variant_index for per-variant
- * regeneration), loads the content item, project, brand voice profile, and
- * active guidelines; fires 1 or 3 parallel Claude calls; upserts each result
+ * regeneration), loads the content item, project, brand voice profile,
+ * active guidelines, the client's approved-examples pool and managed
+ * boilerplate; fires 1 or 3 parallel Claude calls; upserts each result
  * via the atomic `regenerate_variant` RPC (H7 audit fix — clears prior
  * compliance_findings + upserts the variant row in one PL/pgSQL transaction).
  *
@@ -14,7 +15,21 @@
  *     sub_type_classified (extracted from the model output marker when
  *     sub_type_input is 'auto'), length_norm_fallback {requested, used},
  *     max_tokens, brief_hash (sha256 of brief fields), triggered_by_user_id,
- *     generated_at, anthropic_input_tokens, anthropic_output_tokens.
+ *     generated_at, anthropic_input_tokens, anthropic_output_tokens,
+ *     approved_example_ids (the pool rows that made it into the prompt after
+ *     selectApprovedExamples' ranking + budget trim — what the model saw),
+ *     structured_document (whether the reply parsed as a <document>),
+ *     managed_boilerplate (the client boilerplate blocks appended, as
+ *     {block_id, version}).
+ *
+ * Output: the model writes a structured document (_shared/variant-document.ts),
+ * stored as body_doc with body_text = documentToText(body_doc). A reply that
+ * doesn't parse as one is kept as plain text with body_doc null.
+ *
+ * Managed boilerplate (_shared/client-boilerplate.ts): the client's active
+ * blocks for this language and content type — company "about" text,
+ * disclaimers, forward-looking statements, media contact — are appended
+ * verbatim at their current version, replacing any the model wrote.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
@@ -27,10 +42,13 @@ import {
   buildVariantUserMessage,
   parseSubTypeMarker,
   exceedsHardCap,
+  selectApprovedExamples,
+  type ApprovedExampleCandidate,
   type ContentSubType,
   type TargetAudience,
   type DrugLifecycleStatus,
   type DistributionChannel,
+  type VariationAxis,
 } from './_prompt.ts';
 import { handlePreflight } from '../_shared/cors.ts';
 import { jsonResponse, jsonError } from '../_shared/errors.ts';
@@ -39,6 +57,17 @@ import {
   createSupabaseFromRequest,
   getUserIdFromAuth,
 } from '../_shared/auth.ts';
+import {
+  documentToText,
+  parseVariantDocument,
+} from '../_shared/variant-document.ts';
+import {
+  appendManagedBoilerplate,
+  applyManagedBoilerplate,
+  managedBlockTypes,
+  selectManagedBoilerplate,
+  type ManagedBoilerplate,
+} from '../_shared/client-boilerplate.ts';
 
 const InputSchema = z.object({
   content_item_id: z.string().uuid(),
@@ -113,7 +142,7 @@ Deno.serve(async (req: Request) => {
   const { data: contentItem, error: contentItemError } = await supabase
     .from('content_items')
     .select(
-      'id, project_id, content_type, content_sub_type, brief_free_text, brief_key_messages, brief_quotes, brief_data_points, brief_constraints, language, target_audience, drug_lifecycle_status, distribution_channel, length_target_chars, enforce_hard_cap, variant_count',
+      'id, project_id, content_type, content_sub_type, brief_free_text, brief_key_messages, brief_quotes, brief_data_points, brief_constraints, language, target_audience, drug_lifecycle_status, distribution_channel, length_target_chars, enforce_hard_cap, variant_count, variation_axis',
     )
     .eq('id', content_item_id)
     .single();
@@ -170,6 +199,58 @@ Deno.serve(async (req: Request) => {
 
   const guidelines = (guidelinesRows ?? []).map((g) => g.guideline_text);
 
+  // PRD §5.6 approved-examples pool. Fetch a bounded window of the newest
+  // active rows; selectApprovedExamples does the ranking + budget trim.
+  const { data: exampleRows, error: examplesError } = await supabase
+    .from('approved_examples')
+    .select('id, source_type, content_type, body_text, created_at')
+    .eq('client_id', project.client_id)
+    .eq('active', true)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (examplesError) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: `Approved examples fetch failed: ${examplesError.message}`,
+    });
+  }
+
+  const { data: boilerplateRows, error: boilerplateError } = await supabase
+    .from('client_boilerplate_blocks')
+    .select('id, kind, language, heading, body, current_version, content_types')
+    .eq('client_id', project.client_id)
+    .eq('active', true)
+    .order('created_at', { ascending: true });
+
+  if (boilerplateError) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: `Boilerplate fetch failed: ${boilerplateError.message}`,
+    });
+  }
+
+  const managedBoilerplate = selectManagedBoilerplate(
+    (boilerplateRows ?? []).map(
+      ({ current_version, ...b }) =>
+        ({ ...b, version: current_version }) as ManagedBoilerplate,
+    ),
+    {
+      contentType: contentItem.content_type,
+      language: contentItem.language as 'ja' | 'en',
+    },
+  );
+  const managedBoilerplateRefs = managedBoilerplate.map((b) => ({
+    block_id: b.id,
+    version: b.version,
+  }));
+
+  const approvedExamples = selectApprovedExamples(
+    (exampleRows ?? []) as ApprovedExampleCandidate[],
+    contentItem.content_type,
+  );
+  const approvedExampleIds = approvedExamples.map((ex) => ex.id);
+
   // D2 length-norm fallback: prefer the requested content_type, then
   // press_release, then any available key, else null.
   const lengthNorms = (voiceProfile.length_norms ??
@@ -206,9 +287,9 @@ Deno.serve(async (req: Request) => {
   const indicesToGenerate: (1 | 2 | 3)[] = variant_index
     ? [variant_index as 1 | 2 | 3]
     : fullIndices;
-  // variation_axis was removed with the New Project redesign; variants now
-  // always differ by the fixed 'tone' directives.
-  const variationAxis = 'tone' as const;
+  // Migration 0017 restored variation_axis; rows predating it default to
+  // 'tone', the only axis the redesign-era generator used.
+  const variationAxis = (contentItem.variation_axis ?? 'tone') as VariationAxis;
   const subType = contentItem.content_sub_type as ContentSubType;
   const audience = contentItem.target_audience as TargetAudience;
   const lifecycle = contentItem.drug_lifecycle_status as DrugLifecycleStatus;
@@ -238,20 +319,17 @@ Deno.serve(async (req: Request) => {
     channel,
     lengthTargetChars,
     enforceHardCap,
+    approvedExamples,
+    managedBoilerplate: {
+      blockTypes: managedBlockTypes(managedBoilerplate),
+      chars: Array.from(appendManagedBoilerplate('', managedBoilerplate))
+        .length,
+    },
   });
 
   const generatedAt = new Date().toISOString();
   const anthropic = new Anthropic({ apiKey: anthropicKey, maxRetries: 6 });
 
-  // Pre-fetch actor name once so the parallel audit writes below don't each
-  // round-trip to the users table. Non-critical — null is fine.
-  const { data: actorRow } = await supabase
-    .from('users')
-    .select('full_name')
-    .eq('id', userId)
-    .maybeSingle();
-  const actorNameSnapshot = actorRow?.full_name ?? null;
-
   const isRegeneration = variant_index !== undefined;
 
   try {
@@ -286,11 +364,18 @@ Deno.serve(async (req: Request) => {
           throw new Error(`variant ${index}: no text block in response`);
         }
         const parsed = parseSubTypeMarker(textBlock.text);
+        const generated = parseVariantDocument(parsed.body);
+        const doc = generated &&
+          applyManagedBoilerplate(generated, managedBoilerplate);
+        const body = doc
+          ? documentToText(doc)
+          : appendManagedBoilerplate(parsed.body, managedBoilerplate);
         return {
           response,
-          body: parsed.body,
+          body,
+          doc,
           sub_type_classified: parsed.sub_type_classified,
-          charCount: Array.from(parsed.body).length,
+          charCount: Array.from(body).length,
         };
       };
 
@@ -322,7 +407,7 @@ Deno.serve(async (req: Request) => {
         );
       }
 
-      const { response, body, sub_type_classified, charCount } = result;
+      const { response, body, doc, sub_type_classified, charCount } = result;
       const readingTimeSeconds = Math.ceil(charCount / 6);
 
       const generationParams = {
@@ -345,25 +430,33 @@ Deno.serve(async (req: Request) => {
         },
         max_tokens: 4096,
         brief_hash: briefHash,
+        approved_example_ids: approvedExampleIds,
         triggered_by_user_id: userId,
         generated_at: generatedAt,
         anthropic_input_tokens: response.usage.input_tokens,
         anthropic_output_tokens: response.usage.output_tokens,
+        structured_document: doc !== null,
+        managed_boilerplate: managedBoilerplateRefs,
       };
 
       // Phase 7: I4 atomicity. regenerate_variant now emits the
       // variant_generated audit event inside the same tx as the variant
-      // upsert. The Edge Function passes audit details + actor context
-      // as RPC params; no follow-up insert.
+      // upsert. The Edge Function passes the audit details; the RPC takes
+      // the actor from the JWT. No follow-up insert.
       const auditDetails = {
         content_item_id: content_item_id,
         variant_index: index,
         is_regeneration: isRegeneration,
+        variation_axis: variationAxis,
         brief_hash: briefHash,
         sub_type_classified,
         length_norm_fallback: lengthNormFallback,
+        approved_example_ids: approvedExampleIds,
+        managed_boilerplate: managedBoilerplateRefs,
         anthropic_input_tokens: response.usage.input_tokens,
         anthropic_output_tokens: response.usage.output_tokens,
+        // Audit trail exports report the prompt behind each generation.
+        prompt_version: VARIANT_GENERATION_PROMPT_VERSION,
       };
 
       const { data: variant, error: rpcError } = await supabase.rpc(
@@ -373,13 +466,12 @@ Deno.serve(async (req: Request) => {
           p_variant_index: index,
           p_variant_label: directive.label,
           p_body_text: body,
+          p_body_doc: doc,
           p_char_count: charCount,
           p_reading_time_seconds: readingTimeSeconds,
           p_model_used: response.model,
           p_generation_params: generationParams,
           p_project_id: project.id,
-          p_actor_id: userId,
-          p_actor_name_snapshot: actorNameSnapshot,
           p_audit_details: auditDetails,
         },
       );
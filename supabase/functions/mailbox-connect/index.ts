@@ -0,0 +1,247 @@
+/**
+ * mailbox-connect — Edge Function (JWT-gated, user actor)
+ *
+ * Connects the calling user's own Gmail / Microsoft 365 mailbox so their
+ * deliveries go out from it (_shared/mailbox.ts, migration 0033). One
+ * POST endpoint, by action:
+ *
+ *   providers   → { providers }: the providers this deployment has
+ *                 configured, for the Settings card.
+ *   start       { provider } → { authorize_url }: the provider's consent
+ *                 screen, with a signed state bound to this user. The
+ *                 browser navigates there; the provider redirects back to
+ *                 MAILBOX_OAUTH_REDIRECT_URL (/settings/mailbox/callback).
+ *   complete    { code, state } → { connection }: the callback page posts
+ *                 the code back. The state must verify and name this user;
+ *                 the code is exchanged, the refresh token encrypted and
+ *                 the connection upserted (replacing any earlier one,
+ *                 revoked or not).
+ *   disconnect  → { disconnected }: revokes the grant at the provider
+ *                 where it has an endpoint (best effort) and deletes the
+ *                 connection. Later sends use the managed address.
+ *
+ * mailbox_connections is written with a service-role client: users can
+ * read their own row but never write it, nor read the token.
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { handlePreflight } from "../_shared/cors.ts";
+import { jsonResponse, jsonError } from "../_shared/errors.ts";
+import {
+  AuthError,
+  createSupabaseFromRequest,
+  getUserIdFromAuth,
+} from "../_shared/auth.ts";
+import { mailboxProviderDeps, serviceRoleClient } from "../_shared/email.ts";
+import {
+  availableMailboxProviders,
+  decryptRefreshToken,
+  encryptRefreshToken,
+  importMailboxKeys,
+  MailboxError,
+  type MailboxProviderName,
+  selectMailboxProvider,
+  signOAuthState,
+  verifyOAuthState,
+} from "../_shared/mailbox.ts";
+
+const ProviderSchema = z.enum(["gmail", "microsoft", "mock"]);
+
+const InputSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("providers") }),
+  z.object({ action: z.literal("start"), provider: ProviderSchema }),
+  z.object({
+    action: z.literal("complete"),
+    code: z.string().min(1).max(4096),
+    state: z.string().min(1).max(1024),
+  }),
+  z.object({ action: z.literal("disconnect") }),
+]);
+
+// What the browser may see of a connection — never the token.
+const PUBLIC_COLUMNS =
+  "id, user_id, provider, email, display_name, status, connected_at, last_used_at, revoked_at, last_error";
+
+Deno.serve(async (req: Request) => {
+  const preflight = handlePreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== "POST") {
+    return jsonError(405, {
+      code: "validation_error",
+      message: "Method not allowed",
+    });
+  }
+
+  let supabase: SupabaseClient;
+  let userId: string;
+  try {
+    supabase = createSupabaseFromRequest(req);
+    userId = await getUserIdFromAuth(supabase);
+  } catch (e) {
+    if (e instanceof AuthError) {
+      return jsonError(401, { code: "permission_denied", message: e.message });
+    }
+    return jsonError(500, {
+      code: "internal_error",
+      message: (e as Error).message,
+    });
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await req.json();
+  } catch {
+    return jsonError(400, {
+      code: "validation_error",
+      message: "Body must be valid JSON",
+    });
+  }
+  const parsed = InputSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    return jsonError(400, {
+      code: "validation_error",
+      message: "Invalid input",
+      details: parsed.error.issues,
+    });
+  }
+  const input = parsed.data;
+  const deps = mailboxProviderDeps();
+
+  if (input.action === "providers") {
+    return jsonResponse(200, {
+      data: { providers: availableMailboxProviders(deps.env) },
+      error: null,
+    });
+  }
+
+  try {
+    const service = serviceRoleClient();
+
+    if (input.action === "disconnect") {
+      await disconnect(service, userId);
+      return jsonResponse(200, { data: { disconnected: true }, error: null });
+    }
+
+    const redirectUri = Deno.env.get("MAILBOX_OAUTH_REDIRECT_URL")?.trim();
+    if (!redirectUri) {
+      return jsonError(500, {
+        code: "internal_error",
+        message: "MAILBOX_OAUTH_REDIRECT_URL not set",
+      });
+    }
+    const keys = await importMailboxKeys(Deno.env.get("MAILBOX_TOKEN_KEY"));
+
+    if (input.action === "start") {
+      const provider = selectMailboxProvider(input.provider, deps);
+      const state = await signOAuthState(keys, {
+        userId,
+        provider: provider.name,
+      });
+      return jsonResponse(200, {
+        data: { authorize_url: provider.authorizeUrl(state, redirectUri) },
+        error: null,
+      });
+    }
+
+    const state = await verifyOAuthState(keys, input.state);
+    if (!state || state.userId !== userId) {
+      return jsonError(400, {
+        code: "validation_error",
+        message: "oauth_state_invalid",
+      });
+    }
+    const { data: user, error: userError } = await service
+      .from("users")
+      .select("email, full_name")
+      .eq("id", userId)
+      .single();
+    if (userError) throw new Error(`user lookup failed: ${userError.message}`);
+
+    const provider = selectMailboxProvider(state.provider, deps);
+    const account = await provider.exchangeCode(input.code, redirectUri, {
+      email: user.email,
+      fullName: user.full_name,
+    });
+    const { data: connection, error: upsertError } = await service
+      .from("mailbox_connections")
+      .upsert(
+        {
+          user_id: userId,
+          provider: provider.name,
+          email: account.email,
+          display_name: account.displayName,
+          refresh_token_encrypted: await encryptRefreshToken(
+            keys,
+            account.refreshToken,
+          ),
+          status: "active",
+          connected_at: new Date().toISOString(),
+          last_used_at: null,
+          revoked_at: null,
+          last_error: null,
+        },
+        { onConflict: "user_id" },
+      )
+      .select(PUBLIC_COLUMNS)
+      .single();
+    if (upsertError) {
+      throw new Error(`connection save failed: ${upsertError.message}`);
+    }
+    return jsonResponse(200, { data: { connection }, error: null });
+  } catch (e) {
+    if (e instanceof MailboxError) {
+      const status = e.kind === "not_configured" ? 409 : 502;
+      return jsonError(status, {
+        code: status === 409 ? "validation_error" : "internal_error",
+        message: `mailbox_${e.kind}: ${e.message}`,
+      });
+    }
+    return jsonError(500, {
+      code: "internal_error",
+      message: (e as Error).message,
+    });
+  }
+});
+
+async function disconnect(
+  service: SupabaseClient,
+  userId: string,
+): Promise<void> {
+  const { data: row, error } = await service
+    .from("mailbox_connections")
+    .select("id, provider, refresh_token_encrypted")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(`connection lookup failed: ${error.message}`);
+  if (!row) return;
+
+  // The grant outlives the row otherwise; failing to revoke it must not
+  // keep the user connected.
+  try {
+    const provider = selectMailboxProvider(
+      row.provider as MailboxProviderName,
+      mailboxProviderDeps(),
+    );
+    if (provider.revoke) {
+      const keys = await importMailboxKeys(Deno.env.get("MAILBOX_TOKEN_KEY"));
+      await provider.revoke(
+        await decryptRefreshToken(keys, row.refresh_token_encrypted),
+      );
+    }
+  } catch (e) {
+    console.warn(
+      `mailbox-connect: provider revoke failed user=${userId}`,
+      (e as Error).message,
+    );
+  }
+
+  const { error: deleteError } = await service
+    .from("mailbox_connections")
+    .delete()
+    .eq("id", row.id);
+  if (deleteError) {
+    throw new Error(`disconnect failed: ${deleteError.message}`);
+  }
+}
@@ -12,8 +12,8 @@
  * Output (HTTP 200 always for the happy + best-effort paths):
  *   { data: { sent: boolean }, error: null }
  *
- * Best-effort: if FEEDBACK_NOTIFY_EMAILS / RESEND_FROM_* are unset, or Resend
- * fails, we log and still return 200 — email must never gate the submission.
+ * Best-effort: if FEEDBACK_NOTIFY_EMAILS / RESEND_FROM_* are unset, or the
+ * send fails, we log and still return 200 — email must never gate the submission.
  */
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
@@ -24,7 +24,8 @@ import {
   createSupabaseFromRequest,
   getUserIdFromAuth,
 } from '../_shared/auth.ts';
-import { ResendError, sendEmail } from '../_shared/resend.ts';
+import { getEmailTransport } from '../_shared/email.ts';
+import { ResendError } from '../_shared/resend.ts';
 
 const InputSchema = z.object({
   feedback_id: z.string().uuid(),
@@ -167,7 +168,7 @@ Deno.serve(async (req: Request) => {
 
   const [primary, ...rest] = recipients;
   try {
-    await sendEmail({
+    await getEmailTransport().send({
       from: `${fromName} <${fromEmail}>`,
       to: primary,
       bcc: rest.length > 0 ? rest : undefined,
@@ -179,7 +180,7 @@ Deno.serve(async (req: Request) => {
   } catch (e) {
     // Best-effort: log and still return 200 — the row is the source of truth.
     const detail = e instanceof ResendError ? `${e.kind}: ${e.message}` : String(e);
-    console.error('notify-feedback: Resend send failed', detail);
+    console.error('notify-feedback: email send failed', detail);
     return jsonResponse(200, { data: { sent: false }, error: null });
   }
 });
@@ -0,0 +1,291 @@
+/**
+ * process-feedback-reminders — Edge Function (service-role JWT)
+ *
+ * pg_cron POSTs hourly with Authorization: Bearer <service_role_key>
+ * (op_feedback_reminder_cron.sql). Implements PRD §8 decision 5 — one polite
+ * reminder, then "no feedback received" at token expiry. Each tick:
+ *
+ *   1. Verifies the Bearer matches SUPABASE_SERVICE_ROLE_KEY (same defense in
+ *      depth as process-scheduled-sends).
+ *   2. Expiry pass: unused tokens past expires_at with expired_at unset →
+ *      expire_feedback_token (stamps expired_at, emits feedback_expired,
+ *      flips the project to 'no_feedback' — one transaction).
+ *   3. Reminder pass: unused, unexpired tokens with reminder_sent_at unset
+ *      whose delivery was sent at least FEEDBACK_REMINDER_AFTER_DAYS ago.
+ *      Renders the app_config template, sends from the delivery's snapshot
+ *      sender identity with the SAME magic link, then
+ *      mark_feedback_reminder_sent (stamps reminder_sent_at, emits
+ *      feedback_reminder_sent).
+ *
+ * Expiry runs first so a token that lapsed between ticks is closed out
+ * rather than reminded.
+ *
+ * Reminders go to the original To + CC only; the firm's internal BCC already
+ * has the delivery and doesn't need the nudge.
+ *
+ * Idempotency: the email idempotency key is `feedback-reminder:<token_id>`,
+ * so a tick that sent but failed to mark is re-sent harmlessly on the next
+ * tick (within Resend's 24h window; the smtp and capture transports keep
+ * theirs in email_send_ledger) and then marked. No attempt counter: a token
+ * that keeps failing is retried hourly until it expires, at which point the
+ * expiry pass takes over.
+ */
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { handlePreflight } from '../_shared/cors.ts';
+import { jsonError, jsonResponse } from '../_shared/errors.ts';
+import { getEmailTransport } from '../_shared/email.ts';
+import { ResendError } from '../_shared/resend.ts';
+import { buildFeedbackUrl } from '../_shared/magic-link.ts';
+import {
+  FEEDBACK_REMINDER_CONFIG_KEYS,
+  type FeedbackReminderConfig,
+  parseReminderConfig,
+  reminderCutoff,
+  renderReminder,
+} from '../_shared/feedback-reminder.ts';
+import type { DeliverySnapshot } from '../_shared/types-delivery.ts';
+
+const BATCH_SIZE = 25;
+const CONCURRENCY = 5;
+
+type Outcome =
+  | { kind: 'expired'; token_id: string; project_status: string }
+  | { kind: 'reminded'; token_id: string; resend_message_id: string }
+  | { kind: 'failed'; token_id: string; error: string };
+
+interface ExpiringTokenRow {
+  id: string;
+}
+
+interface ReminderTokenRow {
+  id: string;
+  token: string;
+  expires_at: string;
+  deliveries: {
+    id: string;
+    subject: string;
+    delivery_snapshot: DeliverySnapshot;
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  const preflight = handlePreflight(req);
+  if (preflight) return preflight;
+
+  if (req.method !== 'POST') {
+    return jsonError(405, {
+      code: 'validation_error',
+      message: 'Method not allowed',
+    });
+  }
+
+  const url = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const base = Deno.env.get('PUBLIC_FEEDBACK_URL_BASE');
+  if (!url || !serviceKey) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: 'Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY',
+    });
+  }
+  if (!base) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: 'PUBLIC_FEEDBACK_URL_BASE not set',
+    });
+  }
+
+  const authHeader = req.headers.get('Authorization') ?? '';
+  if (authHeader !== `Bearer ${serviceKey}`) {
+    return jsonError(403, {
+      code: 'permission_denied',
+      message: 'service role required',
+    });
+  }
+
+  const supabase = createClient(url, serviceKey);
+  const now = new Date();
+
+  const { data: configRows, error: configError } = await supabase
+    .from('app_config')
+    .select('key, value')
+    .in('key', [...FEEDBACK_REMINDER_CONFIG_KEYS]);
+  if (configError) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: `app_config query failed: ${configError.message}`,
+    });
+  }
+  const config = parseReminderConfig(
+    new Map<string, string>(
+      (configRows ?? []).map((r) => [r.key as string, r.value as string]),
+    ),
+  );
+
+  // 1. Expiry pass
+  const { data: expiringRows, error: expiringError } = await supabase
+    .from('feedback_tokens')
+    .select('id')
+    .is('used_at', null)
+    .is('expired_at', null)
+    .lte('expires_at', now.toISOString())
+    .order('expires_at', { ascending: true })
+    .limit(BATCH_SIZE);
+  if (expiringError) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: `expiring tokens query failed: ${expiringError.message}`,
+    });
+  }
+  const expiryOutcomes = await runWithConcurrency(
+    (expiringRows ?? []) as ExpiringTokenRow[],
+    CONCURRENCY,
+    (row) => expireOne(supabase, row),
+  );
+
+  // 2. Reminder pass
+  const { data: reminderRows, error: reminderError } = await supabase
+    .from('feedback_tokens')
+    .select(
+      'id, token, expires_at, deliveries!inner(id, subject, delivery_snapshot)',
+    )
+    .is('used_at', null)
+    .is('reminder_sent_at', null)
+    .gt('expires_at', now.toISOString())
+    .eq('deliveries.status', 'sent')
+    .lte(
+      'deliveries.sent_at',
+      reminderCutoff(now, config.afterDays).toISOString(),
+    )
+    .limit(BATCH_SIZE);
+  if (reminderError) {
+    return jsonError(500, {
+      code: 'internal_error',
+      message: `reminder tokens query failed: ${reminderError.message}`,
+    });
+  }
+  const reminderOutcomes = await runWithConcurrency(
+    (reminderRows ?? []) as unknown as ReminderTokenRow[],
+    CONCURRENCY,
+    (row) => remindOne(supabase, row, config, base),
+  );
+
+  const outcomes = [...expiryOutcomes, ...reminderOutcomes];
+  const summary: Record<string, number> = {};
+  for (const o of outcomes) summary[o.kind] = (summary[o.kind] ?? 0) + 1;
+
+  return jsonResponse(200, {
+    data: { processed: outcomes.length, summary, outcomes },
+    error: null,
+  });
+});
+
+async function expireOne(
+  supabase: SupabaseClient,
+  row: ExpiringTokenRow,
+): Promise<Outcome> {
+  const { data, error } = await supabase.rpc('expire_feedback_token', {
+    p_token_id: row.id,
+  });
+  if (error) {
+    return {
+      kind: 'failed',
+      token_id: row.id,
+      error: `expire_feedback_token failed: ${error.message}`,
+    };
+  }
+  return {
+    kind: 'expired',
+    token_id: row.id,
+    project_status:
+      ((data as { project_status?: string }) ?? {}).project_status ?? '',
+  };
+}
+
+async function remindOne(
+  supabase: SupabaseClient,
+  row: ReminderTokenRow,
+  config: FeedbackReminderConfig,
+  base: string,
+): Promise<Outcome> {
+  const delivery = row.deliveries;
+  const snapshot = delivery.delivery_snapshot;
+  let feedbackUrl: string;
+  try {
+    feedbackUrl = buildFeedbackUrl(base, row.token);
+  } catch (e) {
+    return {
+      kind: 'failed',
+      token_id: row.id,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+
+  const rendered = renderReminder(config, {
+    projectName: snapshot.project.name,
+    originalSubject: delivery.subject,
+    feedbackUrl,
+    expiresAt: row.expires_at,
+  });
+  const sender = snapshot.sender;
+  const recipient = snapshot.recipient;
+
+  let messageId: string;
+  try {
+    const result = await getEmailTransport().send({
+      from: `${sender.from_name} <${sender.from_email}>`,
+      to: recipient.email,
+      cc: recipient.cc_emails.length > 0 ? recipient.cc_emails : undefined,
+      reply_to: sender.reply_to_email,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      idempotencyKey: `feedback-reminder:${row.id}`,
+    });
+    messageId = result.id;
+  } catch (e) {
+    const errMsg = e instanceof ResendError
+      ? `resend_${e.kind}: ${e.message}`
+      : (e instanceof Error ? e.message : String(e));
+    return { kind: 'failed', token_id: row.id, error: errMsg };
+  }
+
+  const { error: markError } = await supabase.rpc(
+    'mark_feedback_reminder_sent',
+    {
+      p_token_id: row.id,
+      p_resend_message_id: messageId,
+    },
+  );
+  if (markError) {
+    // Sent but not stamped; the next tick re-sends under the same
+    // idempotency key (the transport dedupes) and retries the mark.
+    return {
+      kind: 'failed',
+      token_id: row.id,
+      error:
+        `mark_feedback_reminder_sent failed: ${markError.message} (message_id=${messageId})`,
+    };
+  }
+  return { kind: 'reminded', token_id: row.id, resend_message_id: messageId };
+}
+
+async function runWithConcurrency<T, U>(
+  items: ReadonlyArray<T>,
+  n: number,
+  fn: (item: T) => Promise<U>,
+): Promise<U[]> {
+  const results: U[] = new Array(items.length);
+  let next = 0;
+  const workers = new Array(Math.min(n, items.length)).fill(0).map(
+    async () => {
+      while (true) {
+        const i = next++;
+        if (i >= items.length) return;
+        results[i] = await fn(items[i]);
+      }
+    },
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -6,60 +6,94 @@
  *
  *   1. Verifies the Bearer matches SUPABASE_SERVICE_ROLE_KEY (defense in
  *      depth on top of the platform's JWT gate).
- *   2. Claims up to BATCH_SIZE due rows from scheduled_sends:
+ *   2. Leases up to BATCH_SIZE due rows with claim_scheduled_sends
+ *      (migration 0035; _shared/scheduled-sends.ts):
  *        processed=false AND attempts < MAX_ATTEMPTS AND scheduled_for <= now()
- *      No FOR UPDATE SKIP LOCKED in v1 — Resend Idempotency-Key dedupes any
- *      overlapping ticks. Carry-forward to v2: explicit leasing pattern.
+ *        AND not leased
+ *      Rows of a project whose enforced embargo has not lifted, and rows
+ *      inside an active blackout they were not scheduled into knowingly,
+ *      are held until then (migration 0042).
+ *      FOR UPDATE SKIP LOCKED, so overlapping ticks never share a row. The
+ *      leases are extended every HEARTBEAT_MS while rows are in progress,
+ *      and re-asserted right before each send; a row whose lease was lost
+ *      is left alone (outcome lease_lost). The same claim settles leases
+ *      that ran out under a stalled or dead worker, counting each as a
+ *      failed attempt. Rows re-queued by retry_delivery (migration 0034)
+ *      are due at once and go through the same path.
  *   3. For each row, renders ONLY from delivery_snapshot (no joins back to
  *      mutable content_variants — eliminates the schedule-then-edit drift
- *      hole the reviewer flagged).
- *   4. Attachment failure → record_scheduled_attempt_failure (transient).
- *      If attempts_after >= 3, follows with mark_delivery_failed (terminal).
- *   5. Resend success → mark_delivery_sent_system (audit event in same tx,
- *      actor_type='system').
- *   6. Resend 409 (idempotency collision; same key, different body) →
+ *      hole the reviewer flagged). That includes the frozen
+ *      comparison_summary lines substituted into {{COMPARISON_SUMMARY}},
+ *      and the archival audit PDF when delivery_snapshot.audit_archive is
+ *      set (stored at create time, so nothing is re-rendered).
+ *   4. Attachment failure → record_scheduled_attempt_failure (transient,
+ *      releases the lease). If attempts_after >= 3, follows with
+ *      mark_delivery_failed (terminal).
+ *   5. Send from the delivery creator's connected mailbox, resolved now
+ *      rather than at scheduling time; the managed address from the
+ *      snapshot if there is none or its grant was revoked
+ *      (_shared/delivery-sender.ts), with idempotency key = delivery_id,
+ *      suffixed after a manual retry (sendIdempotencyKey). Success →
+ *      mark_delivery_sent_system (audit event in same tx,
+ *      actor_type='system', recording the sender identity used and any
+ *      fallback).
+ *   6. 409 (idempotency collision; same key, different body) →
  *      mark_delivery_failed. It's a code bug, not a transient.
- *   7. Any other Resend failure → record_scheduled_attempt_failure;
+ *   7. Any other send failure → record_scheduled_attempt_failure;
  *      if >=3, mark_delivery_failed.
  *
  * Concurrency cap of CONCURRENCY per tick: ~5 sends × pdfshift 2-5s ≈ within
- * one cron minute.
+ * one cron minute (the sizing assumes the slowest engine; the local PDF
+ * renderer takes well under a second). A tick that overruns anyway only
+ * delays the next one's rows: it cannot claim the ones still leased here.
+ *
+ * Responds with the tick report (runLeasedTick): worker id, rows claimed
+ * and reclaimed, leases expired, and one outcome per row.
  */
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { handlePreflight } from '../_shared/cors.ts';
 import { jsonError, jsonResponse } from '../_shared/errors.ts';
-import { ResendError, sendEmail } from '../_shared/resend.ts';
+import { sendDeliveryEmail } from '../_shared/email.ts';
+import type { SenderIdentity } from '../_shared/delivery-sender.ts';
+import { ResendError } from '../_shared/resend.ts';
 import {
   type Attachment,
   AttachmentError,
   assertTotalSize,
   generateDocx,
   generatePdf,
+  loadAuditArchive,
 } from '../_shared/attachments.ts';
 import {
   buildDocMeta,
   buildPdfHtml,
   buildPdfOptions,
 } from '../_shared/doc-rendering.ts';
-import { applyFeedbackToBody } from '../_shared/delivery-template.ts';
+import {
+  applyComparisonSummaryToBody,
+  applyFeedbackToBody,
+} from '../_shared/delivery-template.ts';
 import { buildFeedbackUrl } from '../_shared/magic-link.ts';
 import type { DeliverySnapshot } from '../_shared/types-delivery.ts';
+import {
+  createSupabaseSendQueue,
+  type Lease,
+  runLeasedTick,
+} from '../_shared/scheduled-sends.ts';
 
 const MAX_ATTEMPTS = 3;
 const BATCH_SIZE = 10;
 const CONCURRENCY = 5;
+// Comfortably longer than one render + send; the heartbeat keeps slower
+// rows leased.
+const LEASE_SECONDS = 120;
+const HEARTBEAT_MS = 30_000;
 
 type Outcome =
   | { kind: 'sent'; delivery_id: string; resend_message_id: string }
   | { kind: 'transient_failure'; delivery_id: string; attempts_after: number; error: string }
-  | { kind: 'terminal_failure'; delivery_id: string; error: string };
-
-interface DueRow {
-  id: string;
-  delivery_id: string;
-  scheduled_for: string;
-  attempts: number;
-}
+  | { kind: 'terminal_failure'; delivery_id: string; error: string }
+  | { kind: 'lease_lost'; delivery_id: string; error: string };
 
 interface DeliveryRow {
   id: string;
@@ -68,6 +102,7 @@ interface DeliveryRow {
   body_text: string | null;
   attachment_format: 'pdf' | 'word' | 'both';
   delivery_snapshot: DeliverySnapshot;
+  created_by: string | null;
 }
 
 Deno.serve(async (req: Request) => {
@@ -108,88 +143,79 @@ Deno.serve(async (req: Request) => {
   }
 
   const supabase = createClient(url, serviceKey);
+  const worker = `process-scheduled-sends:${crypto.randomUUID()}`;
 
-  // 1. Claim due rows
-  const { data: dueRows, error: dueError } = await supabase
-    .from('scheduled_sends')
-    .select('id, delivery_id, scheduled_for, attempts')
-    .eq('processed', false)
-    .lt('attempts', MAX_ATTEMPTS)
-    .lte('scheduled_for', new Date().toISOString())
-    .order('scheduled_for', { ascending: true })
-    .limit(BATCH_SIZE);
-  if (dueError) {
+  try {
+    const report = await runLeasedTick<Outcome>(
+      createSupabaseSendQueue(supabase),
+      {
+        worker,
+        batchSize: BATCH_SIZE,
+        concurrency: CONCURRENCY,
+        leaseSeconds: LEASE_SECONDS,
+        heartbeatMs: HEARTBEAT_MS,
+        maxAttempts: MAX_ATTEMPTS,
+      },
+      (lease) => processLeased(supabase, lease, base),
+    );
+    return jsonResponse(200, { data: report, error: null });
+  } catch (e) {
+    // Only the claim itself throws; nothing has been leased.
     return jsonError(500, {
       code: 'internal_error',
-      message: `scheduled_sends query failed: ${dueError.message}`,
-    });
-  }
-  if (!dueRows || dueRows.length === 0) {
-    return jsonResponse(200, {
-      data: { processed: 0, summary: {} },
-      error: null,
+      message: e instanceof Error ? e.message : String(e),
     });
   }
+});
 
-  // 2. Load corresponding delivery rows + tokens
-  const deliveryIds = dueRows.map((r) => r.delivery_id);
-  const [{ data: deliveryRows, error: dErr }, { data: tokenRows, error: tErr }] =
+// Loads the delivery + token for one leased row, then processOne.
+async function processLeased(
+  supabase: SupabaseClient,
+  lease: Lease,
+  base: string,
+): Promise<Outcome> {
+  const deliveryId = lease.send.delivery_id;
+  const [{ data: delivery, error: dErr }, { data: tokenRow, error: tErr }] =
     await Promise.all([
       supabase
         .from('deliveries')
         .select(
-          'id, subject, body_html, body_text, attachment_format, delivery_snapshot',
+          'id, subject, body_html, body_text, attachment_format, delivery_snapshot, created_by',
         )
-        .in('id', deliveryIds),
+        .eq('id', deliveryId)
+        .maybeSingle(),
       supabase
         .from('feedback_tokens')
-        .select('delivery_id, token')
-        .in('delivery_id', deliveryIds),
+        .select('token')
+        .eq('delivery_id', deliveryId)
+        .maybeSingle(),
     ]);
   if (dErr || tErr) {
-    return jsonError(500, {
-      code: 'internal_error',
-      message:
-        `lookup failed: deliveries=${dErr?.message ?? 'ok'} tokens=${tErr?.message ?? 'ok'}`,
-    });
+    return await transientOrTerminal(
+      supabase,
+      lease,
+      `lookup failed: deliveries=${dErr?.message ?? 'ok'} tokens=${
+        tErr?.message ?? 'ok'
+      }`,
+    );
   }
-  const deliveryById = new Map<string, DeliveryRow>(
-    (deliveryRows ?? []).map((d) => [d.id, d as unknown as DeliveryRow]),
+  return await processOne(
+    supabase,
+    lease,
+    delivery as unknown as DeliveryRow | null,
+    tokenRow?.token ?? null,
+    base,
   );
-  const tokenByDelivery = new Map<string, string>(
-    (tokenRows ?? []).map((t) => [t.delivery_id, t.token]),
-  );
-
-  // 3. Process with concurrency cap
-  const outcomes = await runWithConcurrency(
-    dueRows as DueRow[],
-    CONCURRENCY,
-    (row) =>
-      processOne(
-        supabase,
-        row,
-        deliveryById.get(row.delivery_id) ?? null,
-        tokenByDelivery.get(row.delivery_id) ?? null,
-        base,
-      ),
-  );
-
-  const summary: Record<string, number> = {};
-  for (const o of outcomes) summary[o.kind] = (summary[o.kind] ?? 0) + 1;
-
-  return jsonResponse(200, {
-    data: { processed: dueRows.length, summary, outcomes },
-    error: null,
-  });
-});
+}
 
 async function processOne(
   supabase: SupabaseClient,
-  row: DueRow,
+  lease: Lease,
   delivery: DeliveryRow | null,
   token: string | null,
   base: string,
 ): Promise<Outcome> {
+  const row = lease.send;
   if (!delivery || !token) {
     // Orphan scheduled_sends row (delivery deleted? token missing?) — terminal.
     await terminal(supabase, row.delivery_id, 'orphan_scheduled_send');
@@ -204,7 +230,11 @@ async function processOne(
   const snapshot = delivery.delivery_snapshot;
   let attachments: Attachment[];
   try {
-    attachments = await buildAttachments(delivery.attachment_format, snapshot);
+    attachments = await buildAttachments(
+      supabase,
+      delivery.attachment_format,
+      snapshot,
+    );
     assertTotalSize(attachments);
   } catch (e) {
     const errMsg = e instanceof AttachmentError
@@ -212,40 +242,60 @@ async function processOne(
       : (e instanceof Error
         ? `attachment_generation_failed: ${e.message}`
         : `attachment_generation_failed: ${String(e)}`);
-    return await transientOrTerminal(supabase, row, errMsg);
+    return await transientOrTerminal(supabase, lease, errMsg);
   }
 
   // Send
   const feedbackUrl = buildFeedbackUrl(base, token);
   const body = applyFeedbackToBody(
-    {
-      html: delivery.body_html,
-      text: delivery.body_text ?? '',
-    },
+    applyComparisonSummaryToBody(
+      {
+        html: delivery.body_html,
+        text: delivery.body_text ?? '',
+      },
+      snapshot.comparison_summary ?? [],
+    ),
     feedbackUrl,
   );
   const sender = snapshot.sender;
   const recipient = snapshot.recipient;
+
+  // Rendering can outlast a lease; another worker may own the row by now.
+  if (!(await lease.confirm())) {
+    return {
+      kind: 'lease_lost',
+      delivery_id: row.delivery_id,
+      error: 'lease lost before send; not sent',
+    };
+  }
   let messageId: string;
+  let sentFrom: SenderIdentity;
   try {
-    const result = await sendEmail({
-      from: `${sender.from_name} <${sender.from_email}>`,
-      to: recipient.email,
-      cc: recipient.cc_emails.length > 0 ? recipient.cc_emails : undefined,
-      bcc: recipient.bcc_emails_effective.length > 0
-        ? recipient.bcc_emails_effective
-        : undefined,
-      reply_to: sender.reply_to_email,
-      subject: delivery.subject,
-      html: body.html,
-      text: body.text,
-      attachments: attachments.map((a) => ({
-        filename: a.filename,
-        content: a.content,
-      })),
-      idempotencyKey: delivery.id,
+    const result = await sendDeliveryEmail({
+      createdBy: delivery.created_by,
+      managed: sender,
+      payload: {
+        to: recipient.email,
+        cc: recipient.cc_emails.length > 0 ? recipient.cc_emails : undefined,
+        bcc: recipient.bcc_emails_effective.length > 0
+          ? recipient.bcc_emails_effective
+          : undefined,
+        reply_to: sender.reply_to_email,
+        subject: delivery.subject,
+        html: body.html,
+        text: body.text,
+        attachments: attachments.map((a) => ({
+          filename: a.filename,
+          content: a.content,
+        })),
+        idempotencyKey: sendIdempotencyKey(
+          delivery.id,
+          row.manual_retries,
+        ),
+      },
     });
     messageId = result.id;
+    sentFrom = result.sender;
   } catch (e) {
     if (e instanceof ResendError && e.kind === 'idempotency_collision_409') {
       // Code bug, not transient.
@@ -263,20 +313,22 @@ async function processOne(
     const errMsg = e instanceof ResendError
       ? `resend_${e.kind}: ${e.message}`
       : (e instanceof Error ? e.message : String(e));
-    return await transientOrTerminal(supabase, row, errMsg);
+    return await transientOrTerminal(supabase, lease, errMsg);
   }
 
   // Mark sent (audit event in same tx)
   const { error: markError } = await supabase.rpc('mark_delivery_sent_system', {
     p_delivery_id: row.delivery_id,
     p_resend_message_id: messageId,
+    p_sender: sentFrom,
   });
   if (markError) {
     // Email sent but audit write failed. Treat as transient so the next tick
-    // re-attempts the mark (Resend dedupes the re-send via idempotency key).
+    // re-attempts the mark (the transport dedupes the re-send via the
+    // idempotency key).
     return await transientOrTerminal(
       supabase,
-      row,
+      lease,
       `mark_delivery_sent_system failed: ${markError.message} (message_id=${messageId})`,
     );
   }
@@ -287,18 +339,39 @@ async function processOne(
   };
 }
 
+// A manual retry (retry_delivery) is a new send, not a repeat of the one
+// that failed: under the same key Resend or the ledger would hand back
+// that attempt's outcome, or reject the regenerated attachments as a
+// collision. Overlapping ticks for one retry still share a key.
+function sendIdempotencyKey(
+  deliveryId: string,
+  manualRetries: number,
+): string {
+  return manualRetries > 0
+    ? `${deliveryId}:retry-${manualRetries}`
+    : deliveryId;
+}
+
 async function transientOrTerminal(
   supabase: SupabaseClient,
-  row: DueRow,
+  lease: Lease,
   errMsg: string,
 ): Promise<Outcome> {
+  const row = lease.send;
   const { data, error } = await supabase.rpc(
     'record_scheduled_attempt_failure',
     {
       p_scheduled_send_id: row.id,
       p_error_message: errMsg,
+      p_worker: lease.worker,
     },
   );
+  if (error?.message === 'lease_lost') {
+    // Reclaimed by another worker, or settled meanwhile (a failed
+    // mark_delivery_sent_system after another worker's send was marked
+    // lands here): the row is not ours to count or fail.
+    return { kind: 'lease_lost', delivery_id: row.delivery_id, error: errMsg };
+  }
   if (error) {
     // Couldn't record the attempt; surface as terminal so we don't loop.
     await terminal(
@@ -349,6 +422,7 @@ async function terminal(
 }
 
 async function buildAttachments(
+  supabase: SupabaseClient,
   format: 'pdf' | 'word' | 'both',
   snapshot: DeliverySnapshot,
 ): Promise<Attachment[]> {
@@ -359,6 +433,7 @@ async function buildAttachments(
     variant_label: v.variant_label,
     variant_index: v.variant_index,
     body_text: v.body_text,
+    body_doc: v.body_doc ?? null,
   }));
   const tasks: Promise<Attachment>[] = [];
   if (format === 'pdf' || format === 'both') {
@@ -367,27 +442,16 @@ async function buildAttachments(
   if (format === 'word' || format === 'both') {
     tasks.push(generateDocx(blocks, `${safeName}.docx`, meta));
   }
+  if (snapshot.audit_archive) {
+    tasks.push(
+      loadAuditArchive(
+        supabase,
+        snapshot.audit_archive,
+        snapshot.audit_archive.filename,
+      ),
+    );
+  }
   // Partial-success rejection: throw on the first failure so caller branches
   // to transient/terminal. Promise.all throws on first reject.
   return await Promise.all(tasks);
 }
-
-async function runWithConcurrency<T, U>(
-  items: ReadonlyArray<T>,
-  n: number,
-  fn: (item: T) => Promise<U>,
-): Promise<U[]> {
-  const results: U[] = new Array(items.length);
-  let next = 0;
-  const workers = new Array(Math.min(n, items.length)).fill(0).map(
-    async () => {
-      while (true) {
-        const i = next++;
-        if (i >= items.length) return;
-        results[i] = await fn(items[i]);
-      }
-    },
-  );
-  await Promise.all(workers);
-  return results;
-}
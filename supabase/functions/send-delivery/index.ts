@@ -12,14 +12,24 @@
  *      from delivery_snapshot when the time arrives.
  *   6. Immediate path:
  *      a. Build feedback URL from token + PUBLIC_FEEDBACK_URL_BASE.
- *      b. Substitute {{FEEDBACK_LINK}} or append footer to body
- *         (both html and text).
+ *      b. Substitute {{COMPARISON_SUMMARY}} from
+ *         delivery_snapshot.comparison_summary, then {{FEEDBACK_LINK}} or
+ *         append footer to body (both html and text).
  *      c. Generate attachments per format (pdf, word, both) from
  *         delivery_snapshot.variants. Partial-success is rejected:
- *         attachment_format='both' means BOTH must succeed.
- *      d. Resend send with Idempotency-Key=delivery_id.
- *      e. On success: mark_delivery_sent_user RPC (audit event in same tx).
- *      f. On any failure: mark_delivery_failed RPC + 502 response.
+ *         attachment_format='both' means BOTH must succeed. The audit
+ *         report's archival PDF is added when the snapshot carries
+ *         audit_archive (loadAuditArchive re-checks its SHA-256).
+ *      d. Re-check the project's embargo (_embargo_blocks): it may have
+ *         been enforced while the attachments rendered. Blocked →
+ *         mark_delivery_failed('embargo_not_lifted') + 409.
+ *      e. Send from the user's connected mailbox, or through the
+ *         configured email transport from the managed address when there
+ *         is none or its grant was revoked (_shared/delivery-sender.ts),
+ *         with idempotency key = delivery_id.
+ *      f. On success: mark_delivery_sent_user RPC (audit event in same tx,
+ *         recording the sender identity used).
+ *      g. On any failure: mark_delivery_failed RPC + 502 response.
  */
 import { handlePreflight } from '../_shared/cors.ts';
 import { jsonError, jsonResponse } from '../_shared/errors.ts';
@@ -33,7 +43,10 @@ import {
   type DeliverySnapshot,
 } from '../_shared/types-delivery.ts';
 import { sanitizeHtml, sanitizeSubject } from '../_shared/sanitize.ts';
-import { applyFeedbackToBody } from '../_shared/delivery-template.ts';
+import {
+  applyComparisonSummaryToBody,
+  applyFeedbackToBody,
+} from '../_shared/delivery-template.ts';
 import { buildFeedbackUrl } from '../_shared/magic-link.ts';
 import {
   type Attachment,
@@ -41,13 +54,16 @@ import {
   assertTotalSize,
   generateDocx,
   generatePdf,
+  loadAuditArchive,
 } from '../_shared/attachments.ts';
 import {
   buildDocMeta,
   buildPdfHtml,
   buildPdfOptions,
 } from '../_shared/doc-rendering.ts';
-import { ResendError, sendEmail } from '../_shared/resend.ts';
+import { sendDeliveryEmail } from '../_shared/email.ts';
+import type { SenderIdentity } from '../_shared/delivery-sender.ts';
+import { ResendError } from '../_shared/resend.ts';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 interface CreateDeliveryResponse {
@@ -70,9 +86,10 @@ Deno.serve(async (req: Request) => {
   }
 
   let supabase: SupabaseClient;
+  let userId: string;
   try {
     supabase = createSupabaseFromRequest(req);
-    await getUserIdFromAuth(supabase);
+    userId = await getUserIdFromAuth(supabase);
   } catch (e) {
     if (e instanceof AuthError) {
       return jsonError(401, { code: 'permission_denied', message: e.message });
@@ -102,7 +119,7 @@ Deno.serve(async (req: Request) => {
   }
   const input = parsed.data;
 
-  // Trust-boundary sanitization. Persisted body matches what Resend sees.
+  // Trust-boundary sanitization. Persisted body matches what gets sent.
   const cleanSubject = sanitizeSubject(input.subject);
   const cleanBodyHtml = sanitizeHtml(input.body_html);
   const cleanBodyText = input.body_text ?? stripHtmlToText(cleanBodyHtml);
@@ -163,14 +180,21 @@ Deno.serve(async (req: Request) => {
       message: 'PUBLIC_FEEDBACK_URL_BASE not set',
     });
   }
+  const snapshot = created.delivery_snapshot;
   const feedbackUrl = buildFeedbackUrl(base, created.token);
   const body = applyFeedbackToBody(
-    { html: cleanBodyHtml, text: cleanBodyText },
+    applyComparisonSummaryToBody(
+      { html: cleanBodyHtml, text: cleanBodyText },
+      snapshot.comparison_summary ?? [],
+    ),
     feedbackUrl,
   );
 
-  const snapshot = created.delivery_snapshot;
-  const attachmentPlan = planAttachments(input.attachment_format, snapshot);
+  const attachmentPlan = planAttachments(
+    supabase,
+    input.attachment_format,
+    snapshot,
+  );
   const results = await Promise.allSettled(attachmentPlan.tasks);
   const fails: string[] = [];
   const attachments: Attachment[] = [];
@@ -198,28 +222,51 @@ Deno.serve(async (req: Request) => {
     return jsonError(502, { code: 'internal_error', message: errMsg });
   }
 
+  // The embargo may have been enforced while the attachments rendered.
+  const { data: embargoed, error: embargoError } = await supabase.rpc(
+    '_embargo_blocks',
+    { p_project_id: input.project_id, p_at: new Date().toISOString() },
+  );
+  if (embargoError) {
+    const errMsg = `_embargo_blocks failed: ${embargoError.message}`;
+    await markFailed(supabase, created.delivery_id, errMsg);
+    return jsonError(500, { code: 'internal_error', message: errMsg });
+  }
+  if (embargoed) {
+    await markFailed(supabase, created.delivery_id, 'embargo_not_lifted');
+    return jsonError(409, {
+      code: 'validation_error',
+      message: 'embargo_not_lifted',
+    });
+  }
+
   const sender = snapshot.sender;
   const recipient = snapshot.recipient;
   let messageId: string;
+  let sentFrom: SenderIdentity;
   try {
-    const result = await sendEmail({
-      from: `${sender.from_name} <${sender.from_email}>`,
-      to: recipient.email,
-      cc: recipient.cc_emails.length > 0 ? recipient.cc_emails : undefined,
-      bcc: recipient.bcc_emails_effective.length > 0
-        ? recipient.bcc_emails_effective
-        : undefined,
-      reply_to: sender.reply_to_email,
-      subject: cleanSubject,
-      html: body.html,
-      text: body.text,
-      attachments: attachments.map((a) => ({
-        filename: a.filename,
-        content: a.content,
-      })),
-      idempotencyKey: created.delivery_id,
+    const result = await sendDeliveryEmail({
+      createdBy: userId,
+      managed: sender,
+      payload: {
+        to: recipient.email,
+        cc: recipient.cc_emails.length > 0 ? recipient.cc_emails : undefined,
+        bcc: recipient.bcc_emails_effective.length > 0
+          ? recipient.bcc_emails_effective
+          : undefined,
+        reply_to: sender.reply_to_email,
+        subject: cleanSubject,
+        html: body.html,
+        text: body.text,
+        attachments: attachments.map((a) => ({
+          filename: a.filename,
+          content: a.content,
+        })),
+        idempotencyKey: created.delivery_id,
+      },
     });
     messageId = result.id;
+    sentFrom = result.sender;
   } catch (e) {
     const errMsg = e instanceof ResendError
       ? `resend_${e.kind}: ${e.message}`
@@ -231,6 +278,7 @@ Deno.serve(async (req: Request) => {
   const { error: markError } = await supabase.rpc('mark_delivery_sent_user', {
     p_delivery_id: created.delivery_id,
     p_resend_message_id: messageId,
+    p_sender: sentFrom,
   });
   if (markError) {
     // Email sent but audit write failed. Surface as 500 with the message id
@@ -257,6 +305,7 @@ Deno.serve(async (req: Request) => {
 });
 
 function planAttachments(
+  supabase: SupabaseClient,
   format: 'pdf' | 'word' | 'both',
   snapshot: DeliverySnapshot,
 ): { tasks: Promise<Attachment>[] } {
@@ -269,6 +318,7 @@ function planAttachments(
     variant_label: v.variant_label,
     variant_index: v.variant_index,
     body_text: v.body_text,
+    body_doc: v.body_doc ?? null,
   }));
 
   const tasks: Promise<Attachment>[] = [];
@@ -278,6 +328,15 @@ function planAttachments(
   if (format === 'word' || format === 'both') {
     tasks.push(generateDocx(blocks, `${safeName}.docx`, meta));
   }
+  if (snapshot.audit_archive) {
+    tasks.push(
+      loadAuditArchive(
+        supabase,
+        snapshot.audit_archive,
+        snapshot.audit_archive.filename,
+      ),
+    );
+  }
   return { tasks };
 }
 
@@ -1,34 +1,56 @@
 /**
  * sign-audit-report — Edge Function
  *
- * Finalizes an audit report by computing an HMAC-SHA-256 over a canonical
- * payload using `AUDIT_SIGNING_SECRET` (Supabase secret, never leaves
- * server). The secret IS the trust anchor; the canonical payload + hash
+ * Records one sign-off signature on an audit report by signing a canonical
+ * payload with Ed25519 (migration 0026). The private key is the
+ * `AUDIT_SIGNING_PRIVATE_JWK` secret and never leaves the server; its public
+ * half is published in audit_signing_keys under `AUDIT_SIGNING_KEY_ID`, so
+ * anyone can verify without our secret. The canonical payload + signature
  * are persisted on audit_signatures so the signature is verifiable later
  * without rebuilding from live state.
  *
+ * A report needs one signature per role in its sign-off policy (migration
+ * 0025, e.g. reviewer → compliance officer → legal counsel). It stays
+ * 'partially_signed' until the last role signs, then finalizes.
+ *
  * Flow:
  *   1. Validate JWT, resolve signer_id (auth.uid()).
- *   2. Load report; assert status='draft'.
- *   3. Call `_build_audit_snapshot(project_id)` RPC for the canonical
+ *   2. Load report; assert status is 'draft' or 'partially_signed'.
+ *   3. Call `audit_report_signoff` for the next pending role. If the
+ *      content changed since the earlier signatures, this is the first role
+ *      of a fresh round — finalize_audit_report invalidates the old ones.
+ *   4. Call `_build_audit_snapshot(project_id)` RPC for the canonical
  *      snapshot. Source of truth lives in PL/pgSQL so JS reconstruction
  *      can't drift from the RPC's later equality check.
- *   4. Load signer's full_name + role for the canonical payload.
- *   5. Build canonical_payload = sorted keys of
- *      { project_id, report_id, report_snapshot, signed_at, signer_id,
- *        signer_name_snapshot, signer_role_snapshot, version }.
- *   6. HMAC the canonicalized string with the secret.
- *   7. Call finalize_audit_report RPC with (report_id, hex_hash,
+ *   5. Load signer's full_name + role for the canonical payload, and the
+ *      project's audit trail head (newest chain_seq + event_hash,
+ *      migration 0027) so the signature commits to the trail so far.
+ *   6. Build canonical_payload = sorted keys of
+ *      { audit_trail_head, key_id, project_id, report_id, report_snapshot,
+ *        signed_at, signer_id, signer_name_snapshot, signer_role_snapshot,
+ *        signoff_role, version }.
+ *   7. Sign the canonicalized string with the Ed25519 key.
+ *   8. Call finalize_audit_report RPC with (report_id, hex_signature,
  *      canonical_payload). The RPC enforces I3 gates inside its
- *      transaction and rejects if its server-built snapshot differs
- *      from canonical_payload.report_snapshot.
- *   8. Return the finalized report + signature.
+ *      transaction, rejects if its server-built snapshot differs from
+ *      canonical_payload.report_snapshot, checks key_id is a published,
+ *      unretired key, checks audit_trail_head is still the project's
+ *      newest event, checks signoff_role is still the next pending role,
+ *      that the signer's users.role may fill it and that the signer holds
+ *      no other slot.
+ *   9. If that signature finalized the report, render its archival PDF
+ *      (_shared/audit-archive.ts) with the configured PdfRenderer and
+ *      record it. Best effort: the report is already finalized, so a
+ *      render or upload failure is returned as archive_error and the
+ *      archive can be retried via archive-audit-report.
+ *  10. Return the report (finalized or partially signed) + signature +
+ *      archive record.
  *
  * Note on signed_at: the canonical_payload.signed_at is computed in JS
  * here, then passed through to the RPC. The audit_signatures.signed_at
  * column is set by the column default (now()) inside the transaction.
  * These can differ by milliseconds. Verification uses canonical_payload,
- * so the HMAC stays consistent; UI should display the column value as
+ * so the signature stays consistent; UI should display the column value as
  * the authoritative DB record.
  */
 
@@ -40,7 +62,12 @@ import {
   createSupabaseFromRequest,
   getUserIdFromAuth,
 } from "../_shared/auth.ts";
-import { canonicalize, hmacSha256Hex } from "../_shared/canonical.ts";
+import { canonicalize, signEd25519Hex } from "../_shared/canonical.ts";
+import {
+  archiveAuditReport,
+  type AuditArchiveRecord,
+} from "../_shared/audit-archive.ts";
+import { selectPdfRenderer } from "../_shared/pdf-renderer.ts";
 
 const InputSchema = z.object({
   audit_report_id: z.string().uuid(),
@@ -57,11 +84,21 @@ Deno.serve(async (req: Request) => {
     });
   }
 
-  const secret = Deno.env.get("AUDIT_SIGNING_SECRET");
-  if (!secret) {
+  const keyId = Deno.env.get("AUDIT_SIGNING_KEY_ID");
+  const privateJwkRaw = Deno.env.get("AUDIT_SIGNING_PRIVATE_JWK");
+  if (!keyId || !privateJwkRaw) {
     return jsonError(500, {
       code: "internal_error",
-      message: "Missing AUDIT_SIGNING_SECRET",
+      message: "Missing AUDIT_SIGNING_KEY_ID or AUDIT_SIGNING_PRIVATE_JWK",
+    });
+  }
+  let privateJwk: JsonWebKey;
+  try {
+    privateJwk = JSON.parse(privateJwkRaw);
+  } catch {
+    return jsonError(500, {
+      code: "internal_error",
+      message: "AUDIT_SIGNING_PRIVATE_JWK is not valid JSON",
     });
   }
 
@@ -111,10 +148,25 @@ Deno.serve(async (req: Request) => {
         message: `Report not found: ${reportError?.message ?? "unknown"}`,
       });
     }
-    if (report.status !== "draft") {
+    if (report.status !== "draft" && report.status !== "partially_signed") {
+      return jsonError(409, {
+        code: "validation_error",
+        message: `Report status is '${report.status}', expected 'draft' or 'partially_signed'`,
+      });
+    }
+
+    const { data: signoff, error: signoffError } = await supabase.rpc(
+      "audit_report_signoff",
+      { p_audit_report_id: audit_report_id },
+    );
+    if (signoffError) {
+      throw new Error(`Sign-off lookup failed: ${signoffError.message}`);
+    }
+    const signoffRole = (signoff as { next_role: string | null }).next_role;
+    if (!signoffRole) {
       return jsonError(409, {
         code: "validation_error",
-        message: `Report status is '${report.status}', expected 'draft'`,
+        message: "report_not_signable",
       });
     }
 
@@ -137,8 +189,21 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const { data: head, error: headError } = await supabase
+      .from("audit_trail_events")
+      .select("chain_seq, event_hash")
+      .eq("project_id", report.project_id)
+      .order("chain_seq", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (headError) {
+      throw new Error(`Audit trail head lookup failed: ${headError.message}`);
+    }
+
     const signedAt = new Date().toISOString();
     const canonicalPayload = {
+      audit_trail_head: head,
+      key_id: keyId,
       project_id: report.project_id,
       report_id: report.id,
       report_snapshot: snapshot,
@@ -146,10 +211,11 @@ Deno.serve(async (req: Request) => {
       signer_id: signerId,
       signer_name_snapshot: signer.full_name,
       signer_role_snapshot: signer.role,
+      signoff_role: signoffRole,
       version: report.version,
     };
     const canonicalString = canonicalize(canonicalPayload);
-    const signatureHash = await hmacSha256Hex(secret, canonicalString);
+    const signatureHash = await signEd25519Hex(privateJwk, canonicalString);
 
     const { data: finalized, error: finalizeError } = await supabase
       .rpc("finalize_audit_report", {
@@ -175,8 +241,8 @@ Deno.serve(async (req: Request) => {
       .from("audit_signatures")
       .select("*")
       .eq("audit_report_id", audit_report_id)
-      .order("signed_at", { ascending: false })
-      .limit(1)
+      .eq("signer_id", signerId)
+      .is("invalidated_at", null)
       .single();
     if (sigError || !signature) {
       throw new Error(
@@ -184,8 +250,30 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    let archive: AuditArchiveRecord | null = null;
+    let archiveError: string | null = null;
+    if ((finalized as { status: string }).status === "finalized") {
+      try {
+        archive = await archiveAuditReport(
+          supabase,
+          audit_report_id,
+          selectPdfRenderer((name) => Deno.env.get(name)),
+        );
+      } catch (e) {
+        archiveError = (e as Error).message;
+        console.error(
+          `ARCHIVE_FAILED report=${audit_report_id} error=${archiveError}`,
+        );
+      }
+    }
+
     return jsonResponse(200, {
-      data: { report: finalized, signature },
+      data: {
+        report: finalized,
+        signature,
+        archive,
+        archive_error: archiveError,
+      },
       error: null,
     });
   } catch (e) {
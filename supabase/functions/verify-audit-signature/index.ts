@@ -1,13 +1,17 @@
 /**
  * verify-audit-signature — Edge Function
  *
- * Canonical verification path for audit signatures. Loads the persisted
+ * Server-side verification path for audit signatures. Loads the persisted
  * canonical_payload, re-canonicalizes it using the same helper as
- * sign-audit-report, re-HMACs with AUDIT_SIGNING_SECRET, compares to
- * the stored signature_hash. No DB writes; idempotent.
+ * sign-audit-report, and checks it against the stored signature_hash:
+ *   - ed25519 (migration 0026): verified with the key's published public
+ *     key. The browser does the same check itself (src/lib/audit-signature.ts);
+ *     this path exists for callers without WebCrypto Ed25519.
+ *   - hmac-sha256 (legacy, signed before 0026): re-HMACed with
+ *     AUDIT_SIGNING_SECRET. Only this function can check these.
+ * No DB writes; idempotent.
  *
- * This is invoked by the "Verify" button in AuditReportPage (T8), and
- * wrapped client-side by src/lib/audit-signature.ts. It is NOT a one-off
+ * Wrapped client-side by src/lib/audit-signature.ts. It is NOT a one-off
  * ops script.
  */
 
@@ -18,7 +22,11 @@ import {
   AuthError,
   createSupabaseFromRequest,
 } from "../_shared/auth.ts";
-import { canonicalize, hmacSha256Hex } from "../_shared/canonical.ts";
+import {
+  canonicalize,
+  hmacSha256Hex,
+  verifyEd25519Hex,
+} from "../_shared/canonical.ts";
 
 const InputSchema = z.object({
   signature_id: z.string().uuid(),
@@ -35,14 +43,6 @@ Deno.serve(async (req: Request) => {
     });
   }
 
-  const secret = Deno.env.get("AUDIT_SIGNING_SECRET");
-  if (!secret) {
-    return jsonError(500, {
-      code: "internal_error",
-      message: "Missing AUDIT_SIGNING_SECRET",
-    });
-  }
-
   let supabase;
   try {
     supabase = createSupabaseFromRequest(req);
@@ -78,7 +78,7 @@ Deno.serve(async (req: Request) => {
   try {
     const { data: signatureRow, error: sigError } = await supabase
       .from("audit_signatures")
-      .select("canonical_payload, signature_hash")
+      .select("canonical_payload, signature_hash, algorithm, key_id")
       .eq("id", signature_id)
       .single();
     if (sigError || !signatureRow) {
@@ -89,11 +89,50 @@ Deno.serve(async (req: Request) => {
     }
 
     const canonicalString = canonicalize(signatureRow.canonical_payload);
+
+    if (signatureRow.algorithm === "ed25519") {
+      const { data: key, error: keyError } = await supabase
+        .from("audit_signing_keys")
+        .select("public_key")
+        .eq("key_id", signatureRow.key_id)
+        .single();
+      if (keyError || !key) {
+        return jsonError(404, {
+          code: "not_found",
+          message: `Signing key not found: ${keyError?.message ?? "unknown"}`,
+        });
+      }
+      const matches = await verifyEd25519Hex(
+        key.public_key,
+        canonicalString,
+        signatureRow.signature_hash,
+      );
+      return jsonResponse(200, {
+        data: {
+          matches,
+          algorithm: signatureRow.algorithm,
+          key_id: signatureRow.key_id,
+          computed_hash: null,
+          stored_hash: signatureRow.signature_hash,
+        },
+        error: null,
+      });
+    }
+
+    const secret = Deno.env.get("AUDIT_SIGNING_SECRET");
+    if (!secret) {
+      return jsonError(500, {
+        code: "internal_error",
+        message: "Missing AUDIT_SIGNING_SECRET",
+      });
+    }
     const computedHash = await hmacSha256Hex(secret, canonicalString);
 
     return jsonResponse(200, {
       data: {
         matches: computedHash === signatureRow.signature_hash,
+        algorithm: signatureRow.algorithm,
+        key_id: null,
         computed_hash: computedHash,
         stored_hash: signatureRow.signature_hash,
       },
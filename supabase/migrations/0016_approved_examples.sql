@@ -0,0 +1,151 @@
+-- ============================================================
+-- ClearPress AI — Approved-examples pool (PRD §5.6)
+--
+-- WHAT
+-- ----
+-- A per-client pool of "known good" drafts that generate-variants feeds
+-- to the model as few-shot voice references:
+--
+--   client_feedback     — the variant a client picked on /f/:token. Added
+--                         automatically (trigger below) so the pool grows
+--                         with every feedback round. Weighted highest.
+--   brand_voice_sample  — an uploaded historical sample a staff member has
+--                         hand-picked from the Brand Voice tab. Weighted
+--                         below client-chosen drafts.
+--
+-- body_text is SNAPSHOTTED at insert time. The chosen variant's live row can
+-- be regenerated later (regenerate_variant overwrites body_text in place),
+-- so the pool reads the text the client actually saw from
+-- deliveries.delivery_snapshot rather than from content_variants.
+--
+-- Selection + truncation to the prompt budget happens in generate-variants
+-- (selectApprovedExamples in _prompt.ts); the ids actually used are recorded
+-- in content_variants.generation_params.approved_example_ids.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0016 --linked
+-- ============================================================
+
+create table public.approved_examples (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  source_type text not null
+    check (source_type in ('client_feedback', 'brand_voice_sample')),
+  client_feedback_id uuid unique
+    references public.client_feedback(id) on delete cascade,
+  brand_voice_sample_id uuid unique
+    references public.brand_voice_samples(id) on delete cascade,
+  -- Informational only: the live variant may have been regenerated since.
+  variant_id uuid references public.content_variants(id) on delete set null,
+  -- null = applies to any content type (uploaded samples are untyped).
+  content_type text,
+  label text,
+  body_text text not null,
+  active boolean not null default true,
+  created_by uuid references public.users(id),
+  created_at timestamptz not null default now(),
+  -- Exactly one source reference, matching source_type.
+  constraint approved_examples_source_ref check (
+    (source_type = 'client_feedback'
+      and client_feedback_id is not null and brand_voice_sample_id is null)
+    or
+    (source_type = 'brand_voice_sample'
+      and brand_voice_sample_id is not null and client_feedback_id is null)
+  )
+);
+
+create index idx_approved_examples_client_active
+  on public.approved_examples(client_id, created_at desc)
+  where active;
+
+alter table public.approved_examples enable row level security;
+
+create policy firm_users_full_access on public.approved_examples
+  for all using (auth.role() = 'authenticated');
+
+-- ------------------------------------------------------------
+-- Auto-add the client's chosen variant on feedback submit
+-- ------------------------------------------------------------
+-- AFTER INSERT so it runs inside submit_feedback's transaction without
+-- re-declaring that RPC. Needs-rework rows (chosen_variant_id is null) are
+-- skipped by the WHEN clause. DEFINER because submit_feedback's caller is
+-- the anonymous feedback-submit function (service role) and the pool insert
+-- must not depend on the caller's grants.
+create or replace function public._add_approved_example_from_feedback()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_client_id    uuid;
+  v_snapshot     jsonb;
+  v_variant      jsonb;
+  v_content_type text;
+begin
+  select p.client_id, d.delivery_snapshot
+    into v_client_id, v_snapshot
+    from public.feedback_tokens ft
+    join public.deliveries d on d.id = ft.delivery_id
+    join public.projects   p on p.id = d.project_id
+   where ft.id = new.feedback_token_id;
+
+  select v into v_variant
+    from jsonb_array_elements(coalesce(v_snapshot->'variants', '[]'::jsonb)) v
+   where v->>'id' = new.chosen_variant_id::text;
+
+  -- submit_feedback already rejects a chosen id outside the snapshot; a
+  -- missing element here means a pre-Phase-5 delivery with no snapshot.
+  if v_variant is null then
+    return new;
+  end if;
+
+  select ci.content_type into v_content_type
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where cv.id = new.chosen_variant_id;
+
+  insert into public.approved_examples
+    (client_id, source_type, client_feedback_id, variant_id, content_type,
+     label, body_text)
+  values
+    (v_client_id, 'client_feedback', new.id, new.chosen_variant_id,
+     v_content_type, v_variant->>'variant_label', v_variant->>'body_text')
+  on conflict (client_feedback_id) do nothing;
+
+  return new;
+end;
+$$;
+
+revoke all on function public._add_approved_example_from_feedback()
+  from public, anon, authenticated;
+
+drop trigger if exists trg_client_feedback_approved_example
+  on public.client_feedback;
+create trigger trg_client_feedback_approved_example
+  after insert on public.client_feedback
+  for each row
+  when (new.chosen_variant_id is not null)
+  execute function public._add_approved_example_from_feedback();
+
+-- ------------------------------------------------------------
+-- Backfill from feedback submitted before this migration
+-- ------------------------------------------------------------
+insert into public.approved_examples
+  (client_id, source_type, client_feedback_id, variant_id, content_type,
+   label, body_text, created_at)
+select p.client_id, 'client_feedback', cf.id, cf.chosen_variant_id,
+       ci.content_type, v->>'variant_label', v->>'body_text', cf.submitted_at
+  from public.client_feedback cf
+  join public.feedback_tokens ft on ft.id = cf.feedback_token_id
+  join public.deliveries d       on d.id  = ft.delivery_id
+  join public.projects p         on p.id  = d.project_id
+  join lateral jsonb_array_elements(
+         coalesce(d.delivery_snapshot->'variants', '[]'::jsonb)) v
+    on v->>'id' = cf.chosen_variant_id::text
+  left join public.content_variants cv on cv.id = cf.chosen_variant_id
+  left join public.content_items ci    on ci.id = cv.content_item_id
+ where cf.chosen_variant_id is not null
+on conflict (client_feedback_id) do nothing;
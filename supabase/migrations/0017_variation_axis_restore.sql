@@ -0,0 +1,23 @@
+-- ============================================================
+-- ClearPress AI — Restore content_items.variation_axis
+--
+-- 0014 dropped variation_axis when the New Project redesign hardcoded the
+-- three variants to the 'tone' directives. PRD §5.2 lists the structure
+-- (Lead-with-data / Lead-with-quote / Lead-with-announcement) and length
+-- (Concise / Standard / Detailed) axes as first-class, so the column comes
+-- back with the original 0001 CHECK and default.
+--
+-- Existing rows were all generated on the tone axis, so the 'tone' default
+-- is also the correct backfill. generate-variants reads the column and
+-- records it in generation_params.variation_axis per variant, which is what
+-- the review UI and the delivery comparison summary label from.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0017 --linked
+-- ============================================================
+
+alter table public.content_items
+  add column if not exists variation_axis text not null default 'tone'
+    check (variation_axis in ('tone', 'structure', 'length'));
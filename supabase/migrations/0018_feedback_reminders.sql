@@ -0,0 +1,224 @@
+-- ============================================================
+-- ClearPress AI — Feedback reminder + token expiry (PRD §8 decision 5)
+--
+-- WHAT
+-- ----
+-- The process-feedback-reminders Edge Function (pg_cron, hourly) runs two
+-- passes over unused feedback tokens:
+--
+--   reminder — one polite reminder FEEDBACK_REMINDER_AFTER_DAYS after the
+--              delivery went out (default 7). After Resend accepts the mail
+--              the function calls mark_feedback_reminder_sent, which stamps
+--              feedback_tokens.reminder_sent_at (present since 0001, never
+--              set until now) and emits `feedback_reminder_sent`.
+--   expiry   — once expires_at (30 days, set by create_delivery) passes with
+--              no submission, expire_feedback_token stamps expired_at, emits
+--              `feedback_expired` and moves the project to the terminal
+--              'no_feedback' status.
+--
+-- Both RPCs are idempotent (a re-run tick is a no-op) and write the domain
+-- change + audit event in one transaction (I4).
+--
+-- Timing + template live in app_config; see op_feedback_reminder_seed.sql.
+-- The cron job itself is op_feedback_reminder_cron.sql.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0018 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Schema
+-- ------------------------------------------------------------
+alter table public.feedback_tokens
+  add column if not exists expired_at timestamptz;
+
+-- Drives the expiry pass: unused tokens whose expiry hasn't been recorded.
+create index if not exists idx_tokens_expiry_pending
+  on public.feedback_tokens(expires_at)
+  where used_at is null and expired_at is null;
+
+alter table public.projects
+  drop constraint if exists projects_status_check;
+alter table public.projects
+  add constraint projects_status_check
+  check (status in (
+    'draft', 'in_review', 'delivered', 'feedback_received', 'completed',
+    'no_feedback'
+  ));
+
+alter table public.audit_trail_events
+  drop constraint audit_trail_events_event_type_check;
+alter table public.audit_trail_events
+  add constraint audit_trail_events_event_type_check
+  check (event_type in (
+    'variant_generated', 'compliance_checked', 'manual_review_started',
+    'fix_applied', 'compliance_rechecked', 'sign_off',
+    'delivery_sent', 'feedback_received', 'voice_updated',
+    'audit_report_created', 'audit_revision_started',
+    'variant_approved', 'acknowledge_finding',
+    'feedback_reminder_sent', 'feedback_expired'
+  ));
+
+-- ============================================================
+-- 2. RPC: mark_feedback_reminder_sent
+-- ============================================================
+-- Called after Resend accepted the reminder. Stamps reminder_sent_at even if
+-- the client submitted in the meantime — the mail went out either way — but
+-- only the first call emits the audit event.
+create or replace function public.mark_feedback_reminder_sent(
+  p_token_id uuid,
+  p_resend_message_id text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token    public.feedback_tokens;
+  v_delivery public.deliveries;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  select * into v_token from public.feedback_tokens
+   where id = p_token_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'token_not_found';
+  end if;
+
+  if v_token.reminder_sent_at is not null then
+    return jsonb_build_object(
+      'reminder_sent_at', v_token.reminder_sent_at,
+      'already_sent',     true
+    );
+  end if;
+
+  update public.feedback_tokens
+     set reminder_sent_at = now()
+   where id = p_token_id
+   returning * into v_token;
+
+  select * into v_delivery from public.deliveries where id = v_token.delivery_id;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'feedback_reminder_sent',
+    'system', null, 'process-feedback-reminders',
+    jsonb_build_object(
+      'delivery_id',       v_delivery.id,
+      'feedback_token_id', v_token.id,
+      'resend_message_id', p_resend_message_id,
+      'recipient_email',   v_delivery.recipient_email,
+      'delivery_sent_at',  v_delivery.sent_at,
+      'reminder_sent_at',  v_token.reminder_sent_at,
+      'expires_at',        v_token.expires_at
+    )
+  );
+
+  return jsonb_build_object(
+    'reminder_sent_at', v_token.reminder_sent_at,
+    'already_sent',     false
+  );
+end;
+$$;
+
+-- ============================================================
+-- 3. RPC: expire_feedback_token
+-- ============================================================
+-- Records "no feedback received" for an unused, past-expiry token. The
+-- project only flips to 'no_feedback' from 'delivered', and only when no
+-- other delivery on the project still has a live unused token — a re-send
+-- keeps the project open until its own link lapses.
+create or replace function public.expire_feedback_token(
+  p_token_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token          public.feedback_tokens;
+  v_delivery       public.deliveries;
+  v_project_status text;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  select * into v_token from public.feedback_tokens
+   where id = p_token_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'token_not_found';
+  end if;
+
+  select * into v_delivery from public.deliveries where id = v_token.delivery_id;
+
+  if v_token.expired_at is not null or v_token.used_at is not null then
+    select status into v_project_status
+      from public.projects where id = v_delivery.project_id;
+    return jsonb_build_object(
+      'project_status',  v_project_status,
+      'already_expired', true
+    );
+  end if;
+
+  if v_token.expires_at > now() then
+    raise exception using errcode = 'P0004', message = 'token_not_expired';
+  end if;
+
+  update public.feedback_tokens
+     set expired_at = now()
+   where id = p_token_id
+   returning * into v_token;
+
+  update public.projects p
+     set status = 'no_feedback'
+   where p.id = v_delivery.project_id
+     and p.status = 'delivered'
+     and not exists (
+       select 1
+         from public.feedback_tokens ft
+         join public.deliveries d on d.id = ft.delivery_id
+        where d.project_id = p.id
+          and ft.used_at is null
+          and ft.expires_at > now()
+     );
+
+  select status into v_project_status
+    from public.projects where id = v_delivery.project_id;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'feedback_expired',
+    'system', null, 'process-feedback-reminders',
+    jsonb_build_object(
+      'delivery_id',       v_delivery.id,
+      'feedback_token_id', v_token.id,
+      'delivery_sent_at',  v_delivery.sent_at,
+      'reminder_sent_at',  v_token.reminder_sent_at,
+      'expires_at',        v_token.expires_at,
+      'project_status',    v_project_status
+    )
+  );
+
+  return jsonb_build_object(
+    'project_status',  v_project_status,
+    'already_expired', false
+  );
+end;
+$$;
+
+revoke all on function public.mark_feedback_reminder_sent(uuid, text) from public;
+grant execute on function public.mark_feedback_reminder_sent(uuid, text)
+  to service_role;
+
+revoke all on function public.expire_feedback_token(uuid) from public;
+grant execute on function public.expire_feedback_token(uuid)
+  to service_role;
@@ -0,0 +1,336 @@
+-- ============================================================
+-- ClearPress AI — Freeze the variant comparison summary (PRD §5.4)
+--
+-- WHAT
+-- ----
+-- The composer now generates the email's variant comparison from the actual
+-- variant bodies (src/lib/comparison-summary.ts) instead of printing each
+-- generation directive. The user may edit the lines before sending, so they
+-- are client input — create_delivery validates them and freezes them into
+-- delivery_snapshot.comparison_summary:
+--
+--   [{ variant_id, variant_index, text }, ...]   -- ordered by variant_index
+--
+-- The body carries a {{COMPARISON_SUMMARY}} placeholder; send-delivery and
+-- process-scheduled-sends both substitute it from the snapshot
+-- (applyComparisonSummaryToBody), so a scheduled send renders exactly what
+-- the composer previewed. Snapshots written before this migration have no
+-- comparison_summary key and their bodies no placeholder.
+--
+-- New gate: comparison_summary_invalid (line for a non-attached variant,
+-- duplicate variant, empty or >500-char text).
+--
+-- Full re-declaration of create_delivery from 0008 — only the gate and the
+-- snapshot key are new. search_path keeps the 0012 `extensions` fix;
+-- CREATE OR REPLACE preserves the existing grant to authenticated.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0019 --linked
+-- ============================================================
+
+create or replace function public.create_delivery(
+  p_payload jsonb,
+  p_scheduled_for timestamptz
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_project public.projects;
+  v_content_item public.content_items;
+  v_variant_ids uuid[];
+  v_variant_count int;
+  v_distinct_count int;
+  v_unapproved_count int;
+  v_edited_after_approval_count int;
+  v_wrong_item_count int;
+  v_recommended uuid;
+  v_audit_report public.audit_reports;
+  v_signature_hash text;
+  v_stale_against_audit_count int;
+  v_from_name text;
+  v_from_email text;
+  v_default_bcc jsonb;
+  v_reply_to text;
+  v_cc jsonb;
+  v_bcc_caller jsonb;
+  v_bcc_effective jsonb;
+  v_warnings jsonb;
+  v_snapshot jsonb;
+  v_status text;
+  v_token text;
+  v_delivery_id uuid;
+  v_email_regex text := '^[^@\s]+@[^@\s]+\.[^@\s]+$';
+  v_attachment_format text;
+  v_comparison jsonb;
+  v_uuid_regex text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  -- Project gate
+  select * into v_project from public.projects
+   where id = (p_payload->>'project_id')::uuid for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'project_not_found';
+  end if;
+
+  -- Content item gate (must belong to the project)
+  select * into v_content_item from public.content_items
+   where id = (p_payload->>'content_item_id')::uuid;
+  if not found or v_content_item.project_id <> v_project.id then
+    raise exception using errcode = 'P0004', message = 'content_item_not_in_project';
+  end if;
+
+  -- Variant IDs: parse + count gates
+  select array_agg((value)::uuid) into v_variant_ids
+    from jsonb_array_elements_text(p_payload->'variant_ids');
+  v_variant_count := coalesce(array_length(v_variant_ids, 1), 0);
+  if v_variant_count < 1 or v_variant_count > 3 then
+    raise exception using errcode = 'P0004', message = 'variant_count_out_of_range';
+  end if;
+  select count(distinct e) into v_distinct_count from unnest(v_variant_ids) e;
+  if v_distinct_count <> v_variant_count then
+    raise exception using errcode = 'P0004', message = 'variant_ids_duplicated';
+  end if;
+
+  -- Lock the variants so the gate checks see a stable read
+  perform 1 from public.content_variants where id = any(v_variant_ids) for update;
+
+  -- Every variant must belong to the declared content_item
+  select count(*) into v_wrong_item_count
+    from public.content_variants
+   where id = any(v_variant_ids)
+     and content_item_id <> v_content_item.id;
+  if v_wrong_item_count > 0 then
+    raise exception using errcode = 'P0004', message = 'variant_not_in_content_item';
+  end if;
+
+  -- Every variant must be approved
+  select count(*) into v_unapproved_count
+    from public.content_variants
+   where id = any(v_variant_ids) and internal_approved = false;
+  if v_unapproved_count > 0 then
+    raise exception using errcode = 'P0004', message = 'variant_not_approved';
+  end if;
+
+  -- No post-approval edits
+  select count(*) into v_edited_after_approval_count
+    from public.content_variants
+   where id = any(v_variant_ids)
+     and (internal_approved_at is null or updated_at > internal_approved_at);
+  if v_edited_after_approval_count > 0 then
+    raise exception using errcode = 'P0004', message = 'variant_updated_after_approval';
+  end if;
+
+  -- Recommended must be in attached set (nullable)
+  v_recommended := nullif(p_payload->>'recommended_variant_id', '')::uuid;
+  if v_recommended is not null and not (v_recommended = any(v_variant_ids)) then
+    raise exception using errcode = 'P0004', message = 'recommended_not_attached';
+  end if;
+
+  -- Audit report gate: latest must be finalized
+  v_audit_report := public._latest_finalized_audit_report(v_project.id);
+  if v_audit_report.id is null then
+    raise exception using errcode = 'P0004', message = 'audit_not_finalized';
+  end if;
+
+  -- Audit freshness: no attached variant edited after finalization
+  select count(*) into v_stale_against_audit_count
+    from public.content_variants
+   where id = any(v_variant_ids)
+     and updated_at > v_audit_report.finalized_at;
+  if v_stale_against_audit_count > 0 then
+    raise exception using errcode = 'P0004', message = 'audit_stale_vs_variants';
+  end if;
+
+  -- Email format gates
+  if (p_payload->>'recipient_email') !~* v_email_regex then
+    raise exception using errcode = 'P0004', message = 'recipient_email_invalid';
+  end if;
+  v_cc := coalesce(p_payload->'cc_emails', '[]'::jsonb);
+  v_bcc_caller := coalesce(p_payload->'bcc_emails', '[]'::jsonb);
+  if exists (
+    select 1 from jsonb_array_elements_text(v_cc) e where e !~* v_email_regex
+  ) or exists (
+    select 1 from jsonb_array_elements_text(v_bcc_caller) e where e !~* v_email_regex
+  ) then
+    raise exception using errcode = 'P0004', message = 'cc_or_bcc_email_invalid';
+  end if;
+
+  -- Attachment format gate
+  v_attachment_format := p_payload->>'attachment_format';
+  if v_attachment_format not in ('pdf', 'word', 'both') then
+    raise exception using errcode = 'P0004', message = 'invalid_attachment_format';
+  end if;
+
+  -- Schedule gate
+  if p_scheduled_for is not null and p_scheduled_for <= now() then
+    raise exception using errcode = 'P0004', message = 'scheduled_in_past';
+  end if;
+
+  -- Server-resolved sender + default BCC (T12 seeds these)
+  select value into v_from_name  from public.app_config where key = 'RESEND_FROM_NAME';
+  select value into v_from_email from public.app_config where key = 'RESEND_FROM_EMAIL';
+  if v_from_name is null or v_from_email is null then
+    raise exception using errcode = 'P0004', message = 'app_config_missing';
+  end if;
+  select value::jsonb into v_default_bcc from public.app_config where key = 'DEFAULT_BCC_EMAILS';
+  v_default_bcc := coalesce(v_default_bcc, '[]'::jsonb);
+
+  -- Reply-To = sender's email (TSD §9.1)
+  select email into v_reply_to from public.users where id = v_actor;
+
+  -- BCC merge: caller UNION DEFAULT_BCC_EMAILS, distinct, preserves any order
+  select coalesce(jsonb_agg(distinct e), '[]'::jsonb) into v_bcc_effective
+    from (
+      select jsonb_array_elements_text(v_bcc_caller) as e
+      union
+      select jsonb_array_elements_text(v_default_bcc)
+    ) m;
+
+  -- Latest signature for the finalized report (for snapshot)
+  select signature_hash into v_signature_hash
+    from public.audit_signatures
+   where audit_report_id = v_audit_report.id
+   order by signed_at desc limit 1;
+
+  v_warnings := coalesce(p_payload->'scheduling_warnings', '[]'::jsonb);
+
+  -- Comparison summary gate: at most one non-empty line per attached
+  -- variant. variant_index is re-derived from content_variants below rather
+  -- than trusted from the caller.
+  v_comparison := coalesce(p_payload->'comparison_summary', '[]'::jsonb);
+  if jsonb_typeof(v_comparison) <> 'array' then
+    raise exception using errcode = 'P0004', message = 'comparison_summary_invalid';
+  end if;
+  -- CASE (not OR) so the uuid cast only runs on ids that passed the regex.
+  if exists (
+    select 1 from jsonb_array_elements(v_comparison) e
+     where case
+             when jsonb_typeof(e) <> 'object' then true
+             when coalesce(e->>'variant_id', '') !~* v_uuid_regex then true
+             when not ((e->>'variant_id')::uuid = any(v_variant_ids)) then true
+             when length(btrim(coalesce(e->>'text', ''))) = 0 then true
+             else length(e->>'text') > 500
+           end
+  ) or (
+    select count(*) <> count(distinct e->>'variant_id')
+      from jsonb_array_elements(v_comparison) e
+  ) then
+    raise exception using errcode = 'P0004', message = 'comparison_summary_invalid';
+  end if;
+
+  -- Build the immutable snapshot
+  v_snapshot := jsonb_build_object(
+    'project', jsonb_build_object(
+      'id', v_project.id,
+      'name', v_project.name
+    ),
+    'content_item', jsonb_build_object(
+      'id', v_content_item.id,
+      'content_sub_type', v_content_item.content_sub_type
+    ),
+    'variants', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', cv.id,
+          'variant_label', cv.variant_label,
+          'variant_index', cv.variant_index,
+          'body_html', cv.body_html,
+          'body_text', cv.body_text,
+          'variation_directive', cv.generation_params->>'variation_directive',
+          'char_count', cv.char_count
+        ) order by cv.variant_index
+      ), '[]'::jsonb)
+        from public.content_variants cv
+       where cv.id = any(v_variant_ids)
+    ),
+    'recommended_variant_id', v_recommended,
+    'audit_report', jsonb_build_object(
+      'id', v_audit_report.id,
+      'version_major', v_audit_report.version_major,
+      'version_minor', v_audit_report.version_minor,
+      'finalized_at', v_audit_report.finalized_at,
+      'signature_hash', v_signature_hash
+    ),
+    'sender', jsonb_build_object(
+      'from_name', v_from_name,
+      'from_email', v_from_email,
+      'reply_to_email', v_reply_to,
+      'sent_by_email_snapshot', v_reply_to
+    ),
+    'recipient', jsonb_build_object(
+      'email', p_payload->>'recipient_email',
+      'name', p_payload->>'recipient_name',
+      'cc_emails', v_cc,
+      'bcc_emails_effective', v_bcc_effective
+    ),
+    'scheduling_warnings', v_warnings,
+    'comparison_summary', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object(
+          'variant_id', cv.id,
+          'variant_index', cv.variant_index,
+          'text', btrim(e->>'text')
+        ) order by cv.variant_index
+      ), '[]'::jsonb)
+        from jsonb_array_elements(v_comparison) e
+        join public.content_variants cv on cv.id = (e->>'variant_id')::uuid
+    )
+  );
+
+  v_status := case when p_scheduled_for is null then 'draft' else 'scheduled' end;
+
+  -- Persist delivery row
+  insert into public.deliveries
+    (project_id, recipient_email, recipient_name, cc_emails, bcc_emails,
+     subject, body_html, body_text, variant_ids_attached, attachment_format,
+     recommended_variant_id, audit_report_id, delivery_snapshot, status)
+  values
+    (v_project.id,
+     p_payload->>'recipient_email',
+     p_payload->>'recipient_name',
+     v_cc,
+     v_bcc_effective,
+     p_payload->>'subject',
+     p_payload->>'body_html',
+     p_payload->>'body_text',
+     to_jsonb(v_variant_ids),
+     v_attachment_format,
+     v_recommended,
+     v_audit_report.id,
+     v_snapshot,
+     v_status)
+  returning id into v_delivery_id;
+
+  -- Token: gen_random_bytes(32) -> URL-safe base64 (no padding)
+  v_token := rtrim(translate(encode(gen_random_bytes(32), 'base64'), '+/', '-_'), '=');
+
+  -- Feedback token (30-day expiry; one-shot enforced by Phase 6 feedback-submit)
+  insert into public.feedback_tokens
+    (token, delivery_id, expires_at)
+  values
+    (v_token, v_delivery_id, now() + interval '30 days');
+
+  -- Scheduled-send row if scheduled
+  if p_scheduled_for is not null then
+    insert into public.scheduled_sends (delivery_id, scheduled_for)
+    values (v_delivery_id, p_scheduled_for);
+  end if;
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery_id,
+    'token', v_token,
+    'delivery_snapshot', v_snapshot,
+    'status', v_status,
+    'scheduled_for', p_scheduled_for
+  );
+end;
+$$;
+
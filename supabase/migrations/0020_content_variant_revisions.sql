@@ -0,0 +1,436 @@
+-- ============================================================
+-- ClearPress AI — Content variant revision history
+--
+-- WHAT
+-- ----
+-- regenerate_variant, apply_fix and the editor autosave all overwrite
+-- content_variants.body_text in place, so once a variant changes the prior
+-- text survives only as audit-event metadata. content_variant_revisions keeps
+-- every body the variant has had, written in the same transaction as the
+-- body change:
+--
+--   generated / regenerated — regenerate_variant (author: the model; the
+--                             triggering user is recorded alongside)
+--   autosave                — save_variant_body, the editor's autosave path.
+--                             Consecutive autosaves by the same user within
+--                             AUTOSAVE_CHECKPOINT_WINDOW (10 min) fold into
+--                             one checkpoint row, so a typing session is one
+--                             revision rather than one per debounce.
+--   fix_applied             — apply_fix (records the finding_id)
+--   restored                — restore_variant_revision (records the source
+--                             revision). Callers re-run compliance after.
+--
+-- Clients cannot write rows: RLS grants SELECT only, and every write goes
+-- through the DEFINER RPCs. History is append-only except for the open
+-- autosave checkpoint, which save_variant_body rewrites in place until the
+-- window closes; every other row is final once inserted.
+--
+-- Existing variants are backfilled with one revision 1 ('generated') holding
+-- their current body — earlier bodies are already gone.
+--
+-- regenerate_variant and apply_fix are re-declared with their existing
+-- signatures and grants; the only change is the revision insert.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0020 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Table
+-- ------------------------------------------------------------
+create table public.content_variant_revisions (
+  id uuid primary key default gen_random_uuid(),
+  variant_id uuid not null
+    references public.content_variants(id) on delete cascade,
+  revision_number int not null,
+  body_text text not null,
+  body_html text,
+  char_count int not null,
+  reading_time_seconds int not null,
+  reason text not null
+    check (reason in (
+      'generated', 'regenerated', 'autosave', 'fix_applied', 'restored'
+    )),
+  author_type text not null check (author_type in ('model', 'user')),
+  -- Set for author_type = 'model'.
+  model_used text,
+  -- The editing user, or for model revisions the user who triggered the run
+  -- (null for system-triggered generation).
+  author_id uuid references public.users(id),
+  author_name_snapshot text,
+  finding_id uuid references public.compliance_findings(id) on delete set null,
+  restored_from_revision_id uuid
+    references public.content_variant_revisions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (variant_id, revision_number)
+);
+
+alter table public.content_variant_revisions enable row level security;
+
+create policy firm_users_read_access on public.content_variant_revisions
+  for select using (auth.role() = 'authenticated');
+
+insert into public.content_variant_revisions
+  (variant_id, revision_number, body_text, body_html, char_count,
+   reading_time_seconds, reason, author_type, model_used, created_at,
+   updated_at)
+select id, 1, body_text, body_html, char_count, reading_time_seconds,
+       'generated', 'model', model_used, updated_at, updated_at
+  from public.content_variants;
+
+-- ------------------------------------------------------------
+-- 2. Internal helper: _record_variant_revision
+-- ------------------------------------------------------------
+-- Snapshots the variant's CURRENT body as the next revision. Callers update
+-- content_variants first (holding its row lock, which also serialises
+-- revision_number allocation) and then call this.
+create or replace function public._record_variant_revision(
+  p_variant_id uuid,
+  p_reason text,
+  p_author_type text,
+  p_model_used text,
+  p_author_id uuid,
+  p_author_name_snapshot text,
+  p_finding_id uuid default null,
+  p_restored_from_revision_id uuid default null
+) returns public.content_variant_revisions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant public.content_variants;
+  v_row public.content_variant_revisions;
+begin
+  select * into v_variant from public.content_variants where id = p_variant_id;
+
+  insert into public.content_variant_revisions
+    (variant_id, revision_number, body_text, body_html, char_count,
+     reading_time_seconds, reason, author_type, model_used, author_id,
+     author_name_snapshot, finding_id, restored_from_revision_id)
+  values (
+    v_variant.id,
+    coalesce((select max(revision_number)
+                from public.content_variant_revisions
+               where variant_id = v_variant.id), 0) + 1,
+    v_variant.body_text, v_variant.body_html, v_variant.char_count,
+    v_variant.reading_time_seconds, p_reason, p_author_type, p_model_used,
+    p_author_id, p_author_name_snapshot, p_finding_id,
+    p_restored_from_revision_id
+  )
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+-- regenerate_variant is INVOKER (generate-variants calls it with the user's
+-- JWT), so authenticated keeps execute; anon does not.
+revoke all on function public._record_variant_revision(
+  uuid, text, text, text, uuid, text, uuid, uuid
+) from public, anon;
+grant execute on function public._record_variant_revision(
+  uuid, text, text, text, uuid, text, uuid, uuid
+) to authenticated;
+
+-- ------------------------------------------------------------
+-- 3. regenerate_variant: + generated/regenerated revision
+-- ------------------------------------------------------------
+create or replace function public.regenerate_variant(
+  p_content_item_id uuid,
+  p_variant_index int,
+  p_variant_label text,
+  p_body_text text,
+  p_char_count int,
+  p_reading_time_seconds int,
+  p_model_used text,
+  p_generation_params jsonb,
+  p_project_id uuid,
+  p_actor_id uuid,
+  p_actor_name_snapshot text,
+  p_audit_details jsonb
+) returns public.content_variants
+language plpgsql
+security invoker
+as $$
+declare
+  v_row public.content_variants;
+  v_existing_id uuid;
+begin
+  select id into v_existing_id
+  from public.content_variants
+  where content_item_id = p_content_item_id and variant_index = p_variant_index;
+
+  if v_existing_id is not null then
+    delete from public.compliance_findings where variant_id = v_existing_id;
+  end if;
+
+  insert into public.content_variants (
+    content_item_id, variant_index, variant_label, body_text,
+    char_count, reading_time_seconds, model_used, generation_params,
+    internal_approved, internal_approved_by, internal_approved_at,
+    updated_at
+  ) values (
+    p_content_item_id, p_variant_index, p_variant_label, p_body_text,
+    p_char_count, p_reading_time_seconds, p_model_used, p_generation_params,
+    false, null, null,
+    now()
+  )
+  on conflict (content_item_id, variant_index) do update set
+    variant_label = excluded.variant_label,
+    body_text = excluded.body_text,
+    char_count = excluded.char_count,
+    reading_time_seconds = excluded.reading_time_seconds,
+    model_used = excluded.model_used,
+    generation_params = excluded.generation_params,
+    internal_approved = false,
+    internal_approved_by = null,
+    internal_approved_at = null,
+    updated_at = now()
+  returning * into v_row;
+
+  perform public._record_variant_revision(
+    v_row.id,
+    case when v_existing_id is null then 'generated' else 'regenerated' end,
+    'model', p_model_used, p_actor_id, p_actor_name_snapshot
+  );
+
+  -- I4 atomicity: emit the variant_generated audit event in the same tx
+  -- as the variant upsert. The audit_trail_events row carries the
+  -- newly-minted variant_id (from v_row.id) so the trail is 1:1 with
+  -- the row, not the Edge Function call.
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details, model_used)
+  values (
+    p_project_id,
+    null,
+    'variant_generated',
+    case when p_actor_id is null then 'system' else 'user' end,
+    p_actor_id,
+    p_actor_name_snapshot,
+    p_audit_details || jsonb_build_object('variant_id', v_row.id),
+    p_model_used
+  );
+
+  return v_row;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 4. apply_fix: + fix_applied revision
+-- ------------------------------------------------------------
+create or replace function public.apply_fix(
+  p_finding_id uuid,
+  p_new_body_text text,
+  p_new_body_html text,
+  p_new_char_count int,
+  p_new_reading_time_seconds int
+) returns public.compliance_findings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_finding public.compliance_findings;
+  v_variant public.content_variants;
+  v_project_id uuid;
+  v_prior_status text;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_finding from public.compliance_findings
+    where id = p_finding_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'finding_not_found';
+  end if;
+  if v_finding.resolution_status = 'fixed' then
+    raise exception using errcode = 'P0004', message = 'finding_already_fixed';
+  end if;
+  v_prior_status := v_finding.resolution_status;
+
+  select * into v_variant from public.content_variants
+    where id = v_finding.variant_id for update;
+
+  update public.content_variants
+     set body_text = p_new_body_text,
+         body_html = p_new_body_html,
+         char_count = p_new_char_count,
+         reading_time_seconds = p_new_reading_time_seconds,
+         updated_at = now()
+   where id = v_variant.id;
+
+  update public.compliance_findings
+     set resolution_status = 'fixed',
+         resolved_by = v_actor,
+         resolved_at = now()
+   where id = p_finding_id
+   returning * into v_finding;
+
+  select project_id into v_project_id
+    from public.content_items where id = v_variant.content_item_id;
+  select full_name into v_actor_name
+    from public.users where id = v_actor;
+
+  perform public._record_variant_revision(
+    v_variant.id, 'fix_applied', 'user', null, v_actor, v_actor_name,
+    p_finding_id
+  );
+
+  insert into public.audit_trail_events
+    (project_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_project_id, 'fix_applied', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'finding_id', p_finding_id,
+      'variant_id', v_variant.id,
+      'severity', v_finding.severity,
+      'prior_status', v_prior_status
+    )
+  );
+
+  return v_finding;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 5. RPC: save_variant_body (editor autosave)
+-- ------------------------------------------------------------
+-- Replaces useUpdateVariant's direct table update. Same column writes as
+-- before (approval is untouched; the review UI flags "changed since
+-- approval" off updated_at), plus the autosave checkpoint. A save whose body
+-- matches the current one is a no-op so focus/blur churn doesn't bump
+-- updated_at or mint revisions.
+create or replace function public.save_variant_body(
+  p_variant_id uuid,
+  p_body_text text,
+  p_char_count int,
+  p_reading_time_seconds int
+) returns public.content_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_variant public.content_variants;
+  v_latest public.content_variant_revisions;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_variant from public.content_variants
+    where id = p_variant_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'variant_not_found';
+  end if;
+
+  if v_variant.body_text = p_body_text then
+    return v_variant;
+  end if;
+
+  update public.content_variants
+     set body_text = p_body_text,
+         char_count = p_char_count,
+         reading_time_seconds = p_reading_time_seconds,
+         updated_at = now()
+   where id = p_variant_id
+   returning * into v_variant;
+
+  select * into v_latest from public.content_variant_revisions
+   where variant_id = p_variant_id
+   order by revision_number desc
+   limit 1;
+
+  -- AUTOSAVE_CHECKPOINT_WINDOW: fold into the open checkpoint.
+  if found
+     and v_latest.reason = 'autosave'
+     and v_latest.author_id = v_actor
+     and v_latest.updated_at > now() - interval '10 minutes' then
+    update public.content_variant_revisions
+       set body_text = v_variant.body_text,
+           body_html = v_variant.body_html,
+           char_count = v_variant.char_count,
+           reading_time_seconds = v_variant.reading_time_seconds,
+           updated_at = now()
+     where id = v_latest.id;
+  else
+    select full_name into v_actor_name from public.users where id = v_actor;
+    perform public._record_variant_revision(
+      p_variant_id, 'autosave', 'user', null, v_actor, v_actor_name
+    );
+  end if;
+
+  return v_variant;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 6. RPC: restore_variant_revision
+-- ------------------------------------------------------------
+-- Copies a past revision back onto the variant as a NEW revision (history is
+-- never rewound). Bumps updated_at, so existing findings go stale and the
+-- caller re-runs compliance (gate I3 #5).
+create or replace function public.restore_variant_revision(
+  p_revision_id uuid
+) returns public.content_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_revision public.content_variant_revisions;
+  v_variant public.content_variants;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_revision from public.content_variant_revisions
+    where id = p_revision_id;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'revision_not_found';
+  end if;
+
+  select * into v_variant from public.content_variants
+    where id = v_revision.variant_id for update;
+
+  update public.content_variants
+     set body_text = v_revision.body_text,
+         body_html = v_revision.body_html,
+         char_count = v_revision.char_count,
+         reading_time_seconds = v_revision.reading_time_seconds,
+         updated_at = now()
+   where id = v_variant.id
+   returning * into v_variant;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+  perform public._record_variant_revision(
+    v_variant.id, 'restored', 'user', null, v_actor, v_actor_name,
+    null, v_revision.id
+  );
+
+  return v_variant;
+end;
+$$;
+
+revoke all on function public.save_variant_body(uuid, text, int, int)
+  from public, anon;
+grant execute on function public.save_variant_body(uuid, text, int, int)
+  to authenticated;
+
+revoke all on function public.restore_variant_revision(uuid)
+  from public, anon;
+grant execute on function public.restore_variant_revision(uuid)
+  to authenticated;
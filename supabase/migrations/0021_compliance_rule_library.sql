@@ -0,0 +1,282 @@
+-- ============================================================
+-- ClearPress AI — Firm-managed compliance rule library
+--
+-- WHAT
+-- ----
+-- The deterministic compliance pass used to read three hardcoded lists
+-- (FORBIDDEN_ABSOLUTE_TERMS, REQUIRED_BOILERPLATE_PATTERNS,
+-- CLINICAL_REFERENCE_PATTERNS) drift-mirrored between the Vite and Deno
+-- prompt modules, so a newly problematic expression needed a deploy. Rules
+-- now live here and are managed from Settings:
+--
+--   compliance_rules              — the editable working copy. One row per
+--                                   rule: term or regex, prohibited (flag on
+--                                   match) or required (flag on absence),
+--                                   severity, regulation reference,
+--                                   explanation template ({{MATCH}}),
+--                                   suggested correction, and scope by
+--                                   content type / sub-type / audience /
+--                                   lifecycle (empty array = all).
+--   compliance_rule_set_versions  — immutable snapshots. Every save
+--                                   publishes version N+1 holding the full
+--                                   ACTIVE rule set as jsonb.
+--
+-- compliance-check applies the latest snapshot and records its version as
+-- `rule_set_version` in the compliance_checked / compliance_rechecked audit
+-- details, so a finding can always be traced to the exact rules that
+-- produced it.
+--
+-- Both tables are read-only to clients; writes go through
+-- save_compliance_rule (DEFINER), which validates, writes the rule and
+-- publishes the new version in one transaction.
+--
+-- Version 1 is seeded from the former hardcoded lists with identical
+-- behaviour. Client words_to_avoid remain on brand_voice_profiles.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0021 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Tables
+-- ------------------------------------------------------------
+create table public.compliance_rules (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('prohibited', 'required')),
+  match_type text not null check (match_type in ('term', 'regex')),
+  pattern text not null check (length(pattern) between 1 and 500),
+  severity text not null check (severity in ('blocker', 'warning', 'note')),
+  regulation_reference text not null,
+  explanation_template text not null,
+  suggested_correction text,
+  content_types text[] not null default '{}'
+    check (content_types <@ array[
+      'press_release', 'blog_post', 'social_media', 'internal_memo', 'faq',
+      'executive_statement'
+    ]),
+  content_sub_types text[] not null default '{}'
+    check (content_sub_types <@ array[
+      'auto', 'full_clinical', 'partner_ack', 'csr_event', 'business_news'
+    ]),
+  audiences text[] not null default '{}'
+    check (audiences <@ array[
+      'hcp', 'patient_public', 'investor_ir', 'trade_media', 'news_media'
+    ]),
+  lifecycles text[] not null default '{}'
+    check (lifecycles <@ array['pre_approval', 'in_trial', 'approved']),
+  active boolean not null default true,
+  created_by uuid references public.users(id),
+  created_at timestamptz not null default now(),
+  updated_by uuid references public.users(id),
+  updated_at timestamptz not null default now()
+);
+
+create table public.compliance_rule_set_versions (
+  version int primary key,
+  -- jsonb array of active rules, shaped like ComplianceRuleSchema.
+  rules jsonb not null,
+  change_note text,
+  created_by uuid references public.users(id),
+  created_by_name_snapshot text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.compliance_rules enable row level security;
+alter table public.compliance_rule_set_versions enable row level security;
+
+create policy firm_users_read_access on public.compliance_rules
+  for select using (auth.role() = 'authenticated');
+create policy firm_users_read_access on public.compliance_rule_set_versions
+  for select using (auth.role() = 'authenticated');
+
+-- ------------------------------------------------------------
+-- 2. Internal helper: _publish_compliance_rule_set
+-- ------------------------------------------------------------
+-- Snapshots the active rules as the next version. The advisory lock
+-- serialises concurrent saves so version numbers never collide.
+create or replace function public._publish_compliance_rule_set(
+  p_change_note text,
+  p_actor uuid
+) returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version int;
+  v_actor_name text;
+begin
+  perform pg_advisory_xact_lock(hashtext('compliance_rule_set_versions'));
+
+  select coalesce(max(version), 0) + 1 into v_version
+    from public.compliance_rule_set_versions;
+  if p_actor is not null then
+    select full_name into v_actor_name from public.users where id = p_actor;
+  end if;
+
+  insert into public.compliance_rule_set_versions
+    (version, rules, change_note, created_by, created_by_name_snapshot)
+  select v_version,
+         coalesce(jsonb_agg(jsonb_build_object(
+           'id',                   r.id,
+           'kind',                 r.kind,
+           'match_type',           r.match_type,
+           'pattern',              r.pattern,
+           'severity',             r.severity,
+           'regulation_reference', r.regulation_reference,
+           'explanation_template', r.explanation_template,
+           'suggested_correction', r.suggested_correction,
+           'content_types',        to_jsonb(r.content_types),
+           'content_sub_types',    to_jsonb(r.content_sub_types),
+           'audiences',            to_jsonb(r.audiences),
+           'lifecycles',           to_jsonb(r.lifecycles)
+         ) order by r.created_at, r.id), '[]'::jsonb),
+         nullif(btrim(coalesce(p_change_note, '')), ''),
+         p_actor,
+         v_actor_name
+    from public.compliance_rules r
+   where r.active;
+
+  return v_version;
+end;
+$$;
+
+revoke all on function public._publish_compliance_rule_set(text, uuid)
+  from public, anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 3. Seed: the former hardcoded lists → version 1
+-- ------------------------------------------------------------
+insert into public.compliance_rules
+  (kind, match_type, pattern, severity, regulation_reference,
+   explanation_template, suggested_correction, content_sub_types)
+select 'prohibited', 'term', t.term, 'blocker', '薬機法 第66条',
+       '「{{MATCH}}」は薬機法第66条で禁じられた誇大表現に該当する可能性があります。',
+       null, '{}'::text[]
+  from unnest(array[
+    '画期的', '革命的', '驚異的', '夢の薬', '夢の', '奇跡', '確実な治療効果'
+  ]) with ordinality as t(term, ord)
+ order by t.ord;
+
+insert into public.compliance_rules
+  (kind, match_type, pattern, severity, regulation_reference,
+   explanation_template, suggested_correction, content_sub_types)
+values
+  ('required', 'regex',
+   'お問い合わせ|広報部|TEL|株式会社.{0,40}について',
+   'warning', '必須開示',
+   '会社情報・問い合わせ先などの定型句が見当たりません。',
+   '末尾に「お問い合わせ：〜広報部 TEL: …」などの定型句を追記してください。',
+   '{}'),
+  ('required', 'regex',
+   '臨床試験|第[IVX]+相',
+   'warning', '臨床表現',
+   '臨床試験への参照（臨床試験／第I-III相など）が見当たりません。',
+   null,
+   '{full_clinical}');
+
+select public._publish_compliance_rule_set(
+  'Seeded from the former hardcoded term lists', null
+);
+
+-- ------------------------------------------------------------
+-- 4. RPC: save_compliance_rule
+-- ------------------------------------------------------------
+-- p_rule_id null → create. p_rule carries every editable field, including
+-- `active` (deactivation is how a rule is retired; rows are never deleted
+-- so old snapshots' rule ids stay meaningful). Returns the new version.
+create or replace function public.save_compliance_rule(
+  p_rule_id uuid,
+  p_rule jsonb,
+  p_change_note text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_rule public.compliance_rules;
+  v_pattern text := p_rule->>'pattern';
+  v_version int;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  if coalesce(btrim(v_pattern), '') = ''
+     or coalesce(btrim(p_rule->>'regulation_reference'), '') = ''
+     or coalesce(btrim(p_rule->>'explanation_template'), '') = '' then
+    raise exception using errcode = 'P0004', message = 'rule_incomplete';
+  end if;
+
+  if p_rule->>'match_type' = 'regex' then
+    begin
+      perform '' ~ v_pattern;
+    exception when invalid_regular_expression then
+      raise exception using errcode = 'P0004', message = 'invalid_pattern';
+    end;
+  end if;
+
+  if p_rule_id is null then
+    insert into public.compliance_rules
+      (kind, match_type, pattern, severity, regulation_reference,
+       explanation_template, suggested_correction, content_types,
+       content_sub_types, audiences, lifecycles, active, created_by,
+       updated_by)
+    values (
+      p_rule->>'kind',
+      p_rule->>'match_type',
+      v_pattern,
+      p_rule->>'severity',
+      btrim(p_rule->>'regulation_reference'),
+      btrim(p_rule->>'explanation_template'),
+      nullif(btrim(coalesce(p_rule->>'suggested_correction', '')), ''),
+      array(select jsonb_array_elements_text(coalesce(p_rule->'content_types', '[]'))),
+      array(select jsonb_array_elements_text(coalesce(p_rule->'content_sub_types', '[]'))),
+      array(select jsonb_array_elements_text(coalesce(p_rule->'audiences', '[]'))),
+      array(select jsonb_array_elements_text(coalesce(p_rule->'lifecycles', '[]'))),
+      coalesce((p_rule->>'active')::boolean, true),
+      v_actor,
+      v_actor
+    )
+    returning * into v_rule;
+  else
+    update public.compliance_rules
+       set kind = p_rule->>'kind',
+           match_type = p_rule->>'match_type',
+           pattern = v_pattern,
+           severity = p_rule->>'severity',
+           regulation_reference = btrim(p_rule->>'regulation_reference'),
+           explanation_template = btrim(p_rule->>'explanation_template'),
+           suggested_correction =
+             nullif(btrim(coalesce(p_rule->>'suggested_correction', '')), ''),
+           content_types = array(select jsonb_array_elements_text(coalesce(p_rule->'content_types', '[]'))),
+           content_sub_types = array(select jsonb_array_elements_text(coalesce(p_rule->'content_sub_types', '[]'))),
+           audiences = array(select jsonb_array_elements_text(coalesce(p_rule->'audiences', '[]'))),
+           lifecycles = array(select jsonb_array_elements_text(coalesce(p_rule->'lifecycles', '[]'))),
+           active = coalesce((p_rule->>'active')::boolean, active),
+           updated_by = v_actor,
+           updated_at = now()
+     where id = p_rule_id
+     returning * into v_rule;
+    if not found then
+      raise exception using errcode = 'P0004', message = 'rule_not_found';
+    end if;
+  end if;
+
+  v_version := public._publish_compliance_rule_set(p_change_note, v_actor);
+
+  return jsonb_build_object(
+    'rule_id',          v_rule.id,
+    'rule_set_version', v_version
+  );
+end;
+$$;
+
+revoke all on function public.save_compliance_rule(uuid, jsonb, text)
+  from public, anon;
+grant execute on function public.save_compliance_rule(uuid, jsonb, text)
+  to authenticated;
@@ -0,0 +1,140 @@
+-- ============================================================
+-- ClearPress AI — Character-offset anchors for compliance findings
+--
+-- WHAT
+-- ----
+-- compliance_findings located the flagged text by source_text plus a
+-- 1-indexed paragraph_index, and the deterministic pass fell back to
+-- paragraph 1 when nothing matched. A phrase repeated in the body was
+-- ambiguous, and neither the panel nor apply-fix could tell which copy was
+-- meant.
+--
+-- Findings now carry an anchor:
+--
+--   anchor_start / anchor_end — [start, end) offsets into body_text as it
+--                               stood at check time. UTF-16 code units (JS
+--                               string indices): anchors are computed by
+--                               compliance-check and resolved in the
+--                               browser, never by SQL.
+--   anchor_context_hash       — hash of the span plus its surrounding text
+--                               (_shared/finding-anchor.ts), used to pick the
+--                               flagged copy out of repeats after edits.
+--
+-- All three are null together: whole-body findings ('(本文全体)'), LLM
+-- findings whose source_text could not be located, and rows recorded before
+-- this migration. The review UI re-anchors against the current body and
+-- marks a finding orphaned when its span can no longer be identified.
+--
+-- paragraph_index stays (the audit report snapshot reads it) but is now
+-- derived from the anchor, and is null for whole-body findings instead of
+-- defaulting to 1. record_compliance_check is re-declared with the same
+-- signature to write the new columns.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0022 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Columns
+-- ------------------------------------------------------------
+alter table public.compliance_findings
+  add column anchor_start int,
+  add column anchor_end int,
+  add column anchor_context_hash text,
+  add constraint compliance_findings_anchor_complete check (
+    (anchor_start is null) = (anchor_end is null)
+    and (anchor_start is null) = (anchor_context_hash is null)
+  ),
+  add constraint compliance_findings_anchor_range check (
+    anchor_start is null or (anchor_start >= 0 and anchor_end > anchor_start)
+  );
+
+-- ------------------------------------------------------------
+-- 2. record_compliance_check: + anchor columns
+-- ------------------------------------------------------------
+create or replace function public.record_compliance_check(
+  p_variant_id uuid,
+  p_project_id uuid,
+  p_findings jsonb,        -- jsonb array of rows to insert (no variant_id field — set here)
+  p_audit_details jsonb,   -- caller-side counts + run metadata, merged with server-derived fields
+  p_model_used text
+) returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_prior_count int;
+  v_event_type text;
+  v_inserted jsonb;
+begin
+  select count(*) into v_prior_count
+    from public.compliance_findings
+   where variant_id = p_variant_id;
+
+  delete from public.compliance_findings where variant_id = p_variant_id;
+
+  if jsonb_array_length(coalesce(p_findings, '[]'::jsonb)) > 0 then
+    with ins as (
+      insert into public.compliance_findings
+        (variant_id, severity, source_text, paragraph_index, anchor_start,
+         anchor_end, anchor_context_hash, explanation, regulation_reference,
+         suggested_correction, resolution_status)
+      select
+        p_variant_id,
+        (f->>'severity'),
+        (f->>'source_text'),
+        (f->>'paragraph_index')::int,
+        (f->>'anchor_start')::int,
+        (f->>'anchor_end')::int,
+        (f->>'anchor_context_hash'),
+        (f->>'explanation'),
+        (f->>'regulation_reference'),
+        nullif(f->>'suggested_correction', ''),
+        'unresolved'
+      from jsonb_array_elements(p_findings) f
+      returning severity, source_text, paragraph_index, anchor_start,
+                anchor_end, anchor_context_hash, explanation,
+                regulation_reference, suggested_correction
+    )
+    select coalesce(jsonb_agg(to_jsonb(ins.*)), '[]'::jsonb)
+      into v_inserted
+      from ins;
+  else
+    v_inserted := '[]'::jsonb;
+  end if;
+
+  v_event_type := case when v_prior_count > 0
+                       then 'compliance_rechecked'
+                       else 'compliance_checked' end;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details, model_used)
+  values (
+    p_project_id,
+    null,
+    v_event_type,
+    'system',
+    null,
+    null,
+    p_audit_details
+      || jsonb_build_object(
+        'variant_id', p_variant_id,
+        'prior_findings_cleared', v_prior_count
+      ),
+    p_model_used
+  );
+
+  return jsonb_build_object(
+    'prior_findings_count', v_prior_count,
+    'event_type', v_event_type,
+    'inserted_findings', v_inserted
+  );
+end;
+$$;
+
+grant execute on function public.record_compliance_check(
+  uuid, uuid, jsonb, jsonb, text
+) to authenticated;
@@ -0,0 +1,117 @@
+-- ============================================================
+-- ClearPress AI — Production cases for the compliance evaluation set
+--
+-- WHAT
+-- ----
+-- The offline compliance evaluation (src/lib/compliance-eval) scores the
+-- deterministic + LLM passes against human-labelled cases. The curated
+-- golden set ships with the code; this table collects labelled cases from
+-- real reviews so the set grows with what reviewers actually flag.
+--
+--   compliance_eval_cases — one row per captured variant. `eval_case` is
+--                           an EvalCaseSchema object (body_text, scope,
+--                           words_to_avoid, labels with body offsets)
+--                           built in the browser by
+--                           caseFromReviewedVariant, which resolves each
+--                           finding's anchor against the current body.
+--                           Re-capturing a variant replaces its row.
+--
+-- Rows hold client copy, so they stay in the database: export them with
+--   select eval_case from public.compliance_eval_cases order by captured_at;
+-- into a local (uncommitted) corpus file, alongside the golden rule_set.
+--
+-- Read-only to clients; writes go through capture_compliance_eval_case
+-- (DEFINER), which checks the case was built from the variant's current
+-- body before storing it.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0023 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Table
+-- ------------------------------------------------------------
+create table public.compliance_eval_cases (
+  id uuid primary key default gen_random_uuid(),
+  variant_id uuid unique references public.content_variants(id)
+    on delete set null,
+  eval_case jsonb not null,
+  label_count int not null check (label_count > 0),
+  captured_by uuid references public.users(id),
+  captured_by_name_snapshot text,
+  captured_at timestamptz not null default now()
+);
+
+alter table public.compliance_eval_cases enable row level security;
+
+create policy firm_users_read_access on public.compliance_eval_cases
+  for select using (auth.role() = 'authenticated');
+
+-- ------------------------------------------------------------
+-- 2. RPC: capture_compliance_eval_case
+-- ------------------------------------------------------------
+-- Returns the case row id.
+create or replace function public.capture_compliance_eval_case(
+  p_variant_id uuid,
+  p_case jsonb
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_body text;
+  v_label_count int;
+  v_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select body_text into v_body
+    from public.content_variants
+   where id = p_variant_id;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'variant_not_found';
+  end if;
+
+  -- Label offsets index into the body the case carries; a case built from
+  -- a body that has since been edited would point at the wrong text.
+  if p_case->>'body_text' is distinct from v_body then
+    raise exception using errcode = 'P0004', message = 'body_changed';
+  end if;
+
+  v_label_count := jsonb_array_length(coalesce(p_case->'labels', '[]'::jsonb));
+  if v_label_count = 0 then
+    raise exception using errcode = 'P0004', message = 'no_labels';
+  end if;
+
+  insert into public.compliance_eval_cases
+    (variant_id, eval_case, label_count, captured_by,
+     captured_by_name_snapshot)
+  values (
+    p_variant_id,
+    p_case,
+    v_label_count,
+    v_actor,
+    (select full_name from public.users where id = v_actor)
+  )
+  on conflict (variant_id) do update
+     set eval_case = excluded.eval_case,
+         label_count = excluded.label_count,
+         captured_by = excluded.captured_by,
+         captured_by_name_snapshot = excluded.captured_by_name_snapshot,
+         captured_at = now()
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.capture_compliance_eval_case(uuid, jsonb)
+  from public, anon;
+grant execute on function public.capture_compliance_eval_case(uuid, jsonb)
+  to authenticated;
@@ -0,0 +1,340 @@
+-- ============================================================
+-- ClearPress AI — Reviewer-authored (manual) compliance findings
+--
+-- WHAT
+-- ----
+-- Every compliance_findings row came from compliance-check, and
+-- record_compliance_check replaced a variant's findings wholesale on each
+-- run. An issue a reviewer spotted that the checks missed had nowhere to
+-- live and never reached the audit report.
+--
+--   compliance_findings.source     — 'deterministic' | 'llm' | 'manual'.
+--                                    Backfilled from the regulation_reference
+--                                    tag; the "[deterministic]" / "[LLM]" /
+--                                    "[manual]" suffix stays for display.
+--   compliance_findings.created_by — the reviewer who filed a manual
+--                                    finding; null for automated ones.
+--
+--   add_manual_finding (DEFINER)   — files a finding on a selected span:
+--                                    severity, regulation reference,
+--                                    explanation, optional correction, and
+--                                    the span's anchor (0022), computed in
+--                                    the browser. Emits
+--                                    `manual_finding_added`.
+--
+-- Manual findings go through the same fix / acknowledge / reopen
+-- lifecycle, so an unresolved manual blocker holds up sign-off like any
+-- other. record_compliance_check now clears and counts only automated
+-- findings, so manual ones survive rechecks. _build_audit_snapshot carries
+-- `source` and `created_by` so the audit report counts them separately.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0024 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Columns
+-- ------------------------------------------------------------
+alter table public.compliance_findings
+  add column source text not null default 'llm'
+    check (source in ('deterministic', 'llm', 'manual')),
+  add column created_by uuid references public.users(id);
+
+update public.compliance_findings
+   set source = 'deterministic'
+ where regulation_reference like '%[deterministic]';
+
+alter table public.audit_trail_events
+  drop constraint audit_trail_events_event_type_check;
+alter table public.audit_trail_events
+  add constraint audit_trail_events_event_type_check
+  check (event_type in (
+    'variant_generated', 'compliance_checked', 'manual_review_started',
+    'fix_applied', 'compliance_rechecked', 'sign_off',
+    'delivery_sent', 'feedback_received', 'voice_updated',
+    'audit_report_created', 'audit_revision_started',
+    'variant_approved', 'acknowledge_finding',
+    'feedback_reminder_sent', 'feedback_expired',
+    'manual_finding_added'
+  ));
+
+-- ------------------------------------------------------------
+-- 2. record_compliance_check: leave manual findings alone
+-- ------------------------------------------------------------
+-- Same signature as 0022. Each payload row now carries `source`; rows from
+-- an Edge Function deployed before this migration fall back to the
+-- regulation_reference tag.
+create or replace function public.record_compliance_check(
+  p_variant_id uuid,
+  p_project_id uuid,
+  p_findings jsonb,        -- jsonb array of rows to insert (no variant_id field — set here)
+  p_audit_details jsonb,   -- caller-side counts + run metadata, merged with server-derived fields
+  p_model_used text
+) returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_prior_count int;
+  v_event_type text;
+  v_inserted jsonb;
+begin
+  select count(*) into v_prior_count
+    from public.compliance_findings
+   where variant_id = p_variant_id
+     and source <> 'manual';
+
+  delete from public.compliance_findings
+   where variant_id = p_variant_id
+     and source <> 'manual';
+
+  if jsonb_array_length(coalesce(p_findings, '[]'::jsonb)) > 0 then
+    with ins as (
+      insert into public.compliance_findings
+        (variant_id, severity, source_text, paragraph_index, anchor_start,
+         anchor_end, anchor_context_hash, explanation, regulation_reference,
+         suggested_correction, resolution_status, source)
+      select
+        p_variant_id,
+        (f->>'severity'),
+        (f->>'source_text'),
+        (f->>'paragraph_index')::int,
+        (f->>'anchor_start')::int,
+        (f->>'anchor_end')::int,
+        (f->>'anchor_context_hash'),
+        (f->>'explanation'),
+        (f->>'regulation_reference'),
+        nullif(f->>'suggested_correction', ''),
+        'unresolved',
+        coalesce(
+          f->>'source',
+          case when f->>'regulation_reference' like '%[deterministic]'
+               then 'deterministic' else 'llm' end
+        )
+      from jsonb_array_elements(p_findings) f
+      returning severity, source_text, paragraph_index, anchor_start,
+                anchor_end, anchor_context_hash, explanation,
+                regulation_reference, suggested_correction, source
+    )
+    select coalesce(jsonb_agg(to_jsonb(ins.*)), '[]'::jsonb)
+      into v_inserted
+      from ins;
+  else
+    v_inserted := '[]'::jsonb;
+  end if;
+
+  v_event_type := case when v_prior_count > 0
+                       then 'compliance_rechecked'
+                       else 'compliance_checked' end;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details, model_used)
+  values (
+    p_project_id,
+    null,
+    v_event_type,
+    'system',
+    null,
+    null,
+    p_audit_details
+      || jsonb_build_object(
+        'variant_id', p_variant_id,
+        'prior_findings_cleared', v_prior_count
+      ),
+    p_model_used
+  );
+
+  return jsonb_build_object(
+    'prior_findings_count', v_prior_count,
+    'event_type', v_event_type,
+    'inserted_findings', v_inserted
+  );
+end;
+$$;
+
+grant execute on function public.record_compliance_check(
+  uuid, uuid, jsonb, jsonb, text
+) to authenticated;
+
+-- ------------------------------------------------------------
+-- 3. RPC: add_manual_finding
+-- ------------------------------------------------------------
+-- p_finding: { severity, source_text, paragraph_index, anchor_start,
+-- anchor_end, anchor_context_hash, explanation, regulation_reference,
+-- suggested_correction }. Offsets are UTF-16 and not re-derived here
+-- (0022); the check is only that the selected text is in the body.
+-- "[manual]" is appended to regulation_reference.
+create or replace function public.add_manual_finding(
+  p_variant_id uuid,
+  p_finding jsonb
+) returns public.compliance_findings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_variant public.content_variants;
+  v_project_id uuid;
+  v_finding public.compliance_findings;
+  v_source_text text := p_finding->>'source_text';
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_variant from public.content_variants
+    where id = p_variant_id;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'variant_not_found';
+  end if;
+
+  if coalesce(btrim(p_finding->>'explanation'), '') = ''
+     or coalesce(btrim(p_finding->>'regulation_reference'), '') = ''
+     or coalesce(v_source_text, '') = '' then
+    raise exception using errcode = 'P0004', message = 'finding_incomplete';
+  end if;
+
+  if strpos(v_variant.body_text, v_source_text) = 0 then
+    raise exception using errcode = 'P0004', message = 'source_text_not_in_body';
+  end if;
+
+  insert into public.compliance_findings
+    (variant_id, severity, source_text, paragraph_index, anchor_start,
+     anchor_end, anchor_context_hash, explanation, regulation_reference,
+     suggested_correction, source, created_by)
+  values (
+    p_variant_id,
+    p_finding->>'severity',
+    v_source_text,
+    (p_finding->>'paragraph_index')::int,
+    (p_finding->>'anchor_start')::int,
+    (p_finding->>'anchor_end')::int,
+    p_finding->>'anchor_context_hash',
+    btrim(p_finding->>'explanation'),
+    btrim(p_finding->>'regulation_reference') || ' [manual]',
+    nullif(btrim(coalesce(p_finding->>'suggested_correction', '')), ''),
+    'manual',
+    v_actor
+  )
+  returning * into v_finding;
+
+  select project_id into v_project_id
+    from public.content_items where id = v_variant.content_item_id;
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_project_id, 'manual_finding_added', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'finding_id', v_finding.id,
+      'variant_id', p_variant_id,
+      'severity', v_finding.severity,
+      'regulation_reference', v_finding.regulation_reference
+    )
+  );
+
+  return v_finding;
+end;
+$$;
+
+revoke all on function public.add_manual_finding(uuid, jsonb)
+  from public, anon;
+grant execute on function public.add_manual_finding(uuid, jsonb)
+  to authenticated;
+
+-- ------------------------------------------------------------
+-- 4. _build_audit_snapshot: + source, created_by
+-- ------------------------------------------------------------
+-- Unchanged from 0005 apart from the two finding fields. Reports finalized
+-- earlier keep their stored snapshot; readers derive `source` from the
+-- regulation_reference tag when it is absent.
+create or replace function public._build_audit_snapshot(p_project_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+stable
+as $$
+declare
+  v_result jsonb;
+begin
+  with variants as (
+    select cv.*
+      from public.content_variants cv
+      join public.content_items ci on ci.id = cv.content_item_id
+     where ci.project_id = p_project_id
+       and cv.internal_approved = true
+  ),
+  findings_per_variant as (
+    select cf.variant_id,
+           jsonb_agg(
+             jsonb_build_object(
+               'id', cf.id,
+               'variant_id', cf.variant_id,
+               'severity', cf.severity,
+               'source', cf.source,
+               'source_text', cf.source_text,
+               'paragraph_index', cf.paragraph_index,
+               'explanation', cf.explanation,
+               'regulation_reference', cf.regulation_reference,
+               'suggested_correction', cf.suggested_correction,
+               'resolution_status', cf.resolution_status,
+               'created_by', case when cf.created_by is null then null else
+                 jsonb_build_object(
+                   'id', cf.created_by,
+                   'name', (select full_name from public.users where id = cf.created_by)
+                 )
+               end,
+               'resolved_by', case when cf.resolved_by is null then null else
+                 jsonb_build_object(
+                   'id', cf.resolved_by,
+                   'name', (select full_name from public.users where id = cf.resolved_by)
+                 )
+               end,
+               'resolved_at', cf.resolved_at,
+               'created_at', cf.created_at
+             ) order by cf.id
+           ) as findings
+      from public.compliance_findings cf
+      join variants v on v.id = cf.variant_id
+     group by cf.variant_id
+  )
+  select jsonb_build_object(
+    'variants',
+    coalesce(jsonb_agg(
+      jsonb_build_object(
+        'id', v.id,
+        'variant_label', v.variant_label,
+        'variant_index', v.variant_index,
+        'body_text', v.body_text,
+        'body_html', v.body_html,
+        'char_count', v.char_count,
+        'reading_time_seconds', v.reading_time_seconds,
+        'internal_approved_by', case when v.internal_approved_by is null then null else
+          jsonb_build_object(
+            'id', v.internal_approved_by,
+            'name', (select full_name from public.users where id = v.internal_approved_by)
+          )
+        end,
+        'internal_approved_at', v.internal_approved_at,
+        'model_used', v.model_used,
+        'generation_params', v.generation_params,
+        'findings', coalesce(fpv.findings, '[]'::jsonb)
+      ) order by v.variant_index
+    ), '[]'::jsonb)
+  ) into v_result
+  from variants v
+  left join findings_per_variant fpv on fpv.variant_id = v.id;
+
+  return v_result;
+end;
+$$;
+
+revoke all on function public._build_audit_snapshot(uuid) from public;
+grant execute on function public._build_audit_snapshot(uuid) to authenticated;
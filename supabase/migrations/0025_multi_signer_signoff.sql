@@ -0,0 +1,671 @@
+-- ============================================================
+-- ClearPress AI — Multi-signer sign-off for audit reports
+--
+-- WHAT
+-- ----
+-- PRD §5.3 asks for dual / triple sign-off. audit_signatures always
+-- allowed several rows per report, but finalize_audit_report flipped the
+-- report to 'finalized' on the first one.
+--
+--   signoff_policies               — the sign-off roles a report needs, in
+--                                    signing order. One firm-wide row
+--                                    (client_id null) plus optional
+--                                    per-client overrides. Seeded with
+--                                    {reviewer}, i.e. today's behaviour.
+--   audit_reports.status           — + 'partially_signed': at least one
+--                                    role has signed, not all of them.
+--   audit_reports.signoff_roles    — the policy as it stood when the
+--                                    current round of signatures began.
+--   audit_signatures.signoff_role  — the slot the signature fills.
+--   audit_signatures.invalidated_* — set when the content changed after
+--                                    the signature; an invalidated
+--                                    signature no longer counts.
+--
+--   _signoff_roles_for_project     — client override, else firm policy.
+--   set_signoff_policy (DEFINER)   — saves the firm policy or a client
+--                                    override; null roles clear an override.
+--   audit_report_signoff (DEFINER) — slots for the sign dialog and the
+--                                    report page: roles, the active
+--                                    signatures, the next role to sign, and
+--                                    whether the content changed since
+--                                    they were made.
+--   finalize_audit_report          — records one signature per call, for the
+--                                    next pending role. Finalizes only when
+--                                    every role has signed.
+--
+-- Every signature is an HMAC over a canonical payload carrying the same
+-- report_snapshot (plus its own signer and role). If the snapshot built at
+-- signing time differs from the one the earlier signatures cover — any edit
+-- in between — those signatures are invalidated (`signatures_invalidated`
+-- event) and the round starts again with the current signer. A signer can
+-- hold only one active slot per report.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0025 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Policies
+-- ------------------------------------------------------------
+create table public.signoff_policies (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid unique references public.clients(id) on delete cascade,
+  roles text[] not null
+    check (cardinality(roles) >= 1
+           and roles <@ array['reviewer', 'compliance_officer', 'legal_counsel']),
+  updated_by uuid references public.users(id),
+  updated_at timestamptz not null default now()
+);
+
+-- One firm-wide row.
+create unique index signoff_policies_firm_key
+  on public.signoff_policies ((client_id is null))
+  where client_id is null;
+
+alter table public.signoff_policies enable row level security;
+
+create policy firm_users_read_access on public.signoff_policies
+  for select using (auth.role() = 'authenticated');
+
+insert into public.signoff_policies (client_id, roles)
+values (null, array['reviewer']);
+
+-- ------------------------------------------------------------
+-- 2. Reports and signatures
+-- ------------------------------------------------------------
+alter table public.audit_reports
+  drop constraint audit_reports_status_check;
+alter table public.audit_reports
+  add constraint audit_reports_status_check
+  check (status in ('draft', 'partially_signed', 'finalized', 'revised'));
+
+alter table public.audit_reports
+  add column signoff_roles text[];
+
+-- Everything signed so far was a single-signature sign-off. The default
+-- fills existing rows without an UPDATE, which audit_signatures' append-only
+-- trigger (0013) would refuse.
+alter table public.audit_signatures
+  add column signoff_role text not null default 'reviewer'
+    check (signoff_role in ('reviewer', 'compliance_officer', 'legal_counsel')),
+  add column invalidated_at timestamptz,
+  add column invalidated_reason text;
+
+-- New rows must name their slot.
+alter table public.audit_signatures alter column signoff_role drop default;
+
+update public.audit_reports
+   set signoff_roles = array['reviewer']
+ where status in ('finalized', 'revised');
+
+create unique index audit_signatures_active_role_key
+  on public.audit_signatures (audit_report_id, signoff_role)
+  where invalidated_at is null;
+create unique index audit_signatures_active_signer_key
+  on public.audit_signatures (audit_report_id, signer_id)
+  where invalidated_at is null;
+
+alter table public.audit_trail_events
+  drop constraint audit_trail_events_event_type_check;
+alter table public.audit_trail_events
+  add constraint audit_trail_events_event_type_check
+  check (event_type in (
+    'variant_generated', 'compliance_checked', 'manual_review_started',
+    'fix_applied', 'compliance_rechecked', 'sign_off',
+    'delivery_sent', 'feedback_received', 'voice_updated',
+    'audit_report_created', 'audit_revision_started',
+    'variant_approved', 'acknowledge_finding',
+    'feedback_reminder_sent', 'feedback_expired',
+    'manual_finding_added', 'signatures_invalidated'
+  ));
+
+-- ------------------------------------------------------------
+-- 3. Policy resolution + RPC: set_signoff_policy
+-- ------------------------------------------------------------
+create or replace function public._signoff_roles_for_project(p_project_id uuid)
+returns text[]
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select coalesce(
+    (select sp.roles
+       from public.signoff_policies sp
+       join public.projects p on p.client_id = sp.client_id
+      where p.id = p_project_id),
+    (select roles from public.signoff_policies where client_id is null),
+    array['reviewer']
+  );
+$$;
+
+revoke all on function public._signoff_roles_for_project(uuid) from public;
+grant execute on function public._signoff_roles_for_project(uuid) to authenticated;
+
+-- p_client_id null = the firm policy. p_roles null on a client clears the
+-- override. Roles are stored in signing order; duplicates are rejected.
+create or replace function public.set_signoff_policy(
+  p_client_id uuid,
+  p_roles text[]
+) returns public.signoff_policies
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_policy public.signoff_policies;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  if p_roles is null then
+    if p_client_id is null then
+      raise exception using errcode = 'P0004', message = 'firm_policy_required';
+    end if;
+    delete from public.signoff_policies where client_id = p_client_id
+      returning * into v_policy;
+    return v_policy;
+  end if;
+
+  if cardinality(p_roles) < 1
+     or not (p_roles <@ array['reviewer', 'compliance_officer', 'legal_counsel'])
+     or cardinality(p_roles) <> (select count(distinct r) from unnest(p_roles) r) then
+    raise exception using errcode = 'P0004', message = 'invalid_signoff_roles';
+  end if;
+
+  if p_client_id is null then
+    update public.signoff_policies
+       set roles = p_roles, updated_by = v_actor, updated_at = now()
+     where client_id is null
+    returning * into v_policy;
+  else
+    insert into public.signoff_policies (client_id, roles, updated_by)
+    values (p_client_id, p_roles, v_actor)
+    on conflict (client_id) do update
+      set roles = excluded.roles,
+          updated_by = excluded.updated_by,
+          updated_at = now()
+    returning * into v_policy;
+  end if;
+
+  return v_policy;
+end;
+$$;
+
+revoke all on function public.set_signoff_policy(uuid, text[]) from public, anon;
+grant execute on function public.set_signoff_policy(uuid, text[]) to authenticated;
+
+-- ------------------------------------------------------------
+-- 4. RPC: audit_report_signoff
+-- ------------------------------------------------------------
+-- { status, roles, next_role, content_changed, signatures: [{ id,
+-- signoff_role, signer_id, signer_name_snapshot, signed_at }] }.
+--
+-- For a report still being signed, content_changed means the snapshot no
+-- longer matches the active signatures: they will be invalidated by the
+-- next signature, so roles / next_role describe the round that signature
+-- starts. sign-audit-report reads next_role from here before building the
+-- canonical payload; finalize_audit_report re-derives it.
+create or replace function public.audit_report_signoff(p_audit_report_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+stable
+as $$
+declare
+  v_report public.audit_reports;
+  v_snapshot jsonb;
+  v_roles text[];
+  v_changed boolean := false;
+  v_signed text[];
+  v_signatures jsonb;
+begin
+  select * into v_report from public.audit_reports
+    where id = p_audit_report_id;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'report_not_found';
+  end if;
+
+  if v_report.status in ('draft', 'partially_signed') then
+    v_snapshot := public._build_audit_snapshot(v_report.project_id);
+    select exists (
+      select 1 from public.audit_signatures s
+       where s.audit_report_id = v_report.id
+         and s.invalidated_at is null
+         and s.canonical_payload->'report_snapshot' <> v_snapshot
+    ) into v_changed;
+  end if;
+
+  select coalesce(jsonb_agg(
+           jsonb_build_object(
+             'id', s.id,
+             'signoff_role', s.signoff_role,
+             'signer_id', s.signer_id,
+             'signer_name_snapshot', s.signer_name_snapshot,
+             'signed_at', s.signed_at
+           ) order by s.signed_at), '[]'::jsonb),
+         coalesce(array_agg(s.signoff_role), '{}')
+    into v_signatures, v_signed
+    from public.audit_signatures s
+   where s.audit_report_id = v_report.id
+     and s.invalidated_at is null;
+
+  if v_changed or cardinality(v_signed) = 0 then
+    v_roles := coalesce(
+      case when v_report.status in ('finalized', 'revised')
+           then v_report.signoff_roles end,
+      public._signoff_roles_for_project(v_report.project_id)
+    );
+    if v_changed then
+      v_signed := '{}';
+    end if;
+  else
+    v_roles := v_report.signoff_roles;
+  end if;
+
+  return jsonb_build_object(
+    'status', v_report.status,
+    'roles', to_jsonb(v_roles),
+    'next_role', case when v_report.status in ('draft', 'partially_signed')
+                      then (select r from unnest(v_roles) with ordinality u(r, i)
+                             where not (r = any (v_signed))
+                             order by i limit 1)
+                 end,
+    'content_changed', v_changed,
+    'signatures', v_signatures
+  );
+end;
+$$;
+
+revoke all on function public.audit_report_signoff(uuid) from public, anon;
+grant execute on function public.audit_report_signoff(uuid) to authenticated;
+
+-- ------------------------------------------------------------
+-- 5. RPC: finalize_audit_report (one signature per call)
+-- ------------------------------------------------------------
+-- Same signature and I3 gates as 0007. p_canonical_payload now carries
+-- `signoff_role`, which must be the next pending role.
+create or replace function public.finalize_audit_report(
+  p_audit_report_id uuid,
+  p_signature_hash text,
+  p_canonical_payload jsonb
+) returns public.audit_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_actor_role text;
+  v_report public.audit_reports;
+  v_snapshot jsonb;
+  v_payload_signer text;
+  v_role text := p_canonical_payload->>'signoff_role';
+  v_next_role text;
+  v_invalidated_count int;
+  v_remaining int;
+  v_approved_count int;
+  v_unresolved_blocker_count int;
+  v_stale_count int;
+  v_compliance_unchecked_count int;
+  v_signature_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_report from public.audit_reports
+    where id = p_audit_report_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'report_not_found';
+  end if;
+
+  if v_report.status not in ('draft', 'partially_signed') then
+    raise exception using errcode = 'P0004', message = 'report_not_signable';
+  end if;
+
+  v_payload_signer := p_canonical_payload->>'signer_id';
+  if v_payload_signer is null or v_payload_signer::uuid <> v_actor then
+    raise exception using errcode = 'P0004', message = 'signer_mismatch';
+  end if;
+
+  perform 1
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+   for update;
+
+  select count(*) into v_approved_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id and cv.internal_approved = true;
+  if v_approved_count < 1 then
+    raise exception using errcode = 'P0004', message = 'no_approved_variants';
+  end if;
+
+  select count(*) into v_unresolved_blocker_count
+    from public.compliance_findings cf
+    join public.content_variants cv on cv.id = cf.variant_id
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and cf.severity = 'blocker'
+     and cf.resolution_status = 'unresolved';
+  if v_unresolved_blocker_count > 0 then
+    raise exception using errcode = 'P0004', message = 'unresolved_blockers_exist';
+  end if;
+
+  select count(*) into v_stale_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and coalesce(
+       (select max(ate.occurred_at) from public.audit_trail_events ate
+         where ate.event_type in ('compliance_checked', 'compliance_rechecked')
+           and (ate.details->>'variant_id')::uuid = cv.id),
+       'epoch'::timestamptz
+     ) < cv.updated_at;
+  if v_stale_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_stale';
+  end if;
+
+  select count(*) into v_compliance_unchecked_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and not exists (
+       select 1 from public.audit_trail_events ate
+        where ate.project_id = v_report.project_id
+          and ate.event_type in ('compliance_checked', 'compliance_rechecked')
+          and (ate.details->>'variant_id')::uuid = cv.id
+     );
+  if v_compliance_unchecked_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_not_run';
+  end if;
+
+  v_snapshot := public._build_audit_snapshot(v_report.project_id);
+  if (p_canonical_payload->'report_snapshot') is null
+     or (p_canonical_payload->'report_snapshot') <> v_snapshot then
+    raise exception using errcode = 'P0004', message = 'snapshot_mismatch';
+  end if;
+
+  select full_name, role into v_actor_name, v_actor_role
+    from public.users where id = v_actor;
+
+  -- Signatures over an earlier snapshot no longer cover this content.
+  with invalidated as (
+    update public.audit_signatures
+       set invalidated_at = now(),
+           invalidated_reason = 'content_changed'
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and canonical_payload->'report_snapshot' <> v_snapshot
+    returning id
+  )
+  select count(*) into v_invalidated_count from invalidated;
+
+  if v_invalidated_count > 0 then
+    insert into public.audit_trail_events
+      (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+    values (
+      v_report.project_id, v_report.id, 'signatures_invalidated', 'user',
+      v_actor, v_actor_name,
+      jsonb_build_object(
+        'invalidated_count', v_invalidated_count,
+        'reason', 'content_changed'
+      )
+    );
+  end if;
+
+  -- A new round takes the policy as it stands now.
+  if not exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  ) then
+    v_report.signoff_roles :=
+      public._signoff_roles_for_project(v_report.project_id);
+  end if;
+
+  if exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and signer_id = v_actor
+  ) then
+    raise exception using errcode = 'P0004', message = 'signer_already_signed';
+  end if;
+
+  select r into v_next_role
+    from unnest(v_report.signoff_roles) with ordinality u(r, i)
+   where not exists (
+     select 1 from public.audit_signatures s
+      where s.audit_report_id = v_report.id
+        and s.invalidated_at is null
+        and s.signoff_role = u.r
+   )
+   order by i
+   limit 1;
+  if v_role is null or v_role is distinct from v_next_role then
+    raise exception using errcode = 'P0004', message = 'signoff_role_mismatch';
+  end if;
+
+  insert into public.audit_signatures
+    (audit_report_id, signer_id, signer_name_snapshot, signer_role_snapshot,
+     signature_hash, canonical_payload, signoff_role)
+  values
+    (v_report.id, v_actor, v_actor_name, v_actor_role,
+     p_signature_hash, p_canonical_payload, v_role)
+  returning id into v_signature_id;
+
+  v_remaining := cardinality(v_report.signoff_roles) - (
+    select count(*) from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  );
+
+  if v_remaining > 0 then
+    update public.audit_reports
+       set status = 'partially_signed',
+           signoff_roles = v_report.signoff_roles
+     where id = p_audit_report_id
+     returning * into v_report;
+  else
+    update public.audit_reports
+       set status = 'finalized',
+           signoff_roles = v_report.signoff_roles,
+           finalized_at = now(),
+           report_snapshot = v_snapshot
+     where id = p_audit_report_id
+     returning * into v_report;
+
+    if v_report.previous_version_id is not null then
+      update public.audit_reports
+         set status = 'revised'
+       where id = v_report.previous_version_id;
+    end if;
+  end if;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_report.project_id, v_report.id, 'sign_off', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'signature_id', v_signature_id,
+      'signature_hash', p_signature_hash,
+      'signoff_role', v_role,
+      'signatures_remaining', v_remaining,
+      'version_major', v_report.version_major,
+      'version_minor', v_report.version_minor,
+      'predecessor_id', v_report.previous_version_id
+    )
+  );
+
+  return v_report;
+end;
+$$;
+
+grant execute on function public.finalize_audit_report(uuid, text, jsonb) to authenticated;
+
+-- ------------------------------------------------------------
+-- 6. assemble / revise: a partially signed report is still in progress
+-- ------------------------------------------------------------
+-- Unchanged from 0005 apart from the in-progress status check.
+create or replace function public.assemble_audit_report(p_project_id uuid)
+returns public.audit_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_report public.audit_reports;
+  v_snapshot jsonb;
+  v_display text;
+  v_approved_count int;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  perform 1 from public.audit_reports where project_id = p_project_id for update;
+
+  if exists (
+    select 1 from public.audit_reports
+     where project_id = p_project_id
+       and status in ('draft', 'partially_signed')
+  ) then
+    raise exception using errcode = 'P0004', message = 'draft_report_already_exists';
+  end if;
+
+  select count(*) into v_approved_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = p_project_id and cv.internal_approved = true;
+  if v_approved_count < 1 then
+    raise exception using errcode = 'P0004', message = 'no_approved_variants';
+  end if;
+
+  v_snapshot := public._build_audit_snapshot(p_project_id);
+
+  v_display := 'AUD-'
+    || to_char(now() at time zone 'Asia/Tokyo', 'YYYY-MM-DD')
+    || '-'
+    || lpad(nextval('public.audit_report_display_seq')::text, 6, '0');
+
+  insert into public.audit_reports
+    (project_id, report_id_display, version_major, version_minor,
+     previous_version_id, status, created_by, assembled_snapshot)
+  values
+    (p_project_id, v_display, 1, 0, null, 'draft', v_actor, v_snapshot)
+  returning * into v_report;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    p_project_id, v_report.id, 'audit_report_created', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'report_id_display', v_display,
+      'version_major', 1,
+      'version_minor', 0,
+      'approved_variant_count', v_approved_count
+    )
+  );
+
+  return v_report;
+end;
+$$;
+
+grant execute on function public.assemble_audit_report(uuid) to authenticated;
+
+create or replace function public.revise_audit_report(
+  p_audit_report_id uuid,
+  p_comment text
+) returns public.audit_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_source public.audit_reports;
+  v_new public.audit_reports;
+  v_display text;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_source from public.audit_reports
+    where id = p_audit_report_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'report_not_found';
+  end if;
+  if v_source.status <> 'finalized' then
+    raise exception using errcode = 'P0004', message = 'source_not_finalized';
+  end if;
+
+  perform 1 from public.audit_reports
+    where project_id = v_source.project_id for update;
+
+  if exists (
+    select 1 from public.audit_reports
+     where previous_version_id = p_audit_report_id
+  ) then
+    raise exception using errcode = 'P0004', message = 'not_head_of_chain';
+  end if;
+
+  if exists (
+    select 1 from public.audit_reports
+     where project_id = v_source.project_id
+       and status in ('draft', 'partially_signed')
+  ) then
+    raise exception using errcode = 'P0004', message = 'draft_report_already_exists';
+  end if;
+
+  v_display := 'AUD-'
+    || to_char(now() at time zone 'Asia/Tokyo', 'YYYY-MM-DD')
+    || '-'
+    || lpad(nextval('public.audit_report_display_seq')::text, 6, '0');
+
+  insert into public.audit_reports
+    (project_id, report_id_display, version_major, version_minor,
+     previous_version_id, status, reviewer_comments, created_by, assembled_snapshot)
+  values
+    (v_source.project_id, v_display,
+     v_source.version_major, v_source.version_minor + 1,
+     v_source.id, 'draft', p_comment, v_actor,
+     public._build_audit_snapshot(v_source.project_id))
+  returning * into v_new;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_new.project_id, v_new.id, 'audit_revision_started', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'source_report_id', v_source.id,
+      'source_version', v_source.version,
+      'new_report_id_display', v_display,
+      'new_version_major', v_new.version_major,
+      'new_version_minor', v_new.version_minor,
+      'comment', p_comment
+    )
+  );
+
+  return v_new;
+end;
+$$;
+
+grant execute on function public.revise_audit_report(uuid, text) to authenticated;
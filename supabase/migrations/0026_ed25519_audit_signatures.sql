@@ -0,0 +1,328 @@
+-- ============================================================
+-- ClearPress AI — Ed25519 audit signatures with published keys
+--
+-- WHAT
+-- ----
+-- Audit signatures were HMAC-SHA-256 under AUDIT_SIGNING_SECRET, so only
+-- verify-audit-signature (which holds the secret) could check one. New
+-- signatures are Ed25519: the private key stays in the Edge Function
+-- secrets, the public half is published, and anyone holding the public
+-- key set can verify a signature against its stored canonical_payload.
+--
+--   audit_signing_keys             — the published public keys, one row
+--                                    per key ID. Readable without signing
+--                                    in (also served as a JWK set by the
+--                                    audit-signing-keys Edge Function).
+--                                    retired_at stops a key signing; its
+--                                    old signatures stay verifiable.
+--   audit_signatures.algorithm     — 'ed25519', or 'hmac-sha256' for every
+--                                    signature made before this migration
+--                                    (legacy: still verifiable, but only
+--                                    server-side).
+--   audit_signatures.key_id        — the signing key; null for legacy rows.
+--   finalize_audit_report          — requires canonical_payload.key_id to
+--                                    name a published, unretired key, and
+--                                    stores algorithm + key_id. The key ID
+--                                    is inside the signed payload, so it
+--                                    can't be swapped afterwards.
+--
+-- signature_hash keeps its name: for Ed25519 rows it holds the 64-byte
+-- signature, hex-encoded, over canonicalize(canonical_payload).
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- 1. Generate a key pair (prints a private JWK; keep it out of the repo):
+--      node -e 'crypto.subtle.generateKey({name:"Ed25519"},true,["sign"]).then(k=>crypto.subtle.exportKey("jwk",k.privateKey)).then(j=>console.log(JSON.stringify(j)))'
+-- 2. Pick a key ID (e.g. audit-2026-10) and set the Edge Function secrets
+--      AUDIT_SIGNING_KEY_ID=<key id>
+--      AUDIT_SIGNING_PRIVATE_JWK=<the printed JWK>
+-- 3. Paste this file into the Supabase dashboard SQL editor, then publish
+--    the public half (the JWK's "x"):
+--      insert into public.audit_signing_keys (key_id, public_key)
+--      values ('<key id>', '<x>');
+--    and run
+--      npx supabase migration repair --status applied 0026 --linked
+-- 4. Deploy sign-audit-report, verify-audit-signature and
+--    audit-signing-keys. Until step 3 is done signing fails with
+--    signing_key_unavailable rather than producing unverifiable signatures.
+--
+-- ROTATING
+-- --------
+-- Publish the new key (step 3 insert), switch the two secrets to it, then
+--   update public.audit_signing_keys set retired_at = now()
+--    where key_id = '<old key id>';
+-- Never delete a key row: signatures reference it.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Published keys
+-- ------------------------------------------------------------
+create table public.audit_signing_keys (
+  key_id text primary key,
+  algorithm text not null default 'ed25519' check (algorithm = 'ed25519'),
+  -- Raw 32-byte public key, base64url (the JWK "x" member).
+  public_key text not null unique,
+  created_at timestamptz not null default now(),
+  retired_at timestamptz
+);
+
+alter table public.audit_signing_keys enable row level security;
+
+-- Public by design: verifying must not depend on an account with us.
+create policy public_read_access on public.audit_signing_keys
+  for select using (true);
+grant select on public.audit_signing_keys to anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 2. Signatures
+-- ------------------------------------------------------------
+alter table public.audit_signatures
+  add column algorithm text not null default 'hmac-sha256'
+    check (algorithm in ('hmac-sha256', 'ed25519')),
+  add column key_id text references public.audit_signing_keys(key_id);
+
+-- Existing rows took the default above; new rows must say what they are.
+alter table public.audit_signatures alter column algorithm drop default;
+
+alter table public.audit_signatures
+  add constraint audit_signatures_key_check
+  check ((algorithm = 'ed25519') = (key_id is not null));
+
+-- ------------------------------------------------------------
+-- 3. RPC: finalize_audit_report (Ed25519 only)
+-- ------------------------------------------------------------
+-- Unchanged from 0025 apart from the signing-key check and the two new
+-- columns. p_signature_hash is the hex Ed25519 signature.
+create or replace function public.finalize_audit_report(
+  p_audit_report_id uuid,
+  p_signature_hash text,
+  p_canonical_payload jsonb
+) returns public.audit_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_actor_role text;
+  v_report public.audit_reports;
+  v_snapshot jsonb;
+  v_payload_signer text;
+  v_role text := p_canonical_payload->>'signoff_role';
+  v_key_id text := p_canonical_payload->>'key_id';
+  v_next_role text;
+  v_invalidated_count int;
+  v_remaining int;
+  v_approved_count int;
+  v_unresolved_blocker_count int;
+  v_stale_count int;
+  v_compliance_unchecked_count int;
+  v_signature_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_report from public.audit_reports
+    where id = p_audit_report_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'report_not_found';
+  end if;
+
+  if v_report.status not in ('draft', 'partially_signed') then
+    raise exception using errcode = 'P0004', message = 'report_not_signable';
+  end if;
+
+  -- Only a published, unretired key may sign; otherwise nobody outside
+  -- could verify the signature.
+  if v_key_id is null or not exists (
+    select 1 from public.audit_signing_keys
+     where key_id = v_key_id and retired_at is null
+  ) then
+    raise exception using errcode = 'P0004', message = 'signing_key_unavailable';
+  end if;
+
+  v_payload_signer := p_canonical_payload->>'signer_id';
+  if v_payload_signer is null or v_payload_signer::uuid <> v_actor then
+    raise exception using errcode = 'P0004', message = 'signer_mismatch';
+  end if;
+
+  perform 1
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+   for update;
+
+  select count(*) into v_approved_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id and cv.internal_approved = true;
+  if v_approved_count < 1 then
+    raise exception using errcode = 'P0004', message = 'no_approved_variants';
+  end if;
+
+  select count(*) into v_unresolved_blocker_count
+    from public.compliance_findings cf
+    join public.content_variants cv on cv.id = cf.variant_id
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and cf.severity = 'blocker'
+     and cf.resolution_status = 'unresolved';
+  if v_unresolved_blocker_count > 0 then
+    raise exception using errcode = 'P0004', message = 'unresolved_blockers_exist';
+  end if;
+
+  select count(*) into v_stale_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and coalesce(
+       (select max(ate.occurred_at) from public.audit_trail_events ate
+         where ate.event_type in ('compliance_checked', 'compliance_rechecked')
+           and (ate.details->>'variant_id')::uuid = cv.id),
+       'epoch'::timestamptz
+     ) < cv.updated_at;
+  if v_stale_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_stale';
+  end if;
+
+  select count(*) into v_compliance_unchecked_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and not exists (
+       select 1 from public.audit_trail_events ate
+        where ate.project_id = v_report.project_id
+          and ate.event_type in ('compliance_checked', 'compliance_rechecked')
+          and (ate.details->>'variant_id')::uuid = cv.id
+     );
+  if v_compliance_unchecked_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_not_run';
+  end if;
+
+  v_snapshot := public._build_audit_snapshot(v_report.project_id);
+  if (p_canonical_payload->'report_snapshot') is null
+     or (p_canonical_payload->'report_snapshot') <> v_snapshot then
+    raise exception using errcode = 'P0004', message = 'snapshot_mismatch';
+  end if;
+
+  select full_name, role into v_actor_name, v_actor_role
+    from public.users where id = v_actor;
+
+  -- Signatures over an earlier snapshot no longer cover this content.
+  with invalidated as (
+    update public.audit_signatures
+       set invalidated_at = now(),
+           invalidated_reason = 'content_changed'
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and canonical_payload->'report_snapshot' <> v_snapshot
+    returning id
+  )
+  select count(*) into v_invalidated_count from invalidated;
+
+  if v_invalidated_count > 0 then
+    insert into public.audit_trail_events
+      (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+    values (
+      v_report.project_id, v_report.id, 'signatures_invalidated', 'user',
+      v_actor, v_actor_name,
+      jsonb_build_object(
+        'invalidated_count', v_invalidated_count,
+        'reason', 'content_changed'
+      )
+    );
+  end if;
+
+  -- A new round takes the policy as it stands now.
+  if not exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  ) then
+    v_report.signoff_roles :=
+      public._signoff_roles_for_project(v_report.project_id);
+  end if;
+
+  if exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and signer_id = v_actor
+  ) then
+    raise exception using errcode = 'P0004', message = 'signer_already_signed';
+  end if;
+
+  select r into v_next_role
+    from unnest(v_report.signoff_roles) with ordinality u(r, i)
+   where not exists (
+     select 1 from public.audit_signatures s
+      where s.audit_report_id = v_report.id
+        and s.invalidated_at is null
+        and s.signoff_role = u.r
+   )
+   order by i
+   limit 1;
+  if v_role is null or v_role is distinct from v_next_role then
+    raise exception using errcode = 'P0004', message = 'signoff_role_mismatch';
+  end if;
+
+  insert into public.audit_signatures
+    (audit_report_id, signer_id, signer_name_snapshot, signer_role_snapshot,
+     signature_hash, canonical_payload, signoff_role, algorithm, key_id)
+  values
+    (v_report.id, v_actor, v_actor_name, v_actor_role,
+     p_signature_hash, p_canonical_payload, v_role, 'ed25519', v_key_id)
+  returning id into v_signature_id;
+
+  v_remaining := cardinality(v_report.signoff_roles) - (
+    select count(*) from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  );
+
+  if v_remaining > 0 then
+    update public.audit_reports
+       set status = 'partially_signed',
+           signoff_roles = v_report.signoff_roles
+     where id = p_audit_report_id
+     returning * into v_report;
+  else
+    update public.audit_reports
+       set status = 'finalized',
+           signoff_roles = v_report.signoff_roles,
+           finalized_at = now(),
+           report_snapshot = v_snapshot
+     where id = p_audit_report_id
+     returning * into v_report;
+
+    if v_report.previous_version_id is not null then
+      update public.audit_reports
+         set status = 'revised'
+       where id = v_report.previous_version_id;
+    end if;
+  end if;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_report.project_id, v_report.id, 'sign_off', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'signature_id', v_signature_id,
+      'signature_hash', p_signature_hash,
+      'key_id', v_key_id,
+      'signoff_role', v_role,
+      'signatures_remaining', v_remaining,
+      'version_major', v_report.version_major,
+      'version_minor', v_report.version_minor,
+      'predecessor_id', v_report.previous_version_id
+    )
+  );
+
+  return v_report;
+end;
+$$;
+
+grant execute on function public.finalize_audit_report(uuid, text, jsonb) to authenticated;
@@ -0,0 +1,441 @@
+-- ============================================================
+-- ClearPress AI — Hash-chained audit trail
+--
+-- WHAT
+-- ----
+-- 0013 makes audit_trail_events append-only through PostgREST, but anyone
+-- with direct database access could still edit or delete a row without
+-- leaving a mark. Each event now carries a SHA-256 hash over its own
+-- contents and the previous event's hash in the same project, so any
+-- later edit, deletion or insertion breaks the chain at that point.
+--
+--   audit_trail_events.chain_seq   — 1, 2, 3… per project, in insert order.
+--   audit_trail_events.prev_hash   — event_hash of chain_seq - 1; null for
+--                                    the first event.
+--   audit_trail_events.event_hash  — hex SHA-256 of _canonical_json() over
+--                                    the event (see _audit_event_hash).
+--   _chain_audit_event (trigger)   — fills the three columns BEFORE INSERT,
+--                                    so every writer (regenerate_variant,
+--                                    record_compliance_check, apply_fix,
+--                                    mark_delivery_sent_*, submit_feedback,
+--                                    finalize_audit_report, Edge Function
+--                                    inserts…) chains its event inside its
+--                                    own transaction. Client-supplied values
+--                                    are overwritten. A per-project advisory
+--                                    lock serializes concurrent writers.
+--   finalize_audit_report          — canonical_payload.audit_trail_head
+--                                    ({chain_seq, event_hash}) must name an
+--                                    event in the project's chain, so every
+--                                    signature commits to the trail as it
+--                                    stood when it was made.
+--
+-- Existing events are chained in (occurred_at, id) order by this
+-- migration. The chain proves nothing about them before today, only that
+-- they have not changed since.
+--
+-- The hash input must be reproducible outside the database
+-- (src/lib/audit-chain.ts). _canonical_json matches canonicalize(): keys
+-- sorted, no whitespace, JSON.stringify string escaping. Numbers print as
+-- plain decimals with trailing zeros trimmed, which is what JSON.stringify
+-- prints for every number the app records (counts, versions, scores).
+-- occurred_at hashes as UTC with microseconds, e.g.
+-- "2026-10-19T07:30:00.123456Z".
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0027 --linked
+-- Deploy sign-audit-report afterwards; until then signing fails with
+-- audit_trail_head_unknown.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Canonical JSON
+-- ------------------------------------------------------------
+create or replace function public._canonical_json(p_value jsonb)
+returns text
+language plpgsql
+immutable
+set search_path = public
+as $$
+begin
+  case jsonb_typeof(p_value)
+    when 'object' then
+      return '{' || coalesce((
+        select string_agg(
+          to_json(key)::text || ':' || public._canonical_json(value),
+          ',' order by key collate "C")
+          from jsonb_each(p_value)
+      ), '') || '}';
+    when 'array' then
+      return '[' || coalesce((
+        select string_agg(public._canonical_json(value), ',' order by n)
+          from jsonb_array_elements(p_value) with ordinality e(value, n)
+      ), '') || ']';
+    when 'number' then
+      return trim_scale((p_value #>> '{}')::numeric)::text;
+    else
+      -- string, boolean, null: jsonb already prints these as JSON.stringify does.
+      return p_value::text;
+  end case;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 2. Chain columns, event hash, backfill
+-- ------------------------------------------------------------
+alter table public.audit_trail_events
+  add column chain_seq bigint,
+  add column prev_hash text,
+  add column event_hash text;
+
+create or replace function public._audit_event_hash(
+  p_event public.audit_trail_events
+) returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select encode(sha256(convert_to(public._canonical_json(jsonb_build_object(
+    'actor_id', p_event.actor_id,
+    'actor_name_snapshot', p_event.actor_name_snapshot,
+    'actor_type', p_event.actor_type,
+    'audit_report_id', p_event.audit_report_id,
+    'chain_seq', p_event.chain_seq,
+    'details', p_event.details,
+    'event_type', p_event.event_type,
+    'id', p_event.id,
+    'model_used', p_event.model_used,
+    'occurred_at', to_char(p_event.occurred_at at time zone 'UTC',
+                           'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    'prev_hash', p_event.prev_hash,
+    'project_id', p_event.project_id
+  )), 'UTF8')), 'hex');
+$$;
+
+-- The backfill is the one sanctioned UPDATE of this table.
+alter table public.audit_trail_events
+  disable trigger trg_audit_trail_events_append_only;
+
+do $$
+declare
+  v_event public.audit_trail_events;
+  v_project uuid;
+  v_seq bigint;
+  v_prev text;
+begin
+  for v_event in
+    select * from public.audit_trail_events
+     order by project_id, occurred_at, id
+  loop
+    if v_project is distinct from v_event.project_id then
+      v_project := v_event.project_id;
+      v_seq := 0;
+      v_prev := null;
+    end if;
+    v_seq := v_seq + 1;
+    v_event.chain_seq := v_seq;
+    v_event.prev_hash := v_prev;
+    v_event.event_hash := public._audit_event_hash(v_event);
+    update public.audit_trail_events
+       set chain_seq = v_event.chain_seq,
+           prev_hash = v_event.prev_hash,
+           event_hash = v_event.event_hash
+     where id = v_event.id;
+    v_prev := v_event.event_hash;
+  end loop;
+end;
+$$;
+
+alter table public.audit_trail_events
+  enable trigger trg_audit_trail_events_append_only;
+
+alter table public.audit_trail_events
+  alter column chain_seq set not null,
+  alter column event_hash set not null,
+  add constraint audit_trail_events_chain_seq_key unique (project_id, chain_seq),
+  add constraint audit_trail_events_prev_hash_check
+    check ((chain_seq = 1) = (prev_hash is null));
+
+-- ------------------------------------------------------------
+-- 3. Chain every new event
+-- ------------------------------------------------------------
+-- DEFINER: the previous event must be found even when the inserting role's
+-- RLS would hide it.
+create or replace function public._chain_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform pg_advisory_xact_lock(
+    hashtext('audit_trail_events:' || new.project_id::text));
+
+  select chain_seq + 1, event_hash into new.chain_seq, new.prev_hash
+    from public.audit_trail_events
+   where project_id = new.project_id
+   order by chain_seq desc
+   limit 1;
+  if not found then
+    new.chain_seq := 1;
+    new.prev_hash := null;
+  end if;
+
+  new.event_hash := public._audit_event_hash(new);
+  return new;
+end;
+$$;
+
+create trigger trg_audit_trail_events_chain
+  before insert on public.audit_trail_events
+  for each row execute function public._chain_audit_event();
+
+-- ------------------------------------------------------------
+-- 4. RPC: finalize_audit_report (commits to the trail head)
+-- ------------------------------------------------------------
+-- Unchanged from 0026 apart from the audit_trail_head check. The head is
+-- read by sign-audit-report before signing; any event in the chain is
+-- accepted, since others may be appended between that read and this call.
+create or replace function public.finalize_audit_report(
+  p_audit_report_id uuid,
+  p_signature_hash text,
+  p_canonical_payload jsonb
+) returns public.audit_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_actor_role text;
+  v_report public.audit_reports;
+  v_snapshot jsonb;
+  v_payload_signer text;
+  v_role text := p_canonical_payload->>'signoff_role';
+  v_key_id text := p_canonical_payload->>'key_id';
+  v_next_role text;
+  v_invalidated_count int;
+  v_remaining int;
+  v_approved_count int;
+  v_unresolved_blocker_count int;
+  v_stale_count int;
+  v_compliance_unchecked_count int;
+  v_signature_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_report from public.audit_reports
+    where id = p_audit_report_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'report_not_found';
+  end if;
+
+  if v_report.status not in ('draft', 'partially_signed') then
+    raise exception using errcode = 'P0004', message = 'report_not_signable';
+  end if;
+
+  -- Only a published, unretired key may sign; otherwise nobody outside
+  -- could verify the signature.
+  if v_key_id is null or not exists (
+    select 1 from public.audit_signing_keys
+     where key_id = v_key_id and retired_at is null
+  ) then
+    raise exception using errcode = 'P0004', message = 'signing_key_unavailable';
+  end if;
+
+  if not exists (
+    select 1 from public.audit_trail_events
+     where project_id = v_report.project_id
+       and chain_seq = (p_canonical_payload #>> '{audit_trail_head,chain_seq}')::bigint
+       and event_hash = p_canonical_payload #>> '{audit_trail_head,event_hash}'
+  ) then
+    raise exception using errcode = 'P0004', message = 'audit_trail_head_unknown';
+  end if;
+
+  v_payload_signer := p_canonical_payload->>'signer_id';
+  if v_payload_signer is null or v_payload_signer::uuid <> v_actor then
+    raise exception using errcode = 'P0004', message = 'signer_mismatch';
+  end if;
+
+  perform 1
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+   for update;
+
+  select count(*) into v_approved_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id and cv.internal_approved = true;
+  if v_approved_count < 1 then
+    raise exception using errcode = 'P0004', message = 'no_approved_variants';
+  end if;
+
+  select count(*) into v_unresolved_blocker_count
+    from public.compliance_findings cf
+    join public.content_variants cv on cv.id = cf.variant_id
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and cf.severity = 'blocker'
+     and cf.resolution_status = 'unresolved';
+  if v_unresolved_blocker_count > 0 then
+    raise exception using errcode = 'P0004', message = 'unresolved_blockers_exist';
+  end if;
+
+  select count(*) into v_stale_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and coalesce(
+       (select max(ate.occurred_at) from public.audit_trail_events ate
+         where ate.event_type in ('compliance_checked', 'compliance_rechecked')
+           and (ate.details->>'variant_id')::uuid = cv.id),
+       'epoch'::timestamptz
+     ) < cv.updated_at;
+  if v_stale_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_stale';
+  end if;
+
+  select count(*) into v_compliance_unchecked_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and not exists (
+       select 1 from public.audit_trail_events ate
+        where ate.project_id = v_report.project_id
+          and ate.event_type in ('compliance_checked', 'compliance_rechecked')
+          and (ate.details->>'variant_id')::uuid = cv.id
+     );
+  if v_compliance_unchecked_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_not_run';
+  end if;
+
+  v_snapshot := public._build_audit_snapshot(v_report.project_id);
+  if (p_canonical_payload->'report_snapshot') is null
+     or (p_canonical_payload->'report_snapshot') <> v_snapshot then
+    raise exception using errcode = 'P0004', message = 'snapshot_mismatch';
+  end if;
+
+  select full_name, role into v_actor_name, v_actor_role
+    from public.users where id = v_actor;
+
+  -- Signatures over an earlier snapshot no longer cover this content.
+  with invalidated as (
+    update public.audit_signatures
+       set invalidated_at = now(),
+           invalidated_reason = 'content_changed'
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and canonical_payload->'report_snapshot' <> v_snapshot
+    returning id
+  )
+  select count(*) into v_invalidated_count from invalidated;
+
+  if v_invalidated_count > 0 then
+    insert into public.audit_trail_events
+      (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+    values (
+      v_report.project_id, v_report.id, 'signatures_invalidated', 'user',
+      v_actor, v_actor_name,
+      jsonb_build_object(
+        'invalidated_count', v_invalidated_count,
+        'reason', 'content_changed'
+      )
+    );
+  end if;
+
+  -- A new round takes the policy as it stands now.
+  if not exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  ) then
+    v_report.signoff_roles :=
+      public._signoff_roles_for_project(v_report.project_id);
+  end if;
+
+  if exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and signer_id = v_actor
+  ) then
+    raise exception using errcode = 'P0004', message = 'signer_already_signed';
+  end if;
+
+  select r into v_next_role
+    from unnest(v_report.signoff_roles) with ordinality u(r, i)
+   where not exists (
+     select 1 from public.audit_signatures s
+      where s.audit_report_id = v_report.id
+        and s.invalidated_at is null
+        and s.signoff_role = u.r
+   )
+   order by i
+   limit 1;
+  if v_role is null or v_role is distinct from v_next_role then
+    raise exception using errcode = 'P0004', message = 'signoff_role_mismatch';
+  end if;
+
+  insert into public.audit_signatures
+    (audit_report_id, signer_id, signer_name_snapshot, signer_role_snapshot,
+     signature_hash, canonical_payload, signoff_role, algorithm, key_id)
+  values
+    (v_report.id, v_actor, v_actor_name, v_actor_role,
+     p_signature_hash, p_canonical_payload, v_role, 'ed25519', v_key_id)
+  returning id into v_signature_id;
+
+  v_remaining := cardinality(v_report.signoff_roles) - (
+    select count(*) from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  );
+
+  if v_remaining > 0 then
+    update public.audit_reports
+       set status = 'partially_signed',
+           signoff_roles = v_report.signoff_roles
+     where id = p_audit_report_id
+     returning * into v_report;
+  else
+    update public.audit_reports
+       set status = 'finalized',
+           signoff_roles = v_report.signoff_roles,
+           finalized_at = now(),
+           report_snapshot = v_snapshot
+     where id = p_audit_report_id
+     returning * into v_report;
+
+    if v_report.previous_version_id is not null then
+      update public.audit_reports
+         set status = 'revised'
+       where id = v_report.previous_version_id;
+    end if;
+  end if;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_report.project_id, v_report.id, 'sign_off', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'signature_id', v_signature_id,
+      'signature_hash', p_signature_hash,
+      'key_id', v_key_id,
+      'signoff_role', v_role,
+      'signatures_remaining', v_remaining,
+      'version_major', v_report.version_major,
+      'version_minor', v_report.version_minor,
+      'predecessor_id', v_report.previous_version_id
+    )
+  );
+
+  return v_report;
+end;
+$$;
+
+grant execute on function public.finalize_audit_report(uuid, text, jsonb) to authenticated;
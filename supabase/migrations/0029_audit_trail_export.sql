@@ -0,0 +1,129 @@
+-- ============================================================
+-- ClearPress AI — Audit trail export
+--
+-- WHAT
+-- ----
+-- A regulator or the client's legal team asks for "every event on these
+-- projects between these dates". The export-audit-trail Edge Function
+-- answers that across projects, filtered by client, project, date range,
+-- event type and actor, as CSV, JSON Lines or a bilingual PDF
+-- (_shared/audit-export.ts). Handing the trail out is itself an auditable
+-- act, so every export is recorded:
+--
+--   audit_trail_exported (event type) — one event per project whose events
+--                                       are in the file, with the format,
+--                                       filters, event counts and the
+--                                       SHA-256 of the exact bytes returned.
+--   record_audit_trail_export         — the only writer of those events.
+--   idx_audit_trail_occurred_at       — date-range scans that are not
+--                                       scoped to one project.
+--
+-- An export that matches no events discloses nothing and writes no event:
+-- there is no project trail to put it in (project_id is not null).
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0029 --linked
+-- Deploy export-audit-trail and generate-variants afterwards.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Event type
+-- ------------------------------------------------------------
+alter table public.audit_trail_events
+  drop constraint audit_trail_events_event_type_check;
+alter table public.audit_trail_events
+  add constraint audit_trail_events_event_type_check
+  check (event_type in (
+    'variant_generated', 'compliance_checked', 'manual_review_started',
+    'fix_applied', 'compliance_rechecked', 'sign_off',
+    'delivery_sent', 'feedback_received', 'voice_updated',
+    'audit_report_created', 'audit_revision_started',
+    'variant_approved', 'acknowledge_finding',
+    'feedback_reminder_sent', 'feedback_expired',
+    'manual_finding_added', 'signatures_invalidated',
+    'report_archived', 'audit_trail_exported'
+  ));
+
+-- ------------------------------------------------------------
+-- 2. Index for cross-project date ranges
+-- idx_audit_trail_project (0001) leads with project_id.
+-- ------------------------------------------------------------
+create index if not exists idx_audit_trail_occurred_at
+  on public.audit_trail_events(occurred_at);
+
+-- ------------------------------------------------------------
+-- 3. RPC: record_audit_trail_export
+-- p_project_event_counts maps project id → number of that project's
+-- events in the file; each key gets one audit_trail_exported event.
+-- Returns the number of events written.
+-- ------------------------------------------------------------
+create or replace function public.record_audit_trail_export(
+  p_project_event_counts jsonb,
+  p_format text,
+  p_filters jsonb,
+  p_event_count int,
+  p_sha256 text,
+  p_filename text
+) returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_project_ids uuid[];
+  v_found int;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  if p_format not in ('csv', 'jsonl', 'pdf')
+     or coalesce(p_sha256, '') !~ '^[0-9a-f]{64}$'
+     or coalesce(p_event_count, -1) < 0
+     or coalesce(btrim(p_filename), '') = ''
+     or jsonb_typeof(p_project_event_counts) is distinct from 'object'
+     or jsonb_typeof(coalesce(p_filters, '{}'::jsonb)) <> 'object' then
+    raise exception using errcode = 'P0004', message = 'export_invalid';
+  end if;
+
+  select coalesce(array_agg(key::uuid), '{}')
+    into v_project_ids
+    from jsonb_object_keys(p_project_event_counts) as key;
+  if cardinality(v_project_ids) = 0 then
+    return 0;
+  end if;
+
+  select count(*) into v_found from public.projects where id = any(v_project_ids);
+  if v_found <> cardinality(v_project_ids) then
+    raise exception using errcode = 'P0004', message = 'project_not_found';
+  end if;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  select
+    p.id, null, 'audit_trail_exported', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'format', p_format,
+      'filters', coalesce(p_filters, '{}'::jsonb),
+      'event_count', p_event_count,
+      'project_event_count', (p_project_event_counts ->> p.id::text)::int,
+      'project_count', cardinality(v_project_ids),
+      'sha256', p_sha256,
+      'filename', p_filename
+    )
+  from public.projects p
+  where p.id = any(v_project_ids)
+  order by p.id;
+
+  return cardinality(v_project_ids);
+end;
+$$;
+
+revoke all on function public.record_audit_trail_export(jsonb, text, jsonb, int, text, text) from public, anon;
+grant execute on function public.record_audit_trail_export(jsonb, text, jsonb, int, text, text) to authenticated;
@@ -0,0 +1,741 @@
+-- ============================================================
+-- ClearPress AI — Structured variant documents
+--
+-- WHAT
+-- ----
+-- Variant bodies have been plain text split on blank lines. generate-variants
+-- now asks the model for a structured document — title, subtitle, dateline,
+-- lead, body sections, quotes with attribution, data tables, the boilerplate
+-- "about" block and the media contact (_shared/variant-document.ts) — and
+-- stores it next to the text:
+--
+--   content_variants.body_doc           — the document (jsonb), or null for
+--                                         plain-text variants (generated
+--                                         before this migration, or a model
+--                                         reply that didn't parse).
+--   content_variant_revisions.body_doc  — the document as of each revision.
+--
+-- body_text stays canonical: whenever body_doc is set, body_text is its
+-- plain text (documentToText), so finding anchors, char counts and the
+-- revision diff keep working on the text.
+--
+-- Every writer of the body takes the document alongside the text:
+--
+--   regenerate_variant        — + p_body_doc
+--   apply_fix                 — + p_new_body_doc
+--   save_variant_body         — + p_body_doc. A save is still a no-op when
+--                               nothing changed, now text AND document (a
+--                               block-type change alone is an edit).
+--   restore_variant_revision  — copies the revision's document back.
+--   _record_variant_revision  — snapshots body_doc into the revision.
+--   create_delivery           — freezes body_doc into each
+--                               delivery_snapshot.variants entry, so the PDF
+--                               and DOCX attachments style each block.
+--
+-- The RPCs that gain a parameter are dropped and re-created (a new
+-- signature would otherwise sit next to the old one); their grants are
+-- re-issued. Bodies are otherwise unchanged from 0020 / 0028.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0030 --linked
+-- Deploy generate-variants, compliance-check, send-delivery and
+-- process-scheduled-sends afterwards.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Columns
+-- ------------------------------------------------------------
+alter table public.content_variants
+  add column body_doc jsonb;
+
+alter table public.content_variant_revisions
+  add column body_doc jsonb;
+
+-- ------------------------------------------------------------
+-- 2. _record_variant_revision: + body_doc
+-- Same signature; CREATE OR REPLACE preserves the grant.
+-- ------------------------------------------------------------
+create or replace function public._record_variant_revision(
+  p_variant_id uuid,
+  p_reason text,
+  p_author_type text,
+  p_model_used text,
+  p_author_id uuid,
+  p_author_name_snapshot text,
+  p_finding_id uuid default null,
+  p_restored_from_revision_id uuid default null
+) returns public.content_variant_revisions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_variant public.content_variants;
+  v_row public.content_variant_revisions;
+begin
+  select * into v_variant from public.content_variants where id = p_variant_id;
+
+  insert into public.content_variant_revisions
+    (variant_id, revision_number, body_text, body_html, body_doc, char_count,
+     reading_time_seconds, reason, author_type, model_used, author_id,
+     author_name_snapshot, finding_id, restored_from_revision_id)
+  values (
+    v_variant.id,
+    coalesce((select max(revision_number)
+                from public.content_variant_revisions
+               where variant_id = v_variant.id), 0) + 1,
+    v_variant.body_text, v_variant.body_html, v_variant.body_doc,
+    v_variant.char_count, v_variant.reading_time_seconds, p_reason,
+    p_author_type, p_model_used, p_author_id, p_author_name_snapshot,
+    p_finding_id, p_restored_from_revision_id
+  )
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 3. regenerate_variant: + p_body_doc
+-- ------------------------------------------------------------
+drop function public.regenerate_variant(
+  uuid, int, text, text, int, int, text, jsonb, uuid, uuid, text, jsonb
+);
+
+create function public.regenerate_variant(
+  p_content_item_id uuid,
+  p_variant_index int,
+  p_variant_label text,
+  p_body_text text,
+  p_body_doc jsonb,
+  p_char_count int,
+  p_reading_time_seconds int,
+  p_model_used text,
+  p_generation_params jsonb,
+  p_project_id uuid,
+  p_actor_id uuid,
+  p_actor_name_snapshot text,
+  p_audit_details jsonb
+) returns public.content_variants
+language plpgsql
+security invoker
+as $$
+declare
+  v_row public.content_variants;
+  v_existing_id uuid;
+begin
+  select id into v_existing_id
+  from public.content_variants
+  where content_item_id = p_content_item_id and variant_index = p_variant_index;
+
+  if v_existing_id is not null then
+    delete from public.compliance_findings where variant_id = v_existing_id;
+  end if;
+
+  insert into public.content_variants (
+    content_item_id, variant_index, variant_label, body_text, body_doc,
+    char_count, reading_time_seconds, model_used, generation_params,
+    internal_approved, internal_approved_by, internal_approved_at,
+    updated_at
+  ) values (
+    p_content_item_id, p_variant_index, p_variant_label, p_body_text,
+    p_body_doc, p_char_count, p_reading_time_seconds, p_model_used,
+    p_generation_params, false, null, null,
+    now()
+  )
+  on conflict (content_item_id, variant_index) do update set
+    variant_label = excluded.variant_label,
+    body_text = excluded.body_text,
+    body_doc = excluded.body_doc,
+    char_count = excluded.char_count,
+    reading_time_seconds = excluded.reading_time_seconds,
+    model_used = excluded.model_used,
+    generation_params = excluded.generation_params,
+    internal_approved = false,
+    internal_approved_by = null,
+    internal_approved_at = null,
+    updated_at = now()
+  returning * into v_row;
+
+  perform public._record_variant_revision(
+    v_row.id,
+    case when v_existing_id is null then 'generated' else 'regenerated' end,
+    'model', p_model_used, p_actor_id, p_actor_name_snapshot
+  );
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details, model_used)
+  values (
+    p_project_id,
+    null,
+    'variant_generated',
+    case when p_actor_id is null then 'system' else 'user' end,
+    p_actor_id,
+    p_actor_name_snapshot,
+    p_audit_details || jsonb_build_object('variant_id', v_row.id),
+    p_model_used
+  );
+
+  return v_row;
+end;
+$$;
+
+-- INVOKER: generate-variants calls it with the user's JWT.
+revoke all on function public.regenerate_variant(
+  uuid, int, text, text, jsonb, int, int, text, jsonb, uuid, uuid, text, jsonb
+) from public, anon;
+grant execute on function public.regenerate_variant(
+  uuid, int, text, text, jsonb, int, int, text, jsonb, uuid, uuid, text, jsonb
+) to authenticated;
+
+-- ------------------------------------------------------------
+-- 4. apply_fix: + p_new_body_doc
+-- ------------------------------------------------------------
+drop function public.apply_fix(uuid, text, text, int, int);
+
+create function public.apply_fix(
+  p_finding_id uuid,
+  p_new_body_text text,
+  p_new_body_html text,
+  p_new_body_doc jsonb,
+  p_new_char_count int,
+  p_new_reading_time_seconds int
+) returns public.compliance_findings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_finding public.compliance_findings;
+  v_variant public.content_variants;
+  v_project_id uuid;
+  v_prior_status text;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_finding from public.compliance_findings
+    where id = p_finding_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'finding_not_found';
+  end if;
+  if v_finding.resolution_status = 'fixed' then
+    raise exception using errcode = 'P0004', message = 'finding_already_fixed';
+  end if;
+  v_prior_status := v_finding.resolution_status;
+
+  select * into v_variant from public.content_variants
+    where id = v_finding.variant_id for update;
+
+  update public.content_variants
+     set body_text = p_new_body_text,
+         body_html = p_new_body_html,
+         body_doc = p_new_body_doc,
+         char_count = p_new_char_count,
+         reading_time_seconds = p_new_reading_time_seconds,
+         updated_at = now()
+   where id = v_variant.id;
+
+  update public.compliance_findings
+     set resolution_status = 'fixed',
+         resolved_by = v_actor,
+         resolved_at = now()
+   where id = p_finding_id
+   returning * into v_finding;
+
+  select project_id into v_project_id
+    from public.content_items where id = v_variant.content_item_id;
+  select full_name into v_actor_name
+    from public.users where id = v_actor;
+
+  perform public._record_variant_revision(
+    v_variant.id, 'fix_applied', 'user', null, v_actor, v_actor_name,
+    p_finding_id
+  );
+
+  insert into public.audit_trail_events
+    (project_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_project_id, 'fix_applied', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'finding_id', p_finding_id,
+      'variant_id', v_variant.id,
+      'severity', v_finding.severity,
+      'prior_status', v_prior_status
+    )
+  );
+
+  return v_finding;
+end;
+$$;
+
+revoke all on function public.apply_fix(uuid, text, text, jsonb, int, int)
+  from public, anon;
+grant execute on function public.apply_fix(uuid, text, text, jsonb, int, int)
+  to authenticated;
+
+-- ------------------------------------------------------------
+-- 5. save_variant_body: + p_body_doc
+-- ------------------------------------------------------------
+drop function public.save_variant_body(uuid, text, int, int);
+
+create function public.save_variant_body(
+  p_variant_id uuid,
+  p_body_text text,
+  p_body_doc jsonb,
+  p_char_count int,
+  p_reading_time_seconds int
+) returns public.content_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_variant public.content_variants;
+  v_latest public.content_variant_revisions;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_variant from public.content_variants
+    where id = p_variant_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'variant_not_found';
+  end if;
+
+  if v_variant.body_text = p_body_text
+     and v_variant.body_doc is not distinct from p_body_doc then
+    return v_variant;
+  end if;
+
+  update public.content_variants
+     set body_text = p_body_text,
+         body_doc = p_body_doc,
+         char_count = p_char_count,
+         reading_time_seconds = p_reading_time_seconds,
+         updated_at = now()
+   where id = p_variant_id
+   returning * into v_variant;
+
+  select * into v_latest from public.content_variant_revisions
+   where variant_id = p_variant_id
+   order by revision_number desc
+   limit 1;
+
+  -- AUTOSAVE_CHECKPOINT_WINDOW: fold into the open checkpoint.
+  if found
+     and v_latest.reason = 'autosave'
+     and v_latest.author_id = v_actor
+     and v_latest.updated_at > now() - interval '10 minutes' then
+    update public.content_variant_revisions
+       set body_text = v_variant.body_text,
+           body_html = v_variant.body_html,
+           body_doc = v_variant.body_doc,
+           char_count = v_variant.char_count,
+           reading_time_seconds = v_variant.reading_time_seconds,
+           updated_at = now()
+     where id = v_latest.id;
+  else
+    select full_name into v_actor_name from public.users where id = v_actor;
+    perform public._record_variant_revision(
+      p_variant_id, 'autosave', 'user', null, v_actor, v_actor_name
+    );
+  end if;
+
+  return v_variant;
+end;
+$$;
+
+revoke all on function public.save_variant_body(uuid, text, jsonb, int, int)
+  from public, anon;
+grant execute on function public.save_variant_body(uuid, text, jsonb, int, int)
+  to authenticated;
+
+-- ------------------------------------------------------------
+-- 6. restore_variant_revision: + body_doc
+-- Same signature; CREATE OR REPLACE preserves the grant.
+-- ------------------------------------------------------------
+create or replace function public.restore_variant_revision(
+  p_revision_id uuid
+) returns public.content_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_revision public.content_variant_revisions;
+  v_variant public.content_variants;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_revision from public.content_variant_revisions
+    where id = p_revision_id;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'revision_not_found';
+  end if;
+
+  select * into v_variant from public.content_variants
+    where id = v_revision.variant_id for update;
+
+  update public.content_variants
+     set body_text = v_revision.body_text,
+         body_html = v_revision.body_html,
+         body_doc = v_revision.body_doc,
+         char_count = v_revision.char_count,
+         reading_time_seconds = v_revision.reading_time_seconds,
+         updated_at = now()
+   where id = v_variant.id
+   returning * into v_variant;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+  perform public._record_variant_revision(
+    v_variant.id, 'restored', 'user', null, v_actor, v_actor_name,
+    null, v_revision.id
+  );
+
+  return v_variant;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 7. create_delivery: + body_doc in the variant snapshot
+-- Unchanged from 0028 apart from the body_doc key. CREATE OR REPLACE
+-- preserves the grant.
+-- ------------------------------------------------------------
+create or replace function public.create_delivery(
+  p_payload jsonb,
+  p_scheduled_for timestamptz
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_project public.projects;
+  v_content_item public.content_items;
+  v_variant_ids uuid[];
+  v_variant_count int;
+  v_distinct_count int;
+  v_unapproved_count int;
+  v_edited_after_approval_count int;
+  v_wrong_item_count int;
+  v_recommended uuid;
+  v_audit_report public.audit_reports;
+  v_signature_hash text;
+  v_stale_against_audit_count int;
+  v_from_name text;
+  v_from_email text;
+  v_default_bcc jsonb;
+  v_reply_to text;
+  v_cc jsonb;
+  v_bcc_caller jsonb;
+  v_bcc_effective jsonb;
+  v_warnings jsonb;
+  v_snapshot jsonb;
+  v_status text;
+  v_token text;
+  v_delivery_id uuid;
+  v_email_regex text := '^[^@\s]+@[^@\s]+\.[^@\s]+$';
+  v_attachment_format text;
+  v_comparison jsonb;
+  v_include_archive boolean;
+  v_uuid_regex text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  -- Project gate
+  select * into v_project from public.projects
+   where id = (p_payload->>'project_id')::uuid for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'project_not_found';
+  end if;
+
+  -- Content item gate (must belong to the project)
+  select * into v_content_item from public.content_items
+   where id = (p_payload->>'content_item_id')::uuid;
+  if not found or v_content_item.project_id <> v_project.id then
+    raise exception using errcode = 'P0004', message = 'content_item_not_in_project';
+  end if;
+
+  -- Variant IDs: parse + count gates
+  select array_agg((value)::uuid) into v_variant_ids
+    from jsonb_array_elements_text(p_payload->'variant_ids');
+  v_variant_count := coalesce(array_length(v_variant_ids, 1), 0);
+  if v_variant_count < 1 or v_variant_count > 3 then
+    raise exception using errcode = 'P0004', message = 'variant_count_out_of_range';
+  end if;
+  select count(distinct e) into v_distinct_count from unnest(v_variant_ids) e;
+  if v_distinct_count <> v_variant_count then
+    raise exception using errcode = 'P0004', message = 'variant_ids_duplicated';
+  end if;
+
+  -- Lock the variants so the gate checks see a stable read
+  perform 1 from public.content_variants where id = any(v_variant_ids) for update;
+
+  -- Every variant must belong to the declared content_item
+  select count(*) into v_wrong_item_count
+    from public.content_variants
+   where id = any(v_variant_ids)
+     and content_item_id <> v_content_item.id;
+  if v_wrong_item_count > 0 then
+    raise exception using errcode = 'P0004', message = 'variant_not_in_content_item';
+  end if;
+
+  -- Every variant must be approved
+  select count(*) into v_unapproved_count
+    from public.content_variants
+   where id = any(v_variant_ids) and internal_approved = false;
+  if v_unapproved_count > 0 then
+    raise exception using errcode = 'P0004', message = 'variant_not_approved';
+  end if;
+
+  -- No post-approval edits
+  select count(*) into v_edited_after_approval_count
+    from public.content_variants
+   where id = any(v_variant_ids)
+     and (internal_approved_at is null or updated_at > internal_approved_at);
+  if v_edited_after_approval_count > 0 then
+    raise exception using errcode = 'P0004', message = 'variant_updated_after_approval';
+  end if;
+
+  -- Recommended must be in attached set (nullable)
+  v_recommended := nullif(p_payload->>'recommended_variant_id', '')::uuid;
+  if v_recommended is not null and not (v_recommended = any(v_variant_ids)) then
+    raise exception using errcode = 'P0004', message = 'recommended_not_attached';
+  end if;
+
+  -- Audit report gate: latest must be finalized
+  v_audit_report := public._latest_finalized_audit_report(v_project.id);
+  if v_audit_report.id is null then
+    raise exception using errcode = 'P0004', message = 'audit_not_finalized';
+  end if;
+
+  -- Audit freshness: no attached variant edited after finalization
+  select count(*) into v_stale_against_audit_count
+    from public.content_variants
+   where id = any(v_variant_ids)
+     and updated_at > v_audit_report.finalized_at;
+  if v_stale_against_audit_count > 0 then
+    raise exception using errcode = 'P0004', message = 'audit_stale_vs_variants';
+  end if;
+
+  -- Email format gates
+  if (p_payload->>'recipient_email') !~* v_email_regex then
+    raise exception using errcode = 'P0004', message = 'recipient_email_invalid';
+  end if;
+  v_cc := coalesce(p_payload->'cc_emails', '[]'::jsonb);
+  v_bcc_caller := coalesce(p_payload->'bcc_emails', '[]'::jsonb);
+  if exists (
+    select 1 from jsonb_array_elements_text(v_cc) e where e !~* v_email_regex
+  ) or exists (
+    select 1 from jsonb_array_elements_text(v_bcc_caller) e where e !~* v_email_regex
+  ) then
+    raise exception using errcode = 'P0004', message = 'cc_or_bcc_email_invalid';
+  end if;
+
+  -- Attachment format gate
+  v_attachment_format := p_payload->>'attachment_format';
+  if v_attachment_format not in ('pdf', 'word', 'both') then
+    raise exception using errcode = 'P0004', message = 'invalid_attachment_format';
+  end if;
+
+  -- Archive attachment gate: the finalized report must already have its
+  -- archival PDF (sign-audit-report / archive-audit-report).
+  v_include_archive := coalesce((p_payload->>'include_audit_archive')::boolean, false);
+  if v_include_archive and v_audit_report.archive_path is null then
+    raise exception using errcode = 'P0004', message = 'audit_archive_missing';
+  end if;
+
+  -- Schedule gate
+  if p_scheduled_for is not null and p_scheduled_for <= now() then
+    raise exception using errcode = 'P0004', message = 'scheduled_in_past';
+  end if;
+
+  -- Server-resolved sender + default BCC (T12 seeds these)
+  select value into v_from_name  from public.app_config where key = 'RESEND_FROM_NAME';
+  select value into v_from_email from public.app_config where key = 'RESEND_FROM_EMAIL';
+  if v_from_name is null or v_from_email is null then
+    raise exception using errcode = 'P0004', message = 'app_config_missing';
+  end if;
+  select value::jsonb into v_default_bcc from public.app_config where key = 'DEFAULT_BCC_EMAILS';
+  v_default_bcc := coalesce(v_default_bcc, '[]'::jsonb);
+
+  -- Reply-To = sender's email (TSD §9.1)
+  select email into v_reply_to from public.users where id = v_actor;
+
+  -- BCC merge: caller UNION DEFAULT_BCC_EMAILS, distinct, preserves any order
+  select coalesce(jsonb_agg(distinct e), '[]'::jsonb) into v_bcc_effective
+    from (
+      select jsonb_array_elements_text(v_bcc_caller) as e
+      union
+      select jsonb_array_elements_text(v_default_bcc)
+    ) m;
+
+  -- Latest signature for the finalized report (for snapshot)
+  select signature_hash into v_signature_hash
+    from public.audit_signatures
+   where audit_report_id = v_audit_report.id
+   order by signed_at desc limit 1;
+
+  v_warnings := coalesce(p_payload->'scheduling_warnings', '[]'::jsonb);
+
+  -- Comparison summary gate: at most one non-empty line per attached
+  -- variant. variant_index is re-derived from content_variants below rather
+  -- than trusted from the caller.
+  v_comparison := coalesce(p_payload->'comparison_summary', '[]'::jsonb);
+  if jsonb_typeof(v_comparison) <> 'array' then
+    raise exception using errcode = 'P0004', message = 'comparison_summary_invalid';
+  end if;
+  -- CASE (not OR) so the uuid cast only runs on ids that passed the regex.
+  if exists (
+    select 1 from jsonb_array_elements(v_comparison) e
+     where case
+             when jsonb_typeof(e) <> 'object' then true
+             when coalesce(e->>'variant_id', '') !~* v_uuid_regex then true
+             when not ((e->>'variant_id')::uuid = any(v_variant_ids)) then true
+             when length(btrim(coalesce(e->>'text', ''))) = 0 then true
+             else length(e->>'text') > 500
+           end
+  ) or (
+    select count(*) <> count(distinct e->>'variant_id')
+      from jsonb_array_elements(v_comparison) e
+  ) then
+    raise exception using errcode = 'P0004', message = 'comparison_summary_invalid';
+  end if;
+
+  -- Build the immutable snapshot
+  v_snapshot := jsonb_build_object(
+    'project', jsonb_build_object(
+      'id', v_project.id,
+      'name', v_project.name
+    ),
+    'content_item', jsonb_build_object(
+      'id', v_content_item.id,
+      'content_sub_type', v_content_item.content_sub_type
+    ),
+    'variants', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object(
+          'id', cv.id,
+          'variant_label', cv.variant_label,
+          'variant_index', cv.variant_index,
+          'body_html', cv.body_html,
+          'body_text', cv.body_text,
+          'body_doc', cv.body_doc,
+          'variation_directive', cv.generation_params->>'variation_directive',
+          'char_count', cv.char_count
+        ) order by cv.variant_index
+      ), '[]'::jsonb)
+        from public.content_variants cv
+       where cv.id = any(v_variant_ids)
+    ),
+    'recommended_variant_id', v_recommended,
+    'audit_report', jsonb_build_object(
+      'id', v_audit_report.id,
+      'version_major', v_audit_report.version_major,
+      'version_minor', v_audit_report.version_minor,
+      'finalized_at', v_audit_report.finalized_at,
+      'signature_hash', v_signature_hash
+    ),
+    'sender', jsonb_build_object(
+      'from_name', v_from_name,
+      'from_email', v_from_email,
+      'reply_to_email', v_reply_to,
+      'sent_by_email_snapshot', v_reply_to
+    ),
+    'recipient', jsonb_build_object(
+      'email', p_payload->>'recipient_email',
+      'name', p_payload->>'recipient_name',
+      'cc_emails', v_cc,
+      'bcc_emails_effective', v_bcc_effective
+    ),
+    'scheduling_warnings', v_warnings,
+    'comparison_summary', (
+      select coalesce(jsonb_agg(
+        jsonb_build_object(
+          'variant_id', cv.id,
+          'variant_index', cv.variant_index,
+          'text', btrim(e->>'text')
+        ) order by cv.variant_index
+      ), '[]'::jsonb)
+        from jsonb_array_elements(v_comparison) e
+        join public.content_variants cv on cv.id = (e->>'variant_id')::uuid
+    )
+  );
+
+  -- Filename matches auditArchiveFilename() in _shared/audit-report-pdf.ts.
+  if v_include_archive then
+    v_snapshot := v_snapshot || jsonb_build_object(
+      'audit_archive', jsonb_build_object(
+        'storage_path', v_audit_report.archive_path,
+        'sha256', v_audit_report.archive_sha256,
+        'filename', v_audit_report.report_id_display || '_v'
+                    || v_audit_report.version || '.pdf'
+      )
+    );
+  end if;
+
+  v_status := case when p_scheduled_for is null then 'draft' else 'scheduled' end;
+
+  -- Persist delivery row
+  insert into public.deliveries
+    (project_id, recipient_email, recipient_name, cc_emails, bcc_emails,
+     subject, body_html, body_text, variant_ids_attached, attachment_format,
+     recommended_variant_id, audit_report_id, delivery_snapshot, status)
+  values
+    (v_project.id,
+     p_payload->>'recipient_email',
+     p_payload->>'recipient_name',
+     v_cc,
+     v_bcc_effective,
+     p_payload->>'subject',
+     p_payload->>'body_html',
+     p_payload->>'body_text',
+     to_jsonb(v_variant_ids),
+     v_attachment_format,
+     v_recommended,
+     v_audit_report.id,
+     v_snapshot,
+     v_status)
+  returning id into v_delivery_id;
+
+  -- Token: gen_random_bytes(32) -> URL-safe base64 (no padding)
+  v_token := rtrim(translate(encode(gen_random_bytes(32), 'base64'), '+/', '-_'), '=');
+
+  -- Feedback token (30-day expiry; one-shot enforced by Phase 6 feedback-submit)
+  insert into public.feedback_tokens
+    (token, delivery_id, expires_at)
+  values
+    (v_token, v_delivery_id, now() + interval '30 days');
+
+  -- Scheduled-send row if scheduled
+  if p_scheduled_for is not null then
+    insert into public.scheduled_sends (delivery_id, scheduled_for)
+    values (v_delivery_id, p_scheduled_for);
+  end if;
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery_id,
+    'token', v_token,
+    'delivery_snapshot', v_snapshot,
+    'status', v_status,
+    'scheduled_for', p_scheduled_for
+  );
+end;
+$$;
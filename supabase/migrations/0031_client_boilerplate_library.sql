@@ -0,0 +1,198 @@
+-- ============================================================
+-- ClearPress AI — Per-client boilerplate library
+--
+-- WHAT
+-- ----
+-- The generator had no authoritative source for a release's standing
+-- blocks, so the model wrote the company description and media contact
+-- itself — inventing phone numbers and company facts — and the only check
+-- was the rule library's "required" pattern (お問い合わせ|広報部|TEL|…).
+-- Each client now holds managed blocks, edited from the client's
+-- Boilerplate tab:
+--
+--   client_boilerplate_blocks    — the working copy. One row per block:
+--                                  kind (about / forward_looking /
+--                                  disclaimer / media_contact), language
+--                                  (ja / en), heading, body, scope by
+--                                  content type (empty array = all) and
+--                                  current_version.
+--   client_boilerplate_versions  — immutable history. Every save that
+--                                  changes the heading, body or scope adds
+--                                  version N+1; the block's
+--                                  current_version is the approved text.
+--
+-- generate-variants appends the active blocks that apply to the content
+-- item verbatim (_shared/client-boilerplate.ts) and records the block ids
+-- and versions in generation_params.managed_boilerplate. compliance-check
+-- looks for each applicable block's current text in the body and flags it
+-- when it is missing, edited, or an older version.
+--
+-- Both tables are read-only to clients; writes go through
+-- save_client_boilerplate (DEFINER), which validates, writes the block and
+-- its version row in one transaction.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0031 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Tables
+-- ------------------------------------------------------------
+create table public.client_boilerplate_blocks (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  kind text not null
+    check (kind in ('about', 'forward_looking', 'disclaimer', 'media_contact')),
+  language text not null check (language in ('ja', 'en')),
+  heading text not null default '',
+  body text not null check (length(btrim(body)) > 0),
+  content_types text[] not null default '{}'
+    check (content_types <@ array[
+      'press_release', 'blog_post', 'social_media', 'internal_memo', 'faq',
+      'executive_statement'
+    ]),
+  current_version int not null default 1,
+  active boolean not null default true,
+  created_by uuid references public.users(id),
+  created_at timestamptz not null default now(),
+  updated_by uuid references public.users(id),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_client_boilerplate_blocks_client
+  on public.client_boilerplate_blocks(client_id, created_at)
+  where active;
+
+create table public.client_boilerplate_versions (
+  block_id uuid not null
+    references public.client_boilerplate_blocks(id) on delete cascade,
+  version int not null,
+  heading text not null,
+  body text not null,
+  content_types text[] not null,
+  change_note text,
+  created_by uuid references public.users(id),
+  created_by_name_snapshot text,
+  created_at timestamptz not null default now(),
+  primary key (block_id, version)
+);
+
+alter table public.client_boilerplate_blocks enable row level security;
+alter table public.client_boilerplate_versions enable row level security;
+
+create policy firm_users_read_access on public.client_boilerplate_blocks
+  for select using (auth.role() = 'authenticated');
+create policy firm_users_read_access on public.client_boilerplate_versions
+  for select using (auth.role() = 'authenticated');
+
+-- ------------------------------------------------------------
+-- 2. RPC: save_client_boilerplate
+-- ------------------------------------------------------------
+-- p_block_id null → create in p_client_id (ignored on update). p_block
+-- carries kind, language, heading, body, content_types and active. Kind and
+-- language are fixed once created — a different kind is a different block.
+-- Deactivating retires a block without a new version; rows are never
+-- deleted so recorded versions stay meaningful. Returns the block id and
+-- its current version.
+create or replace function public.save_client_boilerplate(
+  p_block_id uuid,
+  p_client_id uuid,
+  p_block jsonb,
+  p_change_note text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_block public.client_boilerplate_blocks;
+  v_heading text := btrim(coalesce(p_block->>'heading', ''));
+  v_body text := btrim(coalesce(p_block->>'body', ''));
+  v_content_types text[] := array(
+    select jsonb_array_elements_text(coalesce(p_block->'content_types', '[]'))
+  );
+  v_changed boolean;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  if v_body = '' then
+    raise exception using errcode = 'P0004', message = 'boilerplate_incomplete';
+  end if;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  if p_block_id is null then
+    insert into public.client_boilerplate_blocks
+      (client_id, kind, language, heading, body, content_types, active,
+       created_by, updated_by)
+    values (
+      p_client_id,
+      p_block->>'kind',
+      p_block->>'language',
+      v_heading,
+      v_body,
+      v_content_types,
+      coalesce((p_block->>'active')::boolean, true),
+      v_actor,
+      v_actor
+    )
+    returning * into v_block;
+    v_changed := true;
+  else
+    select * into v_block
+      from public.client_boilerplate_blocks
+     where id = p_block_id
+     for update;
+    if not found then
+      raise exception using errcode = 'P0004', message = 'boilerplate_not_found';
+    end if;
+
+    v_changed := v_block.heading <> v_heading
+      or v_block.body <> v_body
+      or v_block.content_types <> v_content_types;
+
+    update public.client_boilerplate_blocks
+       set heading = v_heading,
+           body = v_body,
+           content_types = v_content_types,
+           current_version = current_version + case when v_changed then 1 else 0 end,
+           active = coalesce((p_block->>'active')::boolean, active),
+           updated_by = v_actor,
+           updated_at = now()
+     where id = p_block_id
+     returning * into v_block;
+  end if;
+
+  if v_changed then
+    insert into public.client_boilerplate_versions
+      (block_id, version, heading, body, content_types, change_note,
+       created_by, created_by_name_snapshot)
+    values (
+      v_block.id,
+      v_block.current_version,
+      v_block.heading,
+      v_block.body,
+      v_block.content_types,
+      nullif(btrim(coalesce(p_change_note, '')), ''),
+      v_actor,
+      v_actor_name
+    );
+  end if;
+
+  return jsonb_build_object(
+    'block_id', v_block.id,
+    'version',  v_block.current_version
+  );
+end;
+$$;
+
+revoke all on function public.save_client_boilerplate(uuid, uuid, jsonb, text)
+  from public, anon;
+grant execute on function public.save_client_boilerplate(uuid, uuid, jsonb, text)
+  to authenticated;
@@ -0,0 +1,181 @@
+-- ============================================================
+-- ClearPress AI — Pluggable email transport
+--
+-- WHAT
+-- ----
+-- Every email used to go straight to api.resend.com. The Edge Functions
+-- now send through a transport picked by the EMAIL_TRANSPORT secret
+-- (_shared/email-transport.ts): resend (default), smtp (the firm's own
+-- relay) or capture (writes .eml files instead of sending, for local
+-- development and CI). This migration adds what smtp and capture need:
+--
+--   email_send_ledger     — one row per idempotency key. Resend dedupes
+--                           sends under an Idempotency-Key itself; SMTP has
+--                           nothing of the kind, so smtp and capture claim
+--                           the key here before sending and record the
+--                           Message-ID after. Same key + same message
+--                           (payload_sha256) → the first send's id, no
+--                           second send; same key + different message →
+--                           collision, surfaced as
+--                           'idempotency_collision_409' exactly like Resend.
+--   email-capture (bucket) — private. The capture transport's .eml files;
+--                           firm users can read them from the dev-only
+--                           /dev/inbox page. Empty unless capture is on.
+--
+-- A claim that was never completed (the function died mid-send) blocks the
+-- key for 10 minutes and can then be re-claimed; a send that failed cleanly
+-- releases its claim at once so the next attempt can go out.
+--
+-- The ledger is service-role only: the Edge Functions use a service-role
+-- client for it (_shared/email.ts), also when sending on a user's behalf.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0032 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Ledger
+-- ------------------------------------------------------------
+create table public.email_send_ledger (
+  idempotency_key text primary key,
+  transport text not null,
+  payload_sha256 text not null check (payload_sha256 ~ '^[0-9a-f]{64}$'),
+  message_id text,
+  claimed_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+-- No policies: readable and writable by the service role only.
+alter table public.email_send_ledger enable row level security;
+
+-- ------------------------------------------------------------
+-- 2. RPCs
+-- ------------------------------------------------------------
+-- Returns {status}: 'claimed' (go ahead and send), 'sent' (with
+-- message_id; don't send again), 'in_flight' (another send holds the key)
+-- or 'collision' (the key was used for a different message).
+create or replace function public.claim_email_send(
+  p_idempotency_key text,
+  p_transport text,
+  p_payload_sha256 text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.email_send_ledger;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  insert into public.email_send_ledger
+    (idempotency_key, transport, payload_sha256)
+  values (p_idempotency_key, p_transport, p_payload_sha256)
+  on conflict (idempotency_key) do nothing;
+  if found then
+    return jsonb_build_object('status', 'claimed');
+  end if;
+
+  select * into v_row from public.email_send_ledger
+   where idempotency_key = p_idempotency_key
+   for update;
+
+  if v_row.payload_sha256 <> p_payload_sha256 then
+    return jsonb_build_object('status', 'collision');
+  end if;
+  if v_row.message_id is not null then
+    return jsonb_build_object(
+      'status',     'sent',
+      'message_id', v_row.message_id
+    );
+  end if;
+  if v_row.claimed_at > now() - interval '10 minutes' then
+    return jsonb_build_object('status', 'in_flight');
+  end if;
+
+  update public.email_send_ledger
+     set claimed_at = now(),
+         transport = p_transport
+   where idempotency_key = p_idempotency_key;
+  return jsonb_build_object('status', 'claimed');
+end;
+$$;
+
+create or replace function public.complete_email_send(
+  p_idempotency_key text,
+  p_message_id text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  update public.email_send_ledger
+     set message_id = p_message_id,
+         sent_at = now()
+   where idempotency_key = p_idempotency_key;
+end;
+$$;
+
+-- Drops an unfinished claim after a failed send. A completed row is never
+-- released — that send went out.
+create or replace function public.release_email_send(
+  p_idempotency_key text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  delete from public.email_send_ledger
+   where idempotency_key = p_idempotency_key
+     and message_id is null;
+end;
+$$;
+
+revoke all on function public.claim_email_send(text, text, text) from public;
+grant execute on function public.claim_email_send(text, text, text)
+  to service_role;
+
+revoke all on function public.complete_email_send(text, text) from public;
+grant execute on function public.complete_email_send(text, text)
+  to service_role;
+
+revoke all on function public.release_email_send(text) from public;
+grant execute on function public.release_email_send(text)
+  to service_role;
+
+-- ------------------------------------------------------------
+-- 3. Storage bucket (private, .eml only, max 20 MB — a delivery's
+--    attachments are capped at 9 MB before base64)
+-- ------------------------------------------------------------
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'email-capture',
+  'email-capture',
+  false,
+  20971520,
+  array['message/rfc822']
+)
+on conflict (id) do update set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
+
+-- Written by the service role only; firm users read.
+create policy "email_capture_select"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'email-capture');
@@ -0,0 +1,247 @@
+-- ============================================================
+-- ClearPress AI — Send deliveries from the staff member's own mailbox
+--
+-- WHAT
+-- ----
+-- PRD §5.4 makes the Internal User's own address, connected over OAuth,
+-- the primary sender identity, with the ClearPress-managed address only as
+-- a fallback. Until now every delivery went out as app_config's
+-- RESEND_FROM_NAME / RESEND_FROM_EMAIL.
+--
+--   mailbox_connections   — one per user: the connected Gmail / Microsoft
+--                           365 account (provider, address) and its OAuth
+--                           refresh token, AES-GCM encrypted under the
+--                           MAILBOX_TOKEN_KEY Edge Function secret
+--                           (_shared/mailbox.ts). Written only by the
+--                           mailbox-connect Edge Function and the send
+--                           path (service role). Users read their own row,
+--                           minus the token column.
+--   deliveries.created_by — who composed the delivery; the send path
+--                           looks up their connection when the email
+--                           actually goes out (_shared/delivery-sender.ts),
+--                           also for scheduled sends. Backfilled from
+--                           delivery_snapshot.sender.sent_by_email_snapshot.
+--   mark_delivery_sent_user / mark_delivery_sent_system
+--                         — + p_sender: the identity the email went out
+--                           under ({mode: 'mailbox' | 'managed', from_email,
+--                           provider?, fallback_reason?}), recorded as the
+--                           delivery_sent audit event's details.sender. A
+--                           revoked mailbox that fell back to the managed
+--                           address shows up there as
+--                           fallback_reason = 'mailbox_revoked'.
+--
+-- delivery_snapshot.sender is unchanged: it is the managed identity the
+-- delivery falls back to.
+--
+-- The two RPCs gain a parameter, so they are dropped and re-created with
+-- their grants re-issued; bodies are otherwise unchanged from 0008.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0033 --linked
+-- Set MAILBOX_TOKEN_KEY and MAILBOX_OAUTH_REDIRECT_URL plus the provider
+-- secrets (see .env.example), then deploy mailbox-connect, send-delivery
+-- and process-scheduled-sends.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Connections
+-- ------------------------------------------------------------
+create table public.mailbox_connections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null unique references public.users(id) on delete cascade,
+  provider text not null check (provider in ('gmail', 'microsoft', 'mock')),
+  email text not null,
+  display_name text,
+  refresh_token_encrypted text not null,
+  status text not null default 'active' check (status in ('active', 'revoked')),
+  connected_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  last_error text
+);
+
+alter table public.mailbox_connections enable row level security;
+
+create policy own_connection_read on public.mailbox_connections
+  for select using (user_id = auth.uid());
+
+-- The encrypted token never leaves the server, even to its owner.
+revoke all on public.mailbox_connections from anon, authenticated;
+grant select (id, user_id, provider, email, display_name, status,
+              connected_at, last_used_at, revoked_at, last_error)
+  on public.mailbox_connections to authenticated;
+
+-- ------------------------------------------------------------
+-- 2. deliveries.created_by
+-- create_delivery is SECURITY DEFINER but auth.uid() still reads the
+-- caller's JWT, so the default records the composer without touching it.
+-- ------------------------------------------------------------
+alter table public.deliveries
+  add column created_by uuid references public.users(id) default auth.uid();
+
+update public.deliveries d
+   set created_by = u.id
+  from public.users u
+ where d.created_by is null
+   and u.email = d.delivery_snapshot->'sender'->>'sent_by_email_snapshot';
+
+-- ------------------------------------------------------------
+-- 3. mark_delivery_sent_user: + p_sender
+-- ------------------------------------------------------------
+drop function public.mark_delivery_sent_user(uuid, text);
+
+create function public.mark_delivery_sent_user(
+  p_delivery_id uuid,
+  p_resend_message_id text,
+  p_sender jsonb
+) returns public.deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_was_scheduled boolean;
+  v_scheduled_for timestamptz;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status not in ('draft', 'scheduled') then
+    raise exception using errcode = 'P0004', message = 'delivery_not_pending';
+  end if;
+
+  v_was_scheduled := v_delivery.status = 'scheduled';
+  select scheduled_for into v_scheduled_for
+    from public.scheduled_sends where delivery_id = p_delivery_id;
+
+  update public.deliveries
+     set status = 'sent',
+         sent_at = now(),
+         sent_by = v_actor
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  -- Project status auto-transition (idempotent)
+  update public.projects
+     set status = 'delivered'
+   where id = v_delivery.project_id
+     and status in ('draft', 'in_review');
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_sent', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'resend_message_id', p_resend_message_id,
+      'recipient_email', v_delivery.recipient_email,
+      'variant_ids_attached', v_delivery.variant_ids_attached,
+      'recommended_variant_id', v_delivery.recommended_variant_id,
+      'audit_report_id', v_delivery.audit_report_id,
+      'attachment_format', v_delivery.attachment_format,
+      'was_scheduled', v_was_scheduled,
+      'sent_at', v_delivery.sent_at,
+      'scheduled_for', v_scheduled_for,
+      'scheduling_warnings', v_delivery.delivery_snapshot->'scheduling_warnings',
+      'sender', p_sender
+    )
+  );
+
+  return v_delivery;
+end;
+$$;
+
+revoke all on function public.mark_delivery_sent_user(uuid, text, jsonb)
+  from public;
+grant execute on function public.mark_delivery_sent_user(uuid, text, jsonb)
+  to authenticated;
+
+-- ------------------------------------------------------------
+-- 4. mark_delivery_sent_system: + p_sender
+-- ------------------------------------------------------------
+drop function public.mark_delivery_sent_system(uuid, text);
+
+create function public.mark_delivery_sent_system(
+  p_delivery_id uuid,
+  p_resend_message_id text,
+  p_sender jsonb
+) returns public.deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delivery public.deliveries;
+  v_was_scheduled boolean;
+  v_scheduled_for timestamptz;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status not in ('draft', 'scheduled') then
+    raise exception using errcode = 'P0004', message = 'delivery_not_pending';
+  end if;
+
+  v_was_scheduled := v_delivery.status = 'scheduled';
+  select scheduled_for into v_scheduled_for
+    from public.scheduled_sends where delivery_id = p_delivery_id;
+
+  update public.deliveries
+     set status = 'sent',
+         sent_at = now(),
+         sent_by = null
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  update public.projects
+     set status = 'delivered'
+   where id = v_delivery.project_id
+     and status in ('draft', 'in_review');
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_sent', 'system', null, 'process-scheduled-sends',
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'resend_message_id', p_resend_message_id,
+      'recipient_email', v_delivery.recipient_email,
+      'variant_ids_attached', v_delivery.variant_ids_attached,
+      'recommended_variant_id', v_delivery.recommended_variant_id,
+      'audit_report_id', v_delivery.audit_report_id,
+      'attachment_format', v_delivery.attachment_format,
+      'was_scheduled', v_was_scheduled,
+      'sent_at', v_delivery.sent_at,
+      'scheduled_for', v_scheduled_for,
+      'scheduling_warnings', v_delivery.delivery_snapshot->'scheduling_warnings',
+      'sender', p_sender
+    )
+  );
+
+  return v_delivery;
+end;
+$$;
+
+revoke all on function public.mark_delivery_sent_system(uuid, text, jsonb)
+  from public;
+grant execute on function public.mark_delivery_sent_system(uuid, text, jsonb)
+  to service_role;
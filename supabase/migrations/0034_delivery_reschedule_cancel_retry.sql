@@ -0,0 +1,529 @@
+-- ============================================================
+-- ClearPress AI — Reschedule, cancel and retry deliveries
+--
+-- WHAT
+-- ----
+-- Once create_delivery queued a scheduled_sends row, the only outcomes
+-- were sent or failed, and a failed delivery stayed failed. Staff move
+-- embargo times and pull deliveries when the client calls, so:
+--
+--   reschedule_delivery — moves a scheduled delivery to a new future time
+--                         and stores the scheduling warnings the user
+--                         acknowledged for it (the composer's
+--                         getSchedulingWarnings, re-run in the browser).
+--                         Resets the attempt counter.
+--   cancel_delivery     — withdraws a scheduled delivery, with a reason.
+--                         New delivery status 'cancelled'.
+--   retry_delivery      — re-queues a failed delivery to go out now. The
+--                         cron worker sends it from delivery_snapshot like
+--                         any other scheduled send; immediate-path
+--                         failures, which never had a scheduled_sends row,
+--                         get one.
+--
+-- Each RPC writes its audit event (delivery_rescheduled /
+-- delivery_cancelled / delivery_retried) in the same transaction.
+--
+--   scheduled_sends.scheduling_warnings — the acknowledged warnings for the
+--                         current scheduled_for once it has been moved
+--                         (null: the ones in delivery_snapshot still
+--                         apply). mark_delivery_sent_* report these in
+--                         delivery_sent.
+--   scheduled_sends.manual_retries — retry_delivery count. The worker adds
+--                         it to the idempotency key, so a retried send is
+--                         not deduped against (or rejected as a collision
+--                         with) the attempt that failed.
+--
+-- deliveries_status_sync_scheduled_sends_fn keeps the invariant "a
+-- scheduled_sends row is unprocessed exactly while its delivery is
+-- scheduled": 'cancelled' now marks it processed like 'sent' and
+-- 'failed', and a move back to 'scheduled' (retry) un-marks it.
+--
+-- A tick that has already picked a row up can still send it after a
+-- cancel or reschedule commits; mark_delivery_sent_system then fails with
+-- delivery_not_pending, leaving the email sent and the delivery cancelled.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0034 --linked
+-- Deploy process-scheduled-sends afterwards.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Columns + status
+-- ------------------------------------------------------------
+alter table public.deliveries
+  drop constraint deliveries_status_check;
+alter table public.deliveries
+  add constraint deliveries_status_check
+  check (status in ('draft', 'scheduled', 'sent', 'failed', 'cancelled'));
+
+alter table public.deliveries
+  add column cancelled_at timestamptz,
+  add column cancelled_by uuid references public.users(id),
+  add column cancellation_reason text;
+
+alter table public.scheduled_sends
+  add column scheduling_warnings jsonb,
+  add column manual_retries int not null default 0;
+
+-- ------------------------------------------------------------
+-- 2. Event types
+-- ------------------------------------------------------------
+alter table public.audit_trail_events
+  drop constraint audit_trail_events_event_type_check;
+alter table public.audit_trail_events
+  add constraint audit_trail_events_event_type_check
+  check (event_type in (
+    'variant_generated', 'compliance_checked', 'manual_review_started',
+    'fix_applied', 'compliance_rechecked', 'sign_off',
+    'delivery_sent', 'feedback_received', 'voice_updated',
+    'audit_report_created', 'audit_revision_started',
+    'variant_approved', 'acknowledge_finding',
+    'feedback_reminder_sent', 'feedback_expired',
+    'manual_finding_added', 'signatures_invalidated',
+    'report_archived', 'audit_trail_exported',
+    'delivery_rescheduled', 'delivery_cancelled', 'delivery_retried'
+  ));
+
+-- ------------------------------------------------------------
+-- 3. Trigger: deliveries.status -> scheduled_sends.processed sync
+-- ------------------------------------------------------------
+create or replace function public.deliveries_status_sync_scheduled_sends_fn()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status is not distinct from new.status then
+    return new;
+  end if;
+  if new.status in ('sent', 'failed', 'cancelled') then
+    update public.scheduled_sends
+       set processed = true,
+           processed_at = now()
+     where delivery_id = new.id;
+  elsif new.status = 'scheduled' then
+    update public.scheduled_sends
+       set processed = false,
+           processed_at = null
+     where delivery_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+-- ------------------------------------------------------------
+-- 4. Helper: scheduling warnings payload gate
+-- Same codes as src/lib/types/delivery.ts SchedulingWarning.
+-- ------------------------------------------------------------
+create or replace function public._scheduling_warnings_valid(p_warnings jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  -- case, not and: jsonb_array_elements raises on a non-array.
+  select case
+    when jsonb_typeof(p_warnings) is distinct from 'array' then false
+    else not exists (
+      select 1 from jsonb_array_elements(p_warnings) w
+       where jsonb_typeof(w) <> 'string'
+          or w #>> '{}' not in ('outside_business_hours', 'japanese_holiday')
+    )
+  end;
+$$;
+
+-- ============================================================
+-- 5. RPC: reschedule_delivery
+-- ============================================================
+create or replace function public.reschedule_delivery(
+  p_delivery_id uuid,
+  p_scheduled_for timestamptz,
+  p_scheduling_warnings jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_send public.scheduled_sends;
+  v_warnings jsonb := coalesce(p_scheduling_warnings, '[]'::jsonb);
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status <> 'scheduled' then
+    raise exception using errcode = 'P0004', message = 'delivery_not_scheduled';
+  end if;
+
+  select * into v_send from public.scheduled_sends
+   where delivery_id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'scheduled_send_not_found';
+  end if;
+
+  if p_scheduled_for is null or p_scheduled_for <= now() then
+    raise exception using errcode = 'P0004', message = 'scheduled_in_past';
+  end if;
+  if not public._scheduling_warnings_valid(v_warnings) then
+    raise exception using errcode = 'P0004', message = 'scheduling_warnings_invalid';
+  end if;
+
+  update public.scheduled_sends
+     set scheduled_for = p_scheduled_for,
+         scheduling_warnings = v_warnings,
+         attempts = 0,
+         error_message = null
+   where id = v_send.id;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_rescheduled', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'recipient_email', v_delivery.recipient_email,
+      'previous_scheduled_for', v_send.scheduled_for,
+      'scheduled_for', p_scheduled_for,
+      'scheduling_warnings', v_warnings
+    )
+  );
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'status', v_delivery.status,
+    'scheduled_for', p_scheduled_for
+  );
+end;
+$$;
+
+revoke all on function public.reschedule_delivery(uuid, timestamptz, jsonb) from public, anon;
+grant execute on function public.reschedule_delivery(uuid, timestamptz, jsonb) to authenticated;
+
+-- ============================================================
+-- 6. RPC: cancel_delivery
+-- ============================================================
+-- The trigger marks the scheduled_sends row processed, so the worker
+-- never claims it again.
+create or replace function public.cancel_delivery(
+  p_delivery_id uuid,
+  p_reason text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_reason text := btrim(coalesce(p_reason, ''));
+  v_scheduled_for timestamptz;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status <> 'scheduled' then
+    raise exception using errcode = 'P0004', message = 'delivery_not_scheduled';
+  end if;
+
+  if char_length(v_reason) < 1 or char_length(v_reason) > 1000 then
+    raise exception using errcode = 'P0004', message = 'cancellation_reason_invalid';
+  end if;
+
+  select scheduled_for into v_scheduled_for
+    from public.scheduled_sends where delivery_id = p_delivery_id;
+
+  update public.deliveries
+     set status = 'cancelled',
+         cancelled_at = now(),
+         cancelled_by = v_actor,
+         cancellation_reason = v_reason
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_cancelled', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'recipient_email', v_delivery.recipient_email,
+      'scheduled_for', v_scheduled_for,
+      'reason', v_reason
+    )
+  );
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'status', v_delivery.status,
+    'cancelled_at', v_delivery.cancelled_at
+  );
+end;
+$$;
+
+revoke all on function public.cancel_delivery(uuid, text) from public, anon;
+grant execute on function public.cancel_delivery(uuid, text) to authenticated;
+
+-- ============================================================
+-- 7. RPC: retry_delivery
+-- ============================================================
+-- Re-queues rather than sending inline, so a retry goes through the one
+-- send path that renders from delivery_snapshot (process-scheduled-sends)
+-- and gets its transient retries. There are no scheduling warnings: like
+-- "send now" in the composer, it goes out at once.
+--
+-- A failure recorded after the email went out (the worker's mark step
+-- failed) is not retried: that would send the email twice.
+create or replace function public.retry_delivery(
+  p_delivery_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_send public.scheduled_sends;
+  v_had_send boolean;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status <> 'failed' then
+    raise exception using errcode = 'P0004', message = 'delivery_not_failed';
+  end if;
+
+  select * into v_send from public.scheduled_sends
+   where delivery_id = p_delivery_id for update;
+  v_had_send := found;
+  if v_had_send and v_send.error_message like 'mark_delivery_sent_%' then
+    raise exception using errcode = 'P0004', message = 'delivery_send_unreconciled';
+  end if;
+
+  if v_had_send then
+    update public.scheduled_sends
+       set scheduled_for = now(),
+           scheduling_warnings = '[]'::jsonb,
+           attempts = 0,
+           error_message = null,
+           manual_retries = manual_retries + 1
+     where id = v_send.id;
+  else
+    insert into public.scheduled_sends
+      (delivery_id, scheduled_for, scheduling_warnings, manual_retries)
+    values (p_delivery_id, now(), '[]'::jsonb, 1);
+  end if;
+
+  -- After the row exists: the trigger un-marks it processed.
+  update public.deliveries
+     set status = 'scheduled'
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_retried', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'recipient_email', v_delivery.recipient_email,
+      'previous_error', case when v_had_send then v_send.error_message end,
+      'previous_attempts', case when v_had_send then v_send.attempts else 0 end,
+      'manual_retries', case when v_had_send then v_send.manual_retries + 1 else 1 end
+    )
+  );
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'status', v_delivery.status
+  );
+end;
+$$;
+
+revoke all on function public.retry_delivery(uuid) from public, anon;
+grant execute on function public.retry_delivery(uuid) to authenticated;
+
+-- ============================================================
+-- 8. mark_delivery_sent_user / mark_delivery_sent_system
+-- ============================================================
+-- Unchanged from 0033 except scheduling_warnings, which now prefers the
+-- warnings acknowledged for the current time over the snapshot's.
+create or replace function public.mark_delivery_sent_user(
+  p_delivery_id uuid,
+  p_resend_message_id text,
+  p_sender jsonb
+) returns public.deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_was_scheduled boolean;
+  v_scheduled_for timestamptz;
+  v_scheduling_warnings jsonb;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status not in ('draft', 'scheduled') then
+    raise exception using errcode = 'P0004', message = 'delivery_not_pending';
+  end if;
+
+  v_was_scheduled := v_delivery.status = 'scheduled';
+  select scheduled_for, scheduling_warnings
+    into v_scheduled_for, v_scheduling_warnings
+    from public.scheduled_sends where delivery_id = p_delivery_id;
+
+  update public.deliveries
+     set status = 'sent',
+         sent_at = now(),
+         sent_by = v_actor
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  -- Project status auto-transition (idempotent)
+  update public.projects
+     set status = 'delivered'
+   where id = v_delivery.project_id
+     and status in ('draft', 'in_review');
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_sent', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'resend_message_id', p_resend_message_id,
+      'recipient_email', v_delivery.recipient_email,
+      'variant_ids_attached', v_delivery.variant_ids_attached,
+      'recommended_variant_id', v_delivery.recommended_variant_id,
+      'audit_report_id', v_delivery.audit_report_id,
+      'attachment_format', v_delivery.attachment_format,
+      'was_scheduled', v_was_scheduled,
+      'sent_at', v_delivery.sent_at,
+      'scheduled_for', v_scheduled_for,
+      'scheduling_warnings', coalesce(
+        v_scheduling_warnings,
+        v_delivery.delivery_snapshot->'scheduling_warnings'
+      ),
+      'sender', p_sender
+    )
+  );
+
+  return v_delivery;
+end;
+$$;
+
+create or replace function public.mark_delivery_sent_system(
+  p_delivery_id uuid,
+  p_resend_message_id text,
+  p_sender jsonb
+) returns public.deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delivery public.deliveries;
+  v_was_scheduled boolean;
+  v_scheduled_for timestamptz;
+  v_scheduling_warnings jsonb;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status not in ('draft', 'scheduled') then
+    raise exception using errcode = 'P0004', message = 'delivery_not_pending';
+  end if;
+
+  v_was_scheduled := v_delivery.status = 'scheduled';
+  select scheduled_for, scheduling_warnings
+    into v_scheduled_for, v_scheduling_warnings
+    from public.scheduled_sends where delivery_id = p_delivery_id;
+
+  update public.deliveries
+     set status = 'sent',
+         sent_at = now(),
+         sent_by = null
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  update public.projects
+     set status = 'delivered'
+   where id = v_delivery.project_id
+     and status in ('draft', 'in_review');
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_sent', 'system', null, 'process-scheduled-sends',
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'resend_message_id', p_resend_message_id,
+      'recipient_email', v_delivery.recipient_email,
+      'variant_ids_attached', v_delivery.variant_ids_attached,
+      'recommended_variant_id', v_delivery.recommended_variant_id,
+      'audit_report_id', v_delivery.audit_report_id,
+      'attachment_format', v_delivery.attachment_format,
+      'was_scheduled', v_was_scheduled,
+      'sent_at', v_delivery.sent_at,
+      'scheduled_for', v_scheduled_for,
+      'scheduling_warnings', coalesce(
+        v_scheduling_warnings,
+        v_delivery.delivery_snapshot->'scheduling_warnings'
+      ),
+      'sender', p_sender
+    )
+  );
+
+  return v_delivery;
+end;
+$$;
@@ -0,0 +1,427 @@
+-- ============================================================
+-- ClearPress AI — Leases for process-scheduled-sends
+--
+-- WHAT
+-- ----
+-- The cron worker read due scheduled_sends rows with a plain SELECT and
+-- relied on the email transport's idempotency key to dedupe overlapping
+-- ticks. A tick that overruns (a slow pdfshift render) and the next one
+-- both pick up the same rows; whether the recipient gets one email then
+-- depends on the transport. Workers now lease the rows they process:
+--
+--   scheduled_sends.leased_until / leased_by — who is processing the row
+--                         and until when. Null when nobody is.
+--
+--   claim_scheduled_sends — settles expired leases, then leases up to
+--                         p_limit due, unleased rows to p_worker
+--                         (FOR UPDATE SKIP LOCKED, so concurrent claims
+--                         never return the same row).
+--   extend_scheduled_send_leases — heartbeat. Extends the leases p_worker
+--                         still holds and returns their ids; an id
+--                         missing from the result has been lost.
+--   record_scheduled_attempt_failure — now takes p_worker and raises
+--                         lease_lost unless p_worker holds the lease.
+--                         Releases it, so the row is due again next tick.
+--
+-- An expired lease means the worker died or stalled mid-send. The claim
+-- counts it as a failed attempt (error_message 'lease_expired: <worker>')
+-- and fails the delivery once that was the last attempt, so a row that
+-- kills its worker is not re-claimed forever. The worker that reclaims
+-- the row sends under the same idempotency key, which dedupes the email
+-- if the dead worker had got as far as sending it.
+--
+-- deliveries_status_sync_scheduled_sends_fn releases the lease whenever
+-- the delivery settles or is re-queued. reschedule_delivery and
+-- cancel_delivery refuse a delivery whose send is in progress
+-- (delivery_send_in_progress), which closes the cancel-while-sending race
+-- noted in 0034.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0035 --linked
+-- Deploy process-scheduled-sends afterwards: the previous version calls
+-- the two-argument record_scheduled_attempt_failure, which is dropped.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Columns
+-- ------------------------------------------------------------
+alter table public.scheduled_sends
+  add column leased_until timestamptz,
+  add column leased_by text;
+
+-- ------------------------------------------------------------
+-- 2. Trigger: release the lease with every status change
+-- ------------------------------------------------------------
+create or replace function public.deliveries_status_sync_scheduled_sends_fn()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status is not distinct from new.status then
+    return new;
+  end if;
+  if new.status in ('sent', 'failed', 'cancelled') then
+    update public.scheduled_sends
+       set processed = true,
+           processed_at = now(),
+           leased_until = null,
+           leased_by = null
+     where delivery_id = new.id;
+  elsif new.status = 'scheduled' then
+    update public.scheduled_sends
+       set processed = false,
+           processed_at = null,
+           leased_until = null,
+           leased_by = null
+     where delivery_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+-- ============================================================
+-- 3. RPC: claim_scheduled_sends
+-- ============================================================
+-- Returns { claimed: [...], expired: [...] }. claimed rows are ordered by
+-- scheduled_for; reclaimed is true for a row whose expired lease this
+-- call settled. expired lists every lease settled, with failed = true
+-- where that was the row's last attempt.
+create or replace function public.claim_scheduled_sends(
+  p_worker text,
+  p_limit int,
+  p_lease_seconds int,
+  p_max_attempts int
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expired jsonb;
+  v_expired_ids uuid[];
+  v_claimed jsonb;
+  v_row record;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+  if p_worker is null or btrim(p_worker) = ''
+     or p_limit is null or p_limit < 1
+     or p_lease_seconds is null or p_lease_seconds < 1
+     or p_max_attempts is null or p_max_attempts < 1 then
+    raise exception using errcode = 'P0004', message = 'claim_invalid';
+  end if;
+
+  -- Expired leases: the holder stopped heartbeating. Rows another claim
+  -- is settling right now are skipped; that claim reports them.
+  with stale as (
+    select id, leased_by
+      from public.scheduled_sends
+     where processed = false
+       and leased_until <= now()
+     for update skip locked
+  ), settled as (
+    update public.scheduled_sends s
+       set attempts = s.attempts + 1,
+           error_message = 'lease_expired: ' || stale.leased_by,
+           leased_until = null,
+           leased_by = null
+      from stale
+     where s.id = stale.id
+    returning s.id, s.delivery_id, s.attempts, s.error_message, stale.leased_by
+  )
+  select coalesce(array_agg(id), '{}'),
+         coalesce(jsonb_agg(jsonb_build_object(
+           'id', id,
+           'delivery_id', delivery_id,
+           'leased_by', leased_by,
+           'attempts_after', attempts,
+           'failed', attempts >= p_max_attempts
+         )), '[]'::jsonb)
+    into v_expired_ids, v_expired
+    from settled;
+
+  for v_row in
+    select delivery_id, error_message from public.scheduled_sends
+     where id = any(v_expired_ids) and attempts >= p_max_attempts
+  loop
+    perform public.mark_delivery_failed(v_row.delivery_id, v_row.error_message);
+  end loop;
+
+  with due as (
+    select id
+      from public.scheduled_sends
+     where processed = false
+       and leased_until is null
+       and attempts < p_max_attempts
+       and scheduled_for <= now()
+     order by scheduled_for
+     limit p_limit
+     for update skip locked
+  ), leased as (
+    update public.scheduled_sends s
+       set leased_until = now() + make_interval(secs => p_lease_seconds),
+           leased_by = p_worker
+      from due
+     where s.id = due.id
+    returning s.*
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'id', id,
+           'delivery_id', delivery_id,
+           'scheduled_for', scheduled_for,
+           'attempts', attempts,
+           'manual_retries', manual_retries,
+           'leased_until', leased_until,
+           'reclaimed', id = any(v_expired_ids)
+         ) order by scheduled_for), '[]'::jsonb)
+    into v_claimed
+    from leased;
+
+  return jsonb_build_object('claimed', v_claimed, 'expired', v_expired);
+end;
+$$;
+
+revoke all on function public.claim_scheduled_sends(text, int, int, int) from public, anon, authenticated;
+grant execute on function public.claim_scheduled_sends(text, int, int, int) to service_role;
+
+-- ============================================================
+-- 4. RPC: extend_scheduled_send_leases
+-- ============================================================
+-- A lease that has run out but not yet been reclaimed is still extended:
+-- the row lock makes this and a reclaiming claim mutually exclusive, so
+-- exactly one of them wins.
+create or replace function public.extend_scheduled_send_leases(
+  p_scheduled_send_ids uuid[],
+  p_worker text,
+  p_lease_seconds int
+) returns uuid[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[];
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+  if p_worker is null or p_lease_seconds is null or p_lease_seconds < 1 then
+    raise exception using errcode = 'P0004', message = 'claim_invalid';
+  end if;
+
+  with extended as (
+    update public.scheduled_sends
+       set leased_until = now() + make_interval(secs => p_lease_seconds)
+     where id = any(coalesce(p_scheduled_send_ids, '{}'))
+       and leased_by = p_worker
+       and processed = false
+    returning id
+  )
+  select coalesce(array_agg(id), '{}') into v_ids from extended;
+
+  return v_ids;
+end;
+$$;
+
+revoke all on function public.extend_scheduled_send_leases(uuid[], text, int) from public, anon, authenticated;
+grant execute on function public.extend_scheduled_send_leases(uuid[], text, int) to service_role;
+
+-- ============================================================
+-- 5. RPC: record_scheduled_attempt_failure (now lease-checked)
+-- ============================================================
+drop function public.record_scheduled_attempt_failure(uuid, text);
+
+create function public.record_scheduled_attempt_failure(
+  p_scheduled_send_id uuid,
+  p_error_message text,
+  p_worker text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.scheduled_sends;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+
+  select * into v_row from public.scheduled_sends
+   where id = p_scheduled_send_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'scheduled_send_not_found';
+  end if;
+  if v_row.processed or v_row.leased_by is distinct from p_worker then
+    raise exception using errcode = 'P0004', message = 'lease_lost';
+  end if;
+
+  update public.scheduled_sends
+     set attempts = attempts + 1,
+         error_message = p_error_message,
+         leased_until = null,
+         leased_by = null
+   where id = p_scheduled_send_id
+   returning * into v_row;
+
+  return jsonb_build_object('attempts_after', v_row.attempts);
+end;
+$$;
+
+revoke all on function public.record_scheduled_attempt_failure(uuid, text, text) from public, anon, authenticated;
+grant execute on function public.record_scheduled_attempt_failure(uuid, text, text) to service_role;
+
+-- ============================================================
+-- 6. reschedule_delivery / cancel_delivery
+-- ============================================================
+-- Unchanged from 0034 except the delivery_send_in_progress gate, and
+-- reschedule_delivery clearing the lease a dead worker left behind.
+create or replace function public.reschedule_delivery(
+  p_delivery_id uuid,
+  p_scheduled_for timestamptz,
+  p_scheduling_warnings jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_send public.scheduled_sends;
+  v_warnings jsonb := coalesce(p_scheduling_warnings, '[]'::jsonb);
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status <> 'scheduled' then
+    raise exception using errcode = 'P0004', message = 'delivery_not_scheduled';
+  end if;
+
+  select * into v_send from public.scheduled_sends
+   where delivery_id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'scheduled_send_not_found';
+  end if;
+  if v_send.leased_until > now() then
+    raise exception using errcode = 'P0004', message = 'delivery_send_in_progress';
+  end if;
+
+  if p_scheduled_for is null or p_scheduled_for <= now() then
+    raise exception using errcode = 'P0004', message = 'scheduled_in_past';
+  end if;
+  if not public._scheduling_warnings_valid(v_warnings) then
+    raise exception using errcode = 'P0004', message = 'scheduling_warnings_invalid';
+  end if;
+
+  update public.scheduled_sends
+     set scheduled_for = p_scheduled_for,
+         scheduling_warnings = v_warnings,
+         attempts = 0,
+         error_message = null,
+         leased_until = null,
+         leased_by = null
+   where id = v_send.id;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_rescheduled', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'recipient_email', v_delivery.recipient_email,
+      'previous_scheduled_for', v_send.scheduled_for,
+      'scheduled_for', p_scheduled_for,
+      'scheduling_warnings', v_warnings
+    )
+  );
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'status', v_delivery.status,
+    'scheduled_for', p_scheduled_for
+  );
+end;
+$$;
+
+create or replace function public.cancel_delivery(
+  p_delivery_id uuid,
+  p_reason text
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_reason text := btrim(coalesce(p_reason, ''));
+  v_send public.scheduled_sends;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status <> 'scheduled' then
+    raise exception using errcode = 'P0004', message = 'delivery_not_scheduled';
+  end if;
+
+  if char_length(v_reason) < 1 or char_length(v_reason) > 1000 then
+    raise exception using errcode = 'P0004', message = 'cancellation_reason_invalid';
+  end if;
+
+  select * into v_send from public.scheduled_sends
+   where delivery_id = p_delivery_id for update;
+  if v_send.leased_until > now() then
+    raise exception using errcode = 'P0004', message = 'delivery_send_in_progress';
+  end if;
+
+  update public.deliveries
+     set status = 'cancelled',
+         cancelled_at = now(),
+         cancelled_by = v_actor,
+         cancellation_reason = v_reason
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_cancelled', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'recipient_email', v_delivery.recipient_email,
+      'scheduled_for', v_send.scheduled_for,
+      'reason', v_reason
+    )
+  );
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'status', v_delivery.status,
+    'cancelled_at', v_delivery.cancelled_at
+  );
+end;
+$$;
@@ -0,0 +1,340 @@
+-- ============================================================
+-- ClearPress AI — Embargo-aware scheduling
+--
+-- WHAT
+-- ----
+-- PRD §5.4 asks scheduled sends to respect embargo workflows (clinical
+-- conference times, market open/close). getSchedulingWarnings only knew
+-- business hours and Japanese holidays. Three rule sources join them:
+--
+--   projects.market_hours_sensitive — IR projects. A send during a Tokyo
+--                         Stock Exchange trading session warns
+--                         (tse_trading_hours).
+--   projects.embargo_lift_at / embargo_label — when the project's news may
+--                         go out, e.g. the congress presentation slot. A
+--                         send before it warns (embargo_before_lift).
+--   projects.embargo_enforced — turns that warning into a block: no
+--                         delivery of the project is queued or sent before
+--                         the lift (embargo_not_lifted).
+--   scheduling_blackouts — firm-wide windows nothing should go out in
+--                         (results days, office closures). A send inside
+--                         an active one warns (blackout_window).
+--
+-- The warnings are computed in the browser like the existing two and
+-- stored the same way; _scheduling_warnings_valid accepts the new codes.
+--
+-- The block is a pair of BEFORE triggers rather than a gate in each RPC:
+-- a scheduled_sends row may not be inserted or moved to a time before an
+-- enforced lift (create_delivery, reschedule_delivery, retry_delivery),
+-- and a delivery may not be created as 'draft' — the send-now path —
+-- while the embargo holds.
+--
+--   set_project_scheduling_rules (DEFINER) — saves the four project
+--                         columns and writes scheduling_rules_updated.
+--                         Refuses to enforce an embargo that deliveries
+--                         already scheduled before the lift would break
+--                         (embargo_conflicts_scheduled).
+--   save_scheduling_blackout (DEFINER) — creates or updates a blackout.
+--                         scheduling_blackouts is read-only to clients.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0036 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Columns + table
+-- ------------------------------------------------------------
+alter table public.projects
+  add column embargo_lift_at timestamptz,
+  add column embargo_label text check (length(embargo_label) <= 200),
+  add column embargo_enforced boolean not null default false,
+  add column market_hours_sensitive boolean not null default false,
+  add constraint projects_embargo_enforced_needs_lift
+    check (not embargo_enforced or embargo_lift_at is not null);
+
+create table public.scheduling_blackouts (
+  id uuid primary key default gen_random_uuid(),
+  label text not null check (length(btrim(label)) between 1 and 200),
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  active boolean not null default true,
+  created_by uuid references public.users(id),
+  created_at timestamptz not null default now(),
+  updated_by uuid references public.users(id),
+  updated_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index idx_scheduling_blackouts_window
+  on public.scheduling_blackouts(starts_at, ends_at)
+  where active;
+
+alter table public.scheduling_blackouts enable row level security;
+
+create policy firm_users_read_access on public.scheduling_blackouts
+  for select using (auth.role() = 'authenticated');
+
+-- ------------------------------------------------------------
+-- 2. Event types
+-- ------------------------------------------------------------
+alter table public.audit_trail_events
+  drop constraint audit_trail_events_event_type_check;
+alter table public.audit_trail_events
+  add constraint audit_trail_events_event_type_check
+  check (event_type in (
+    'variant_generated', 'compliance_checked', 'manual_review_started',
+    'fix_applied', 'compliance_rechecked', 'sign_off',
+    'delivery_sent', 'feedback_received', 'voice_updated',
+    'audit_report_created', 'audit_revision_started',
+    'variant_approved', 'acknowledge_finding',
+    'feedback_reminder_sent', 'feedback_expired',
+    'manual_finding_added', 'signatures_invalidated',
+    'report_archived', 'audit_trail_exported',
+    'delivery_rescheduled', 'delivery_cancelled', 'delivery_retried',
+    'scheduling_rules_updated'
+  ));
+
+-- ------------------------------------------------------------
+-- 3. Helper: scheduling warnings payload gate
+-- Same codes as src/lib/types/delivery.ts SchedulingWarning.
+-- ------------------------------------------------------------
+create or replace function public._scheduling_warnings_valid(p_warnings jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  -- case, not and: jsonb_array_elements raises on a non-array.
+  select case
+    when jsonb_typeof(p_warnings) is distinct from 'array' then false
+    else not exists (
+      select 1 from jsonb_array_elements(p_warnings) w
+       where jsonb_typeof(w) <> 'string'
+          or w #>> '{}' not in (
+               'outside_business_hours', 'japanese_holiday',
+               'tse_trading_hours', 'embargo_before_lift', 'blackout_window'
+             )
+    )
+  end;
+$$;
+
+-- ------------------------------------------------------------
+-- 4. Enforced embargo: triggers
+-- ------------------------------------------------------------
+create or replace function public._embargo_blocks(
+  p_project_id uuid,
+  p_at timestamptz
+) returns boolean
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select exists (
+    select 1 from public.projects
+     where id = p_project_id
+       and embargo_enforced
+       and p_at < embargo_lift_at
+  );
+$$;
+
+create or replace function public._guard_scheduled_send_embargo()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+     and new.scheduled_for is not distinct from old.scheduled_for then
+    return new;
+  end if;
+  if public._embargo_blocks(
+       (select project_id from public.deliveries where id = new.delivery_id),
+       new.scheduled_for
+     ) then
+    raise exception using errcode = 'P0004', message = 'embargo_not_lifted';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_scheduled_sends_embargo_guard
+  before insert or update of scheduled_for on public.scheduled_sends
+  for each row execute function public._guard_scheduled_send_embargo();
+
+-- create_delivery inserts a send-now delivery as 'draft'; send-delivery
+-- sends it straight away.
+create or replace function public._guard_delivery_embargo()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'draft' and public._embargo_blocks(new.project_id, now()) then
+    raise exception using errcode = 'P0004', message = 'embargo_not_lifted';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_deliveries_embargo_guard
+  before insert on public.deliveries
+  for each row execute function public._guard_delivery_embargo();
+
+-- ------------------------------------------------------------
+-- 5. RPC: set_project_scheduling_rules
+-- ------------------------------------------------------------
+-- Null p_embargo_lift_at clears the embargo (and must not be enforced).
+-- Returns the saved settings.
+create or replace function public.set_project_scheduling_rules(
+  p_project_id uuid,
+  p_embargo_lift_at timestamptz,
+  p_embargo_label text,
+  p_embargo_enforced boolean,
+  p_market_hours_sensitive boolean
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_project public.projects;
+  v_label text := nullif(btrim(coalesce(p_embargo_label, '')), '');
+  v_enforced boolean := coalesce(p_embargo_enforced, false);
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_project
+    from public.projects
+   where id = p_project_id
+   for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'project_not_found';
+  end if;
+
+  if length(v_label) > 200 then
+    raise exception using errcode = 'P0004', message = 'embargo_label_invalid';
+  end if;
+  if v_enforced and p_embargo_lift_at is null then
+    raise exception using errcode = 'P0004', message = 'embargo_lift_required';
+  end if;
+
+  -- Deliveries queued before the lift would otherwise stay queued and be
+  -- refused only when someone tries to move them.
+  if v_enforced and exists (
+    select 1
+      from public.deliveries d
+      join public.scheduled_sends s on s.delivery_id = d.id
+     where d.project_id = p_project_id
+       and d.status = 'scheduled'
+       and not s.processed
+       and s.scheduled_for < p_embargo_lift_at
+  ) then
+    raise exception using errcode = 'P0004', message = 'embargo_conflicts_scheduled';
+  end if;
+
+  update public.projects
+     set embargo_lift_at = p_embargo_lift_at,
+         embargo_label = case when p_embargo_lift_at is null then null else v_label end,
+         embargo_enforced = v_enforced,
+         market_hours_sensitive = coalesce(p_market_hours_sensitive, false),
+         updated_at = now()
+   where id = p_project_id
+   returning * into v_project;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    p_project_id, 'scheduling_rules_updated', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'embargo_lift_at', v_project.embargo_lift_at,
+      'embargo_label', v_project.embargo_label,
+      'embargo_enforced', v_project.embargo_enforced,
+      'market_hours_sensitive', v_project.market_hours_sensitive
+    )
+  );
+
+  return jsonb_build_object(
+    'project_id', v_project.id,
+    'embargo_lift_at', v_project.embargo_lift_at,
+    'embargo_label', v_project.embargo_label,
+    'embargo_enforced', v_project.embargo_enforced,
+    'market_hours_sensitive', v_project.market_hours_sensitive
+  );
+end;
+$$;
+
+revoke all on function public.set_project_scheduling_rules(uuid, timestamptz, text, boolean, boolean)
+  from public, anon;
+grant execute on function public.set_project_scheduling_rules(uuid, timestamptz, text, boolean, boolean)
+  to authenticated;
+
+-- ------------------------------------------------------------
+-- 6. RPC: save_scheduling_blackout
+-- ------------------------------------------------------------
+-- p_blackout_id null → create. Blackouts are retired with p_active false,
+-- never deleted. Returns the blackout id.
+create or replace function public.save_scheduling_blackout(
+  p_blackout_id uuid,
+  p_label text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz,
+  p_active boolean
+) returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_label text := btrim(coalesce(p_label, ''));
+  v_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  if v_label = '' or length(v_label) > 200 then
+    raise exception using errcode = 'P0004', message = 'blackout_label_invalid';
+  end if;
+  if p_starts_at is null or p_ends_at is null or p_ends_at <= p_starts_at then
+    raise exception using errcode = 'P0004', message = 'blackout_window_invalid';
+  end if;
+
+  if p_blackout_id is null then
+    insert into public.scheduling_blackouts
+      (label, starts_at, ends_at, active, created_by, updated_by)
+    values (v_label, p_starts_at, p_ends_at, coalesce(p_active, true), v_actor, v_actor)
+    returning id into v_id;
+  else
+    update public.scheduling_blackouts
+       set label = v_label,
+           starts_at = p_starts_at,
+           ends_at = p_ends_at,
+           active = coalesce(p_active, active),
+           updated_by = v_actor,
+           updated_at = now()
+     where id = p_blackout_id
+     returning id into v_id;
+    if v_id is null then
+      raise exception using errcode = 'P0004', message = 'blackout_not_found';
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.save_scheduling_blackout(uuid, text, timestamptz, timestamptz, boolean)
+  from public, anon;
+grant execute on function public.save_scheduling_blackout(uuid, text, timestamptz, timestamptz, boolean)
+  to authenticated;
@@ -0,0 +1,135 @@
+-- ============================================================
+-- ClearPress AI — Variant revision attribution
+--
+-- WHAT
+-- ----
+-- _record_variant_revision (0020) is SECURITY DEFINER and takes the author
+-- as parameters. It was granted to authenticated because regenerate_variant
+-- ran as INVOKER, which let any signed-in user call the helper directly and
+-- write a revision attributed to anyone.
+--
+--   _record_variant_revision — execute revoked from public and
+--                              authenticated. Only the DEFINER RPCs below
+--                              call it.
+--   regenerate_variant       — now SECURITY DEFINER. The triggering user is
+--                              auth.uid() and their name is read from users;
+--                              p_actor_id / p_actor_name_snapshot are gone
+--                              (dropped and re-created, grants re-issued).
+--                              Body otherwise unchanged from 0030.
+--
+-- apply_fix, save_variant_body and restore_variant_revision already derive
+-- the author from auth.uid().
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0037 --linked
+-- Deploy generate-variants afterwards.
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. _record_variant_revision: internal only
+-- ------------------------------------------------------------
+revoke all on function public._record_variant_revision(
+  uuid, text, text, text, uuid, text, uuid, uuid
+) from public, anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 2. regenerate_variant: DEFINER, actor from auth.uid()
+-- ------------------------------------------------------------
+drop function public.regenerate_variant(
+  uuid, int, text, text, jsonb, int, int, text, jsonb, uuid, uuid, text, jsonb
+);
+
+create function public.regenerate_variant(
+  p_content_item_id uuid,
+  p_variant_index int,
+  p_variant_label text,
+  p_body_text text,
+  p_body_doc jsonb,
+  p_char_count int,
+  p_reading_time_seconds int,
+  p_model_used text,
+  p_generation_params jsonb,
+  p_project_id uuid,
+  p_audit_details jsonb
+) returns public.content_variants
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_row public.content_variants;
+  v_existing_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  select id into v_existing_id
+  from public.content_variants
+  where content_item_id = p_content_item_id and variant_index = p_variant_index;
+
+  if v_existing_id is not null then
+    delete from public.compliance_findings where variant_id = v_existing_id;
+  end if;
+
+  insert into public.content_variants (
+    content_item_id, variant_index, variant_label, body_text, body_doc,
+    char_count, reading_time_seconds, model_used, generation_params,
+    internal_approved, internal_approved_by, internal_approved_at,
+    updated_at
+  ) values (
+    p_content_item_id, p_variant_index, p_variant_label, p_body_text,
+    p_body_doc, p_char_count, p_reading_time_seconds, p_model_used,
+    p_generation_params, false, null, null,
+    now()
+  )
+  on conflict (content_item_id, variant_index) do update set
+    variant_label = excluded.variant_label,
+    body_text = excluded.body_text,
+    body_doc = excluded.body_doc,
+    char_count = excluded.char_count,
+    reading_time_seconds = excluded.reading_time_seconds,
+    model_used = excluded.model_used,
+    generation_params = excluded.generation_params,
+    internal_approved = false,
+    internal_approved_by = null,
+    internal_approved_at = null,
+    updated_at = now()
+  returning * into v_row;
+
+  perform public._record_variant_revision(
+    v_row.id,
+    case when v_existing_id is null then 'generated' else 'regenerated' end,
+    'model', p_model_used, v_actor, v_actor_name
+  );
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details, model_used)
+  values (
+    p_project_id,
+    null,
+    'variant_generated',
+    'user',
+    v_actor,
+    v_actor_name,
+    p_audit_details || jsonb_build_object('variant_id', v_row.id),
+    p_model_used
+  );
+
+  return v_row;
+end;
+$$;
+
+revoke all on function public.regenerate_variant(
+  uuid, int, text, text, jsonb, int, int, text, jsonb, uuid, jsonb
+) from public, anon;
+grant execute on function public.regenerate_variant(
+  uuid, int, text, text, jsonb, int, int, text, jsonb, uuid, jsonb
+) to authenticated;
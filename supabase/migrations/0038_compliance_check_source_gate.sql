@@ -0,0 +1,120 @@
+-- ============================================================
+-- ClearPress AI — Automated findings only in record_compliance_check
+--
+-- WHAT
+-- ----
+-- record_compliance_check (0024) copied each payload row's `source` as
+-- given, so a caller could insert findings marked 'manual'. Those survive
+-- rechecks and count as reviewer-filed in the audit report. The RPC now
+-- raises finding_source_invalid for any source other than 'deterministic'
+-- or 'llm'; manual findings go through add_manual_finding only. Rows
+-- without a source still fall back to the regulation_reference tag.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0038 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. record_compliance_check: reject non-automated sources
+-- Same signature; CREATE OR REPLACE preserves the grant.
+-- ------------------------------------------------------------
+create or replace function public.record_compliance_check(
+  p_variant_id uuid,
+  p_project_id uuid,
+  p_findings jsonb,        -- jsonb array of rows to insert (no variant_id field — set here)
+  p_audit_details jsonb,   -- caller-side counts + run metadata, merged with server-derived fields
+  p_model_used text
+) returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  v_prior_count int;
+  v_event_type text;
+  v_inserted jsonb;
+begin
+  -- Manual findings are filed through add_manual_finding only.
+  if exists (
+    select 1 from jsonb_array_elements(coalesce(p_findings, '[]'::jsonb)) f
+     where f ? 'source'
+       and f->>'source' is distinct from 'deterministic'
+       and f->>'source' is distinct from 'llm'
+  ) then
+    raise exception using errcode = 'P0004', message = 'finding_source_invalid';
+  end if;
+
+  select count(*) into v_prior_count
+    from public.compliance_findings
+   where variant_id = p_variant_id
+     and source <> 'manual';
+
+  delete from public.compliance_findings
+   where variant_id = p_variant_id
+     and source <> 'manual';
+
+  if jsonb_array_length(coalesce(p_findings, '[]'::jsonb)) > 0 then
+    with ins as (
+      insert into public.compliance_findings
+        (variant_id, severity, source_text, paragraph_index, anchor_start,
+         anchor_end, anchor_context_hash, explanation, regulation_reference,
+         suggested_correction, resolution_status, source)
+      select
+        p_variant_id,
+        (f->>'severity'),
+        (f->>'source_text'),
+        (f->>'paragraph_index')::int,
+        (f->>'anchor_start')::int,
+        (f->>'anchor_end')::int,
+        (f->>'anchor_context_hash'),
+        (f->>'explanation'),
+        (f->>'regulation_reference'),
+        nullif(f->>'suggested_correction', ''),
+        'unresolved',
+        coalesce(
+          f->>'source',
+          case when f->>'regulation_reference' like '%[deterministic]'
+               then 'deterministic' else 'llm' end
+        )
+      from jsonb_array_elements(p_findings) f
+      returning severity, source_text, paragraph_index, anchor_start,
+                anchor_end, anchor_context_hash, explanation,
+                regulation_reference, suggested_correction, source
+    )
+    select coalesce(jsonb_agg(to_jsonb(ins.*)), '[]'::jsonb)
+      into v_inserted
+      from ins;
+  else
+    v_inserted := '[]'::jsonb;
+  end if;
+
+  v_event_type := case when v_prior_count > 0
+                       then 'compliance_rechecked'
+                       else 'compliance_checked' end;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id,
+     actor_name_snapshot, details, model_used)
+  values (
+    p_project_id,
+    null,
+    v_event_type,
+    'system',
+    null,
+    null,
+    p_audit_details
+      || jsonb_build_object(
+        'variant_id', p_variant_id,
+        'prior_findings_cleared', v_prior_count
+      ),
+    p_model_used
+  );
+
+  return jsonb_build_object(
+    'prior_findings_count', v_prior_count,
+    'event_type', v_event_type,
+    'inserted_findings', v_inserted
+  );
+end;
+$$;
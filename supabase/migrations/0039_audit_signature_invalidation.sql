@@ -0,0 +1,66 @@
+-- ============================================================
+-- ClearPress AI — Signature invalidation under the append-only trigger
+--
+-- WHAT
+-- ----
+-- finalize_audit_report (0025, carried into 0026 / 0027) invalidates the
+-- active signatures when the content changed since they were made, by
+-- setting audit_signatures.invalidated_at / invalidated_reason. The
+-- append-only trigger from 0013 refuses every UPDATE of audit_signatures,
+-- so the second signature after an edit failed instead.
+--
+--   trg_audit_signatures_append_only      — now BEFORE DELETE only.
+--   trg_audit_signatures_invalidate_once  — BEFORE UPDATE. The only change
+--                                           allowed is setting
+--                                           invalidated_at and
+--                                           invalidated_reason on an
+--                                           active signature; everything
+--                                           else still raises, and an
+--                                           invalidation is final.
+--
+-- Clients lose INSERT, UPDATE and DELETE on audit_signatures, so only
+-- finalize_audit_report (DEFINER) writes them. A row inserted directly
+-- through PostgREST would otherwise fill a later sign-off slot that
+-- finalize_audit_report counts as signed.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0039 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Trigger: invalidate once, change nothing else
+-- ------------------------------------------------------------
+create or replace function public._guard_audit_signature_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.invalidated_at is null
+     and new.invalidated_at is not null
+     and new.invalidated_reason is not null
+     and to_jsonb(new) - 'invalidated_at' - 'invalidated_reason'
+       = to_jsonb(old) - 'invalidated_at' - 'invalidated_reason' then
+    return new;
+  end if;
+  raise exception 'audit records are append-only: %.% can only be invalidated, once',
+    tg_table_schema, tg_table_name
+    using errcode = 'P0001';
+end;
+$$;
+
+drop trigger if exists trg_audit_signatures_append_only
+  on public.audit_signatures;
+create trigger trg_audit_signatures_append_only
+  before delete on public.audit_signatures
+  for each row execute function public._deny_audit_mutation();
+
+create trigger trg_audit_signatures_invalidate_once
+  before update on public.audit_signatures
+  for each row execute function public._guard_audit_signature_update();
+
+-- ------------------------------------------------------------
+-- 2. Grants
+-- ------------------------------------------------------------
+revoke insert, update, delete on public.audit_signatures from anon, authenticated;
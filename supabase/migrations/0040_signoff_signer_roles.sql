@@ -0,0 +1,286 @@
+-- ============================================================
+-- ClearPress AI — Sign-off slots require the signer's role
+--
+-- WHAT
+-- ----
+-- finalize_audit_report (0025) filled the next pending slot with whoever
+-- signed, so a policy of reviewer + compliance officer + legal counsel
+-- could be completed by any three firm users. The signer's users.role now
+-- has to match the slot, except the reviewer slot, which stays open to
+-- every firm user as before 0025:
+--
+--   reviewer            — any users.role
+--   compliance_officer  — users.role = 'compliance_officer'
+--   legal_counsel       — users.role = 'legal_counsel'
+--
+-- Anything else raises signer_role_not_allowed.
+--
+-- users.role is assigned by an administrator in the dashboard. Clients keep
+-- UPDATE on the profile columns only, and lose INSERT and DELETE: the row
+-- is created by handle_new_user (DEFINER), and deleting it to insert it
+-- again with another role would grant a slot just the same.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0040 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. users.role is not client-writable
+-- ------------------------------------------------------------
+revoke insert, update, delete on public.users from anon, authenticated;
+grant update (full_name, full_name_kana, language_pref, updated_at)
+  on public.users to authenticated;
+
+-- ------------------------------------------------------------
+-- 2. RPC: finalize_audit_report (signer role check)
+-- ------------------------------------------------------------
+-- Unchanged from 0027 apart from the signer_role_not_allowed check.
+-- CREATE OR REPLACE preserves the grant.
+create or replace function public.finalize_audit_report(
+  p_audit_report_id uuid,
+  p_signature_hash text,
+  p_canonical_payload jsonb
+) returns public.audit_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_actor_role text;
+  v_report public.audit_reports;
+  v_snapshot jsonb;
+  v_payload_signer text;
+  v_role text := p_canonical_payload->>'signoff_role';
+  v_key_id text := p_canonical_payload->>'key_id';
+  v_next_role text;
+  v_invalidated_count int;
+  v_remaining int;
+  v_approved_count int;
+  v_unresolved_blocker_count int;
+  v_stale_count int;
+  v_compliance_unchecked_count int;
+  v_signature_id uuid;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_report from public.audit_reports
+    where id = p_audit_report_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'report_not_found';
+  end if;
+
+  if v_report.status not in ('draft', 'partially_signed') then
+    raise exception using errcode = 'P0004', message = 'report_not_signable';
+  end if;
+
+  -- Only a published, unretired key may sign; otherwise nobody outside
+  -- could verify the signature.
+  if v_key_id is null or not exists (
+    select 1 from public.audit_signing_keys
+     where key_id = v_key_id and retired_at is null
+  ) then
+    raise exception using errcode = 'P0004', message = 'signing_key_unavailable';
+  end if;
+
+  if not exists (
+    select 1 from public.audit_trail_events
+     where project_id = v_report.project_id
+       and chain_seq = (p_canonical_payload #>> '{audit_trail_head,chain_seq}')::bigint
+       and event_hash = p_canonical_payload #>> '{audit_trail_head,event_hash}'
+  ) then
+    raise exception using errcode = 'P0004', message = 'audit_trail_head_unknown';
+  end if;
+
+  v_payload_signer := p_canonical_payload->>'signer_id';
+  if v_payload_signer is null or v_payload_signer::uuid <> v_actor then
+    raise exception using errcode = 'P0004', message = 'signer_mismatch';
+  end if;
+
+  perform 1
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+   for update;
+
+  select count(*) into v_approved_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id and cv.internal_approved = true;
+  if v_approved_count < 1 then
+    raise exception using errcode = 'P0004', message = 'no_approved_variants';
+  end if;
+
+  select count(*) into v_unresolved_blocker_count
+    from public.compliance_findings cf
+    join public.content_variants cv on cv.id = cf.variant_id
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and cf.severity = 'blocker'
+     and cf.resolution_status = 'unresolved';
+  if v_unresolved_blocker_count > 0 then
+    raise exception using errcode = 'P0004', message = 'unresolved_blockers_exist';
+  end if;
+
+  select count(*) into v_stale_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and coalesce(
+       (select max(ate.occurred_at) from public.audit_trail_events ate
+         where ate.event_type in ('compliance_checked', 'compliance_rechecked')
+           and (ate.details->>'variant_id')::uuid = cv.id),
+       'epoch'::timestamptz
+     ) < cv.updated_at;
+  if v_stale_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_stale';
+  end if;
+
+  select count(*) into v_compliance_unchecked_count
+    from public.content_variants cv
+    join public.content_items ci on ci.id = cv.content_item_id
+   where ci.project_id = v_report.project_id
+     and cv.internal_approved = true
+     and not exists (
+       select 1 from public.audit_trail_events ate
+        where ate.project_id = v_report.project_id
+          and ate.event_type in ('compliance_checked', 'compliance_rechecked')
+          and (ate.details->>'variant_id')::uuid = cv.id
+     );
+  if v_compliance_unchecked_count > 0 then
+    raise exception using errcode = 'P0004', message = 'compliance_not_run';
+  end if;
+
+  v_snapshot := public._build_audit_snapshot(v_report.project_id);
+  if (p_canonical_payload->'report_snapshot') is null
+     or (p_canonical_payload->'report_snapshot') <> v_snapshot then
+    raise exception using errcode = 'P0004', message = 'snapshot_mismatch';
+  end if;
+
+  select full_name, role into v_actor_name, v_actor_role
+    from public.users where id = v_actor;
+
+  -- Signatures over an earlier snapshot no longer cover this content.
+  with invalidated as (
+    update public.audit_signatures
+       set invalidated_at = now(),
+           invalidated_reason = 'content_changed'
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and canonical_payload->'report_snapshot' <> v_snapshot
+    returning id
+  )
+  select count(*) into v_invalidated_count from invalidated;
+
+  if v_invalidated_count > 0 then
+    insert into public.audit_trail_events
+      (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+    values (
+      v_report.project_id, v_report.id, 'signatures_invalidated', 'user',
+      v_actor, v_actor_name,
+      jsonb_build_object(
+        'invalidated_count', v_invalidated_count,
+        'reason', 'content_changed'
+      )
+    );
+  end if;
+
+  -- A new round takes the policy as it stands now.
+  if not exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  ) then
+    v_report.signoff_roles :=
+      public._signoff_roles_for_project(v_report.project_id);
+  end if;
+
+  if exists (
+    select 1 from public.audit_signatures
+     where audit_report_id = v_report.id
+       and invalidated_at is null
+       and signer_id = v_actor
+  ) then
+    raise exception using errcode = 'P0004', message = 'signer_already_signed';
+  end if;
+
+  select r into v_next_role
+    from unnest(v_report.signoff_roles) with ordinality u(r, i)
+   where not exists (
+     select 1 from public.audit_signatures s
+      where s.audit_report_id = v_report.id
+        and s.invalidated_at is null
+        and s.signoff_role = u.r
+   )
+   order by i
+   limit 1;
+  if v_role is null or v_role is distinct from v_next_role then
+    raise exception using errcode = 'P0004', message = 'signoff_role_mismatch';
+  end if;
+
+  -- Any firm user may sign as reviewer; the other slots need the matching
+  -- users.role.
+  if v_role <> 'reviewer' and v_actor_role is distinct from v_role then
+    raise exception using errcode = 'P0004', message = 'signer_role_not_allowed';
+  end if;
+
+  insert into public.audit_signatures
+    (audit_report_id, signer_id, signer_name_snapshot, signer_role_snapshot,
+     signature_hash, canonical_payload, signoff_role, algorithm, key_id)
+  values
+    (v_report.id, v_actor, v_actor_name, v_actor_role,
+     p_signature_hash, p_canonical_payload, v_role, 'ed25519', v_key_id)
+  returning id into v_signature_id;
+
+  v_remaining := cardinality(v_report.signoff_roles) - (
+    select count(*) from public.audit_signatures
+     where audit_report_id = v_report.id and invalidated_at is null
+  );
+
+  if v_remaining > 0 then
+    update public.audit_reports
+       set status = 'partially_signed',
+           signoff_roles = v_report.signoff_roles
+     where id = p_audit_report_id
+     returning * into v_report;
+  else
+    update public.audit_reports
+       set status = 'finalized',
+           signoff_roles = v_report.signoff_roles,
+           finalized_at = now(),
+           report_snapshot = v_snapshot
+     where id = p_audit_report_id
+     returning * into v_report;
+
+    if v_report.previous_version_id is not null then
+      update public.audit_reports
+         set status = 'revised'
+       where id = v_report.previous_version_id;
+    end if;
+  end if;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_report.project_id, v_report.id, 'sign_off', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'signature_id', v_signature_id,
+      'signature_hash', p_signature_hash,
+      'key_id', v_key_id,
+      'signoff_role', v_role,
+      'signatures_remaining', v_remaining,
+      'version_major', v_report.version_major,
+      'version_minor', v_report.version_minor,
+      'predecessor_id', v_report.previous_version_id
+    )
+  );
+
+  return v_report;
+end;
+$$;
@@ -0,0 +1,343 @@
+-- ============================================================
+-- ClearPress AI — Embargo and blackouts at send time
+--
+-- WHAT
+-- ----
+-- 0036 enforces an embargo when a send is queued or moved, and
+-- set_project_scheduling_rules refuses to enforce one over deliveries
+-- already scheduled before the lift. Nothing looked again when the send
+-- went out: a send-now delivery still rendering when the embargo was
+-- enforced, or a row queued while the embargo was off, was sent anyway,
+-- and a blackout created after a send was scheduled did not stop it.
+--
+--   claim_scheduled_sends — holds a due row while its project's enforced
+--                         embargo has not lifted, and while an active
+--                         blackout covers now unless the row's
+--                         acknowledged warnings include blackout_window.
+--                         A held row stays queued, unleased and with its
+--                         attempts untouched; the first tick after the
+--                         lift (or the blackout) sends it.
+--   retry_delivery       — refuses with embargo_not_lifted before the
+--                         lift. The re-queued row is due now, so it
+--                         would only be held.
+--   set_project_scheduling_rules — embargo_conflicts_scheduled also
+--                         counts send-now deliveries still in flight
+--                         (status 'draft', created in the last 10
+--                         minutes), not only scheduled ones.
+--
+-- send-delivery re-checks the embargo with _embargo_blocks right before
+-- its send-now path sends.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0042 --linked
+-- Deploy send-delivery afterwards.
+-- ============================================================
+
+-- ============================================================
+-- 1. RPC: claim_scheduled_sends
+-- ============================================================
+-- Unchanged from 0035 apart from the hold in `due`; CREATE OR REPLACE
+-- preserves the grant.
+create or replace function public.claim_scheduled_sends(
+  p_worker text,
+  p_limit int,
+  p_lease_seconds int,
+  p_max_attempts int
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_expired jsonb;
+  v_expired_ids uuid[];
+  v_claimed jsonb;
+  v_row record;
+  v_blackout boolean;
+begin
+  if auth.role() <> 'service_role' then
+    raise exception using errcode = 'P0004', message = 'not_service_role';
+  end if;
+  if p_worker is null or btrim(p_worker) = ''
+     or p_limit is null or p_limit < 1
+     or p_lease_seconds is null or p_lease_seconds < 1
+     or p_max_attempts is null or p_max_attempts < 1 then
+    raise exception using errcode = 'P0004', message = 'claim_invalid';
+  end if;
+
+  -- Expired leases: the holder stopped heartbeating. Rows another claim
+  -- is settling right now are skipped; that claim reports them.
+  with stale as (
+    select id, leased_by
+      from public.scheduled_sends
+     where processed = false
+       and leased_until <= now()
+     for update skip locked
+  ), settled as (
+    update public.scheduled_sends s
+       set attempts = s.attempts + 1,
+           error_message = 'lease_expired: ' || stale.leased_by,
+           leased_until = null,
+           leased_by = null
+      from stale
+     where s.id = stale.id
+    returning s.id, s.delivery_id, s.attempts, s.error_message, stale.leased_by
+  )
+  select coalesce(array_agg(id), '{}'),
+         coalesce(jsonb_agg(jsonb_build_object(
+           'id', id,
+           'delivery_id', delivery_id,
+           'leased_by', leased_by,
+           'attempts_after', attempts,
+           'failed', attempts >= p_max_attempts
+         )), '[]'::jsonb)
+    into v_expired_ids, v_expired
+    from settled;
+
+  for v_row in
+    select delivery_id, error_message from public.scheduled_sends
+     where id = any(v_expired_ids) and attempts >= p_max_attempts
+  loop
+    perform public.mark_delivery_failed(v_row.delivery_id, v_row.error_message);
+  end loop;
+
+  -- Windows are half-open, like getMatchingBlackouts in the browser.
+  select exists (
+    select 1 from public.scheduling_blackouts
+     where active and starts_at <= now() and now() < ends_at
+  ) into v_blackout;
+
+  -- Held rows (enforced embargo, unacknowledged blackout) are not leased.
+  -- scheduling_warnings null: the ones in delivery_snapshot still apply.
+  with due as (
+    select s.id
+      from public.scheduled_sends s
+      join public.deliveries d on d.id = s.delivery_id
+     where s.processed = false
+       and s.leased_until is null
+       and s.attempts < p_max_attempts
+       and s.scheduled_for <= now()
+       and not public._embargo_blocks(d.project_id, now())
+       and not (
+         v_blackout
+         and not coalesce(
+           s.scheduling_warnings,
+           d.delivery_snapshot->'scheduling_warnings',
+           '[]'::jsonb
+         ) ? 'blackout_window'
+       )
+     order by s.scheduled_for
+     limit p_limit
+     for update of s skip locked
+  ), leased as (
+    update public.scheduled_sends s
+       set leased_until = now() + make_interval(secs => p_lease_seconds),
+           leased_by = p_worker
+      from due
+     where s.id = due.id
+    returning s.*
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'id', id,
+           'delivery_id', delivery_id,
+           'scheduled_for', scheduled_for,
+           'attempts', attempts,
+           'manual_retries', manual_retries,
+           'leased_until', leased_until,
+           'reclaimed', id = any(v_expired_ids)
+         ) order by scheduled_for), '[]'::jsonb)
+    into v_claimed
+    from leased;
+
+  return jsonb_build_object('claimed', v_claimed, 'expired', v_expired);
+end;
+$$;
+
+-- ============================================================
+-- 2. RPC: retry_delivery
+-- ============================================================
+-- Unchanged from 0034 apart from the embargo gate; CREATE OR REPLACE
+-- preserves the grant.
+create or replace function public.retry_delivery(
+  p_delivery_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_delivery public.deliveries;
+  v_send public.scheduled_sends;
+  v_had_send boolean;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_delivery from public.deliveries
+   where id = p_delivery_id for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'delivery_not_found';
+  end if;
+  if v_delivery.status <> 'failed' then
+    raise exception using errcode = 'P0004', message = 'delivery_not_failed';
+  end if;
+  if public._embargo_blocks(v_delivery.project_id, now()) then
+    raise exception using errcode = 'P0004', message = 'embargo_not_lifted';
+  end if;
+
+  select * into v_send from public.scheduled_sends
+   where delivery_id = p_delivery_id for update;
+  v_had_send := found;
+  if v_had_send and v_send.error_message like 'mark_delivery_sent_%' then
+    raise exception using errcode = 'P0004', message = 'delivery_send_unreconciled';
+  end if;
+
+  if v_had_send then
+    update public.scheduled_sends
+       set scheduled_for = now(),
+           scheduling_warnings = '[]'::jsonb,
+           attempts = 0,
+           error_message = null,
+           manual_retries = manual_retries + 1
+     where id = v_send.id;
+  else
+    insert into public.scheduled_sends
+      (delivery_id, scheduled_for, scheduling_warnings, manual_retries)
+    values (p_delivery_id, now(), '[]'::jsonb, 1);
+  end if;
+
+  -- After the row exists: the trigger un-marks it processed.
+  update public.deliveries
+     set status = 'scheduled'
+   where id = p_delivery_id
+   returning * into v_delivery;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, audit_report_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    v_delivery.project_id, v_delivery.audit_report_id, 'delivery_retried', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'delivery_id', v_delivery.id,
+      'recipient_email', v_delivery.recipient_email,
+      'previous_error', case when v_had_send then v_send.error_message end,
+      'previous_attempts', case when v_had_send then v_send.attempts else 0 end,
+      'manual_retries', case when v_had_send then v_send.manual_retries + 1 else 1 end
+    )
+  );
+
+  return jsonb_build_object(
+    'delivery_id', v_delivery.id,
+    'status', v_delivery.status
+  );
+end;
+$$;
+
+-- ============================================================
+-- 3. RPC: set_project_scheduling_rules
+-- ============================================================
+-- Unchanged from 0036 apart from the conflict check; CREATE OR REPLACE
+-- preserves the grant.
+create or replace function public.set_project_scheduling_rules(
+  p_project_id uuid,
+  p_embargo_lift_at timestamptz,
+  p_embargo_label text,
+  p_embargo_enforced boolean,
+  p_market_hours_sensitive boolean
+) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_project public.projects;
+  v_label text := nullif(btrim(coalesce(p_embargo_label, '')), '');
+  v_enforced boolean := coalesce(p_embargo_enforced, false);
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  select * into v_project
+    from public.projects
+   where id = p_project_id
+   for update;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'project_not_found';
+  end if;
+
+  if length(v_label) > 200 then
+    raise exception using errcode = 'P0004', message = 'embargo_label_invalid';
+  end if;
+  if v_enforced and p_embargo_lift_at is null then
+    raise exception using errcode = 'P0004', message = 'embargo_lift_required';
+  end if;
+
+  -- Deliveries queued before the lift would otherwise be held until it,
+  -- and a send-now delivery still rendering would go out regardless. A
+  -- draft older than 10 minutes belongs to a send-delivery call that died
+  -- (Edge Functions are stopped well before that) and will never send.
+  if v_enforced and (
+    exists (
+      select 1
+        from public.deliveries d
+        join public.scheduled_sends s on s.delivery_id = d.id
+       where d.project_id = p_project_id
+         and d.status = 'scheduled'
+         and not s.processed
+         and s.scheduled_for < p_embargo_lift_at
+    )
+    or (
+      now() < p_embargo_lift_at
+      and exists (
+        select 1
+          from public.deliveries d
+         where d.project_id = p_project_id
+           and d.status = 'draft'
+           and d.created_at > now() - interval '10 minutes'
+      )
+    )
+  ) then
+    raise exception using errcode = 'P0004', message = 'embargo_conflicts_scheduled';
+  end if;
+
+  update public.projects
+     set embargo_lift_at = p_embargo_lift_at,
+         embargo_label = case when p_embargo_lift_at is null then null else v_label end,
+         embargo_enforced = v_enforced,
+         market_hours_sensitive = coalesce(p_market_hours_sensitive, false),
+         updated_at = now()
+   where id = p_project_id
+   returning * into v_project;
+
+  select full_name into v_actor_name from public.users where id = v_actor;
+
+  insert into public.audit_trail_events
+    (project_id, event_type, actor_type, actor_id, actor_name_snapshot, details)
+  values (
+    p_project_id, 'scheduling_rules_updated', 'user', v_actor, v_actor_name,
+    jsonb_build_object(
+      'embargo_lift_at', v_project.embargo_lift_at,
+      'embargo_label', v_project.embargo_label,
+      'embargo_enforced', v_project.embargo_enforced,
+      'market_hours_sensitive', v_project.market_hours_sensitive
+    )
+  );
+
+  return jsonb_build_object(
+    'project_id', v_project.id,
+    'embargo_lift_at', v_project.embargo_lift_at,
+    'embargo_label', v_project.embargo_label,
+    'embargo_enforced', v_project.embargo_enforced,
+    'market_hours_sensitive', v_project.market_hours_sensitive
+  );
+end;
+$$;
@@ -0,0 +1,44 @@
+-- ============================================================
+-- ClearPress AI — deliveries.created_by is server-owned
+--
+-- WHAT
+-- ----
+-- The send path sends a delivery from its creator's connected mailbox
+-- (0033, _shared/delivery-sender.ts), looked up from
+-- deliveries.created_by when the email goes out. The column only had a
+-- default, and the uniform RLS policy lets any authenticated user insert
+-- and update deliveries directly, so pointing a scheduled delivery's
+-- created_by at a colleague sent it from the colleague's mailbox.
+--
+--   trg_deliveries_created_by_guard — BEFORE INSERT OR UPDATE.
+--                         An insert by a signed-in user records auth.uid()
+--                         whatever the row says; the service role (no
+--                         auth.uid()) keeps what it passes. An update
+--                         that changes created_by raises
+--                         delivery_created_by_immutable.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0043 --linked
+-- ============================================================
+
+create or replace function public._guard_delivery_created_by()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if auth.uid() is not null then
+      new.created_by := auth.uid();
+    end if;
+  elsif new.created_by is distinct from old.created_by then
+    raise exception using errcode = 'P0004', message = 'delivery_created_by_immutable';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger trg_deliveries_created_by_guard
+  before insert or update of created_by on public.deliveries
+  for each row execute function public._guard_delivery_created_by();
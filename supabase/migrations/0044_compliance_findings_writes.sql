@@ -0,0 +1,79 @@
+-- ============================================================
+-- ClearPress AI — compliance_findings written through RPCs only
+--
+-- WHAT
+-- ----
+-- 0038 gates the `source` of findings written by record_compliance_check,
+-- but the uniform RLS policy still let any authenticated user insert,
+-- update and delete compliance_findings directly, e.g. a finding marked
+-- 'manual' with someone else's created_by. Clients lose INSERT, UPDATE
+-- and DELETE on the table; every write goes through a DEFINER RPC:
+--
+--   record_compliance_check — now SECURITY DEFINER (was INVOKER, so it
+--                         wrote with the caller's privileges). Body
+--                         unchanged from 0038. EXECUTE revoked from
+--                         public and anon.
+--   reopen_finding          — new. Puts an acknowledged or fixed finding
+--                         back to unresolved; useReopenFinding wrote the
+--                         row directly. Not audit-bearing, as before.
+--
+-- acknowledge_finding, apply_fix, add_manual_finding and
+-- regenerate_variant are already DEFINER.
+--
+-- HOW TO APPLY (per CLAUDE.md convention)
+-- ---------------------------------------
+-- Paste into the Supabase dashboard SQL editor, then
+--   npx supabase migration repair --status applied 0044 --linked
+-- ============================================================
+
+-- ------------------------------------------------------------
+-- 1. Table privileges
+-- ------------------------------------------------------------
+revoke insert, update, delete on public.compliance_findings
+  from anon, authenticated;
+
+-- ------------------------------------------------------------
+-- 2. record_compliance_check: DEFINER
+-- ------------------------------------------------------------
+alter function public.record_compliance_check(uuid, uuid, jsonb, jsonb, text)
+  security definer
+  set search_path = public;
+
+revoke all on function public.record_compliance_check(uuid, uuid, jsonb, jsonb, text)
+  from public, anon;
+grant execute on function public.record_compliance_check(uuid, uuid, jsonb, jsonb, text)
+  to authenticated, service_role;
+
+-- ------------------------------------------------------------
+-- 3. RPC: reopen_finding
+-- ------------------------------------------------------------
+create or replace function public.reopen_finding(p_finding_id uuid)
+returns public.compliance_findings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := auth.uid();
+  v_finding public.compliance_findings;
+begin
+  if v_actor is null then
+    raise exception using errcode = 'P0004', message = 'not_authenticated';
+  end if;
+
+  update public.compliance_findings
+     set resolution_status = 'unresolved',
+         resolved_by = null,
+         resolved_at = null
+   where id = p_finding_id
+   returning * into v_finding;
+  if not found then
+    raise exception using errcode = 'P0004', message = 'finding_not_found';
+  end if;
+
+  return v_finding;
+end;
+$$;
+
+revoke all on function public.reopen_finding(uuid) from public, anon;
+grant execute on function public.reopen_finding(uuid) to authenticated;
@@ -0,0 +1,73 @@
+-- ============================================================
+-- ClearPress AI — operational wiring: pg_cron feedback reminders
+--
+-- WHAT
+-- ----
+-- Schedules the `process-feedback-reminders` Edge Function hourly. Each tick
+-- sends the day-7 reminder for deliveries whose feedback link is still
+-- unused, and records `feedback_expired` / project status 'no_feedback' for
+-- links that lapsed at day 30 (migration 0018). Without this job
+-- feedback_tokens.reminder_sent_at and expired_at are never set.
+--
+-- Hourly, not every minute: the reminder threshold is measured in days, so
+-- a reminder lands at most an hour after it falls due.
+--
+-- WHY THIS ISN'T A NUMBERED MIGRATION
+-- -----------------------------------
+-- Same rationale as op_phase5_pg_cron.sql: operator-driven, with external
+-- preconditions that can't live in schema.
+--
+-- PRECONDITIONS
+-- -------------
+-- Identical to op_phase5_pg_cron.sql (pg_cron + pg_net enabled, Vault secret
+-- 'service_role_key', PUBLIC_FEEDBACK_URL_BASE function secret). Migration
+-- 0018 must be applied first. Seed timing / template with
+-- op_feedback_reminder_seed.sql (optional — defaults apply without it).
+--
+-- HOW TO APPLY
+-- ------------
+-- Paste the entire body below into the Supabase dashboard SQL editor for
+-- project hsdqvlnzorjzxfaqijns and run. Idempotent — the DO block drops any
+-- existing job of the same name before rescheduling.
+--
+-- VERIFICATION
+-- ------------
+--   select jobid, schedule, jobname, active from cron.job
+--     where jobname = 'process-feedback-reminders';
+--   select status, return_message, start_time
+--     from cron.job_run_details
+--     where jobid = (select jobid from cron.job where jobname='process-feedback-reminders')
+--     order by start_time desc limit 5;
+--
+-- TO DISABLE
+-- ----------
+--   select cron.unschedule('process-feedback-reminders');
+-- ============================================================
+
+do $$
+begin
+  if exists (select 1 from cron.job where jobname = 'process-feedback-reminders') then
+    perform cron.unschedule('process-feedback-reminders');
+  end if;
+end $$;
+
+select cron.schedule(
+  'process-feedback-reminders',
+  '15 * * * *',
+  $cron$
+  select net.http_post(
+    url := 'https://hsdqvlnzorjzxfaqijns.supabase.co/functions/v1/process-feedback-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization',
+      'Bearer ' || (
+        select decrypted_secret
+        from vault.decrypted_secrets
+        where name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 55000
+  );
+  $cron$
+);
@@ -0,0 +1,74 @@
+-- ============================================================
+-- ClearPress AI — operational seed: feedback reminder timing + template
+--
+-- WHAT
+-- ----
+-- Seeds the `app_config` rows process-feedback-reminders reads on every
+-- tick (see _shared/feedback-reminder.ts for parsing):
+--
+--   FEEDBACK_REMINDER_AFTER_DAYS — whole days after deliveries.sent_at
+--                                  before the single reminder goes out.
+--                                  PRD §8 decision 5: 7.
+--   FEEDBACK_REMINDER_SUBJECT    — subject template
+--   FEEDBACK_REMINDER_BODY_TEXT  — plain-text body template; the HTML
+--                                  part is derived from it
+--
+-- Placeholders: {{PROJECT_NAME}}, {{ORIGINAL_SUBJECT}}, {{FEEDBACK_LINK}},
+-- {{EXPIRES_ON}} (JST date, YYYY-MM-DD).
+--
+-- All three rows are optional — a missing or blank row falls back to the
+-- built-in default, so the function works before this seed is applied.
+-- Token expiry itself (30 days) is set by create_delivery, not here.
+--
+-- WHY THIS ISN'T A NUMBERED MIGRATION
+-- -----------------------------------
+-- `op_` prefix -> `supabase db push --linked` ignores it. Applying is a
+-- manual operator step, same as op_phase5_app_config_seed.sql.
+--
+-- HOW TO APPLY
+-- ------------
+-- Paste this body into the Supabase dashboard SQL editor for project
+-- hsdqvlnzorjzxfaqijns and run. Idempotent.
+--
+-- VERIFICATION
+-- ------------
+--   select key, value from public.app_config
+--   where key like 'FEEDBACK_REMINDER_%' order by key;
+-- ============================================================
+
+insert into public.app_config (key, value)
+values ('FEEDBACK_REMINDER_AFTER_DAYS', '7')
+on conflict (key) do update
+  set value = excluded.value,
+      updated_at = now();
+
+insert into public.app_config (key, value)
+values (
+  'FEEDBACK_REMINDER_SUBJECT',
+  '【ご確認のお願い】{{ORIGINAL_SUBJECT}} / Reminder: {{PROJECT_NAME}}'
+)
+on conflict (key) do update
+  set value = excluded.value,
+      updated_at = now();
+
+insert into public.app_config (key, value)
+values (
+  'FEEDBACK_REMINDER_BODY_TEXT',
+  E'先日お送りした「{{PROJECT_NAME}}」の原稿について、ご感想をお聞かせいただけますと幸いです。\n'
+  'ご回答は1分ほどで完了します。\n'
+  '\n'
+  '{{FEEDBACK_LINK}}\n'
+  '\n'
+  '回答期限: {{EXPIRES_ON}}\n'
+  '\n'
+  '---\n'
+  '\n'
+  'A quick reminder: we would value your feedback on the drafts we sent for "{{PROJECT_NAME}}". It takes about a minute.\n'
+  '\n'
+  '{{FEEDBACK_LINK}}\n'
+  '\n'
+  'The link expires on {{EXPIRES_ON}}.'
+)
+on conflict (key) do update
+  set value = excluded.value,
+      updated_at = now();